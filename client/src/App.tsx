@@ -30,12 +30,15 @@ import ProductDetails from "./pages/products/ProductDetails";
 import ProductCategoriesPage from "./pages/products/ProductCategoriesPage";
 import ProductSubcategoriesPage from "./pages/products/ProductSubcategoriesPage";
 import OrdersPage from "./pages/orders/OrdersPage";
+import ReturnsPage from "./pages/returns/ReturnsPage";
 import CustomersPage from "./pages/customers/CustomersPage";
 import StoreDesignPage from "./pages/store/StoreDesignPage";
 import StorefrontPage from "./pages/store/StorefrontPage";
 import CategoryPage from "./pages/store/CategoryPage";
 import PaymentSettingsPage from "./pages/payments/PaymentSettingsPage";
+import ShippingSettingsPage from "./pages/shipping/ShippingSettingsPage";
 import UsersManagementPage from "./pages/admin/UsersManagementPage";
+import JobsPage from "./pages/admin/JobsPage";
 import MarketingPage from "./pages/marketing/MarketingPage";
 import ReportsPage from "./pages/reports/ReportsPage";
 import SubscriptionPage from "./pages/vendor/SubscriptionPage";
@@ -607,6 +610,11 @@ function Router({
           <UsersManagementPage />
         </PrivateRoute>
       </Route>
+      <Route path="/jobs">
+        <PrivateRoute roles={["super_admin"]}>
+          <JobsPage />
+        </PrivateRoute>
+      </Route>
       <Route path="/settings">
         <PrivateRoute roles={["super_admin"]}>
           <SettingsPage />
@@ -646,6 +654,11 @@ function Router({
           <OrdersPage />
         </PrivateRoute>
       </Route>
+      <Route path="/returns">
+        <PrivateRoute roles={["vendor"]}>
+          <ReturnsPage />
+        </PrivateRoute>
+      </Route>
       <Route path="/customers">
         <PrivateRoute roles={["vendor"]}>
           <CustomersPage />
@@ -668,6 +681,12 @@ function Router({
         </PrivateRoute>
       </Route>
 
+      <Route path="/shipping-settings">
+        <PrivateRoute roles={["vendor"]}>
+          <ShippingSettingsPage />
+        </PrivateRoute>
+      </Route>
+
       <Route path="/marketing">
         <PrivateRoute roles={["vendor"]}>
           <MarketingPage />
@@ -15,6 +15,8 @@ import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useCheckoutStep } from "@/hooks/use-storefront-tracking";
+import { trackStorefrontEvent } from "@/lib/storefrontTracking";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
@@ -22,7 +24,9 @@ import { useLocation } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { AddressList } from "./AddressList";
+import { ShippingOptions, type ShippingDestination } from "./ShippingOptions";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GatewayPayment, type PaymentProvider, type PaymentResult, type PaymentSession } from "./GatewayPayment";
 
 interface CustomerAddress {
   id: number;
@@ -48,7 +52,8 @@ const checkoutFormSchema = z.object({
     postalCode: z.string().min(1, "Postal code is required"),
     country: z.string().min(1, "Country is required"),
   }),
-  paymentMethod: z.enum(["cod", "paypal", "stripe"], {
+  shippingRateId: z.number().optional(),
+  paymentMethod: z.enum(["cod", "stripe", "paypal", "razorpay"], {
     required_error: "Please select a payment method",
   }),
   notes: z.string().optional(),
@@ -56,6 +61,18 @@ const checkoutFormSchema = z.object({
 
 type CheckoutFormValues = z.infer<typeof checkoutFormSchema>;
 
+const PAYMENT_METHOD_LABELS: Record<CheckoutFormValues["paymentMethod"], string> = {
+  cod: "Cash on Delivery (COD)",
+  stripe: "Credit/Debit Card",
+  paypal: "PayPal",
+  razorpay: "UPI, Cards & Netbanking (Razorpay)",
+};
+
+interface PaymentOptions {
+  providers: { provider: PaymentProvider; isTest: boolean }[];
+  cashOnDelivery: boolean;
+}
+
 interface CheckoutFormProps {
   vendorId: number;
   onSuccess?: (orderId: number) => void;
@@ -67,6 +84,17 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
   const [step, setStep] = useState<"shipping" | "payment" | "review">("shipping");
   const [addressTab, setAddressTab] = useState<"saved" | "new">("saved");
   const [selectedAddress, setSelectedAddress] = useState<CustomerAddress | null>(null);
+  const [shippingRequired, setShippingRequired] = useState(false);
+  // An online payment waiting to be made for the order just placed
+  const [pendingPayment, setPendingPayment] = useState<{ orderId: number; session: PaymentSession } | null>(null);
+  const [paymentFailed, setPaymentFailed] = useState(false);
+  useCheckoutStep(vendorId, pendingPayment ? "payment" : "details");
+
+  // Only the gateways the store has set up can be chosen
+  const { data: paymentOptions } = useQuery<PaymentOptions>({
+    queryKey: [`/api/stores/${vendorId}/payment-options`],
+  });
+  const availableProviders = new Set(paymentOptions?.providers.map(option => option.provider) ?? []);
   
   // Check if user is authenticated
   const { data: user, isLoading: isLoadingUser } = useQuery({
@@ -116,6 +144,16 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
     }
   }, [selectedAddress, form]);
 
+  // Shipping options are shown once we know where the order is going
+  const newAddress = form.watch("shippingAddress");
+  const shippingRateId = form.watch("shippingRateId");
+  const shippingDestination: ShippingDestination | null =
+    isAuthenticated && addressTab === "saved"
+      ? selectedAddress ? { addressId: selectedAddress.id } : null
+      : newAddress.state && newAddress.postalCode && newAddress.country
+        ? { country: newAddress.country, state: newAddress.state, postalCode: newAddress.postalCode }
+        : null;
+
   // Checkout mutation
   const checkout = useMutation({
     mutationFn: async (data: CheckoutFormValues) => {
@@ -131,12 +169,20 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
         title: "Order placed successfully",
         description: `Your order #${data.orderNumber} has been placed successfully`,
       });
-      
-      if (onSuccess) {
-        onSuccess(data.id);
-      } else {
-        setLocation(`/order-confirmation/${data.id}?vendorId=${vendorId}`);
+
+      // Online orders aren't confirmed until they're paid for
+      if (data.payment) {
+        setPendingPayment({ orderId: data.id, session: data.payment });
+        return;
       }
+      if (data.paymentError) {
+        toast({
+          title: "Payment couldn't be started",
+          description: `${data.paymentError}. You can pay for the order from its confirmation page.`,
+          variant: "destructive",
+        });
+      }
+      finishCheckout(data.id, data.paymentError ? "failed" : undefined);
     },
     onError: (error) => {
       toast({
@@ -148,6 +194,55 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
     },
   });
 
+  const finishCheckout = (orderId: number, payment?: PaymentResult) => {
+    if (onSuccess) {
+      onSuccess(orderId);
+    } else {
+      // Orders left unpaid don't count as conversions
+      if (payment !== "failed") {
+        trackStorefrontEvent(vendorId, { type: "checkout_step", step: "confirmation" });
+      }
+      setLocation(`/order-confirmation/${orderId}?vendorId=${vendorId}${payment ? `&payment=${payment}` : ""}`);
+    }
+  };
+
+  // Start a fresh payment after one failed
+  const retryPayment = useMutation({
+    mutationFn: async (orderId: number) => {
+      const res = await apiRequest("POST", `/api/orders/${orderId}/payment`, {
+        provider: pendingPayment?.session.provider,
+      });
+      return { orderId, session: (await res.json()).payment as PaymentSession };
+    },
+    onSuccess: (payment) => {
+      setPaymentFailed(false);
+      setPendingPayment(payment);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Payment couldn't be started", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handlePaymentResult = (status: PaymentResult) => {
+    if (!pendingPayment) return;
+    if (status === "failed") {
+      setPaymentFailed(true);
+      toast({
+        title: "Payment failed",
+        description: "Your payment didn't go through. You can try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: status === "completed" ? "Payment received" : "Payment processing",
+      description: status === "completed"
+        ? "Thank you, your order has been paid for"
+        : "We'll confirm your order as soon as the payment clears",
+    });
+    finishCheckout(pendingPayment.orderId, status);
+  };
+
   // Submit handler
   const onSubmit = (values: CheckoutFormValues) => {
     checkout.mutate(values);
@@ -158,6 +253,14 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
     if (step === "shipping") {
       // Validate shipping fields
       const shippingValid = await form.trigger("shippingAddress");
+      if (shippingValid && shippingRequired && !form.getValues("shippingRateId")) {
+        toast({
+          title: "Shipping method required",
+          description: "Please choose how you'd like your order delivered",
+          variant: "destructive",
+        });
+        return;
+      }
       if (shippingValid) {
         setStep("payment");
       }
@@ -179,6 +282,33 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
     }
   };
 
+  if (pendingPayment) {
+    return paymentFailed ? (
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Failed</CardTitle>
+          <CardDescription>Your order has been placed but not paid for yet</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-4">
+          <Button disabled={retryPayment.isPending} onClick={() => retryPayment.mutate(pendingPayment.orderId)}>
+            {retryPayment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Try Again
+          </Button>
+          <Button variant="outline" onClick={() => finishCheckout(pendingPayment.orderId, "failed")}>
+            Pay Later
+          </Button>
+        </CardContent>
+      </Card>
+    ) : (
+      <GatewayPayment
+        key={pendingPayment.session.sessionId}
+        orderId={pendingPayment.orderId}
+        payment={pendingPayment.session}
+        onResult={handlePaymentResult}
+      />
+    );
+  }
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
@@ -373,6 +503,14 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
                   </div>
                 </>
               )}
+              {shippingDestination && (
+                <ShippingOptions
+                  destination={shippingDestination}
+                  value={shippingRateId}
+                  onChange={(rateId) => form.setValue("shippingRateId", rateId)}
+                  onRequiredChange={setShippingRequired}
+                />
+              )}
               <div className="flex justify-end">
                 <Button type="button" onClick={handleNextStep}>
                   Next: Payment
@@ -403,21 +541,24 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
                         <div className="flex items-center space-x-2">
                           <RadioGroupItem value="cod" id="cod" />
                           <FormLabel htmlFor="cod" className="font-normal cursor-pointer">
-                            Cash on Delivery (COD)
-                          </FormLabel>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="paypal" id="paypal" disabled />
-                          <FormLabel htmlFor="paypal" className="font-normal cursor-pointer text-muted-foreground">
-                            PayPal (Coming Soon)
-                          </FormLabel>
-                        </div>
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem value="stripe" id="stripe" disabled />
-                          <FormLabel htmlFor="stripe" className="font-normal cursor-pointer text-muted-foreground">
-                            Credit/Debit Card (Coming Soon)
+                            {PAYMENT_METHOD_LABELS.cod}
                           </FormLabel>
                         </div>
+                        {(["stripe", "razorpay", "paypal"] as const).map((provider) => {
+                          const available = availableProviders.has(provider);
+                          return (
+                            <div key={provider} className="flex items-center space-x-2">
+                              <RadioGroupItem value={provider} id={provider} disabled={!available} />
+                              <FormLabel
+                                htmlFor={provider}
+                                className={`font-normal cursor-pointer ${available ? "" : "text-muted-foreground"}`}
+                              >
+                                {PAYMENT_METHOD_LABELS[provider]}
+                                {!available && " (Not Available)"}
+                              </FormLabel>
+                            </div>
+                          );
+                        })}
                       </RadioGroup>
                     </FormControl>
                     <FormMessage />
@@ -520,11 +661,7 @@ export function CheckoutForm({ vendorId, onSuccess }: CheckoutFormProps) {
                 <h3 className="font-medium">Payment Method</h3>
                 <div className="flex flex-row items-center gap-2">
                   <p className="flex-1 text-sm text-muted-foreground">
-                    {form.getValues("paymentMethod") === "cod"
-                      ? "Cash on Delivery"
-                      : form.getValues("paymentMethod") === "paypal"
-                      ? "PayPal"
-                      : "Credit/Debit Card"}
+                    {PAYMENT_METHOD_LABELS[form.getValues("paymentMethod")]}
                   </p>
                   <Button 
                     type="button" 
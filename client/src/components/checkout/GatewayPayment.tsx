@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useState } from "react";
+import { loadStripe } from "@stripe/stripe-js";
+import { Elements, PaymentElement, useElements, useStripe } from "@stripe/react-stripe-js";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+
+export type PaymentProvider = "stripe" | "paypal" | "razorpay";
+
+// A payment started with one of the store's gateways, as returned by checkout
+export interface PaymentSession {
+  provider: PaymentProvider;
+  sessionId: string;
+  amount: string;
+  currency: string;
+  clientData: Record<string, any>;
+}
+
+export type PaymentResult = "completed" | "pending" | "failed";
+
+interface GatewayPaymentProps {
+  orderId: number;
+  payment: PaymentSession;
+  // Called once the server has checked the payment with the gateway
+  onResult: (status: PaymentResult) => void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: Record<string, unknown>) => { open(): void; on(event: string, handler: (response: any) => void): void };
+  }
+}
+
+const RAZORPAY_CHECKOUT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+function loadRazorpay(): Promise<void> {
+  if (window.Razorpay) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = RAZORPAY_CHECKOUT_URL;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Couldn't load Razorpay checkout"));
+    document.body.appendChild(script);
+  });
+}
+
+async function confirmPayment(orderId: number, sessionId: string, details?: Record<string, unknown>) {
+  const res = await apiRequest("POST", `/api/orders/${orderId}/payment/confirm`, { sessionId, details });
+  const data = await res.json();
+  return data.status as PaymentResult;
+}
+
+function StripePaymentForm({ orderId, payment, onResult }: GatewayPaymentProps) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setProcessing(true);
+    setError(null);
+    try {
+      const { error: paymentError } = await stripe.confirmPayment({
+        elements,
+        confirmParams: {
+          // Only used by payment methods that leave the page
+          return_url: `${window.location.origin}/api/orders/${orderId}/payment/return?sessionId=${payment.sessionId}`,
+        },
+        redirect: "if_required",
+      });
+      if (paymentError) {
+        setError(paymentError.message || "Your payment couldn't be processed");
+        return;
+      }
+      onResult(await confirmPayment(orderId, payment.sessionId));
+    } catch (err: any) {
+      setError(err.message || "Your payment couldn't be processed");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Payment Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <PaymentElement />
+      <Button type="submit" className="w-full" disabled={!stripe || !elements || processing}>
+        {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pay Now
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Takes payment for an order with the gateway checkout started: Stripe's
+ * card form, Razorpay's checkout, or PayPal's approval page. The order is
+ * only marked paid once the server has checked with the gateway.
+ */
+export function GatewayPayment({ orderId, payment, onResult }: GatewayPaymentProps) {
+  const { provider, clientData } = payment;
+  const [processing, setProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stripePromise = useMemo(
+    () => provider === "stripe" && clientData.publishableKey ? loadStripe(clientData.publishableKey) : null,
+    [provider, clientData.publishableKey]
+  );
+
+  useEffect(() => {
+    if (provider === "razorpay" && !clientData.mock) {
+      loadRazorpay().catch(err => setError(err.message));
+    }
+  }, [provider, clientData.mock]);
+
+  const confirm = async (details?: Record<string, unknown>) => {
+    setProcessing(true);
+    setError(null);
+    try {
+      onResult(await confirmPayment(orderId, payment.sessionId, details));
+    } catch (err: any) {
+      setError(err.message || "Your payment couldn't be confirmed");
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const openRazorpay = async () => {
+    try {
+      await loadRazorpay();
+      const checkout = new window.Razorpay!({
+        key: clientData.keyId,
+        order_id: clientData.orderId,
+        amount: clientData.amount,
+        currency: clientData.currency,
+        description: clientData.description,
+        prefill: clientData.prefill,
+        // Razorpay signs the payment ID; the server checks it before the order counts as paid
+        handler: (response: Record<string, unknown>) => confirm(response),
+      });
+      checkout.on("payment.failed", (response) => setError(response.error?.description || "Your payment failed"));
+      checkout.open();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  let content: React.ReactNode;
+  if (clientData.mock) {
+    // Development gateways that don't take real money
+    content = (
+      <div className="flex gap-4">
+        <Button className="flex-1" disabled={processing} onClick={() => confirm({ outcome: "succeed" })}>
+          {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Simulate Successful Payment
+        </Button>
+        <Button variant="outline" className="flex-1" disabled={processing} onClick={() => confirm({ outcome: "fail" })}>
+          Simulate Failed Payment
+        </Button>
+      </div>
+    );
+  } else if (provider === "stripe" && stripePromise) {
+    content = (
+      <Elements stripe={stripePromise} options={{ clientSecret: clientData.clientSecret }}>
+        <StripePaymentForm orderId={orderId} payment={payment} onResult={onResult} />
+      </Elements>
+    );
+  } else if (provider === "razorpay") {
+    content = (
+      <Button className="w-full" disabled={processing} onClick={openRazorpay}>
+        {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Pay with Razorpay
+      </Button>
+    );
+  } else if (provider === "paypal" && clientData.approveUrl) {
+    content = (
+      <Button className="w-full" onClick={() => window.location.assign(clientData.approveUrl)}>
+        Continue to PayPal
+      </Button>
+    );
+  } else {
+    content = <p className="text-sm text-muted-foreground">This payment method isn't available right now.</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment</CardTitle>
+        <CardDescription>
+          Pay {new Intl.NumberFormat("en-IN", { style: "currency", currency: payment.currency }).format(parseFloat(payment.amount))} to complete your order
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Payment Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {content}
+      </CardContent>
+    </Card>
+  );
+}
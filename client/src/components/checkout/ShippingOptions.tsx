@@ -0,0 +1,154 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Loader2, Truck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ShippingOption {
+  rateId: number;
+  zoneId: number;
+  name: string;
+  amount: string;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+export interface ShippingQuote {
+  configured: boolean;
+  options: ShippingOption[];
+  selectedRateId: number | null;
+}
+
+// Where the cart is going: a saved address or the fields of a new one
+export type ShippingDestination =
+  | { addressId: number }
+  | { country: string; state: string; postalCode: string };
+
+interface ShippingOptionsProps {
+  destination: ShippingDestination;
+  value?: number;
+  onChange: (rateId: number | undefined) => void;
+  // Lets the form block the next step until a rate is picked when the store charges for shipping
+  onRequiredChange?: (required: boolean) => void;
+}
+
+const formatCurrency = (amount: string | number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(
+    typeof amount === "string" ? parseFloat(amount) : amount
+  );
+
+const formatDelivery = (option: ShippingOption) => {
+  if (option.minDeliveryDays == null && option.maxDeliveryDays == null) return null;
+  if (option.maxDeliveryDays == null || option.minDeliveryDays === option.maxDeliveryDays) {
+    return `Delivered in ${option.minDeliveryDays} days`;
+  }
+  if (option.minDeliveryDays == null) return `Delivered within ${option.maxDeliveryDays} days`;
+  return `Delivered in ${option.minDeliveryDays}-${option.maxDeliveryDays} days`;
+};
+
+export function ShippingOptions({ destination, value, onChange, onRequiredChange }: ShippingOptionsProps) {
+  const { toast } = useToast();
+  const query = new URLSearchParams(
+    "addressId" in destination
+      ? { addressId: String(destination.addressId) }
+      : { country: destination.country, state: destination.state, postalCode: destination.postalCode }
+  ).toString();
+
+  const { data: quote, isLoading } = useQuery({
+    queryKey: ['/api/cart/shipping-options', query],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/cart/shipping-options?${query}`);
+      return await res.json() as ShippingQuote;
+    }
+  });
+
+  // Save the choice on the cart so the order summary includes it
+  const selectRate = useMutation({
+    mutationFn: async (rateId: number) => {
+      const res = await apiRequest('PUT', `/api/cart/shipping?${query}`, { rateId });
+      return await res.json();
+    },
+    onSuccess: (cart) => {
+      queryClient.setQueryData(['/api/cart'], cart);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to choose shipping option",
+        variant: "destructive",
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (!quote) return;
+    onRequiredChange?.(quote.configured);
+
+    // Keep the current choice if it is still offered, otherwise take the cheapest
+    const current = quote.options.find(option => option.rateId === (value ?? quote.selectedRateId));
+    const next = current ?? quote.options[0];
+    if (next?.rateId !== value) {
+      onChange(next?.rateId);
+    }
+    if (next && next.rateId !== quote.selectedRateId) {
+      selectRate.mutate(next.rateId);
+    }
+  }, [quote]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        Loading shipping options...
+      </div>
+    );
+  }
+
+  if (!quote?.configured) {
+    return null;
+  }
+
+  if (quote.options.length === 0) {
+    return (
+      <p className="text-sm text-destructive">
+        Sorry, this store doesn't ship to the selected address.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium flex items-center">
+        <Truck className="mr-2 h-4 w-4" />
+        Shipping Method
+      </h3>
+      <RadioGroup
+        value={value?.toString()}
+        onValueChange={(rateId) => {
+          onChange(parseInt(rateId));
+          selectRate.mutate(parseInt(rateId));
+        }}
+        className="space-y-2"
+      >
+        {quote.options.map((option) => (
+          <div key={option.rateId} className="flex items-center justify-between rounded-md border p-3">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value={option.rateId.toString()} id={`shipping-rate-${option.rateId}`} />
+              <Label htmlFor={`shipping-rate-${option.rateId}`} className="font-normal cursor-pointer">
+                {option.name}
+                {formatDelivery(option) && (
+                  <span className="block text-xs text-muted-foreground">{formatDelivery(option)}</span>
+                )}
+              </Label>
+            </div>
+            <span className="text-sm font-medium">
+              {parseFloat(option.amount) === 0 ? "Free" : formatCurrency(option.amount)}
+            </span>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import type { ImageAsset, ImageRendition } from "@shared/schema";
+
+// Matches the pipeline's rendition sizes (server/imagePipeline.ts)
+const RENDITION_WIDTHS: Record<string, number> = {
+  thumbnail: 160,
+  medium: 480,
+  large: 1200,
+};
+
+// Processed images are stored as .../<key>/<size>.<format>
+const RENDITION_URL = /^(.*\/)(thumbnail|medium|large)\.(webp|avif)$/;
+
+function srcSetOf(renditions: Pick<ImageRendition, "url" | "width">[]): string {
+  return renditions.map(rendition => `${rendition.url} ${rendition.width}w`).join(", ");
+}
+
+/**
+ * The srcsets for an image: from its recorded renditions when known,
+ * otherwise from the URL of any processed rendition. Null for images that
+ * didn't go through the pipeline.
+ */
+export function imageSources(url: string, image?: ImageAsset | null): { webp: string; avif: string } | null {
+  if (image?.renditions?.length) {
+    const byFormat = (format: string) => srcSetOf(image.renditions.filter(rendition => rendition.format === format));
+    return { webp: byFormat("webp"), avif: byFormat("avif") };
+  }
+
+  const match = RENDITION_URL.exec(url);
+  if (!match) return null;
+  const guessed = (format: string) =>
+    srcSetOf(Object.entries(RENDITION_WIDTHS).map(([name, width]) => ({ url: `${match[1]}${name}.${format}`, width })));
+  return { webp: guessed("webp"), avif: guessed("avif") };
+}
+
+interface ResponsiveImageProps {
+  src: string;
+  alt: string;
+  // How wide the image is shown, e.g. "(min-width: 768px) 33vw, 100vw"
+  sizes: string;
+  image?: ImageAsset | null;
+  className?: string;
+}
+
+/**
+ * An image that lets the browser pick the smallest rendition (AVIF first)
+ * for the space it's shown in, over the image's dominant colour while it loads
+ */
+export default function ResponsiveImage({ src, alt, sizes, image, className }: ResponsiveImageProps) {
+  const sources = imageSources(src, image);
+  const placeholder = image?.dominantColor ? { backgroundColor: image.dominantColor } : undefined;
+
+  if (!sources) {
+    return <img src={src} alt={alt} loading="lazy" className={className} style={placeholder} />;
+  }
+
+  return (
+    <picture className="contents">
+      <source type="image/avif" srcSet={sources.avif} sizes={sizes} />
+      <source type="image/webp" srcSet={sources.webp} sizes={sizes} />
+      <img
+        src={src}
+        alt={alt}
+        loading="lazy"
+        width={image?.width}
+        height={image?.height}
+        className={className}
+        style={placeholder}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,205 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, Lock, RefreshCw, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Domain } from "@shared/schema";
+
+type DomainCertificate = {
+  id: number;
+  status: "pending" | "issued" | "failed" | "revoked" | "expired" | "superseded";
+  serialNumber: string | null;
+  issuer: string | null;
+  lastError: string | null;
+  issuedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+interface DomainCertificatesProps {
+  domain: Pick<Domain, "id" | "type" | "verificationStatus">;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+export function DomainCertificates({ domain }: DomainCertificatesProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const certificatesKey = [`/api/domains/${domain.id}/certificates`];
+
+  const { data: certificates = [], isLoading } = useQuery<DomainCertificate[]>({
+    queryKey: certificatesKey,
+    // Issuance runs in the background, so keep checking until it finishes
+    refetchInterval: (query) =>
+      query.state.data?.some((certificate) => certificate.status === "pending") ? 3000 : false,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: certificatesKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/domains", domain.id] });
+  };
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/domains/${domain.id}/certificates`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Certificate requested",
+        description: "We're proving control of the domain to the certificate authority. This takes a minute or so.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to request certificate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (certificateId: number) => {
+      const response = await apiRequest("POST", `/api/domains/${domain.id}/certificates/${certificateId}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Certificate revoked",
+        description: "Request a new certificate to serve the domain over HTTPS again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to revoke certificate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = certificates.find((certificate) => certificate.status === "issued");
+  const latest = certificates[0];
+  const isPending = latest?.status === "pending";
+  const daysLeft = current?.expiresAt
+    ? Math.ceil((new Date(current.expiresAt).getTime() - Date.now()) / DAY_MS)
+    : null;
+
+  const renderStatusBadge = () => {
+    if (isPending) return <Badge variant="pending">Issuing</Badge>;
+    if (!current) return <Badge variant="secondary">No Certificate</Badge>;
+    if (daysLeft !== null && daysLeft <= 14) return <Badge variant="warning">Expires in {daysLeft} days</Badge>;
+    return <Badge variant="success">Secure</Badge>;
+  };
+
+  if (domain.type !== "custom") {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-row justify-between items-center">
+        <h3 className="text-lg font-medium">SSL Certificate</h3>
+        {renderStatusBadge()}
+      </div>
+
+      {domain.verificationStatus !== "verified" ? (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Verify the domain first</AlertTitle>
+          <AlertDescription>
+            A certificate is issued automatically once the domain is verified and points to your store.
+          </AlertDescription>
+        </Alert>
+      ) : isLoading ? (
+        <div className="h-24 bg-muted rounded-md animate-pulse"></div>
+      ) : (
+        <>
+          {current ? (
+            <div className="bg-muted/50 p-4 rounded-md space-y-1 text-sm">
+              <p className="font-medium flex items-center">
+                <Lock className="h-4 w-4 mr-2 text-green-500" />
+                Issued by {current.issuer ?? "unknown issuer"}
+              </p>
+              {current.issuedAt && <p className="text-muted-foreground">Issued {formatDate(current.issuedAt)}</p>}
+              {current.expiresAt && (
+                <p className="text-muted-foreground">
+                  Expires {formatDate(current.expiresAt)}. It is renewed automatically 30 days before.
+                </p>
+              )}
+              {current.serialNumber && (
+                <p className="text-xs text-muted-foreground font-mono break-all">Serial {current.serialNumber}</p>
+              )}
+            </div>
+          ) : (
+            !isPending && (
+              <p className="text-sm text-muted-foreground">
+                This domain doesn't have a certificate yet, so visitors can't reach it over HTTPS.
+              </p>
+            )
+          )}
+
+          {latest?.status === "failed" && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>The last certificate request failed</AlertTitle>
+              <AlertDescription>
+                {latest.lastError ?? "The certificate authority couldn't validate the domain."}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex space-x-2">
+            <Button onClick={() => issueMutation.mutate()} disabled={isPending || issueMutation.isPending}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isPending ? "animate-spin" : ""}`} />
+              {isPending ? "Issuing..." : current ? "Renew Certificate" : "Issue Certificate"}
+            </Button>
+            {current && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="text-red-600 hover:text-red-700" disabled={revokeMutation.isPending}>
+                    <ShieldOff className="mr-2 h-4 w-4" />
+                    Revoke
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Revoke this certificate?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Browsers will stop trusting it, and the domain won't be served over HTTPS until a new
+                      certificate is issued. Only do this if the private key may have been exposed.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => revokeMutation.mutate(current.id)}>Revoke</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
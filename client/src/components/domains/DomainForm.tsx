@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { usePlatformDomain } from '@/hooks/use-platform-domain';
 
 import {
   Form,
@@ -40,6 +41,7 @@ type DomainFormProps = {
 
 const DomainForm = ({ domainId, vendorId, onSuccess }: DomainFormProps) => {
   const { toast } = useToast();
+  const platformDomain = usePlatformDomain();
   const queryClient = useQueryClient();
 
   // Fetch vendors
@@ -208,7 +210,7 @@ const DomainForm = ({ domainId, vendorId, onSuccess }: DomainFormProps) => {
                       <FormControl>
                         <Input placeholder="yourdomain" {...field} />
                       </FormControl>
-                      <span className="flex items-center ml-2 text-gray-500">.multivend.com</span>
+                      <span className="flex items-center ml-2 text-gray-500">.{platformDomain}</span>
                     </div>
                   ) : (
                     <FormControl>
@@ -99,6 +99,12 @@ const DomainTable = ({ vendorId, onAddDomain, onEditDomain, onDeleteDomain }: Do
           text: 'Pending',
           className: 'text-yellow-500',
         };
+      case 'expiring':
+        return {
+          icon: <Lock className="h-4 w-4 text-yellow-500 mr-1" />,
+          text: 'Expiring Soon',
+          className: 'text-yellow-500',
+        };
       default:
         return {
           icon: <AlertCircle className="h-4 w-4 text-red-500 mr-1" />,
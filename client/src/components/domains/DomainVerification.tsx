@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { Domain } from "@shared/schema";
 
 type DNSRecord = {
   type: string;
@@ -15,14 +16,10 @@ type DNSRecord = {
 };
 
 interface DomainVerificationProps {
-  domain: {
-    id: number;
-    name: string;
-    type: string;
-    status: string;
-    verificationStatus: string;
-    verificationToken?: string;
-  };
+  domain: Pick<
+    Domain,
+    "id" | "name" | "type" | "status" | "verificationStatus" | "verificationToken" | "verificationMethod" | "verificationError" | "lastCheckedAt"
+  >;
 }
 
 export function DomainVerification({ domain }: DomainVerificationProps) {
@@ -90,6 +87,8 @@ export function DomainVerification({ domain }: DomainVerificationProps) {
       setShowInstructions(false);
     },
     onError: (error) => {
+      // The failure reason is saved on the domain, so show it there too
+      queryClient.invalidateQueries({ queryKey: ["/api/domains", domain.id] });
       toast({
         title: "Verification failed",
         description: error.message,
@@ -161,6 +160,17 @@ export function DomainVerification({ domain }: DomainVerificationProps) {
             </AlertDescription>
           </Alert>
 
+          {domain.verificationError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Last check didn't pass</AlertTitle>
+              <AlertDescription>
+                {domain.verificationError}
+                {domain.lastCheckedAt && ` (checked ${new Date(domain.lastCheckedAt).toLocaleString()})`}
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="flex space-x-2">
             <Button 
               onClick={() => generateTokenMutation.mutate()} 
@@ -183,6 +193,8 @@ export function DomainVerification({ domain }: DomainVerificationProps) {
                 <h4 className="font-medium mb-2">DNS Configuration Instructions</h4>
                 <p className="text-sm text-gray-500 mb-4">
                   Add the following DNS records to your domain registrar. Once added, click "Verify Domain" to confirm.
+                  {domain.verificationMethod === "file" &&
+                    " Once the domain points to us, we serve the verification file for it automatically."}
                 </p>
                 
                 <div className="space-y-4">
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { EMAIL_OUTBOX_STATUSES, type EmailOutbox } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RefreshCw } from "lucide-react";
+
+const ago = (value: string | Date | null) =>
+  value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "—";
+
+const STATUS_VARIANTS = {
+  pending: "pending",
+  sending: "warning",
+  sent: "success",
+  failed: "destructive",
+} as const;
+
+/**
+ * The most recent emails the platform has queued, with why the failed ones
+ * failed and a button to send them again
+ */
+export default function EmailOutboxTable() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("all");
+
+  const outboxUrl = `/api/admin/email-outbox${status !== "all" ? `?status=${status}` : ""}`;
+  const { data: emails, isLoading } = useQuery<EmailOutbox[]>({
+    queryKey: [outboxUrl],
+    refetchInterval: 15000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/admin/email-outbox/${id}/retry`);
+      return (await res.json()) as EmailOutbox;
+    },
+    onSuccess: (email) => {
+      toast(
+        email.status === "sent"
+          ? { title: "Email sent", description: `It went to ${email.to}.` }
+          : { title: "Still not sent", description: email.lastError ?? "It will be tried again shortly.", variant: "destructive" }
+      );
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/email-outbox") });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All emails</SelectItem>
+            {EMAIL_OUTBOX_STATUSES.map((value) => (
+              <SelectItem key={value} value={value} className="capitalize">
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : emails?.length ? (
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell>
+                    <div className="font-medium max-w-sm truncate" title={email.subject}>{email.subject}</div>
+                    <div className="text-xs text-muted-foreground">{email.template}</div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{email.to}</TableCell>
+                  <TableCell className="text-muted-foreground whitespace-nowrap">{ago(email.createdAt)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={STATUS_VARIANTS[email.status as keyof typeof STATUS_VARIANTS] ?? "outline"}>
+                        {email.status}
+                      </Badge>
+                      {email.attempts > 0 && email.status !== "sent" && (
+                        <span className="text-xs text-muted-foreground">
+                          {email.attempts} of {email.maxAttempts} attempts
+                        </span>
+                      )}
+                    </div>
+                    {email.status === "sent" && (
+                      <div className="text-xs text-muted-foreground mt-1">{ago(email.sentAt)}</div>
+                    )}
+                    {email.status === "pending" && email.attempts > 0 && (
+                      <div className="text-xs text-muted-foreground mt-1">Next try {ago(email.nextAttemptAt)}</div>
+                    )}
+                    {email.lastError && email.status !== "sent" && (
+                      <div className="text-xs text-destructive mt-1 max-w-sm truncate" title={email.lastError}>
+                        {email.lastError}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(email.status === "failed" || (email.status === "pending" && email.attempts > 0)) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate(email.id)}
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No emails yet.</p>
+      )}
+    </div>
+  );
+}
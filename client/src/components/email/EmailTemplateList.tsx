@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Eye, Loader2, Pencil, RotateCcw } from "lucide-react";
+
+export interface EmailTemplateSummary {
+  name: string;
+  label: string;
+  description: string;
+  audience: "customer" | "vendor";
+  placeholders: string[];
+  subject: string;
+  body: string;
+  isCustomized: boolean;
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function EditTemplateDialog({
+  baseUrl,
+  template,
+  resetLabel,
+  onClose,
+}: {
+  baseUrl: string;
+  template: EmailTemplateSummary;
+  resetLabel: string;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const [subject, setSubject] = useState(template.subject);
+  const [body, setBody] = useState(template.body);
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (content?: { subject: string; body: string }) => {
+      const res = await apiRequest("POST", `${baseUrl}/${template.name}/preview`, content ?? {});
+      return (await res.json()) as RenderedEmail;
+    },
+    onSuccess: setPreview,
+    onError,
+  });
+
+  // Start with what it looks like now
+  useEffect(() => {
+    previewMutation.mutate(undefined);
+  }, [template.name]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `${baseUrl}/${template.name}`, { subject, body });
+    },
+    onSuccess: () => {
+      toast({ title: "Template saved", description: `${template.label} emails will use the new wording.` });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      onClose();
+    },
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `${baseUrl}/${template.name}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Template reset", description: `${template.label} emails are back to ${resetLabel}.` });
+      queryClient.invalidateQueries({ queryKey: [baseUrl] });
+      onClose();
+    },
+    onError,
+  });
+
+  const restoreDefault = () => {
+    setSubject(template.defaultSubject);
+    setBody(template.defaultBody);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template.label}</DialogTitle>
+          <DialogDescription>{template.description}</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-template-subject">Subject</Label>
+              <Input id="email-template-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-template-body">Body</Label>
+              <Textarea
+                id="email-template-body"
+                className="min-h-[280px] font-mono text-sm"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Plain text. Leave a blank line between paragraphs; links are made clickable. A paragraph whose
+                placeholders are all empty is left out.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Placeholders</Label>
+              <div className="flex flex-wrap gap-1">
+                {template.placeholders.map((placeholder) => (
+                  <code key={placeholder} className="rounded bg-muted px-1.5 py-0.5 text-xs">{`{{${placeholder}}}`}</code>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Preview</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={!subject.trim() || !body.trim() || previewMutation.isPending}
+                onClick={() => previewMutation.mutate({ subject, body })}
+              >
+                {previewMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+                Preview changes
+              </Button>
+            </div>
+            {preview ? (
+              <>
+                <p className="text-sm">
+                  <span className="text-muted-foreground">Subject:</span> {preview.subject}
+                </p>
+                <iframe
+                  title="Email preview"
+                  sandbox=""
+                  srcDoc={preview.html}
+                  className="h-[400px] w-full rounded-md border bg-white"
+                />
+              </>
+            ) : (
+              <Skeleton className="h-[420px] w-full" />
+            )}
+          </div>
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" onClick={restoreDefault}>
+              Use {resetLabel}
+            </Button>
+            {template.isCustomized && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={resetMutation.isPending}
+                onClick={() => resetMutation.mutate()}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset
+              </Button>
+            )}
+          </div>
+          <Button disabled={!subject.trim() || !body.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The emails the platform sends, each with an editor for its subject and
+ * body. `baseUrl` is the admin or a vendor's email-templates endpoint;
+ * `resetLabel` says what resetting goes back to.
+ */
+export default function EmailTemplateList({ baseUrl, resetLabel }: { baseUrl: string; resetLabel: string }) {
+  const [editing, setEditing] = useState<EmailTemplateSummary | null>(null);
+  const { data: templates, isLoading } = useQuery<EmailTemplateSummary[]>({ queryKey: [baseUrl] });
+
+  if (isLoading) return <Skeleton className="h-48 w-full" />;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 gap-4">
+        {templates?.map((template) => (
+          <div key={template.name} className="bg-gray-50 p-4 rounded-md">
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <h4 className="font-medium">{template.label}</h4>
+                {template.isCustomized && <Badge variant="success">Customized</Badge>}
+                <Badge variant="outline">{template.audience === "customer" ? "To customers" : "To vendors"}</Badge>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditing(template)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Template
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">{template.description}</p>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <EditTemplateDialog
+          key={editing.name}
+          baseUrl={baseUrl}
+          template={editing}
+          resetLabel={resetLabel}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -16,7 +16,10 @@ import {
   FolderTree,
   BarChart2,
   Megaphone,
-  Upload
+  Upload,
+  Truck,
+  RotateCcw,
+  Timer
 } from "lucide-react";
 
 type SidebarProps = {
@@ -40,6 +43,7 @@ const Sidebar = ({ collapsed = false, onCollapse }: SidebarProps) => {
         { label: "Users", path: "/users", icon: <Users className="h-5 w-5" /> },
         { label: "Subscriptions", path: "/subscriptions", icon: <CreditCard className="h-5 w-5" /> },
         { label: "Analytics", path: "/analytics", icon: <LineChart className="h-5 w-5" /> },
+        { label: "Jobs", path: "/jobs", icon: <Timer className="h-5 w-5" /> },
         { label: "Settings", path: "/settings", icon: <Settings className="h-5 w-5" /> },
         { label: "S3 File Upload", path: "/s3-upload-test", icon: <Upload className="h-5 w-5" /> },
         // Only show Test Stores in development mode
@@ -52,7 +56,9 @@ const Sidebar = ({ collapsed = false, onCollapse }: SidebarProps) => {
         { label: "Products", path: "/products", icon: <PackageOpen className="h-5 w-5" /> },
         { label: "Category Management", path: "/product-categories", icon: <FolderTree className="h-5 w-5" /> },
         { label: "Orders", path: "/orders", icon: <ShoppingCart className="h-5 w-5" /> },
+        { label: "Returns", path: "/returns", icon: <RotateCcw className="h-5 w-5" /> },
         { label: "Customers", path: "/customers", icon: <Users className="h-5 w-5" /> },
+        { label: "Shipping", path: "/shipping-settings", icon: <Truck className="h-5 w-5" /> },
         { label: "Marketing", path: "/marketing", icon: <Megaphone className="h-5 w-5" /> },
         { label: "Reports", path: "/reports", icon: <BarChart2 className="h-5 w-5" /> },
         { label: "Analytics", path: "/vendor-analytics", icon: <LineChart className="h-5 w-5" /> },
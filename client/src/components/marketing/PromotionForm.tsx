@@ -0,0 +1,445 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+
+export interface Promotion {
+  id: number;
+  name: string;
+  code: string;
+  type: "percentage" | "fixed_amount" | "free_shipping" | "buy_x_get_y";
+  value: string | null;
+  minSubtotal: string | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  productIds: number[] | null;
+  categoryIds: number[] | null;
+  usageLimit: number | null;
+  usageLimitPerCustomer: number | null;
+  usageCount: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean | null;
+}
+
+// Form schema for a promotion. Optional numbers are kept as strings so
+// empty inputs mean "no limit" rather than zero.
+const promotionSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  code: z.string().min(3, "Code must be at least 3 characters").regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - and _ only"),
+  type: z.enum(["percentage", "fixed_amount", "free_shipping", "buy_x_get_y"]),
+  value: z.string().optional(),
+  minSubtotal: z.string().optional(),
+  buyQuantity: z.string().optional(),
+  getQuantity: z.string().optional(),
+  productIds: z.array(z.number()).default([]),
+  categoryIds: z.array(z.number()).default([]),
+  usageLimit: z.string().optional(),
+  usageLimitPerCustomer: z.string().optional(),
+  startsAt: z.string().optional(),
+  endsAt: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+type PromotionFormValues = z.infer<typeof promotionSchema>;
+
+interface PromotionFormProps {
+  vendorId: number;
+  promotion?: Promotion;
+  onSuccess?: () => void;
+}
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : "");
+const toOptionalInt = (value?: string) => (value ? parseInt(value) : null);
+
+const PromotionForm = ({ vendorId, promotion, onSuccess }: PromotionFormProps) => {
+  const { toast } = useToast();
+
+  const { data: products = [] } = useQuery<{ id: number; name: string }[]>({
+    queryKey: [`/api/vendors/${vendorId}/products`],
+  });
+
+  // Includes the global categories the vendor can sell in
+  const { data: categories = [] } = useQuery<{ id: number; name: string; isGlobal?: boolean }[]>({
+    queryKey: [`/api/vendors/${vendorId}/product-categories`],
+  });
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: {
+      name: promotion?.name ?? "",
+      code: promotion?.code ?? "",
+      type: promotion?.type ?? "percentage",
+      value: promotion?.value ?? "",
+      minSubtotal: promotion?.minSubtotal ?? "",
+      buyQuantity: promotion?.buyQuantity?.toString() ?? "",
+      getQuantity: promotion?.getQuantity?.toString() ?? "",
+      productIds: promotion?.productIds ?? [],
+      categoryIds: promotion?.categoryIds ?? [],
+      usageLimit: promotion?.usageLimit?.toString() ?? "",
+      usageLimitPerCustomer: promotion?.usageLimitPerCustomer?.toString() ?? "",
+      startsAt: toDateInput(promotion?.startsAt ?? null),
+      endsAt: toDateInput(promotion?.endsAt ?? null),
+      isActive: promotion?.isActive ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+
+  const savePromotionMutation = useMutation({
+    mutationFn: async (values: PromotionFormValues) => {
+      const body = {
+        name: values.name,
+        code: values.code,
+        type: values.type,
+        value: values.type === "percentage" || values.type === "fixed_amount" ? values.value || "0" : "0",
+        minSubtotal: values.minSubtotal || null,
+        buyQuantity: values.type === "buy_x_get_y" ? toOptionalInt(values.buyQuantity) : null,
+        getQuantity: values.type === "buy_x_get_y" ? toOptionalInt(values.getQuantity) : null,
+        productIds: values.productIds.length > 0 ? values.productIds : null,
+        categoryIds: values.categoryIds.length > 0 ? values.categoryIds : null,
+        usageLimit: toOptionalInt(values.usageLimit),
+        usageLimitPerCustomer: toOptionalInt(values.usageLimitPerCustomer),
+        startsAt: values.startsAt || null,
+        endsAt: values.endsAt ? `${values.endsAt}T23:59:59` : null,
+        isActive: values.isActive,
+      };
+
+      const response = await fetch(
+        promotion ? `/api/vendors/${vendorId}/promotions/${promotion.id}` : `/api/vendors/${vendorId}/promotions`,
+        {
+          method: promotion ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save promotion");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/promotions`] });
+      toast({
+        title: promotion ? "Promotion updated" : "Promotion created",
+        description: "Your discount code is saved.",
+      });
+
+      if (!promotion) {
+        form.reset();
+      }
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: PromotionFormValues) => {
+    savePromotionMutation.mutate(values);
+  };
+
+  // Checkbox list bound to an array of ids
+  const renderIdList = (
+    name: "productIds" | "categoryIds",
+    options: { id: number; name: string; isGlobal?: boolean }[]
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <ScrollArea className="h-32 rounded-md border p-2">
+          {options.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing to choose from yet.</p>
+          )}
+          {options.map((option) => (
+            <label key={option.id} className="flex items-center gap-2 py-1 text-sm">
+              <Checkbox
+                checked={field.value.includes(option.id)}
+                onCheckedChange={(checked) =>
+                  field.onChange(
+                    checked
+                      ? [...field.value, option.id]
+                      : field.value.filter((id: number) => id !== option.id)
+                  )
+                }
+              />
+              {option.name}
+              {option.isGlobal && <span className="text-xs text-muted-foreground">(global)</span>}
+            </label>
+          ))}
+        </ScrollArea>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Monsoon Sale" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Code</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g., MONSOON30"
+                    className="font-mono uppercase"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Discount Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a discount type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage off</SelectItem>
+                    <SelectItem value="fixed_amount">Fixed amount off</SelectItem>
+                    <SelectItem value="free_shipping">Free shipping</SelectItem>
+                    <SelectItem value="buy_x_get_y">Buy X get Y free</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {(type === "percentage" || type === "fixed_amount") && (
+            <FormField
+              control={form.control}
+              name="value"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "percentage" ? "Percentage Off" : "Amount Off"}</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="0.01" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {type === "buy_x_get_y" && (
+            <div className="grid grid-cols-2 gap-2">
+              <FormField
+                control={form.control}
+                name="buyQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Buy</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="getQuantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Get Free</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="minSubtotal"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Minimum Cart Amount</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" step="0.01" placeholder="No minimum" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormItem>
+            <FormLabel>Products</FormLabel>
+            {renderIdList("productIds", products)}
+            <FormDescription>Leave empty to apply to every product.</FormDescription>
+          </FormItem>
+          <FormItem>
+            <FormLabel>Categories</FormLabel>
+            {renderIdList("categoryIds", categories)}
+            <FormDescription>Subcategories are included automatically.</FormDescription>
+          </FormItem>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="usageLimit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Total Uses</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="usageLimitPerCustomer"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Uses per Customer</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                </FormControl>
+                <FormDescription>Customers must sign in to use codes with this limit.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="startsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Starts</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="endsAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Ends</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+              <div className="space-y-0.5">
+                <FormLabel>Active</FormLabel>
+                <FormDescription>
+                  Inactive codes are rejected at checkout.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={savePromotionMutation.isPending}
+        >
+          {savePromotionMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          {promotion ? "Save Promotion" : "Create Promotion"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default PromotionForm;
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import PromotionForm, { type Promotion } from "./PromotionForm";
+
+interface PromotionListProps {
+  promotions: Promotion[];
+  vendorId: number;
+}
+
+// Human readable summary of what a promotion gives
+const describePromotion = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case "percentage":
+      return `${parseFloat(promotion.value || "0")}% off`;
+    case "fixed_amount":
+      return `₹${parseFloat(promotion.value || "0").toFixed(2)} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_x_get_y":
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+  }
+};
+
+const getStatus = (promotion: Promotion) => {
+  const now = new Date();
+  if (!promotion.isActive) return { label: "Inactive", className: "bg-gray-100 text-gray-800" };
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) return { label: "Expired", className: "bg-red-100 text-red-800" };
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return { label: "Scheduled", className: "bg-gray-100 text-gray-800" };
+  if (promotion.usageLimit != null && (promotion.usageCount ?? 0) >= promotion.usageLimit) {
+    return { label: "Used up", className: "bg-red-100 text-red-800" };
+  }
+  return { label: "Active", className: "bg-amber-100 text-amber-800" };
+};
+
+const PromotionList = ({ promotions, vendorId }: PromotionListProps) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<Promotion | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      const response = await fetch(`/api/vendors/${vendorId}/promotions/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ isActive }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update promotion");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/promotions`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/vendors/${vendorId}/promotions/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to delete promotion");
+      }
+    },
+    onSuccess: () => {
+      toast({
+        title: "Promotion deleted",
+        description: "The discount code has been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/promotions`] });
+      setDeleteId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting promotion",
+        description: error.message,
+        variant: "destructive",
+      });
+      setDeleteId(null);
+    },
+  });
+
+  if (promotions.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        You haven't created any discount codes yet.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {promotions.map((promotion) => {
+          const status = getStatus(promotion);
+          return (
+            <div
+              key={promotion.id}
+              className="bg-white p-6 rounded-lg border border-gray-200 hover:border-primary hover:shadow-md transition-all"
+            >
+              <div className="mb-4 flex justify-between items-start">
+                <div>
+                  <h3 className="text-lg font-semibold">{promotion.name}</h3>
+                  <p className="text-gray-500 text-sm">
+                    {promotion.startsAt && new Date(promotion.startsAt) > new Date()
+                      ? `Starting ${formatDate(promotion.startsAt)}`
+                      : promotion.endsAt
+                        ? `Valid until ${formatDate(promotion.endsAt)}`
+                        : "No end date"}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                  {status.label}
+                </span>
+              </div>
+              <p className="text-gray-700 mb-2 font-medium">
+                {describePromotion(promotion)}
+                {promotion.minSubtotal && ` on orders over ₹${parseFloat(promotion.minSubtotal).toFixed(2)}`}
+              </p>
+              <p className="text-gray-500 mb-4 text-sm">
+                Coupon code: <span className="font-mono bg-gray-100 px-2 py-0.5 rounded">{promotion.code}</span>
+              </p>
+              <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+                <span>
+                  Used: {promotion.usageCount ?? 0}
+                  {promotion.usageLimit != null && ` / ${promotion.usageLimit}`} times
+                </span>
+                <Switch
+                  checked={!!promotion.isActive}
+                  onCheckedChange={(checked) => toggleActiveMutation.mutate({ id: promotion.id, isActive: checked })}
+                  aria-label="Toggle promotion"
+                />
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <Button variant="outline" size="sm" onClick={() => setEditing(promotion)}>Edit</Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => setDeleteId(promotion.id)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Promotion</DialogTitle>
+            <DialogDescription>Changes apply to carts the next time they are priced.</DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <PromotionForm vendorId={vendorId} promotion={editing} onSuccess={() => setEditing(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this promotion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Codes that have already been used on orders can only be deactivated.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteId !== null && deleteMutation.mutate(deleteId)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default PromotionList;
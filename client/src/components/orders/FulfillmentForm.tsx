@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type FulfillmentFormProps = {
+  orderId: number;
+  // Order items with the number of units not yet shipped
+  items: { id: number; name: string; remaining: number }[];
+  onSuccess?: () => void;
+};
+
+const FulfillmentForm = ({ orderId, items, onSuccess }: FulfillmentFormProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [carrier, setCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  // Units to ship per order item, everything left by default
+  const [quantities, setQuantities] = useState<Record<number, number>>(
+    Object.fromEntries(items.map((item) => [item.id, item.remaining]))
+  );
+
+  const createFulfillmentMutation = useMutation({
+    mutationFn: async () => {
+      const lines = items
+        .map((item) => ({ orderItemId: item.id, quantity: quantities[item.id] || 0 }))
+        .filter((line) => line.quantity > 0);
+
+      const res = await apiRequest('POST', `/api/orders/${orderId}/fulfillments`, {
+        carrier: carrier || null,
+        trackingNumber: trackingNumber || null,
+        trackingUrl: trackingUrl || null,
+        items: lines,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Shipment created",
+        description: "The items have been marked as shipped.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', orderId] });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create shipment: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const totalUnits = Object.values(quantities).reduce((sum, quantity) => sum + (quantity || 0), 0);
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        createFulfillmentMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label>Items to ship</Label>
+        {items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-4">
+            <span className="text-sm">
+              {item.name}
+              <span className="text-muted-foreground"> ({item.remaining} left)</span>
+            </span>
+            <Input
+              type="number"
+              min={0}
+              max={item.remaining}
+              className="w-24"
+              value={quantities[item.id] ?? 0}
+              onChange={(e) =>
+                setQuantities({
+                  ...quantities,
+                  [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), item.remaining),
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="carrier">Carrier</Label>
+          <Input id="carrier" placeholder="e.g., Delhivery" value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="trackingNumber">Tracking Number</Label>
+          <Input id="trackingNumber" value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="trackingUrl">Tracking Link</Label>
+        <Input
+          id="trackingUrl"
+          type="url"
+          placeholder="https://"
+          value={trackingUrl}
+          onChange={(e) => setTrackingUrl(e.target.value)}
+        />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={totalUnits === 0 || createFulfillmentMutation.isPending}>
+        {createFulfillmentMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Ship {totalUnits} {totalUnits === 1 ? 'item' : 'items'}
+      </Button>
+    </form>
+  );
+};
+
+export default FulfillmentForm;
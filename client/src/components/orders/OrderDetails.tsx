@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
@@ -21,18 +22,38 @@ import {
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
-import { FileText, MapPin, CreditCard } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText, MapPin, CreditCard, Truck } from 'lucide-react';
+import FulfillmentForm from './FulfillmentForm';
+import OrderTimeline from './OrderTimeline';
+import ReturnCard, { type ReturnRequest } from './ReturnCard';
 
 type OrderDetailsProps = {
   orderId: number;
 };
 
+// Button labels for the statuses an order can be moved to
+const TRANSITION_LABELS: Record<string, string> = {
+  processing: 'Start Processing',
+  shipped: 'Ship Remaining Items',
+  delivered: 'Mark as Delivered',
+  canceled: 'Cancel Order',
+  returned: 'Mark as Returned',
+};
+
 const OrderDetails = ({ orderId }: OrderDetailsProps) => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [isShipOpen, setIsShipOpen] = useState(false);
 
-  // Fetch order data
-  const { data: order, isLoading } = useQuery({
+  // Fetch order data, including its timeline, shipments and allowed next statuses
+  const { data: order, isLoading } = useQuery<any>({
     queryKey: ['/api/orders', orderId],
   });
 
@@ -83,6 +104,40 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
     statusMutation.mutate({ status });
   };
 
+  // Mark a shipment as delivered
+  const deliverMutation = useMutation({
+    mutationFn: async (fulfillmentId: number) => {
+      await apiRequest('PATCH', `/api/orders/${orderId}/fulfillments/${fulfillmentId}`, { status: 'delivered' });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Shipment delivered",
+        description: "The shipment has been marked as delivered.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', orderId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update shipment: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Units of each item that haven't been shipped yet
+  const getUnshippedItems = () => {
+    const shipped = new Map<number, number>();
+    for (const fulfillment of order?.fulfillments ?? []) {
+      for (const line of fulfillment.items) {
+        shipped.set(line.orderItemId, (shipped.get(line.orderItemId) ?? 0) + line.quantity);
+      }
+    }
+    return (order?.items ?? [])
+      .map((item: any) => ({ id: item.id, name: item.name, remaining: item.quantity - (shipped.get(item.id) ?? 0) }))
+      .filter((item: { remaining: number }) => item.remaining > 0);
+  };
+
   // Handle payment status change
   const handlePaymentStatusChange = (paymentStatus: string) => {
     paymentStatusMutation.mutate({ paymentStatus });
@@ -91,6 +146,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
   // Status badge variant
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
+      case 'delivered':
       case 'completed':
         return 'success';
       case 'pending':
@@ -100,6 +156,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
       case 'shipped':
         return 'secondary';
       case 'canceled':
+      case 'returned':
         return 'error';
       default:
         return 'secondary';
@@ -116,12 +173,16 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
       case 'failed':
         return 'error';
       case 'refunded':
+      case 'partially_refunded':
         return 'secondary';
       default:
         return 'secondary';
     }
   };
 
+  const formatPaymentStatus = (status: string) =>
+    (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, ' ');
+
   // Format date
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -218,26 +279,24 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
             Placed on {formatDate(order.createdAt)}
           </CardDescription>
         </div>
-        <div className="flex flex-col md:flex-row space-y-2 md:space-y-0 md:space-x-2">
-          <Select
-            defaultValue={order.status}
-            onValueChange={handleStatusChange}
-            disabled={statusMutation.isPending}
-          >
-            <SelectTrigger className="w-full md:w-[180px]">
-              <Badge variant={getStatusBadgeVariant(order.status)} className="mr-2">
-                {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-              </Badge>
-              <span className="hidden md:inline">Update Status</span>
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="pending">Pending</SelectItem>
-              <SelectItem value="processing">Processing</SelectItem>
-              <SelectItem value="shipped">Shipped</SelectItem>
-              <SelectItem value="completed">Completed</SelectItem>
-              <SelectItem value="canceled">Canceled</SelectItem>
-            </SelectContent>
-          </Select>
+        <div className="flex flex-col md:flex-row md:items-center space-y-2 md:space-y-0 md:space-x-2">
+          <Badge variant={getStatusBadgeVariant(order.status)}>
+            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+          </Badge>
+
+          {/* Only the moves the order state machine allows from here */}
+          {(order.allowedTransitions ?? []).map((status: string) => (
+            <Button
+              key={status}
+              size="sm"
+              variant={status === 'canceled' || status === 'returned' ? 'outline' : 'default'}
+              className={status === 'canceled' || status === 'returned' ? 'text-red-600 hover:text-red-700' : undefined}
+              onClick={() => handleStatusChange(status)}
+              disabled={statusMutation.isPending}
+            >
+              {TRANSITION_LABELS[status] ?? status}
+            </Button>
+          ))}
 
           <Select
             defaultValue={order.paymentStatus}
@@ -246,7 +305,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
           >
             <SelectTrigger className="w-full md:w-[180px]">
               <Badge variant={getPaymentStatusBadgeVariant(order.paymentStatus)} className="mr-2">
-                {order.paymentStatus.charAt(0).toUpperCase() + order.paymentStatus.slice(1)}
+                {formatPaymentStatus(order.paymentStatus)}
               </Badge>
               <span className="hidden md:inline">Payment Status</span>
             </SelectTrigger>
@@ -254,6 +313,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
               <SelectItem value="pending">Pending</SelectItem>
               <SelectItem value="paid">Paid</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="partially_refunded">Partially refunded</SelectItem>
               <SelectItem value="refunded">Refunded</SelectItem>
             </SelectContent>
           </Select>
@@ -303,7 +363,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
                     {order.paymentMethod || 'Payment method not specified'}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    Status: {order.paymentStatus.charAt(0).toUpperCase() + order.paymentStatus.slice(1)}
+                    Status: {formatPaymentStatus(order.paymentStatus)}
                   </p>
                 </div>
               </div>
@@ -318,7 +378,7 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
           <h3 className="text-base font-medium">Order Items</h3>
           {order.items && order.items.length > 0 ? (
             <div className="space-y-2">
-              {order.items.map((item) => (
+              {order.items.map((item: any) => (
                 <div key={item.id} className="flex justify-between items-center py-2 border-b">
                   <div>
                     <p className="font-medium">{item.name}</p>
@@ -335,6 +395,70 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
           )}
         </div>
 
+        {/* Shipments */}
+        {(order.fulfillments?.length > 0 || (['pending', 'processing'].includes(order.status) && getUnshippedItems().length > 0)) && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-base font-medium">Shipments</h3>
+              {['pending', 'processing'].includes(order.status) && getUnshippedItems().length > 0 && (
+                <Button size="sm" variant="outline" onClick={() => setIsShipOpen(true)}>
+                  <Truck className="h-4 w-4 mr-2" />
+                  Ship Items
+                </Button>
+              )}
+            </div>
+            {(order.fulfillments ?? []).map((fulfillment: any) => (
+              <div key={fulfillment.id} className="bg-muted/50 p-4 rounded-md flex justify-between items-start">
+                <div className="space-y-1">
+                  <p className="font-medium flex items-center">
+                    <Truck className="h-4 w-4 mr-2 text-muted-foreground" />
+                    {fulfillment.carrier || 'Shipment'} {fulfillment.trackingNumber && `• ${fulfillment.trackingNumber}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {fulfillment.items
+                      .map((line: any) => {
+                        const item = order.items?.find((i: any) => i.id === line.orderItemId);
+                        return `${line.quantity} × ${item?.name ?? 'Item'}`;
+                      })
+                      .join(', ')}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Shipped {formatDate(fulfillment.shippedAt)}
+                    {fulfillment.deliveredAt && ` • Delivered ${formatDate(fulfillment.deliveredAt)}`}
+                  </p>
+                  {fulfillment.trackingUrl && (
+                    <a href={fulfillment.trackingUrl} target="_blank" rel="noreferrer" className="text-sm text-primary hover:underline">
+                      Track shipment
+                    </a>
+                  )}
+                </div>
+                {fulfillment.status === 'delivered' ? (
+                  <Badge variant="success">Delivered</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => deliverMutation.mutate(fulfillment.id)}
+                    disabled={deliverMutation.isPending}
+                  >
+                    Mark Delivered
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Returns requested by the customer */}
+        {order.returns?.length > 0 && (
+          <div className="space-y-4">
+            <h3 className="text-base font-medium">Returns</h3>
+            {order.returns.map((returnRequest: ReturnRequest) => (
+              <ReturnCard key={returnRequest.id} returnRequest={returnRequest} orderItems={order.items} />
+            ))}
+          </div>
+        )}
+
         {/* Order summary */}
         <div className="flex justify-end">
           <div className="w-full max-w-sm space-y-2">
@@ -374,12 +498,39 @@ const OrderDetails = ({ orderId }: OrderDetailsProps) => {
           </div>
         )}
 
+        <Separator />
+
+        {/* Order history */}
+        <div className="space-y-4">
+          <h3 className="text-base font-medium">Timeline</h3>
+          <OrderTimeline events={order.events ?? []} />
+        </div>
+
         {/* Order actions */}
         <div className="flex justify-end space-x-2">
-          <Button variant="outline">Print Invoice</Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/orders/${orderId}/invoice.pdf`} download>
+              <FileText className="mr-2 h-4 w-4" />
+              Download Invoice
+            </a>
+          </Button>
           <Button>Notify Customer</Button>
         </div>
       </CardContent>
+
+      <Dialog open={isShipOpen} onOpenChange={setIsShipOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Ship Items</DialogTitle>
+            <DialogDescription>
+              Ship everything at once or only some items. The order is marked shipped once nothing is left.
+            </DialogDescription>
+          </DialogHeader>
+          {isShipOpen && (
+            <FulfillmentForm orderId={orderId} items={getUnshippedItems()} onSuccess={() => setIsShipOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -66,6 +66,7 @@ const OrderTable = () => {
   // Status badge variant
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
+      case 'delivered':
       case 'completed':
         return 'success';
       case 'pending':
@@ -75,6 +76,7 @@ const OrderTable = () => {
       case 'shipped':
         return 'secondary';
       case 'canceled':
+      case 'returned':
         return 'error';
       default:
         return 'secondary';
@@ -204,8 +206,9 @@ const OrderTable = () => {
                 <SelectItem value="pending">Pending</SelectItem>
                 <SelectItem value="processing">Processing</SelectItem>
                 <SelectItem value="shipped">Shipped</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
                 <SelectItem value="canceled">Canceled</SelectItem>
+                <SelectItem value="returned">Returned</SelectItem>
               </SelectContent>
             </Select>
           </div>
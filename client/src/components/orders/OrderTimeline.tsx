@@ -0,0 +1,99 @@
+import { CheckCircle, Circle, MessageSquare, Package, RotateCcw, Truck, XCircle } from 'lucide-react';
+
+export type OrderEvent = {
+  id: number;
+  type:
+    | 'placed'
+    | 'status_changed'
+    | 'fulfillment_created'
+    | 'fulfillment_updated'
+    | 'return_requested'
+    | 'return_approved'
+    | 'return_rejected'
+    | 'return_received'
+    | 'note';
+  fromStatus: string | null;
+  toStatus: string | null;
+  message: string | null;
+  actorId: number | null;
+  fulfillmentId: number | null;
+  returnId: number | null;
+  createdAt: string;
+};
+
+type OrderTimelineProps = {
+  events: OrderEvent[];
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const getEventTitle = (event: OrderEvent) => {
+  switch (event.type) {
+    case 'placed':
+      return 'Order placed';
+    case 'status_changed':
+      return `Marked as ${event.toStatus}`;
+    case 'fulfillment_created':
+      return 'Shipment created';
+    case 'fulfillment_updated':
+      return 'Shipment updated';
+    case 'return_requested':
+      return 'Return requested';
+    case 'return_approved':
+      return 'Return approved';
+    case 'return_rejected':
+      return 'Return rejected';
+    case 'return_received':
+      return 'Return received';
+    case 'note':
+      return 'Note';
+    default:
+      return capitalize(String(event.type).replace(/_/g, ' '));
+  }
+};
+
+const getEventIcon = (event: OrderEvent) => {
+  if (event.type === 'note') return <MessageSquare className="h-4 w-4" />;
+  if (event.type === 'fulfillment_created' || event.type === 'fulfillment_updated') return <Truck className="h-4 w-4" />;
+  if (event.type.startsWith('return_')) return <RotateCcw className="h-4 w-4" />;
+  if (event.toStatus === 'canceled' || event.toStatus === 'returned') return <XCircle className="h-4 w-4 text-red-600" />;
+  if (event.toStatus === 'delivered') return <CheckCircle className="h-4 w-4 text-green-600" />;
+  if (event.type === 'placed') return <Package className="h-4 w-4" />;
+  return <Circle className="h-4 w-4" />;
+};
+
+const formatDate = (dateString: string) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(dateString));
+
+/**
+ * The order's history, newest first
+ */
+const OrderTimeline = ({ events }: OrderTimelineProps) => {
+  if (events.length === 0) {
+    return <p className="text-muted-foreground text-sm">No history recorded for this order yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-2 space-y-4">
+      {[...events].reverse().map((event) => (
+        <li key={event.id} className="ml-6">
+          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background ring-2 ring-muted">
+            {getEventIcon(event)}
+          </span>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+            <p className="text-sm font-medium">{getEventTitle(event)}</p>
+            <time className="text-xs text-muted-foreground">{formatDate(event.createdAt)}</time>
+          </div>
+          {event.message && <p className="text-sm text-muted-foreground">{event.message}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderTimeline;
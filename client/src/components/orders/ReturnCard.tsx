@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export type ReturnRequest = {
+  id: number;
+  orderId: number;
+  vendorId: number;
+  rmaNumber: string;
+  status: 'requested' | 'approved' | 'rejected' | 'received';
+  reason: string;
+  comment: string | null;
+  vendorNote: string | null;
+  refundAmount: string | null;
+  createdAt: string;
+  items: {
+    id: number;
+    orderItemId: number;
+    quantity: number;
+    restockedQuantity: number;
+    // Filled in by the returns queue, which doesn't load the order
+    name?: string | null;
+  }[];
+  orderNumber?: string | null;
+  customer?: { email: string; firstName: string | null; lastName: string | null } | null;
+};
+
+type ReturnCardProps = {
+  returnRequest: ReturnRequest;
+  // The order's items, used for item names on the order page
+  orderItems?: { id: number; name: string }[];
+};
+
+type Action = 'approve' | 'reject' | 'receive';
+
+const REASON_LABELS: Record<string, string> = {
+  damaged: 'Damaged',
+  wrong_item: 'Wrong item',
+  not_as_described: 'Not as described',
+  no_longer_needed: 'No longer needed',
+  other: 'Other',
+};
+
+const getStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'requested':
+      return 'warning';
+    case 'approved':
+      return 'pending';
+    case 'received':
+      return 'success';
+    case 'rejected':
+      return 'error';
+    default:
+      return 'secondary';
+  }
+};
+
+const formatCurrency = (amount: string | number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(
+    typeof amount === 'string' ? parseFloat(amount) : amount
+  );
+
+/**
+ * A return with the vendor's next steps: approve (and refund) or reject a
+ * requested return, then mark an approved one as received
+ */
+const ReturnCard = ({ returnRequest, orderItems }: ReturnCardProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [action, setAction] = useState<Action | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [restock, setRestock] = useState(true);
+  // Units to put back into stock per return item, everything by default
+  const [restockQuantities, setRestockQuantities] = useState<Record<number, number>>(
+    Object.fromEntries(returnRequest.items.map((item) => [item.id, item.quantity]))
+  );
+
+  const getItemName = (item: ReturnRequest['items'][number]) =>
+    item.name ?? orderItems?.find((orderItem) => orderItem.id === item.orderItemId)?.name ?? 'Item';
+
+  const actionMutation = useMutation({
+    mutationFn: async (selected: Action) => {
+      const body =
+        selected === 'approve'
+          ? { refundAmount: refundAmount || undefined, note: note || null }
+          : selected === 'reject'
+            ? { note }
+            : {
+                restock,
+                items: returnRequest.items.map((item) => ({
+                  returnItemId: item.id,
+                  quantity: restockQuantities[item.id] ?? 0,
+                })),
+              };
+      const res = await apiRequest(
+        'POST',
+        `/api/vendors/${returnRequest.vendorId}/returns/${returnRequest.id}/${selected}`,
+        body
+      );
+      return await res.json();
+    },
+    onSuccess: (_, selected) => {
+      toast({
+        title: selected === 'approve' ? 'Return approved' : selected === 'reject' ? 'Return rejected' : 'Return received',
+        description:
+          selected === 'approve'
+            ? 'The customer has been refunded for the returned items.'
+            : selected === 'reject'
+              ? 'The customer will see why the return was rejected.'
+              : 'The returned items have been checked in.',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/orders', returnRequest.orderId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${returnRequest.vendorId}/returns`] });
+      setAction(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update return: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const units = returnRequest.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div className="bg-muted/50 p-4 rounded-md space-y-2">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-medium flex items-center">
+            <RotateCcw className="h-4 w-4 mr-2 text-muted-foreground" />
+            {returnRequest.rmaNumber}
+            {returnRequest.orderNumber && (
+              <span className="ml-2 text-sm text-muted-foreground">Order #{returnRequest.orderNumber}</span>
+            )}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {returnRequest.items.map((item) => `${item.quantity} × ${getItemName(item)}`).join(', ')}
+          </p>
+          <p className="text-sm">
+            {REASON_LABELS[returnRequest.reason] ?? returnRequest.reason}
+            {returnRequest.comment && <span className="text-muted-foreground"> — "{returnRequest.comment}"</span>}
+          </p>
+          {returnRequest.customer && (
+            <p className="text-xs text-muted-foreground">{returnRequest.customer.email}</p>
+          )}
+          {returnRequest.refundAmount && parseFloat(returnRequest.refundAmount) > 0 && (
+            <p className="text-sm">Refunded {formatCurrency(returnRequest.refundAmount)}</p>
+          )}
+          {returnRequest.vendorNote && (
+            <p className="text-sm text-muted-foreground">Note: {returnRequest.vendorNote}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={getStatusBadgeVariant(returnRequest.status)}>
+            {returnRequest.status.charAt(0).toUpperCase() + returnRequest.status.slice(1)}
+          </Badge>
+          {returnRequest.status === 'requested' && (
+            <>
+              <Button size="sm" onClick={() => setAction('approve')}>Approve</Button>
+              <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setAction('reject')}>
+                Reject
+              </Button>
+            </>
+          )}
+          {returnRequest.status === 'approved' && (
+            <Button size="sm" variant="outline" onClick={() => setAction('receive')}>Mark Received</Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {action === 'approve' ? 'Approve Return' : action === 'reject' ? 'Reject Return' : 'Receive Return'}
+            </DialogTitle>
+            <DialogDescription>
+              {action === 'approve'
+                ? `Approving ${returnRequest.rmaNumber} refunds the customer from the order's payment.`
+                : action === 'reject'
+                  ? 'Let the customer know why the items can\'t be returned.'
+                  : `Check in the ${units} returned ${units === 1 ? 'item' : 'items'}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (action) actionMutation.mutate(action);
+            }}
+          >
+            {action === 'approve' && (
+              <div className="space-y-2">
+                <Label htmlFor="refundAmount">Refund Amount</Label>
+                <Input
+                  id="refundAmount"
+                  inputMode="decimal"
+                  placeholder="Price paid for the returned items"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave blank to refund what the customer paid for these items. Use 0 if you've refunded them another way.
+                </p>
+              </div>
+            )}
+
+            {action === 'receive' && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="restock" checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+                  <Label htmlFor="restock" className="font-normal">Put the items back into stock</Label>
+                </div>
+                {restock &&
+                  returnRequest.items.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between gap-4">
+                      <span className="text-sm">
+                        {getItemName(item)}
+                        <span className="text-muted-foreground"> ({item.quantity} returned)</span>
+                      </span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={item.quantity}
+                        className="w-24"
+                        value={restockQuantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setRestockQuantities({
+                            ...restockQuantities,
+                            [item.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), item.quantity),
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+              </div>
+            )}
+
+            {action !== 'receive' && (
+              <div className="space-y-2">
+                <Label htmlFor="returnNote">{action === 'reject' ? 'Reason' : 'Note for the customer'}</Label>
+                <Textarea id="returnNote" value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              variant={action === 'reject' ? 'destructive' : 'default'}
+              disabled={actionMutation.isPending || (action === 'reject' && note.trim() === '')}
+            >
+              {actionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {action === 'approve' ? 'Approve and Refund' : action === 'reject' ? 'Reject Return' : 'Mark Received'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ReturnCard;
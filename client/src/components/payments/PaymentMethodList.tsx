@@ -27,7 +27,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 
-interface PaymentMethod {
+export interface PaymentMethod {
   id: number;
   name: string;
   type: string;
@@ -25,38 +25,58 @@ import {
 } from "@/components/ui/collapsible";
 import { Switch } from "@/components/ui/switch";
 
-// Form schema for Stripe provider settings
-const stripeSettingsSchema = z.object({
-  configData: z.object({
-    publicKey: z.string().min(1, "Public key is required"),
-    secretKey: z.string().min(1, "Secret key is required"),
-    webhookSecret: z.string().optional(),
-  }),
-  isActive: z.boolean().default(true),
-});
+type Provider = "stripe" | "paypal" | "razorpay";
 
-// Form schema for PayPal provider settings
-const paypalSettingsSchema = z.object({
-  configData: z.object({
-    clientId: z.string().min(1, "Client ID is required"),
-    clientSecret: z.string().min(1, "Client Secret is required"),
-    webhookId: z.string().optional(),
-  }),
-  isActive: z.boolean().default(true),
-});
+interface CredentialField {
+  name: string;
+  label: string;
+  placeholder: string;
+  description: string;
+  secret?: boolean;
+}
+
+// What each provider asks for, matching the credentials the server keeps
+const PROVIDER_FIELDS: Record<Provider, { label: string; credentials: CredentialField[]; webhook: Omit<CredentialField, "name"> }> = {
+  stripe: {
+    label: "Stripe",
+    credentials: [
+      { name: "publishableKey", label: "Publishable Key", placeholder: "pk_...", description: "Your Stripe publishable key starting with 'pk_'" },
+      { name: "secretKey", label: "Secret Key", placeholder: "sk_...", description: "Your Stripe secret key starting with 'sk_'", secret: true },
+    ],
+    webhook: { label: "Webhook Secret (Optional)", placeholder: "whsec_...", description: "Webhook secret for validating Stripe events", secret: true },
+  },
+  paypal: {
+    label: "PayPal",
+    credentials: [
+      { name: "clientId", label: "Client ID", placeholder: "Your PayPal client ID", description: "Your PayPal client ID from the developer dashboard" },
+      { name: "clientSecret", label: "Client Secret", placeholder: "Your PayPal client secret", description: "Your PayPal client secret from the developer dashboard", secret: true },
+    ],
+    webhook: { label: "Webhook ID (Optional)", placeholder: "Your PayPal webhook ID", description: "Webhook ID for receiving PayPal notifications" },
+  },
+  razorpay: {
+    label: "Razorpay",
+    credentials: [
+      { name: "keyId", label: "Key ID", placeholder: "rzp_...", description: "Your Razorpay key ID starting with 'rzp_'" },
+      { name: "keySecret", label: "Key Secret", placeholder: "Your Razorpay key secret", description: "Your Razorpay key secret from the dashboard", secret: true },
+    ],
+    webhook: { label: "Webhook Secret (Optional)", placeholder: "Your Razorpay webhook secret", description: "Webhook secret for validating Razorpay events", secret: true },
+  },
+};
 
-// Union type for provider settings
-type ProviderSettings = {
+// Provider settings as the server returns them, with every secret masked
+export type ProviderSettings = {
   id?: number;
   vendorId?: number;
   provider: string;
-  configData?: any;
+  credentials?: Record<string, string | null>;
+  webhookSecret?: string | null;
   isActive: boolean;
+  isTest?: boolean;
 };
 
 interface PaymentProviderFormProps {
   vendorId: number;
-  provider: "stripe" | "paypal";
+  provider: Provider;
   existingSettings?: ProviderSettings;
 }
 
@@ -67,37 +87,34 @@ const PaymentProviderForm = ({
 }: PaymentProviderFormProps) => {
   const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(false);
-  
-  // Determine which schema to use based on provider
-  const formSchema = provider === "stripe" ? stripeSettingsSchema : paypalSettingsSchema;
-  type FormValues = z.infer<typeof formSchema>;
-  
-  // Prepare default values based on provider and existing settings
-  const getDefaultValues = (): FormValues => {
-    if (provider === "stripe") {
-      return {
-        configData: {
-          publicKey: existingSettings?.configData?.publicKey || "",
-          secretKey: existingSettings?.configData?.secretKey || "",
-          webhookSecret: existingSettings?.configData?.webhookSecret || "",
-        },
-        isActive: existingSettings?.isActive || true,
-      };
-    } else {
-      return {
-        configData: {
-          clientId: existingSettings?.configData?.clientId || "",
-          clientSecret: existingSettings?.configData?.clientSecret || "",
-          webhookId: existingSettings?.configData?.webhookId || "",
-        },
-        isActive: existingSettings?.isActive || true,
-      };
+  const { label, credentials, webhook } = PROVIDER_FIELDS[provider];
+  const saved = existingSettings?.credentials ?? {};
+
+  // Saved secrets are never sent back, so blank fields keep what's saved.
+  // Only credentials that were never saved have to be filled in.
+  const formSchema = z.object({
+    credentials: z.record(z.string()),
+    webhookSecret: z.string(),
+    isActive: z.boolean(),
+    isTest: z.boolean(),
+  }).superRefine((values, ctx) => {
+    if (!values.isActive) return;
+    for (const field of credentials) {
+      if (!saved[field.name] && !values.credentials[field.name]?.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.label} is required`, path: ["credentials", field.name] });
+      }
     }
-  };
+  });
+  type FormValues = z.infer<typeof formSchema>;
   
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
-    defaultValues: getDefaultValues(),
+    defaultValues: {
+      credentials: Object.fromEntries(credentials.map(field => [field.name, ""])),
+      webhookSecret: "",
+      isActive: existingSettings?.isActive ?? true,
+      isTest: existingSettings?.isTest ?? true,
+    },
   });
 
   const saveSettingsMutation = useMutation({
@@ -120,13 +137,14 @@ const PaymentProviderForm = ({
     onSuccess: () => {
       toast({
         title: "Settings saved",
-        description: `${provider === "stripe" ? "Stripe" : "PayPal"} settings have been saved successfully.`,
+        description: `${label} settings have been saved successfully.`,
       });
       
       // Invalidate settings query
       queryClient.invalidateQueries({ queryKey: ["/api/vendors", vendorId, "payment-providers", provider] });
       
-      // Close the collapsible
+      // Clear what was typed, so secrets don't linger in the form
+      form.reset({ ...form.getValues(), credentials: Object.fromEntries(credentials.map(field => [field.name, ""])), webhookSecret: "" });
       setIsOpen(false);
     },
     onError: (error: Error) => {
@@ -142,6 +160,10 @@ const PaymentProviderForm = ({
     saveSettingsMutation.mutate(values);
   };
 
+  // Shows the end of what's saved, e.g. "Leave blank to keep ••••••••4242"
+  const placeholderFor = (field: Omit<CredentialField, "name">, current?: string | null) =>
+    current ? `Leave blank to keep ${current}` : field.placeholder;
+
   return (
     <Collapsible
       open={isOpen}
@@ -156,131 +178,69 @@ const PaymentProviderForm = ({
       <CollapsibleContent className="mt-4">
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            {provider === "stripe" ? (
-              // Stripe-specific fields
-              <>
-                <FormField
-                  control={form.control}
-                  name="configData.publicKey"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Publishable Key</FormLabel>
-                      <FormControl>
-                        <Input placeholder="pk_..." {...field} />
-                      </FormControl>
-                      <FormDescription>
-                        Your Stripe publishable key starting with 'pk_'
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="configData.secretKey"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Secret Key</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="password" 
-                          placeholder="sk_..." 
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Your Stripe secret key starting with 'sk_'
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="configData.webhookSecret"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Webhook Secret (Optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="whsec_..." 
-                          {...field}
-                          value={field.value || ""}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Webhook secret for validating Stripe events
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </>
-            ) : (
-              // PayPal-specific fields
-              <>
-                <FormField
-                  control={form.control}
-                  name="configData.clientId"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Client ID</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Your PayPal client ID" {...field} />
-                      </FormControl>
-                      <FormDescription>
-                        Your PayPal client ID from the developer dashboard
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="configData.clientSecret"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Client Secret</FormLabel>
-                      <FormControl>
-                        <Input 
-                          type="password" 
-                          placeholder="Your PayPal client secret" 
-                          {...field} 
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Your PayPal client secret from the developer dashboard
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={form.control}
-                  name="configData.webhookId"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Webhook ID (Optional)</FormLabel>
-                      <FormControl>
-                        <Input 
-                          placeholder="Your PayPal webhook ID" 
-                          {...field}
-                          value={field.value || ""}
-                        />
-                      </FormControl>
-                      <FormDescription>
-                        Webhook ID for receiving PayPal notifications
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </>
-            )}
+            {credentials.map(credential => (
+              <FormField
+                key={credential.name}
+                control={form.control}
+                name={`credentials.${credential.name}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{credential.label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type={credential.secret ? "password" : "text"}
+                        autoComplete="off"
+                        placeholder={placeholderFor(credential, saved[credential.name])}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>{credential.description}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            
+            <FormField
+              control={form.control}
+              name="webhookSecret"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{webhook.label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type={webhook.secret ? "password" : "text"}
+                      autoComplete="off"
+                      placeholder={placeholderFor(webhook, existingSettings?.webhookSecret)}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>{webhook.description}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="isTest"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                  <div className="space-y-0.5">
+                    <FormLabel>Test Mode</FormLabel>
+                    <FormDescription>
+                      These are {label} test credentials that don't take real payments
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
             
             <FormField
               control={form.control}
@@ -328,4 +288,4 @@ const PaymentProviderForm = ({
   );
 };
 
-export default PaymentProviderForm;
\ No newline at end of file
+export default PaymentProviderForm;
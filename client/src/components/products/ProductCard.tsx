@@ -13,6 +13,8 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
+import ResponsiveImage from '@/components/common/ResponsiveImage';
+import type { ImageAsset } from '@shared/schema';
 
 import {
   Card,
@@ -49,6 +51,8 @@ type ProductCardProps = {
     mrp?: string | number;
     gst?: string | number;
     featuredImageUrl?: string;
+    // Renditions of the featured image, when the caller has looked them up
+    featuredImage?: ImageAsset | null;
     inventoryQuantity?: number;
     status: string;
     categoryId?: number;
@@ -131,9 +135,11 @@ const ProductCard = ({ product, onEdit, onDelete, isVendorView = true }: Product
         {/* Product Image */}
         <div className="relative w-full aspect-square bg-gray-100 overflow-hidden">
           {product.featuredImageUrl ? (
-            <img
+            <ResponsiveImage
               src={product.featuredImageUrl}
+              image={product.featuredImage}
               alt={product.name}
+              sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
               className="w-full h-full object-cover"
             />
           ) : (
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ProductImportJob } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Loader2 } from "lucide-react";
+
+type ImportRowError = { row: number; column?: string; message: string };
+
+type ImportReport = {
+  valid: boolean;
+  totalRows: number;
+  totalProducts: number;
+  toCreate: number;
+  toUpdate: number;
+  totalVariants: number;
+  errors: ImportRowError[];
+};
+
+interface ProductImportDialogProps {
+  vendorId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sends the file as multipart form data; apiRequest only sends JSON
+async function uploadImport(vendorId: number, file: File, dryRun: boolean) {
+  const formData = new FormData();
+  formData.append("file", file);
+  const response = await fetch(`/api/vendors/${vendorId}/products/import${dryRun ? "?dryRun=true" : ""}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok && !data.errors) {
+    throw new Error(data.message || response.statusText);
+  }
+  return data as ImportReport & { job?: ProductImportJob };
+}
+
+function ErrorTable({ errors }: { errors: ImportRowError[] }) {
+  return (
+    <div className="border rounded-md overflow-auto max-h-64">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Row</TableHead>
+            <TableHead className="w-40">Column</TableHead>
+            <TableHead>Problem</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {errors.map((error, index) => (
+            <TableRow key={index}>
+              <TableCell>{error.row || "—"}</TableCell>
+              <TableCell className="font-mono text-xs">{error.column || "—"}</TableCell>
+              <TableCell>{error.message}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Import products from a CSV/XLSX file (checked first, then saved in the
+ * background) and export the catalog in the same format
+ */
+export default function ProductImportDialog({ vendorId, open, onOpenChange }: ProductImportDialogProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: job } = useQuery<ProductImportJob>({
+    queryKey: [`/api/vendors/${vendorId}/products/import/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 1000;
+    },
+  });
+  const isFinished = job?.status === "completed" || job?.status === "failed";
+
+  useEffect(() => {
+    if (isFinished) {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/products`] });
+    }
+  }, [isFinished]);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setJobId(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const result = await uploadImport(vendorId, file, dryRun);
+      setReport(result);
+      if (result.job) setJobId(result.job.id);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const jobErrors = (job?.errors as ImportRowError[] | null) ?? [];
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import & Export Products</DialogTitle>
+          <DialogDescription>
+            One row per variant, matched to your products by SKU. Export your catalog to get a file in the right format.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/vendors/${vendorId}/products/export?format=csv`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/vendors/${vendorId}/products/export?format=xlsx`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export XLSX
+            </a>
+          </Button>
+        </div>
+
+        {jobId === null ? (
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setReport(null);
+              }}
+            />
+
+            {report && (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant={report.valid ? "success" : "destructive"}>
+                    {report.valid ? "Ready to import" : `${report.errors.length} problems`}
+                  </Badge>
+                  <span>{report.totalRows} rows</span>
+                  <span>· {report.toCreate} new products</span>
+                  <span>· {report.toUpdate} updated</span>
+                  <span>· {report.totalVariants} variants</span>
+                </div>
+                {report.errors.length > 0 && <ErrorTable errors={report.errors} />}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                {job ? `${job.processedProducts} of ${job.totalProducts} products` : "Starting…"}
+              </span>
+              {job && (
+                <Badge variant={job.status === "completed" ? "success" : job.status === "failed" ? "destructive" : "pending"}>
+                  {job.status}
+                </Badge>
+              )}
+            </div>
+            <Progress value={job && job.totalProducts > 0 ? (job.processedProducts / job.totalProducts) * 100 : 0} />
+            {job && (
+              <p className="text-sm text-muted-foreground">
+                {job.createdCount} created · {job.updatedCount} updated · {job.failedCount} failed
+              </p>
+            )}
+            {jobErrors.length > 0 && <ErrorTable errors={jobErrors} />}
+          </div>
+        )}
+
+        <DialogFooter>
+          {jobId === null ? (
+            <>
+              <Button variant="outline" disabled={!file || isWorking} onClick={() => run(true)}>
+                {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check File
+              </Button>
+              <Button disabled={!file || isWorking || (report !== null && !report.valid)} onClick={() => run(false)}>
+                Import
+              </Button>
+            </>
+          ) : (
+            <Button disabled={!isFinished} onClick={reset}>
+              Import Another File
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
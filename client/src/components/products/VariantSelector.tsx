@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ProductOptionValue, ProductOptionWithValues, ProductVariant } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface VariantSelectorProps {
+  productId: number;
+  // Called with the variant matching the shopper's choices, or null until every option is chosen
+  onVariantChange: (variant: ProductVariant | null) => void;
+  // Called with the picture for the value being hovered or chosen, if it has one
+  onImageChange?: (imageUrl: string | null) => void;
+}
+
+/**
+ * One selector per product option (swatches when the values have colours,
+ * buttons otherwise). Values that can't make up an existing variant with
+ * what's already chosen are disabled.
+ */
+export default function VariantSelector({ productId, onVariantChange, onImageChange }: VariantSelectorProps) {
+  const { data: options = [] } = useQuery<ProductOptionWithValues[]>({
+    queryKey: [`/api/products/${productId}/options`],
+  });
+  const { data: variants = [] } = useQuery<ProductVariant[]>({
+    queryKey: [`/api/products/${productId}/variants`],
+  });
+
+  // Chosen value id per option id
+  const [selected, setSelected] = useState<Record<number, number>>({});
+  const [hovered, setHovered] = useState<ProductOptionValue | null>(null);
+
+  // Start on the default variant's values
+  useEffect(() => {
+    const initial = variants.find(variant => variant.isDefault) ?? variants[0];
+    if (!initial || options.length === 0) return;
+    const choice: Record<number, number> = {};
+    for (const option of options) {
+      const value = option.values.find(v => initial.optionValueIds.includes(v.id));
+      if (value) choice[option.id] = value.id;
+    }
+    setSelected(choice);
+  }, [options, variants]);
+
+  const variant = useMemo(() => {
+    if (options.length === 0 || options.some(option => selected[option.id] === undefined)) return null;
+    const ids = options.map(option => selected[option.id]);
+    return variants.find(v => ids.every(id => v.optionValueIds.includes(id))) ?? null;
+  }, [options, variants, selected]);
+
+  useEffect(() => {
+    onVariantChange(variant);
+  }, [variant]);
+
+  useEffect(() => {
+    if (!onImageChange) return;
+    const chosenValues = options.flatMap(option => option.values.filter(value => value.id === selected[option.id]));
+    onImageChange(hovered?.imageUrl || variant?.imageUrl || chosenValues.find(value => value.imageUrl)?.imageUrl || null);
+  }, [hovered, variant, selected, options]);
+
+  // Whether some variant has this value along with the values chosen for the other options
+  const isAvailable = (optionId: number, valueId: number) =>
+    variants.some(v =>
+      v.optionValueIds.includes(valueId) &&
+      options.every(option => option.id === optionId || selected[option.id] === undefined || v.optionValueIds.includes(selected[option.id]))
+    );
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      {options.map(option => {
+        const chosen = option.values.find(value => value.id === selected[option.id]);
+        const hasSwatches = option.values.some(value => value.swatch);
+        return (
+          <div key={option.id} className="space-y-2">
+            <label className="text-sm font-medium">
+              {option.name}: <span className="font-normal text-muted-foreground">{chosen?.value ?? "Choose one"}</span>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {option.values.map(value => {
+                const isSelected = chosen?.id === value.id;
+                const available = isAvailable(option.id, value.id);
+                return (
+                  <button
+                    key={value.id}
+                    type="button"
+                    aria-label={`Select ${option.name} ${value.value}`}
+                    aria-pressed={isSelected}
+                    title={value.value}
+                    disabled={!available}
+                    onClick={() => setSelected({ ...selected, [option.id]: value.id })}
+                    onMouseEnter={() => setHovered(value)}
+                    onMouseLeave={() => setHovered(null)}
+                    className={cn(
+                      "border transition-colors disabled:cursor-not-allowed disabled:opacity-40",
+                      hasSwatches && value.swatch
+                        ? "w-8 h-8 rounded-full"
+                        : "px-3 py-1 rounded-md text-sm",
+                      isSelected
+                        ? hasSwatches && value.swatch ? "ring-2 ring-offset-2 ring-black" : "border-black bg-black text-white"
+                        : "border-gray-300 hover:border-gray-500"
+                    )}
+                    style={hasSwatches && value.swatch ? { backgroundColor: value.swatch } : undefined}
+                  >
+                    {!(hasSwatches && value.swatch) && value.value}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {options.every(option => selected[option.id] !== undefined) && !variant && (
+        <p className="text-sm text-destructive">This combination isn't available.</p>
+      )}
+    </div>
+  );
+}
@@ -50,6 +50,7 @@ import ProductTagsInput from "./ProductTagsInput";
 import ProductFormStepNav from "./ProductFormStepNav";
 import ProductFormStepSummary, { defaultProductFormSteps } from "./ProductFormStepSummary";
 import EnhancedVariantManager from "./EnhancedVariantManager";
+import type { Product, ProductCategory, ProductOptionWithValues, ProductVariant } from "@shared/schema";
 
 interface EnhancedProductFormProps {
   productId?: number;
@@ -65,10 +66,6 @@ export default function EnhancedProductForm({
   const [step, setStep] = useState(1);
   const [showVariantManager, setShowVariantManager] = useState(false);
   const [variants, setVariants] = useState<any[]>([]);
-  const [selectedColors, setSelectedColors] = useState<string[]>([]);
-  const [selectedSizes, setSelectedSizes] = useState<string[]>([]);
-  const [newColorInput, setNewColorInput] = useState('');
-  const [newSizeInput, setNewSizeInput] = useState('');
   const queryClient = useQueryClient();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -93,6 +90,7 @@ export default function EnhancedProductForm({
       purchasePrice: "",
       mrp: "",
       gst: "",
+      hsnCode: "",
       sku: "",
       barcode: "",
       inventoryQuantity: "0",
@@ -114,36 +112,42 @@ export default function EnhancedProductForm({
   const watchFeaturedImage = form.watch("featuredImageUrl");
   
   // Fetch product categories
-  const { data: categories } = useQuery({
+  const { data: categories } = useQuery<ProductCategory[]>({
     queryKey: [`/api/vendors/${vendorId}/product-categories`],
     enabled: !!vendorId,
   });
   
   // Fetch existing product data if editing
-  const { data: product, isLoading: isLoadingProduct } = useQuery({
-    queryKey: ['/api/products', productId],
+  const { data: product, isLoading: isLoadingProduct } = useQuery<Product>({
+    queryKey: [`/api/products/${productId}`],
     enabled: !!productId,
   });
   
-  // Fetch product variants if editing
-  const { data: productVariants = [] } = useQuery({
-    queryKey: ['/api/products', productId, 'variants'],
+  // Fetch product variants and the options they're made from if editing
+  const { data: productVariants = [] } = useQuery<ProductVariant[]>({
+    queryKey: [`/api/products/${productId}/variants`],
+    enabled: !!productId,
+  });
+  const { data: productOptions = [] } = useQuery<ProductOptionWithValues[]>({
+    queryKey: [`/api/products/${productId}/options`],
     enabled: !!productId,
   });
   
   // Set form values when product data is loaded
   useEffect(() => {
     if (product && isEditing) {
+      const status = productFormSchema.shape.status.safeParse(product.status);
       form.reset({
         name: product.name || "",
         description: product.description || "",
-        status: product.status || "draft",
+        status: status.success ? status.data : "draft",
         categoryId: product.categoryId?.toString(),
         tags: product.tags || [],
         sellingPrice: product.sellingPrice?.toString() || "0",
         purchasePrice: product.purchasePrice?.toString() || "",
         mrp: product.mrp?.toString() || "",
         gst: product.gst?.toString() || "",
+        hsnCode: product.hsnCode || "",
         sku: product.sku || "",
         barcode: product.barcode || "",
         inventoryQuantity: product.inventoryQuantity?.toString() || "0",
@@ -176,6 +180,7 @@ export default function EnhancedProductForm({
         purchasePrice: data.purchasePrice ? parseFloat(data.purchasePrice) : null,
         mrp: data.mrp ? parseFloat(data.mrp) : null,
         gst: data.gst ? parseFloat(data.gst) : null,
+        hsnCode: data.hsnCode || null,
         inventoryQuantity: data.inventoryQuantity ? parseInt(data.inventoryQuantity) : 0,
         weight: data.weight ? parseFloat(data.weight) : null,
         
@@ -203,7 +208,7 @@ export default function EnhancedProductForm({
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['/api/products'] });
       if (isEditing) {
-        queryClient.invalidateQueries({ queryKey: ['/api/products', productId] });
+        queryClient.invalidateQueries({ queryKey: [`/api/products/${productId}`] });
       }
       
       toast({
@@ -634,6 +639,29 @@ export default function EnhancedProductForm({
                           </FormItem>
                         )}
                       />
+
+                      <FormField
+                        control={form.control}
+                        name="hsnCode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-base font-medium">HSN Code</FormLabel>
+                            <FormControl>
+                              <Input
+                                {...field}
+                                value={field.value ?? ""}
+                                inputMode="numeric"
+                                className="text-base py-6"
+                                placeholder="e.g. 6109"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Printed against this product on GST tax invoices
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
                   </CardContent>
                 </Card>
@@ -911,235 +939,59 @@ export default function EnhancedProductForm({
                     
                     {watchHasVariants ? (
                       <div className="space-y-4">
-                        {/* Attribute Setup Box */}
+                        {/* Options Box */}
                         <div className="rounded-lg border p-4">
-                          <h3 className="text-base font-medium mb-2">Product Variant Attributes</h3>
-                          
-                          <div className="grid gap-4 md:grid-cols-2">
-                            <div className="space-y-2">
-                              <Label>Available Colors</Label>
-                              <div className="flex flex-wrap gap-2">
-                                {['Red', 'Blue', 'Green', 'Black', 'White', 'Yellow', 'Purple'].map(color => (
-                                  <Button 
-                                    key={color} 
-                                    type="button" 
-                                    variant={selectedColors.includes(color) ? "default" : "outline"}
-                                    size="sm"
-                                    className="flex items-center gap-1"
-                                    onClick={() => {
-                                      if (selectedColors.includes(color)) {
-                                        setSelectedColors(selectedColors.filter(c => c !== color));
-                                      } else {
-                                        setSelectedColors([...selectedColors, color]);
-                                      }
-                                    }}
-                                  >
-                                    <span className="w-3 h-3 rounded-full" 
-                                      style={{ backgroundColor: 
-                                        color === 'Red' ? '#e53935' : 
-                                        color === 'Blue' ? '#1e88e5' : 
-                                        color === 'Green' ? '#43a047' :
-                                        color === 'Black' ? '#212121' :
-                                        color === 'White' ? '#f5f5f5' :
-                                        color === 'Yellow' ? '#fdd835' :
-                                        color === 'Purple' ? '#8e24aa' : '#9e9e9e'
-                                      }} 
-                                    />
-                                    {color}
-                                  </Button>
-                                ))}
-                              </div>
-                              <div className="flex items-center mt-2">
-                                <Input 
-                                  placeholder="Add custom color..." 
-                                  className="h-8 rounded-r-none"
-                                  value={newColorInput}
-                                  onChange={(e) => setNewColorInput(e.target.value)}
-                                  onKeyDown={(e) => {
-                                    if (e.key === 'Enter' && newColorInput.trim()) {
-                                      e.preventDefault();
-                                      if (!selectedColors.includes(newColorInput.trim())) {
-                                        setSelectedColors([...selectedColors, newColorInput.trim()]);
-                                        setNewColorInput('');
-                                      }
-                                    }
-                                  }}
-                                />
-                                <Button 
-                                  type="button" 
-                                  size="sm" 
-                                  className="h-8 rounded-l-none"
-                                  onClick={() => {
-                                    if (newColorInput.trim() && !selectedColors.includes(newColorInput.trim())) {
-                                      setSelectedColors([...selectedColors, newColorInput.trim()]);
-                                      setNewColorInput('');
-                                    }
-                                  }}
-                                >
-                                  Add
-                                </Button>
-                              </div>
-                            </div>
-                            
+                          <h3 className="text-base font-medium mb-2">Product Options</h3>
+
+                          {productOptions.length > 0 ? (
                             <div className="space-y-2">
-                              <Label>Available Sizes</Label>
-                              <div className="flex flex-wrap gap-2">
-                                {['XS', 'S', 'M', 'L', 'XL', 'XXL'].map(size => (
-                                  <Button 
-                                    key={size} 
-                                    type="button" 
-                                    variant={selectedSizes.includes(size) ? "default" : "outline"}
-                                    size="sm"
-                                    onClick={() => {
-                                      if (selectedSizes.includes(size)) {
-                                        setSelectedSizes(selectedSizes.filter(s => s !== size));
-                                      } else {
-                                        setSelectedSizes([...selectedSizes, size]);
-                                      }
-                                    }}
-                                  >
-                                    {size}
-                                  </Button>
-                                ))}
-                              </div>
-                              <div className="flex items-center mt-2">
-                                <Input 
-                                  placeholder="Add custom size..." 
-                                  className="h-8 rounded-r-none"
-                                  value={newSizeInput}
-                                  onChange={(e) => setNewSizeInput(e.target.value)}
-                                  onKeyDown={(e) => {
-                                    if (e.key === 'Enter' && newSizeInput.trim()) {
-                                      e.preventDefault();
-                                      if (!selectedSizes.includes(newSizeInput.trim())) {
-                                        setSelectedSizes([...selectedSizes, newSizeInput.trim()]);
-                                        setNewSizeInput('');
-                                      }
-                                    }
-                                  }}
-                                />
-                                <Button 
-                                  type="button" 
-                                  size="sm" 
-                                  className="h-8 rounded-l-none"
-                                  onClick={() => {
-                                    if (newSizeInput.trim() && !selectedSizes.includes(newSizeInput.trim())) {
-                                      setSelectedSizes([...selectedSizes, newSizeInput.trim()]);
-                                      setNewSizeInput('');
-                                    }
-                                  }}
-                                >
-                                  Add
-                                </Button>
-                              </div>
+                              {productOptions.map(option => (
+                                <div key={option.id} className="flex flex-wrap items-center gap-2">
+                                  <span className="text-sm font-medium w-24">{option.name}</span>
+                                  {option.values.map(value => (
+                                    <Badge key={value.id} variant="outline" className="flex items-center gap-1">
+                                      {value.swatch && (
+                                        <span className="w-3 h-3 rounded-full border" style={{ backgroundColor: value.swatch }} />
+                                      )}
+                                      {value.value}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              ))}
+                              <p className="text-sm text-muted-foreground pt-1">
+                                {productOptions.map(option => option.values.length).join(" × ")} = {productOptions.reduce((count, option) => count * option.values.length, 1)} possible variants
+                              </p>
                             </div>
-                          </div>
-                          
-                          <div className="mt-4">
-                            <p className="text-sm text-muted-foreground mb-2">
-                              Preview: {selectedColors.length} colors × {selectedSizes.length} sizes = {selectedColors.length * selectedSizes.length} possible variants
+                          ) : (
+                            <p className="text-sm text-muted-foreground">
+                              No options yet. Add options such as size, colour or material, and a variant can be made
+                              for every combination of their values.
                             </p>
-                            
-                            {selectedColors.length > 0 && selectedSizes.length > 0 ? (
-                              <div className="border rounded-md overflow-hidden max-h-36 overflow-y-auto">
-                                <table className="w-full text-sm">
-                                  <thead>
-                                    <tr className="bg-muted/50 sticky top-0">
-                                      <th className="px-2 py-1 text-left font-medium">Color / Size</th>
-                                      {selectedSizes.map(size => (
-                                        <th key={size} className="px-2 py-1 text-center font-medium">{size}</th>
-                                      ))}
-                                    </tr>
-                                  </thead>
-                                  <tbody>
-                                    {selectedColors.map((color, index) => (
-                                      <tr key={color} className={index % 2 === 0 ? '' : 'bg-muted/20'}>
-                                        <td className="px-2 py-1 flex items-center gap-1">
-                                          <span className="w-2 h-2 rounded-full" 
-                                            style={{ backgroundColor: 
-                                              color === 'Red' ? '#e53935' : 
-                                              color === 'Blue' ? '#1e88e5' : 
-                                              color === 'Green' ? '#43a047' :
-                                              color === 'Black' ? '#212121' :
-                                              color === 'White' ? '#f5f5f5' :
-                                              color === 'Yellow' ? '#fdd835' :
-                                              color === 'Purple' ? '#8e24aa' : '#9e9e9e'
-                                            }} 
-                                          />
-                                          {color}
-                                        </td>
-                                        {selectedSizes.map(size => (
-                                          <td key={`${color}-${size}`} className="px-2 py-1 text-center">
-                                            <span className="inline-flex items-center justify-center w-4 h-4 rounded-full bg-primary/10 text-xs text-primary">
-                                              ✓
-                                            </span>
-                                          </td>
-                                        ))}
-                                      </tr>
-                                    ))}
-                                  </tbody>
-                                </table>
-                              </div>
-                            ) : (
-                              <div className="border rounded-md p-4 text-center text-muted-foreground">
-                                {!selectedColors.length && !selectedSizes.length ? (
-                                  <p>Select at least one color and one size to preview variants</p>
-                                ) : !selectedColors.length ? (
-                                  <p>Select at least one color to preview variants</p>
-                                ) : (
-                                  <p>Select at least one size to preview variants</p>
-                                )}
-                              </div>
-                            )}
-                          </div>
-                          
+                          )}
+
                           {!productId ? (
                             <div className="mt-4">
                               <div className="rounded-md bg-blue-50 p-3 border border-blue-200">
                                 <div className="flex items-start gap-3">
                                   <Info className="w-4 h-4 text-blue-500 mt-0.5" />
                                   <p className="text-sm text-blue-700">
-                                    Save this product first to generate all variants. 
-                                    Your variant selections will be preserved.
+                                    Save this product first, then add its options and variants.
                                   </p>
                                 </div>
                               </div>
                             </div>
                           ) : (
                             <div className="mt-4 flex justify-end">
-                              <Button 
-                                type="button" 
+                              <Button
+                                type="button"
                                 onClick={() => setShowVariantManager(true)}
                               >
-                                Generate Variants
+                                {productOptions.length > 0 ? "Edit Options" : "Add Options"}
                               </Button>
                             </div>
                           )}
                         </div>
-                        
-                        {/* Guide Box */}
-                        <div className="rounded-md bg-primary/5 p-4 border border-primary/10">
-                          <div className="flex items-start gap-3">
-                            <Info className="w-5 h-5 text-primary mt-0.5" />
-                            <div>
-                              <p className="text-sm text-muted-foreground">
-                                {!productId 
-                                  ? "Save this product first, then you can create variants with different colors, sizes, and other attributes."
-                                  : "Click the button above to generate variants using our matrix generator. The system will automatically create all combinations of colors and sizes."
-                                }
-                              </p>
-                              <Button 
-                                type="button" 
-                                className="mt-3"
-                                onClick={() => setShowVariantManager(true)}
-                                disabled={!productId}
-                              >
-                                {!productId ? "Save Product First" : "Advanced Variant Options"}
-                              </Button>
-                            </div>
-                          </div>
-                        </div>
-                        
+
                         {/* Variant Manager Dialog */}
                         {showVariantManager && productId && (
                           <EnhancedVariantManager
@@ -1150,14 +1002,11 @@ export default function EnhancedProductForm({
                               sellingPrice: form.watch("sellingPrice") || "0",
                               gst: form.watch("gst") || undefined
                             }}
-                            initialAttributes={{
-                              colors: selectedColors,
-                              sizes: selectedSizes
-                            }}
                             onClose={() => {
                               setShowVariantManager(false);
-                              // Refresh variants data when the manager is closed
-                              queryClient.invalidateQueries({ queryKey: ['/api/products', productId, 'variants'] });
+                              // Refresh options and variants when the manager is closed
+                              queryClient.invalidateQueries({ queryKey: [`/api/products/${productId}/variants`] });
+                              queryClient.invalidateQueries({ queryKey: [`/api/products/${productId}/options`] });
                             }}
                           />
                         )}
@@ -1191,13 +1040,13 @@ export default function EnhancedProductForm({
                                             <div className="w-8 h-8 rounded-md overflow-hidden flex-shrink-0">
                                               <img 
                                                 src={variant.imageUrl} 
-                                                alt={`${variant.color} ${variant.size}`}
+                                                alt={variant.title || form.watch("name")}
                                                 className="w-full h-full object-cover"
                                               />
                                             </div>
                                           )}
                                           <span>
-                                            {variant.color}, {variant.size}
+                                            {variant.title || form.watch("name")}
                                           </span>
                                         </div>
                                       </td>
@@ -1,7 +1,8 @@
-import { useState, useEffect } from "react";
-import { useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useMutation } from "@tanstack/react-query";
 import { v4 as uuidv4 } from "uuid";
+import type { ProductOptionWithValues, ProductVariant } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import {
@@ -23,24 +24,23 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Save, X, AlertCircle, ImagePlus } from "lucide-react";
-import { Separator } from "@/components/ui/separator";
-import { 
-  Table, 
-  TableBody, 
-  TableCell, 
-  TableHead, 
-  TableHeader, 
-  TableRow 
+import { Loader2, Save, X } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
 } from "@/components/ui/table";
-import VariantAttributesManager, { Attribute } from "./VariantAttributesManager";
-import MatrixVariantGenerator from "./MatrixVariantGenerator";
-
-interface MatrixVariant {
-  id: string | number;
-  createdAt: Date | null;
-  color: string;
-  size: string;
+import VariantAttributesManager, { OptionDraft } from "./VariantAttributesManager";
+import MatrixVariantGenerator, { combinationKey, combinationsOf, OptionValueSwatch } from "./MatrixVariantGenerator";
+
+// A variant being edited; key is the variant id, or a temporary id for new ones
+interface VariantRow {
+  key: string;
+  id?: number;
+  optionValueIds: number[];
   purchasePrice: string | null;
   sellingPrice: string;
   mrp: string | null;
@@ -50,12 +50,8 @@ interface MatrixVariant {
   weight: string | null;
   inventoryQuantity: number;
   isDefault: boolean;
-  productId: number;
   imageUrl: string | null;
-  attributes: Record<string, string>;
   images: string[];
-  position: number | null;
-  updatedAt?: Date | null;
 }
 
 interface ProductProps {
@@ -64,28 +60,55 @@ interface ProductProps {
   [key: string]: any;
 }
 
-interface InitialAttributes {
-  colors?: string[];
-  sizes?: string[];
-}
-
 interface EnhancedVariantManagerProps {
   product: ProductProps;
-  initialVariant?: MatrixVariant | null;
-  initialAttributes?: InitialAttributes;
   onClose: () => void;
 }
 
+const toVariantRow = (variant: ProductVariant): VariantRow => ({
+  key: variant.id.toString(),
+  id: variant.id,
+  optionValueIds: variant.optionValueIds,
+  purchasePrice: variant.purchasePrice,
+  sellingPrice: variant.sellingPrice,
+  mrp: variant.mrp,
+  gst: variant.gst,
+  sku: variant.sku,
+  barcode: variant.barcode,
+  weight: variant.weight,
+  inventoryQuantity: variant.inventoryQuantity ?? 0,
+  isDefault: variant.isDefault ?? false,
+  imageUrl: variant.imageUrl,
+  images: variant.images ?? [],
+});
+
+const toOptionDrafts = (options: ProductOptionWithValues[]): OptionDraft[] =>
+  options.map(option => ({
+    id: option.id,
+    name: option.name,
+    values: option.values.map(value => ({
+      id: value.id,
+      value: value.value,
+      swatch: value.swatch,
+      imageUrl: value.imageUrl,
+    })),
+  }));
+
+/**
+ * Manages a product's options and the variants made from them: define the
+ * options, preview every combination, then price and stock each variant
+ */
 const EnhancedVariantManager = ({
   product,
-  initialVariant = null,
-  initialAttributes,
   onClose
 }: EnhancedVariantManagerProps) => {
-  const [attributes, setAttributes] = useState<Attribute[]>([]);
-  const [activeTab, setActiveTab] = useState("attributes");
-  const [variants, setVariants] = useState<MatrixVariant[]>([]);
-  const [isEditMode, setIsEditMode] = useState(false);
+  const optionsKey = [`/api/products/${product.id}/options`];
+  const variantsKey = [`/api/products/${product.id}/variants`];
+
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>([]);
+  const [activeTab, setActiveTab] = useState("options");
+  const [variants, setVariants] = useState<VariantRow[]>([]);
+  const [removedVariantIds, setRemovedVariantIds] = useState<number[]>([]);
   const [bulkEditMode, setBulkEditMode] = useState(false);
   const [bulkEditData, setBulkEditData] = useState<{
     sellingPrice?: string;
@@ -102,122 +125,72 @@ const EnhancedVariantManager = ({
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Initialize with initialVariant if provided (editing mode) or initialAttributes if provided
+  const { data: options = [], isLoading: isLoadingOptions } = useQuery<ProductOptionWithValues[]>({
+    queryKey: optionsKey,
+  });
+  const { data: existingVariants = [], isLoading: isLoadingVariants } = useQuery<ProductVariant[]>({
+    queryKey: variantsKey,
+  });
+
+  // Start from what the product already has
   useEffect(() => {
-    if (initialVariant) {
-      setIsEditMode(true);
+    if (isLoadingOptions || isLoadingVariants) return;
+    setOptionDrafts(toOptionDrafts(options));
+    setVariants(existingVariants.map(toVariantRow));
+    if (existingVariants.length > 0) {
       setActiveTab("details");
-      
-      // Create attributes from the initial variant
-      const attributesFromVariant: Attribute[] = [];
-      
-      // Add color with isColor=true flag
-      attributesFromVariant.push({ 
-        name: "Color", 
-        values: [initialVariant.color],
-        isColor: true
-      });
-      
-      // Add size
-      attributesFromVariant.push({ 
-        name: "Size", 
-        values: [initialVariant.size] 
-      });
-      
-      // Add other attributes from the variant.attributes object
-      Object.entries(initialVariant.attributes || {}).forEach(([key, value]) => {
-        if (key !== "Color" && key !== "Size") {
-          attributesFromVariant.push({ name: key, values: [value] });
-        }
-      });
-      
-      setAttributes(attributesFromVariant);
-      setVariants([initialVariant]);
-    } else if (initialAttributes) {
-      // If we have preselected colors/sizes from the product form
-      const attributesFromSelection: Attribute[] = [];
-      
-      // Add colors if provided
-      if (initialAttributes.colors && initialAttributes.colors.length > 0) {
-        attributesFromSelection.push({
-          name: "Color",
-          values: initialAttributes.colors,
-          isColor: true
-        });
-      }
-      
-      // Add sizes if provided
-      if (initialAttributes.sizes && initialAttributes.sizes.length > 0) {
-        attributesFromSelection.push({
-          name: "Size",
-          values: initialAttributes.sizes
-        });
-      }
-      
-      if (attributesFromSelection.length > 0) {
-        setAttributes(attributesFromSelection);
-        
-        // Auto-switch to the matrix tab if both attributes are set
-        if (initialAttributes.colors?.length && initialAttributes.sizes?.length) {
-          setActiveTab("matrix");
-        }
-      }
     }
-  }, [initialVariant, initialAttributes]);
+  }, [isLoadingOptions, isLoadingVariants]);
+
+  const valuesById = useMemo(
+    () => new Map(options.flatMap(option => option.values.map(value => [value.id, value] as const))),
+    [options]
+  );
+  const existingCombinations = useMemo(
+    () => new Set(existingVariants.map(variant => combinationKey(variant.optionValueIds))),
+    [existingVariants]
+  );
+
+  // Saving options also updates or removes variants on the server to match
+  const saveOptionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/products/${product.id}/options`, optionDrafts);
+      return response.json() as Promise<ProductOptionWithValues[]>;
+    },
+    onSuccess: async (savedOptions) => {
+      queryClient.setQueryData(optionsKey, savedOptions);
+      setOptionDrafts(toOptionDrafts(savedOptions));
+      await queryClient.invalidateQueries({ queryKey: variantsKey });
+      const refreshed = queryClient.getQueryData<ProductVariant[]>(variantsKey) ?? [];
+      setVariants(refreshed.map(toVariantRow));
+      setRemovedVariantIds([]);
+      setActiveTab("matrix");
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't save options",
+        description: error instanceof Error ? error.message : "Failed to save options",
+        variant: "destructive",
+      });
+    },
+  });
 
-  // Save mutation
   const saveMutation = useMutation({
     mutationFn: async () => {
-      if (isEditMode && variants.length === 1) {
-        // Update existing variant
-        const variant = variants[0];
-        await apiRequest("PUT", `/api/products/${product.id}/variants/${variant.id}`, {
-          color: variant.color,
-          size: variant.size,
-          purchasePrice: variant.purchasePrice,
-          sellingPrice: variant.sellingPrice,
-          mrp: variant.mrp,
-          gst: variant.gst,
-          sku: variant.sku,
-          barcode: variant.barcode,
-          weight: variant.weight,
-          inventoryQuantity: variant.inventoryQuantity,
-          isDefault: variant.isDefault,
-          attributes: variant.attributes,
-          images: variant.images,
-          imageUrl: variant.imageUrl,
-        });
-      } else {
-        // Create new variants
-        await Promise.all(
-          variants.map(variant => 
-            apiRequest("POST", `/api/products/${product.id}/variants`, {
-              color: variant.color,
-              size: variant.size,
-              purchasePrice: variant.purchasePrice,
-              sellingPrice: variant.sellingPrice,
-              mrp: variant.mrp,
-              gst: variant.gst,
-              sku: variant.sku,
-              barcode: variant.barcode,
-              weight: variant.weight,
-              inventoryQuantity: variant.inventoryQuantity,
-              isDefault: variant.isDefault,
-              attributes: variant.attributes,
-              images: variant.images,
-              imageUrl: variant.imageUrl,
-            })
-          )
-        );
-      }
+      await Promise.all(
+        removedVariantIds.map(id => apiRequest("DELETE", `/api/product-variants/${id}`))
+      );
+      await apiRequest(
+        "POST",
+        `/api/products/${product.id}/variants`,
+        variants.map(({ key, ...variant }, position) => ({ ...variant, position }))
+      );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products", product.id, "variants"] });
+      queryClient.invalidateQueries({ queryKey: variantsKey });
       toast({
-        title: isEditMode ? "Variant updated" : "Variants created",
-        description: isEditMode
-          ? "The variant has been updated successfully."
-          : "New variants have been created successfully.",
+        title: "Variants saved",
+        description: "The product's variants have been saved successfully.",
       });
       onClose();
     },
@@ -230,108 +203,49 @@ const EnhancedVariantManager = ({
     },
   });
 
-  // Generate variant combinations from attributes
+  const variantTitle = (variant: VariantRow) =>
+    variant.optionValueIds.map(id => valuesById.get(id)?.value ?? "?").join(" / ") || product.name;
+
+  // Add a row for every combination the product doesn't have a variant for yet
   const generateVariants = () => {
-    // Validate attributes
-    const hasColor = attributes.some(attr => attr.name === "Color" && attr.values.length > 0);
-    const hasSize = attributes.some(attr => attr.name === "Size" && attr.values.length > 0);
-    
-    if (!hasColor || !hasSize) {
-      setErrors({ generate: "Both Color and Size attributes must have at least one value" });
-      return;
-    }
-    
-    setErrors({});
-    
-    // Get all attribute combinations
-    const colorAttr = attributes.find(a => a.name === "Color")!;
-    const sizeAttr = attributes.find(a => a.name === "Size")!;
-    
-    // Create the product variants matrix
-    const generatedVariants: MatrixVariant[] = [];
-    
     // Create a base SKU from product information
-    const baseSkuParts = [];
-    if (product.sku) {
-      baseSkuParts.push(product.sku);
-    } else if (product.name) {
-      // Create an abbreviation from product name (first letter of each word, max 3 chars)
-      const nameAbbrev = product.name
-        .split(' ')
-        .map(word => word.charAt(0).toUpperCase())
-        .join('')
-        .substring(0, 3);
-      baseSkuParts.push(nameAbbrev);
-    } else {
-      baseSkuParts.push("PROD");
-    }
-    
-    const baseSku = baseSkuParts.join('-');
-    
-    // Use product's selling price as default if available
-    const defaultSellingPrice = product.sellingPrice || "0";
-    const defaultGst = product.gst || "18";
-    
-    let isFirstVariant = true;
-    
-    for (const color of colorAttr.values) {
-      for (const size of sizeAttr.values) {
-        // Create color and size codes for SKU generation
-        const colorCode = color.substring(0, 3).toUpperCase();
-        const sizeCode = size.toUpperCase();
-        
-        // Generate SKU in format: BASE-COLOR-SIZE (e.g., TSH-RED-XL)
-        const sku = `${baseSku}-${colorCode}-${sizeCode}`.replace(/\s+/g, '-');
-        
-        // Prepare the attributes record
-        const variantAttributes: Record<string, string> = { 
-          "Color": color,
-          "Size": size
-        };
-        
-        // Add any additional attributes 
-        // (ignoring Color and Size which we already added)
-        attributes.forEach(attr => {
-          if (attr.name !== "Color" && attr.name !== "Size" && attr.values.length > 0) {
-            // For other attributes, we just use the first value since we don't
-            // create matrix combinations for them
-            variantAttributes[attr.name] = attr.values[0];
-          }
-        });
-        
-        // Create the variant
-        generatedVariants.push({
-          id: uuidv4(),
-          createdAt: null,
-          color,
-          size,
-          purchasePrice: null,
-          sellingPrice: defaultSellingPrice,
-          mrp: null,
-          gst: defaultGst,
-          sku: sku,
-          barcode: null,
-          weight: null,
-          inventoryQuantity: 10,
-          isDefault: isFirstVariant, // Set first variant as default
-          productId: product.id,
-          imageUrl: null,
-          attributes: variantAttributes,
-          images: [],
-          position: null,
-          updatedAt: null
-        });
-        
-        isFirstVariant = false;
-      }
+    const baseSku = product.sku || product.name
+      ?.split(' ')
+      .map((word: string) => word.charAt(0).toUpperCase())
+      .join('')
+      .substring(0, 3) || "PROD";
+
+    const current = new Set(variants.map(variant => combinationKey(variant.optionValueIds)));
+    const generated: VariantRow[] = combinationsOf(options)
+      .filter(values => !current.has(combinationKey(values.map(value => value.id))))
+      .map(values => ({
+        key: uuidv4(),
+        optionValueIds: values.map(value => value.id),
+        purchasePrice: null,
+        sellingPrice: product.sellingPrice || "0",
+        mrp: null,
+        gst: product.gst || "18",
+        // SKU in the format BASE-VALUE-VALUE (e.g., TSH-RED-XL)
+        sku: [baseSku, ...values.map(value => value.value.substring(0, 3).toUpperCase())].join('-').replace(/\s+/g, '-'),
+        barcode: null,
+        weight: null,
+        inventoryQuantity: 10,
+        isDefault: false,
+        // A value's picture is the natural default for the variants that use it
+        imageUrl: values.find(value => value.imageUrl)?.imageUrl ?? null,
+        images: [],
+      }));
+
+    const updatedVariants = [...variants, ...generated];
+    if (!updatedVariants.some(variant => variant.isDefault) && updatedVariants.length > 0) {
+      updatedVariants[0] = { ...updatedVariants[0], isDefault: true };
     }
-    
-    setVariants(generatedVariants);
+    setVariants(updatedVariants);
     setActiveTab("details");
   };
 
   // Update a specific variant field
-  const updateVariantField = (index: number, field: string, value: any) => {
+  const updateVariantField = (index: number, field: keyof VariantRow, value: any) => {
     const updatedVariants = [...variants];
     updatedVariants[index] = {
       ...updatedVariants[index],
@@ -340,11 +254,13 @@ const EnhancedVariantManager = ({
     setVariants(updatedVariants);
   };
 
-  // Remove a variant
+  // Remove a variant; saved ones are deleted when the changes are saved
   const removeVariant = (index: number) => {
-    const updatedVariants = [...variants];
-    updatedVariants.splice(index, 1);
-    setVariants(updatedVariants);
+    const removed = variants[index];
+    if (removed.id) {
+      setRemovedVariantIds([...removedVariantIds, removed.id]);
+    }
+    setVariants(variants.filter((_, i) => i !== index));
   };
 
   // Set a variant as default
@@ -357,12 +273,11 @@ const EnhancedVariantManager = ({
   };
 
   // Toggle variant selection for bulk edit
-  const toggleVariantSelection = (variantId: string | number) => {
-    const id = variantId.toString();
-    if (selectedVariants.includes(id)) {
-      setSelectedVariants(selectedVariants.filter(v => v !== id));
+  const toggleVariantSelection = (key: string) => {
+    if (selectedVariants.includes(key)) {
+      setSelectedVariants(selectedVariants.filter(v => v !== key));
     } else {
-      setSelectedVariants([...selectedVariants, id]);
+      setSelectedVariants([...selectedVariants, key]);
     }
   };
 
@@ -376,54 +291,30 @@ const EnhancedVariantManager = ({
       });
       return;
     }
-    
+
     // Update all selected variants with bulk edit data
     const updatedVariants = variants.map(variant => {
-      if (selectedVariants.includes(variant.id.toString())) {
-        const updated = { ...variant };
-        
-        if (bulkEditData.sellingPrice !== undefined) {
-          updated.sellingPrice = bulkEditData.sellingPrice || "0";
-        }
-        
-        if (bulkEditData.mrp !== undefined) {
-          updated.mrp = bulkEditData.mrp || null;
-        }
-        
-        if (bulkEditData.gst !== undefined) {
-          updated.gst = bulkEditData.gst || null;
-        }
-        
-        if (bulkEditData.purchasePrice !== undefined) {
-          updated.purchasePrice = bulkEditData.purchasePrice || null;
-        }
-        
-        if (bulkEditData.inventoryQuantity !== undefined) {
-          updated.inventoryQuantity = bulkEditData.inventoryQuantity || 0;
-        }
-        
-        if (bulkEditData.sku !== undefined) {
-          updated.sku = bulkEditData.sku || null;
-        }
-        
-        if (bulkEditData.barcode !== undefined) {
-          updated.barcode = bulkEditData.barcode || null;
-        }
-        
-        if (bulkEditData.weight !== undefined) {
-          updated.weight = bulkEditData.weight || null;
-        }
-        
-        return updated;
+      if (!selectedVariants.includes(variant.key)) {
+        return variant;
       }
-      return variant;
+
+      const updated = { ...variant };
+      if (bulkEditData.sellingPrice !== undefined) updated.sellingPrice = bulkEditData.sellingPrice || "0";
+      if (bulkEditData.mrp !== undefined) updated.mrp = bulkEditData.mrp || null;
+      if (bulkEditData.gst !== undefined) updated.gst = bulkEditData.gst || null;
+      if (bulkEditData.purchasePrice !== undefined) updated.purchasePrice = bulkEditData.purchasePrice || null;
+      if (bulkEditData.inventoryQuantity !== undefined) updated.inventoryQuantity = bulkEditData.inventoryQuantity || 0;
+      if (bulkEditData.sku !== undefined) updated.sku = bulkEditData.sku || null;
+      if (bulkEditData.barcode !== undefined) updated.barcode = bulkEditData.barcode || null;
+      if (bulkEditData.weight !== undefined) updated.weight = bulkEditData.weight || null;
+      return updated;
     });
-    
+
     setVariants(updatedVariants);
     setBulkEditMode(false);
     setBulkEditData({});
     setSelectedVariants([]);
-    
+
     toast({
       title: "Bulk edit applied",
       description: `Updated ${selectedVariants.length} variants`
@@ -433,30 +324,22 @@ const EnhancedVariantManager = ({
   // Validate before saving
   const validateBeforeSave = () => {
     const newErrors: Record<string, string> = {};
-    
-    // Check for empty variants
-    if (variants.length === 0) {
-      newErrors.variants = "No variants to save";
-      return false;
-    }
-    
-    // Check for required fields in variants
     let isValid = true;
-    
+
     variants.forEach((variant, index) => {
       // Validate selling price
       if (!variant.sellingPrice || Number(variant.sellingPrice) < 0) {
         newErrors[`variant_${index}_price`] = "Price must be a positive number";
         isValid = false;
       }
-      
+
       // Validate inventory
       if (variant.inventoryQuantity < 0) {
         newErrors[`variant_${index}_inventory`] = "Inventory cannot be negative";
         isValid = false;
       }
     });
-    
+
     setErrors(newErrors);
     return isValid;
   };
@@ -474,199 +357,64 @@ const EnhancedVariantManager = ({
     }
   };
 
+  // Every option needs a name and a value; clearing all options is allowed once some were saved
+  const canSaveOptions =
+    optionDrafts.every(option => option.name.trim() && option.values.length > 0) &&
+    (optionDrafts.length > 0 || options.length > 0);
+
   return (
     <Dialog open={true} onOpenChange={onClose}>
       <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>
-            {isEditMode ? "Edit Variant" : "Create Product Variants"}
-          </DialogTitle>
+          <DialogTitle>Product Options & Variants</DialogTitle>
           <DialogDescription>
-            {isEditMode 
-              ? "Update variant details" 
-              : "Define options like size and color to create product variants"
-            }
+            Define options like size, colour or material, then set up a variant for each combination
           </DialogDescription>
         </DialogHeader>
 
+        {isLoadingOptions || isLoadingVariants ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="mb-4">
-            <TabsTrigger value="attributes">1. Define Attributes</TabsTrigger>
-            <TabsTrigger 
-              value="matrix" 
-              disabled={!attributes.some(a => a.name === "Color" && a.values.length > 0) || 
-                        !attributes.some(a => a.name === "Size" && a.values.length > 0)}
-            >
+            <TabsTrigger value="options">1. Define Options</TabsTrigger>
+            <TabsTrigger value="matrix" disabled={options.length === 0}>
               2. Matrix Preview
             </TabsTrigger>
-            <TabsTrigger 
-              value="details" 
-              disabled={variants.length === 0}
-            >
+            <TabsTrigger value="details" disabled={variants.length === 0}>
               3. Variant Details
             </TabsTrigger>
           </TabsList>
-          
-          {/* Attributes Tab */}
-          <TabsContent value="attributes">
-            {/* Use our modern matrix variant generator */}
-            <MatrixVariantGenerator
-              colorValues={(attributes.find(a => a.name === "Color")?.values || [])}
-              sizeValues={(attributes.find(a => a.name === "Size")?.values || [])}
-              onColorValuesChange={(values) => {
-                const updatedAttributes = [...attributes];
-                const colorIndex = updatedAttributes.findIndex(a => a.name === "Color");
-                if (colorIndex >= 0) {
-                  updatedAttributes[colorIndex].values = values;
-                } else {
-                  updatedAttributes.push({ name: "Color", values, isColor: true });
-                }
-                setAttributes(updatedAttributes);
-              }}
-              onSizeValuesChange={(values) => {
-                const updatedAttributes = [...attributes];
-                const sizeIndex = updatedAttributes.findIndex(a => a.name === "Size");
-                if (sizeIndex >= 0) {
-                  updatedAttributes[sizeIndex].values = values;
-                } else {
-                  updatedAttributes.push({ name: "Size", values });
-                }
-                setAttributes(updatedAttributes);
-              }}
-              onGenerateVariants={generateVariants}
-            />
-            
-            {errors.generate && (
-              <div className="mt-4 text-sm text-destructive flex items-center gap-2">
-                <AlertCircle className="h-4 w-4" />
-                {errors.generate}
-              </div>
-            )}
+
+          {/* Options Tab */}
+          <TabsContent value="options">
+            <VariantAttributesManager options={optionDrafts} onChange={setOptionDrafts} />
+
+            <div className="mt-6 flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Removing a value deletes the variants that use it. New options start existing variants on their first value.
+              </p>
+              <Button
+                onClick={() => saveOptionsMutation.mutate()}
+                disabled={!canSaveOptions || saveOptionsMutation.isPending}
+              >
+                {saveOptionsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Options
+              </Button>
+            </div>
           </TabsContent>
-          
+
           {/* Matrix Preview Tab */}
           <TabsContent value="matrix">
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <h3 className="text-lg font-medium">Variant Matrix Preview</h3>
-                <Button 
-                  onClick={generateVariants}
-                  disabled={!attributes.some(a => a.name === "Color" && a.values.length > 0) || 
-                           !attributes.some(a => a.name === "Size" && a.values.length > 0)}
-                >
-                  Generate {attributes.find(a => a.name === "Color")?.values.length || 0} × {attributes.find(a => a.name === "Size")?.values.length || 0} Variants
-                </Button>
-              </div>
-              
-              <div className="border rounded-md overflow-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="bg-muted/50">
-                      <th className="px-3 py-2 text-left">Color / Size</th>
-                      {attributes.find(a => a.name === "Size")?.values.map(size => (
-                        <th key={size} className="px-3 py-2 text-center">{size}</th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {attributes.find(a => a.name === "Color")?.values.map((color, rowIndex) => (
-                      <tr key={color} className={rowIndex % 2 === 0 ? '' : 'bg-muted/20'}>
-                        <td className="px-3 py-2 flex items-center gap-1">
-                          <span 
-                            className="w-3 h-3 rounded-full" 
-                            style={{ 
-                              backgroundColor: 
-                                color === 'Red' ? '#e53935' : 
-                                color === 'Blue' ? '#1e88e5' : 
-                                color === 'Green' ? '#43a047' :
-                                color === 'Black' ? '#212121' :
-                                color === 'White' ? '#f5f5f5' :
-                                color === 'Yellow' ? '#fdd835' :
-                                color === 'Purple' ? '#8e24aa' : 
-                                (color.startsWith('#') ? color : '#9e9e9e')
-                            }} 
-                          />
-                          {color}
-                        </td>
-                        {attributes.find(a => a.name === "Size")?.values.map(size => (
-                          <td key={`${color}-${size}`} className="px-3 py-2 text-center">
-                            <div className="p-1 rounded border border-primary/20 bg-primary/5 text-primary text-xs font-medium">
-                              ✓ Will be created
-                            </div>
-                          </td>
-                        ))}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-              
-              <div className="flex flex-col gap-4 mt-6">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
-                    <Label htmlFor="default-price">Default Selling Price</Label>
-                    <Input
-                      id="default-price"
-                      type="text"
-                      inputMode="decimal"
-                      placeholder="e.g. 19.99"
-                      value={product.sellingPrice || ""}
-                      onChange={(e) => {
-                        // This only affects new variants, existing ones won't be changed
-                        // Set a global state if needed
-                      }}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">Applied to all new variants</p>
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="default-inventory">Default Inventory</Label>
-                    <Input
-                      id="default-inventory"
-                      type="number"
-                      placeholder="e.g. 10"
-                      defaultValue="10"
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">Initial stock for each variant</p>
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="default-sku">SKU Prefix</Label>
-                    <Input
-                      id="default-sku"
-                      placeholder="e.g. SHIRT-"
-                      defaultValue={product.sku || ""}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">Will be combined with variant attributes</p>
-                  </div>
-                </div>
-                
-                <div className="flex flex-col gap-4">
-                  <Button 
-                    className="w-full py-6 text-lg font-medium"
-                    onClick={generateVariants}
-                    disabled={!attributes.some(a => a.name === "Color" && a.values.length > 0) || 
-                             !attributes.some(a => a.name === "Size" && a.values.length > 0)}
-                  >
-                    Generate {attributes.find(a => a.name === "Color")?.values.length || 0} × {attributes.find(a => a.name === "Size")?.values.length || 0} Variants
-                  </Button>
-                  
-                  <div className="rounded-md p-3 bg-blue-50 border border-blue-100 text-blue-800 text-sm">
-                    <p>
-                      <strong>Note:</strong> After generating variants, you'll be able to:
-                    </p>
-                    <ul className="list-disc list-inside mt-1 space-y-1">
-                      <li>Edit each variant individually</li>
-                      <li>Bulk edit multiple variants at once</li>
-                      <li>Upload images for each variant</li>
-                      <li>Set default variant for product page</li>
-                    </ul>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <MatrixVariantGenerator
+              options={options}
+              existingCombinations={existingCombinations}
+              onGenerateVariants={generateVariants}
+            />
           </TabsContent>
-          
+
           {/* Variant Details Tab */}
           <TabsContent value="details">
             <div className="space-y-4">
@@ -674,11 +422,11 @@ const EnhancedVariantManager = ({
                 <h3 className="text-lg font-medium">
                   {variants.length} {variants.length === 1 ? "Variant" : "Variants"}
                 </h3>
-                
+
                 <div className="flex items-center gap-2">
                   {variants.length > 1 && !bulkEditMode && (
-                    <Button 
-                      variant="outline" 
+                    <Button
+                      variant="outline"
                       onClick={() => {
                         setBulkEditMode(true);
                         setSelectedVariants([]);
@@ -687,10 +435,10 @@ const EnhancedVariantManager = ({
                       Bulk Edit
                     </Button>
                   )}
-                  
+
                   {bulkEditMode && (
-                    <Button 
-                      variant="outline" 
+                    <Button
+                      variant="outline"
                       onClick={() => {
                         setBulkEditMode(false);
                         setSelectedVariants([]);
@@ -701,7 +449,7 @@ const EnhancedVariantManager = ({
                   )}
                 </div>
               </div>
-              
+
               {/* Bulk Edit Panel */}
               {bulkEditMode && (
                 <div className="p-4 border rounded-md mb-4 bg-muted/50">
@@ -800,11 +548,11 @@ const EnhancedVariantManager = ({
                     <TableRow>
                       {bulkEditMode && (
                         <TableHead style={{ width: 40 }}>
-                          <Checkbox 
+                          <Checkbox
                             checked={selectedVariants.length === variants.length}
                             onCheckedChange={(checked) => {
                               if (checked) {
-                                setSelectedVariants(variants.map(v => v.id.toString()));
+                                setSelectedVariants(variants.map(v => v.key));
                               } else {
                                 setSelectedVariants([]);
                               }
@@ -812,40 +560,46 @@ const EnhancedVariantManager = ({
                           />
                         </TableHead>
                       )}
-                      <TableHead>Colors & Size</TableHead>
+                      <TableHead>Variant</TableHead>
                       <TableHead>Price</TableHead>
                       <TableHead>MRP</TableHead>
                       <TableHead>Inventory</TableHead>
                       <TableHead>SKU</TableHead>
-                      <TableHead>Images</TableHead>
+                      <TableHead>Image</TableHead>
                       <TableHead style={{ width: 100 }}>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {variants.map((variant, index) => (
-                      <TableRow key={variant.id.toString()}>
+                      <TableRow key={variant.key}>
                         {bulkEditMode && (
                           <TableCell>
-                            <Checkbox 
-                              checked={selectedVariants.includes(variant.id.toString())}
-                              onCheckedChange={() => toggleVariantSelection(variant.id)}
+                            <Checkbox
+                              checked={selectedVariants.includes(variant.key)}
+                              onCheckedChange={() => toggleVariantSelection(variant.key)}
                             />
                           </TableCell>
                         )}
                         <TableCell>
-                          <div className="flex items-center gap-2">
-                            {variant.attributes.Color && variant.attributes.Color.startsWith('#') ? (
-                              <div 
-                                className="w-5 h-5 rounded-full border"
-                                style={{ backgroundColor: variant.attributes.Color }} 
-                              />
-                            ) : (
-                              <Badge variant="outline">{variant.color}</Badge>
+                          <div className="flex flex-wrap items-center gap-2">
+                            {variant.optionValueIds.map(id => {
+                              const value = valuesById.get(id);
+                              return value ? (
+                                <Badge key={id} variant="outline" className="flex items-center gap-1">
+                                  <OptionValueSwatch value={value} />
+                                  {value.value}
+                                </Badge>
+                              ) : null;
+                            })}
+                            {variant.optionValueIds.length === 0 && (
+                              <span className="text-sm text-muted-foreground">{product.name}</span>
                             )}
-                            <Badge>{variant.size}</Badge>
                             {variant.isDefault && (
                               <Badge variant="secondary">Default</Badge>
                             )}
+                            {!variant.id && (
+                              <Badge variant="pending">New</Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>
@@ -878,8 +632,8 @@ const EnhancedVariantManager = ({
                             className="w-20"
                             value={variant.inventoryQuantity}
                             onChange={(e) => updateVariantField(
-                              index, 
-                              "inventoryQuantity", 
+                              index,
+                              "inventoryQuantity",
                               parseInt(e.target.value) || 0
                             )}
                             aria-invalid={errors[`variant_${index}_inventory`] ? "true" : undefined}
@@ -898,29 +652,15 @@ const EnhancedVariantManager = ({
                           />
                         </TableCell>
                         <TableCell>
-                          <div className="flex items-center gap-2">
-                            {variant.images && variant.images.length > 0 ? (
-                              <div className="flex items-center gap-1">
-                                <img 
-                                  src={variant.images[0]} 
-                                  alt={`${variant.color} ${variant.size}`}
-                                  className="w-8 h-8 object-cover rounded border"
-                                />
-                                {variant.images.length > 1 && (
-                                  <Badge variant="outline">+{variant.images.length - 1}</Badge>
-                                )}
-                              </div>
-                            ) : (
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="h-8 px-2"
-                              >
-                                <ImagePlus className="h-3.5 w-3.5 mr-1" />
-                                Upload
-                              </Button>
-                            )}
-                          </div>
+                          {variant.imageUrl ? (
+                            <img
+                              src={variant.imageUrl}
+                              alt={variantTitle(variant)}
+                              className="w-8 h-8 object-cover rounded border"
+                            />
+                          ) : (
+                            <span className="text-xs text-muted-foreground">None</span>
+                          )}
                         </TableCell>
                         <TableCell>
                           <div className="flex space-x-1">
@@ -934,18 +674,16 @@ const EnhancedVariantManager = ({
                               <span className="sr-only">Set as default</span>
                               {variant.isDefault ? "★" : "☆"}
                             </Button>
-                            
-                            {variants.length > 1 && (
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => removeVariant(index)}
-                                title="Remove variant"
-                              >
-                                <X className="h-4 w-4" />
-                                <span className="sr-only">Remove</span>
-                              </Button>
-                            )}
+
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeVariant(index)}
+                              title="Remove variant"
+                            >
+                              <X className="h-4 w-4" />
+                              <span className="sr-only">Remove</span>
+                            </Button>
                           </div>
                         </TableCell>
                       </TableRow>
@@ -956,15 +694,16 @@ const EnhancedVariantManager = ({
             </div>
           </TabsContent>
         </Tabs>
+        )}
 
         <DialogFooter className="mt-6 flex items-center justify-between">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          
-          <Button 
+
+          <Button
             onClick={handleSave}
-            disabled={variants.length === 0 || saveMutation.isPending}
+            disabled={(variants.length === 0 && removedVariantIds.length === 0) || saveMutation.isPending}
           >
             {saveMutation.isPending ? (
               <>
@@ -984,4 +723,4 @@ const EnhancedVariantManager = ({
   );
 };
 
-export default EnhancedVariantManager;
\ No newline at end of file
+export default EnhancedVariantManager;
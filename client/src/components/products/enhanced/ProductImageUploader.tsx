@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ImageAsset } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
@@ -7,6 +9,7 @@ import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { Image as ImageIcon, Upload, Trash2, Loader2, X } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
+import ResponsiveImage from "@/components/common/ResponsiveImage";
 
 interface ProductImageUploaderProps {
   value: string[]; // Array of image URLs
@@ -24,6 +27,14 @@ export default function ProductImageUploader({
   const [isUploading, setIsUploading] = useState(false);
   const { toast } = useToast();
 
+  // Renditions, size and colour of the images that went through the image pipeline
+  const lookup = new URLSearchParams(value.map(url => ["url", url]));
+  const { data: images = [] } = useQuery<ImageAsset[]>({
+    queryKey: [`/api/images?${lookup}`],
+    enabled: value.length > 0,
+  });
+  const imageFor = (url: string) => images.find(image => image.url === url);
+
   const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files?.length) return;
     
@@ -36,16 +47,17 @@ export default function ProductImageUploader({
         const formData = new FormData();
         formData.append("image", file);
         
-        const response = await fetch("/api/s3/upload/product-image", {
+        const response = await fetch("/api/images", {
           method: "POST",
           body: formData,
         });
         
         if (!response.ok) {
-          throw new Error(`Failed to upload ${file.name}`);
+          const data = await response.json().catch(() => null);
+          throw new Error(data?.message ? `${file.name}: ${data.message}` : `Failed to upload ${file.name}`);
         }
         
-        const data = await response.json();
+        const data: { url: string; image: ImageAsset } = await response.json();
         return data.url;
       });
       
@@ -135,9 +147,11 @@ export default function ProductImageUploader({
           <Card className="overflow-hidden">
             <div className="relative group">
               <AspectRatio ratio={4 / 3}>
-                <img 
-                  src={featuredImage} 
-                  alt="Featured product image" 
+                <ResponsiveImage
+                  src={featuredImage}
+                  image={imageFor(featuredImage)}
+                  alt="Featured product image"
+                  sizes="(min-width: 768px) 50vw, 100vw"
                   className="object-cover w-full h-full"
                 />
               </AspectRatio>
@@ -169,15 +183,22 @@ export default function ProductImageUploader({
                 <Card key={index} className="overflow-hidden">
                   <div className="relative group">
                     <AspectRatio ratio={1}>
-                      <img
+                      <ResponsiveImage
                         src={url}
+                        image={imageFor(url)}
                         alt={`Product image ${index + 1}`}
+                        sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
                         className={cn(
                           "object-cover w-full h-full",
                           featuredImage === url && "ring-2 ring-primary ring-offset-2"
                         )}
                       />
                     </AspectRatio>
+                    {imageFor(url) && (
+                      <div className="absolute bottom-1 right-1 bg-black/60 text-white text-[10px] px-1.5 py-0.5 rounded-sm">
+                        {imageFor(url)!.width}×{imageFor(url)!.height}
+                      </div>
+                    )}
                     <div className="absolute inset-0 bg-black/0 group-hover:bg-black/30 transition-colors flex items-center justify-center opacity-0 group-hover:opacity-100">
                       <div className="flex gap-1">
                         {onFeaturedImageChange && featuredImage !== url && (
@@ -1,390 +1,266 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, Plus, X } from "lucide-react";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
-export type Attribute = {
+export type OptionValueDraft = {
+  id?: number;
+  value: string;
+  // CSS colour shown in place of the label on the storefront
+  swatch: string | null;
+  // Picture shown when the value is selected
+  imageUrl: string | null;
+};
+
+export type OptionDraft = {
+  id?: number;
   name: string;
-  values: string[];
-  isColor?: boolean;
+  values: OptionValueDraft[];
 };
 
 interface VariantAttributesManagerProps {
-  attributes: Attribute[];
-  onChange: (attributes: Attribute[]) => void;
-  onGenerateVariants: () => void;
+  options: OptionDraft[];
+  onChange: (options: OptionDraft[]) => void;
 }
 
-const VariantAttributesManager = ({
-  attributes,
-  onChange,
-  onGenerateVariants
-}: VariantAttributesManagerProps) => {
-  const [newValue, setNewValue] = useState("");
-  const [newCustomAttr, setNewCustomAttr] = useState("");
-  const [errors, setErrors] = useState<Record<string, string>>({});
+// Offered when adding an option; any other name works too
+const SUGGESTED_OPTIONS = ["Color", "Size", "Material", "Style"];
 
-  // Initialize with default attributes if none provided
-  useEffect(() => {
-    if (attributes.length === 0) {
-      onChange([
-        { name: "Color", values: [], isColor: true },
-        { name: "Size", values: [] }
-      ]);
-    }
-  }, [attributes, onChange]);
+// Move an item one place up or down a list, returning a new list
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
 
-  const colorAttr = attributes.find(attr => attr.name === "Color") || { values: [] };
-  const sizeAttr = attributes.find(attr => attr.name === "Size") || { values: [] };
+/**
+ * Edits a product's options (Color, Size, Material, ...) and their values in
+ * the order shoppers see them. Values can carry a colour swatch and an image.
+ */
+const VariantAttributesManager = ({ options, onChange }: VariantAttributesManagerProps) => {
+  const [newValues, setNewValues] = useState<Record<number, string>>({});
+  const [newOptionName, setNewOptionName] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
-  // Helper to get other custom attributes
-  const customAttributes = attributes.filter(attr => 
-    attr.name !== "Color" && attr.name !== "Size"
-  );
+  const updateOption = (index: number, option: OptionDraft) => {
+    onChange(options.map((current, i) => (i === index ? option : current)));
+  };
 
-  // Add a value to an attribute
-  const addAttributeValue = (attributeName: string, value: string) => {
-    if (!value.trim()) {
-      setErrors({ ...errors, [attributeName]: "Value cannot be empty" });
+  const addOption = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setErrors({ ...errors, option: "Option name cannot be empty" });
       return;
     }
-
-    // Find the attribute in the current attributes
-    const attrIndex = attributes.findIndex(attr => attr.name === attributeName);
-    if (attrIndex === -1) return;
-
-    // Check for duplicates (case-insensitive)
-    const trimmedValue = value.trim();
-    if (attributes[attrIndex].values.some(v => 
-      v.toLowerCase() === trimmedValue.toLowerCase()
-    )) {
-      setErrors({ ...errors, [attributeName]: "Value already exists" });
+    if (options.some(option => option.name.toLowerCase() === trimmed.toLowerCase())) {
+      setErrors({ ...errors, option: "Option already exists" });
       return;
     }
 
-    // Update the attribute values
-    const updatedAttributes = [...attributes];
-    updatedAttributes[attrIndex].values.push(trimmedValue);
-    onChange(updatedAttributes);
-    setNewValue("");
-    setErrors({ ...errors, [attributeName]: "" });
+    onChange([...options, { name: trimmed, values: [] }]);
+    setNewOptionName("");
+    setErrors({ ...errors, option: "" });
   };
 
-  // Remove a value from an attribute
-  const removeAttributeValue = (attributeName: string, valueIndex: number) => {
-    const attrIndex = attributes.findIndex(attr => attr.name === attributeName);
-    if (attrIndex === -1) return;
-
-    const updatedAttributes = [...attributes];
-    updatedAttributes[attrIndex].values.splice(valueIndex, 1);
-    onChange(updatedAttributes);
-  };
-
-  // Add a new custom attribute
-  const addCustomAttribute = (name: string) => {
-    if (!name.trim()) {
-      setErrors({ ...errors, customAttr: "Attribute name cannot be empty" });
+  const addValue = (index: number) => {
+    const option = options[index];
+    const trimmed = (newValues[index] || "").trim();
+    if (!trimmed) {
+      setErrors({ ...errors, [index]: "Value cannot be empty" });
       return;
     }
-
-    // Check if attribute already exists
-    if (attributes.some(attr => 
-      attr.name.toLowerCase() === name.trim().toLowerCase()
-    )) {
-      setErrors({ ...errors, customAttr: "Attribute already exists" });
+    if (option.values.some(value => value.value.toLowerCase() === trimmed.toLowerCase())) {
+      setErrors({ ...errors, [index]: "Value already exists" });
       return;
     }
 
-    onChange([...attributes, { name: name.trim(), values: [] }]);
-    setNewCustomAttr("");
-    setErrors({ ...errors, customAttr: "" });
+    updateOption(index, { ...option, values: [...option.values, { value: trimmed, swatch: null, imageUrl: null }] });
+    setNewValues({ ...newValues, [index]: "" });
+    setErrors({ ...errors, [index]: "" });
   };
 
-  // Remove a custom attribute
-  const removeCustomAttribute = (attributeName: string) => {
-    onChange(attributes.filter(attr => attr.name !== attributeName));
+  const updateValue = (index: number, valueIndex: number, changes: Partial<OptionValueDraft>) => {
+    const option = options[index];
+    updateOption(index, {
+      ...option,
+      values: option.values.map((value, i) => (i === valueIndex ? { ...value, ...changes } : value)),
+    });
   };
 
-  // Helpers for rendering color swatches
-  const isColorValue = (value: string) => {
-    // Check if it's a valid hex color
-    const hexColorRegex = /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
-    return hexColorRegex.test(value);
+  const removeValue = (index: number, valueIndex: number) => {
+    const option = options[index];
+    updateOption(index, { ...option, values: option.values.filter((_, i) => i !== valueIndex) });
   };
 
-  // Determine if we have enough values to generate variants
-  const canGenerateVariants = 
-    colorAttr.values.length > 0 && 
-    sizeAttr.values.length > 0;
-
   return (
     <div className="space-y-6">
-      <div className="space-y-4">
-        <h3 className="text-lg font-medium">Define Variant Attributes</h3>
+      <div className="space-y-1">
+        <h3 className="text-lg font-medium">Product Options</h3>
         <p className="text-sm text-muted-foreground">
-          Add possible values for each attribute to generate all variant combinations.
+          Add the options shoppers choose between, in the order they should see them. Every combination of
+          values can become a variant.
         </p>
       </div>
-      
-      {/* Color Attribute Section */}
-      <div className="space-y-4">
-        <div className="flex items-center justify-between">
-          <Label className="text-base font-medium">Colors</Label>
-          <Badge variant="outline">{colorAttr.values.length} colors</Badge>
-        </div>
-        
-        <div className="flex gap-2 flex-wrap mb-2">
-          {colorAttr.values.map((value, index) => (
-            <div 
-              key={`color-${index}`} 
-              className="flex items-center border rounded-md pl-2 pr-1 py-1 group hover:bg-muted/50"
-            >
-              {isColorValue(value) ? (
-                <div 
-                  className="w-4 h-4 rounded-full mr-1.5" 
-                  style={{ backgroundColor: value }}
-                />
-              ) : null}
-              <span className="text-sm">{value}</span>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-5 w-5 ml-1 opacity-50 group-hover:opacity-100"
-                onClick={() => removeAttributeValue("Color", index)}
-              >
-                <X className="h-3 w-3" />
-                <span className="sr-only">Remove</span>
-              </Button>
-            </div>
-          ))}
-        </div>
-        
-        <div className="flex gap-2">
-          <div className="flex-1">
+
+      {options.map((option, index) => (
+        <div key={option.id ?? `new-${index}`} className="space-y-3 rounded-md border p-4">
+          <div className="flex items-center gap-2">
             <Input
-              placeholder="Enter a color (e.g., 'Red' or '#FF0000')"
-              value={newValue}
-              onChange={(e) => setNewValue(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  addAttributeValue("Color", newValue);
-                }
-              }}
-              className={cn(
-                errors.Color && "border-destructive"
-              )}
+              value={option.name}
+              onChange={(e) => updateOption(index, { ...option, name: e.target.value })}
+              className="max-w-xs font-medium"
+              aria-label="Option name"
             />
-            {errors.Color && (
-              <p className="text-sm text-destructive mt-1">{errors.Color}</p>
-            )}
-          </div>
-          <Button 
-            type="button" 
-            onClick={() => addAttributeValue("Color", newValue)}
-          >
-            Add
-          </Button>
-        </div>
-      </div>
-      
-      <Separator />
-      
-      {/* Size Attribute Section */}
-      <div className="space-y-4">
-        <div className="flex items-center justify-between">
-          <Label className="text-base font-medium">Sizes</Label>
-          <Badge variant="outline">{sizeAttr.values.length} sizes</Badge>
-        </div>
-        
-        <div className="flex gap-2 flex-wrap mb-2">
-          {sizeAttr.values.map((value, index) => (
-            <div 
-              key={`size-${index}`} 
-              className="flex items-center border rounded-md pl-2 pr-1 py-1 group hover:bg-muted/50"
-            >
-              <span className="text-sm">{value}</span>
+            <Badge variant="outline">{option.values.length} values</Badge>
+            <div className="ml-auto flex">
+              <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => onChange(move(options, index, -1))}>
+                <ArrowUp className="h-4 w-4" />
+                <span className="sr-only">Move up</span>
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
-                className="h-5 w-5 ml-1 opacity-50 group-hover:opacity-100"
-                onClick={() => removeAttributeValue("Size", index)}
+                disabled={index === options.length - 1}
+                onClick={() => onChange(move(options, index, 1))}
               >
-                <X className="h-3 w-3" />
-                <span className="sr-only">Remove</span>
+                <ArrowDown className="h-4 w-4" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => onChange(options.filter((_, i) => i !== index))}>
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove option</span>
               </Button>
             </div>
-          ))}
-        </div>
-        
-        <div className="flex gap-2">
-          <div className="flex-1">
-            <Input
-              placeholder="Enter a size (e.g., 'S', 'M', 'L', 'XL')"
-              value={newValue}
-              onChange={(e) => setNewValue(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') {
-                  e.preventDefault();
-                  addAttributeValue("Size", newValue);
-                }
-              }}
-              className={cn(
-                errors.Size && "border-destructive"
-              )}
-            />
-            {errors.Size && (
-              <p className="text-sm text-destructive mt-1">{errors.Size}</p>
-            )}
           </div>
-          <Button 
-            type="button" 
-            onClick={() => addAttributeValue("Size", newValue)}
-          >
-            Add
-          </Button>
-        </div>
-      </div>
-      
-      {/* Custom Attributes Section */}
-      {customAttributes.length > 0 && (
-        <>
-          <Separator />
-          <div className="space-y-4">
-            <h4 className="text-base font-medium">Custom Attributes</h4>
-            
-            {customAttributes.map((attr, attrIndex) => (
-              <div key={`custom-attr-${attrIndex}`} className="space-y-3 pb-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Label>{attr.name}</Label>
-                    <Badge variant="outline">{attr.values.length} values</Badge>
-                  </div>
+
+          <div className="space-y-2">
+            {option.values.map((value, valueIndex) => (
+              <div key={value.id ?? `new-${valueIndex}`} className="flex items-center gap-2">
+                <div className="flex">
                   <Button
                     variant="ghost"
                     size="icon"
-                    onClick={() => removeCustomAttribute(attr.name)}
+                    className="h-7 w-7"
+                    disabled={valueIndex === 0}
+                    onClick={() => updateOption(index, { ...option, values: move(option.values, valueIndex, -1) })}
                   >
-                    <X className="h-4 w-4" />
-                    <span className="sr-only">Remove</span>
+                    <ArrowUp className="h-3 w-3" />
+                    <span className="sr-only">Move up</span>
                   </Button>
-                </div>
-                
-                <div className="flex gap-2 flex-wrap mb-2">
-                  {attr.values.map((value, valueIndex) => (
-                    <div 
-                      key={`${attr.name}-${valueIndex}`} 
-                      className="flex items-center border rounded-md pl-2 pr-1 py-1 group hover:bg-muted/50"
-                    >
-                      <span className="text-sm">{value}</span>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-5 w-5 ml-1 opacity-50 group-hover:opacity-100"
-                        onClick={() => removeAttributeValue(attr.name, valueIndex)}
-                      >
-                        <X className="h-3 w-3" />
-                        <span className="sr-only">Remove</span>
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-                
-                <div className="flex gap-2">
-                  <div className="flex-1">
-                    <Input
-                      placeholder={`Enter a ${attr.name.toLowerCase()} value`}
-                      value={newValue}
-                      onChange={(e) => setNewValue(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.preventDefault();
-                          addAttributeValue(attr.name, newValue);
-                        }
-                      }}
-                      className={cn(
-                        errors[attr.name] && "border-destructive"
-                      )}
-                    />
-                    {errors[attr.name] && (
-                      <p className="text-sm text-destructive mt-1">{errors[attr.name]}</p>
-                    )}
-                  </div>
-                  <Button 
-                    type="button" 
-                    onClick={() => addAttributeValue(attr.name, newValue)}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={valueIndex === option.values.length - 1}
+                    onClick={() => updateOption(index, { ...option, values: move(option.values, valueIndex, 1) })}
                   >
-                    Add
+                    <ArrowDown className="h-3 w-3" />
+                    <span className="sr-only">Move down</span>
                   </Button>
                 </div>
+                <input
+                  type="color"
+                  className={cn("h-7 w-7 cursor-pointer rounded border bg-transparent", !value.swatch && "opacity-40")}
+                  value={value.swatch || "#9e9e9e"}
+                  onChange={(e) => updateValue(index, valueIndex, { swatch: e.target.value })}
+                  title="Swatch colour"
+                />
+                {value.swatch && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => updateValue(index, valueIndex, { swatch: null })}
+                  >
+                    No swatch
+                  </Button>
+                )}
+                <Input
+                  value={value.value}
+                  onChange={(e) => updateValue(index, valueIndex, { value: e.target.value })}
+                  className="h-8 w-40"
+                  aria-label="Value"
+                />
+                <Input
+                  value={value.imageUrl || ""}
+                  onChange={(e) => updateValue(index, valueIndex, { imageUrl: e.target.value || null })}
+                  placeholder="Image URL (optional)"
+                  className="h-8 flex-1"
+                />
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeValue(index, valueIndex)}>
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove</span>
+                </Button>
               </div>
             ))}
           </div>
-        </>
-      )}
-      
-      {/* Add Custom Attribute Section */}
+
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <Input
+                placeholder={`Add a ${option.name.toLowerCase() || "value"}`}
+                value={newValues[index] || ""}
+                onChange={(e) => setNewValues({ ...newValues, [index]: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addValue(index);
+                  }
+                }}
+                className={cn(errors[index] && "border-destructive")}
+              />
+              {errors[index] && <p className="text-sm text-destructive mt-1">{errors[index]}</p>}
+            </div>
+            <Button type="button" onClick={() => addValue(index)}>
+              Add
+            </Button>
+          </div>
+        </div>
+      ))}
+
       <div>
         <Separator className="my-4" />
         <div className="mb-2">
-          <Label className="text-base font-medium">Add Custom Attribute</Label>
+          <Label className="text-base font-medium">Add Option</Label>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {SUGGESTED_OPTIONS.filter(name => !options.some(option => option.name.toLowerCase() === name.toLowerCase())).map(name => (
+            <Button key={name} type="button" variant="outline" size="sm" onClick={() => addOption(name)}>
+              <Plus className="h-3 w-3 mr-1" />
+              {name}
+            </Button>
+          ))}
         </div>
         <div className="flex gap-2">
           <div className="flex-1">
             <Input
-              placeholder="Enter a custom attribute name"
-              value={newCustomAttr}
-              onChange={(e) => setNewCustomAttr(e.target.value)}
+              placeholder="Or enter another option name"
+              value={newOptionName}
+              onChange={(e) => setNewOptionName(e.target.value)}
               onKeyDown={(e) => {
-                if (e.key === 'Enter') {
+                if (e.key === "Enter") {
                   e.preventDefault();
-                  addCustomAttribute(newCustomAttr);
+                  addOption(newOptionName);
                 }
               }}
-              className={cn(
-                errors.customAttr && "border-destructive"
-              )}
+              className={cn(errors.option && "border-destructive")}
             />
-            {errors.customAttr && (
-              <p className="text-sm text-destructive mt-1">{errors.customAttr}</p>
-            )}
+            {errors.option && <p className="text-sm text-destructive mt-1">{errors.option}</p>}
           </div>
-          <Button 
-            type="button"
-            variant="outline"
-            onClick={() => addCustomAttribute(newCustomAttr)}
-          >
+          <Button type="button" variant="outline" onClick={() => addOption(newOptionName)}>
             <Plus className="h-4 w-4 mr-1" />
             Add
           </Button>
         </div>
       </div>
-      
-      {/* Generate Variants Button */}
-      <Separator className="my-6" />
-      <div className="flex justify-between items-center">
-        <div>
-          {!canGenerateVariants && (
-            <div className="flex items-center text-sm text-amber-600">
-              <AlertCircle className="h-4 w-4 mr-1" />
-              Add at least one color and size to generate variants
-            </div>
-          )}
-        </div>
-        <Button
-          onClick={onGenerateVariants}
-          disabled={!canGenerateVariants}
-          size="lg"
-        >
-          Generate Variants
-        </Button>
-      </div>
     </div>
   );
 };
 
-export default VariantAttributesManager;
\ No newline at end of file
+export default VariantAttributesManager;
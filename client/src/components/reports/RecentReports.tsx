@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { ReportJob, ReportType } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { REPORT_TYPE_LABELS } from "./ReportExportDialog";
+
+const formatDay = (value: string | Date) => format(new Date(value), "dd MMM yyyy");
+
+// rangeTo is exclusive
+const describeRange = (job: ReportJob) =>
+  job.type === "inventory_valuation"
+    ? "Stock on hand"
+    : `${formatDay(job.rangeFrom)} – ${formatDay(new Date(new Date(job.rangeTo).getTime() - 24 * 60 * 60 * 1000))}`;
+
+/**
+ * Reports generated for a vendor, from the dashboard or a schedule, that
+ * can still be downloaded
+ */
+export default function RecentReports({ vendorId }: { vendorId: number }) {
+  const { data: jobs, isLoading } = useQuery<ReportJob[]>({
+    queryKey: [`/api/vendors/${vendorId}/reports`],
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => job.status === "pending" || job.status === "running") ? 5000 : false,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (!jobs?.length) {
+    return <p className="text-sm text-muted-foreground">No reports yet. Use Export to generate one.</p>;
+  }
+
+  const now = Date.now();
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Report</TableHead>
+            <TableHead>Period</TableHead>
+            <TableHead>Requested</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right"></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {jobs.map((job) => {
+            const expired = job.expiresAt !== null && new Date(job.expiresAt).getTime() <= now;
+            return (
+              <TableRow key={job.id}>
+                <TableCell className="font-medium">
+                  {REPORT_TYPE_LABELS[job.type as ReportType] ?? job.type}
+                  <span className="ml-2 text-xs uppercase text-muted-foreground">{job.format}</span>
+                  {job.scheduleId !== null && <span className="ml-2 text-xs text-muted-foreground">Scheduled</span>}
+                </TableCell>
+                <TableCell className="text-muted-foreground">{describeRange(job)}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {job.createdAt ? format(new Date(job.createdAt), "dd MMM yyyy, HH:mm") : "—"}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={job.status === "completed" ? "success" : job.status === "failed" ? "destructive" : "pending"}
+                    title={job.error ?? undefined}
+                  >
+                    {expired ? "expired" : job.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {job.status === "completed" && !expired && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/vendors/${vendorId}/reports/${job.id}/download`} download>
+                        <Download className="mr-2 h-4 w-4" />
+                        Download
+                      </a>
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
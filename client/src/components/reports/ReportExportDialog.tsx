@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { REPORT_FORMATS, REPORT_TYPES, type ReportFormat, type ReportJob, type ReportType } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  sales_by_day: "Sales by day",
+  sales_by_product: "Sales by product",
+  sales_by_category: "Sales by category",
+  gst_summary: "GST summary by rate",
+  inventory_valuation: "Inventory valuation",
+  customer_lifetime_value: "Customer lifetime value",
+};
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "PDF",
+};
+
+interface ReportExportDialogProps {
+  vendorId: number;
+  // Inclusive dates, yyyy-MM-dd
+  from: string;
+  to: string;
+  periodLabel: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Generate a report for the selected period and download it. Long periods
+ * are generated in the background, so the job is polled until it's done.
+ */
+export default function ReportExportDialog({ vendorId, from, to, periodLabel, open, onOpenChange }: ReportExportDialogProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<ReportType>("sales_by_day");
+  const [format, setFormat] = useState<ReportFormat>("xlsx");
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const { data: job } = useQuery<ReportJob>({
+    queryKey: [`/api/vendors/${vendorId}/reports/${jobId}`],
+    enabled: jobId !== null,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "completed" || status === "failed" ? false : 2000;
+    },
+  });
+  const isFinished = job?.status === "completed" || job?.status === "failed";
+
+  const reset = () => {
+    setJobId(null);
+  };
+
+  const generate = async () => {
+    setIsWorking(true);
+    try {
+      const response = await apiRequest("POST", `/api/vendors/${vendorId}/reports`, { type, format, from, to });
+      const created: ReportJob = await response.json();
+      queryClient.setQueryData([`/api/vendors/${vendorId}/reports/${created.id}`], created);
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/reports`] });
+      setJobId(created.id);
+    } catch (error) {
+      toast({
+        title: "Couldn't generate the report",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Report</DialogTitle>
+          <DialogDescription>
+            {type === "inventory_valuation" ? "Stock on hand right now, valued at purchase price." : `Covering ${periodLabel.toLowerCase()}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {jobId === null ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Report</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ReportType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>{REPORT_TYPE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ReportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_FORMATS.map((value) => (
+                    <SelectItem key={value} value={value}>{REPORT_FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+              <span>{REPORT_TYPE_LABELS[type]}</span>
+              {job && (
+                <Badge variant={job.status === "completed" ? "success" : job.status === "failed" ? "destructive" : "pending"}>
+                  {job.status}
+                </Badge>
+              )}
+            </div>
+            {!isFinished && (
+              <p className="flex items-center text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating… you can close this and download it from Recent Exports later.
+              </p>
+            )}
+            {job?.status === "failed" && <p className="text-destructive">{job.error}</p>}
+            {job?.status === "completed" && (
+              <p className="text-muted-foreground">{job.rowCount} rows · {job.fileName}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {jobId === null ? (
+            <Button disabled={isWorking} onClick={generate}>
+              {isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Generate
+            </Button>
+          ) : job?.status === "completed" ? (
+            <Button asChild>
+              <a href={`/api/vendors/${vendorId}/reports/${job.id}/download`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          ) : (
+            <Button variant="outline" disabled={!isFinished} onClick={reset}>
+              Try Again
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  REPORT_FORMATS,
+  REPORT_FREQUENCIES,
+  REPORT_TYPES,
+  type ReportFormat,
+  type ReportFrequency,
+  type ReportSchedule,
+  type ReportType,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Trash2 } from "lucide-react";
+import { REPORT_FORMAT_LABELS, REPORT_TYPE_LABELS } from "./ReportExportDialog";
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: "Daily",
+  weekly: "Weekly (Mondays)",
+  monthly: "Monthly (1st)",
+};
+
+/**
+ * Reports emailed to a list of recipients every day, week or month, each
+ * covering the period that just ended
+ */
+export default function ReportSchedules({ vendorId }: { vendorId: number }) {
+  const { toast } = useToast();
+  const [type, setType] = useState<ReportType>("sales_by_day");
+  const [reportFormat, setReportFormat] = useState<ReportFormat>("pdf");
+  const [frequency, setFrequency] = useState<ReportFrequency>("weekly");
+  const [recipients, setRecipients] = useState("");
+
+  const schedulesKey = [`/api/vendors/${vendorId}/report-schedules`];
+  const { data: schedules, isLoading } = useQuery<ReportSchedule[]>({ queryKey: schedulesKey });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const emails = recipients.split(/[\s,;]+/).filter(Boolean);
+      await apiRequest("POST", `/api/vendors/${vendorId}/report-schedules`, {
+        type,
+        format: reportFormat,
+        frequency,
+        recipients: emails,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Report scheduled", description: "The first one will be emailed at the start of the next period." });
+      setRecipients("");
+      queryClient.invalidateQueries({ queryKey: schedulesKey });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      await apiRequest("PATCH", `/api/vendors/${vendorId}/report-schedules/${id}`, { isActive });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: schedulesKey }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/vendors/${vendorId}/report-schedules/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: schedulesKey }),
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Report</Label>
+          <Select value={type} onValueChange={(value) => setType(value as ReportType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_TYPES.map((value) => (
+                <SelectItem key={value} value={value}>{REPORT_TYPE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_FORMATS.map((value) => (
+                <SelectItem key={value} value={value}>{REPORT_FORMAT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Frequency</Label>
+          <Select value={frequency} onValueChange={(value) => setFrequency(value as ReportFrequency)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_FREQUENCIES.map((value) => (
+                <SelectItem key={value} value={value}>{FREQUENCY_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="report-recipients">Email to</Label>
+          <Input
+            id="report-recipients"
+            placeholder="owner@example.com, accounts@example.com"
+            value={recipients}
+            onChange={(e) => setRecipients(e.target.value)}
+          />
+        </div>
+      </div>
+      <Button disabled={!recipients.trim() || createMutation.isPending} onClick={() => createMutation.mutate()}>
+        {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Schedule Report
+      </Button>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : schedules?.length ? (
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Report</TableHead>
+                <TableHead>Frequency</TableHead>
+                <TableHead>Recipients</TableHead>
+                <TableHead>Next run</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.id}>
+                  <TableCell className="font-medium">
+                    {REPORT_TYPE_LABELS[schedule.type as ReportType] ?? schedule.type}
+                    <span className="ml-2 text-xs uppercase text-muted-foreground">{schedule.format}</span>
+                  </TableCell>
+                  <TableCell>{FREQUENCY_LABELS[schedule.frequency as ReportFrequency] ?? schedule.frequency}</TableCell>
+                  <TableCell className="text-muted-foreground">{schedule.recipients.join(", ")}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {schedule.isActive ? format(new Date(schedule.nextRunAt), "dd MMM yyyy, HH:mm") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.isActive}
+                      onCheckedChange={(isActive) => toggleMutation.mutate({ id: schedule.id, isActive })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => deleteMutation.mutate(schedule.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No scheduled reports.</p>
+      )}
+    </div>
+  );
+}
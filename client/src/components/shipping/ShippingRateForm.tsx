@@ -0,0 +1,328 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { ShippingRate } from "./ShippingZoneForm";
+
+// Form schema for a rate. Numbers are kept as strings so empty inputs stay empty.
+const rateSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  type: z.enum(["flat", "weight", "price", "free_over"]),
+  amount: z.string().optional(),
+  freeAbove: z.string().optional(),
+  tiers: z.array(
+    z.object({
+      min: z.string().min(1, "Required"),
+      max: z.string().optional(),
+      amount: z.string().min(1, "Required"),
+    })
+  ),
+  minDeliveryDays: z.string().optional(),
+  maxDeliveryDays: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+type RateFormValues = z.infer<typeof rateSchema>;
+
+interface ShippingRateFormProps {
+  vendorId: number;
+  zoneId: number;
+  rate?: ShippingRate;
+  onSuccess?: () => void;
+}
+
+const toOptionalInt = (value?: string) => (value ? parseInt(value) : null);
+
+const ShippingRateForm = ({ vendorId, zoneId, rate, onSuccess }: ShippingRateFormProps) => {
+  const { toast } = useToast();
+
+  const form = useForm<RateFormValues>({
+    resolver: zodResolver(rateSchema),
+    defaultValues: {
+      name: rate?.name ?? "",
+      type: rate?.type ?? "flat",
+      amount: rate?.amount ?? "",
+      freeAbove: rate?.freeAbove ?? "",
+      tiers: (rate?.tiers ?? [{ min: 0, max: null, amount: 0 }]).map((tier) => ({
+        min: tier.min.toString(),
+        max: tier.max?.toString() ?? "",
+        amount: tier.amount.toString(),
+      })),
+      minDeliveryDays: rate?.minDeliveryDays?.toString() ?? "",
+      maxDeliveryDays: rate?.maxDeliveryDays?.toString() ?? "",
+      isActive: rate?.isActive ?? true,
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "tiers",
+  });
+
+  const type = form.watch("type");
+  const usesTiers = type === "weight" || type === "price";
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (values: RateFormValues) => {
+      const body = {
+        name: values.name,
+        type: values.type,
+        amount: usesTiers ? "0" : values.amount || "0",
+        freeAbove: values.type === "free_over" ? values.freeAbove || null : null,
+        tiers: usesTiers
+          ? values.tiers.map((tier) => ({
+              min: parseFloat(tier.min),
+              max: tier.max ? parseFloat(tier.max) : null,
+              amount: parseFloat(tier.amount),
+            }))
+          : null,
+        minDeliveryDays: toOptionalInt(values.minDeliveryDays),
+        maxDeliveryDays: toOptionalInt(values.maxDeliveryDays),
+        isActive: values.isActive,
+      };
+
+      const baseUrl = `/api/vendors/${vendorId}/shipping-zones/${zoneId}/rates`;
+      const response = await fetch(rate ? `${baseUrl}/${rate.id}` : baseUrl, {
+        method: rate ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save shipping rate");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/shipping-zones`] });
+      toast({
+        title: rate ? "Rate updated" : "Rate created",
+        description: "Your shipping rate is saved.",
+      });
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving shipping rate",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: RateFormValues) => {
+    saveRateMutation.mutate(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., Standard Delivery" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rate Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a rate type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="flat">Flat rate</SelectItem>
+                    <SelectItem value="weight">By weight</SelectItem>
+                    <SelectItem value="price">By order amount</SelectItem>
+                    <SelectItem value="free_over">Free above an amount</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {!usesTiers && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "free_over" ? "Price Below Threshold" : "Price"}</FormLabel>
+                  <FormControl>
+                    <Input type="number" min="0" step="0.01" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {type === "free_over" && (
+              <FormField
+                control={form.control}
+                name="freeAbove"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Free From</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+        )}
+
+        {usesTiers && (
+          <FormItem>
+            <FormLabel>{type === "weight" ? "Weight Tiers (kg)" : "Order Amount Tiers"}</FormLabel>
+            <div className="space-y-2">
+              {fields.map((tier, index) => (
+                <div key={tier.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <Input type="number" min="0" step="0.01" placeholder="From" {...form.register(`tiers.${index}.min`)} />
+                  <Input type="number" min="0" step="0.01" placeholder="Up to (no limit)" {...form.register(`tiers.${index}.max`)} />
+                  <Input type="number" min="0" step="0.01" placeholder="Price" {...form.register(`tiers.${index}.amount`)} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => remove(index)}
+                    disabled={fields.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const last = form.getValues("tiers").at(-1);
+                append({ min: last?.max ?? "", max: "", amount: "" });
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Tier
+            </Button>
+            <FormDescription>
+              Each tier covers from its start up to, but not including, its end.
+              {type === "weight" && " Weight is the greater of actual and volumetric weight."}
+            </FormDescription>
+          </FormItem>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="minDeliveryDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delivery From (days)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="maxDeliveryDays"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delivery To (days)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+              <div className="space-y-0.5">
+                <FormLabel>Active</FormLabel>
+                <FormDescription>
+                  Inactive rates aren't offered to customers.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={saveRateMutation.isPending}
+        >
+          {saveRateMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          {rate ? "Save Rate" : "Add Rate"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ShippingRateForm;
@@ -0,0 +1,261 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+export interface ShippingRateTier {
+  min: number;
+  max?: number | null;
+  amount: number;
+}
+
+export interface ShippingRate {
+  id: number;
+  zoneId: number;
+  name: string;
+  type: "flat" | "weight" | "price" | "free_over";
+  amount: string | null;
+  freeAbove: string | null;
+  tiers: ShippingRateTier[] | null;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+  isActive: boolean | null;
+}
+
+export interface ShippingZone {
+  id: number;
+  name: string;
+  countries: string[] | null;
+  states: string[] | null;
+  postalCodes: string[] | null;
+  position: number | null;
+  isActive: boolean | null;
+  rates: ShippingRate[];
+}
+
+// Lists are edited as comma separated text
+const zoneSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  countries: z.string().optional(),
+  states: z.string().optional(),
+  postalCodes: z.string().optional(),
+  position: z.string().optional(),
+  isActive: z.boolean().default(true),
+});
+
+type ZoneFormValues = z.infer<typeof zoneSchema>;
+
+interface ShippingZoneFormProps {
+  vendorId: number;
+  zone?: ShippingZone;
+  onSuccess?: () => void;
+}
+
+const toList = (value?: string) => {
+  const items = (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : null;
+};
+
+const ShippingZoneForm = ({ vendorId, zone, onSuccess }: ShippingZoneFormProps) => {
+  const { toast } = useToast();
+
+  const form = useForm<ZoneFormValues>({
+    resolver: zodResolver(zoneSchema),
+    defaultValues: {
+      name: zone?.name ?? "",
+      countries: zone?.countries?.join(", ") ?? "",
+      states: zone?.states?.join(", ") ?? "",
+      postalCodes: zone?.postalCodes?.join(", ") ?? "",
+      position: zone?.position?.toString() ?? "0",
+      isActive: zone?.isActive ?? true,
+    },
+  });
+
+  const saveZoneMutation = useMutation({
+    mutationFn: async (values: ZoneFormValues) => {
+      const body = {
+        name: values.name,
+        countries: toList(values.countries),
+        states: toList(values.states),
+        postalCodes: toList(values.postalCodes),
+        position: values.position ? parseInt(values.position) : 0,
+        isActive: values.isActive,
+      };
+
+      const response = await fetch(
+        zone ? `/api/vendors/${vendorId}/shipping-zones/${zone.id}` : `/api/vendors/${vendorId}/shipping-zones`,
+        {
+          method: zone ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save shipping zone");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/shipping-zones`] });
+      toast({
+        title: zone ? "Zone updated" : "Zone created",
+        description: zone ? "Your shipping zone is saved." : "Add rates to start offering shipping to this zone.",
+      });
+
+      if (!zone) {
+        form.reset();
+      }
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving shipping zone",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: ZoneFormValues) => {
+    saveZoneMutation.mutate(values);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., South India" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="position"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="countries"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Countries</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., India" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="states"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>States</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., Karnataka, Tamil Nadu, Kerala" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="postalCodes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Postal Codes</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g., 560*, 600001-600099" {...field} />
+              </FormControl>
+              <FormDescription>
+                Separate entries with commas. Use * for a prefix and a dash for a range.
+                Empty fields match every address, and zones are checked in priority order.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="isActive"
+          render={({ field }) => (
+            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+              <div className="space-y-0.5">
+                <FormLabel>Active</FormLabel>
+                <FormDescription>
+                  Inactive zones are skipped at checkout.
+                </FormDescription>
+              </div>
+              <FormControl>
+                <Switch
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={saveZoneMutation.isPending}
+        >
+          {saveZoneMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          {zone ? "Save Zone" : "Create Zone"}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default ShippingZoneForm;
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ShippingZoneForm, { type ShippingRate, type ShippingZone } from "./ShippingZoneForm";
+import ShippingRateForm from "./ShippingRateForm";
+
+interface ShippingZoneListProps {
+  zones: ShippingZone[];
+  vendorId: number;
+}
+
+// Human readable summary of the addresses a zone covers
+const describeZone = (zone: ShippingZone) => {
+  const parts = [
+    zone.countries?.length ? zone.countries.join(", ") : null,
+    zone.states?.length ? zone.states.join(", ") : null,
+    zone.postalCodes?.length ? `Postal codes ${zone.postalCodes.join(", ")}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" • ") : "Everywhere else";
+};
+
+// Human readable summary of how a rate is priced
+const describeRate = (rate: ShippingRate) => {
+  const money = (value: string | number | null) => `₹${parseFloat(String(value ?? 0)).toFixed(2)}`;
+  switch (rate.type) {
+    case "flat":
+      return money(rate.amount);
+    case "free_over":
+      return `${money(rate.amount)}, free from ${money(rate.freeAbove)}`;
+    case "weight":
+      return `By weight, ${rate.tiers?.length ?? 0} tiers`;
+    case "price":
+      return `By order amount, ${rate.tiers?.length ?? 0} tiers`;
+  }
+};
+
+const describeDelivery = (rate: ShippingRate) => {
+  if (rate.minDeliveryDays == null && rate.maxDeliveryDays == null) return null;
+  if (rate.minDeliveryDays === rate.maxDeliveryDays || rate.maxDeliveryDays == null) {
+    return `${rate.minDeliveryDays} days`;
+  }
+  if (rate.minDeliveryDays == null) return `Up to ${rate.maxDeliveryDays} days`;
+  return `${rate.minDeliveryDays}-${rate.maxDeliveryDays} days`;
+};
+
+const ShippingZoneList = ({ zones, vendorId }: ShippingZoneListProps) => {
+  const { toast } = useToast();
+  const [editingZone, setEditingZone] = useState<ShippingZone | null>(null);
+  const [deleteZoneId, setDeleteZoneId] = useState<number | null>(null);
+  // The zone a rate is being added to or edited in
+  const [rateDialog, setRateDialog] = useState<{ zoneId: number; rate?: ShippingRate } | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (url: string) => {
+      const response = await fetch(url, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to delete");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/vendors/${vendorId}/shipping-zones`] });
+      setDeleteZoneId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error deleting",
+        description: error.message,
+        variant: "destructive",
+      });
+      setDeleteZoneId(null);
+    },
+  });
+
+  if (zones.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        You haven't set up any shipping zones yet. Until you do, shipping is free on every order.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="space-y-4">
+        {zones.map((zone) => (
+          <Card key={zone.id}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  {zone.name}
+                  {!zone.isActive && <Badge variant="secondary">Inactive</Badge>}
+                </CardTitle>
+                <CardDescription>{describeZone(zone)}</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEditingZone(zone)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => setDeleteZoneId(zone.id)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {zone.rates.length === 0 ? (
+                <p className="text-sm text-muted-foreground mb-4">
+                  No rates yet. Customers in this zone can't check out until you add one.
+                </p>
+              ) : (
+                <div className="divide-y mb-4">
+                  {zone.rates.map((rate) => (
+                    <div key={rate.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <p className="font-medium">
+                          {rate.name}
+                          {!rate.isActive && <span className="ml-2 text-xs text-muted-foreground">(inactive)</span>}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {describeRate(rate)}
+                          {describeDelivery(rate) && ` • ${describeDelivery(rate)}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRateDialog({ zoneId: zone.id, rate })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            deleteMutation.mutate(`/api/vendors/${vendorId}/shipping-zones/${zone.id}/rates/${rate.id}`)
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setRateDialog({ zoneId: zone.id })}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Dialog open={!!editingZone} onOpenChange={(open) => !open && setEditingZone(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Shipping Zone</DialogTitle>
+            <DialogDescription>Changes apply to carts the next time they are priced.</DialogDescription>
+          </DialogHeader>
+          {editingZone && (
+            <ShippingZoneForm vendorId={vendorId} zone={editingZone} onSuccess={() => setEditingZone(null)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rateDialog} onOpenChange={(open) => !open && setRateDialog(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{rateDialog?.rate ? "Edit Shipping Rate" : "Add Shipping Rate"}</DialogTitle>
+            <DialogDescription>Customers choose between the rates of the zone their address falls in.</DialogDescription>
+          </DialogHeader>
+          {rateDialog && (
+            <ShippingRateForm
+              vendorId={vendorId}
+              zoneId={rateDialog.zoneId}
+              rate={rateDialog.rate}
+              onSuccess={() => setRateDialog(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteZoneId !== null} onOpenChange={(open) => !open && setDeleteZoneId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this shipping zone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its rates are deleted too. Existing orders keep the shipping they were placed with.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteZoneId !== null && deleteMutation.mutate(`/api/vendors/${vendorId}/shipping-zones/${deleteZoneId}`)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ShippingZoneList;
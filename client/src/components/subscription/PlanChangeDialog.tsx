@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { formatCurrency } from '@/lib/formatCurrency';
+import { apiRequest } from '@/lib/queryClient';
+
+export type ProrationTiming = 'immediate' | 'period_end';
+
+// A change of plan, billing cycle or both; what's left out stays as it is
+export type PlanChangeRequest = {
+  planId?: number;
+  billingCycle?: 'monthly' | 'yearly';
+  description: string;
+};
+
+// As returned by POST /api/vendor/subscription/change-plan/preview
+type ProrationPreview = {
+  timing: ProrationTiming;
+  effectiveAt: string;
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  credit: string;
+  charge: string;
+  creditApplied: string;
+  amountDue: string;
+  creditBalance: string;
+  renewalAmount: string;
+  lines: { description: string; amount: string }[];
+};
+
+interface PlanChangeDialogProps {
+  change: PlanChangeRequest | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (timing: ProrationTiming) => void;
+  isPending: boolean;
+}
+
+const formatAmount = (amount: string, currency: string) =>
+  formatCurrency(parseFloat(amount), currency, undefined, true);
+
+const formatDate = (dateStr: string | null) =>
+  dateStr
+    ? new Date(dateStr).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    : 'N/A';
+
+/**
+ * Shows what a plan or billing cycle change will cost, now or at the end of
+ * the current period, before the vendor confirms it
+ */
+export default function PlanChangeDialog({ change, onOpenChange, onConfirm, isPending }: PlanChangeDialogProps) {
+  const [timing, setTiming] = useState<ProrationTiming>('immediate');
+
+  const { data: preview, isLoading, error } = useQuery<ProrationPreview, Error>({
+    queryKey: ['/api/vendor/subscription/change-plan/preview', change?.planId, change?.billingCycle, timing],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/vendor/subscription/change-plan/preview', {
+        planId: change?.planId,
+        billingCycle: change?.billingCycle,
+        timing,
+      });
+      return res.json();
+    },
+    enabled: !!change,
+    retry: false,
+  });
+
+  return (
+    <Dialog
+      open={!!change}
+      onOpenChange={(open) => {
+        if (!open) setTiming('immediate');
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Confirm subscription change</DialogTitle>
+          <DialogDescription>{change?.description}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={timing}
+          onValueChange={(value) => setTiming(value as ProrationTiming)}
+          className="space-y-2"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="immediate" id="timing-immediate" />
+            <Label htmlFor="timing-immediate">Change now, with credit for the unused time</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="period_end" id="timing-period-end" />
+            <Label htmlFor="timing-period-end">Change when the current billing period ends</Label>
+          </div>
+        </RadioGroup>
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : preview ? (
+          <div className="space-y-3 text-sm">
+            {preview.timing !== timing && (
+              <p className="text-muted-foreground">
+                There's no paid period to prorate yet, so the change is made straight away.
+              </p>
+            )}
+            {preview.lines.map((line, index) => (
+              <div key={index} className="flex justify-between gap-4">
+                <span className="text-muted-foreground">{line.description}</span>
+                <span>{formatAmount(line.amount, preview.currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-medium">
+              <span>Due now</span>
+              <span>{formatAmount(preview.amountDue, preview.currency)}</span>
+            </div>
+            {parseFloat(preview.creditBalance) > 0 && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credit for future invoices</span>
+                <span>{formatAmount(preview.creditBalance, preview.currency)}</span>
+              </div>
+            )}
+            <p className="text-muted-foreground">
+              {preview.timing === 'period_end'
+                ? `The change takes effect on ${formatDate(preview.effectiveAt)}, after which you'll be billed `
+                : preview.periodEnd
+                  ? `From ${formatDate(preview.periodEnd)} you'll be billed `
+                  : `You'll be billed `}
+              {formatAmount(preview.renewalAmount, preview.currency)} per billing period.
+            </p>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep current plan
+          </Button>
+          <Button onClick={() => onConfirm(timing)} disabled={!preview || isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {preview && parseFloat(preview.amountDue) > 0
+              ? `Pay ${formatAmount(preview.amountDue, preview.currency)} and change`
+              : 'Confirm change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
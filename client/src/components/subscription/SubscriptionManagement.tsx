@@ -25,12 +25,14 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
-import { Loader2, Calendar, CreditCard, Clock, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Loader2, Calendar, CreditCard, Clock, AlertTriangle, CheckCircle2, Download } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { formatCurrency } from '@/lib/formatCurrency';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import SubscriptionPlans from './SubscriptionPlans';
+import UsageMeter, { type VendorUsage } from './UsageMeter';
+import PlanChangeDialog, { type PlanChangeRequest, type ProrationTiming } from './PlanChangeDialog';
 
 interface SubscriptionInfo {
   id: number;
@@ -47,6 +49,8 @@ interface SubscriptionInfo {
   billingCycle: 'monthly' | 'yearly';
   amount: string | null;
   currency: string;
+  creditBalance: string;
+  pendingPlanChange: { planId: number; billingCycle: 'monthly' | 'yearly' } | null;
   plan: {
     id: number;
     name: string;
@@ -61,10 +65,29 @@ interface SubscriptionInfo {
   };
 }
 
+// As returned when a plan or billing cycle is changed
+interface PlanChangeResult {
+  subscription: SubscriptionInfo;
+  proration: { timing: ProrationTiming; effectiveAt: string };
+  invoice: Invoice | null;
+  paid: boolean;
+}
+
+interface Invoice {
+  id: number;
+  subscriptionId: number | null;
+  invoiceNumber: string;
+  total: string;
+  currency: string | null;
+  status: 'pending' | 'paid' | 'overdue' | 'void';
+  dueDate: string;
+}
+
 export default function SubscriptionManagement() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [planChange, setPlanChange] = useState<PlanChangeRequest | null>(null);
   const [selectedTab, setSelectedTab] = useState<'current' | 'plans'>('current');
   
   // Fetch current subscription data
@@ -78,6 +101,41 @@ export default function SubscriptionManagement() {
     retry: false,
   });
 
+  // What the store uses of its plan's limits
+  const { data: usage } = useQuery<VendorUsage>({
+    queryKey: ['/api/vendor/usage'],
+  });
+
+  // Subscription invoices, to show any that still need paying and to download
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['/api/vendor/subscription/invoices'],
+  });
+  const unpaidInvoices = invoices.filter(invoice => invoice.status === 'pending' || invoice.status === 'overdue');
+
+  // Mutation for paying an unpaid invoice now
+  const payInvoiceMutation = useMutation({
+    mutationFn: async (invoiceId: number) => {
+      const res = await apiRequest('POST', `/api/vendor/subscription/invoices/${invoiceId}/pay`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription/invoices'] });
+      toast({
+        title: 'Invoice paid',
+        description: 'Thank you, your payment has gone through.',
+      });
+    },
+    onError: (err: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription/invoices'] });
+      toast({
+        title: 'Payment failed',
+        description: err.message || 'Something went wrong. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Mutation for starting a trial
   const startTrialMutation = useMutation({
     mutationFn: async (planId: number) => {
@@ -86,6 +144,7 @@ export default function SubscriptionManagement() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor/usage'] });
       setSelectedTab('current');
       toast({
         title: 'Trial started',
@@ -101,19 +160,37 @@ export default function SubscriptionManagement() {
     },
   });
 
+  // Let the vendor know how a confirmed plan or billing cycle change went
+  const onPlanChanged = (result: PlanChangeResult, title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription/invoices'] });
+    setPlanChange(null);
+    if (result.proration.timing === 'period_end') {
+      toast({
+        title: 'Change scheduled',
+        description: `The change will take effect on ${formatDate(result.proration.effectiveAt)}.`,
+      });
+    } else if (result.invoice && !result.paid) {
+      toast({
+        title,
+        description: 'We could not take payment for the difference. Please pay the invoice to avoid interruption.',
+        variant: 'destructive',
+      });
+    } else {
+      toast({ title, description });
+    }
+  };
+
   // Mutation for changing plans
   const changePlanMutation = useMutation({
-    mutationFn: async (planId: number) => {
-      const res = await apiRequest('POST', '/api/vendor/subscription/change-plan', { planId });
-      return res.json();
+    mutationFn: async ({ planId, timing }: { planId: number; timing: ProrationTiming }) => {
+      const res = await apiRequest('POST', '/api/vendor/subscription/change-plan', { planId, timing });
+      return res.json() as Promise<PlanChangeResult>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription'] });
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor/usage'] });
       setSelectedTab('current');
-      toast({
-        title: 'Plan changed',
-        description: 'Your subscription plan has been updated successfully.',
-      });
+      onPlanChanged(result, 'Plan changed', 'Your subscription plan has been updated successfully.');
     },
     onError: (err: Error) => {
       toast({
@@ -126,16 +203,12 @@ export default function SubscriptionManagement() {
 
   // Mutation for changing billing cycle
   const changeBillingCycleMutation = useMutation({
-    mutationFn: async (billingCycle: 'monthly' | 'yearly') => {
-      const res = await apiRequest('POST', '/api/vendor/subscription/change-billing-cycle', { billingCycle });
-      return res.json();
+    mutationFn: async ({ billingCycle, timing }: { billingCycle: 'monthly' | 'yearly'; timing: ProrationTiming }) => {
+      const res = await apiRequest('POST', '/api/vendor/subscription/change-billing-cycle', { billingCycle, timing });
+      return res.json() as Promise<PlanChangeResult>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/vendor/subscription'] });
-      toast({
-        title: 'Billing cycle changed',
-        description: 'Your billing cycle has been updated successfully.',
-      });
+    onSuccess: (result) => {
+      onPlanChanged(result, 'Billing cycle changed', 'Your billing cycle has been updated successfully.');
     },
     onError: (err: Error) => {
       toast({
@@ -175,8 +248,17 @@ export default function SubscriptionManagement() {
       // No current subscription, start a trial
       startTrialMutation.mutate(planId);
     } else if (subscription.planId !== planId) {
-      // Change the current plan
-      changePlanMutation.mutate(planId);
+      // Change the current plan, once the vendor has seen what it costs
+      setPlanChange({ planId, description: 'Your plan will be changed for the selected one.' });
+    }
+  };
+
+  // Make the change the vendor confirmed in the dialog
+  const handlePlanChangeConfirm = (timing: ProrationTiming) => {
+    if (planChange?.planId) {
+      changePlanMutation.mutate({ planId: planChange.planId, timing });
+    } else if (planChange?.billingCycle) {
+      changeBillingCycleMutation.mutate({ billingCycle: planChange.billingCycle, timing });
     }
   };
 
@@ -202,6 +284,8 @@ export default function SubscriptionManagement() {
         return <Badge variant="destructive">Canceled</Badge>;
       case 'past_due':
         return <Badge variant="destructive">Past Due</Badge>;
+      case 'unpaid':
+        return <Badge variant="destructive">Unpaid</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -257,6 +341,41 @@ export default function SubscriptionManagement() {
       </TabsList>
       
       <TabsContent value="current">
+        {unpaidInvoices.length > 0 && (
+          <Card className="mb-6 border-destructive">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                Payment needed
+              </CardTitle>
+              <CardDescription>
+                We couldn't take payment for your subscription. Your store will be suspended if it stays unpaid.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {unpaidInvoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {invoice.invoiceNumber} · {formatCurrency(parseFloat(invoice.total), invoice.currency ?? undefined)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Due {formatDate(invoice.dueDate)}</div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => payInvoiceMutation.mutate(invoice.id)}
+                    disabled={payInvoiceMutation.isPending}
+                  >
+                    {payInvoiceMutation.isPending && payInvoiceMutation.variables === invoice.id && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Pay now
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -291,6 +410,18 @@ export default function SubscriptionManagement() {
                     <CreditCard className="h-4 w-4" />
                     Billing cycle: {subscription.billingCycle}
                   </div>
+                  {parseFloat(subscription.creditBalance) > 0 && (
+                    <div className="text-sm text-muted-foreground mt-1">
+                      Credit towards your next invoices: {formatCurrency(parseFloat(subscription.creditBalance), subscription.currency, undefined, true)}
+                    </div>
+                  )}
+                  {subscription.pendingPlanChange && (
+                    <div className="text-sm text-muted-foreground mt-1">
+                      A change to {subscription.pendingPlanChange.billingCycle} billing
+                      {subscription.pendingPlanChange.planId !== subscription.planId && ' on a new plan'} is
+                      scheduled for {formatDate(subscription.currentPeriodEnd)}.
+                    </div>
+                  )}
                 </div>
                 
                 {subscription.status === 'trialing' && subscription.trialEndsAt && (
@@ -348,21 +479,25 @@ export default function SubscriptionManagement() {
                 </div>
                 
                 <div>
-                  <h3 className="text-sm font-medium text-muted-foreground mb-1">Plan Limits</h3>
-                  <div className="space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Products:</span>
-                      <span>Up to {subscription.plan.productLimit}</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Storage:</span>
-                      <span>{subscription.plan.storageLimit / 1000} GB</span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Custom domains:</span>
-                      <span>Up to {subscription.plan.customDomainLimit}</span>
+                  <h3 className="text-sm font-medium text-muted-foreground mb-1">Usage</h3>
+                  {usage ? (
+                    <UsageMeter usage={usage} />
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Products:</span>
+                        <span>Up to {subscription.plan.productLimit}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Storage:</span>
+                        <span>{subscription.plan.storageLimit} GB</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Custom domains:</span>
+                        <span>Up to {subscription.plan.customDomainLimit}</span>
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -372,7 +507,7 @@ export default function SubscriptionManagement() {
               {subscription.billingCycle === 'monthly' && subscription.plan.yearlyPrice && (
                 <Button 
                   variant="outline"
-                  onClick={() => changeBillingCycleMutation.mutate('yearly')}
+                  onClick={() => setPlanChange({ billingCycle: 'yearly', description: 'Switch to yearly billing.' })}
                   disabled={changeBillingCycleMutation.isPending}
                 >
                   {changeBillingCycleMutation.isPending && (
@@ -384,7 +519,7 @@ export default function SubscriptionManagement() {
               {subscription.billingCycle === 'yearly' && (
                 <Button 
                   variant="outline"
-                  onClick={() => changeBillingCycleMutation.mutate('monthly')}
+                  onClick={() => setPlanChange({ billingCycle: 'monthly', description: 'Switch to monthly billing.' })}
                   disabled={changeBillingCycleMutation.isPending}
                 >
                   {changeBillingCycleMutation.isPending && (
@@ -406,6 +541,35 @@ export default function SubscriptionManagement() {
             )}
           </CardFooter>
         </Card>
+
+        {invoices.some(invoice => invoice.status !== 'void') && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="text-lg">Invoices</CardTitle>
+              <CardDescription>Tax invoices for your subscription. Paid invoices double as receipts.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {invoices.filter(invoice => invoice.status !== 'void').map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {invoice.invoiceNumber} · {formatCurrency(parseFloat(invoice.total), invoice.currency ?? undefined, undefined, true)}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {invoice.status === 'paid' ? 'Paid' : `Due ${formatDate(invoice.dueDate)}`}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={`/api/vendor/subscription/invoices/${invoice.id}/pdf`} download>
+                      <Download className="mr-2 h-4 w-4" />
+                      PDF
+                    </a>
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </TabsContent>
       
       <TabsContent value="plans">
@@ -429,10 +593,18 @@ export default function SubscriptionManagement() {
             onSelectPlan={handlePlanSelect}
             billingCycle={subscription.billingCycle}
             isLoading={changePlanMutation.isPending}
+            usage={usage}
           />
         </div>
       </TabsContent>
       
+      <PlanChangeDialog
+        change={planChange}
+        onOpenChange={(open) => !open && setPlanChange(null)}
+        onConfirm={handlePlanChangeConfirm}
+        isPending={changePlanMutation.isPending || changeBillingCycleMutation.isPending}
+      />
+
       {/* Cancel Subscription Dialog */}
       <AlertDialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
         <AlertDialogContent>
@@ -8,13 +8,14 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
-import { CheckCircle2, ArrowRight, Zap } from 'lucide-react';
+import { CheckCircle2, ArrowRight, Zap, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { formatCurrency, formatSubscriptionPrice } from '@/lib/formatCurrency';
 import { useToast } from '@/hooks/use-toast';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { planOverages, type VendorUsage } from './UsageMeter';
 
 type Plan = {
   id: number;
@@ -38,6 +39,8 @@ type SubscriptionPlanProps = {
   onSelectPlan: (planId: number) => void;
   billingCycle?: 'monthly' | 'yearly';
   isLoading?: boolean;
+  // Current usage, to flag plans the store has outgrown
+  usage?: VendorUsage;
 };
 
 export default function SubscriptionPlans({
@@ -45,6 +48,7 @@ export default function SubscriptionPlans({
   onSelectPlan,
   billingCycle = 'monthly',
   isLoading: isActionLoading = false,
+  usage,
 }: SubscriptionPlanProps) {
   const { toast } = useToast();
   const [selectedBillingCycle, setSelectedBillingCycle] = useState<'monthly' | 'yearly'>(billingCycle);
@@ -119,6 +123,7 @@ export default function SubscriptionPlans({
           const effectiveBillingCycle = selectedBillingCycle;
           const price = effectiveBillingCycle === 'yearly' ? plan.yearlyPrice || plan.price : plan.price;
           const isCurrentPlan = currentPlanId === plan.id;
+          const overages = isCurrentPlan ? [] : planOverages(usage, plan);
           const showYearlySavings = effectiveBillingCycle === 'yearly' && plan.yearlyPrice && plan.price;
           
           // Calculate annual savings if on yearly plan
@@ -177,6 +182,18 @@ export default function SubscriptionPlans({
                   )}
                 </div>
                 
+                {overages.length > 0 && (
+                  <div className="mb-4 rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+                    <div className="flex items-center gap-2 font-medium text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      Your store uses more than this plan allows
+                    </div>
+                    <ul className="mt-1 list-disc pl-6 text-muted-foreground">
+                      {overages.map(overage => <li key={overage}>{overage}</li>)}
+                    </ul>
+                  </div>
+                )}
+                
                 <div className="space-y-2">
                   {plan.features?.map((feature, idx) => (
                     <div key={idx} className="flex items-start gap-2">
@@ -199,7 +216,7 @@ export default function SubscriptionPlans({
                   <Button 
                     className="w-full" 
                     onClick={() => onSelectPlan(plan.id)}
-                    disabled={isActionLoading}
+                    disabled={isActionLoading || overages.length > 0}
                   >
                     {isActionLoading ? (
                       <>Processing</>
@@ -0,0 +1,78 @@
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+// As returned by GET /api/vendor/usage
+export type QuotaUsage = {
+  resource: 'products' | 'customDomains' | 'storage';
+  label: string;
+  used: number;
+  limit: number | null;
+  unit: 'count' | 'bytes';
+};
+
+export type VendorUsage = {
+  quotas: QuotaUsage[];
+};
+
+type PlanLimits = {
+  productLimit: number;
+  storageLimit: number; // GB
+  customDomainLimit: number;
+};
+
+export function formatQuotaAmount(amount: number, unit: QuotaUsage['unit']): string {
+  if (unit === 'count') return amount.toLocaleString();
+  if (amount >= BYTES_PER_GB) return `${(amount / BYTES_PER_GB).toFixed(1)} GB`;
+  return `${(amount / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * The limits current usage wouldn't fit in on another plan, described for
+ * showing next to it
+ */
+export function planOverages(usage: VendorUsage | undefined, plan: PlanLimits): string[] {
+  if (!usage) return [];
+  const limits: Record<QuotaUsage['resource'], number> = {
+    products: plan.productLimit,
+    customDomains: plan.customDomainLimit,
+    storage: plan.storageLimit * BYTES_PER_GB,
+  };
+  return usage.quotas
+    .filter(quota => quota.used > limits[quota.resource])
+    .map(quota => `${quota.label}: ${formatQuotaAmount(quota.used, quota.unit)} used, ${formatQuotaAmount(limits[quota.resource], quota.unit)} allowed`);
+}
+
+/**
+ * One bar per plan limit, turning amber near the limit and red at it
+ */
+export default function UsageMeter({ usage }: { usage: VendorUsage }) {
+  return (
+    <div className="space-y-3">
+      {usage.quotas.map(quota => {
+        const percent = quota.limit ? Math.min(100, (quota.used / quota.limit) * 100) : 0;
+        return (
+          <div key={quota.resource} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">{quota.label}</span>
+              <span className={cn(percent >= 100 && 'text-destructive font-medium')}>
+                {formatQuotaAmount(quota.used, quota.unit)}
+                {quota.limit !== null ? ` of ${formatQuotaAmount(quota.limit, quota.unit)}` : ' (unlimited)'}
+              </span>
+            </div>
+            {quota.limit !== null && (
+              <Progress
+                value={percent}
+                className={cn(
+                  'h-2',
+                  percent >= 100 ? '[&>div]:bg-destructive' : percent >= 80 ? '[&>div]:bg-amber-500' : ''
+                )}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { z } from 'zod';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { usePlatformDomain } from '@/hooks/use-platform-domain';
+import type { SubscriptionPlan, User, Vendor } from '@shared/schema';
 
 import {
   Form,
@@ -33,10 +35,20 @@ const vendorFormSchema = z.object({
   subscriptionPlanId: z.number().optional(),
   subdomainName: z.string().min(3, 'Subdomain must be at least 3 characters').optional(),
   createSubdomain: z.boolean().default(true),
+  gstin: z.string()
+    .regex(/^(\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z])?$/, 'Enter a valid 15 character GSTIN')
+    .optional(),
+  businessAddress: z.string().optional(),
+  businessState: z.string().optional(),
 });
 
 type VendorFormValues = z.infer<typeof vendorFormSchema>;
 
+// A vendor as /api/vendors/:id returns it, with its owner's account
+type VendorDetail = Vendor & {
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'avatarUrl'> | null;
+};
+
 type VendorFormProps = {
   vendorId?: number;
   onSuccess?: () => void;
@@ -44,16 +56,17 @@ type VendorFormProps = {
 
 const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
   const { toast } = useToast();
+  const platformDomain = usePlatformDomain();
   const queryClient = useQueryClient();
   const [isCreatingUser, setIsCreatingUser] = useState(false);
 
   // Fetch subscription plans
-  const { data: subscriptionPlans } = useQuery({
+  const { data: subscriptionPlans } = useQuery<SubscriptionPlan[]>({
     queryKey: ['/api/subscription-plans'],
   });
 
   // Fetch vendor data if editing
-  const { data: vendor, isLoading: isLoadingVendor } = useQuery({
+  const { data: vendor, isLoading: isLoadingVendor } = useQuery<VendorDetail>({
     queryKey: ['/api/vendors', vendorId],
     enabled: !!vendorId,
   });
@@ -70,6 +83,9 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
       password: '',
       createSubdomain: true,
       subdomainName: '',
+      gstin: '',
+      businessAddress: '',
+      businessState: '',
     },
   });
 
@@ -79,13 +95,15 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
       form.reset({
         companyName: vendor.companyName,
         description: vendor.description || '',
-        subscriptionPlanId: vendor.subscriptionPlanId,
-        // Add user data if available
-        ...(vendor.user && {
-          email: vendor.user.email,
-          firstName: vendor.user.firstName,
-          lastName: vendor.user.lastName,
-        }),
+        subscriptionPlanId: vendor.subscriptionPlanId ?? undefined,
+        gstin: vendor.gstin || '',
+        businessAddress: vendor.businessAddress || '',
+        businessState: vendor.businessState || '',
+        email: vendor.user?.email || '',
+        firstName: vendor.user?.firstName || '',
+        lastName: vendor.user?.lastName || '',
+        // Only new vendors get a subdomain from this form
+        createSubdomain: false,
       });
       setIsCreatingUser(false);
     } else {
@@ -96,12 +114,20 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
   // Create/update vendor mutation
   const mutation = useMutation({
     mutationFn: async (data: VendorFormValues) => {
+      // Printed on the tax invoices the vendor issues
+      const taxDetails = {
+        gstin: data.gstin || null,
+        businessAddress: data.businessAddress || null,
+        businessState: data.businessState || null,
+      };
+
       if (vendorId) {
         // Update existing vendor
         await apiRequest('PATCH', `/api/vendors/${vendorId}`, {
           companyName: data.companyName,
           description: data.description,
           subscriptionPlanId: data.subscriptionPlanId,
+          ...taxDetails,
         });
       } else {
         // Create new vendor
@@ -124,6 +150,7 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
             companyName: data.companyName,
             description: data.description,
             subscriptionPlanId: data.subscriptionPlanId,
+            ...taxDetails,
             createSubdomain: data.createSubdomain,
             subdomainName: data.subdomainName,
           });
@@ -133,6 +160,7 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
             companyName: data.companyName,
             description: data.description,
             subscriptionPlanId: data.subscriptionPlanId,
+            ...taxDetails,
           });
         }
       }
@@ -218,6 +246,54 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="gstin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>GSTIN</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. 27ABCDE1234F1Z5"
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="businessAddress"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Registered Address</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Address printed on invoices" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="businessState"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>GST State</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Maharashtra" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
                 <FormField
                   control={form.control}
                   name="subscriptionPlanId"
@@ -341,7 +417,7 @@ const VendorForm = ({ vendorId, onSuccess }: VendorFormProps) => {
                             <FormControl>
                               <Input placeholder="subdomain" {...field} />
                             </FormControl>
-                            <span className="flex items-center ml-2 text-gray-500">.multivend.com</span>
+                            <span className="flex items-center ml-2 text-gray-500">.{platformDomain}</span>
                           </div>
                           <FormMessage />
                         </FormItem>
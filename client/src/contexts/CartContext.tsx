@@ -20,6 +20,7 @@ interface ServerCartHook {
       price: string;
       quantity: number;
       imageUrl: string | null;
+      variantId: number | null;
       variant: string | null;
     }>;
     subtotal: string;
@@ -70,9 +71,8 @@ export type UnifiedCartItem = {
   price: string;
   quantity: number;
   imageUrl: string | null;
+  variantId: number | null;
   variant: string | null;
-  colorHex?: string | null;
-  size?: string | null;
   vendorId: number;
 };
 
@@ -203,9 +203,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
           price: item.price,
           quantity: item.quantity,
           imageUrl: item.imageUrl || null,
+          variantId: item.variantId ?? null,
           variant: item.variant || null,
-          colorHex: item.colorHex || null,
-          size: item.size || null,
           vendorId: item.vendorId
         };
         
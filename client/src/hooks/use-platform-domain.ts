@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+
+type PlatformDomains = {
+  baseDomains: string[];
+  subdomainBase: string;
+};
+
+/**
+ * The base domain vendor subdomains are created on, e.g. "multivend.com"
+ */
+export function usePlatformDomain() {
+  const { data } = useQuery<PlatformDomains>({
+    queryKey: ["/api/platform/domains"],
+  });
+
+  return data?.subdomainBase ?? "multivend.com";
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useLocation } from "wouter";
+import { trackStorefrontEvent, type CheckoutStep } from "@/lib/storefrontTracking";
+
+/**
+ * Record a page view each time the shopper lands on a storefront page
+ */
+export function usePageView(vendorId: number | null | undefined) {
+  const [location] = useLocation();
+
+  useEffect(() => {
+    trackStorefrontEvent(vendorId, { type: "page_view", path: location });
+  }, [vendorId, location]);
+}
+
+/**
+ * Record the shopper reaching a checkout step, once per step they reach
+ */
+export function useCheckoutStep(vendorId: number | null | undefined, step: CheckoutStep | null) {
+  useEffect(() => {
+    if (step) trackStorefrontEvent(vendorId, { type: "checkout_step", step });
+  }, [vendorId, step]);
+}
+
+/**
+ * Record a product view the first time each product's card is at least
+ * half on screen. Returns a ref callback for the card, given its product.
+ */
+export function useProductViewTracking(vendorId: number | null | undefined) {
+  const seen = useRef(new Set<number>());
+  const observer = useRef<{ vendorId: number; instance: IntersectionObserver } | null>(null);
+
+  // Cards attach before effects run, so the observer is made on first use
+  const observe = useCallback((element: Element) => {
+    if (!vendorId || typeof IntersectionObserver === "undefined") return;
+    if (observer.current?.vendorId !== vendorId) {
+      observer.current?.instance.disconnect();
+      const instance = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+          const productId = Number((entry.target as HTMLElement).dataset.productId);
+          if (!entry.isIntersecting || !productId || seen.current.has(productId)) continue;
+          seen.current.add(productId);
+          trackStorefrontEvent(vendorId, { type: "product_view", productId });
+          instance.unobserve(entry.target);
+        }
+      }, { threshold: 0.5 });
+      observer.current = { vendorId, instance };
+    }
+    observer.current.instance.observe(element);
+  }, [vendorId]);
+
+  useEffect(() => () => {
+    observer.current?.instance.disconnect();
+    observer.current = null;
+  }, []);
+
+  return useCallback((productId: number) => (element: HTMLElement | null) => {
+    if (!element || seen.current.has(productId)) return;
+    element.dataset.productId = String(productId);
+    observe(element);
+  }, [observe]);
+}
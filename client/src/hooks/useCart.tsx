@@ -9,6 +9,7 @@ type CartItem = {
   price: string;
   quantity: number;
   imageUrl: string | null;
+  variantId: number | null;
   variant: string | null;
 };
 
@@ -39,7 +40,7 @@ export function useCart() {
 
   // Add to cart mutation
   const addToCartMutation = useMutation({
-    mutationFn: async (item: { productId: number; quantity: number; variant?: string; vendorId: number }) => {
+    mutationFn: async (item: { productId: number; quantity: number; variantId?: number | null; vendorId: number }) => {
       const res = await apiRequest('POST', '/api/cart/add', item);
       return await res.json();
     },
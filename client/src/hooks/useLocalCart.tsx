@@ -9,9 +9,9 @@ export type LocalCartItem = {
   price: string;
   quantity: number;
   imageUrl: string | null;
+  // The variant picked, and its title for display (e.g. "Blue / Small")
+  variantId: number | null;
   variant: string | null;
-  colorHex: string | null;
-  size: string | null;
   vendorId: number;
 };
 
@@ -87,7 +87,7 @@ export function useLocalCart() {
       const existingItemIndex = prevCart.items.findIndex(
         (cartItem) => 
           cartItem.productId === item.productId && 
-          cartItem.variant === item.variant
+          cartItem.variantId === item.variantId
       );
       
       let newItems;
@@ -0,0 +1,115 @@
+/**
+ * First-party storefront tracking: events are batched up in the browser and
+ * sent to the store's own events endpoint. Shoppers are only known by a
+ * random session ID, which is replaced after 30 minutes without activity.
+ */
+
+export type StorefrontEventType = "page_view" | "product_view" | "add_to_cart" | "checkout_step";
+export type CheckoutStep = "cart" | "details" | "payment" | "confirmation";
+
+export interface StorefrontEvent {
+  type: StorefrontEventType;
+  path?: string;
+  productId?: number;
+  step?: CheckoutStep;
+}
+
+const SESSION_KEY = "storefront_session";
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const FLUSH_DELAY_MS = 2000;
+// The server takes at most this many events per request
+const MAX_BATCH = 50;
+
+interface QueuedEvent extends StorefrontEvent {
+  occurredAt: number;
+}
+
+const queues = new Map<number, QueuedEvent[]>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function newSessionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * The current anonymous session, started afresh after a long enough break
+ */
+function sessionId(): string {
+  const now = Date.now();
+  let session: { id: string; lastSeen: number } | null = null;
+  try {
+    session = JSON.parse(localStorage.getItem(SESSION_KEY) || "null");
+  } catch {
+    session = null;
+  }
+  if (!session || now - session.lastSeen > SESSION_IDLE_MS) {
+    session = { id: newSessionId(), lastSeen: now };
+  }
+  session.lastSeen = now;
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // Private browsing can refuse storage; the session then lasts as long as the page
+  }
+  return session.id;
+}
+
+// Shoppers who ask not to be tracked aren't
+function trackingAllowed(): boolean {
+  return typeof navigator !== "undefined" && navigator.doNotTrack !== "1";
+}
+
+function send(vendorId: number, events: QueuedEvent[]) {
+  const url = `/api/stores/${vendorId}/events`;
+  const body = JSON.stringify({ sessionId: sessionId(), events });
+
+  // sendBeacon survives the page being closed, which is when most batches go out
+  if (navigator.sendBeacon?.(url, new Blob([body], { type: "application/json" }))) {
+    return;
+  }
+  fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body, keepalive: true })
+    .catch(() => {
+      // Analytics never get in the shopper's way
+    });
+}
+
+/**
+ * Send everything that's queued, e.g. before the page is hidden
+ */
+export function flushStorefrontEvents() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  queues.forEach((events, vendorId) => {
+    for (let start = 0; start < events.length; start += MAX_BATCH) {
+      send(vendorId, events.slice(start, start + MAX_BATCH));
+    }
+  });
+  queues.clear();
+}
+
+/**
+ * Record something a shopper did on a vendor's storefront. Events are sent
+ * a couple of seconds later, together with any that follow.
+ */
+export function trackStorefrontEvent(vendorId: number | null | undefined, event: StorefrontEvent) {
+  if (!vendorId || !trackingAllowed()) return;
+
+  const queue = queues.get(vendorId) ?? [];
+  queue.push({ path: window.location.pathname, ...event, occurredAt: Date.now() });
+  queues.set(vendorId, queue);
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(flushStorefrontEvents, FLUSH_DELAY_MS);
+  }
+}
+
+if (typeof document !== "undefined") {
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushStorefrontEvents();
+  });
+}
@@ -36,6 +36,12 @@ export const productFormSchema = z.object({
     })
     .optional()
     .nullable(),
+  hsnCode: z.string()
+    .refine(val => val === '' || /^\d{4}(\d{2}){0,2}$/.test(val), {
+      message: "HSN code must be 4, 6 or 8 digits",
+    })
+    .optional()
+    .nullable(),
   
   // Inventory and stock
   sku: z.string().optional().nullable(),
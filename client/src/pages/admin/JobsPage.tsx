@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { JobRun, ScheduledJob } from "@shared/schema";
+import DashboardLayout from "@/components/layout/DashboardLayout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Pencil, Play } from "lucide-react";
+
+interface JobsResponse {
+  scheduler: { instanceId: string; isLeader: boolean; hasLeader: boolean };
+  jobs: ScheduledJob[];
+}
+
+const JOBS_KEY = ["/api/admin/jobs"];
+
+const ago = (value: string | Date | null) =>
+  value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "—";
+
+function StatusBadge({ status }: { status: string | null }) {
+  if (!status) return <span className="text-muted-foreground">Never run</span>;
+  const variant = status === "succeeded" ? "success" : status === "failed" ? "destructive" : "pending";
+  return <Badge variant={variant}>{status}</Badge>;
+}
+
+function EditScheduleDialog({ job, onOpenChange }: { job: ScheduledJob | null; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [cronExpression, setCronExpression] = useState(job?.cronExpression ?? "");
+  const [maxAttempts, setMaxAttempts] = useState(String(job?.maxAttempts ?? 3));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/admin/jobs/${job!.name}`, {
+        cronExpression,
+        maxAttempts: parseInt(maxAttempts),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save the schedule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={job !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Schedule for {job?.name}</DialogTitle>
+          <DialogDescription>
+            A cron expression in UTC: minute, hour, day of month, month, day of week. For example <code>*/15 * * * *</code> or{" "}
+            <code>30 3 * * *</code>.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="job-cron">Schedule</Label>
+            <Input id="job-cron" className="font-mono" value={cronExpression} onChange={(e) => setCronExpression(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="job-attempts">Attempts before waiting for the next scheduled run</Label>
+            <Input
+              id="job-attempts"
+              type="number"
+              min={1}
+              max={10}
+              value={maxAttempts}
+              onChange={(e) => setMaxAttempts(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={!cronExpression.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Super admin view of the background jobs: their schedules, how their last
+ * runs went, and a button to run one now
+ */
+export default function JobsPage() {
+  const { toast } = useToast();
+  const [selectedJob, setSelectedJob] = useState<string | null>(null);
+  const [editingJob, setEditingJob] = useState<ScheduledJob | null>(null);
+
+  const { data, isLoading } = useQuery<JobsResponse>({
+    queryKey: JOBS_KEY,
+    refetchInterval: 10000,
+  });
+
+  const runsUrl = `/api/admin/job-runs${selectedJob ? `?job=${encodeURIComponent(selectedJob)}` : ""}`;
+  const { data: runs, isLoading: runsLoading } = useQuery<JobRun[]>({
+    queryKey: [runsUrl],
+    refetchInterval: 10000,
+  });
+
+  const runNowMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", `/api/admin/jobs/${name}/run`);
+    },
+    onSuccess: (_data, name) => {
+      toast({ title: "Run requested", description: `${name} will start within a few seconds.` });
+      queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ name, isEnabled }: { name: string; isEnabled: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/jobs/${name}`, { isEnabled });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: JOBS_KEY }),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <DashboardLayout title="Scheduled Jobs" subtitle="Background work the platform runs on a schedule">
+      <div className="space-y-6">
+        {data && !data.scheduler.hasLeader && (
+          <div className="rounded-md border border-yellow-300 bg-yellow-50 p-4 text-sm text-yellow-800">
+            No server is running scheduled jobs at the moment. Jobs will start once one takes over.
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Jobs</CardTitle>
+            <CardDescription>Schedules are in UTC. Failed runs are retried after 1, 2, 4… minutes.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Schedule</TableHead>
+                      <TableHead>Last run</TableHead>
+                      <TableHead>Next run</TableHead>
+                      <TableHead>Enabled</TableHead>
+                      <TableHead className="text-right"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data?.jobs.map((job) => (
+                      <TableRow
+                        key={job.name}
+                        className={selectedJob === job.name ? "bg-muted/50" : "cursor-pointer"}
+                        onClick={() => setSelectedJob(selectedJob === job.name ? null : job.name)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{job.name}</div>
+                          <div className="text-xs text-muted-foreground max-w-md">{job.description}</div>
+                          {job.lastStatus === "failed" && job.lastError && (
+                            <div className="text-xs text-destructive mt-1">{job.lastError}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{job.cronExpression}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <StatusBadge status={job.lastStatus} />
+                            {job.failedAttempts > 0 && (
+                              <span className="text-xs text-muted-foreground">
+                                {job.failedAttempts} of {job.maxAttempts} attempts failed
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {ago(job.lastRunAt)}
+                            {job.lastDurationMs !== null && ` · ${(job.lastDurationMs / 1000).toFixed(1)}s`}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {job.runRequestedAt ? "Requested" : job.isEnabled ? ago(job.nextRunAt) : "—"}
+                        </TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <Switch
+                            checked={job.isEnabled}
+                            onCheckedChange={(isEnabled) => toggleMutation.mutate({ name: job.name, isEnabled })}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingJob(job)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!!job.runRequestedAt || job.lastStatus === "running" || runNowMutation.isPending}
+                            onClick={() => runNowMutation.mutate(job.name)}
+                          >
+                            <Play className="mr-2 h-4 w-4" />
+                            Run Now
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History{selectedJob && `: ${selectedJob}`}</CardTitle>
+            <CardDescription>
+              {selectedJob ? "Click the job again to see every job's runs." : "Click a job to see only its runs."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {runsLoading ? (
+              <Skeleton className="h-32 w-full" />
+            ) : runs?.length ? (
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Job</TableHead>
+                      <TableHead>Started</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell className="font-medium">{run.jobName}</TableCell>
+                        <TableCell className="text-muted-foreground whitespace-nowrap">{ago(run.startedAt)}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {run.trigger}
+                          {run.attempt > 1 && ` (attempt ${run.attempt})`}
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={run.status} />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {run.durationMs !== null ? `${(run.durationMs / 1000).toFixed(1)}s` : "—"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs max-w-md truncate" title={run.error ?? JSON.stringify(run.result)}>
+                          {run.error ? <span className="text-destructive">{run.error}</span> : run.result ? JSON.stringify(run.result) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No runs yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editingJob && <EditScheduleDialog job={editingJob} onOpenChange={(open) => !open && setEditingJob(null)} />}
+    </DashboardLayout>
+  );
+}
@@ -16,7 +16,7 @@ import {
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
-import { format, subDays, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
+import { differenceInCalendarDays, format, parseISO, subDays, startOfYear, endOfYear } from 'date-fns';
 import {
   AreaChart,
   Area,
@@ -27,6 +27,8 @@ import {
   Tooltip,
   BarChart as ReChartsBarChart,
   Bar,
+  LineChart as ReChartsLineChart,
+  Line,
   PieChart,
   Pie,
   Cell,
@@ -36,6 +38,101 @@ import { DateRangePicker } from '@/components/ui/date-range-picker';
 import { useToast } from '@/hooks/use-toast';
 
 type TimeFrame = '7days' | '30days' | '90days' | 'year' | 'custom';
+type Granularity = 'day' | 'week' | 'month';
+
+interface MetricChange {
+  current: number;
+  previous: number;
+  delta: number;
+  percentChange: number | null;
+}
+
+interface ReportRange {
+  from: string;
+  to: string;
+  granularity: Granularity;
+}
+
+interface AnalyticsTotals {
+  visitors: number;
+  pageViews: number;
+  orders: number;
+  revenue: string;
+  conversionRate: string;
+  averageOrderValue: string;
+}
+
+interface AnalyticsReport {
+  range: ReportRange;
+  previousRange: ReportRange;
+  series: {
+    period: string;
+    visitors: number;
+    pageViews: number;
+    orders: number;
+    revenue: string;
+    conversionRate: string;
+  }[];
+  totals: AnalyticsTotals;
+  previousTotals: AnalyticsTotals;
+  comparison: Record<keyof AnalyticsTotals, MetricChange>;
+}
+
+interface TopProductsReport {
+  products: {
+    productId: number;
+    name: string;
+    quantity: number;
+    revenue: string;
+    previousQuantity: number;
+    previousRevenue: string;
+    revenueChange: MetricChange;
+  }[];
+}
+
+interface SalesByHourReport {
+  hours: { hour: number; orders: number; revenue: string; previousOrders: number }[];
+}
+
+interface SalesByCategoryReport {
+  categories: {
+    categoryId: number | null;
+    name: string;
+    revenue: string;
+    share: number;
+    previousRevenue: string;
+    revenueChange: MetricChange;
+  }[];
+}
+
+// Long ranges are charted by week or month so the points stay readable
+const granularityFor = (from: Date, to: Date): Granularity => {
+  const days = differenceInCalendarDays(to, from) + 1;
+  if (days <= 31) return 'day';
+  if (days <= 120) return 'week';
+  return 'month';
+};
+
+// Change against the previous period; null when that period had nothing
+const GrowthBadge = ({ change }: { change: number | null }) => {
+  if (change === null) {
+    return (
+      <div className="bg-muted text-muted-foreground flex items-center text-xs px-2 py-1 rounded">
+        <span>New</span>
+      </div>
+    );
+  }
+  return (
+    <div className={`${change >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'} flex items-center text-xs px-2 py-1 rounded`}>
+      {change >= 0 ? (
+        <TrendingUp className="h-3 w-3 mr-1" />
+      ) : (
+        <TrendingDown className="h-3 w-3 mr-1" />
+      )}
+      <span>{change.toFixed(1)}%</span>
+    </div>
+  );
+};
 
 const VendorAnalyticsPage = () => {
   const { user } = useAuth();
@@ -51,17 +148,17 @@ const VendorAnalyticsPage = () => {
     const now = new Date();
     switch (timeFrame) {
       case '7days':
-        return { from: subDays(now, 7), to: now };
+        return { from: subDays(now, 6), to: now };
       case '30days':
-        return { from: subDays(now, 30), to: now };
+        return { from: subDays(now, 29), to: now };
       case '90days':
-        return { from: subDays(now, 90), to: now };
+        return { from: subDays(now, 89), to: now };
       case 'year':
         return { from: startOfYear(now), to: endOfYear(now) };
       case 'custom':
         return dateRange;
       default:
-        return { from: subDays(now, 30), to: now };
+        return { from: subDays(now, 29), to: now };
     }
   };
 
@@ -69,40 +166,39 @@ const VendorAnalyticsPage = () => {
   const range = getDateRange();
   const fromDate = format(range.from, 'yyyy-MM-dd');
   const toDate = format(range.to, 'yyyy-MM-dd');
+  const granularity = granularityFor(range.from, range.to);
+  const rangeQuery = `from=${fromDate}&to=${toDate}&granularity=${granularity}`;
 
   // Fetch vendor analytics data
-  const { data: analyticsData, isLoading: isLoadingAnalytics } = useQuery({
-    queryKey: vendorId ? [`/api/vendors/${vendorId}/analytics`, fromDate, toDate] : null,
+  const { data: analyticsData, isLoading: isLoadingAnalytics } = useQuery<AnalyticsReport>({
+    queryKey: [`/api/vendors/${vendorId}/analytics?${rangeQuery}`],
     enabled: !!vendorId,
   });
   
   // Fetch top products data
-  const { data: topProductsData, isLoading: isLoadingTopProducts } = useQuery({
-    queryKey: vendorId ? [`/api/vendors/${vendorId}/analytics/top-products`] : null,
+  const { data: topProductsData, isLoading: isLoadingTopProducts } = useQuery<TopProductsReport>({
+    queryKey: [`/api/vendors/${vendorId}/analytics/top-products?${rangeQuery}`],
     enabled: !!vendorId,
   });
   
   // Fetch sales by hour data
-  const { data: salesByHourData, isLoading: isLoadingSalesByHour } = useQuery({
-    queryKey: vendorId ? [`/api/vendors/${vendorId}/analytics/sales-by-hour`] : null,
+  const { data: salesByHourData, isLoading: isLoadingSalesByHour } = useQuery<SalesByHourReport>({
+    queryKey: [`/api/vendors/${vendorId}/analytics/sales-by-hour?${rangeQuery}`],
     enabled: !!vendorId,
   });
   
   // Fetch sales by category data
-  const { data: salesByCategoryData, isLoading: isLoadingSalesByCategory } = useQuery({
-    queryKey: vendorId ? [`/api/vendors/${vendorId}/analytics/sales-by-category`] : null,
+  const { data: salesByCategoryData, isLoading: isLoadingSalesByCategory } = useQuery<SalesByCategoryReport>({
+    queryKey: [`/api/vendors/${vendorId}/analytics/sales-by-category?${rangeQuery}`],
     enabled: !!vendorId,
   });
 
-  // Process analytics data for charts
+  // Process analytics data for charts; the server fills in empty periods
   const processChartData = () => {
-    if (!analyticsData || !Array.isArray(analyticsData)) return [];
+    if (!analyticsData || !Array.isArray(analyticsData.series)) return [];
     
-    // Sort analytics by date
-    return [...analyticsData].sort((a, b) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    ).map(item => ({
-      date: format(new Date(item.date), 'MMM dd'),
+    return analyticsData.series.map(item => ({
+      date: format(parseISO(item.period), granularity === 'month' ? 'MMM yyyy' : 'MMM dd'),
       revenue: parseFloat(item.revenue || '0'),
       orders: item.orders || 0,
       visitors: item.visitors || 0,
@@ -112,51 +208,28 @@ const VendorAnalyticsPage = () => {
   };
 
   const chartData = processChartData();
+  const hasActivity = chartData.some(point => point.orders > 0 || point.visitors > 0);
   
-  // Calculate summary metrics
-  const calculateSummary = () => {
-    if (!chartData.length) {
-      return {
-        totalRevenue: 0,
-        totalOrders: 0,
-        totalVisitors: 0,
-        avgConversionRate: 0,
-        revenueGrowth: 0,
-        ordersGrowth: 0,
-        visitorsGrowth: 0,
-        conversionGrowth: 0
-      };
-    }
-
-    const totalRevenue = chartData.reduce((sum, day) => sum + day.revenue, 0);
-    const totalOrders = chartData.reduce((sum, day) => sum + day.orders, 0);
-    const totalVisitors = chartData.reduce((sum, day) => sum + day.visitors, 0);
-    const avgConversionRate = chartData.reduce((sum, day) => sum + day.conversionRate, 0) / chartData.length;
-
-    // Calculate growth (simplified - would be more accurate with historical data)
-    // In a real app, we'd compare to previous period
-    const revenueGrowth = chartData.length > 1 ? 
-      ((chartData[chartData.length - 1].revenue / (chartData[0].revenue || 1)) - 1) * 100 : 0;
-    const ordersGrowth = chartData.length > 1 ? 
-      ((chartData[chartData.length - 1].orders / (chartData[0].orders || 1)) - 1) * 100 : 0;
-    const visitorsGrowth = chartData.length > 1 ? 
-      ((chartData[chartData.length - 1].visitors / (chartData[0].visitors || 1)) - 1) * 100 : 0;
-    const conversionGrowth = chartData.length > 1 ? 
-      ((chartData[chartData.length - 1].conversionRate / (chartData[0].conversionRate || 1)) - 1) * 100 : 0;
-
-    return {
-      totalRevenue,
-      totalOrders,
-      totalVisitors,
-      avgConversionRate,
-      revenueGrowth,
-      ordersGrowth,
-      visitorsGrowth,
-      conversionGrowth
-    };
+  // Totals for the range, and how each moved against the previous period
+  const totals = analyticsData?.totals;
+  const comparison = analyticsData?.comparison;
+  const summary = {
+    totalRevenue: parseFloat(totals?.revenue ?? '0'),
+    totalOrders: totals?.orders ?? 0,
+    totalVisitors: totals?.visitors ?? 0,
+    conversionRate: parseFloat(totals?.conversionRate ?? '0'),
+    revenueGrowth: comparison?.revenue.percentChange ?? null,
+    ordersGrowth: comparison?.orders.percentChange ?? null,
+    visitorsGrowth: comparison?.visitors.percentChange ?? null,
+    conversionGrowth: comparison?.conversionRate.percentChange ?? null
   };
 
-  const summary = calculateSummary();
+  const hourlyData = (salesByHourData?.hours ?? []).map(item => ({
+    ...item,
+    label: `${String(item.hour).padStart(2, '0')}:00`
+  }));
+  const topProducts = topProductsData?.products ?? [];
+  const categories = salesByCategoryData?.categories ?? [];
 
   // Custom colors for charts
   const COLORS = ['#4f46e5', '#10b981', '#f59e0b', '#ef4444'];
@@ -169,7 +242,7 @@ const VendorAnalyticsPage = () => {
   };
 
   const handleDownloadCSV = () => {
-    if (!chartData.length) {
+    if (!hasActivity) {
       toast({
         title: "No data to export",
         description: "There is no analytics data available for export.",
@@ -219,6 +292,12 @@ const VendorAnalyticsPage = () => {
           </TabsList>
         </Tabs>
         
+        {analyticsData?.previousRange && (
+          <p className="text-sm text-muted-foreground">
+            Compared with {format(parseISO(analyticsData.previousRange.from), 'MMM d, yyyy')} – {format(parseISO(analyticsData.previousRange.to), 'MMM d, yyyy')}
+          </p>
+        )}
+        
         {timeFrame === 'custom' && (
           <div className="w-full md:w-auto">
             <DateRangePicker
@@ -250,16 +329,7 @@ const VendorAnalyticsPage = () => {
                   `$${summary.totalRevenue.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
                 )}
               </div>
-              {!isLoadingAnalytics && (
-                <div className={`${summary.revenueGrowth >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'} flex items-center text-xs px-2 py-1 rounded`}>
-                  {summary.revenueGrowth >= 0 ? (
-                    <TrendingUp className="h-3 w-3 mr-1" />
-                  ) : (
-                    <TrendingDown className="h-3 w-3 mr-1" />
-                  )}
-                  <span>{summary.revenueGrowth.toFixed(1)}%</span>
-                </div>
-              )}
+              {!isLoadingAnalytics && <GrowthBadge change={summary.revenueGrowth} />}
             </div>
           </CardContent>
         </Card>
@@ -283,16 +353,7 @@ const VendorAnalyticsPage = () => {
                   summary.totalOrders.toLocaleString()
                 )}
               </div>
-              {!isLoadingAnalytics && (
-                <div className={`${summary.ordersGrowth >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'} flex items-center text-xs px-2 py-1 rounded`}>
-                  {summary.ordersGrowth >= 0 ? (
-                    <TrendingUp className="h-3 w-3 mr-1" />
-                  ) : (
-                    <TrendingDown className="h-3 w-3 mr-1" />
-                  )}
-                  <span>{summary.ordersGrowth.toFixed(1)}%</span>
-                </div>
-              )}
+              {!isLoadingAnalytics && <GrowthBadge change={summary.ordersGrowth} />}
             </div>
           </CardContent>
         </Card>
@@ -316,16 +377,7 @@ const VendorAnalyticsPage = () => {
                   summary.totalVisitors.toLocaleString()
                 )}
               </div>
-              {!isLoadingAnalytics && (
-                <div className={`${summary.visitorsGrowth >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'} flex items-center text-xs px-2 py-1 rounded`}>
-                  {summary.visitorsGrowth >= 0 ? (
-                    <TrendingUp className="h-3 w-3 mr-1" />
-                  ) : (
-                    <TrendingDown className="h-3 w-3 mr-1" />
-                  )}
-                  <span>{summary.visitorsGrowth.toFixed(1)}%</span>
-                </div>
-              )}
+              {!isLoadingAnalytics && <GrowthBadge change={summary.visitorsGrowth} />}
             </div>
           </CardContent>
         </Card>
@@ -346,19 +398,10 @@ const VendorAnalyticsPage = () => {
                 {isLoadingAnalytics ? (
                   <Skeleton className="h-8 w-16" />
                 ) : (
-                  `${summary.avgConversionRate.toFixed(2)}%`
+                  `${summary.conversionRate.toFixed(2)}%`
                 )}
               </div>
-              {!isLoadingAnalytics && (
-                <div className={`${summary.conversionGrowth >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'} flex items-center text-xs px-2 py-1 rounded`}>
-                  {summary.conversionGrowth >= 0 ? (
-                    <TrendingUp className="h-3 w-3 mr-1" />
-                  ) : (
-                    <TrendingDown className="h-3 w-3 mr-1" />
-                  )}
-                  <span>{summary.conversionGrowth.toFixed(1)}%</span>
-                </div>
-              )}
+              {!isLoadingAnalytics && <GrowthBadge change={summary.conversionGrowth} />}
             </div>
           </CardContent>
         </Card>
@@ -391,7 +434,7 @@ const VendorAnalyticsPage = () => {
                   <div className="h-full w-full flex items-center justify-center">
                     <Skeleton className="h-full w-full" />
                   </div>
-                ) : !chartData.length ? (
+                ) : !hasActivity ? (
                   <div className="h-full w-full flex flex-col items-center justify-center text-center">
                     <LineChart className="h-16 w-16 text-muted-foreground/30 mb-4" />
                     <h3 className="text-xl font-semibold mb-2">No data available</h3>
@@ -418,7 +461,7 @@ const VendorAnalyticsPage = () => {
                       />
                       <Tooltip
                         formatter={(value) => [`$${Number(value).toFixed(2)}`, 'Revenue']}
-                        labelFormatter={(label) => `Date: ${label}`}
+                        labelFormatter={(label) => `${granularity === 'day' ? 'Date' : granularity === 'week' ? 'Week of' : 'Month'}: ${label}`}
                       />
                       <Area 
                         type="monotone" 
@@ -440,7 +483,7 @@ const VendorAnalyticsPage = () => {
                   <div className="h-full w-full flex items-center justify-center">
                     <Skeleton className="h-full w-full" />
                   </div>
-                ) : !chartData.length ? (
+                ) : !hasActivity ? (
                   <div className="h-full w-full flex flex-col items-center justify-center text-center">
                     <ShoppingBag className="h-16 w-16 text-muted-foreground/30 mb-4" />
                     <h3 className="text-xl font-semibold mb-2">No data available</h3>
@@ -467,7 +510,7 @@ const VendorAnalyticsPage = () => {
                       />
                       <Tooltip
                         formatter={(value) => [value, 'Orders']}
-                        labelFormatter={(label) => `Date: ${label}`}
+                        labelFormatter={(label) => `${granularity === 'day' ? 'Date' : granularity === 'week' ? 'Week of' : 'Month'}: ${label}`}
                       />
                       <Bar 
                         dataKey="orders" 
@@ -486,7 +529,7 @@ const VendorAnalyticsPage = () => {
                   <div className="h-full w-full flex items-center justify-center">
                     <Skeleton className="h-full w-full" />
                   </div>
-                ) : !chartData.length ? (
+                ) : !hasActivity ? (
                   <div className="h-full w-full flex flex-col items-center justify-center text-center">
                     <Users className="h-16 w-16 text-muted-foreground/30 mb-4" />
                     <h3 className="text-xl font-semibold mb-2">No data available</h3>
@@ -496,7 +539,7 @@ const VendorAnalyticsPage = () => {
                   </div>
                 ) : (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart
+                    <ReChartsLineChart
                       data={chartData}
                       margin={{ top: 10, right: 30, left: 0, bottom: 30 }}
                     >
@@ -513,7 +556,7 @@ const VendorAnalyticsPage = () => {
                       />
                       <Tooltip
                         formatter={(value) => [value, 'Visitors']}
-                        labelFormatter={(label) => `Date: ${label}`}
+                        labelFormatter={(label) => `${granularity === 'day' ? 'Date' : granularity === 'week' ? 'Week of' : 'Month'}: ${label}`}
                       />
                       <Legend />
                       <Line 
@@ -532,7 +575,7 @@ const VendorAnalyticsPage = () => {
                         dot={{ r: 4 }}
                         activeDot={{ r: 6 }}
                       />
-                    </LineChart>
+                    </ReChartsLineChart>
                   </ResponsiveContainer>
                 )}
               </div>
@@ -545,7 +588,7 @@ const VendorAnalyticsPage = () => {
                   <div className="h-full w-full flex items-center justify-center">
                     <Skeleton className="h-full w-full" />
                   </div>
-                ) : !chartData.length ? (
+                ) : !hasActivity ? (
                   <div className="h-full w-full flex flex-col items-center justify-center text-center">
                     <BarChart className="h-16 w-16 text-muted-foreground/30 mb-4" />
                     <h3 className="text-xl font-semibold mb-2">No data available</h3>
@@ -555,7 +598,7 @@ const VendorAnalyticsPage = () => {
                   </div>
                 ) : (
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart
+                    <ReChartsLineChart
                       data={chartData}
                       margin={{ top: 10, right: 30, left: 0, bottom: 30 }}
                     >
@@ -572,7 +615,7 @@ const VendorAnalyticsPage = () => {
                       />
                       <Tooltip
                         formatter={(value) => [`${Number(value).toFixed(2)}%`, 'Conversion Rate']}
-                        labelFormatter={(label) => `Date: ${label}`}
+                        labelFormatter={(label) => `${granularity === 'day' ? 'Date' : granularity === 'week' ? 'Week of' : 'Month'}: ${label}`}
                       />
                       <Line 
                         type="monotone" 
@@ -582,7 +625,7 @@ const VendorAnalyticsPage = () => {
                         dot={{ r: 4 }}
                         activeDot={{ r: 6 }}
                       />
-                    </LineChart>
+                    </ReChartsLineChart>
                   </ResponsiveContainer>
                 )}
               </div>
@@ -600,33 +643,34 @@ const VendorAnalyticsPage = () => {
               <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
               Sales By Hour
             </CardTitle>
-            <CardDescription>Sales distribution throughout the day</CardDescription>
+            <CardDescription>Orders by hour of the day, against the previous period</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-[250px]">
               {isLoadingSalesByHour ? (
                 <Skeleton className="h-full w-full" />
-              ) : !salesByHourData || !salesByHourData.length ? (
+              ) : !hourlyData.some(item => item.orders > 0) ? (
                 <div className="h-full w-full flex flex-col items-center justify-center text-center">
                   <Calendar className="h-12 w-12 text-muted-foreground/30 mb-4" />
                   <h4 className="text-lg font-semibold mb-1">No data available</h4>
                   <p className="text-muted-foreground text-sm max-w-md">
-                    There is no hourly sales data available.
+                    There are no sales in the selected time period.
                   </p>
                 </div>
               ) : (
                 <ResponsiveContainer width="100%" height="100%">
                   <ReChartsBarChart
-                    data={salesByHourData}
+                    data={hourlyData}
                     margin={{ top: 10, right: 10, left: -20, bottom: 0 }}
                   >
-                    <XAxis dataKey="hour" tick={{ fontSize: 12 }} />
-                    <YAxis tick={{ fontSize: 12 }} />
+                    <XAxis dataKey="label" tick={{ fontSize: 12 }} interval={5} />
+                    <YAxis tick={{ fontSize: 12 }} allowDecimals={false} />
                     <Tooltip
-                      formatter={(value) => [value, 'Orders']}
-                      labelFormatter={(label) => `Time: ${label}`}
+                      formatter={(value, name) => [value, name === 'previousOrders' ? 'Previous period' : 'Orders']}
+                      labelFormatter={(label) => `Time (UTC): ${label}`}
                     />
-                    <Bar dataKey="sales" fill="#4f46e5" />
+                    <Bar dataKey="previousOrders" fill="#c7d2fe" />
+                    <Bar dataKey="orders" fill="#4f46e5" />
                   </ReChartsBarChart>
                 </ResponsiveContainer>
               )}
@@ -656,7 +700,7 @@ const VendorAnalyticsPage = () => {
                     <Skeleton className="h-5 w-16" />
                   </div>
                 ))
-              ) : !topProductsData || !topProductsData.length ? (
+              ) : !topProducts.length ? (
                 <div className="h-[200px] w-full flex flex-col items-center justify-center text-center">
                   <ShoppingBag className="h-12 w-12 text-muted-foreground/30 mb-4" />
                   <h4 className="text-lg font-semibold mb-1">No data available</h4>
@@ -666,7 +710,7 @@ const VendorAnalyticsPage = () => {
                 </div>
               ) : (
                 <>
-                  {topProductsData.map((product, index) => (
+                  {topProducts.map((product, index) => (
                     <div key={index} className="flex items-center py-1">
                       <div className="w-8 h-8 rounded-md bg-primary/10 flex items-center justify-center text-primary font-medium mr-3">
                         {index + 1}
@@ -675,7 +719,14 @@ const VendorAnalyticsPage = () => {
                         <p className="text-sm font-medium truncate">{product.name}</p>
                         <p className="text-xs text-muted-foreground">{product.quantity} units</p>
                       </div>
-                      <p className="text-sm font-semibold">${parseFloat(product.revenue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                      <div className="text-right">
+                        <p className="text-sm font-semibold">${parseFloat(product.revenue).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+                        {product.revenueChange.percentChange !== null && (
+                          <p className={`text-xs ${product.revenueChange.percentChange >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {product.revenueChange.percentChange >= 0 ? '+' : ''}{product.revenueChange.percentChange.toFixed(1)}%
+                          </p>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </>
@@ -697,30 +748,30 @@ const VendorAnalyticsPage = () => {
             <div className="h-[180px] mb-4">
               {isLoadingSalesByCategory ? (
                 <Skeleton className="h-full w-full rounded-full" />
-              ) : !salesByCategoryData || !salesByCategoryData.length ? (
+              ) : !categories.length ? (
                 <div className="h-full w-full flex flex-col items-center justify-center text-center">
                   <FolderTree className="h-12 w-12 text-muted-foreground/30 mb-4" />
                   <h4 className="text-lg font-semibold mb-1">No data available</h4>
                   <p className="text-muted-foreground text-sm max-w-md">
-                    There is no category sales data available.
+                    There are no category sales in the selected time period.
                   </p>
                 </div>
               ) : (
                 <ResponsiveContainer width="100%" height="100%">
                   <PieChart>
                     <Pie
-                      data={salesByCategoryData}
+                      data={categories}
                       cx="50%"
                       cy="50%"
                       innerRadius={60}
                       outerRadius={80}
                       fill="#8884d8"
-                      dataKey="value"
+                      dataKey="share"
                       nameKey="name"
                       label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
                       labelLine={false}
                     >
-                      {salesByCategoryData.map((entry, index) => (
+                      {categories.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                       ))}
                     </Pie>
@@ -731,9 +782,9 @@ const VendorAnalyticsPage = () => {
                 </ResponsiveContainer>
               )}
             </div>
-            {salesByCategoryData && salesByCategoryData.length > 0 && (
+            {categories.length > 0 && (
               <div className="grid grid-cols-2 gap-2">
-                {salesByCategoryData.map((item, index) => (
+                {categories.map((item, index) => (
                   <div key={index} className="flex items-center">
                     <div
                       className="w-3 h-3 rounded-full mr-2"
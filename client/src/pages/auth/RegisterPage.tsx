@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { Link, useLocation } from 'wouter';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { usePlatformDomain } from '@/hooks/use-platform-domain';
 import {
   Form,
   FormControl,
@@ -60,6 +61,7 @@ const RegisterPage = () => {
   } = useAuth();
   
   const { toast } = useToast();
+  const platformDomain = usePlatformDomain();
   const [, setLocation] = useLocation();
 
   // Redirect if already authenticated with complete profile
@@ -425,7 +427,7 @@ const RegisterPage = () => {
                                   />
                                 </div>
                                 <div className="inline-flex items-center px-3 h-10 rounded-r-md border border-l-0 border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-500 dark:text-gray-400 text-sm">
-                                  .multivend.com
+                                  .{platformDomain}
                                 </div>
                               </div>
                             </FormControl>
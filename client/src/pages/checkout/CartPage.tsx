@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useCheckoutStep } from "@/hooks/use-storefront-tracking";
 import { queryClient } from "@/lib/queryClient";
 import { Loader2, Trash2, Plus, Minus, ShoppingCart } from "lucide-react";
 
@@ -48,6 +49,7 @@ const CartPage = () => {
   } = useQuery<Cart>({
     queryKey: ["/api/cart"],
   });
+  useCheckoutStep(cart?.vendorId, "cart");
   
   // Update cart item quantity mutation
   const updateQuantityMutation = useMutation({
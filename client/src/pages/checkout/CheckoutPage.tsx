@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useLocation, useRoute, Link, useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { useCheckoutStep } from "@/hooks/use-storefront-tracking";
 import { Loader2, CheckCircle, ArrowLeft } from "lucide-react";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,12 +15,37 @@ import CheckoutForm from "@/components/checkout/CheckoutForm";
 import PaymentMethodSelector from "@/components/checkout/PaymentMethodSelector";
 import StripeCheckout from "@/components/checkout/StripeCheckout";
 import PayPalCheckout from "@/components/checkout/PayPalCheckout";
+import type { ShippingQuote } from "@/components/checkout/ShippingOptions";
 import { useAuth } from "@/contexts/AuthContext";
 
 // Types
 type CheckoutStep = "cart" | "details" | "payment" | "confirmation";
 type PaymentProcessor = "stripe" | "paypal" | "manual";
 
+interface CheckoutCartItem {
+  id: number;
+  productId: number;
+  name: string;
+  price: string;
+  quantity: number;
+  imageUrl?: string;
+}
+
+// The cart as /api/cart prices it
+interface CheckoutCart {
+  id: number;
+  vendorId: number;
+  items: CheckoutCartItem[];
+  subtotal: string;
+  discount: string;
+  promotionCode: string | null;
+  tax: string;
+  shippingCost: string;
+  total: string;
+  // Only quoted once the shipping address is known
+  shipping: ShippingQuote | null;
+}
+
 // Helper function to format currency
 const formatCurrency = (amount: string | number, currency = "INR") => {
   return new Intl.NumberFormat("en-IN", {
@@ -40,13 +66,15 @@ const CheckoutPage = () => {
   const [paymentMethod, setPaymentMethod] = useState<string>("");
   const [paymentProcessor, setPaymentProcessor] = useState<PaymentProcessor | null>(null);
   const [orderId, setOrderId] = useState<string | null>(null);
+  // CheckoutForm records the details step itself
+  useCheckoutStep(vendorId, step === "details" ? null : step);
   
   // Fetch cart data
   const { 
     data: cart, 
     isLoading: cartLoading, 
     error: cartError 
-  } = useQuery({
+  } = useQuery<CheckoutCart>({
     queryKey: ["/api/cart"],
     enabled: !!vendorId,
   });
@@ -422,13 +450,23 @@ const CheckoutPage = () => {
                       <span>Subtotal</span>
                       <span>{formatCurrency(cart?.subtotal || "0")}</span>
                     </div>
+                    {parseFloat(cart?.discount || "0") > 0 && (
+                      <div className="flex justify-between text-sm text-green-600">
+                        <span>Discount{cart?.promotionCode ? ` (${cart.promotionCode})` : ""}</span>
+                        <span>-{formatCurrency(cart.discount)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span>Shipping</span>
-                      <span>Free</span>
+                      <span>
+                        {cart?.shipping?.selectedRateId == null
+                          ? "Calculated at checkout"
+                          : parseFloat(cart.shippingCost) === 0 ? "Free" : formatCurrency(cart.shippingCost)}
+                      </span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span>Tax</span>
-                      <span>{formatCurrency(parseFloat(cart?.subtotal || "0") * 0.0825)}</span>
+                      <span>{formatCurrency(cart?.tax || "0")}</span>
                     </div>
                   </div>
                   
@@ -23,17 +23,23 @@ import {
   ExternalLink 
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
+import type { Domain, Vendor } from '@shared/schema';
 import { DomainVerification } from '@/components/domains/DomainVerification';
+import { DomainCertificates } from '@/components/domains/DomainCertificates';
+
+type DomainDetail = Domain & {
+  vendor: Pick<Vendor, 'id' | 'companyName' | 'logoUrl'> | null;
+};
 
 const DomainDetailPage = () => {
   const [, setLocation] = useLocation();
-  const { id } = useParams();
+  const { id } = useParams<{ id: string }>();
   const [activeTab, setActiveTab] = useState('overview');
   
   const domainId = parseInt(id);
   
   // Fetch domain details
-  const { data: domain, isLoading } = useQuery({
+  const { data: domain, isLoading } = useQuery<DomainDetail>({
     queryKey: ['/api/domains', domainId],
     enabled: !isNaN(domainId),
   });
@@ -52,7 +58,7 @@ const DomainDetailPage = () => {
     }
   };
 
-  const getVerificationStatusIcon = (status: string) => {
+  const getVerificationStatusIcon = (status: string | null) => {
     switch (status) {
       case 'verified':
         return <CheckCircle2 className="h-5 w-5 text-green-500" />;
@@ -63,10 +69,15 @@ const DomainDetailPage = () => {
     }
   };
 
-  const getSslStatusIcon = (status: string) => {
+  const getSslStatusIcon = (status: string | null) => {
     switch (status) {
       case 'valid':
         return <Lock className="h-5 w-5 text-green-500" />;
+      case 'expiring':
+        return <Lock className="h-5 w-5 text-amber-500" />;
+      case 'expired':
+      case 'failed':
+      case 'revoked':
       case 'invalid':
         return <ShieldAlert className="h-5 w-5 text-red-500" />;
       default:
@@ -75,8 +86,8 @@ const DomainDetailPage = () => {
   };
 
   // Format date
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -267,6 +278,14 @@ const DomainDetailPage = () => {
                       <p className="text-sm text-muted-foreground">
                         {domain.sslStatus === 'valid'
                           ? 'SSL certificate is valid and secure'
+                          : domain.sslStatus === 'expiring'
+                          ? 'SSL certificate expires soon and renewal is failing'
+                          : domain.sslStatus === 'expired'
+                          ? 'SSL certificate has expired'
+                          : domain.sslStatus === 'failed'
+                          ? 'SSL certificate could not be issued'
+                          : domain.sslStatus === 'revoked'
+                          ? 'SSL certificate was revoked'
                           : domain.sslStatus === 'invalid'
                           ? 'SSL certificate is invalid or expired'
                           : 'SSL certificate is pending issuance'
@@ -283,7 +302,10 @@ const DomainDetailPage = () => {
           </div>
 
           {isCustomDomain && (
-            <DomainVerification domain={domain} />
+            <div className="space-y-6">
+              <DomainVerification domain={domain} />
+              <DomainCertificates domain={domain} />
+            </div>
           )}
         </TabsContent>
         
@@ -1,18 +1,36 @@
-import React from "react";
+import React, { useState } from "react";
 import { Helmet } from "react-helmet";
+import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useVendorStore } from "@/contexts/VendorStoreContext";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Mail, Send, Megaphone, Gift, Tag, SearchCode, MessageSquare, BarChart } from "lucide-react";
+import { Mail, Send, Megaphone, Gift, Tag, SearchCode, MessageSquare, BarChart, Loader2 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import PromotionForm, { type Promotion } from "@/components/marketing/PromotionForm";
+import PromotionList from "@/components/marketing/PromotionList";
 
 const MarketingPage: React.FC = () => {
   const { user } = useAuth();
   const { activeVendor } = useVendorStore();
   const { toast } = useToast();
+  const [isCreatePromotionOpen, setIsCreatePromotionOpen] = useState(false);
+
+  const vendorId = user?.role === 'vendor' ? user.id : undefined;
+
+  const { data: promotions = [], isLoading: isLoadingPromotions } = useQuery<Promotion[]>({
+    queryKey: [`/api/vendors/${vendorId}/promotions`],
+    enabled: !!vendorId,
+  });
 
   const handleCreateCampaign = () => {
     toast({
@@ -139,74 +157,41 @@ const MarketingPage: React.FC = () => {
 
         <TabsContent value="promotions">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle>Promotions & Discounts</CardTitle>
+              <Button onClick={() => setIsCreatePromotionOpen(true)} disabled={!vendorId}>
+                <Gift className="mr-2 h-4 w-4" />
+                Create New Promotion
+              </Button>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                <div className="bg-white p-6 rounded-lg border border-gray-200 hover:border-primary hover:shadow-md transition-all">
-                  <div className="mb-4 flex justify-between items-start">
-                    <div>
-                      <h3 className="text-lg font-semibold">Monsoon Sale</h3>
-                      <p className="text-gray-500 text-sm">Valid until Sep 30, 2023</p>
-                    </div>
-                    <span className="px-2 py-1 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
-                      Active
-                    </span>
-                  </div>
-                  <p className="text-gray-700 mb-2 font-medium">30% off on all products</p>
-                  <p className="text-gray-500 mb-4 text-sm">Coupon code: <span className="font-mono bg-gray-100 px-2 py-0.5 rounded">MONSOON30</span></p>
-                  <div className="flex items-center justify-between text-sm text-gray-500">
-                    <span>Used: 245 times</span>
-                    <span>Revenue: ₹38,450</span>
-                  </div>
-                </div>
-
-                <div className="bg-white p-6 rounded-lg border border-gray-200 hover:border-primary hover:shadow-md transition-all">
-                  <div className="mb-4 flex justify-between items-start">
-                    <div>
-                      <h3 className="text-lg font-semibold">New Customer Discount</h3>
-                      <p className="text-gray-500 text-sm">Valid until Dec 31, 2023</p>
-                    </div>
-                    <span className="px-2 py-1 bg-amber-100 text-amber-800 rounded-full text-xs font-medium">
-                      Active
-                    </span>
-                  </div>
-                  <p className="text-gray-700 mb-2 font-medium">15% off on first purchase</p>
-                  <p className="text-gray-500 mb-4 text-sm">Coupon code: <span className="font-mono bg-gray-100 px-2 py-0.5 rounded">WELCOME15</span></p>
-                  <div className="flex items-center justify-between text-sm text-gray-500">
-                    <span>Used: 187 times</span>
-                    <span>Revenue: ₹22,640</span>
-                  </div>
+              {isLoadingPromotions ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
                 </div>
-
-                <div className="bg-white p-6 rounded-lg border border-gray-200 hover:border-primary hover:shadow-md transition-all">
-                  <div className="mb-4 flex justify-between items-start">
-                    <div>
-                      <h3 className="text-lg font-semibold">Festive Season Offer</h3>
-                      <p className="text-gray-500 text-sm">Starting Oct 15, 2023</p>
-                    </div>
-                    <span className="px-2 py-1 bg-gray-100 text-gray-800 rounded-full text-xs font-medium">
-                      Scheduled
-                    </span>
-                  </div>
-                  <p className="text-gray-700 mb-2 font-medium">Buy 1 Get 1 Free on select items</p>
-                  <p className="text-gray-500 mb-4 text-sm">Coupon code: <span className="font-mono bg-gray-100 px-2 py-0.5 rounded">FESTIVE2023</span></p>
-                  <div className="flex items-center justify-between text-sm text-gray-500">
-                    <Button variant="outline" size="sm">Edit</Button>
-                    <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700 hover:bg-red-50">Cancel</Button>
-                  </div>
-                </div>
-              </div>
-
-              <div className="flex justify-center mt-8">
-                <Button>
-                  <Gift className="mr-2 h-4 w-4" />
-                  Create New Promotion
-                </Button>
-              </div>
+              ) : vendorId ? (
+                <PromotionList promotions={promotions} vendorId={vendorId} />
+              ) : (
+                <p className="text-center text-muted-foreground py-8">
+                  Promotions are managed from a vendor account.
+                </p>
+              )}
             </CardContent>
           </Card>
+
+          <Dialog open={isCreatePromotionOpen} onOpenChange={setIsCreatePromotionOpen}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create Promotion</DialogTitle>
+                <DialogDescription>
+                  Customers enter the code in their cart to get the discount.
+                </DialogDescription>
+              </DialogHeader>
+              {vendorId && (
+                <PromotionForm vendorId={vendorId} onSuccess={() => setIsCreatePromotionOpen(false)} />
+              )}
+            </DialogContent>
+          </Dialog>
         </TabsContent>
 
         <TabsContent value="seo">
@@ -37,9 +37,15 @@ import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 
 import DashboardHeader from "@/components/shared/DashboardHeader";
-import PaymentMethodList from "@/components/payments/PaymentMethodList";
+import PaymentMethodList, { type PaymentMethod } from "@/components/payments/PaymentMethodList";
 import PaymentMethodForm from "@/components/payments/PaymentMethodForm";
-import PaymentProviderForm from "@/components/payments/PaymentProviderForm";
+import PaymentProviderForm, { type ProviderSettings } from "@/components/payments/PaymentProviderForm";
+
+type CommissionSettings = {
+  baseFeePercentage: string;
+  transactionFeeFlat: string;
+  thresholds: { monthlyRevenue: string; feePercentage: string }[];
+};
 
 const PaymentSettingsPage = () => {
   const { user } = useAuth();
@@ -52,7 +58,7 @@ const PaymentSettingsPage = () => {
     data: paymentMethods = [],
     isLoading: isLoadingMethods,
     error: methodsError 
-  } = useQuery({
+  } = useQuery<PaymentMethod[]>({
     queryKey: ["/api/vendors", user?.id, "payment-methods"],
     enabled: !!user?.id,
   });
@@ -61,7 +67,7 @@ const PaymentSettingsPage = () => {
   const { 
     data: stripeSettings,
     isLoading: isLoadingStripe,
-  } = useQuery({
+  } = useQuery<ProviderSettings>({
     queryKey: ["/api/vendors", user?.id, "payment-providers", "stripe"],
     enabled: !!user?.id,
   });
@@ -69,17 +75,25 @@ const PaymentSettingsPage = () => {
   const { 
     data: paypalSettings,
     isLoading: isLoadingPaypal,
-  } = useQuery({
+  } = useQuery<ProviderSettings>({
     queryKey: ["/api/vendors", user?.id, "payment-providers", "paypal"],
     enabled: !!user?.id,
   });
   
+  const { 
+    data: razorpaySettings,
+    isLoading: isLoadingRazorpay,
+  } = useQuery<ProviderSettings>({
+    queryKey: ["/api/vendors", user?.id, "payment-providers", "razorpay"],
+    enabled: !!user?.id,
+  });
+  
   // Fetch vendor commission settings
   const { 
     data: commissionSettings,
     isLoading: isLoadingCommissionSettings,
     error: commissionError 
-  } = useQuery({
+  } = useQuery<CommissionSettings>({
     queryKey: ["/api/payments/commission-settings"],
     enabled: !!user?.id,
   });
@@ -103,7 +117,7 @@ const PaymentSettingsPage = () => {
     defaultValues: {
       baseFeePercentage: commissionSettings?.baseFeePercentage || "2.9",
       transactionFeeFlat: commissionSettings?.transactionFeeFlat || "0.30",
-      thresholds: commissionSettings?.thresholds || [
+      thresholds: commissionSettings?.thresholds.map(({ monthlyRevenue, feePercentage }) => ({ minAmount: monthlyRevenue, feePercentage })) || [
         { minAmount: "1000", feePercentage: "2.5" },
         { minAmount: "10000", feePercentage: "2.2" },
         { minAmount: "50000", feePercentage: "1.9" },
@@ -111,7 +125,7 @@ const PaymentSettingsPage = () => {
     },
   });
   
-  const isLoading = isLoadingMethods || isLoadingStripe || isLoadingPaypal || isLoadingCommissionSettings;
+  const isLoading = isLoadingMethods || isLoadingStripe || isLoadingPaypal || isLoadingRazorpay || isLoadingCommissionSettings;
   
   if (isLoading) {
     return (
@@ -120,6 +134,10 @@ const PaymentSettingsPage = () => {
       </div>
     );
   }
+
+  if (!user) {
+    return null;
+  }
   
   if (methodsError || commissionError) {
     toast({
@@ -163,7 +181,7 @@ const PaymentSettingsPage = () => {
                   </DialogDescription>
                 </DialogHeader>
                 <PaymentMethodForm
-                  vendorId={user?.id}
+                  vendorId={user.id}
                   onSuccess={() => setIsAddMethodOpen(false)}
                 />
               </DialogContent>
@@ -172,7 +190,7 @@ const PaymentSettingsPage = () => {
           
           <PaymentMethodList 
             methods={paymentMethods || []} 
-            vendorId={user?.id}
+            vendorId={user.id}
           />
         </TabsContent>
         
@@ -191,12 +209,12 @@ const PaymentSettingsPage = () => {
                   <h4 className="text-sm font-medium mb-1">Status: {stripeSettings?.isActive ? "Connected" : "Not Connected"}</h4>
                   {stripeSettings?.isActive && (
                     <p className="text-sm text-muted-foreground">
-                      Connected with account ending in {stripeSettings.configData?.publicKey?.slice(-4)}
+                      Connected with publishable key {stripeSettings.credentials?.publishableKey}
                     </p>
                   )}
                 </div>
                 <PaymentProviderForm 
-                  vendorId={user?.id}
+                  vendorId={user.id}
                   provider="stripe"
                   existingSettings={stripeSettings}
                 />
@@ -217,18 +235,44 @@ const PaymentSettingsPage = () => {
                   <h4 className="text-sm font-medium mb-1">Status: {paypalSettings?.isActive ? "Connected" : "Not Connected"}</h4>
                   {paypalSettings?.isActive && (
                     <p className="text-sm text-muted-foreground">
-                      Connected with account ID {paypalSettings.configData?.clientId?.slice(-6)}
+                      Connected with client ID {paypalSettings.credentials?.clientId}
                     </p>
                   )}
                 </div>
                 <PaymentProviderForm 
-                  vendorId={user?.id}
+                  vendorId={user.id}
                   provider="paypal"
                   existingSettings={paypalSettings}
                 />
               </div>
             </CardContent>
           </Card>
+          
+          <Card>
+            <CardHeader>
+              <CardTitle>Razorpay Integration</CardTitle>
+              <CardDescription>
+                Connect your Razorpay account to accept UPI, card and netbanking payments.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center">
+                <div className="flex-1">
+                  <h4 className="text-sm font-medium mb-1">Status: {razorpaySettings?.isActive ? "Connected" : "Not Connected"}</h4>
+                  {razorpaySettings?.isActive && (
+                    <p className="text-sm text-muted-foreground">
+                      Connected with key ID {razorpaySettings.credentials?.keyId}
+                    </p>
+                  )}
+                </div>
+                <PaymentProviderForm 
+                  vendorId={user.id}
+                  provider="razorpay"
+                  existingSettings={razorpaySettings}
+                />
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
         
         {/* Fees & Commission Tab */}
@@ -268,7 +312,7 @@ const PaymentSettingsPage = () => {
                       <div key={index} className="grid grid-cols-2 gap-4 p-3 border rounded-md">
                         <div>
                           <div className="text-xs text-muted-foreground">Monthly Sales</div>
-                          <div className="font-medium">${threshold.minAmount}+</div>
+                          <div className="font-medium">${threshold.monthlyRevenue}+</div>
                         </div>
                         <div>
                           <div className="text-xs text-muted-foreground">Fee</div>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
@@ -34,6 +34,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Helmet } from "react-helmet";
 import EnhancedProductForm from "@/components/products/enhanced/EnhancedProductForm";
+import VariantSelector from "@/components/products/VariantSelector";
+import type { ProductVariant } from "@shared/schema";
 
 interface ProductDetailsProps {
   id: string;
@@ -42,9 +44,8 @@ interface ProductDetailsProps {
 interface Product {
   id: number;
   name: string;
-  colors: { id: number; name: string; hex: string; imageUrl?: string }[];
-  defaultImage: string;
-  price?: string;
+  featuredImageUrl: string | null;
+  sellingPrice?: string;
   vendorId?: number;
   // Add other product fields as needed
 }
@@ -55,9 +56,8 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
   const { toast } = useToast();
   const { user } = useAuth(); // Get current logged in user
 
-  const [selectedColor, setSelectedColor] = useState<string | null>(null);
-  const [hoveredColor, setHoveredColor] = useState<string | null>(null);
-  const [selectedSize, setSelectedSize] = useState<string | null>(null);
+  const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(null);
+  const [optionImage, setOptionImage] = useState<string | null>(null);
 
   const {
     data: product,
@@ -69,11 +69,9 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
     refetchOnWindowFocus: false,
   });
 
-  useEffect(() => {
-    if (product?.colors?.length && !selectedColor) {
-      setSelectedColor(product.colors[0].hex);
-    }
-  }, [product, selectedColor]);
+  const { data: variants = [] } = useQuery<ProductVariant[]>({
+    queryKey: [`/api/products/${id}/variants`],
+  });
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
@@ -123,29 +121,18 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
     );
   }
 
-  const getImageForColor = (colorHex: string | null) => {
-    if (!colorHex) return product.defaultImage;
-    const colorObj = product.colors.find((c) => c.hex === colorHex);
-    return colorObj?.imageUrl || product.defaultImage;
-  };
-
-  // Get the current display image based on hover or selection
-  const getCurrentDisplayImage = () => {
-    if (hoveredColor) {
-      return getImageForColor(hoveredColor);
-    }
-    return getImageForColor(selectedColor);
-  };
+  // The picture for the hovered or chosen option value, falling back to the product's
+  const getCurrentDisplayImage = () => optionImage || product.featuredImageUrl || undefined;
 
   // Get cart context
   const cartContext = useCartContext();
 
   // Add to Cart handler
   const handleAddToCart = () => {
-    if (!selectedColor || !selectedSize) {
+    if (variants.length > 0 && !selectedVariant) {
       toast({
         title: "Selection Required",
-        description: "Please select both color and size before adding to cart.",
+        description: "Please choose from the available options before adding to cart.",
         variant: "destructive",
       });
       return;
@@ -155,13 +142,12 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
     const cartItem = {
       productId: product.id,
       name: product.name,
-      price: product.price || "0.00", // Assuming product has a price field
+      price: selectedVariant?.sellingPrice || product.sellingPrice || "0.00",
       quantity: 1,
-      imageUrl: getImageForColor(selectedColor),
-      variant: `${selectedSize} / ${product.colors.find(c => c.hex === selectedColor)?.name || selectedColor}`,
-      colorHex: selectedColor,
-      size: selectedSize,
-      vendorId: product.vendorId || 1 // Assuming product has a vendorId field
+      imageUrl: selectedVariant?.imageUrl || getCurrentDisplayImage() || null,
+      variantId: selectedVariant?.id ?? null,
+      variant: selectedVariant?.title ?? null,
+      vendorId: product.vendorId || 1
     };
 
     // Add to cart through context (works for both guest and authenticated users)
@@ -183,85 +169,6 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
     toast({ title: "Purchase Started", description: "Proceeding to checkout." });
   };
 
-  // Product variants tab component
-  const ProductVariantsTab = ({
-    product,
-    selectedColor,
-    onColorChange,
-    user,
-  }: {
-    product: Product;
-    selectedColor: string | null;
-    onColorChange: (color: string) => void;
-    user: any;
-  }) => {
-    const sizes = ["S", "M", "L", "XL", "XXL"]; // Example sizes, typically from product data
-    
-    return (
-      <div className="space-y-4">
-        <div className="flex gap-4">
-          {product.colors.map((color) => (
-            <button
-              key={color.id}
-              aria-label={`Select color ${color.name}`}
-              style={{
-                backgroundColor: color.hex,
-                border:
-                  selectedColor === color.hex ? "3px solid #000" : "1px solid #ccc",
-              }}
-              className="w-8 h-8 rounded-full"
-              onClick={() => onColorChange(color.hex)}
-              onMouseEnter={() => setHoveredColor(color.hex)}
-              onMouseLeave={() => setHoveredColor(null)}
-            />
-          ))}
-        </div>
-        
-        <div className="space-y-2">
-          <label className="text-sm font-medium">Size:</label>
-          <div className="flex gap-2">
-            {sizes.map((size) => (
-              <button
-                key={size}
-                className={`px-3 py-1 border rounded-md ${
-                  selectedSize === size 
-                    ? "border-black bg-black text-white" 
-                    : "border-gray-300 hover:border-gray-500"
-                }`}
-                onClick={() => setSelectedSize(size)}
-              >
-                {size}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        <div>
-          <img
-            src={getCurrentDisplayImage()}
-            alt={`Product in selected color`}
-            className="w-64 h-64 object-contain border"
-          />
-        </div>
-
-        <div className="flex gap-4">
-          <Button onClick={handleAddToCart}>
-            Add to Cart
-          </Button>
-          <Button disabled={!user} onClick={handleBuyNow}>
-            Buy Now
-          </Button>
-        </div>
-
-        {!user && (
-          <p className="text-red-600 text-sm mt-2">
-            Please sign in to buy this product.
-          </p>
-        )}
-      </div>
-    );
-  };
-
   return (
     <DashboardLayout title={`${product.name} | Product Details`}>
       <Helmet>
@@ -332,12 +239,36 @@ const ProductDetails = ({ id }: ProductDetailsProps) => {
         </TabsContent>
 
         <TabsContent value="variants" className="space-y-6">
-          <ProductVariantsTab
-            product={product}
-            selectedColor={selectedColor}
-            onColorChange={setSelectedColor}
-            user={user}
-          />
+          <div className="space-y-4">
+            <VariantSelector
+              productId={product.id}
+              onVariantChange={setSelectedVariant}
+              onImageChange={setOptionImage}
+            />
+
+            <div>
+              <img
+                src={getCurrentDisplayImage()}
+                alt={selectedVariant?.title ? `${product.name} in ${selectedVariant.title}` : product.name}
+                className="w-64 h-64 object-contain border"
+              />
+            </div>
+
+            <div className="flex gap-4">
+              <Button onClick={handleAddToCart}>
+                Add to Cart
+              </Button>
+              <Button disabled={!user} onClick={handleBuyNow}>
+                Buy Now
+              </Button>
+            </div>
+
+            {!user && (
+              <p className="text-red-600 text-sm mt-2">
+                Please sign in to buy this product.
+              </p>
+            )}
+          </div>
         </TabsContent>
 
         <TabsContent value="seo" className="space-y-6">
@@ -5,15 +5,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useAuth } from '@/hooks/use-auth';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
-import { Package, Search, FolderTree, PlusCircle } from 'lucide-react';
+import { Package, Search, FolderTree, PlusCircle, FileSpreadsheet } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import EnhancedProductDialog from '@/components/products/enhanced/EnhancedProductDialog';
+import ProductImportDialog from '@/components/products/ProductImportDialog';
 
 const ProductsPage = () => {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [_, navigate] = useLocation();
   const [isAddProductOpen, setIsAddProductOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedProductId, setSelectedProductId] = useState<number | undefined>(undefined);
   const vendorId = user?.role === 'vendor' ? user.id : undefined;
   
@@ -60,12 +62,24 @@ const ProductsPage = () => {
             </Button>
           </Link>
         </div>
-        <Button onClick={() => setIsAddProductOpen(true)}>
-          <PlusCircle className="mr-2 h-4 w-4" />
-          Add Product
-        </Button>
+        <div className="flex items-center gap-2">
+          {vendorId && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Import / Export
+            </Button>
+          )}
+          <Button onClick={() => setIsAddProductOpen(true)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Add Product
+          </Button>
+        </div>
       </div>
       
+      {vendorId && (
+        <ProductImportDialog vendorId={vendorId} open={isImportOpen} onOpenChange={setIsImportOpen} />
+      )}
+
       {/* Add Product Dialog */}
       <EnhancedProductDialog
         open={isAddProductOpen}
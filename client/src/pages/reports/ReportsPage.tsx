@@ -1,4 +1,5 @@
-import React from "react";
+import React, { useState } from "react";
+import { format, startOfYear, subDays } from "date-fns";
 import { Helmet } from "react-helmet";
 import DashboardLayout from "@/components/layout/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,7 +15,8 @@ import {
   Users,
   TrendingUp,
   TrendingDown,
-  BarChart2
+  BarChart2,
+  FileText
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -24,17 +26,56 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import ReportExportDialog from "@/components/reports/ReportExportDialog";
+import RecentReports from "@/components/reports/RecentReports";
+import ReportSchedules from "@/components/reports/ReportSchedules";
+
+type ReportPeriod = "7days" | "30days" | "90days" | "year" | "12months";
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  "7days": "Last 7 days",
+  "30days": "Last 30 days",
+  "90days": "Last 90 days",
+  year: "This year",
+  "12months": "Last 12 months",
+};
+
+const periodStart = (period: ReportPeriod, now: Date): Date => {
+  switch (period) {
+    case "7days":
+      return subDays(now, 6);
+    case "30days":
+      return subDays(now, 29);
+    case "90days":
+      return subDays(now, 89);
+    case "year":
+      return startOfYear(now);
+    case "12months":
+      return subDays(now, 364);
+  }
+};
 
 const ReportsPage: React.FC = () => {
   const { user } = useAuth();
   const { activeVendor } = useVendorStore();
   const { toast } = useToast();
+  const [period, setPeriod] = useState<ReportPeriod>("30days");
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const now = new Date();
+  const fromDate = format(periodStart(period, now), "yyyy-MM-dd");
+  const toDate = format(now, "yyyy-MM-dd");
 
   const handleDownloadReport = () => {
-    toast({
-      title: "Feature Coming Soon",
-      description: "Report downloading will be available in a future update.",
-    });
+    if (!activeVendor) {
+      toast({
+        title: "No store selected",
+        description: "Choose a store to export its reports.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsExportOpen(true);
   };
 
   return (
@@ -46,16 +87,14 @@ const ReportsPage: React.FC = () => {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-3xl font-bold">Business Reports</h1>
         <div className="flex space-x-2">
-          <Select defaultValue="30days">
+          <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
             <SelectTrigger className="w-40">
               <SelectValue placeholder="Time period" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="7days">Last 7 days</SelectItem>
-              <SelectItem value="30days">Last 30 days</SelectItem>
-              <SelectItem value="90days">Last 90 days</SelectItem>
-              <SelectItem value="year">This year</SelectItem>
-              <SelectItem value="all">All time</SelectItem>
+              {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map((value) => (
+                <SelectItem key={value} value={value}>{PERIOD_LABELS[value]}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           <Button onClick={handleDownloadReport}>
@@ -165,6 +204,10 @@ const ReportsPage: React.FC = () => {
             <Users className="h-4 w-4 mr-2" />
             Customer Insights
           </TabsTrigger>
+          <TabsTrigger value="exports">
+            <FileText className="h-4 w-4 mr-2" />
+            Exports & Schedules
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="sales">
@@ -631,7 +674,41 @@ const ReportsPage: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="exports">
+          {activeVendor && (
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recent Exports</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <RecentReports vendorId={activeVendor.id} />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Scheduled Reports</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReportSchedules vendorId={activeVendor.id} />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </TabsContent>
       </Tabs>
+
+      {activeVendor && (
+        <ReportExportDialog
+          vendorId={activeVendor.id}
+          from={fromDate}
+          to={toDate}
+          periodLabel={PERIOD_LABELS[period]}
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+        />
+      )}
     </DashboardLayout>
   );
 };
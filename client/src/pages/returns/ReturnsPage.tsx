@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import DashboardLayout from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, Search } from 'lucide-react';
+import ReturnCard, { type ReturnRequest } from '@/components/orders/ReturnCard';
+
+const ReturnsPage = () => {
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  // Returns waiting on the vendor come first
+  const [statusFilter, setStatusFilter] = useState('requested');
+
+  const vendorId = user?.role === 'vendor' ? user.id : undefined;
+
+  // Fetch vendor's returns, newest first
+  const { data: returns = [], isLoading } = useQuery<ReturnRequest[]>({
+    queryKey: [`/api/vendors/${vendorId}/returns`],
+    enabled: !!vendorId,
+  });
+
+  const filteredReturns = returns.filter(returnRequest =>
+    (statusFilter === 'all' || returnRequest.status === statusFilter) &&
+    (searchQuery === '' ||
+     returnRequest.rmaNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
+     returnRequest.orderNumber?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+     returnRequest.customer?.email.toLowerCase().includes(searchQuery.toLowerCase()))
+  );
+
+  return (
+    <DashboardLayout title="Returns" subtitle="Review and process customer returns">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+            <div>
+              <CardTitle>Returns</CardTitle>
+              <CardDescription>Approve returns to refund customers, then check the items back in</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="requested">Requested</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by RMA, order number or customer email..."
+              className="pl-8"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <div key={i} className="h-24 bg-muted rounded-md animate-pulse"></div>
+              ))}
+            </div>
+          ) : filteredReturns.length > 0 ? (
+            <div className="space-y-4">
+              {filteredReturns.map((returnRequest) => (
+                <ReturnCard key={returnRequest.id} returnRequest={returnRequest} />
+              ))}
+              <div className="py-4 text-center text-sm text-muted-foreground">
+                Showing {filteredReturns.length} of {returns.length} returns
+              </div>
+            </div>
+          ) : (
+            <div className="py-12 text-center">
+              <RotateCcw className="mx-auto h-12 w-12 text-muted-foreground/30" />
+              <h3 className="mt-4 text-lg font-semibold">No returns found</h3>
+              <p className="mt-2 text-sm text-muted-foreground">
+                {searchQuery || statusFilter !== 'all'
+                  ? 'Try adjusting your search or filter to find what you\'re looking for.'
+                  : 'When customers ask to return items, they will appear here.'}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  );
+};
+
+export default ReturnsPage;
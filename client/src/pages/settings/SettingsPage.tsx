@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -12,9 +13,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { Separator } from '@/components/ui/separator';
-import { CalendarIcon, Check, Save } from 'lucide-react';
+import EmailTemplateList from '@/components/email/EmailTemplateList';
+import EmailOutboxTable from '@/components/email/EmailOutboxTable';
+import { CalendarIcon, Check, Loader2, Save, Send } from 'lucide-react';
 
 // Form validation schema
 const generalSettingsSchema = z.object({
@@ -38,16 +41,42 @@ const apiKeysSchema = z.object({
 const emailSettingsSchema = z.object({
   emailHost: z.string().min(1, 'SMTP host is required'),
   emailPort: z.coerce.number().int('Port must be a number'),
-  emailUser: z.string().min(1, 'SMTP username is required'),
-  emailPassword: z.string().min(1, 'SMTP password is required'),
+  emailSecure: z.boolean(),
+  emailUser: z.string().optional(),
+  // Left empty, the saved password is kept
+  emailPassword: z.string().optional(),
   emailFromAddress: z.string().email('Please enter a valid email address'),
   emailFromName: z.string().min(1, 'From name is required'),
 });
 
+interface EmailSettingsResponse {
+  settings: {
+    host: string;
+    port: number;
+    secure: boolean;
+    username: string | null;
+    hasPassword: boolean;
+    fromAddress: string;
+    fromName: string;
+  } | null;
+  transport: 'sink' | 'settings' | 'environment' | 'console';
+}
+
+const EMAIL_SETTINGS_KEY = ['/api/admin/email-settings'];
+
+// Where email goes right now, which isn't the form's server until it's saved
+const TRANSPORT_NOTES: Record<EmailSettingsResponse['transport'], string> = {
+  sink: 'Emails are going to the local SMTP sink (SMTP_SINK_PORT) and are not delivered.',
+  settings: 'Emails are sent through the mail server below.',
+  environment: 'Emails are sent through the mail server in the EMAIL_* environment variables until one is saved here.',
+  console: 'No mail server is set up: emails are only written to the server log.',
+};
+
 const SettingsPage = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [testRecipient, setTestRecipient] = useState(user?.email ?? '');
   
   // General settings form
   const generalForm = useForm({
@@ -75,15 +104,52 @@ const SettingsPage = () => {
   const emailForm = useForm({
     resolver: zodResolver(emailSettingsSchema),
     defaultValues: {
-      emailHost: 'smtp.hostinger.com',
+      emailHost: '',
       emailPort: 465,
-      emailUser: 'verification@lelekart.com',
+      emailSecure: true,
+      emailUser: '',
       emailPassword: '',
-      emailFromAddress: 'verification@lelekart.com',
+      emailFromAddress: '',
       emailFromName: 'MultiVend Platform',
     },
   });
 
+  const { data: emailSettings } = useQuery<EmailSettingsResponse>({ queryKey: EMAIL_SETTINGS_KEY });
+
+  // Fill the form with the saved mail server once it's loaded
+  useEffect(() => {
+    const settings = emailSettings?.settings;
+    if (!settings) return;
+    emailForm.reset({
+      emailHost: settings.host,
+      emailPort: settings.port,
+      emailSecure: settings.secure,
+      emailUser: settings.username ?? '',
+      emailPassword: '',
+      emailFromAddress: settings.fromAddress,
+      emailFromName: settings.fromName,
+    });
+  }, [emailSettings]);
+
+  const testEmailMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/admin/email-settings/test', { to: testRecipient });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Test email sent",
+        description: `Check ${testRecipient} for it.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Test email failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Save general settings
   const onSaveGeneralSettings = async (data) => {
     setIsLoading(true);
@@ -128,7 +194,16 @@ const SettingsPage = () => {
   const onSaveEmailSettings = async (data) => {
     setIsLoading(true);
     try {
-      await apiRequest('POST', '/api/settings/email', data);
+      const res = await apiRequest('PUT', '/api/admin/email-settings', {
+        host: data.emailHost,
+        port: data.emailPort,
+        secure: data.emailSecure,
+        username: data.emailUser || null,
+        password: data.emailPassword || undefined,
+        fromAddress: data.emailFromAddress,
+        fromName: data.emailFromName,
+      });
+      queryClient.setQueryData(EMAIL_SETTINGS_KEY, await res.json());
       toast({
         title: "Email settings updated",
         description: "Your email settings have been saved successfully.",
@@ -136,7 +211,7 @@ const SettingsPage = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "There was an error saving your email settings. Please try again.",
+        description: error instanceof Error ? error.message : "There was an error saving your email settings. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -393,12 +468,15 @@ const SettingsPage = () => {
           <Card>
             <CardHeader>
               <CardTitle>Email Settings</CardTitle>
-              <CardDescription>Configure email server settings and templates</CardDescription>
+              <CardDescription>Configure the mail server the platform sends email through</CardDescription>
             </CardHeader>
             <form onSubmit={emailForm.handleSubmit(onSaveEmailSettings)}>
               <CardContent className="space-y-4">
                 <div className="space-y-4">
                   <h3 className="text-lg font-medium">SMTP Configuration</h3>
+                  {emailSettings && (
+                    <p className="text-sm text-muted-foreground">{TRANSPORT_NOTES[emailSettings.transport]}</p>
+                  )}
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div className="space-y-2">
@@ -443,7 +521,7 @@ const SettingsPage = () => {
                       <Input 
                         id="emailPassword" 
                         type="password" 
-                        placeholder="••••••••" 
+                        placeholder={emailSettings?.settings?.hasPassword ? 'Saved (leave empty to keep it)' : '••••••••'} 
                         {...emailForm.register('emailPassword')} 
                       />
                       {emailForm.formState.errors.emailPassword && (
@@ -475,58 +553,48 @@ const SettingsPage = () => {
                         <p className="text-sm text-red-500">{emailForm.formState.errors.emailFromName.message}</p>
                       )}
                     </div>
-                  </div>
-                </div>
-
-                <Separator className="my-4" />
 
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <h3 className="text-lg font-medium">Test Email Configuration</h3>
-                      <p className="text-sm text-muted-foreground">Send a test email to verify your settings</p>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="emailSecure"
+                        checked={emailForm.watch('emailSecure')}
+                        onCheckedChange={(checked) => emailForm.setValue('emailSecure', checked)}
+                      />
+                      <Label htmlFor="emailSecure">Connect over TLS (usually port 465)</Label>
                     </div>
-                    <Button type="button" variant="outline">
-                      Send Test Email
-                    </Button>
                   </div>
                 </div>
 
                 <Separator className="my-4" />
 
                 <div className="space-y-4">
-                  <h3 className="text-lg font-medium">Email Templates</h3>
-                  
-                  <div className="grid grid-cols-1 gap-4">
-                    <div className="bg-gray-50 p-4 rounded-md">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium">Welcome Email</h4>
-                        <Button type="button" variant="outline" size="sm">
-                          Edit Template
-                        </Button>
-                      </div>
-                      <p className="text-sm text-muted-foreground">Sent to new users when they register an account</p>
-                    </div>
-
-                    <div className="bg-gray-50 p-4 rounded-md">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium">Password Reset</h4>
-                        <Button type="button" variant="outline" size="sm">
-                          Edit Template
-                        </Button>
-                      </div>
-                      <p className="text-sm text-muted-foreground">Sent when users request a password reset</p>
-                    </div>
-
-                    <div className="bg-gray-50 p-4 rounded-md">
-                      <div className="flex items-center justify-between mb-2">
-                        <h4 className="font-medium">OTP Verification</h4>
-                        <Button type="button" variant="outline" size="sm">
-                          Edit Template
-                        </Button>
-                      </div>
-                      <p className="text-sm text-muted-foreground">Sent with one-time password for account verification</p>
-                    </div>
+                  <div className="space-y-0.5">
+                    <h3 className="text-lg font-medium">Test Email Configuration</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Send a test email through the current mail server to check it works
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="email"
+                      placeholder="you@example.com"
+                      value={testRecipient}
+                      onChange={(e) => setTestRecipient(e.target.value)}
+                      className="max-w-sm"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={!testRecipient || testEmailMutation.isPending}
+                      onClick={() => testEmailMutation.mutate()}
+                    >
+                      {testEmailMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="mr-2 h-4 w-4" />
+                      )}
+                      Send Test Email
+                    </Button>
                   </div>
                 </div>
               </CardContent>
@@ -544,6 +612,30 @@ const SettingsPage = () => {
               </CardFooter>
             </form>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Email Templates</CardTitle>
+              <CardDescription>
+                The platform's wording for each email. Vendors can reword the emails their customers get.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailTemplateList baseUrl="/api/admin/email-templates" resetLabel="the built-in wording" />
+            </CardContent>
+          </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Outbox</CardTitle>
+              <CardDescription>
+                Emails are retried after 1, 2, 4… minutes and marked failed after 5 attempts.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <EmailOutboxTable />
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </DashboardLayout>
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { Loader2, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+import DashboardHeader from "@/components/shared/DashboardHeader";
+import ShippingZoneForm, { type ShippingZone } from "@/components/shipping/ShippingZoneForm";
+import ShippingZoneList from "@/components/shipping/ShippingZoneList";
+
+const ShippingSettingsPage = () => {
+  const { user } = useAuth();
+  const [isAddZoneOpen, setIsAddZoneOpen] = useState(false);
+
+  const vendorId = user?.role === 'vendor' ? user.id : undefined;
+
+  // Fetch vendor shipping zones with their rates
+  const { data: zones = [], isLoading } = useQuery<ShippingZone[]>({
+    queryKey: [`/api/vendors/${vendorId}/shipping-zones`],
+    enabled: !!vendorId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6">
+      <DashboardHeader
+        title="Shipping Settings"
+        description="Choose where you ship to and what customers pay for delivery"
+        action={
+          <Dialog open={isAddZoneOpen} onOpenChange={setIsAddZoneOpen}>
+            <DialogTrigger asChild>
+              <Button disabled={!vendorId}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Shipping Zone
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Add Shipping Zone</DialogTitle>
+                <DialogDescription>
+                  A zone groups the addresses that share the same shipping rates.
+                </DialogDescription>
+              </DialogHeader>
+              {vendorId && (
+                <ShippingZoneForm vendorId={vendorId} onSuccess={() => setIsAddZoneOpen(false)} />
+              )}
+            </DialogContent>
+          </Dialog>
+        }
+      />
+
+      {vendorId && <ShippingZoneList zones={zones} vendorId={vendorId} />}
+    </div>
+  );
+};
+
+export default ShippingSettingsPage;
@@ -5,6 +5,9 @@ import { useVendorStore } from '@/contexts/VendorStoreContext';
 import { Loader2, ShoppingBag, ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import CategoryNav from '@/components/store/CategoryNav';
+import { useCartContext } from '@/contexts/CartContext';
+import { usePageView, useProductViewTracking } from '@/hooks/use-storefront-tracking';
+import { trackStorefrontEvent } from '@/lib/storefrontTracking';
 
 interface Category {
   id: number;
@@ -54,6 +57,25 @@ export default function CategoryPage() {
   const category = data?.category as Category;
   const subcategories = data?.subcategories as Category[] || [];
   const products = data?.products as Product[] || [];
+
+  const { addToCart } = useCartContext();
+  usePageView(vendor?.id);
+  const trackProductView = useProductViewTracking(vendor?.id);
+
+  const handleAddToCart = (product: Product) => {
+    if (!vendor) return;
+    addToCart({
+      productId: product.id,
+      name: product.name,
+      price: product.price,
+      quantity: 1,
+      imageUrl: product.imageUrl,
+      variantId: null,
+      variant: null,
+      vendorId: vendor.id
+    });
+    trackStorefrontEvent(vendor.id, { type: 'add_to_cart', productId: product.id });
+  };
   
   if (vendorLoading || isLoading) {
     return (
@@ -134,7 +156,7 @@ export default function CategoryPage() {
           {products.length > 0 ? (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
               {products.map(product => (
-                <div key={product.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
+                <div key={product.id} ref={trackProductView(product.id)} className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
                   <div className="aspect-square bg-gray-100 relative">
                     {product.imageUrl ? (
                       <img 
@@ -167,7 +189,7 @@ export default function CategoryPage() {
                         <span className="ml-2 text-sm text-gray-500 line-through">₹{product.compareAtPrice}</span>
                       )}
                     </div>
-                    <Button className="w-full mt-3 text-sm" size="sm">Add to Cart</Button>
+                    <Button className="w-full mt-3 text-sm" size="sm" onClick={() => handleAddToCart(product)}>Add to Cart</Button>
                   </div>
                 </div>
               ))}
@@ -6,10 +6,12 @@ import { Separator } from '@/components/ui/separator';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import StoreDesignForm from '@/components/store/StoreDesignForm';
+import EmailTemplateList from '@/components/email/EmailTemplateList';
 
 const StoreDesignPage = () => {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState('theme');
+  const vendorId = user?.role === 'vendor' ? user.id : undefined;
   
   // Fetch vendor data
   const { data: vendor } = useQuery({
@@ -20,7 +22,7 @@ const StoreDesignPage = () => {
   // Update active tab based on URL hash
   useEffect(() => {
     const hash = window.location.hash.replace('#', '');
-    if (hash && ['theme', 'branding', 'settings'].includes(hash)) {
+    if (hash && ['theme', 'branding', 'settings', 'emails'].includes(hash)) {
       setActiveTab(hash);
     }
   }, []);
@@ -37,15 +39,16 @@ const StoreDesignPage = () => {
         <CardHeader>
           <CardTitle>Store Appearance</CardTitle>
           <CardDescription>
-            Customize your store's theme, branding, and appearance
+            Customize your store's theme, branding, appearance, and the emails your customers get
           </CardDescription>
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3 h-auto mb-6">
+            <TabsList className="grid w-full grid-cols-4 h-auto mb-6">
               <TabsTrigger value="theme">Theme</TabsTrigger>
               <TabsTrigger value="branding">Branding</TabsTrigger>
               <TabsTrigger value="settings">Advanced Settings</TabsTrigger>
+              <TabsTrigger value="emails">Emails</TabsTrigger>
             </TabsList>
             
             <TabsContent value="theme">
@@ -86,6 +89,24 @@ const StoreDesignPage = () => {
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="emails">
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-lg font-medium mb-2">Customer Emails</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Reword the emails your customers get. They're sent with your logo and colors.
+                  </p>
+                  <Separator className="my-6" />
+                  {vendorId && (
+                    <EmailTemplateList
+                      baseUrl={`/api/vendors/${vendorId}/email-templates`}
+                      resetLabel="the platform's wording"
+                    />
+                  )}
+                </div>
+              </div>
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
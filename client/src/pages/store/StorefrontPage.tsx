@@ -7,6 +7,9 @@ import { Loader2, ShoppingBag, ShoppingCart, User, LogOut } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import CategoryNav from '@/components/store/CategoryNav';
+import { useCartContext } from '@/contexts/CartContext';
+import { usePageView, useProductViewTracking } from '@/hooks/use-storefront-tracking';
+import { trackStorefrontEvent } from '@/lib/storefrontTracking';
 
 interface Product {
   id: number;
@@ -41,6 +44,25 @@ export default function StorefrontPage() {
     enabled: !!isVendorStore && !!vendor,
   });
 
+  const { addToCart } = useCartContext();
+  usePageView(vendor?.id);
+  const trackProductView = useProductViewTracking(vendor?.id);
+
+  const handleAddToCart = (product: Product) => {
+    if (!vendor) return;
+    addToCart({
+      productId: product.id,
+      name: product.name,
+      price: product.price,
+      quantity: 1,
+      imageUrl: product.imageUrl,
+      variantId: null,
+      variant: null,
+      vendorId: vendor.id
+    });
+    trackStorefrontEvent(vendor.id, { type: 'add_to_cart', productId: product.id });
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -191,7 +213,7 @@ export default function StorefrontPage() {
             ) : products.length > 0 ? (
               <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                 {products.map((product) => (
-                  <div key={product.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
+                  <div key={product.id} ref={trackProductView(product.id)} className="bg-white border border-gray-200 rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-shadow">
                     <div className="aspect-square bg-gray-100 relative">
                       {product.imageUrl ? (
                         <img 
@@ -219,7 +241,7 @@ export default function StorefrontPage() {
                             <span className="text-sm text-gray-500 line-through ml-2">${product.compareAtPrice}</span>
                           )}
                         </div>
-                        <Button size="sm" variant="outline" className="rounded-full p-2">
+                        <Button size="sm" variant="outline" className="rounded-full p-2" onClick={() => handleAddToCart(product)}>
                           <ShoppingCart className="h-4 w-4" />
                         </Button>
                       </div>
@@ -56,9 +56,8 @@ export default function TestCartPage() {
         price: "29.99",
         quantity: 1,
         imageUrl: null,
-        variant: "M / Red",
-        colorHex: "#ff0000",
-        size: "M",
+        variantId: null,
+        variant: null,
         vendorId: 1
       });
       
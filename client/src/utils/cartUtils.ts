@@ -7,7 +7,7 @@ export function localToServerCartItem(item: LocalCartItem) {
   return {
     productId: item.productId,
     quantity: item.quantity,
-    variant: item.variant,
+    variantId: item.variantId,
     vendorId: item.vendorId
   };
 }
@@ -22,9 +22,8 @@ export function serverToLocalCartItems(serverItems: any[]): Omit<LocalCartItem,
     price: item.price,
     quantity: item.quantity,
     imageUrl: item.imageUrl,
+    variantId: item.variantId ?? null,
     variant: item.variant,
-    colorHex: null, // Server doesn't store this separately
-    size: null, // Server doesn't store this separately
     vendorId: item.vendorId || 1
   }));
 }
@@ -35,10 +34,10 @@ export function serverToLocalCartItems(serverItems: any[]): Omit<LocalCartItem,
  * @param serverItems Server cart items
  */
 export function mergeCartItems(localItems: LocalCartItem[], serverItems: any[]): LocalCartItem[] {
-  // Create a map to easily look up server items by productId and variant
+  // Create a map to easily look up server items by productId and variantId
   const serverItemMap = new Map();
   serverItems.forEach(item => {
-    const key = `${item.productId}-${item.variant || ''}`;
+    const key = `${item.productId}-${item.variantId ?? ''}`;
     serverItemMap.set(key, item);
   });
   
@@ -52,13 +51,13 @@ export function mergeCartItems(localItems: LocalCartItem[], serverItems: any[]):
   const result = [...serverItemsConverted];
   
   localItems.forEach(localItem => {
-    const key = `${localItem.productId}-${localItem.variant || ''}`;
+    const key = `${localItem.productId}-${localItem.variantId ?? ''}`;
     const serverItem = serverItemMap.get(key);
     
     if (serverItem) {
       // Item exists in server cart, find it in our result and update quantity
       const index = result.findIndex(item => 
-        item.productId === localItem.productId && item.variant === localItem.variant
+        item.productId === localItem.productId && item.variantId === localItem.variantId
       );
       
       if (index !== -1) {
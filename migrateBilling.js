@@ -0,0 +1,35 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Record why a vendor was suspended, so stores suspended for an unpaid
+ * subscription can be brought back once it is paid
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add vendor suspension reasons...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE vendors ADD COLUMN IF NOT EXISTS suspension_reason TEXT;
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS invoices_vendor_id_idx ON invoices (vendor_id);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
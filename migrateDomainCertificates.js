@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the tables for issuing custom domains' TLS certificates over ACME:
+ * the certificates, the platform's ACME accounts and pending HTTP-01
+ * challenges
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add domain certificates...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS domain_certificates (
+        id SERIAL PRIMARY KEY,
+        domain_id INTEGER NOT NULL REFERENCES domains(id) ON DELETE CASCADE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        certificate_pem TEXT,
+        private_key_pem TEXT,
+        serial_number TEXT,
+        issuer TEXT,
+        order_url TEXT,
+        last_error TEXT,
+        issued_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        expiry_warning_sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS acme_accounts (
+        id SERIAL PRIMARY KEY,
+        directory_url TEXT NOT NULL UNIQUE,
+        email TEXT,
+        account_url TEXT,
+        private_key_pem TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS acme_challenges (
+        id SERIAL PRIMARY KEY,
+        token TEXT NOT NULL UNIQUE,
+        key_authorization TEXT NOT NULL,
+        domain_name TEXT NOT NULL,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
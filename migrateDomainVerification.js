@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Add why a domain's last ownership check failed and when it was first
+ * proven. Storefronts are only served on verified domains, so platform
+ * subdomains that were already live (which have nothing to prove) are
+ * marked verified.
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add domain verification...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE domains
+      ADD COLUMN IF NOT EXISTS verification_error TEXT,
+      ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP;
+    `);
+    await pool.query(`
+      UPDATE domains
+      SET verified_at = COALESCE(last_checked_at, created_at)
+      WHERE verification_status = 'verified' AND verified_at IS NULL;
+    `);
+    await pool.query(`
+      UPDATE domains
+      SET verification_status = 'verified', verified_at = COALESCE(verified_at, created_at)
+      WHERE type = 'subdomain' AND status = 'active' AND verification_status IS DISTINCT FROM 'verified';
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,88 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the tables for transactional email: vendors' and the platform's own
+ * template wording, the outbox emails are sent from, and the mail server
+ * settings
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add the email outbox and templates...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS email_templates (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER REFERENCES vendors(id),
+        template TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS email_templates_vendor_template_idx ON email_templates (vendor_id, template);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS email_outbox (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER REFERENCES vendors(id),
+        template TEXT NOT NULL,
+        dedupe_key TEXT UNIQUE,
+        to_address TEXT NOT NULL,
+        subject TEXT NOT NULL,
+        html TEXT NOT NULL,
+        text TEXT NOT NULL,
+        attachments JSONB,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        message_id TEXT,
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      ALTER TABLE email_outbox
+      ADD COLUMN IF NOT EXISTS attachments JSONB;
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS email_outbox_status_next_attempt_idx ON email_outbox (status, next_attempt_at);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS email_settings (
+        id SERIAL PRIMARY KEY,
+        host TEXT NOT NULL,
+        port INTEGER NOT NULL DEFAULT 465,
+        secure BOOLEAN NOT NULL DEFAULT true,
+        username TEXT,
+        password TEXT,
+        from_address TEXT NOT NULL,
+        from_name TEXT NOT NULL,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
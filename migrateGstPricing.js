@@ -0,0 +1,49 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Add the GST columns carts and orders are priced with: whether a vendor's
+ * prices include GST and the state they're registered in, and the CGST,
+ * SGST and IGST split on orders and their items
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add GST pricing...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE vendors
+      ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN DEFAULT true,
+      ADD COLUMN IF NOT EXISTS business_state TEXT;
+    `);
+    await pool.query(`
+      ALTER TABLE orders
+      ADD COLUMN IF NOT EXISTS cgst NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS sgst NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS igst NUMERIC DEFAULT '0';
+    `);
+    await pool.query(`
+      ALTER TABLE order_items
+      ADD COLUMN IF NOT EXISTS tax_rate NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS tax_amount NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS cgst NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS sgst NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS igst NUMERIC DEFAULT '0';
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,47 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the table recording uploaded images and their resized renditions
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add image assets...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS image_assets (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER REFERENCES vendors(id),
+        user_id INTEGER REFERENCES users(id),
+        storage TEXT NOT NULL,
+        key TEXT NOT NULL,
+        url TEXT NOT NULL,
+        mime_type TEXT NOT NULL,
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        dominant_color TEXT,
+        renditions JSONB NOT NULL DEFAULT '[]',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS image_assets_url_idx ON image_assets (url);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Record on each order item the variant its stock was taken from, so
+ * cancelling the order puts the stock back on that variant
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add variants to order items...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE order_items
+      ADD COLUMN IF NOT EXISTS variant_id INTEGER REFERENCES product_variants(id);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
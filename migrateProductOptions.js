@@ -0,0 +1,149 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+async function columnExists(client, table, column) {
+  const result = await client.query(`
+    SELECT EXISTS (
+      SELECT FROM information_schema.columns
+      WHERE table_schema = 'public'
+      AND table_name = $1
+      AND column_name = $2
+    );
+  `, [table, column]);
+  return result.rows[0].exists;
+}
+
+/**
+ * Move product variants from fixed color/size columns to generic product
+ * options. Each product with variants gets a "Color" and a "Size" option made
+ * from the values its variants use, every variant is keyed by the matching
+ * option values, and cart lines get the variant their label pointed at.
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  const client = await pool.connect();
+
+  console.log('Running migration to generic product options...');
+
+  try {
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS product_options (
+        id SERIAL PRIMARY KEY,
+        product_id INTEGER NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS product_option_values (
+        id SERIAL PRIMARY KEY,
+        option_id INTEGER NOT NULL REFERENCES product_options(id) ON DELETE CASCADE,
+        value TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        swatch TEXT,
+        image_url TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(`
+      ALTER TABLE product_variants
+      ADD COLUMN IF NOT EXISTS option_value_ids INTEGER[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS title TEXT;
+    `);
+    await client.query(`
+      ALTER TABLE cart_items
+      ADD COLUMN IF NOT EXISTS variant_id INTEGER REFERENCES product_variants(id);
+    `);
+
+    if (await columnExists(client, 'product_variants', 'color')) {
+      const { rows: variants } = await client.query(`
+        SELECT id, product_id, color, size
+        FROM product_variants
+        ORDER BY product_id, position, id
+      `);
+
+      const byProduct = new Map();
+      for (const variant of variants) {
+        if (!byProduct.has(variant.product_id)) byProduct.set(variant.product_id, []);
+        byProduct.get(variant.product_id).push(variant);
+      }
+
+      for (const [productId, productVariants] of byProduct) {
+        const existing = await client.query('SELECT 1 FROM product_options WHERE product_id = $1', [productId]);
+        if (existing.rows.length > 0) {
+          console.log(`Product ${productId} already has options, skipping`);
+          continue;
+        }
+
+        // Option values keep the order variants first used them in
+        const valueIds = {};
+        for (const [position, field, name] of [[0, 'color', 'Color'], [1, 'size', 'Size']]) {
+          const { rows: [option] } = await client.query(
+            'INSERT INTO product_options (product_id, name, position) VALUES ($1, $2, $3) RETURNING id',
+            [productId, name, position]
+          );
+          valueIds[field] = new Map();
+          const values = [...new Set(productVariants.map(variant => variant[field]))];
+          for (const [valuePosition, value] of values.entries()) {
+            const { rows: [created] } = await client.query(
+              'INSERT INTO product_option_values (option_id, value, position) VALUES ($1, $2, $3) RETURNING id',
+              [option.id, value, valuePosition]
+            );
+            valueIds[field].set(value, created.id);
+          }
+        }
+
+        for (const variant of productVariants) {
+          await client.query(
+            'UPDATE product_variants SET option_value_ids = $1, title = $2 WHERE id = $3',
+            [
+              [valueIds.color.get(variant.color), valueIds.size.get(variant.size)],
+              `${variant.color} / ${variant.size}`,
+              variant.id,
+            ]
+          );
+        }
+      }
+      console.log(`Created options for ${byProduct.size} products`);
+
+      // The storefront labelled cart lines "size / color", "color / size" or with a bare variant id
+      const linked = await client.query(`
+        UPDATE cart_items ci
+        SET variant_id = pv.id, variant = pv.title
+        FROM product_variants pv
+        WHERE ci.variant_id IS NULL
+        AND ci.variant IS NOT NULL
+        AND pv.product_id = ci.product_id
+        AND (
+          lower(ci.variant) = lower(pv.size || ' / ' || pv.color)
+          OR lower(ci.variant) = lower(pv.color || ' / ' || pv.size)
+          OR ci.variant = pv.id::text
+        )
+      `);
+      console.log(`Linked ${linked.rowCount} cart items to their variants`);
+
+      await client.query('ALTER TABLE product_variants DROP COLUMN color, DROP COLUMN size');
+      console.log('Dropped color and size columns');
+    }
+
+    await client.query('COMMIT');
+    console.log('Migration successful!');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Migration failed:', error);
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create vendors' promotions (discount codes) and the orders that redeemed
+ * them, and let carts carry a code and its discount
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add promotions...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS promotions (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        name TEXT NOT NULL,
+        code TEXT NOT NULL,
+        type TEXT NOT NULL,
+        value NUMERIC DEFAULT '0',
+        min_subtotal NUMERIC,
+        buy_quantity INTEGER,
+        get_quantity INTEGER,
+        product_ids INTEGER[],
+        category_ids INTEGER[],
+        usage_limit INTEGER,
+        usage_limit_per_customer INTEGER,
+        usage_count INTEGER DEFAULT 0,
+        starts_at TIMESTAMP,
+        ends_at TIMESTAMP,
+        is_active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS promotions_vendor_code_idx ON promotions (vendor_id, code);
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS promotion_redemptions (
+        id SERIAL PRIMARY KEY,
+        promotion_id INTEGER NOT NULL REFERENCES promotions(id),
+        order_id INTEGER NOT NULL REFERENCES orders(id),
+        customer_id INTEGER REFERENCES customers(id),
+        discount NUMERIC NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      ALTER TABLE carts
+      ADD COLUMN IF NOT EXISTS discount NUMERIC DEFAULT '0',
+      ADD COLUMN IF NOT EXISTS promotion_code TEXT;
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,37 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Add what prorated plan changes need: a credit balance and a pending change
+ * on subscriptions, and line items on invoices
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add plan change proration...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE platform_subscriptions
+        ADD COLUMN IF NOT EXISTS credit_balance NUMERIC NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS pending_plan_change JSONB;
+    `);
+    await pool.query(`
+      ALTER TABLE invoices ADD COLUMN IF NOT EXISTS lines JSONB;
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
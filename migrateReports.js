@@ -0,0 +1,73 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the tables for generated report files and for reports emailed on
+ * a schedule
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add reports...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS report_jobs (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+        user_id INTEGER REFERENCES users(id),
+        schedule_id INTEGER,
+        type TEXT NOT NULL,
+        format TEXT NOT NULL,
+        range_from TIMESTAMP NOT NULL,
+        range_to TIMESTAMP NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        row_count INTEGER,
+        file_name TEXT,
+        storage_key TEXT,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        expires_at TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS report_jobs_vendor_created_idx ON report_jobs (vendor_id, created_at);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS report_schedules (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+        user_id INTEGER REFERENCES users(id),
+        type TEXT NOT NULL,
+        format TEXT NOT NULL,
+        frequency TEXT NOT NULL,
+        recipients TEXT[] NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        last_run_at TIMESTAMP,
+        last_job_id INTEGER,
+        next_run_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS report_schedules_next_run_idx ON report_schedules (next_run_at);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,63 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create return requests (RMAs) and the items on them, and link order
+ * timeline events to the return they're about
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add returns...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS return_requests (
+        id SERIAL PRIMARY KEY,
+        order_id INTEGER NOT NULL REFERENCES orders(id),
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        customer_id INTEGER REFERENCES customers(id),
+        rma_number TEXT NOT NULL UNIQUE,
+        status TEXT NOT NULL DEFAULT 'requested',
+        reason TEXT NOT NULL,
+        comment TEXT,
+        vendor_note TEXT,
+        refund_amount NUMERIC DEFAULT '0',
+        refund_transaction_id INTEGER,
+        requested_by INTEGER REFERENCES users(id),
+        approved_at TIMESTAMP,
+        rejected_at TIMESTAMP,
+        received_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS return_items (
+        id SERIAL PRIMARY KEY,
+        return_id INTEGER NOT NULL REFERENCES return_requests(id) ON DELETE CASCADE,
+        order_item_id INTEGER NOT NULL REFERENCES order_items(id),
+        quantity INTEGER NOT NULL,
+        restocked_quantity INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    await pool.query(`
+      ALTER TABLE order_events
+      ADD COLUMN IF NOT EXISTS return_id INTEGER;
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
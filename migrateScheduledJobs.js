@@ -0,0 +1,68 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the tables the job scheduler keeps its jobs and their run history
+ * in. Jobs are added by the server when it starts.
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add scheduled jobs...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT,
+        cron_expression TEXT NOT NULL,
+        is_enabled BOOLEAN NOT NULL DEFAULT true,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        next_run_at TIMESTAMP NOT NULL,
+        run_requested_at TIMESTAMP,
+        last_run_at TIMESTAMP,
+        last_succeeded_at TIMESTAMP,
+        last_status TEXT,
+        last_error TEXT,
+        last_duration_ms INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS job_runs (
+        id SERIAL PRIMARY KEY,
+        job_name TEXT NOT NULL,
+        trigger TEXT NOT NULL,
+        attempt INTEGER NOT NULL DEFAULT 1,
+        status TEXT NOT NULL DEFAULT 'running',
+        instance_id TEXT,
+        result JSONB,
+        error TEXT,
+        started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        finished_at TIMESTAMP,
+        duration_ms INTEGER
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS job_runs_job_started_idx ON job_runs (job_name, started_at);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,68 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create vendors' shipping zones and the rates offered in them, and record
+ * the rate picked on carts and orders
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add shipping zones and rates...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS shipping_zones (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        name TEXT NOT NULL,
+        countries TEXT[],
+        states TEXT[],
+        postal_codes TEXT[],
+        position INTEGER DEFAULT 0,
+        is_active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS shipping_rates (
+        id SERIAL PRIMARY KEY,
+        zone_id INTEGER NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        amount NUMERIC DEFAULT '0',
+        free_above NUMERIC,
+        tiers JSONB,
+        min_delivery_days INTEGER,
+        max_delivery_days INTEGER,
+        is_active BOOLEAN DEFAULT true,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      ALTER TABLE carts
+      ADD COLUMN IF NOT EXISTS shipping_rate_id INTEGER;
+    `);
+    await pool.query(`
+      ALTER TABLE orders
+      ADD COLUMN IF NOT EXISTS shipping_rate_id INTEGER,
+      ADD COLUMN IF NOT EXISTS shipping_method TEXT;
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
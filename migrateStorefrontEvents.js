@@ -0,0 +1,54 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the table of storefront events and make `analytics` hold one row
+ * per vendor per day, which the rollup job rewrites
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add storefront events...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS storefront_events (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id) ON DELETE CASCADE,
+        session_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        path TEXT,
+        product_id INTEGER,
+        step TEXT,
+        occurred_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS storefront_events_vendor_occurred_idx ON storefront_events (vendor_id, occurred_at);
+    `);
+
+    // Seeded rows may share a day; keep the newest of each before adding the unique index
+    await pool.query(`
+      DELETE FROM analytics a
+      USING analytics b
+      WHERE a.vendor_id = b.vendor_id AND a.date = b.date AND a.id < b.id;
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS analytics_vendor_date_idx ON analytics (vendor_id, date);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
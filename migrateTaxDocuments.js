@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Add what GST tax invoices need: vendor GSTIN and address, HSN codes on
+ * products and order items, the order's place of supply, document number
+ * sequences and the generated documents themselves
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add tax invoice documents...');
+
+  try {
+    await pool.query(`
+      ALTER TABLE vendors
+        ADD COLUMN IF NOT EXISTS gstin TEXT,
+        ADD COLUMN IF NOT EXISTS business_address TEXT;
+    `);
+    await pool.query(`ALTER TABLE products ADD COLUMN IF NOT EXISTS hsn_code TEXT;`);
+    await pool.query(`ALTER TABLE order_items ADD COLUMN IF NOT EXISTS hsn_code TEXT;`);
+    await pool.query(`ALTER TABLE orders ADD COLUMN IF NOT EXISTS place_of_supply TEXT;`);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS document_sequences (
+        id SERIAL PRIMARY KEY,
+        scope TEXT NOT NULL,
+        financial_year TEXT NOT NULL,
+        last_number INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS document_sequences_scope_year_idx
+        ON document_sequences (scope, financial_year);
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS tax_documents (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER NOT NULL REFERENCES vendors(id),
+        type TEXT NOT NULL,
+        order_id INTEGER REFERENCES orders(id),
+        invoice_id INTEGER REFERENCES invoices(id),
+        document_number TEXT NOT NULL,
+        financial_year TEXT NOT NULL,
+        issued_at TIMESTAMP NOT NULL,
+        storage_key TEXT NOT NULL,
+        shows_payment BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS tax_documents_order_idx ON tax_documents (order_id);`);
+    await pool.query(`CREATE UNIQUE INDEX IF NOT EXISTS tax_documents_invoice_idx ON tax_documents (invoice_id);`);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the table recording raw file uploads, so they count towards each
+ * vendor's storage quota
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add uploaded files...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS uploaded_files (
+        id SERIAL PRIMARY KEY,
+        vendor_id INTEGER REFERENCES vendors(id),
+        user_id INTEGER REFERENCES users(id),
+        key TEXT NOT NULL UNIQUE,
+        url TEXT NOT NULL,
+        mime_type TEXT,
+        size INTEGER NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS uploaded_files_vendor_id_idx ON uploaded_files (vendor_id);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
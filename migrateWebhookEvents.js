@@ -0,0 +1,57 @@
+import dotenv from 'dotenv';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+
+dotenv.config();
+
+// Set the WebSocket constructor for Neon database
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Create the table of received payment gateway webhook events, which stops
+ * an event being applied twice when it is delivered again
+ */
+async function runMigration() {
+  const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+  console.log('Running migration to add webhook events...');
+
+  try {
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id SERIAL PRIMARY KEY,
+        provider TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'processing',
+        attempts INTEGER NOT NULL DEFAULT 1,
+        error TEXT,
+        payload JSONB NOT NULL,
+        received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        claimed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        processed_at TIMESTAMP
+      );
+    `);
+    await pool.query(`
+      ALTER TABLE webhook_events
+      ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+    `);
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_provider_event_idx ON webhook_events (provider, event_id);
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS invoices_gateway_invoice_id_idx ON invoices (gateway_invoice_id);
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS transactions_gateway_transaction_id_idx ON transactions (gateway_transaction_id);
+    `);
+
+    console.log('Migration successful!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigration();
@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+
+dotenv.config();
+
+/**
+ * Sign a Stripe event fixture with the local webhook secret and deliver it,
+ * the way Stripe would:
+ *
+ *   node sendStripeWebhook.js fixtures/stripe/invoice.paid.json
+ *   node sendStripeWebhook.js fixtures/stripe/charge.refunded.json --vendor 3 --secret whsec_...
+ *   node sendStripeWebhook.js fixtures/stripe/invoice.paid.json --new-id
+ *
+ * Sending the same fixture twice shows the second delivery being recognised
+ * as a duplicate; --new-id gives the event a fresh ID instead.
+ */
+async function sendWebhook() {
+  const [fixture, ...flags] = process.argv.slice(2);
+  if (!fixture) {
+    console.error('Usage: node sendStripeWebhook.js <fixture.json> [--vendor <id>] [--secret <whsec_...>] [--url <base url>] [--new-id]');
+    process.exit(1);
+  }
+
+  const option = (name) => {
+    const index = flags.indexOf(name);
+    return index === -1 ? undefined : flags[index + 1];
+  };
+  const vendorId = option('--vendor');
+  const secret = option('--secret') || process.env.STRIPE_WEBHOOK_SECRET;
+  const baseUrl = option('--url') || `http://localhost:${process.env.PORT || 5000}`;
+  if (!secret) {
+    console.error('Set STRIPE_WEBHOOK_SECRET or pass --secret');
+    process.exit(1);
+  }
+
+  const event = JSON.parse(fs.readFileSync(path.resolve(fixture), 'utf8'));
+  if (flags.includes('--new-id')) {
+    event.id = `evt_test_${Date.now().toString(36)}`;
+  }
+
+  const payload = JSON.stringify(event);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const url = `${baseUrl}/api/webhooks/stripe${vendorId ? `/vendors/${vendorId}` : ''}`;
+
+  console.log(`Sending ${event.type} (${event.id}) to ${url}...`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+    body: payload
+  });
+  console.log(response.status, await response.text());
+}
+
+sendWebhook().catch((error) => {
+  console.error('Sending webhook failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,400 @@
+import http from "http";
+import https from "https";
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  X509Certificate,
+  type KeyObject
+} from "crypto";
+
+/**
+ * A small ACME (RFC 8555) client: just enough to register an account, order a
+ * certificate with HTTP-01 challenges, download it and revoke it. Works
+ * against Let's Encrypt and against Pebble for offline testing.
+ */
+
+export interface AcmeClientOptions {
+  directoryUrl: string;
+  // PEM of the account's ES256 key
+  accountKeyPem: string;
+  // Set once the account is registered
+  accountUrl?: string | null;
+  // Extra CA to trust for the ACME server's own HTTPS, e.g. Pebble's test CA
+  caCertPem?: string;
+  // How long to wait for challenges and orders to settle
+  pollTimeoutMs?: number;
+}
+
+interface AcmeDirectory {
+  newNonce: string;
+  newAccount: string;
+  newOrder: string;
+  revokeCert: string;
+}
+
+export interface AcmeOrder {
+  status: "pending" | "ready" | "processing" | "valid" | "invalid";
+  identifiers: { type: string; value: string }[];
+  authorizations: string[];
+  finalize: string;
+  certificate?: string;
+  error?: AcmeProblem;
+}
+
+export interface AcmeChallenge {
+  type: string;
+  url: string;
+  token: string;
+  status: "pending" | "processing" | "valid" | "invalid";
+  error?: AcmeProblem;
+}
+
+export interface AcmeAuthorization {
+  status: "pending" | "valid" | "invalid" | "deactivated" | "expired" | "revoked";
+  identifier: { type: string; value: string };
+  challenges: AcmeChallenge[];
+}
+
+interface AcmeProblem {
+  type: string;
+  detail?: string;
+  subproblems?: AcmeProblem[];
+}
+
+interface AcmeResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+/**
+ * An error response from the ACME server, with its problem document
+ */
+export class AcmeError extends Error {
+  public readonly status: number;
+  public readonly type: string;
+
+  constructor(status: number, problem: AcmeProblem | undefined, fallback: string) {
+    const detail = problem?.subproblems?.map(sub => sub.detail).filter(Boolean).join("; ") || problem?.detail;
+    super(detail || fallback);
+    this.name = "AcmeError";
+    this.status = status;
+    this.type = problem?.type ?? "";
+  }
+}
+
+const base64url = (data: Buffer | string) =>
+  (typeof data === "string" ? Buffer.from(data) : data).toString("base64url");
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A new P-256 key, used both for ACME accounts and certificates
+ */
+export function generateKeyPem(): string {
+  const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  return privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+}
+
+// ---- DER encoding, just what a PKCS#10 certificate request needs ----
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining >>= 8) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+const der = (tag: number, ...content: Buffer[]) => {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+};
+
+const derSequence = (...content: Buffer[]) => der(0x30, ...content);
+const derSet = (...content: Buffer[]) => der(0x31, ...content);
+
+function derOid(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const part of rest) {
+    const encoded = [part & 0x7f];
+    for (let value = part >> 7; value > 0; value >>= 7) {
+      encoded.unshift((value & 0x7f) | 0x80);
+    }
+    bytes.push(...encoded);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+const OID_COMMON_NAME = "2.5.4.3";
+const OID_EXTENSION_REQUEST = "1.2.840.113549.1.9.14";
+const OID_SUBJECT_ALT_NAME = "2.5.29.17";
+const OID_ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+
+/**
+ * DER of a certificate signing request for `domains`, the first being the
+ * common name. Every name goes into the subjectAltName extension, which is
+ * what CAs actually check.
+ */
+export function createCsr(keyPem: string, domains: string[]): Buffer {
+  const privateKey = createPrivateKey(keyPem);
+  const publicKeyDer = createPublicKey(privateKey).export({ type: "spki", format: "der" });
+
+  const subject = derSequence(derSet(derSequence(derOid(OID_COMMON_NAME), der(0x0c, Buffer.from(domains[0])))));
+  const altNames = derSequence(...domains.map(domain => der(0x82, Buffer.from(domain))));
+  const extensionRequest = derSequence(
+    derOid(OID_EXTENSION_REQUEST),
+    derSet(derSequence(derSequence(derOid(OID_SUBJECT_ALT_NAME), der(0x04, altNames))))
+  );
+
+  const requestInfo = derSequence(
+    der(0x02, Buffer.from([0])), // version 0
+    subject,
+    publicKeyDer,
+    der(0xa0, extensionRequest)
+  );
+  const signature = sign("sha256", requestInfo, privateKey);
+
+  return derSequence(
+    requestInfo,
+    derSequence(derOid(OID_ECDSA_WITH_SHA256)),
+    der(0x03, Buffer.from([0]), signature)
+  );
+}
+
+export interface CertificateDetails {
+  serialNumber: string;
+  issuer: string;
+  validFrom: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Read the leaf certificate at the start of a PEM chain
+ */
+export function parseCertificate(pem: string): CertificateDetails {
+  const certificate = new X509Certificate(pem);
+  return {
+    serialNumber: certificate.serialNumber,
+    issuer: certificate.issuer,
+    validFrom: new Date(certificate.validFrom),
+    expiresAt: new Date(certificate.validTo)
+  };
+}
+
+export class AcmeClient {
+  private readonly accountKey: KeyObject;
+  private readonly jwk: Record<string, string>;
+  private accountUrl: string | null;
+  private directory: AcmeDirectory | null = null;
+  private nonce: string | null = null;
+
+  constructor(private readonly options: AcmeClientOptions) {
+    this.accountKey = createPrivateKey(options.accountKeyPem);
+    const { crv, kty, x, y } = createPublicKey(this.accountKey).export({ format: "jwk" }) as Record<string, string>;
+    this.jwk = { crv, kty, x, y };
+    this.accountUrl = options.accountUrl ?? null;
+  }
+
+  get accountId(): string | null {
+    return this.accountUrl;
+  }
+
+  /**
+   * The key authorization served for an HTTP-01 challenge token
+   */
+  keyAuthorization(token: string): string {
+    // Members in lexicographic order, as RFC 7638 requires for the thumbprint
+    const { crv, kty, x, y } = this.jwk;
+    const thumbprint = createHash("sha256").update(JSON.stringify({ crv, kty, x, y })).digest();
+    return `${token}.${base64url(thumbprint)}`;
+  }
+
+  /**
+   * Register the account key, or find the account it already belongs to
+   */
+  async register(email?: string | null): Promise<string> {
+    const directory = await this.getDirectory();
+    const response = await this.signedRequest(directory.newAccount, {
+      termsOfServiceAgreed: true,
+      ...(email ? { contact: [`mailto:${email}`] } : {})
+    }, true);
+    this.accountUrl = response.headers.location as string;
+    return this.accountUrl;
+  }
+
+  async createOrder(domains: string[]): Promise<{ url: string; order: AcmeOrder }> {
+    const directory = await this.getDirectory();
+    const response = await this.signedRequest(directory.newOrder, {
+      identifiers: domains.map(value => ({ type: "dns", value }))
+    });
+    return { url: response.headers.location as string, order: JSON.parse(response.body.toString()) };
+  }
+
+  async getOrder(url: string): Promise<AcmeOrder> {
+    return this.postAsGet<AcmeOrder>(url);
+  }
+
+  async getAuthorization(url: string): Promise<AcmeAuthorization> {
+    return this.postAsGet<AcmeAuthorization>(url);
+  }
+
+  /**
+   * Tell the server the challenge response is in place
+   */
+  async respondToChallenge(challengeUrl: string): Promise<void> {
+    await this.signedRequest(challengeUrl, {});
+  }
+
+  /**
+   * Wait for an authorization to be validated; throws if it fails
+   */
+  async waitForAuthorization(url: string): Promise<AcmeAuthorization> {
+    return this.poll(url, (authorization: AcmeAuthorization) => {
+      if (authorization.status === "valid") return true;
+      if (authorization.status !== "pending") {
+        const failed = authorization.challenges.find(challenge => challenge.error);
+        throw new AcmeError(400, failed?.error, `Authorization for ${authorization.identifier.value} is ${authorization.status}`);
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Submit the CSR and wait for the certificate to be issued
+   */
+  async finalizeOrder(orderUrl: string, order: AcmeOrder, csr: Buffer): Promise<AcmeOrder> {
+    await this.signedRequest(order.finalize, { csr: base64url(csr) });
+    return this.poll(orderUrl, (current: AcmeOrder) => {
+      if (current.status === "valid") return true;
+      if (current.status === "invalid") {
+        throw new AcmeError(400, current.error, "The certificate order was rejected");
+      }
+      return false;
+    });
+  }
+
+  /**
+   * The issued certificate followed by its chain, as PEM
+   */
+  async downloadCertificate(url: string): Promise<string> {
+    const response = await this.signedRequest(url, "");
+    return response.body.toString();
+  }
+
+  async revokeCertificate(certificatePem: string, reason = 0): Promise<void> {
+    const directory = await this.getDirectory();
+    const certificate = new X509Certificate(certificatePem);
+    await this.signedRequest(directory.revokeCert, { certificate: base64url(certificate.raw), reason });
+  }
+
+  private async getDirectory(): Promise<AcmeDirectory> {
+    if (!this.directory) {
+      const response = await this.request("GET", this.options.directoryUrl);
+      this.directory = JSON.parse(response.body.toString());
+    }
+    return this.directory!;
+  }
+
+  private async getNonce(): Promise<string> {
+    if (this.nonce) {
+      const nonce = this.nonce;
+      this.nonce = null;
+      return nonce;
+    }
+    const directory = await this.getDirectory();
+    const response = await this.request("HEAD", directory.newNonce);
+    return response.headers["replay-nonce"] as string;
+  }
+
+  private async postAsGet<T>(url: string): Promise<T> {
+    const response = await this.signedRequest(url, "");
+    return JSON.parse(response.body.toString());
+  }
+
+  private async poll<T>(url: string, isDone: (resource: T) => boolean): Promise<T> {
+    const deadline = Date.now() + (this.options.pollTimeoutMs ?? 60000);
+    for (let wait = 500; ; wait = Math.min(wait * 2, 5000)) {
+      const resource = await this.postAsGet<T>(url);
+      if (isDone(resource)) return resource;
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${url}`);
+      }
+      await delay(wait);
+    }
+  }
+
+  /**
+   * POST a JWS-signed request. The payload "" makes it a POST-as-GET. New
+   * accounts are identified by their key, everything else by the account URL.
+   */
+  private async signedRequest(url: string, payload: object | "", useJwk = false, retried = false): Promise<AcmeResponse> {
+    if (!useJwk && !this.accountUrl) {
+      throw new Error("The ACME account hasn't been registered yet");
+    }
+
+    const header = {
+      alg: "ES256",
+      nonce: await this.getNonce(),
+      url,
+      ...(useJwk ? { jwk: this.jwk } : { kid: this.accountUrl })
+    };
+    const protectedHeader = base64url(JSON.stringify(header));
+    const encodedPayload = payload === "" ? "" : base64url(JSON.stringify(payload));
+    const signature = sign("sha256", Buffer.from(`${protectedHeader}.${encodedPayload}`), {
+      key: this.accountKey,
+      dsaEncoding: "ieee-p1363"
+    });
+
+    const response = await this.request("POST", url, JSON.stringify({
+      protected: protectedHeader,
+      payload: encodedPayload,
+      signature: base64url(signature)
+    }));
+
+    if (response.status >= 400) {
+      const problem = response.body.length > 0 ? JSON.parse(response.body.toString()) as AcmeProblem : undefined;
+      // Nonces can go stale; the error carries a fresh one to retry with
+      if (problem?.type === "urn:ietf:params:acme:error:badNonce" && !retried) {
+        return this.signedRequest(url, payload, useJwk, true);
+      }
+      throw new AcmeError(response.status, problem, `ACME request to ${url} failed with HTTP ${response.status}`);
+    }
+    return response;
+  }
+
+  private request(method: string, url: string, body?: string): Promise<AcmeResponse> {
+    const target = new URL(url);
+    const transport = target.protocol === "https:" ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(target, {
+        method,
+        ca: this.options.caCertPem,
+        headers: body === undefined ? {} : {
+          "Content-Type": "application/jose+json",
+          "Content-Length": Buffer.byteLength(body)
+        },
+        timeout: 30000
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", chunk => chunks.push(chunk));
+        res.on("end", () => {
+          const nonce = res.headers["replay-nonce"];
+          if (typeof nonce === "string") {
+            this.nonce = nonce;
+          }
+          resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks) });
+        });
+      });
+      req.on("timeout", () => req.destroy(new Error(`ACME request to ${url} timed out`)));
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+}
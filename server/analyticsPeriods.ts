@@ -0,0 +1,40 @@
+// Date arithmetic shared by the analytics rollup and reports. Everything is
+// in UTC, which is how `analytics` rows are dated.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ANALYTICS_GRANULARITIES = ["day", "week", "month"] as const;
+export type AnalyticsGranularity = typeof ANALYTICS_GRANULARITIES[number];
+
+// Midnight UTC at the start of `date`
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * The start of the day, week or month `date` falls in. Weeks start on
+ * Monday, as Postgres' date_trunc has them.
+ */
+export function startOfBucket(date: Date, granularity: AnalyticsGranularity): Date {
+  const day = startOfUtcDay(date);
+  if (granularity === "week") {
+    // getUTCDay() is 0 on Sunday
+    return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+  if (granularity === "month") {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  return day;
+}
+
+export function nextBucket(start: Date, granularity: AnalyticsGranularity): Date {
+  if (granularity === "month") {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+  return new Date(start.getTime() + (granularity === "week" ? 7 : 1) * DAY_MS);
+}
+
+// "2026-10-05"
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,471 @@
+import Stripe from "stripe";
+import Decimal from "decimal.js";
+import type { Invoice, InvoiceLine, PlatformSubscription, SubscriptionInfo, SubscriptionPlan } from "@shared/schema";
+import { storage } from "./storage";
+import { queueInvoiceDue, queuePaymentFailed, queueStoreSuspended, queueTrialEnding } from "./transactionalEmails";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions the billing job looks after; canceled ones are left alone
+const BILLABLE_STATUSES = ["trialing", "active", "past_due", "unpaid"];
+
+// Why a store was suspended, so only billing's own suspensions are lifted on payment
+export const NON_PAYMENT_SUSPENSION = "non_payment";
+
+export interface DunningConfig {
+  // Days after an invoice falls due to retry its payment, one entry per retry
+  retryScheduleDays: number[];
+  // Days after an invoice falls due before the vendor's store is suspended
+  gracePeriodDays: number;
+  // Days before a trial ends or a period renews to remind the vendor, 0 for no reminders
+  reminderDays: number;
+}
+
+/**
+ * Dunning settings from the environment:
+ * - BILLING_RETRY_DAYS: comma separated days after the due date to retry a failed payment (default "1,3,5,7")
+ * - BILLING_GRACE_DAYS: days after the due date before the store is suspended (default 14)
+ * - BILLING_REMINDER_DAYS: days before a trial ends or a renewal to email the vendor (default 3)
+ */
+export function getDunningConfig(): DunningConfig {
+  const retryScheduleDays = (process.env.BILLING_RETRY_DAYS ?? "1,3,5,7")
+    .split(",")
+    .map(day => parseFloat(day.trim()))
+    .filter(day => Number.isFinite(day) && day >= 0)
+    .sort((a, b) => a - b);
+  const gracePeriodDays = parseFloat(process.env.BILLING_GRACE_DAYS ?? "14");
+  const reminderDays = parseFloat(process.env.BILLING_REMINDER_DAYS ?? "3");
+
+  return {
+    retryScheduleDays,
+    gracePeriodDays: Number.isFinite(gracePeriodDays) && gracePeriodDays >= 0 ? gracePeriodDays : 14,
+    reminderDays: Number.isFinite(reminderDays) && reminderDays >= 0 ? reminderDays : 3,
+  };
+}
+
+export interface ChargeResult {
+  success: boolean;
+  gatewayTransactionId?: string | null;
+  error?: string | null;
+}
+
+// Takes payment for a subscription invoice with the vendor's saved payment method
+export type InvoiceCharger = (invoice: Invoice, subscription: SubscriptionInfo) => Promise<ChargeResult>;
+
+let stripe: Stripe | null = null;
+
+/**
+ * Charge an invoice off-session to the vendor's default card in Stripe.
+ * Fails (without throwing) when there's nothing to charge it to.
+ */
+export const chargeWithStripe: InvoiceCharger = async (invoice, subscription) => {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return { success: false, error: "Card payments aren't configured" };
+  }
+  const methods = await storage.getPaymentMethodsByVendorId(subscription.vendorId);
+  const method = methods.find(method => method.isDefault && method.status !== "inactive" && method.gatewayId)
+    ?? methods.find(method => method.status !== "inactive" && method.gatewayId);
+  if (!invoice.gatewayInvoiceId && (!subscription.stripeCustomerId || !method)) {
+    return { success: false, error: "No payment method on file" };
+  }
+
+  stripe ??= new Stripe(process.env.STRIPE_SECRET_KEY);
+
+  // Invoices Stripe raised for its own subscriptions are paid there
+  if (invoice.gatewayInvoiceId) {
+    try {
+      const paid = await stripe.invoices.pay(invoice.gatewayInvoiceId, { off_session: true });
+      return paid.status === "paid"
+        ? { success: true, gatewayTransactionId: invoice.gatewayInvoiceId }
+        : { success: false, error: `Invoice is ${paid.status}` };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  try {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: new Decimal(invoice.total).times(100).round().toNumber(),
+      currency: (invoice.currency || subscription.plan.currency).toLowerCase(),
+      customer: subscription.stripeCustomerId!,
+      payment_method: method!.gatewayId!,
+      off_session: true,
+      confirm: true,
+      description: `Invoice ${invoice.invoiceNumber}`,
+      metadata: { invoiceId: String(invoice.id), subscriptionId: String(subscription.id) },
+    }, {
+      // One charge per invoice and attempt, however often this is called
+      idempotencyKey: `invoice-${invoice.id}-attempt-${(subscription.paymentFailureCount ?? 0) + 1}`,
+    });
+    return paymentIntent.status === "succeeded"
+      ? { success: true, gatewayTransactionId: paymentIntent.id }
+      : { success: false, gatewayTransactionId: paymentIntent.id, error: `Payment is ${paymentIntent.status}` };
+  } catch (error: any) {
+    return { success: false, gatewayTransactionId: error?.payment_intent?.id ?? null, error: error.message };
+  }
+};
+
+export interface BillingOptions {
+  charge?: InvoiceCharger;
+  config?: DunningConfig;
+}
+
+export interface BillingSummary {
+  trialsEnded: number;
+  invoiced: number;
+  paid: number;
+  failed: number;
+  canceled: number;
+  suspended: number;
+  reminded: number;
+}
+
+export function addBillingCycle(date: Date, billingCycle: string): Date {
+  const next = new Date(date);
+  if (billingCycle === "yearly") {
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+}
+
+function dateStamp(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// What a billing period on a plan costs
+export function planPrice(plan: SubscriptionPlan, billingCycle: string): string {
+  if (billingCycle === "yearly") {
+    return plan.yearlyPrice ?? new Decimal(plan.price).times(12).toFixed(2);
+  }
+  return plan.price;
+}
+
+// What a billing period costs on the subscription's plan
+export function periodPrice(subscription: SubscriptionInfo): string {
+  return subscription.amount || planPrice(subscription.plan, subscription.billingCycle);
+}
+
+/**
+ * The invoice for the billing period starting at `periodStart`, less any
+ * credit the subscription has built up. Its number is derived from the
+ * subscription and period, so a run that stopped halfway finds it again
+ * rather than billing twice.
+ */
+async function invoicePeriod(subscription: SubscriptionInfo, periodStart: Date): Promise<Invoice> {
+  const invoiceNumber = `SUB-${subscription.id}-${dateStamp(periodStart)}`;
+  const existing = await storage.getInvoiceByNumber(invoiceNumber);
+  if (existing) return existing;
+
+  const amount = new Decimal(periodPrice(subscription));
+  const credit = Decimal.min(amount, subscription.creditBalance || "0");
+  const periodEnd = addBillingCycle(periodStart, subscription.billingCycle);
+  const lines: InvoiceLine[] = [{
+    description: `${subscription.plan.name} plan (${subscription.billingCycle}), ${periodStart.toISOString().slice(0, 10)} to ${periodEnd.toISOString().slice(0, 10)}`,
+    amount: amount.toFixed(2),
+  }];
+  if (credit.gt(0)) {
+    lines.push({ description: "Credit from earlier plan changes", amount: credit.neg().toFixed(2) });
+  }
+
+  const invoice = await storage.createInvoice({
+    vendorId: subscription.vendorId,
+    subscriptionId: subscription.id,
+    invoiceNumber,
+    amount: amount.minus(credit).toFixed(2),
+    tax: "0",
+    total: amount.minus(credit).toFixed(2),
+    status: "pending",
+    currency: subscription.currency || subscription.plan.currency,
+    dueDate: periodStart,
+    notes: `${subscription.plan.name} plan, ${dateStamp(periodStart)} to ${dateStamp(periodEnd)}`,
+    lines,
+  });
+  if (credit.gt(0)) {
+    await storage.updateVendorSubscription(subscription.id, {
+      creditBalance: new Decimal(subscription.creditBalance).minus(credit).toFixed(2),
+    });
+  }
+  return invoice;
+}
+
+// Invoices for the subscription still waiting on payment, oldest first
+async function unpaidInvoices(subscription: PlatformSubscription): Promise<Invoice[]> {
+  return (await storage.getInvoicesByVendorId(subscription.vendorId))
+    .filter(invoice => invoice.subscriptionId === subscription.id && ["pending", "overdue"].includes(invoice.status))
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+/**
+ * When the payment for an invoice will next be retried, after `failures`
+ * failed attempts; null once the schedule has run out
+ */
+export function nextRetryAt(invoice: Invoice, failures: number, config: DunningConfig): Date | null {
+  const days = config.retryScheduleDays[failures - 1];
+  return days === undefined ? null : new Date(invoice.dueDate.getTime() + days * DAY_MS);
+}
+
+export function suspensionDate(invoice: Invoice, config: DunningConfig): Date {
+  return new Date(invoice.dueDate.getTime() + config.gracePeriodDays * DAY_MS);
+}
+
+/**
+ * Lift a suspension billing put on a vendor's store, once they've paid
+ * everything that was overdue. Suspensions made by an admin stay.
+ */
+export async function reinstateVendor(vendorId: number, now = new Date(), config: DunningConfig = getDunningConfig()): Promise<void> {
+  const vendor = await storage.getVendor(vendorId);
+  if (vendor?.status !== "suspended" || vendor.suspensionReason !== NON_PAYMENT_SUSPENSION) return;
+
+  const stillOverdue = (await storage.getInvoicesByVendorId(vendorId))
+    .some(invoice => invoice.status === "overdue" && suspensionDate(invoice, config) <= now);
+  if (stillOverdue) return;
+
+  await storage.updateVendor(vendorId, { status: "active", suspensionReason: null, subscriptionStatus: "active" });
+}
+
+/**
+ * Email the vendor that a subscription payment failed, with when it will be
+ * retried and when the store will be suspended
+ */
+export async function sendPaymentReminder(
+  subscription: PlatformSubscription,
+  invoice: Invoice,
+  attempt: { reason?: string | null; nextRetryAt: Date | null },
+  config: DunningConfig = getDunningConfig()
+): Promise<void> {
+  await queuePaymentFailed(subscription, invoice, {
+    reason: attempt.reason,
+    nextRetryAt: attempt.nextRetryAt,
+    suspendAt: suspensionDate(invoice, config),
+  });
+}
+
+/**
+ * Try to take payment for an invoice. Paid invoices bring the subscription
+ * (and a store billing suspended) back; failures put it past due and send the
+ * vendor a reminder. Invoices covered entirely by credit are paid without a
+ * charge.
+ */
+export async function collectInvoice(
+  subscription: SubscriptionInfo,
+  invoice: Invoice,
+  charge: InvoiceCharger,
+  config: DunningConfig
+): Promise<boolean> {
+  const covered = new Decimal(invoice.total).lte(0);
+  const result: ChargeResult = covered ? { success: true } : await charge(invoice, subscription);
+  if (!covered) {
+    await storage.createTransaction({
+      type: "platform_subscription",
+      status: result.success ? "completed" : "failed",
+      amount: invoice.total,
+      currency: invoice.currency,
+      fee: "0",
+      net: invoice.total,
+      vendorId: subscription.vendorId,
+      invoiceId: invoice.id,
+      gatewayTransactionId: result.gatewayTransactionId ?? null,
+      gatewayResponse: result.error ? { error: result.error } : null,
+    });
+  }
+
+  if (result.success) {
+    await storage.updateInvoice(invoice.id, { status: "paid", paidAt: new Date() });
+    await storage.updateVendorSubscription(subscription.id, { status: "active", paymentFailureCount: 0 });
+    await storage.updateVendor(subscription.vendorId, { subscriptionStatus: "active" });
+    await reinstateVendor(subscription.vendorId);
+    return true;
+  }
+
+  const failures = (subscription.paymentFailureCount ?? 0) + 1;
+  await storage.updateInvoice(invoice.id, { status: "overdue" });
+  await storage.updateVendorSubscription(subscription.id, {
+    status: subscription.status === "unpaid" ? "unpaid" : "past_due",
+    paymentFailureCount: failures,
+  });
+  await storage.updateVendor(subscription.vendorId, { subscriptionStatus: "overdue" });
+  await sendPaymentReminder(subscription, invoice, {
+    reason: result.error,
+    nextRetryAt: nextRetryAt(invoice, failures, config),
+  }, config);
+  return false;
+}
+
+/**
+ * Pay one of the vendor's unpaid subscription invoices now, e.g. after
+ * updating their card, rather than waiting for the next retry. Undefined
+ * when the vendor has no such invoice.
+ */
+export async function payInvoice(
+  vendorId: number,
+  invoiceId: number,
+  charge: InvoiceCharger = chargeWithStripe
+): Promise<{ paid: boolean; invoice: Invoice } | undefined> {
+  const subscription = await storage.getVendorSubscription(vendorId);
+  const invoice = subscription && (await unpaidInvoices(subscription)).find(invoice => invoice.id === invoiceId);
+  if (!subscription || !invoice) return undefined;
+
+  const paid = await collectInvoice(subscription, invoice, charge, getDunningConfig());
+  return { paid, invoice: (await storage.getInvoice(invoice.id)) ?? invoice };
+}
+
+// Start the first paid period when a trial runs out
+async function endTrial(subscription: SubscriptionInfo, charge: InvoiceCharger, config: DunningConfig, summary: BillingSummary) {
+  const periodStart = subscription.trialEndsAt!;
+  const periodEnd = addBillingCycle(periodStart, subscription.billingCycle);
+  const invoice = await invoicePeriod(subscription, periodStart);
+  summary.trialsEnded++;
+  summary.invoiced++;
+
+  const started = await storage.updateVendorSubscription(subscription.id, {
+    status: "active",
+    currentPeriodStart: periodStart,
+    currentPeriodEnd: periodEnd,
+    renewalDate: periodEnd,
+  });
+  await storage.updateVendor(subscription.vendorId, { nextBillingDate: periodEnd });
+  (await collectInvoice(started ?? subscription, invoice, charge, config)) ? summary.paid++ : summary.failed++;
+}
+
+// Bill the next period once the current one is over, or end a subscription set to cancel
+async function renew(subscription: SubscriptionInfo, charge: InvoiceCharger, config: DunningConfig, summary: BillingSummary) {
+  const periodStart = subscription.currentPeriodEnd!;
+  if (subscription.cancelAtPeriodEnd) {
+    await storage.updateVendorSubscription(subscription.id, {
+      status: "canceled",
+      canceledAt: subscription.canceledAt ?? periodStart,
+      endDate: periodStart,
+    });
+    summary.canceled++;
+    return;
+  }
+
+  // A plan change made for the end of the period takes effect before it's billed
+  if (subscription.pendingPlanChange) {
+    const { planId, billingCycle } = subscription.pendingPlanChange;
+    const plan = await storage.getSubscriptionPlanById(planId);
+    subscription = (await storage.updateVendorSubscription(subscription.id, {
+      planId,
+      billingCycle,
+      amount: plan ? planPrice(plan, billingCycle) : null,
+      pendingPlanChange: null,
+    })) ?? subscription;
+    await storage.updateVendor(subscription.vendorId, { subscriptionPlanId: planId });
+  }
+
+  const periodEnd = addBillingCycle(periodStart, subscription.billingCycle);
+  const invoice = await invoicePeriod(subscription, periodStart);
+  summary.invoiced++;
+
+  const renewed = await storage.updateVendorSubscription(subscription.id, {
+    currentPeriodStart: periodStart,
+    currentPeriodEnd: periodEnd,
+    renewalDate: periodEnd,
+  });
+  await storage.updateVendor(subscription.vendorId, { nextBillingDate: periodEnd });
+  (await collectInvoice(renewed ?? subscription, invoice, charge, config)) ? summary.paid++ : summary.failed++;
+}
+
+// Retry the oldest unpaid invoice when the schedule says it's time
+async function retryPayment(
+  subscription: SubscriptionInfo,
+  now: Date,
+  charge: InvoiceCharger,
+  config: DunningConfig,
+  summary: BillingSummary
+) {
+  const [invoice] = await unpaidInvoices(subscription);
+  if (!invoice) return;
+
+  const retryAt = nextRetryAt(invoice, subscription.paymentFailureCount ?? 0, config);
+  if (!retryAt || retryAt > now) return;
+
+  (await collectInvoice(subscription, invoice, charge, config)) ? summary.paid++ : summary.failed++;
+}
+
+// What the next period will cost, after any plan change due and credit built up
+async function upcomingPrice(subscription: SubscriptionInfo): Promise<string> {
+  let price = periodPrice(subscription);
+  if (subscription.pendingPlanChange) {
+    const plan = await storage.getSubscriptionPlanById(subscription.pendingPlanChange.planId);
+    if (plan) price = planPrice(plan, subscription.pendingPlanChange.billingCycle);
+  }
+  return Decimal.max(0, new Decimal(price).minus(subscription.creditBalance || "0")).toFixed(2);
+}
+
+// Email the vendor once a trial end or renewal is within the reminder window.
+// The outbox sends each reminder once, however many runs see it.
+async function sendRenewalReminder(subscription: SubscriptionInfo, now: Date, config: DunningConfig, summary: BillingSummary) {
+  if (config.reminderDays <= 0) return;
+  const horizon = now.getTime() + config.reminderDays * DAY_MS;
+  const upcoming = (date: Date | null): date is Date => !!date && date > now && date.getTime() <= horizon;
+
+  if (subscription.status === "trialing" && upcoming(subscription.trialEndsAt)) {
+    if (await queueTrialEnding(subscription, await upcomingPrice(subscription))) summary.reminded++;
+  } else if (subscription.status === "active" && !subscription.cancelAtPeriodEnd && upcoming(subscription.currentPeriodEnd)) {
+    if (await queueInvoiceDue(subscription, await upcomingPrice(subscription), subscription.currentPeriodEnd)) summary.reminded++;
+  }
+}
+
+// Suspend the store once an invoice has gone unpaid for the whole grace period
+async function suspendIfOverdue(subscription: SubscriptionInfo, now: Date, config: DunningConfig, summary: BillingSummary) {
+  const [invoice] = await unpaidInvoices(subscription);
+  if (!invoice || suspensionDate(invoice, config) > now) return;
+
+  const vendor = await storage.getVendor(subscription.vendorId);
+  if (!vendor || vendor.status === "suspended") return;
+
+  await storage.updateVendor(vendor.id, {
+    status: "suspended",
+    suspensionReason: NON_PAYMENT_SUSPENSION,
+    subscriptionStatus: "overdue",
+  });
+  await storage.updateVendorSubscription(subscription.id, { status: "unpaid" });
+  summary.suspended++;
+
+  await queueStoreSuspended(vendor.id, invoice);
+}
+
+/**
+ * One pass of subscription billing:
+ * - trials that have ended start their first paid period
+ * - periods that have ended are invoiced and renewed (or canceled, if set to)
+ * - failed payments are retried on the dunning schedule, emailing the vendor each time
+ * - vendors are reminded before their trial ends or their subscription renews
+ * - stores with an invoice unpaid past the grace period are suspended
+ *
+ * Subscriptions billed by Stripe are renewed and retried there (and kept in
+ * step by its webhooks), so only the grace period applies to them.
+ */
+export async function runBilling(now = new Date(), options: BillingOptions = {}): Promise<BillingSummary> {
+  const charge = options.charge ?? chargeWithStripe;
+  const config = options.config ?? getDunningConfig();
+  const summary: BillingSummary = { trialsEnded: 0, invoiced: 0, paid: 0, failed: 0, canceled: 0, suspended: 0, reminded: 0 };
+
+  for (const subscription of await storage.getVendorSubscriptionsByStatus(BILLABLE_STATUSES)) {
+    try {
+      if (!subscription.stripeSubscriptionId) {
+        if (subscription.status === "trialing" && subscription.trialEndsAt && subscription.trialEndsAt <= now) {
+          await endTrial(subscription, charge, config, summary);
+        } else if (subscription.status === "active" && subscription.currentPeriodEnd && subscription.currentPeriodEnd <= now) {
+          await renew(subscription, charge, config, summary);
+        } else if (["past_due", "unpaid"].includes(subscription.status)) {
+          await retryPayment(subscription, now, charge, config, summary);
+        } else {
+          await sendRenewalReminder(subscription, now, config, summary);
+        }
+      }
+
+      const current = await storage.getVendorSubscription(subscription.vendorId);
+      if (current && ["past_due", "unpaid"].includes(current.status)) {
+        await suspendIfOverdue(current, now, config, summary);
+      }
+    } catch (error) {
+      console.error(`Error billing subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return summary;
+}
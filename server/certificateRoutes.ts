@@ -0,0 +1,107 @@
+import { Express, Request, Response, NextFunction } from "express";
+import type { DomainCertificate } from "@shared/schema";
+import { storage } from "./storage";
+import { AcmeError } from "./acme";
+import { resolveTenant } from "./middleware/tenantMiddleware";
+import { forTenant } from "./tenantStorage";
+import { ACME_CHALLENGE_PATH, CertificateError, requestCertificate, revokeCertificate } from "./certificates";
+
+// Define custom Request type with user property
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+// Certificates as shown to vendors; the key and PEM never leave the server
+function toCertificateSummary({ privateKeyPem, certificatePem, ...certificate }: DomainCertificate) {
+  return certificate;
+}
+
+function handleCertificateError(res: Response, error: any) {
+  if (error instanceof CertificateError) {
+    return res.status(error.code === "ACME_DISABLED" ? 503 : 409).json({ message: error.message, error: error.code });
+  }
+  if (error instanceof AcmeError) {
+    return res.status(502).json({ message: `The certificate authority refused the request: ${error.message}` });
+  }
+  res.status(500).json({ message: error.message });
+}
+
+/**
+ * Register TLS certificate routes: the ACME HTTP-01 challenge responder and
+ * the certificate management API for custom domains
+ */
+export default function registerCertificateRoutes(app: Express) {
+  // Middleware to check the domain belongs to the caller's store; other tenants' domains are not found
+  const requireDomainAccess = async (request: Request, res: Response, next: NextFunction) => {
+    const req = request as AuthRequest;
+    const tenant = await resolveTenant(req);
+    if (!tenant) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const domainId = parseInt(req.params.domainId);
+    if (isNaN(domainId)) {
+      return res.status(400).json({ message: "Invalid domain ID" });
+    }
+
+    const domain = await forTenant(tenant).getDomain(domainId);
+    if (!domain) {
+      return res.status(404).json({ message: "Domain not found" });
+    }
+
+    next();
+  };
+
+  // The CA fetches this over plain HTTP on the domain being validated
+  app.get(`${ACME_CHALLENGE_PATH}/:token`, async (req, res) => {
+    try {
+      const challenge = await storage.getAcmeChallenge(req.params.token);
+      if (!challenge || (challenge.expiresAt && challenge.expiresAt < new Date())) {
+        return res.status(404).type("text/plain").send("Not found");
+      }
+      return res.status(200).type("text/plain").send(challenge.keyAuthorization);
+    } catch (error: any) {
+      console.error("Error serving ACME challenge:", error);
+      res.status(500).type("text/plain").send("Internal server error");
+    }
+  });
+
+  // Certificates issued for a domain, newest first
+  app.get("/api/domains/:domainId/certificates", requireDomainAccess, async (req, res) => {
+    try {
+      const certificates = await storage.getDomainCertificates(parseInt(req.params.domainId));
+      res.json(certificates.map(toCertificateSummary));
+    } catch (error: any) {
+      console.error("Error getting certificates:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Issue (or renew) a certificate; the order runs in the background, so poll the list for the outcome
+  app.post("/api/domains/:domainId/certificates", requireDomainAccess, async (req, res) => {
+    try {
+      const domain = await storage.getDomain(parseInt(req.params.domainId));
+      const certificate = await requestCertificate(domain!);
+      res.status(202).json(toCertificateSummary(certificate));
+    } catch (error: any) {
+      console.error("Error requesting certificate:", error);
+      handleCertificateError(res, error);
+    }
+  });
+
+  app.post("/api/domains/:domainId/certificates/:id/revoke", requireDomainAccess, async (req, res) => {
+    try {
+      const certificate = await storage.getDomainCertificate(parseInt(req.params.id));
+      if (!certificate || certificate.domainId !== parseInt(req.params.domainId)) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      const revoked = await revokeCertificate(certificate);
+      res.json(toCertificateSummary(revoked!));
+    } catch (error: any) {
+      console.error("Error revoking certificate:", error);
+      handleCertificateError(res, error);
+    }
+  });
+}
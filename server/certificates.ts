@@ -0,0 +1,336 @@
+import { readFileSync } from "fs";
+import type { Domain, DomainCertificate } from "@shared/schema";
+import { storage } from "./storage";
+import { AcmeClient, createCsr, generateKeyPem, parseCertificate } from "./acme";
+import { sendCertificateExpiryEmail } from "./emailService";
+
+// Where HTTP-01 challenge responses are served
+export const ACME_CHALLENGE_PATH = "/.well-known/acme-challenge";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Renew certificates this close to expiry, and warn the vendor if that keeps failing
+const RENEW_BEFORE_DAYS = 30;
+const WARN_BEFORE_DAYS = 14;
+
+export type CertificateErrorCode = "ACME_DISABLED" | "NOT_ELIGIBLE" | "IN_PROGRESS" | "NOT_REVOCABLE";
+
+/**
+ * A certificate request that can't go ahead
+ */
+export class CertificateError extends Error {
+  public readonly code: CertificateErrorCode;
+
+  constructor(code: CertificateErrorCode, message: string) {
+    super(message);
+    this.name = "CertificateError";
+    this.code = code;
+  }
+}
+
+export interface AcmeConfig {
+  directoryUrl: string;
+  email: string | null;
+  caCertPem?: string;
+}
+
+/**
+ * ACME settings from the environment, or null when issuance is turned off:
+ * - ACME_DIRECTORY_URL: the CA's directory, e.g. Let's Encrypt or a local Pebble
+ * - ACME_EMAIL: contact for the ACME account
+ * - ACME_CA_CERT: path to a CA certificate to trust for the directory's HTTPS (Pebble's test CA)
+ */
+export function getAcmeConfig(): AcmeConfig | null {
+  const directoryUrl = process.env.ACME_DIRECTORY_URL;
+  if (!directoryUrl) return null;
+
+  return {
+    directoryUrl,
+    email: process.env.ACME_EMAIL || null,
+    caCertPem: process.env.ACME_CA_CERT ? readFileSync(process.env.ACME_CA_CERT, "utf8") : undefined
+  };
+}
+
+function requireAcmeConfig(): AcmeConfig {
+  const config = getAcmeConfig();
+  if (!config) {
+    throw new CertificateError("ACME_DISABLED", "Certificate issuance isn't configured on this server");
+  }
+  return config;
+}
+
+let acmeClient: { directoryUrl: string; client: Promise<AcmeClient> } | null = null;
+
+/**
+ * A client for the configured directory, registering the platform's account
+ * the first time it's used
+ */
+function getAcmeClient(config: AcmeConfig): Promise<AcmeClient> {
+  if (acmeClient?.directoryUrl === config.directoryUrl) {
+    return acmeClient.client;
+  }
+
+  const client = (async () => {
+    const account = await storage.getAcmeAccount(config.directoryUrl) ??
+      await storage.createAcmeAccount({
+        directoryUrl: config.directoryUrl,
+        email: config.email,
+        privateKeyPem: generateKeyPem()
+      });
+
+    const client = new AcmeClient({
+      directoryUrl: config.directoryUrl,
+      accountKeyPem: account.privateKeyPem,
+      accountUrl: account.accountUrl,
+      caCertPem: config.caCertPem
+    });
+    if (!account.accountUrl) {
+      await storage.updateAcmeAccount(account.id, { accountUrl: await client.register(config.email) });
+    }
+    return client;
+  })();
+
+  acmeClient = { directoryUrl: config.directoryUrl, client };
+  // Try again next time rather than caching a failed registration
+  client.catch(() => {
+    if (acmeClient?.client === client) acmeClient = null;
+  });
+  return client;
+}
+
+/**
+ * The certificate currently served for a domain: the newest issued one
+ */
+export async function getCurrentCertificate(domainId: number): Promise<DomainCertificate | undefined> {
+  const certificates = await storage.getDomainCertificates(domainId);
+  return certificates.find(certificate => certificate.status === "issued");
+}
+
+// Domains with an order in flight, so two requests don't race each other
+const ordersInProgress = new Set<number>();
+
+/**
+ * Run an ACME order for the domain through to an issued certificate. Failures
+ * are recorded on the certificate rather than thrown.
+ */
+async function completeOrder(config: AcmeConfig, domain: Domain, certificate: DomainCertificate): Promise<DomainCertificate> {
+  const challengeTokens: string[] = [];
+  try {
+    const client = await getAcmeClient(config);
+    const { url: orderUrl, order } = await client.createOrder([domain.name]);
+    await storage.updateDomainCertificate(certificate.id, { orderUrl });
+
+    for (const authorizationUrl of order.authorizations) {
+      const authorization = await client.getAuthorization(authorizationUrl);
+      if (authorization.status === "valid") continue;
+
+      const challenge = authorization.challenges.find(challenge => challenge.type === "http-01");
+      if (!challenge) {
+        throw new Error(`The certificate authority didn't offer an HTTP challenge for ${authorization.identifier.value}`);
+      }
+
+      await storage.createAcmeChallenge({
+        token: challenge.token,
+        keyAuthorization: client.keyAuthorization(challenge.token),
+        domainName: authorization.identifier.value,
+        expiresAt: new Date(Date.now() + DAY_MS)
+      });
+      challengeTokens.push(challenge.token);
+
+      await client.respondToChallenge(challenge.url);
+      await client.waitForAuthorization(authorizationUrl);
+    }
+
+    const privateKeyPem = generateKeyPem();
+    const finalized = await client.finalizeOrder(orderUrl, order, createCsr(privateKeyPem, [domain.name]));
+    const certificatePem = await client.downloadCertificate(finalized.certificate!);
+    const { serialNumber, issuer, expiresAt } = parseCertificate(certificatePem);
+
+    const issued = await storage.updateDomainCertificate(certificate.id, {
+      status: "issued",
+      certificatePem,
+      privateKeyPem,
+      serialNumber,
+      issuer,
+      issuedAt: new Date(),
+      expiresAt,
+      lastError: null
+    });
+
+    // The new certificate replaces whatever was served before
+    const previous = (await storage.getDomainCertificates(domain.id)).filter(older =>
+      older.id !== certificate.id && older.status === "issued"
+    );
+    for (const older of previous) {
+      await storage.updateDomainCertificate(older.id, { status: "superseded" });
+    }
+    await storage.updateDomain(domain.id, { sslStatus: "valid" });
+
+    return issued!;
+  } catch (error: any) {
+    console.error(`Error issuing certificate for ${domain.name}:`, error);
+    const failed = await storage.updateDomainCertificate(certificate.id, {
+      status: "failed",
+      lastError: error?.message || "Certificate issuance failed"
+    });
+
+    // A failed renewal leaves the current certificate in place
+    if (!(await getCurrentCertificate(domain.id))) {
+      await storage.updateDomain(domain.id, { sslStatus: "failed" });
+    }
+    return failed!;
+  } finally {
+    for (const token of challengeTokens) {
+      await storage.deleteAcmeChallenge(token).catch(() => false);
+    }
+  }
+}
+
+/**
+ * Check the domain can get a certificate and start an order for it. Returns
+ * the pending certificate and a promise for how the order ends up.
+ */
+async function startOrder(domain: Domain): Promise<{ certificate: DomainCertificate; result: Promise<DomainCertificate> }> {
+  const config = requireAcmeConfig();
+  if (domain.type !== "custom") {
+    throw new CertificateError("NOT_ELIGIBLE", "Subdomains are covered by the platform's own certificate");
+  }
+  if (domain.verificationStatus !== "verified") {
+    throw new CertificateError("NOT_ELIGIBLE", "Verify the domain before requesting a certificate");
+  }
+  if (ordersInProgress.has(domain.id)) {
+    throw new CertificateError("IN_PROGRESS", "A certificate is already being issued for this domain");
+  }
+
+  ordersInProgress.add(domain.id);
+  try {
+    const certificate = await storage.createDomainCertificate({ domainId: domain.id, status: "pending" });
+    const result = completeOrder(config, domain, certificate).finally(() => ordersInProgress.delete(domain.id));
+    return { certificate, result };
+  } catch (error) {
+    ordersInProgress.delete(domain.id);
+    throw error;
+  }
+}
+
+/**
+ * Start issuing a certificate and return straight away with the pending
+ * certificate; the order finishes in the background
+ */
+export async function requestCertificate(domain: Domain): Promise<DomainCertificate> {
+  const { certificate, result } = await startOrder(domain);
+  result.catch(error => console.error(`Error issuing certificate for ${domain.name}:`, error));
+  return certificate;
+}
+
+/**
+ * Issue a certificate for the domain and wait for the outcome
+ */
+export async function issueCertificate(domain: Domain): Promise<DomainCertificate> {
+  const { result } = await startOrder(domain);
+  return result;
+}
+
+/**
+ * Revoke a certificate with the CA. Revoking the one being served leaves the
+ * domain without a certificate until a new one is issued.
+ */
+export async function revokeCertificate(certificate: DomainCertificate): Promise<DomainCertificate | undefined> {
+  const config = requireAcmeConfig();
+  if (!certificate.certificatePem || !["issued", "superseded"].includes(certificate.status)) {
+    throw new CertificateError("NOT_REVOCABLE", `A ${certificate.status} certificate can't be revoked`);
+  }
+
+  const client = await getAcmeClient(config);
+  await client.revokeCertificate(certificate.certificatePem);
+
+  const wasCurrent = certificate.status === "issued";
+  const revoked = await storage.updateDomainCertificate(certificate.id, { status: "revoked", revokedAt: new Date() });
+  if (wasCurrent) {
+    await storage.updateDomain(certificate.domainId, { sslStatus: "revoked" });
+  }
+  return revoked;
+}
+
+/**
+ * Stop serving a domain's certificates, e.g. because it was renamed and they
+ * are for the old name. Renewal issues a new one once the domain is verified.
+ */
+export async function retireCertificates(domainId: number): Promise<void> {
+  const issued = (await storage.getDomainCertificates(domainId)).filter(certificate => certificate.status === "issued");
+  for (const certificate of issued) {
+    await storage.updateDomainCertificate(certificate.id, { status: "superseded" });
+  }
+}
+
+async function warnOfExpiry(domain: Domain, certificate: DomainCertificate, reason: string | null) {
+  const vendor = await storage.getVendor(domain.vendorId);
+  const user = vendor ? await storage.getUser(vendor.userId) : undefined;
+  if (user?.email) {
+    await sendCertificateExpiryEmail(user.email, domain.name, certificate.expiresAt!, reason);
+  }
+  await storage.updateDomainCertificate(certificate.id, { expiryWarningSentAt: new Date() });
+  await storage.updateDomain(domain.id, { sslStatus: "expiring" });
+}
+
+export interface RenewalSummary {
+  issued: number;
+  renewed: number;
+  failed: number;
+  warned: number;
+  expired: number;
+}
+
+/**
+ * Keep custom domains' certificates current: issue them for newly verified
+ * domains, renew them within 30 days of expiry, email the vendor once when
+ * renewal is still failing 14 days out, and mark the ones that lapsed
+ */
+export async function renewCertificates(now = new Date()): Promise<RenewalSummary> {
+  requireAcmeConfig();
+  const summary: RenewalSummary = { issued: 0, renewed: 0, failed: 0, warned: 0, expired: 0 };
+  const domains = (await storage.getDomains()).filter(domain => domain.type === "custom");
+
+  for (const domain of domains) {
+    try {
+      const [latest] = await storage.getDomainCertificates(domain.id);
+      let current = await getCurrentCertificate(domain.id);
+
+      if (current?.expiresAt && current.expiresAt <= now) {
+        await storage.updateDomainCertificate(current.id, { status: "expired" });
+        await storage.updateDomain(domain.id, { sslStatus: "expired" });
+        summary.expired++;
+        current = undefined;
+      }
+
+      // Only domains that still point at us can pass the challenge; leave
+      // domains whose certificate was revoked until the vendor asks again
+      const canIssue = domain.verificationStatus === "verified" && latest?.status !== "revoked";
+      if (!canIssue || ordersInProgress.has(domain.id)) continue;
+
+      if (!current) {
+        const certificate = await issueCertificate(domain);
+        certificate.status === "issued" ? summary.issued++ : summary.failed++;
+        continue;
+      }
+
+      const expiresInMs = current.expiresAt ? current.expiresAt.getTime() - now.getTime() : Infinity;
+      if (expiresInMs > RENEW_BEFORE_DAYS * DAY_MS) continue;
+
+      const renewed = await issueCertificate(domain);
+      if (renewed.status === "issued") {
+        summary.renewed++;
+        continue;
+      }
+
+      summary.failed++;
+      if (expiresInMs <= WARN_BEFORE_DAYS * DAY_MS && !current.expiryWarningSentAt) {
+        await warnOfExpiry(domain, current, renewed.lastError);
+        summary.warned++;
+      }
+    } catch (error) {
+      console.error(`Error renewing certificate for ${domain.name}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -2,12 +2,87 @@ import { Express, Request, Response } from 'express';
 import { storage } from './storage';
 import { z } from 'zod';
 import { generateOrderNumber } from './utils/orderNumberGenerator';
+import { InsufficientStockError } from './inventory';
+import Decimal from 'decimal.js';
+import { normalizeState, priceCart } from './pricing';
+import { PromotionError } from './promotions';
+import { getShippingOptions, type ShippingDestination } from './shipping';
+import { ProductOptionError, resolveVariantForProduct } from './productOptions';
+import { getPaymentGateway, PaymentGatewayError, type PaymentGateway, type PaymentSession } from './paymentGateways';
+import { payerDetails, paymentRedirects, startOrderPayment } from './orderPayments';
+import { queueOrderConfirmation } from './transactionalEmails';
+
+/**
+ * Work out where a cart ships to, for the GST split and shipping options.
+ * A saved address is only used when it belongs to the signed-in customer of
+ * the cart's vendor; otherwise country/state/postalCode query values are used.
+ */
+async function resolveShippingDestination(req: Request, vendorId: number): Promise<ShippingDestination | null> {
+  if (req.query.addressId && req.user) {
+    const addressId = parseInt(req.query.addressId as string);
+    const customer = await storage.getCustomerByUserId(req.user.id, vendorId);
+    const address = isNaN(addressId) ? undefined : await storage.getCustomerAddress(addressId);
+    if (customer && address && address.customerId === customer.id) {
+      return { country: address.country, state: address.state, postalCode: address.postalCode };
+    }
+  }
+
+  const query = (key: string) => typeof req.query[key] === 'string' ? req.query[key] as string : null;
+  if (!query('state') && !query('country') && !query('postalCode')) return null;
+  return { country: query('country'), state: query('state'), postalCode: query('postalCode') };
+}
+
+/**
+ * Price the shopper's cart, including any discount code and the chosen
+ * shipping option, and merge the authoritative totals into the cart that is
+ * sent back. Shipping options are only listed once the address is known.
+ */
+async function pricedCartResponse(req: Request, cart: any) {
+  const destination = await resolveShippingDestination(req, cart.vendorId);
+  const customer = req.user ? await storage.getCustomerByUserId(req.user.id, cart.vendorId) : undefined;
+  const pricing = await priceCart(storage, cart, {
+    shippingState: destination?.state,
+    customerId: req.user ? customer?.id : null
+  });
+
+  const quote = destination
+    ? await getShippingOptions(storage, cart.vendorId, cart.items, destination, pricing.total, pricing.freeShipping)
+    : null;
+  const selected = quote?.options.find(option => option.rateId === cart.shippingRateId);
+  const shippingCost = selected?.amount ?? "0.00";
+
+  return {
+    ...cart,
+    subtotal: pricing.subtotal,
+    discount: pricing.discount,
+    tax: pricing.tax,
+    shippingCost,
+    total: new Decimal(pricing.total).plus(shippingCost).toFixed(2),
+    pricing,
+    shipping: quote && {
+      configured: quote.shippingConfigured,
+      options: quote.options,
+      selectedRateId: selected?.rateId ?? null
+    }
+  };
+}
+
+/**
+ * Load the shopper's cart from their user or guest session
+ */
+async function getRequestCart(req: Request) {
+  const userId = req.user?.id || null;
+  const sessionId = req.sessionID || null;
+  if (userId) return storage.getCartByUserId(userId);
+  if (sessionId) return storage.getCartBySessionId(sessionId);
+  return null;
+}
 
 /**
  * Register checkout-related routes
  */
 export default function registerCheckoutRoutes(app: Express) {
-  // Get cart
+  // Get cart, priced from the catalog
   app.get('/api/cart', async (req: Request, res: Response) => {
     try {
       // Check if user is authenticated or using a session
@@ -15,15 +90,16 @@ export default function registerCheckoutRoutes(app: Express) {
       const sessionId = req.sessionID || null;
       
       // Get cart based on authentication status
+      let cart;
       if (userId) {
-        const cart = await storage.getCartByUserId(userId);
-        return res.status(200).json(cart);
+        cart = await storage.getCartByUserId(userId);
       } else if (sessionId) {
-        const cart = await storage.getCartBySessionId(sessionId);
-        return res.status(200).json(cart);
+        cart = await storage.getCartBySessionId(sessionId);
       } else {
         return res.status(400).json({ message: "No user or session ID available" });
       }
+
+      return res.status(200).json(await pricedCartResponse(req, cart));
     } catch (error) {
       console.error('Error fetching cart:', error);
       return res.status(500).json({ message: "Failed to fetch cart" });
@@ -37,7 +113,7 @@ export default function registerCheckoutRoutes(app: Express) {
       const schema = z.object({
         productId: z.number(),
         quantity: z.number().positive(),
-        variant: z.string().optional(),
+        variantId: z.number().int().nullable().optional(),
         vendorId: z.number()
       });
 
@@ -53,11 +129,18 @@ export default function registerCheckoutRoutes(app: Express) {
       if (!userId && !sessionId) {
         return res.status(400).json({ message: "No user or session ID available" });
       }
+
+      // Products with options are bought as one of their own variants
+      const variants = await storage.getProductVariantsByProductId(validation.data.productId);
+      resolveVariantForProduct(variants, validation.data.variantId);
       
       // Add item to cart
       const cart = await storage.addToCart(userId, sessionId, validation.data);
       return res.status(200).json(cart);
     } catch (error) {
+      if (error instanceof ProductOptionError) {
+        return res.status(409).json({ message: error.message, error: error.code });
+      }
       console.error('Error adding to cart:', error);
       return res.status(500).json({ message: "Failed to add item to cart" });
     }
@@ -143,6 +226,131 @@ export default function registerCheckoutRoutes(app: Express) {
     }
   });
 
+  // Apply a discount code to the cart
+  app.post('/api/cart/promotion', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        code: z.string().trim().min(1)
+      });
+
+      const validation = schema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid request data", errors: validation.error.errors });
+      }
+
+      const userId = req.user?.id || null;
+      const sessionId = req.sessionID || null;
+
+      if (!userId && !sessionId) {
+        return res.status(400).json({ message: "No user or session ID available" });
+      }
+
+      const cart = userId
+        ? await storage.getCartByUserId(userId)
+        : await storage.getCartBySessionId(sessionId!);
+      if (!cart.id || cart.items.length === 0) {
+        return res.status(400).json({ message: "Cart is empty" });
+      }
+
+      const promotion = await storage.getPromotionByCode(cart.vendorId, validation.data.code);
+      if (!promotion) {
+        return res.status(404).json({ message: "This code doesn't exist", error: "PROMOTION_NOT_FOUND" });
+      }
+
+      const updatedCart = await storage.setCartPromotionCode(userId, sessionId, promotion.code);
+      const response = await pricedCartResponse(req, updatedCart);
+
+      // Don't keep a code on the cart that can't be used right now
+      if (response.pricing.promotionError) {
+        await storage.setCartPromotionCode(userId, sessionId, null);
+        return res.status(400).json({ message: response.pricing.promotionError, error: "PROMOTION_NOT_APPLICABLE" });
+      }
+
+      return res.status(200).json(response);
+    } catch (error) {
+      console.error('Error applying promotion code:', error);
+      return res.status(500).json({ message: "Failed to apply promotion code" });
+    }
+  });
+
+  // Remove the discount code from the cart
+  app.delete('/api/cart/promotion', async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.id || null;
+      const sessionId = req.sessionID || null;
+
+      if (!userId && !sessionId) {
+        return res.status(400).json({ message: "No user or session ID available" });
+      }
+
+      const cart = await storage.setCartPromotionCode(userId, sessionId, null);
+      return res.status(200).json(await pricedCartResponse(req, cart));
+    } catch (error) {
+      console.error('Error removing promotion code:', error);
+      return res.status(500).json({ message: "Failed to remove promotion code" });
+    }
+  });
+
+  // List the shipping options for the cart and a destination
+  app.get('/api/cart/shipping-options', async (req: Request, res: Response) => {
+    try {
+      const cart = await getRequestCart(req);
+      if (!cart) {
+        return res.status(400).json({ message: "No user or session ID available" });
+      }
+
+      const response = await pricedCartResponse(req, cart);
+      if (!response.shipping) {
+        return res.status(400).json({ message: "An address or addressId is required" });
+      }
+
+      return res.status(200).json(response.shipping);
+    } catch (error) {
+      console.error('Error fetching shipping options:', error);
+      return res.status(500).json({ message: "Failed to fetch shipping options" });
+    }
+  });
+
+  // Choose a shipping option for the cart
+  app.put('/api/cart/shipping', async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        rateId: z.number().nullable()
+      });
+
+      const validation = schema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid request data", errors: validation.error.errors });
+      }
+
+      const userId = req.user?.id || null;
+      const sessionId = req.sessionID || null;
+      const cart = await getRequestCart(req);
+      if (!cart) {
+        return res.status(400).json({ message: "No user or session ID available" });
+      }
+      if (!cart.id) {
+        return res.status(400).json({ message: "Cart is empty" });
+      }
+
+      // The rate must belong to one of the cart vendor's zones
+      const { rateId } = validation.data;
+      if (rateId !== null) {
+        const rate = await storage.getShippingRate(rateId);
+        const zone = rate ? await storage.getShippingZone(rate.zoneId) : undefined;
+        if (!rate || !zone || zone.vendorId !== cart.vendorId) {
+          return res.status(404).json({ message: "Shipping option not found" });
+        }
+      }
+
+      const updatedCart = await storage.setCartShippingRate(userId, sessionId, rateId);
+      return res.status(200).json(await pricedCartResponse(req, updatedCart));
+    } catch (error) {
+      console.error('Error choosing shipping option:', error);
+      return res.status(500).json({ message: "Failed to choose shipping option" });
+    }
+  });
+
   // Checkout cart (create order)
   app.post('/api/checkout', async (req: Request, res: Response) => {
     try {
@@ -158,6 +366,7 @@ export default function registerCheckoutRoutes(app: Express) {
         }),
         paymentMethod: z.string(), // 'cod', 'paypal', 'stripe', etc.
         vendorId: z.number(),
+        shippingRateId: z.number().optional(), // Defaults to the option chosen on the cart
         notes: z.string().optional()
       });
 
@@ -177,7 +386,7 @@ export default function registerCheckoutRoutes(app: Express) {
       // Get cart
       const cart = userId 
         ? await storage.getCartByUserId(userId)
-        : await storage.getCartBySessionId(sessionId);
+        : await storage.getCartBySessionId(sessionId!);
       
       if (!cart.items || cart.items.length === 0) {
         return res.status(400).json({ message: "Cart is empty" });
@@ -206,68 +415,139 @@ export default function registerCheckoutRoutes(app: Express) {
         }
       }
 
-      // Create order
+      // Make sure every line can still be bought from this vendor
+      for (const item of cart.items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product || product.vendorId !== validation.data.vendorId) {
+          return res.status(400).json({ message: `Product "${item.name}" is no longer available` });
+        }
+      }
+
+      // Reprice the cart from the catalog; stored and client totals are ignored
+      const pricing = await priceCart(storage, { ...cart, vendorId: validation.data.vendorId }, {
+        shippingState: validation.data.shippingAddress.state,
+        customerId
+      });
+      if (pricing.promotionError) {
+        return res.status(400).json({ message: pricing.promotionError, error: "PROMOTION_NOT_APPLICABLE" });
+      }
+
+      // Work out shipping for the address the order is going to
+      const quote = await getShippingOptions(
+        storage,
+        validation.data.vendorId,
+        cart.items,
+        validation.data.shippingAddress,
+        pricing.total,
+        pricing.freeShipping
+      );
+      const shippingRateId = validation.data.shippingRateId ?? cart.shippingRateId;
+      const shippingOption = quote.options.find(option => option.rateId === shippingRateId);
+      if (quote.shippingConfigured && quote.options.length === 0) {
+        return res.status(400).json({ message: "This store doesn't ship to the selected address", error: "SHIPPING_UNAVAILABLE" });
+      }
+      if (quote.shippingConfigured && !shippingOption) {
+        return res.status(400).json({
+          message: "Please choose a shipping option",
+          error: "SHIPPING_OPTION_REQUIRED",
+          options: quote.options
+        });
+      }
+      const shippingCost = shippingOption?.amount ?? "0.00";
+
+      // Online payments go through one of the vendor's gateways, which must be set up
+      let gateway: PaymentGateway | null = null;
+      if (validation.data.paymentMethod !== 'cod') {
+        try {
+          gateway = await getPaymentGateway(validation.data.vendorId, validation.data.paymentMethod);
+        } catch (error) {
+          if (error instanceof PaymentGatewayError) {
+            return res.status(400).json({ message: error.message, error: error.code });
+          }
+          throw error;
+        }
+      }
+
+      const orderLines = pricing.lines.map(line => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        name: line.name,
+        hsnCode: line.hsnCode,
+        quantity: line.quantity,
+        price: line.unitPrice,
+        total: line.grossAmount,
+        taxRate: line.taxRate,
+        taxAmount: line.taxAmount,
+        cgst: line.cgst,
+        sgst: line.sgst,
+        igst: line.igst
+      }));
+
+      // Create the order and reserve stock for every line in one transaction
       const orderNumber = generateOrderNumber();
-      const order = await storage.createOrder({
+      const order = await storage.placeOrder({
         vendorId: validation.data.vendorId,
         customerId,
         orderNumber,
-        subtotal: cart.subtotal || "0.00",
-        tax: cart.tax || "0.00",
-        total: cart.total || "0.00",
+        subtotal: pricing.subtotal,
+        discount: pricing.discount,
+        tax: pricing.tax,
+        cgst: pricing.cgst,
+        sgst: pricing.sgst,
+        igst: pricing.igst,
+        shippingCost,
+        shippingRateId: shippingOption?.rateId ?? null,
+        shippingMethod: shippingOption?.name ?? null,
+        total: new Decimal(pricing.total).plus(shippingCost).toFixed(2),
         status: "pending",
         paymentMethod: validation.data.paymentMethod,
         paymentStatus: validation.data.paymentMethod === 'cod' ? 'pending' : 'unpaid',
         shippingAddress: `${validation.data.shippingAddress.addressLine1}, ${validation.data.shippingAddress.city}, ${validation.data.shippingAddress.state}`,
+        placeOfSupply: normalizeState(validation.data.shippingAddress.state),
         currency: "INR", // Default to INR, can make dynamic later
         notes: validation.data.notes || null
-      });
-
-      // Create order items
-      for (const item of cart.items) {
-        await storage.createOrderItem({
-          orderId: order.id,
-          productId: item.productId,
-          productName: item.name,
-          quantity: item.quantity,
-          price: item.price,
-          variantInfo: item.variant || null
-        });
-      }
+      }, orderLines, pricing.promotion ? { promotionId: pricing.promotion.id, customerId } : undefined);
 
       // Clear cart
       await storage.clearCart(userId, sessionId);
 
-      // Return order details
-      return res.status(201).json(order);
-    } catch (error) {
-      console.error('Error processing checkout:', error);
-      return res.status(500).json({ message: "Checkout failed" });
-    }
-  });
-
-  // Get order by ID
-  app.get('/api/orders/:id', async (req: Request, res: Response) => {
-    try {
-      const orderId = parseInt(req.params.id);
-      if (isNaN(orderId)) {
-        return res.status(400).json({ message: "Invalid order ID" });
+      // Cash on delivery orders are confirmed now, online ones once they're paid
+      if (validation.data.paymentMethod === 'cod') {
+        await queueOrderConfirmation(order);
       }
 
-      // Get order
-      const order = await storage.getOrder(orderId);
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      // The order stays unpaid until the gateway confirms the payment; if the
+      // session can't be started the shopper can retry from the order
+      let payment: PaymentSession | null = null;
+      let paymentError: string | null = null;
+      if (gateway) {
+        try {
+          payment = await startOrderPayment(order, gateway, {
+            customer: payerDetails(req.user),
+            ...paymentRedirects(`${req.protocol}://${req.get('host')}`, order)
+          });
+        } catch (error: any) {
+          console.error('Error starting payment for order', order.id, error);
+          paymentError = error instanceof PaymentGatewayError ? error.message : "Payment couldn't be started";
+        }
       }
 
-      // Get order items
-      const items = await storage.getOrderItems(orderId);
-
-      // Return order with items
-      return res.status(200).json({ ...order, items });
+      // Return order details, with what the browser needs to take payment
+      return res.status(201).json({ ...order, payment, paymentError });
     } catch (error) {
-      console.error('Error fetching order:', error);
-      return res.status(500).json({ message: "Failed to fetch order" });
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          message: error.message,
+          error: "INSUFFICIENT_STOCK",
+          shortages: error.shortages
+        });
+      }
+      if (error instanceof PromotionError) {
+        return res.status(409).json({ message: error.message, error: error.code });
+      }
+
+      console.error('Error processing checkout:', error);
+      return res.status(500).json({ message: "Checkout failed" });
     }
   });
 
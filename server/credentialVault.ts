@@ -0,0 +1,166 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+// Stored strings start with this, so sealed and legacy plain values can be told apart
+const SEALED_PREFIX = "vault:v1:";
+
+export type CredentialVaultErrorCode = "NOT_CONFIGURED" | "INVALID_KEY" | "UNKNOWN_KEY" | "DECRYPTION_FAILED";
+
+export class CredentialVaultError extends Error {
+  public readonly code: CredentialVaultErrorCode;
+
+  constructor(code: CredentialVaultErrorCode, message: string) {
+    super(message);
+    this.name = "CredentialVaultError";
+    this.code = code;
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * A secret sealed with its own data key. The data key is kept wrapped by
+ * the master key `kid`, so rotating master keys only re-wraps data keys.
+ */
+interface Envelope {
+  kid: string;
+  // The data key, encrypted with the master key: iv, auth tag, ciphertext
+  dek: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * The master keys from CREDENTIAL_ENCRYPTION_KEYS: comma-separated base64
+ * 32-byte keys, newest first. New secrets are sealed with the first; older
+ * keys stay listed until `rewrapSecret` has moved everything off them.
+ * Keys are identified by a fingerprint, so their order can change freely.
+ */
+function masterKeys(): MasterKey[] {
+  const configured = (process.env.CREDENTIAL_ENCRYPTION_KEYS ?? "").split(",").map(value => value.trim()).filter(Boolean);
+  return configured.map(value => {
+    const key = Buffer.from(value, "base64");
+    if (key.length !== 32) {
+      throw new CredentialVaultError("INVALID_KEY", "Credential encryption keys must be 32 bytes, base64 encoded");
+    }
+    return { id: createHash("sha256").update(key).digest("hex").slice(0, 12), key };
+  });
+}
+
+function currentKey(): MasterKey {
+  const [key] = masterKeys();
+  if (!key) {
+    throw new CredentialVaultError("NOT_CONFIGURED", "Set CREDENTIAL_ENCRYPTION_KEYS to store payment credentials");
+  }
+  return key;
+}
+
+function findKey(id: string): MasterKey {
+  const key = masterKeys().find(candidate => candidate.id === id);
+  if (!key) {
+    throw new CredentialVaultError("UNKNOWN_KEY", `Credentials were sealed with key ${id}, which is no longer configured`);
+  }
+  return key;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function decrypt(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  } catch {
+    throw new CredentialVaultError("DECRYPTION_FAILED", "Stored credentials couldn't be decrypted");
+  }
+}
+
+function wrapKey(master: MasterKey, dataKey: Buffer): string {
+  const { iv, tag, ciphertext } = encrypt(master.key, dataKey);
+  return Buffer.concat([iv, tag, ciphertext]).toString("base64");
+}
+
+function unwrapKey(envelope: Envelope): Buffer {
+  const wrapped = Buffer.from(envelope.dek, "base64");
+  return decrypt(findKey(envelope.kid).key, wrapped.subarray(0, IV_BYTES), wrapped.subarray(IV_BYTES, IV_BYTES + 16), wrapped.subarray(IV_BYTES + 16));
+}
+
+function encode(envelope: Envelope): string {
+  return SEALED_PREFIX + Buffer.from(JSON.stringify(envelope)).toString("base64url");
+}
+
+function decode(sealed: string): Envelope {
+  return JSON.parse(Buffer.from(sealed.slice(SEALED_PREFIX.length), "base64url").toString("utf8"));
+}
+
+export function isSealed(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SEALED_PREFIX);
+}
+
+/**
+ * Encrypt a JSON-serialisable value with a fresh data key, wrapped with the
+ * current master key. The result is a string safe to keep in text or jsonb.
+ */
+export function sealSecret(value: unknown): string {
+  const master = currentKey();
+  const dataKey = randomBytes(32);
+  const { iv, tag, ciphertext } = encrypt(dataKey, Buffer.from(JSON.stringify(value)));
+  return encode({
+    kid: master.id,
+    dek: wrapKey(master, dataKey),
+    iv: iv.toString("base64"),
+    tag: tag.toString("base64"),
+    data: ciphertext.toString("base64"),
+  });
+}
+
+/**
+ * Decrypt a value from `sealSecret`. Anything that isn't sealed (saved
+ * before credentials were encrypted) is returned as it is.
+ */
+export function openSecret<T = unknown>(stored: unknown): T {
+  if (!isSealed(stored)) return stored as T;
+  const envelope = decode(stored);
+  const plaintext = decrypt(
+    unwrapKey(envelope),
+    Buffer.from(envelope.iv, "base64"),
+    Buffer.from(envelope.tag, "base64"),
+    Buffer.from(envelope.data, "base64")
+  );
+  return JSON.parse(plaintext.toString("utf8"));
+}
+
+/**
+ * Move a stored value onto the current master key: sealed values have their
+ * data key re-wrapped, plain ones are sealed. Returns null when there's
+ * nothing to change.
+ */
+export function rewrapSecret(stored: unknown): string | null {
+  if (stored === null || stored === undefined) return null;
+  if (!isSealed(stored)) return sealSecret(stored);
+
+  const master = currentKey();
+  const envelope = decode(stored);
+  if (envelope.kid === master.id) return null;
+  return encode({ ...envelope, kid: master.id, dek: wrapKey(master, unwrapKey(envelope)) });
+}
+
+/**
+ * Show only the end of a secret, e.g. "••••••••4242"
+ */
+export function maskSecret(value: string | null | undefined, visible = 4): string | null {
+  if (!value) return null;
+  // Short secrets would be given away by their last few characters
+  const suffix = value.length > visible * 3 ? value.slice(-visible) : "";
+  return `${"•".repeat(8)}${suffix}`;
+}
@@ -0,0 +1,152 @@
+// Five-field cron expressions ("minute hour day-of-month month day-of-week"),
+// evaluated in UTC. Fields take `*`, numbers, ranges, lists and steps
+// (`*/15`, `1-5`, `0,30`, `10-50/20`); months and weekdays can be given by
+// name. When both day fields are restricted a day matching either runs, as
+// in Vixie cron.
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronError";
+  }
+}
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // Not `*`
+}
+
+export interface CronSchedule {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField; // 1-12
+  daysOfWeek: CronField; // 0-6, Sunday is 0 (7 is accepted too)
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+// Stop looking for a matching minute after this long, e.g. for "0 0 30 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(value: string, field: string, names?: string[], offset = 0): number {
+  const index = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (index >= 0) return index + offset;
+  if (!/^\d+$/.test(value)) {
+    throw new CronError(`"${value}" isn't a valid ${field}`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseField(source: string, field: string, min: number, max: number, names?: string[], offset = 0): CronField {
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const [range, stepSource] = part.split("/");
+    const step = stepSource === undefined ? 1 : parseValue(stepSource, `${field} step`);
+    if (step < 1) {
+      throw new CronError(`The ${field} step must be at least 1`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, field, names, offset);
+      end = parseValue(to, field, names, offset);
+    } else {
+      start = parseValue(range, field, names, offset);
+      // "5/15" means every 15 starting at 5
+      end = stepSource === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new CronError(`"${part}" is out of range for ${field} (${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return { values, restricted: source !== "*" && !source.startsWith("*/") };
+}
+
+/**
+ * Parse a cron expression, throwing a CronError saying what's wrong with it
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`Expected 5 fields (minute hour day-of-month month day-of-week) but got ${fields.length}`);
+  }
+
+  const daysOfWeek = parseField(fields[4], "day of week", 0, 7, DAY_NAMES);
+  // Sunday can be written as 0 or 7
+  if (daysOfWeek.values.delete(7)) daysOfWeek.values.add(0);
+
+  return {
+    minutes: parseField(fields[0], "minute", 0, 59),
+    hours: parseField(fields[1], "hour", 0, 23),
+    daysOfMonth: parseField(fields[2], "day of month", 1, 31),
+    months: parseField(fields[3], "month", 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.values.has(date.getUTCDay());
+  if (schedule.daysOfMonth.restricted && schedule.daysOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first minute after `after` that the expression matches
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === "string" ? parseCron(expression) : expression;
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Move on a month, day or hour at a time until everything above the minute matches
+  while (date.getTime() <= limit) {
+    if (!schedule.months.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!schedule.minutes.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+  throw new CronError(`"${typeof expression === "string" ? expression : "schedule"}" never runs`);
+}
@@ -0,0 +1,75 @@
+import type { Domain, Vendor } from "@shared/schema";
+
+/**
+ * A size-bounded map that evicts the least recently used entry, with an
+ * optional time to live so entries written by other server instances still
+ * get picked up eventually
+ */
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, { value: V; expiresAt: number }>();
+
+  constructor(private readonly maxSize: number, private readonly ttlMs = Infinity) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: K): boolean {
+    return this.get(key) !== undefined;
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Maps iterate in insertion order, so re-inserting marks it most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * What a storefront hostname resolves to: the domain it matched, the vendor
+ * that owns it and the vendor's primary domain
+ */
+export interface HostnameLookup {
+  domain: Domain;
+  vendor: Vendor;
+  primaryDomain: Domain | null;
+}
+
+// Hostname -> lookup, with null remembered for hostnames that aren't stores
+export const hostnameCache = new LruCache<string, HostnameLookup | null>(
+  parseInt(process.env.DOMAIN_CACHE_SIZE ?? "1000"),
+  parseInt(process.env.DOMAIN_CACHE_TTL_SECONDS ?? "300") * 1000
+);
+
+/**
+ * Forget cached hostname lookups after a domain or vendor changes. A change
+ * can affect hostnames other than its own (a new primary domain, a removed
+ * alias, a hostname that used to resolve to nothing), so everything goes.
+ */
+export function invalidateDomainCache(): void {
+  hostnameCache.clear();
+}
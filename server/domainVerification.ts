@@ -0,0 +1,180 @@
+import { Resolver } from "dns/promises";
+import type { Domain } from "@shared/schema";
+import { storage } from "./storage";
+import { queueDomainVerified } from "./transactionalEmails";
+
+// Where vendors point their custom domains, and where the TXT token lives
+export const DOMAIN_CNAME_TARGET = process.env.DOMAIN_CNAME_TARGET || "stores.multivend.com";
+export const VERIFICATION_TXT_PREFIX = "_multivend-verification";
+// Path the token is served on for the "file" method
+export const VERIFICATION_FILE_PATH = "/.well-known/multivend-verification.txt";
+
+/**
+ * The parts of a DNS resolver verification needs; `dns/promises` Resolver
+ * fits, and tests can pass a fake or point one at a local DNS server.
+ */
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+  resolveCname(hostname: string): Promise<string[]>;
+}
+
+// Fetches the text served at a URL, for the "file" method
+export type TokenFetcher = (url: string) => Promise<{ status: number; body: string }>;
+
+export interface DomainVerificationOptions {
+  resolver?: DnsResolver;
+  fetchToken?: TokenFetcher;
+}
+
+/**
+ * "verified" and "failed" are definite answers. "error" means the check couldn't
+ * be completed (DNS timeout, server failure), so it says nothing about the domain.
+ */
+export interface DomainVerificationResult {
+  status: "verified" | "failed" | "error";
+  reason: string | null;
+}
+
+// DNS answers that mean the record isn't there, as opposed to the lookup failing
+const MISSING_RECORD_CODES = ["ENOTFOUND", "ENODATA", "NXDOMAIN"];
+
+/**
+ * A resolver using the servers in DNS_SERVERS (comma separated, e.g.
+ * "127.0.0.1:5353") or the system's when unset
+ */
+export function createDnsResolver(servers = process.env.DNS_SERVERS): DnsResolver {
+  const resolver = new Resolver({ timeout: 5000, tries: 2 });
+  if (servers) {
+    resolver.setServers(servers.split(",").map(server => server.trim()).filter(Boolean));
+  }
+  return resolver;
+}
+
+const fetchTokenOverHttp: TokenFetcher = async (url) => {
+  const response = await fetch(url, { redirect: "follow", signal: AbortSignal.timeout(10000) });
+  return { status: response.status, body: await response.text() };
+};
+
+/**
+ * The DNS records a vendor has to add for the domain's verification method
+ */
+export function getVerificationRecords(domain: Pick<Domain, "name" | "verificationMethod">, token: string) {
+  const records = [
+    { type: "CNAME", name: domain.name, value: DOMAIN_CNAME_TARGET },
+    { type: "CNAME", name: `www.${domain.name}`, value: DOMAIN_CNAME_TARGET }
+  ];
+  if ((domain.verificationMethod ?? "dns_txt") === "dns_txt") {
+    records.unshift({ type: "TXT", name: `${VERIFICATION_TXT_PREFIX}.${domain.name}`, value: token });
+  }
+  return records;
+}
+
+const normalizeHostname = (hostname: string) => hostname.trim().toLowerCase().replace(/\.$/, "");
+
+function describeLookupError(error: any, what: string): DomainVerificationResult {
+  if (MISSING_RECORD_CODES.includes(error?.code)) {
+    return { status: "failed", reason: `No ${what} found` };
+  }
+  return { status: "error", reason: `Couldn't look up ${what}: ${error?.code || error?.message || "unknown error"}` };
+}
+
+/**
+ * Check that whoever added the domain controls it, using the domain's
+ * verification method:
+ * - dns_txt: a TXT record at _multivend-verification.<domain> holds the token
+ * - cname: the domain is a CNAME for the platform
+ * - file: http://<domain>/.well-known/multivend-verification.txt serves the token
+ */
+export async function checkDomainOwnership(
+  domain: Pick<Domain, "name" | "verificationMethod" | "verificationToken">,
+  options: DomainVerificationOptions = {}
+): Promise<DomainVerificationResult> {
+  const method = domain.verificationMethod ?? "dns_txt";
+  const token = domain.verificationToken;
+  if (method !== "cname" && !token) {
+    return { status: "failed", reason: "Generate a verification token before verifying" };
+  }
+
+  if (method === "dns_txt") {
+    const recordName = `${VERIFICATION_TXT_PREFIX}.${domain.name}`;
+    try {
+      const records = await (options.resolver ?? createDnsResolver()).resolveTxt(recordName);
+      // Long TXT values come back split into chunks
+      const values = records.map(chunks => chunks.join("").trim());
+      if (values.includes(token!)) {
+        return { status: "verified", reason: null };
+      }
+      return { status: "failed", reason: `The TXT record at ${recordName} doesn't contain the verification token` };
+    } catch (error) {
+      return describeLookupError(error, `TXT record at ${recordName}`);
+    }
+  }
+
+  if (method === "cname") {
+    try {
+      const targets = await (options.resolver ?? createDnsResolver()).resolveCname(domain.name);
+      if (targets.map(normalizeHostname).includes(normalizeHostname(DOMAIN_CNAME_TARGET))) {
+        return { status: "verified", reason: null };
+      }
+      return { status: "failed", reason: `${domain.name} points to ${targets.join(", ")} instead of ${DOMAIN_CNAME_TARGET}` };
+    } catch (error) {
+      return describeLookupError(error, `CNAME record for ${domain.name}`);
+    }
+  }
+
+  if (method === "file") {
+    const url = `http://${domain.name}${VERIFICATION_FILE_PATH}`;
+    try {
+      const { status, body } = await (options.fetchToken ?? fetchTokenOverHttp)(url);
+      if (status !== 200) {
+        return { status: "failed", reason: `${url} responded with HTTP ${status}` };
+      }
+      if (body.trim() !== token) {
+        return { status: "failed", reason: `${url} doesn't serve the verification token` };
+      }
+      return { status: "verified", reason: null };
+    } catch (error: any) {
+      return { status: "error", reason: `Couldn't reach ${url}: ${error?.cause?.code || error?.message || "unknown error"}` };
+    }
+  }
+
+  return { status: "failed", reason: `Unknown verification method "${method}"` };
+}
+
+/**
+ * Check a domain and record the outcome on it
+ */
+export async function verifyDomain(domain: Domain, options: DomainVerificationOptions = {}): Promise<Domain | undefined> {
+  // Subdomains of the platform are ours, so there is nothing to prove
+  if (domain.type !== "custom") {
+    return storage.recordDomainVerification(domain.id, { status: "verified", reason: null });
+  }
+
+  const result = await checkDomainOwnership(domain, options);
+  const updated = await storage.recordDomainVerification(domain.id, result);
+  if (updated?.verificationStatus === "verified" && domain.verificationStatus !== "verified") {
+    await queueDomainVerified(updated);
+  }
+  return updated;
+}
+
+/**
+ * Re-check every custom domain that hasn't been checked within `maxAge`, so
+ * pending domains go live once their DNS propagates and verified ones that no
+ * longer point at the platform are flagged
+ */
+export async function reverifyDomains(maxAgeMs: number, options: DomainVerificationOptions = {}): Promise<number> {
+  const cutoff = Date.now() - maxAgeMs;
+  const due = (await storage.getDomains()).filter(domain =>
+    domain.type === "custom" && (!domain.lastCheckedAt || domain.lastCheckedAt.getTime() <= cutoff)
+  );
+
+  for (const domain of due) {
+    try {
+      await verifyDomain(domain, options);
+    } catch (error) {
+      console.error(`Error re-verifying domain ${domain.name}:`, error);
+    }
+  }
+  return due.length;
+}
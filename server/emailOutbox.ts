@@ -0,0 +1,145 @@
+import type { EmailAttachment, EmailOutbox } from "@shared/schema";
+import { storage } from "./storage";
+import { sendEmail } from "./emailService";
+import { DAY_MS } from "./analyticsPeriods";
+
+export interface OutgoingEmail {
+  template: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[] | null;
+  vendorId?: number | null;
+  // Queueing a key that's been queued before does nothing, so callers that
+  // may run twice (webhooks, retried jobs) send once
+  dedupeKey?: string | null;
+}
+
+export interface OutboxSummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+// A failed send is retried after 1, 2, 4, 8… minutes, MAX_ATTEMPTS times in all
+const RETRY_BASE_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+// Emails sent per run of the outbox job
+const BATCH_SIZE = 50;
+
+// An email left "sending" this long was being sent by a server that stopped
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/**
+ * Send one claimed email, recording how it went. Failures go back in the
+ * queue with backoff until the attempts are used up.
+ */
+async function deliver(email: EmailOutbox, now = new Date()): Promise<EmailOutbox> {
+  const attempts = email.attempts + 1;
+  try {
+    const { messageId } = await sendEmail({
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attachments: email.attachments,
+    });
+    return (await storage.updateOutboxEmail(email.id, {
+      status: "sent",
+      attempts,
+      messageId: messageId ?? null,
+      sentAt: new Date(),
+      lastError: null,
+    })) ?? email;
+  } catch (error: any) {
+    const message = error?.message ?? String(error);
+    const giveUp = attempts >= email.maxAttempts;
+    console.error(`Error sending email ${email.id} to ${email.to} (attempt ${attempts} of ${email.maxAttempts}):`, message);
+    return (await storage.updateOutboxEmail(email.id, {
+      status: giveUp ? "failed" : "pending",
+      attempts,
+      lastError: message,
+      nextAttemptAt: new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)),
+    })) ?? email;
+  }
+}
+
+// Try a newly queued email straight away rather than waiting for the job
+async function deliverNow(id: number): Promise<void> {
+  try {
+    const email = await storage.claimOutboxEmail(id);
+    if (email) await deliver(email);
+  } catch (error) {
+    console.error(`Error sending email ${id}:`, error);
+  }
+}
+
+/**
+ * Put an email in the outbox and start sending it in the background. Never
+ * throws: an email that can't be queued is logged, so it can't fail whatever
+ * sent it. Undefined when it wasn't queued, e.g. because its dedupe key was
+ * queued before.
+ */
+export async function queueEmail(email: OutgoingEmail): Promise<EmailOutbox | undefined> {
+  try {
+    const queued = await storage.createOutboxEmail({
+      vendorId: email.vendorId ?? null,
+      template: email.template,
+      dedupeKey: email.dedupeKey ?? null,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attachments: email.attachments ?? null,
+      status: "pending",
+      maxAttempts: MAX_ATTEMPTS,
+      nextAttemptAt: new Date(),
+    });
+    if (queued) void deliverNow(queued.id);
+    return queued;
+  } catch (error) {
+    console.error(`Error queueing ${email.template} email to ${email.to}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Send the emails that are due, including ones a stopped server was partway
+ * through. Run by the email-outbox job.
+ */
+export async function deliverQueuedEmails(now = new Date()): Promise<OutboxSummary> {
+  const summary: OutboxSummary = { sent: 0, retrying: 0, failed: 0 };
+  const claimed = await storage.claimOutboxEmails(now, BATCH_SIZE, new Date(now.getTime() - STALE_SENDING_MS));
+  for (const email of claimed) {
+    const result = await deliver(email, now);
+    if (result.status === "sent") summary.sent++;
+    else if (result.status === "failed") summary.failed++;
+    else summary.retrying++;
+  }
+  return summary;
+}
+
+/**
+ * Send a failed email again, with a fresh set of attempts. Undefined when
+ * there's no such email.
+ */
+export async function retryOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+  const email = await storage.getOutboxEmail(id);
+  if (!email || email.status === "sent" || email.status === "sending") return email;
+
+  await storage.updateOutboxEmail(id, { status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null });
+  await deliverNow(id);
+  return storage.getOutboxEmail(id);
+}
+
+/**
+ * Delete sent emails older than EMAIL_OUTBOX_RETENTION_DAYS (30 by default).
+ * Failed ones are kept for super admins to look at.
+ */
+export async function pruneOutboxEmails(now = new Date()): Promise<{ pruned: number }> {
+  const retentionDays = parseInt(process.env.EMAIL_OUTBOX_RETENTION_DAYS ?? "30");
+  if (!(retentionDays > 0)) return { pruned: 0 };
+  return { pruned: await storage.deleteSentOutboxEmailsBefore(new Date(now.getTime() - retentionDays * DAY_MS)) };
+}
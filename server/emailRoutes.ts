@@ -0,0 +1,205 @@
+import { Express, Response } from "express";
+import { z, ZodError } from "zod";
+import { EMAIL_OUTBOX_STATUSES, type EmailSettings } from "@shared/schema";
+import { storage } from "./storage";
+import { hasRole } from "./auth";
+import { requireVendorAccess } from "./middleware/tenantMiddleware";
+import { CredentialVaultError, sealSecret } from "./credentialVault";
+import { getEmailTransport, sendTestEmail } from "./emailService";
+import { retryOutboxEmail } from "./emailOutbox";
+import {
+  EmailTemplateError,
+  listEmailTemplates,
+  previewEmailTemplate,
+  resetEmailTemplate,
+  saveEmailTemplate,
+} from "./emailTemplates";
+
+const emailSettingsSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.number().int().min(1).max(65535),
+  secure: z.boolean(),
+  username: z.string().trim().max(255).nullable().optional(),
+  // Left out (or empty) keeps the saved password; null removes it
+  password: z.string().max(1000).nullable().optional(),
+  fromAddress: z.string().trim().email(),
+  fromName: z.string().trim().min(1).max(100),
+});
+
+const testEmailSchema = z.object({
+  to: z.string().trim().email(),
+});
+
+const emailContentSchema = z.object({
+  subject: z.string().trim().min(1).max(200),
+  body: z.string().trim().min(1).max(10000),
+});
+
+function handleEmailError(res: Response, error: any) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: "Validation error", errors: error.errors });
+  }
+  if (error instanceof EmailTemplateError) {
+    return res.status(error.code === "UNKNOWN_TEMPLATE" ? 404 : 400).json({ message: error.message, error: error.code });
+  }
+  if (error instanceof CredentialVaultError) {
+    console.error("Error encrypting the mail server password:", error.message);
+    return res.status(503).json({ message: "The mail server password can't be saved right now", error: error.code });
+  }
+  console.error("Error handling email request:", error);
+  return res.status(500).json({ message: "Internal server error" });
+}
+
+// Never send the password back, only whether there is one
+function redactEmailSettings(settings: EmailSettings) {
+  const { password, ...rest } = settings;
+  return { ...rest, hasPassword: !!password };
+}
+
+/**
+ * Register email routes: super admins set up the mail server, send a test,
+ * reword the platform's templates and watch the outbox; vendors reword the
+ * emails their customers get
+ */
+export default function registerEmailRoutes(app: Express) {
+  const requireSuperAdmin = hasRole(["super_admin"]);
+
+  // The saved mail server, if any, and where mail is actually going
+  app.get("/api/admin/email-settings", requireSuperAdmin, async (_req, res) => {
+    try {
+      const [settings, transport] = await Promise.all([storage.getEmailSettings(), getEmailTransport()]);
+      res.json({ settings: settings ? redactEmailSettings(settings) : null, transport });
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.put("/api/admin/email-settings", requireSuperAdmin, async (req, res) => {
+    try {
+      const { password, username, ...data } = emailSettingsSchema.parse(req.body);
+      const existing = await storage.getEmailSettings();
+      const settings = await storage.saveEmailSettings({
+        ...data,
+        username: username || null,
+        password: password === null ? null : password ? sealSecret(password) : existing?.password ?? null,
+      });
+      res.json({ settings: redactEmailSettings(settings), transport: await getEmailTransport() });
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // Sent straight away rather than through the outbox, so a problem shows up here
+  app.post("/api/admin/email-settings/test", requireSuperAdmin, async (req, res) => {
+    try {
+      const { to } = testEmailSchema.parse(req.body);
+      const result = await sendTestEmail(to);
+      if (!result.success) {
+        const reason = (result.error as Error | undefined)?.message ?? "The mail server didn't accept it";
+        return res.status(502).json({ message: `The test email couldn't be sent: ${reason}` });
+      }
+      res.json({ messageId: result.messageId });
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.get("/api/admin/email-templates", requireSuperAdmin, async (_req, res) => {
+    try {
+      res.json(await listEmailTemplates(null));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.put("/api/admin/email-templates/:name", requireSuperAdmin, async (req, res) => {
+    try {
+      res.json(await saveEmailTemplate(null, req.params.name, emailContentSchema.parse(req.body)));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // Back to the built-in wording
+  app.delete("/api/admin/email-templates/:name", requireSuperAdmin, async (req, res) => {
+    try {
+      res.json(await resetEmailTemplate(null, req.params.name));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // Render saved or unsaved wording with example values
+  app.post("/api/admin/email-templates/:name/preview", requireSuperAdmin, async (req, res) => {
+    try {
+      const content = req.body?.subject !== undefined ? emailContentSchema.parse(req.body) : undefined;
+      res.json(await previewEmailTemplate(null, req.params.name, content));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // Newest first, optionally only one status, e.g. ?status=failed
+  app.get("/api/admin/email-outbox", requireSuperAdmin, async (req, res) => {
+    try {
+      const status = z.enum(EMAIL_OUTBOX_STATUSES).optional().parse(req.query.status || undefined);
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      // Attached files are only named, not sent back
+      const emails = await storage.getOutboxEmails(status, limit);
+      res.json(emails.map(email => ({
+        ...email,
+        attachments: email.attachments?.map(({ fileName, contentType }) => ({ fileName, contentType })) ?? null,
+      })));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.post("/api/admin/email-outbox/:id/retry", requireSuperAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const email = isNaN(id) ? undefined : await retryOutboxEmail(id);
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      res.json(email);
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // The emails the vendor's customers get, with the vendor's own wording where they've changed it
+  app.get("/api/vendors/:vendorId/email-templates", requireVendorAccess(), async (req, res) => {
+    try {
+      res.json(await listEmailTemplates(parseInt(req.params.vendorId)));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.put("/api/vendors/:vendorId/email-templates/:name", requireVendorAccess(), async (req, res) => {
+    try {
+      res.json(await saveEmailTemplate(parseInt(req.params.vendorId), req.params.name, emailContentSchema.parse(req.body)));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  // Back to the platform's wording
+  app.delete("/api/vendors/:vendorId/email-templates/:name", requireVendorAccess(), async (req, res) => {
+    try {
+      res.json(await resetEmailTemplate(parseInt(req.params.vendorId), req.params.name));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+
+  app.post("/api/vendors/:vendorId/email-templates/:name/preview", requireVendorAccess(), async (req, res) => {
+    try {
+      const content = req.body?.subject !== undefined ? emailContentSchema.parse(req.body) : undefined;
+      res.json(await previewEmailTemplate(parseInt(req.params.vendorId), req.params.name, content));
+    } catch (error) {
+      return handleEmailError(res, error);
+    }
+  });
+}
@@ -1,13 +1,44 @@
 import nodemailer from 'nodemailer';
 import { type SentMessageInfo } from 'nodemailer';
+import { storage } from './storage';
+import { openSecret, rewrapSecret } from './credentialVault';
+import type { EmailAttachment } from '@shared/schema';
 
 // Check for required email environment variables
 if (!process.env.EMAIL_HOST || !process.env.EMAIL_USER || !process.env.EMAIL_PASSWORD) {
   console.warn('Email credentials not set. Email functionality will be limited or disabled.');
 }
 
-// Create email transporter
+const defaultSender = () => `"${process.env.VITE_APP_NAME || 'MultiVend'}" <no-reply@multivend.app>`;
+
+/**
+ * Create email transporter. Mail goes to the first of:
+ * - the local SMTP sink on SMTP_SINK_PORT, so development and tests never reach real inboxes
+ * - the mail server saved on the settings page
+ * - the mail server in EMAIL_HOST, EMAIL_USER and EMAIL_PASSWORD
+ * and is only logged when none is set up. The sender comes with the
+ * transporter, so the send functions leave `from` out.
+ */
 const createTransporter = async () => {
+  if (process.env.SMTP_SINK_PORT) {
+    return nodemailer.createTransport({
+      host: '127.0.0.1',
+      port: parseInt(process.env.SMTP_SINK_PORT),
+      secure: false,
+      ignoreTLS: true,
+    }, { from: defaultSender() });
+  }
+
+  const settings = await storage.getEmailSettings();
+  if (settings) {
+    return nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.username ? { user: settings.username, pass: openSecret<string | null>(settings.password) ?? '' } : undefined,
+    }, { from: { name: settings.fromName, address: settings.fromAddress } });
+  }
+
   // Use Hostinger SMTP credentials from environment variables
   if (process.env.EMAIL_HOST && process.env.EMAIL_USER && process.env.EMAIL_PASSWORD) {
     console.log(`Creating email transporter with host: ${process.env.EMAIL_HOST}, user: ${process.env.EMAIL_USER}`);
@@ -20,7 +51,7 @@ const createTransporter = async () => {
         user: process.env.EMAIL_USER,
         pass: process.env.EMAIL_PASSWORD,
       },
-    });
+    }, { from: process.env.EMAIL_USER });
   }
 
   // Fallback to console output if no email config
@@ -40,6 +71,32 @@ const createTransporter = async () => {
   };
 };
 
+/**
+ * Which of the places in `createTransporter` mail is going to
+ *
+ * @returns "sink", "settings", "environment", or "console" when it's only logged
+ */
+export const getEmailTransport = async (): Promise<'sink' | 'settings' | 'environment' | 'console'> => {
+  if (process.env.SMTP_SINK_PORT) return 'sink';
+  if (await storage.getEmailSettings()) return 'settings';
+  if (process.env.EMAIL_HOST && process.env.EMAIL_USER && process.env.EMAIL_PASSWORD) return 'environment';
+  return 'console';
+};
+
+/**
+ * Re-encrypt the saved mail server password with the newest credential key
+ *
+ * @returns Whether it needed re-encrypting
+ */
+export const rewrapEmailPassword = async (): Promise<boolean> => {
+  const settings = await storage.getEmailSettings();
+  const password = settings && rewrapSecret(settings.password);
+  if (!settings || password === null) return false;
+  const { id, updatedAt, ...current } = settings;
+  await storage.saveEmailSettings({ ...current, password });
+  return true;
+};
+
 /**
  * Generate a random 6-digit OTP code
  * 
@@ -63,7 +120,6 @@ export const sendOtpEmail = async (to: string, otp: string) => {
     const appName = process.env.VITE_APP_NAME || 'MultiVend';
     
     const mailOptions = {
-      from: process.env.EMAIL_USER || `"${appName}" <no-reply@multivend.app>`,
       to,
       subject: `Your ${appName} Verification Code`,
       text: `Your verification code is: ${otp}\n\nThis code will expire in 10 minutes.\n\nIf you didn't request this code, please ignore this email.`,
@@ -108,7 +164,129 @@ export const sendOtpEmail = async (to: string, otp: string) => {
   }
 };
 
+/**
+ * Warn a vendor that the TLS certificate for their domain is about to expire
+ * and couldn't be renewed automatically
+ * 
+ * @param to - Recipient email address
+ * @param domainName - Domain the certificate is for
+ * @param expiresAt - When the certificate expires
+ * @param reason - Why the last renewal attempt failed, if it did
+ * @returns Email delivery information
+ */
+export const sendCertificateExpiryEmail = async (to: string, domainName: string, expiresAt: Date, reason?: string | null) => {
+  try {
+    const transporter = await createTransporter();
+    
+    const appName = process.env.VITE_APP_NAME || 'MultiVend';
+    const daysLeft = Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+    const expiryDate = expiresAt.toUTCString();
+    
+    const mailOptions = {
+      to,
+      subject: `The SSL certificate for ${domainName} expires in ${daysLeft} days`,
+      text: `The SSL certificate for ${domainName} expires on ${expiryDate} and hasn't been renewed yet.\n\n${reason ? `The last renewal attempt failed: ${reason}\n\n` : ''}Check that ${domainName} still points to your store. Once it does, the certificate is renewed automatically, or you can renew it from the domain's page.`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 8px; color: white; text-align: center; margin-bottom: 20px;">
+            <h1 style="margin: 0;">${appName}</h1>
+            <p style="margin: 10px 0 0;">Your SSL certificate is about to expire</p>
+          </div>
+          
+          <div style="background-color: #f9f9f9; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+            <p style="font-size: 16px; color: #333;">The SSL certificate for <strong>${domainName}</strong> expires on ${expiryDate} and hasn't been renewed yet.</p>
+            ${reason ? `<p style="font-size: 14px; color: #b91c1c;">The last renewal attempt failed: ${reason}</p>` : ''}
+          </div>
+          
+          <div style="text-align: center; color: #666; font-size: 14px;">
+            <p>Check that ${domainName} still points to your store. Once it does, the certificate is renewed automatically, or you can renew it from the domain's page.</p>
+          </div>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Failed to send email:', error);
+    return { success: false, error };
+  }
+};
+
+/**
+ * Send an email that's already been written, e.g. one from the outbox.
+ * Unlike the other send functions this throws when the mail server turns it
+ * down, so the caller can try again later.
+ *
+ * @param message - Recipient, subject, both versions of the body and any files, base64 encoded
+ * @returns The mail server's ID for the message
+ */
+export const sendEmail = async (message: {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[] | null;
+}) => {
+  const transporter = await createTransporter();
+  const info = await transporter.sendMail({
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments: message.attachments?.map(attachment => ({
+      filename: attachment.fileName,
+      contentType: attachment.contentType,
+      content: Buffer.from(attachment.content, 'base64'),
+    })),
+  });
+  return { messageId: info.messageId as string | undefined };
+};
+
+/**
+ * Send a short email to check the mail settings work
+ *
+ * @param to - Recipient email address
+ * @returns Email delivery information, or the mail server's error
+ */
+export const sendTestEmail = async (to: string) => {
+  try {
+    const transporter = await createTransporter();
+    
+    const appName = process.env.VITE_APP_NAME || 'MultiVend';
+    
+    const mailOptions = {
+      to,
+      subject: `Test email from ${appName}`,
+      text: `This is a test email from ${appName}. If you're reading it, your email settings work.`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 8px; color: white; text-align: center; margin-bottom: 20px;">
+            <h1 style="margin: 0;">${appName}</h1>
+            <p style="margin: 10px 0 0;">Test email</p>
+          </div>
+          
+          <div style="background-color: #f9f9f9; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+            <p style="font-size: 16px; color: #333;">This is a test email from ${appName}. If you're reading it, your email settings work.</p>
+          </div>
+        </div>
+      `,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Failed to send email:', error);
+    return { success: false, error };
+  }
+};
+
 export default {
   generateOtp,
   sendOtpEmail,
+  sendCertificateExpiryEmail,
+  sendEmail,
+  sendTestEmail,
 };
\ No newline at end of file
@@ -0,0 +1,419 @@
+import { EMAIL_TEMPLATE_NAMES, type EmailTemplateName, type Vendor } from "@shared/schema";
+import { storage } from "./storage";
+import { getBaseDomains } from "./platformDomains";
+
+export type EmailTemplateErrorCode = "UNKNOWN_TEMPLATE" | "UNKNOWN_PLACEHOLDER" | "NOT_CUSTOMIZABLE";
+
+export class EmailTemplateError extends Error {
+  public readonly code: EmailTemplateErrorCode;
+
+  constructor(code: EmailTemplateErrorCode, message: string) {
+    super(message);
+    this.name = "EmailTemplateError";
+    this.code = code;
+  }
+}
+
+// Customer emails go out in the vendor's name and vendors can reword them;
+// vendor emails come from the platform and only super admins can
+export type EmailAudience = "customer" | "vendor";
+
+interface EmailTemplateDefinition {
+  label: string;
+  // When it's sent
+  description: string;
+  audience: EmailAudience;
+  subject: string;
+  body: string;
+  // Every placeholder the template can use besides {{appName}}, with the value previews show
+  placeholders: Record<string, string>;
+}
+
+export interface EmailContent {
+  subject: string;
+  body: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailBranding {
+  name: string;
+  logoUrl: string | null;
+  color: string;
+  footer: string;
+}
+
+export interface EmailTemplateSummary extends EmailContent {
+  name: EmailTemplateName;
+  label: string;
+  description: string;
+  audience: EmailAudience;
+  placeholders: string[];
+  // Whether this vendor (or, for the platform, a super admin) has reworded it
+  isCustomized: boolean;
+  // What resetting it goes back to
+  defaultSubject: string;
+  defaultBody: string;
+}
+
+const appName = () => process.env.VITE_APP_NAME || "MultiVend";
+
+const CUSTOMER_PLACEHOLDERS = { storeName: "Acme Apparel", customerName: "Priya" };
+const VENDOR_PLACEHOLDERS = { storeName: "Acme Apparel", vendorName: "Rahul" };
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateName, EmailTemplateDefinition> = {
+  order_confirmation: {
+    label: "Order confirmation",
+    description: "Sent to the customer once an order is placed (cash on delivery) or paid for",
+    audience: "customer",
+    subject: "Your {{storeName}} order {{orderNumber}} is confirmed",
+    body: [
+      "Hi {{customerName}},",
+      "Thank you for your order! We've received order {{orderNumber}} and will let you know as soon as it ships.",
+      "{{itemList}}",
+      "Total: {{orderTotal}}",
+      "It will be delivered to {{shippingAddress}}.",
+    ].join("\n\n"),
+    placeholders: {
+      ...CUSTOMER_PLACEHOLDERS,
+      orderNumber: "ORD-10482",
+      itemList: "2 × Cotton T-shirt\n1 × Canvas tote bag",
+      orderTotal: "INR 1,497.00",
+      shippingAddress: "12 MG Road, Bengaluru, Karnataka",
+    },
+  },
+  shipping_update: {
+    label: "Shipping update",
+    description: "Sent to the customer when a shipment goes out, gets new tracking details or is delivered",
+    audience: "customer",
+    subject: "Your {{storeName}} order {{orderNumber}} {{shipmentStatus}}",
+    body: [
+      "Hi {{customerName}},",
+      "Your order {{orderNumber}} {{shipmentStatus}}.",
+      "{{trackingDetails}}",
+      "Thank you for shopping with {{storeName}}.",
+    ].join("\n\n"),
+    placeholders: {
+      ...CUSTOMER_PLACEHOLDERS,
+      orderNumber: "ORD-10482",
+      shipmentStatus: "has shipped",
+      trackingDetails: "Carrier: Blue Dart\nTracking number: 58213390124\nTrack it at https://www.bluedart.com/tracking",
+    },
+  },
+  refund_issued: {
+    label: "Refund issued",
+    description: "Sent to the customer when a return is approved with a refund",
+    audience: "customer",
+    subject: "Your refund for order {{orderNumber}}",
+    body: [
+      "Hi {{customerName}},",
+      "We've approved return {{rmaNumber}} for order {{orderNumber}} and refunded {{refundAmount}} to your original payment method. It can take a few days to show up on your statement.",
+      "{{vendorNote}}",
+    ].join("\n\n"),
+    placeholders: {
+      ...CUSTOMER_PLACEHOLDERS,
+      orderNumber: "ORD-10482",
+      rmaNumber: "RMA-2291",
+      refundAmount: "INR 499.00",
+      vendorNote: "Sorry the shirt didn't fit. We hope to see you again soon!",
+    },
+  },
+  invoice_due: {
+    label: "Invoice due",
+    description: "Sent to the vendor a few days before their subscription renews",
+    audience: "vendor",
+    subject: "Your {{appName}} invoice of {{amount}} is due on {{dueDate}}",
+    body: [
+      "Hi {{vendorName}},",
+      "The {{planName}} plan for {{storeName}} renews on {{dueDate}}, and we'll charge {{amount}} to the payment method on your subscription then.",
+      "To change your plan or payment method, visit the Subscription page of your dashboard before then.",
+    ].join("\n\n"),
+    placeholders: { ...VENDOR_PLACEHOLDERS, planName: "Growth", amount: "USD 29.00", dueDate: "1 November 2026" },
+  },
+  trial_ending: {
+    label: "Trial ending",
+    description: "Sent to the vendor a few days before their free trial ends",
+    audience: "vendor",
+    subject: "Your {{appName}} trial ends on {{trialEndsAt}}",
+    body: [
+      "Hi {{vendorName}},",
+      "The free trial for {{storeName}} ends on {{trialEndsAt}}. After that the {{planName}} plan costs {{amount}}, charged to the payment method on your subscription.",
+      "To keep your store running without interruption, check your payment method on the Subscription page of your dashboard.",
+    ].join("\n\n"),
+    placeholders: { ...VENDOR_PLACEHOLDERS, planName: "Growth", amount: "USD 29.00", trialEndsAt: "1 November 2026" },
+  },
+  domain_verified: {
+    label: "Domain verified",
+    description: "Sent to the vendor when one of their custom domains is verified",
+    audience: "vendor",
+    subject: "{{domainName}} is verified",
+    body: [
+      "Hi {{vendorName}},",
+      "We've confirmed that you own {{domainName}}, and it now points to {{storeName}}. Its SSL certificate is issued automatically, so your store will be available at https://{{domainName}} shortly.",
+    ].join("\n\n"),
+    placeholders: { ...VENDOR_PLACEHOLDERS, domainName: "shop.acme.in" },
+  },
+  payout_completed: {
+    label: "Payout completed",
+    description: "Sent to the vendor when a payout is marked complete",
+    audience: "vendor",
+    subject: "Your payout of {{payoutAmount}} has been sent",
+    body: [
+      "Hi {{vendorName}},",
+      "We've sent your payout of {{payoutAmount}} for {{storeName}} by {{payoutMethod}}. Depending on your bank it can take a few days to arrive.",
+      "{{payoutReference}}",
+    ].join("\n\n"),
+    placeholders: { ...VENDOR_PLACEHOLDERS, payoutAmount: "INR 18,240.00", payoutMethod: "bank transfer", payoutReference: "Reference: PO-88213" },
+  },
+  payment_failed: {
+    label: "Payment failed",
+    description: "Sent to the vendor each time a subscription payment fails",
+    audience: "vendor",
+    subject: "Payment of {{amount}} for your {{appName}} subscription failed",
+    body: [
+      "Hi {{vendorName}},",
+      "We couldn't take the payment of {{amount}} for invoice {{invoiceNumber}}.",
+      "{{failureReason}}",
+      "{{retryDetails}} Please check the payment method on the Subscription page of your dashboard.",
+      "If invoice {{invoiceNumber}} is still unpaid on {{suspendAt}}, {{storeName}} will be suspended and your store taken offline until it is paid.",
+    ].join("\n\n"),
+    placeholders: {
+      ...VENDOR_PLACEHOLDERS,
+      amount: "USD 29.00",
+      invoiceNumber: "INV-2026-0042",
+      failureReason: "The payment failed: Your card has insufficient funds.",
+      retryDetails: "We'll try the payment again on 4 November 2026.",
+      suspendAt: "15 November 2026",
+    },
+  },
+  store_suspended: {
+    label: "Store suspended",
+    description: "Sent to the vendor when their store is suspended for an unpaid subscription invoice",
+    audience: "vendor",
+    subject: "{{storeName}} has been suspended",
+    body: [
+      "Hi {{vendorName}},",
+      "Invoice {{invoiceNumber}} for your {{appName}} subscription is still unpaid, so {{storeName}} has been suspended and your storefront shows customers that the store is unavailable.",
+      "Your products, orders and settings are kept. Pay the invoice from the Subscription page of your dashboard and your store comes back online straight away.",
+    ].join("\n\n"),
+    placeholders: { ...VENDOR_PLACEHOLDERS, invoiceNumber: "INV-2026-0042" },
+  },
+  scheduled_report: {
+    label: "Scheduled report",
+    description: "Sent to a report schedule's recipients with the report attached",
+    audience: "vendor",
+    subject: "{{reportTitle}} for {{storeName}}: {{reportPeriod}}",
+    body: [
+      "Your scheduled report, {{reportTitle}}, for {{storeName}}, covering {{reportPeriod}}, is attached as {{fileName}}.",
+      "You can change or stop scheduled reports from the Reports page of your dashboard.",
+    ].join("\n\n"),
+    placeholders: {
+      storeName: "Acme Apparel",
+      reportTitle: "Sales by day",
+      reportPeriod: "1 October 2026 to 31 October 2026",
+      fileName: "sales-by-day-2026-10.csv",
+    },
+  },
+};
+
+// The primary colour of each store palette, as the storefront uses them
+const PALETTE_COLORS: Record<string, string> = {
+  default: "#4f46e5",
+  ocean: "#0891b2",
+  forest: "#15803d",
+  sunset: "#db2777",
+  monochrome: "#404040",
+};
+
+// The platform's own emails, like the ones in emailService
+const PLATFORM_COLOR = "#667eea";
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function isEmailTemplateName(name: string): name is EmailTemplateName {
+  return (EMAIL_TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+// For values put into an email's HTML, e.g. names vendors chose themselves
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Logos uploaded to the platform are stored as paths; emails need the whole URL
+function absoluteUrl(url: string): string {
+  return /^https?:\/\//i.test(url) ? url : `https://${getBaseDomains()[0]}${url.startsWith("/") ? "" : "/"}${url}`;
+}
+
+/**
+ * How a vendor's customer emails look: their name, logo and palette colour.
+ * Without a vendor, the platform's.
+ */
+export function emailBranding(vendor?: Vendor): EmailBranding {
+  if (!vendor) {
+    return { name: appName(), logoUrl: null, color: PLATFORM_COLOR, footer: `Sent by ${appName()}` };
+  }
+  return {
+    name: vendor.companyName,
+    logoUrl: vendor.logoUrl ? absoluteUrl(vendor.logoUrl) : null,
+    color: PALETTE_COLORS[vendor.colorPalette ?? "default"] ?? PALETTE_COLORS.default,
+    footer: `Sent by ${vendor.companyName}`,
+  };
+}
+
+/**
+ * Throw if the subject or body uses a placeholder the template doesn't have,
+ * which would otherwise go out blank
+ */
+export function assertPlaceholders(name: EmailTemplateName, content: EmailContent): void {
+  const known = EMAIL_TEMPLATE_DEFINITIONS[name].placeholders;
+  const used = Array.from(`${content.subject}\n${content.body}`.matchAll(PLACEHOLDER), match => match[1]);
+  const unknown = Array.from(new Set(used.filter(placeholder => !(placeholder in known) && placeholder !== "appName")));
+  if (unknown.length > 0) {
+    throw new EmailTemplateError(
+      "UNKNOWN_PLACEHOLDER",
+      `${unknown.map(placeholder => `{{${placeholder}}}`).join(", ")} can't be used here. Use any of: ${Object.keys(known).map(placeholder => `{{${placeholder}}}`).join(", ")}`
+    );
+  }
+}
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (_match, placeholder: string) => values[placeholder] ?? "");
+}
+
+/**
+ * Fill in a template's placeholders and wrap its body in the branded layout.
+ * Paragraphs left empty (e.g. no tracking details yet) are dropped.
+ */
+export function renderEmail(content: EmailContent, values: Record<string, string>, branding: EmailBranding): RenderedEmail {
+  const allValues = { appName: appName(), ...values };
+  // Line breaks in a value would start new header lines
+  const subject = fill(content.subject, allValues).replace(/\s+/g, " ").trim();
+  const paragraphs = fill(content.body, allValues)
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+
+  const linked = (paragraph: string) => escapeHtml(paragraph)
+    .replace(/https?:\/\/[^\s<]*[^\s<.,;:!?)]/g, url => `<a href="${url}" style="color: ${branding.color};">${url}</a>`)
+    .replace(/\n/g, "<br>");
+  const header = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" style="max-height: 48px; max-width: 200px;">`
+    : `<h1 style="margin: 0;">${escapeHtml(branding.name)}</h1>`;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background-color: ${branding.color}; padding: 20px; border-radius: 8px; color: white; text-align: center; margin-bottom: 20px;">
+        ${header}
+      </div>
+
+      <div style="background-color: #f9f9f9; border-radius: 8px; padding: 20px; margin-bottom: 20px;">
+        ${paragraphs.map(paragraph => `<p style="font-size: 16px; color: #333;">${linked(paragraph)}</p>`).join("\n        ")}
+      </div>
+
+      <div style="text-align: center; color: #666; font-size: 14px;">
+        <p>${escapeHtml(branding.footer)}</p>
+      </div>
+    </div>
+  `;
+
+  return { subject, html, text: `${paragraphs.join("\n\n")}\n\n${branding.footer}` };
+}
+
+/**
+ * The wording an email goes out with: the vendor's own for customer emails,
+ * then the platform's, then the built-in one
+ */
+export async function getEmailContent(name: EmailTemplateName, vendorId: number | null): Promise<EmailContent> {
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[name];
+  if (vendorId !== null && definition.audience === "customer") {
+    const own = await storage.getEmailTemplate(vendorId, name);
+    if (own) return { subject: own.subject, body: own.body };
+  }
+  const platform = await storage.getEmailTemplate(null, name);
+  return platform ? { subject: platform.subject, body: platform.body } : { subject: definition.subject, body: definition.body };
+}
+
+// Vendors can only reword the emails their customers get
+function assertCustomizable(vendorId: number | null, name: string): asserts name is EmailTemplateName {
+  if (!isEmailTemplateName(name)) {
+    throw new EmailTemplateError("UNKNOWN_TEMPLATE", `There's no email template called ${name}`);
+  }
+  if (vendorId !== null && EMAIL_TEMPLATE_DEFINITIONS[name].audience !== "customer") {
+    throw new EmailTemplateError("NOT_CUSTOMIZABLE", "Only the emails your customers get can be changed");
+  }
+}
+
+/**
+ * The templates a vendor can reword (their customer emails), or with a null
+ * vendor every template, with the wording each currently goes out with
+ */
+export async function listEmailTemplates(vendorId: number | null): Promise<EmailTemplateSummary[]> {
+  const own = new Map((await storage.getEmailTemplates(vendorId)).map(template => [template.template, template]));
+  const platform = vendorId === null ? new Map() : new Map((await storage.getEmailTemplates(null)).map(template => [template.template, template]));
+
+  return EMAIL_TEMPLATE_NAMES
+    .filter(name => vendorId === null || EMAIL_TEMPLATE_DEFINITIONS[name].audience === "customer")
+    .map(name => {
+      const definition = EMAIL_TEMPLATE_DEFINITIONS[name];
+      const fallback = platform.get(name) ?? definition;
+      const current = own.get(name) ?? fallback;
+      return {
+        name,
+        label: definition.label,
+        description: definition.description,
+        audience: definition.audience,
+        placeholders: ["appName", ...Object.keys(definition.placeholders)],
+        subject: current.subject,
+        body: current.body,
+        isCustomized: own.has(name),
+        defaultSubject: fallback.subject,
+        defaultBody: fallback.body,
+      };
+    });
+}
+
+/**
+ * Save a vendor's (or with a null vendor, the platform's) wording for a template
+ */
+export async function saveEmailTemplate(vendorId: number | null, name: string, content: EmailContent): Promise<EmailTemplateSummary> {
+  assertCustomizable(vendorId, name);
+  assertPlaceholders(name, content);
+  await storage.saveEmailTemplate({ vendorId, template: name, subject: content.subject, body: content.body });
+  return (await listEmailTemplates(vendorId)).find(template => template.name === name)!;
+}
+
+/**
+ * Go back to the default wording for a template
+ */
+export async function resetEmailTemplate(vendorId: number | null, name: string): Promise<EmailTemplateSummary> {
+  assertCustomizable(vendorId, name);
+  await storage.deleteEmailTemplate(vendorId, name);
+  return (await listEmailTemplates(vendorId)).find(template => template.name === name)!;
+}
+
+/**
+ * Render a template with example values, with unsaved wording if given, so
+ * the editor can show what customers would get
+ */
+export async function previewEmailTemplate(vendorId: number | null, name: string, content?: EmailContent): Promise<RenderedEmail> {
+  assertCustomizable(vendorId, name);
+  if (content) assertPlaceholders(name, content);
+
+  const vendor = vendorId !== null ? await storage.getVendor(vendorId) : undefined;
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[name];
+  const branding = emailBranding(definition.audience === "customer" ? vendor : undefined);
+  return renderEmail(
+    content ?? (await getEmailContent(name, vendorId)),
+    { ...definition.placeholders, ...(vendor ? { storeName: vendor.companyName } : {}) },
+    branding
+  );
+}
@@ -0,0 +1,162 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { OrderTransitionError } from "./orderLifecycle";
+import { queueShippingUpdate } from "./transactionalEmails";
+
+// Define custom Request type with user property
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+const fulfillmentSchema = z.object({
+  carrier: z.string().trim().min(1).nullable().optional(),
+  trackingNumber: z.string().trim().min(1).nullable().optional(),
+  trackingUrl: z.string().url().nullable().optional(),
+  // Leave out to ship everything that hasn't gone out yet
+  items: z.array(z.object({
+    orderItemId: z.number().int(),
+    quantity: z.number().int().positive()
+  })).min(1).optional()
+});
+
+const fulfillmentUpdateSchema = z.object({
+  carrier: z.string().trim().min(1).nullable().optional(),
+  trackingNumber: z.string().trim().min(1).nullable().optional(),
+  trackingUrl: z.string().url().nullable().optional(),
+  status: z.enum(["shipped", "delivered"]).optional()
+});
+
+const noteSchema = z.object({
+  message: z.string().trim().min(1, "Note can't be empty").max(2000)
+});
+
+/**
+ * Register order timeline and fulfillment (shipment) routes
+ */
+export default function registerFulfillmentRoutes(app: Express) {
+  // Middleware to check the order belongs to a vendor the user manages
+  const requireOrderAccess = async (request: Request, res: Response, next: NextFunction) => {
+    const req = request as AuthRequest;
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ message: "Invalid order ID" });
+    }
+
+    const order = await storage.getOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    if (req.user.role === "super_admin") {
+      return next();
+    }
+
+    const vendor = await storage.getVendor(order.vendorId);
+    if (!vendor || vendor.userId !== req.user.id) {
+      return res.status(403).json({ message: "You don't have permission to access this order" });
+    }
+
+    next();
+  };
+
+  // Order timeline
+  app.get("/api/orders/:orderId/events", requireOrderAccess, async (req, res) => {
+    try {
+      const events = await storage.getOrderEvents(parseInt(req.params.orderId));
+      res.json(events);
+    } catch (error: any) {
+      console.error("Error getting order events:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add a note to the timeline
+  app.post("/api/orders/:orderId/events", requireOrderAccess, async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const { message } = noteSchema.parse(req.body);
+      const event = await storage.createOrderEvent({
+        orderId: parseInt(req.params.orderId),
+        type: "note",
+        message,
+        actorId: req.user.id
+      });
+      res.status(201).json(event);
+    } catch (error: any) {
+      console.error("Error adding order note:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // List an order's shipments
+  app.get("/api/orders/:orderId/fulfillments", requireOrderAccess, async (req, res) => {
+    try {
+      const fulfillments = await storage.getFulfillments(parseInt(req.params.orderId));
+      res.json(fulfillments);
+    } catch (error: any) {
+      console.error("Error getting fulfillments:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Ship some or all of an order's items
+  app.post("/api/orders/:orderId/fulfillments", requireOrderAccess, async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const { items, ...data } = fulfillmentSchema.parse(req.body);
+      const fulfillment = await storage.createFulfillment(parseInt(req.params.orderId), data, items, req.user.id);
+      if (fulfillment) {
+        await queueShippingUpdate(fulfillment);
+      }
+      res.status(201).json(fulfillment);
+    } catch (error: any) {
+      console.error("Error creating fulfillment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof OrderTransitionError) {
+        return res.status(409).json({ message: error.message, error: error.code });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update tracking details or mark a shipment delivered
+  app.patch("/api/orders/:orderId/fulfillments/:id", requireOrderAccess, async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const id = parseInt(req.params.id);
+      const fulfillment = isNaN(id) ? undefined : await storage.getFulfillment(id);
+      if (!fulfillment || fulfillment.orderId !== parseInt(req.params.orderId)) {
+        return res.status(404).json({ message: "Fulfillment not found" });
+      }
+
+      const data = fulfillmentUpdateSchema.parse(req.body);
+      if (fulfillment.status === "delivered" && data.status === "shipped") {
+        return res.status(409).json({ message: "A delivered shipment can't be marked as shipped again" });
+      }
+
+      const updatedFulfillment = await storage.updateFulfillment(id, data, req.user.id);
+      // Only a delivery or a new tracking number gets the customer another email
+      if (updatedFulfillment) {
+        await queueShippingUpdate(updatedFulfillment);
+      }
+      res.json(updatedFulfillment);
+    } catch (error: any) {
+      console.error("Error updating fulfillment:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+}
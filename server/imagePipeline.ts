@@ -0,0 +1,151 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import type { ImageAsset, ImageRendition } from "@shared/schema";
+import { storage } from "./storage";
+import { getImageStore, type ImageStore } from "./imageStorage";
+
+// Widths are upper bounds; smaller images are never enlarged
+export const IMAGE_RENDITIONS = [
+  { name: "thumbnail", width: 160 },
+  { name: "medium", width: 480 },
+  { name: "large", width: 1200 },
+] as const;
+
+export const IMAGE_FORMATS = ["webp", "avif"] as const;
+
+// Camera images are fine; decompression bombs are not
+const MAX_INPUT_PIXELS = 50_000_000;
+
+const FORMAT_CONTENT_TYPES: Record<(typeof IMAGE_FORMATS)[number], string> = {
+  webp: "image/webp",
+  avif: "image/avif",
+};
+
+export type ImageProcessingErrorCode = "UNSUPPORTED_TYPE" | "INVALID_IMAGE";
+
+/**
+ * An upload that isn't an image we can process. The message is meant to be
+ * shown as-is.
+ */
+export class ImageProcessingError extends Error {
+  public readonly code: ImageProcessingErrorCode;
+
+  constructor(code: ImageProcessingErrorCode, message: string) {
+    super(message);
+    this.name = "ImageProcessingError";
+    this.code = code;
+  }
+}
+
+/**
+ * The image type a file really is, from its first bytes rather than its name
+ * or the type the browser claimed
+ */
+export function detectImageType(buffer: Buffer): string | null {
+  const ascii = (start: number, end: number) => buffer.subarray(start, end).toString("latin1");
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return "image/gif";
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  // ISO base media file with an AVIF brand
+  if (ascii(4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(8, 12))) {
+    return "image/avif";
+  }
+  return null;
+}
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }): string {
+  return "#" + [r, g, b].map(channel => channel.toString(16).padStart(2, "0")).join("");
+}
+
+export interface ProcessedImage {
+  mimeType: string;
+  width: number;
+  height: number;
+  dominantColor: string;
+  renditions: (Omit<ImageRendition, "url"> & { data: Buffer })[];
+}
+
+/**
+ * Turn an uploaded image into WebP and AVIF renditions at each size. The
+ * image is turned upright from its EXIF orientation and everything else in
+ * its metadata (location, camera details) is dropped.
+ */
+export async function processImage(buffer: Buffer): Promise<ProcessedImage> {
+  const mimeType = detectImageType(buffer);
+  if (!mimeType) {
+    throw new ImageProcessingError("UNSUPPORTED_TYPE", "Only JPEG, PNG, GIF, WebP and AVIF images can be uploaded");
+  }
+
+  let upright: sharp.Sharp;
+  let width: number;
+  let height: number;
+  let dominantColor: string;
+  try {
+    const image = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS });
+    const metadata = await image.metadata();
+    // Orientations 5-8 are rotated a quarter turn
+    const swapped = (metadata.orientation ?? 1) >= 5;
+    width = (swapped ? metadata.height : metadata.width) ?? 0;
+    height = (swapped ? metadata.width : metadata.height) ?? 0;
+
+    upright = image.rotate();
+    dominantColor = toHex((await image.stats()).dominant);
+  } catch (error: any) {
+    throw new ImageProcessingError("INVALID_IMAGE", `The image couldn't be read: ${error.message}`);
+  }
+
+  const renditions: ProcessedImage["renditions"] = [];
+  for (const rendition of IMAGE_RENDITIONS) {
+    for (const format of IMAGE_FORMATS) {
+      const resized = upright.clone().resize({ width: rendition.width, withoutEnlargement: true });
+      const { data, info } = await (format === "webp" ? resized.webp({ quality: 80 }) : resized.avif({ quality: 55 }))
+        .toBuffer({ resolveWithObject: true });
+      renditions.push({ name: rendition.name, format, width: info.width, height: info.height, size: info.size, data });
+    }
+  }
+
+  return { mimeType, width, height, dominantColor, renditions };
+}
+
+/**
+ * Process an uploaded image, store its renditions and record them. The
+ * large WebP rendition's URL is the one to save on products.
+ */
+export async function storeImage(
+  buffer: Buffer,
+  owner: { vendorId: number | null; userId: number | null },
+  store: ImageStore = getImageStore()
+): Promise<ImageAsset> {
+  const processed = await processImage(buffer);
+  const key = `images/${crypto.randomUUID()}`;
+
+  const renditions: ImageRendition[] = [];
+  for (const { data, ...rendition } of processed.renditions) {
+    const url = await store.put(`${key}/${rendition.name}.${rendition.format}`, data, FORMAT_CONTENT_TYPES[rendition.format as keyof typeof FORMAT_CONTENT_TYPES]);
+    renditions.push({ ...rendition, url });
+  }
+  const primary = renditions.find(rendition => rendition.name === "large" && rendition.format === "webp")!;
+
+  return storage.createImageAsset({
+    vendorId: owner.vendorId,
+    userId: owner.userId,
+    storage: store.backend,
+    key,
+    url: primary.url,
+    mimeType: processed.mimeType,
+    width: processed.width,
+    height: processed.height,
+    dominantColor: processed.dominantColor,
+    renditions,
+  });
+}
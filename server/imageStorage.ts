@@ -0,0 +1,125 @@
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Get current directory (ESM equivalent of __dirname)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Served at /uploads by the upload routes
+export const LOCAL_UPLOADS_DIR = path.join(__dirname, "uploads");
+export const LOCAL_UPLOADS_PATH = "/uploads";
+
+export type ImageStorageBackend = "local" | "s3";
+
+/**
+ * Where processed images (and generated documents) are written. Keys are
+ * relative paths like "images/<id>/large.webp"; the URL returned is what
+ * pages load. Private files are read back with `get` and served by the app.
+ */
+export interface ImageStore {
+  readonly backend: ImageStorageBackend;
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export function isS3Configured(): boolean {
+  return Boolean(
+    process.env.AWS_ACCESS_KEY_ID &&
+    process.env.AWS_SECRET_ACCESS_KEY &&
+    process.env.AWS_REGION &&
+    process.env.AWS_BUCKET_NAME
+  );
+}
+
+/**
+ * Files on the server's disk, for development and tests without AWS
+ */
+export class LocalImageStore implements ImageStore {
+  readonly backend = "local" as const;
+
+  constructor(private readonly dir = LOCAL_UPLOADS_DIR, private readonly publicPath = LOCAL_UPLOADS_PATH) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.dir, key);
+    if (!filePath.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Objects in the S3 bucket from s3Config. That module refuses to load
+ * without AWS credentials, so it's only imported once S3 is in use.
+ */
+export class S3ImageStore implements ImageStore {
+  readonly backend = "s3" as const;
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    const { s3Client, bucketName } = await import("./s3Config");
+    const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+    await s3Client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Renditions never change once written
+      CacheControl: "public, max-age=31536000, immutable",
+    }));
+    return `https://${bucketName}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const { s3Client, bucketName } = await import("./s3Config");
+    const { GetObjectCommand } = await import("@aws-sdk/client-s3");
+    const object = await s3Client.send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+    if (!object.Body) {
+      throw new Error(`Empty object: ${key}`);
+    }
+    return Buffer.from(await object.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    const { deleteFileFromS3 } = await import("./s3Config");
+    await deleteFileFromS3(key);
+  }
+}
+
+let imageStore: ImageStore | null = null;
+
+/**
+ * The configured image store: IMAGE_STORAGE=local|s3, defaulting to S3 when
+ * AWS is configured and local disk otherwise
+ */
+export function getImageStore(): ImageStore {
+  if (!imageStore) {
+    const backend = process.env.IMAGE_STORAGE || (isS3Configured() ? "s3" : "local");
+    if (backend === "s3" && !isS3Configured()) {
+      throw new Error("IMAGE_STORAGE=s3 needs AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_REGION and AWS_BUCKET_NAME");
+    }
+    imageStore = backend === "s3" ? new S3ImageStore() : new LocalImageStore();
+  }
+  return imageStore;
+}
+
+// For tests, or to switch backends without restarting
+export function setImageStore(store: ImageStore | null): void {
+  imageStore = store;
+}
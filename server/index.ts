@@ -3,6 +3,9 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { domainMiddleware } from "./middleware/domainMiddleware";
+import { startJobScheduler } from "./jobScheduler";
+import { SCHEDULED_JOBS } from "./scheduledJobs";
+import { startSmtpSink } from "./smtpSink";
 import { createServer } from "http";
 import { WebSocketServer } from "ws";
 import cors from "cors";
@@ -19,7 +22,12 @@ app.use(cors({
   allowedHeaders: ['Content-Type', 'Authorization'],
 }));
 
-app.use(express.json());
+// Keep the raw body too: webhook signatures are computed over the exact bytes sent
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as Request & { rawBody?: Buffer }).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 // Add domain routing middleware
@@ -58,6 +66,21 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Run domain checks, certificate renewal, billing, analytics rollups, scheduled
+  // reports, queued emails and cleanups; one instance at a time runs them
+  startJobScheduler(SCHEDULED_JOBS);
+
+  // Keep outgoing email locally instead of sending it. If the port is taken,
+  // e.g. by a test's own sink, mail goes to whatever is listening there.
+  if (process.env.SMTP_SINK_PORT) {
+    startSmtpSink(parseInt(process.env.SMTP_SINK_PORT), message => {
+      log(`SMTP sink got "${message.subject}" for ${message.to.join(", ")}`);
+    }).then(
+      sink => log(`SMTP sink listening on port ${sink.port}`),
+      error => log(`SMTP sink not started: ${error.message}`)
+    );
+  }
+
   // Create WebSocket server
   const wss = new WebSocketServer({ 
     server,
@@ -0,0 +1,74 @@
+import type { ProductVariant } from "@shared/schema";
+
+/**
+ * A single cart line that needs stock reserved at checkout.
+ * When variantId is set, stock is taken from the variant instead of the product.
+ */
+export interface StockRequest {
+  productId: number;
+  variantId: number | null;
+  name: string;
+  quantity: number;
+}
+
+/**
+ * A cart line that could not be reserved because there isn't enough stock
+ */
+export interface StockShortage {
+  productId: number;
+  variantId: number | null;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Thrown when one or more lines of an order can't be reserved.
+ * Carries every short line so the client can show them all at once.
+ */
+export class InsufficientStockError extends Error {
+  public readonly shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super("Insufficient stock for one or more items");
+    this.name = "InsufficientStockError";
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Merge lines that draw from the same stock record so that two cart lines for
+ * the same product (or variant) are checked against their combined quantity.
+ * The result is sorted so rows are always locked in the same order, which
+ * keeps concurrent checkouts from deadlocking each other.
+ */
+export function groupStockRequests(lines: StockRequest[]): StockRequest[] {
+  const grouped = new Map<string, StockRequest>();
+
+  for (const line of lines) {
+    const key = line.variantId ? `v:${line.variantId}` : `p:${line.productId}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+    } else {
+      grouped.set(key, { ...line });
+    }
+  }
+
+  return Array.from(grouped.values()).sort((a, b) => {
+    if (!!a.variantId !== !!b.variantId) return a.variantId ? 1 : -1;
+    return (a.variantId ?? a.productId) - (b.variantId ?? b.productId);
+  });
+}
+
+/**
+ * The variant a cart line was added with, looked up among its product's own
+ * variants so a stale or foreign variant id never prices or ships a line
+ */
+export function findLineVariant(
+  variants: ProductVariant[],
+  variantId: number | null | undefined
+): ProductVariant | undefined {
+  if (variantId == null) return undefined;
+  return variants.find(v => v.id === variantId);
+}
@@ -0,0 +1,68 @@
+import { Express, Response } from "express";
+import { z, ZodError } from "zod";
+import { storage } from "./storage";
+import { hasRole } from "./auth";
+import { getSchedulerStatus, JobSchedulerError, requestJobRun, updateJobSchedule } from "./jobScheduler";
+
+const jobScheduleChangesSchema = z.object({
+  cronExpression: z.string().min(1).max(100).optional(),
+  isEnabled: z.boolean().optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+});
+
+function handleJobError(res: Response, error: any) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: "Validation error", errors: error.errors });
+  }
+  if (error instanceof JobSchedulerError) {
+    return res.status(error.code === "UNKNOWN_JOB" ? 404 : 400).json({ message: error.message, error: error.code });
+  }
+  console.error("Error handling job request:", error);
+  return res.status(500).json({ message: "Internal server error" });
+}
+
+/**
+ * Register scheduled job routes: super admins see each job's schedule, last
+ * runs and failures, change schedules and run jobs now
+ */
+export default function registerJobRoutes(app: Express) {
+  const requireSuperAdmin = hasRole(["super_admin"]);
+
+  app.get("/api/admin/jobs", requireSuperAdmin, async (_req, res) => {
+    try {
+      const [jobs, scheduler] = await Promise.all([storage.getScheduledJobs(), getSchedulerStatus()]);
+      res.json({ scheduler, jobs });
+    } catch (error) {
+      return handleJobError(res, error);
+    }
+  });
+
+  // Run history, newest first: for every job, or one with ?job=
+  app.get("/api/admin/job-runs", requireSuperAdmin, async (req, res) => {
+    try {
+      const jobName = typeof req.query.job === "string" ? req.query.job : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(await storage.getJobRuns(jobName, limit));
+    } catch (error) {
+      return handleJobError(res, error);
+    }
+  });
+
+  app.patch("/api/admin/jobs/:name", requireSuperAdmin, async (req, res) => {
+    try {
+      const changes = jobScheduleChangesSchema.parse(req.body);
+      res.json(await updateJobSchedule(req.params.name, changes));
+    } catch (error) {
+      return handleJobError(res, error);
+    }
+  });
+
+  // Picked up by whichever instance is running jobs within a few seconds
+  app.post("/api/admin/jobs/:name/run", requireSuperAdmin, async (req, res) => {
+    try {
+      res.status(202).json(await requestJobRun(req.params.name));
+    } catch (error) {
+      return handleJobError(res, error);
+    }
+  });
+}
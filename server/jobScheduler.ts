@@ -0,0 +1,300 @@
+import { hostname } from "os";
+import type { PoolClient } from "@neondatabase/serverless";
+import type { JobRun, JobRunTrigger, ScheduledJob } from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { CronError, nextCronRun, parseCron } from "./cron";
+import { DAY_MS } from "./analyticsPeriods";
+
+/**
+ * A background job. Its schedule and state are kept in `scheduled_jobs`, so
+ * they survive restarts and super admins can change them.
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Cron expression (UTC) the job starts with; changes made by admins are kept
+  schedule: string;
+  // Attempts before a failing job waits for its next scheduled run (3 by default)
+  maxAttempts?: number;
+  // Whatever it returns is kept on the run, e.g. counts of what it did
+  run: (now: Date) => Promise<unknown>;
+}
+
+export type JobSchedulerErrorCode = "UNKNOWN_JOB" | "INVALID_SCHEDULE";
+
+export class JobSchedulerError extends Error {
+  public readonly code: JobSchedulerErrorCode;
+
+  constructor(code: JobSchedulerErrorCode, message: string) {
+    super(message);
+    this.name = "JobSchedulerError";
+    this.code = code;
+  }
+}
+
+export interface JobScheduleChanges {
+  cronExpression?: string;
+  isEnabled?: boolean;
+  maxAttempts?: number;
+}
+
+// Any fixed number will do, as long as every instance uses the same one
+const LEADER_LOCK_KEY = 72_024_001;
+
+// A failed job is retried after 1, 2, 4… minutes, unless its next scheduled run comes first
+const RETRY_BASE_MS = 60 * 1000;
+
+const INSTANCE_ID = `${hostname()}:${process.pid}`;
+
+const definitions = new Map<string, JobDefinition>();
+const running = new Set<string>();
+
+// The connection holding the leader lock. Postgres lets go of the lock if
+// it drops, so another instance takes over when this one goes away.
+let leader: PoolClient | null = null;
+
+function dropLeadership(error?: Error) {
+  const client = leader;
+  leader = null;
+  // Releasing with an error closes the connection, which releases the lock
+  client?.release(error ?? true);
+}
+
+/**
+ * Whether this instance leads, and so runs jobs. Only one instance at a time
+ * holds the advisory lock. Needs a direct (session) connection: a pooler in
+ * transaction mode can't hold session locks.
+ */
+async function holdLeadership(): Promise<boolean> {
+  if (leader) {
+    try {
+      await leader.query("SELECT 1");
+      return true;
+    } catch (error) {
+      console.warn("Lost the job scheduler's database connection:", error);
+      dropLeadership(error as Error);
+    }
+  }
+
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query("SELECT pg_try_advisory_lock($1) AS locked", [LEADER_LOCK_KEY]);
+    if (!rows[0]?.locked) {
+      client.release();
+      return false;
+    }
+  } catch (error) {
+    client.release(error as Error);
+    throw error;
+  }
+
+  client.on("error", error => {
+    console.error("Job scheduler connection error:", error);
+    if (leader === client) dropLeadership(error);
+  });
+  leader = client;
+
+  // The previous leader stopped without finishing these
+  if (running.size === 0) {
+    await storage.failRunningJobRuns("Interrupted: the server running it stopped", new Date());
+  }
+  return true;
+}
+
+/**
+ * Whether any instance currently holds the leader lock, and whether it's this one
+ */
+export async function getSchedulerStatus(): Promise<{ instanceId: string; isLeader: boolean; hasLeader: boolean }> {
+  // A bigint advisory lock shows up in pg_locks split into classid (high bits) and objid
+  const { rows } = await pool.query(
+    "SELECT EXISTS (SELECT 1 FROM pg_locks WHERE locktype = 'advisory' AND classid = 0 AND objid = $1 AND objsubid = 1 AND granted) AS held",
+    [LEADER_LOCK_KEY]
+  );
+  return { instanceId: INSTANCE_ID, isLeader: leader !== null, hasLeader: !!rows[0]?.held };
+}
+
+/**
+ * Add rows for jobs that don't have one yet, and keep descriptions up to date
+ */
+export async function registerJobs(jobs: JobDefinition[], now = new Date()): Promise<ScheduledJob[]> {
+  const registered: ScheduledJob[] = [];
+  for (const definition of jobs) {
+    parseCron(definition.schedule);
+    definitions.set(definition.name, definition);
+
+    let job = await storage.ensureScheduledJob({
+      name: definition.name,
+      description: definition.description,
+      cronExpression: definition.schedule,
+      maxAttempts: definition.maxAttempts ?? 3,
+      nextRunAt: nextCronRun(definition.schedule, now),
+    });
+    if (job.description !== definition.description) {
+      job = (await storage.updateScheduledJob(job.name, { description: definition.description })) ?? job;
+    }
+    registered.push(job);
+  }
+  return registered;
+}
+
+/**
+ * Run one job and record how it went. A failure is retried with backoff until
+ * `maxAttempts` is used up; after that the job waits for its next scheduled run.
+ */
+async function runJob(definition: JobDefinition, job: ScheduledJob, now: Date): Promise<JobRun> {
+  const trigger: JobRunTrigger = job.runRequestedAt ? "manual" : job.failedAttempts > 0 ? "retry" : "schedule";
+  const attempt = job.failedAttempts + 1;
+  const nextScheduled = nextCronRun(job.cronExpression, now);
+
+  // Moved on first, so the next tick doesn't start it again
+  await storage.updateScheduledJob(job.name, { runRequestedAt: null, lastRunAt: now, lastStatus: "running", nextRunAt: nextScheduled });
+  const run = await storage.createJobRun({
+    jobName: job.name,
+    trigger,
+    attempt,
+    status: "running",
+    instanceId: INSTANCE_ID,
+    startedAt: now,
+  });
+
+  const started = Date.now();
+  try {
+    const result = await definition.run(now);
+    const finishedAt = new Date();
+    const durationMs = Date.now() - started;
+    await storage.updateScheduledJob(job.name, {
+      failedAttempts: 0,
+      lastStatus: "succeeded",
+      lastSucceededAt: finishedAt,
+      lastError: null,
+      lastDurationMs: durationMs,
+    });
+    return (await storage.updateJobRun(run.id, { status: "succeeded", result: result ?? null, finishedAt, durationMs })) ?? run;
+  } catch (error: any) {
+    const message = error?.message ?? String(error);
+    const durationMs = Date.now() - started;
+    console.error(`Scheduled job ${job.name} failed (attempt ${attempt} of ${job.maxAttempts}):`, error);
+
+    const retry = attempt < job.maxAttempts;
+    const retryAt = new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempt - 1));
+    await storage.updateScheduledJob(job.name, {
+      failedAttempts: retry ? attempt : 0,
+      lastStatus: "failed",
+      lastError: message,
+      lastDurationMs: durationMs,
+      nextRunAt: retry && retryAt < nextScheduled ? retryAt : nextScheduled,
+    });
+    return (await storage.updateJobRun(run.id, { status: "failed", error: message, finishedAt: new Date(), durationMs })) ?? run;
+  }
+}
+
+/**
+ * Start every job that's due or has been asked to run now, unless it's still
+ * running from before. Jobs run side by side; the returned promises settle
+ * as each finishes.
+ */
+export async function startDueJobs(now = new Date()): Promise<Promise<JobRun>[]> {
+  const runs: Promise<JobRun>[] = [];
+  for (const job of await storage.getDueScheduledJobs(now)) {
+    const definition = definitions.get(job.name);
+    // Jobs dropped from the code keep their row (and history) but don't run
+    if (!definition || running.has(job.name)) continue;
+
+    running.add(job.name);
+    runs.push(runJob(definition, job, now).finally(() => running.delete(job.name)));
+  }
+  return runs;
+}
+
+/**
+ * Ask for a job to run on the next tick, whether or not it's enabled
+ */
+export async function requestJobRun(name: string, now = new Date()): Promise<ScheduledJob> {
+  const job = await storage.updateScheduledJob(name, { runRequestedAt: now });
+  if (!job) {
+    throw new JobSchedulerError("UNKNOWN_JOB", `There's no job called ${name}`);
+  }
+  return job;
+}
+
+/**
+ * Change a job's schedule, turn it on or off, or change how often it's
+ * retried. A new schedule, or turning it back on, recalculates its next run.
+ */
+export async function updateJobSchedule(name: string, changes: JobScheduleChanges, now = new Date()): Promise<ScheduledJob> {
+  const job = await storage.getScheduledJob(name);
+  if (!job) {
+    throw new JobSchedulerError("UNKNOWN_JOB", `There's no job called ${name}`);
+  }
+
+  const cronExpression = changes.cronExpression?.trim() ?? job.cronExpression;
+  let nextRunAt: Date;
+  try {
+    nextRunAt = nextCronRun(cronExpression, now);
+  } catch (error) {
+    if (error instanceof CronError) {
+      throw new JobSchedulerError("INVALID_SCHEDULE", error.message);
+    }
+    throw error;
+  }
+
+  const reschedule = cronExpression !== job.cronExpression || (changes.isEnabled === true && !job.isEnabled);
+  const updated = await storage.updateScheduledJob(name, {
+    ...changes,
+    cronExpression,
+    ...(reschedule ? { nextRunAt, failedAttempts: 0 } : {}),
+  });
+  return updated ?? job;
+}
+
+/**
+ * Delete run history older than JOB_RUN_RETENTION_DAYS (30 by default)
+ */
+export async function pruneJobRuns(now = new Date()): Promise<{ pruned: number }> {
+  const retentionDays = parseInt(process.env.JOB_RUN_RETENTION_DAYS ?? "30");
+  if (!(retentionDays > 0)) return { pruned: 0 };
+  return { pruned: await storage.deleteJobRunsBefore(new Date(now.getTime() - retentionDays * DAY_MS)) };
+}
+
+/**
+ * Register `jobs` and check for due ones every JOB_SCHEDULER_POLL_SECONDS
+ * (15 by default, 0 stops this instance running jobs). Every instance can run
+ * this: only the one holding the leader lock runs jobs, and another takes
+ * over if it goes away. Returns a function that stops the scheduler.
+ */
+export function startJobScheduler(
+  jobs: JobDefinition[],
+  pollSeconds = parseInt(process.env.JOB_SCHEDULER_POLL_SECONDS ?? "15")
+): () => void {
+  const registered = registerJobs(jobs).catch(error => {
+    console.error("Error registering scheduled jobs:", error);
+  });
+  // JOB_SCHEDULER_POLL_SECONDS=0 keeps this instance out of the election
+  if (!pollSeconds || pollSeconds <= 0) {
+    return () => {};
+  }
+
+  let ticking = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap with a slow one
+    if (ticking) return;
+    ticking = true;
+    try {
+      await registered;
+      if (await holdLeadership()) {
+        await startDueJobs();
+      }
+    } catch (error) {
+      console.error("Error running scheduled jobs:", error);
+    } finally {
+      ticking = false;
+    }
+  }, pollSeconds * 1000);
+  timer.unref();
+
+  return () => {
+    clearInterval(timer);
+    dropLeadership();
+  };
+}
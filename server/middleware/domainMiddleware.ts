@@ -1,5 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
+import { hostnameCache, type HostnameLookup } from '../domainCache';
+import {
+  getDomainNameCandidates,
+  getSubdomainHostname,
+  isBaseDomain,
+  normalizeHostname
+} from '../platformDomains';
 
 export interface DomainRequest extends Request {
   domain?: {
@@ -20,9 +27,126 @@ export interface DomainRequest extends Request {
   isVendorStore?: boolean;
 }
 
-// Helper to get host without port
-function getHostname(host: string): string {
-  return host.split(':')[0];
+// Only domains whose ownership has been proven serve a store
+const isServable = (domain: HostnameLookup['domain']) =>
+  domain.status === 'active' && domain.verificationStatus === 'verified';
+
+// Paths that must be answered on the hostname that was asked for: domain
+// ownership and ACME challenges are checked against that exact host
+const NO_REDIRECT_PREFIXES = ['/.well-known/', '/api'];
+
+/**
+ * Resolve a hostname to the domain and vendor behind it, trying www. aliases
+ * and platform subdomains on every base domain. Cached, since every storefront
+ * request needs it; storage clears the cache when domains or vendors change.
+ */
+export async function lookupHostname(hostname: string): Promise<HostnameLookup | null> {
+  const host = normalizeHostname(hostname);
+  const cached = hostnameCache.get(host);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let lookup: HostnameLookup | null = null;
+  for (const name of getDomainNameCandidates(host)) {
+    const domain = await storage.getDomainByName(name);
+    if (!domain) continue;
+
+    const vendor = await storage.getVendor(domain.vendorId);
+    if (!vendor) break;
+
+    const primaryDomain = domain.isPrimary
+      ? domain
+      : (await storage.getDomainsByVendorId(vendor.id)).find(other => other.isPrimary && isServable(other)) ?? null;
+    lookup = { domain, vendor, primaryDomain };
+    break;
+  }
+
+  hostnameCache.set(host, lookup);
+  return lookup;
+}
+
+function attachStore(req: DomainRequest, { domain, vendor }: HostnameLookup) {
+  req.domain = {
+    id: domain.id,
+    name: domain.name,
+    vendorId: domain.vendorId,
+    type: domain.type,
+    status: domain.status,
+    isPrimary: domain.isPrimary === null ? false : domain.isPrimary
+  };
+  req.vendor = {
+    id: vendor.id,
+    companyName: vendor.companyName,
+    storeTheme: vendor.storeTheme || 'default',
+    customCss: vendor.customCss === null ? undefined : vendor.customCss,
+    logoUrl: vendor.logoUrl === null ? undefined : vendor.logoUrl
+  };
+  req.isVendorStore = true;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * The page customers see instead of a suspended store. Self-contained, since
+ * the storefront's own scripts and styles aren't served for it.
+ */
+export function renderStoreUnavailablePage(storeName: string): string {
+  const name = escapeHtml(storeName);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>${name} is unavailable</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: Arial, sans-serif; background: #f9fafb; color: #111827; }
+    main { max-width: 480px; padding: 32px; text-align: center; }
+    h1 { font-size: 24px; margin: 0 0 12px; }
+    p { font-size: 16px; line-height: 1.5; color: #4b5563; margin: 0; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>${name} is currently unavailable</h1>
+    <p>This store isn't taking orders right now. Please check back later.</p>
+  </main>
+</body>
+</html>`;
+}
+
+// Stores whose vendor is suspended, whether for an unpaid subscription or by an admin
+function isStoreUnavailable({ vendor }: HostnameLookup): boolean {
+  return vendor.status === 'suspended';
+}
+
+function sendStoreUnavailable(req: DomainRequest, res: Response, { vendor }: HostnameLookup) {
+  res.status(503).set('Cache-Control', 'no-store');
+  if (req.path.startsWith('/api') || (req.method !== 'GET' && req.method !== 'HEAD')) {
+    return res.json({ message: `${vendor.companyName} is currently unavailable`, error: 'STORE_UNAVAILABLE' });
+  }
+  return res.type('html').send(renderStoreUnavailablePage(vendor.companyName));
+}
+
+/**
+ * Where a storefront page request should be sent instead, if anywhere: www.
+ * aliases and the vendor's other domains go to its primary domain
+ */
+function getCanonicalRedirect(req: DomainRequest, hostname: string, lookup: HostnameLookup): string | null {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return null;
+  if (NO_REDIRECT_PREFIXES.some(prefix => req.path.startsWith(prefix))) return null;
+
+  const canonical = lookup.primaryDomain ?? lookup.domain;
+  if (canonical.name === hostname) return null;
+  return `${req.protocol}://${canonical.name}${req.originalUrl}`;
 }
 
 /**
@@ -56,8 +180,7 @@ async function handleDomainRouting(
   next: NextFunction
 ): Promise<void> {
   try {
-    // Get the hostname without port
-    const hostname = getHostname(host);
+    const hostname = normalizeHostname(host);
     
     // For development environment, handle test domains or use a special header
     if (process.env.NODE_ENV === 'development') {
@@ -66,52 +189,18 @@ async function handleDomainRouting(
         // Check for special test header or query param
         const testDomain = req.headers['x-test-domain'] || req.query.domain || req.query.test_domain;
         
-        if (testDomain) {
+        if (typeof testDomain === 'string' && testDomain) {
           console.log(`Testing with domain: ${testDomain}`);
           
-          // Try to find the domain including the full domain name
-          let domain = await storage.getDomainByName(testDomain as string);
-          
-          // If not found, check if it's a subdomain format like "vendor.multivend.com"
-          if (!domain && typeof testDomain === 'string') {
-            const domainParts = (testDomain as string).split('.');
-            if (domainParts.length >= 3) {
-              // For subdomains in format: subdomain.multivend.com
-              const subdomainName = `${domainParts[0]}.multivend.com`;
-              domain = await storage.getDomainByName(subdomainName);
-              console.log(`Trying subdomain: ${subdomainName}`);
-            } else if (domainParts.length === 1) {
-              // Just the subdomain part was provided
-              const subdomainName = `${testDomain}.multivend.com`;
-              domain = await storage.getDomainByName(subdomainName);
-              console.log(`Trying subdomain with suffix: ${subdomainName}`);
-            }
-          }
-          
-          if (domain) {
-            console.log(`Found domain: ${domain.name}`);
-            const vendor = await storage.getVendor(domain.vendorId);
-            
-            if (vendor) {
-              console.log(`Found vendor: ${vendor.companyName}`);
-              req.domain = {
-                id: domain.id,
-                name: domain.name,
-                vendorId: domain.vendorId,
-                type: domain.type,
-                status: domain.status,
-                isPrimary: domain.isPrimary === null ? false : domain.isPrimary
-              };
-              req.vendor = {
-                id: vendor.id,
-                companyName: vendor.companyName,
-                storeTheme: vendor.storeTheme || 'default',
-                customCss: vendor.customCss === null ? undefined : vendor.customCss,
-                logoUrl: vendor.logoUrl === null ? undefined : vendor.logoUrl
-              };
-              req.isVendorStore = true;
-              return next();
+          // Just the subdomain part can be given, e.g. ?domain=acme
+          const lookup = await lookupHostname(testDomain.includes('.') ? testDomain : getSubdomainHostname(testDomain));
+          if (lookup) {
+            if (isStoreUnavailable(lookup)) {
+              sendStoreUnavailable(req, res, lookup);
+              return;
             }
+            attachStore(req, lookup);
+            return next();
           }
         }
         
@@ -121,35 +210,25 @@ async function handleDomainRouting(
       }
     }
     
-    // Check if this is a vendor domain (either custom or subdomain)
-    const domain = await storage.getDomainByName(hostname);
+    // The platform's own site
+    if (isBaseDomain(hostname)) {
+      req.isVendorStore = false;
+      return next();
+    }
+    
+    // Check if this is a vendor domain (custom domain, platform subdomain or a www. alias of one)
+    const lookup = await lookupHostname(hostname);
     
-    if (domain && domain.status === 'active') {
-      // We found a matching domain that is active
-      const vendor = await storage.getVendor(domain.vendorId);
-      
-      if (vendor) {
-        // Set domain and vendor information on the request object
-        req.domain = {
-          id: domain.id,
-          name: domain.name,
-          vendorId: domain.vendorId,
-          type: domain.type,
-          status: domain.status,
-          isPrimary: domain.isPrimary === null ? false : domain.isPrimary
-        };
-        req.vendor = {
-          id: vendor.id,
-          companyName: vendor.companyName,
-          storeTheme: vendor.storeTheme || 'default',
-          customCss: vendor.customCss === null ? undefined : vendor.customCss,
-          logoUrl: vendor.logoUrl === null ? undefined : vendor.logoUrl
-        };
-        req.isVendorStore = true;
-      } else {
-        // Domain exists but vendor doesn't - unusual case
-        req.isVendorStore = false;
+    if (lookup && isServable(lookup.domain)) {
+      const redirectTo = getCanonicalRedirect(req, hostname, lookup);
+      if (redirectTo) {
+        return res.redirect(301, redirectTo);
       }
+      if (isStoreUnavailable(lookup)) {
+        sendStoreUnavailable(req, res, lookup);
+        return;
+      }
+      attachStore(req, lookup);
     } else {
       // No matching domain found
       req.isVendorStore = false;
@@ -161,4 +240,4 @@ async function handleDomainRouting(
     req.isVendorStore = false;
     next();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+
+/**
+ * Who a request acts for. Vendors (and admins impersonating one) act for a
+ * single store; super admins outside an impersonated session act for the
+ * whole platform.
+ */
+export interface Tenant {
+  userId: number;
+  vendorId: number | null;
+  isPlatformAdmin: boolean;
+}
+
+export interface TenantRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+  tenant?: Tenant;
+}
+
+/**
+ * Work out the tenant for a signed-in request, once per request. Impersonated
+ * sessions are logged in as the vendor's user, so they resolve to that vendor
+ * and lose platform-wide access until the admin switches back.
+ */
+export async function resolveTenant(request: Request): Promise<Tenant | null> {
+  const req = request as TenantRequest;
+  if (!req.isAuthenticated() || !req.user) {
+    return null;
+  }
+  if (req.tenant && req.tenant.userId === req.user.id) {
+    return req.tenant;
+  }
+
+  const isPlatformAdmin = req.user.role === 'super_admin';
+  const vendor = isPlatformAdmin ? undefined : await storage.getVendorByUserId(req.user.id);
+  req.tenant = { userId: req.user.id, vendorId: vendor?.id ?? null, isPlatformAdmin };
+  return req.tenant;
+}
+
+export function canAccessVendor(tenant: Tenant, vendorId: number): boolean {
+  return tenant.isPlatformAdmin || tenant.vendorId === vendorId;
+}
+
+// Middleware to check the user acts for a store (or the whole platform); sets req.tenant
+export async function requireTenant(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenant = await resolveTenant(req);
+    if (!tenant) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!tenant.isPlatformAdmin && tenant.vendorId === null) {
+      return res.status(403).json({ message: "A vendor account is required" });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Middleware for routes nested under a vendor (`/api/vendors/:vendorId/...`):
+ * other vendors' collections are forbidden outright, while platform admins
+ * get a 404 for vendors that don't exist
+ */
+export function requireVendorAccess(param = "vendorId") {
+  return async (request: Request, res: Response, next: NextFunction) => {
+    try {
+      const req = request as TenantRequest;
+      const tenant = await resolveTenant(req);
+      if (!tenant) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const vendorId = parseInt(req.params[param]);
+      if (isNaN(vendorId)) {
+        return res.status(400).json({ message: "Invalid vendor ID" });
+      }
+
+      if (!canAccessVendor(tenant, vendorId)) {
+        return res.status(403).json({ message: "You don't have permission to access this vendor" });
+      }
+
+      if (tenant.isPlatformAdmin && !(await storage.getVendor(vendorId))) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
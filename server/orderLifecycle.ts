@@ -0,0 +1,204 @@
+import type { Fulfillment, FulfillmentItem, InsertOrder, Order, OrderItem } from "@shared/schema";
+
+export const ORDER_STATUSES = ["pending", "processing", "shipped", "delivered", "canceled", "returned"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+/**
+ * The statuses an order can move to from each status. Canceled and returned
+ * orders are final.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "canceled"],
+  processing: ["shipped", "canceled"],
+  shipped: ["delivered", "returned"],
+  delivered: ["returned"],
+  canceled: [],
+  returned: [],
+};
+
+// Orders can only be shipped from these statuses
+const FULFILLABLE_STATUSES: OrderStatus[] = ["pending", "processing"];
+
+// Orders that never count as sales, including the old spelling of canceled
+export const UNSOLD_ORDER_STATUSES = ["canceled", "cancelled", "returned"];
+
+// Payment statuses of orders whose money has come in and not all gone back
+export const SALE_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+// Cash on delivery orders are paid at the door, so they count before the money is in
+export const CASH_ON_DELIVERY = "cod";
+
+/**
+ * Whether analytics and reports count an order as a sale: it hasn't been
+ * canceled or returned, and it's been paid for or is cash on delivery
+ */
+export function isSale(order: Pick<Order, "status" | "paymentStatus" | "paymentMethod">): boolean {
+  if (UNSOLD_ORDER_STATUSES.includes(order.status)) return false;
+  const paymentStatus = order.paymentStatus ?? "pending";
+  return SALE_PAYMENT_STATUSES.includes(paymentStatus) ||
+    (order.paymentMethod === CASH_ON_DELIVERY && paymentStatus === "pending");
+}
+
+export type OrderTransitionErrorCode =
+  | "INVALID_STATUS"
+  | "INVALID_TRANSITION"
+  | "NOT_FULFILLABLE"
+  | "INVALID_FULFILLMENT";
+
+/**
+ * Thrown when an order can't be moved to a status or shipped as asked.
+ * The message is meant to be shown to the vendor as-is.
+ */
+export class OrderTransitionError extends Error {
+  public readonly code: OrderTransitionErrorCode;
+
+  constructor(code: OrderTransitionErrorCode, message: string) {
+    super(message);
+    this.name = "OrderTransitionError";
+    this.code = code;
+  }
+}
+
+export function isOrderStatus(status: string): status is OrderStatus {
+  return (ORDER_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Map statuses written before the state machine existed onto it
+ */
+export function normalizeOrderStatus(status: string): OrderStatus {
+  if (status === "completed") return "delivered";
+  if (status === "cancelled") return "canceled";
+  return isOrderStatus(status) ? status : "pending";
+}
+
+export function getAllowedTransitions(status: string): OrderStatus[] {
+  return ORDER_TRANSITIONS[normalizeOrderStatus(status)];
+}
+
+/**
+ * Make sure an order in `from` may move to `to`
+ */
+export function assertTransition(from: string, to: string): OrderStatus {
+  if (!isOrderStatus(to)) {
+    throw new OrderTransitionError("INVALID_STATUS", `"${to}" isn't an order status`);
+  }
+
+  const current = normalizeOrderStatus(from);
+  if (!ORDER_TRANSITIONS[current].includes(to)) {
+    throw new OrderTransitionError("INVALID_TRANSITION", `A ${current} order can't be marked as ${to}`);
+  }
+  return to;
+}
+
+export interface OrderTransitionOptions {
+  // The user making the change; null when the shopper or the system does it
+  actorId?: number | null;
+  // Shown on the order timeline next to the status change
+  note?: string | null;
+  // Other order fields to save along with the new status
+  data?: Partial<InsertOrder>;
+}
+
+export type FulfillmentWithItems = Fulfillment & { items: FulfillmentItem[] };
+
+export interface FulfillmentLine {
+  orderItemId: number;
+  quantity: number;
+}
+
+/**
+ * Units of each order item that haven't gone out in a fulfillment yet
+ */
+export function getUnfulfilledQuantities(items: OrderItem[], fulfilled: FulfillmentLine[]): Map<number, number> {
+  const remaining = new Map(items.map(item => [item.id, item.quantity]));
+  for (const line of fulfilled) {
+    remaining.set(line.orderItemId, (remaining.get(line.orderItemId) ?? 0) - line.quantity);
+  }
+  return remaining;
+}
+
+/**
+ * Work out the lines of a new fulfillment. Without `requested` every unit
+ * still waiting is shipped; otherwise each requested line must be one of the
+ * order's items and can't exceed what is left of it.
+ */
+export function resolveFulfillmentLines(
+  orderStatus: string,
+  items: OrderItem[],
+  fulfilled: FulfillmentLine[],
+  requested?: FulfillmentLine[]
+): FulfillmentLine[] {
+  const status = normalizeOrderStatus(orderStatus);
+  if (!FULFILLABLE_STATUSES.includes(status)) {
+    throw new OrderTransitionError("NOT_FULFILLABLE", `A ${status} order can't be shipped`);
+  }
+
+  const remaining = getUnfulfilledQuantities(items, fulfilled);
+  const lines = requested
+    ? requested
+    : Array.from(remaining.entries())
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  if (lines.length === 0) {
+    throw new OrderTransitionError("INVALID_FULFILLMENT", "Every item in this order has already been shipped");
+  }
+
+  const totals = new Map<number, number>();
+  for (const line of lines) {
+    if (!remaining.has(line.orderItemId)) {
+      throw new OrderTransitionError("INVALID_FULFILLMENT", `Item ${line.orderItemId} isn't part of this order`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new OrderTransitionError("INVALID_FULFILLMENT", "Quantities must be whole numbers of at least 1");
+    }
+    totals.set(line.orderItemId, (totals.get(line.orderItemId) ?? 0) + line.quantity);
+  }
+
+  for (const [orderItemId, quantity] of Array.from(totals.entries())) {
+    if (quantity > remaining.get(orderItemId)!) {
+      const item = items.find(i => i.id === orderItemId)!;
+      throw new OrderTransitionError(
+        "INVALID_FULFILLMENT",
+        `Only ${remaining.get(orderItemId)} of ${item.name} ${remaining.get(orderItemId) === 1 ? "is" : "are"} left to ship`
+      );
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Whether every unit of the order has gone out
+ */
+export function isFullyFulfilled(items: OrderItem[], fulfilled: FulfillmentLine[]): boolean {
+  return Array.from(getUnfulfilledQuantities(items, fulfilled).values()).every(quantity => quantity <= 0);
+}
+
+/**
+ * The statuses an order passes through as a result of a shipment: a pending
+ * order starts processing, and once nothing is left to ship it is shipped.
+ */
+export function statusesAfterFulfillment(orderStatus: string, fullyFulfilled: boolean): OrderStatus[] {
+  const steps: OrderStatus[] = [];
+  if (normalizeOrderStatus(orderStatus) === "pending") steps.push("processing");
+  if (fullyFulfilled) steps.push("shipped");
+  return steps;
+}
+
+/**
+ * Timeline text for a shipment, e.g. "Shipped 2 items via Delhivery (tracking DL123)"
+ */
+export function describeFulfillment(
+  fulfillment: { status: string; carrier: string | null; trackingNumber: string | null },
+  units?: number
+): string {
+  const carrier = fulfillment.carrier ? ` via ${fulfillment.carrier}` : "";
+  const tracking = fulfillment.trackingNumber ? ` (tracking ${fulfillment.trackingNumber})` : "";
+  if (fulfillment.status === "delivered") {
+    return `Shipment${carrier} delivered`;
+  }
+  const count = units === undefined ? "" : ` ${units} ${units === 1 ? "item" : "items"}`;
+  return `Shipped${count}${carrier}${tracking}`;
+}
@@ -0,0 +1,206 @@
+import { Express, Request, Response } from "express";
+import { z } from "zod";
+import type { Order } from "@shared/schema";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import {
+  applyGatewayEvent,
+  confirmOrderPayment,
+  orderConfirmationPath,
+  OrderPaymentError,
+  payerDetails,
+  paymentRedirects,
+  startOrderPayment,
+} from "./orderPayments";
+import { getActivePaymentProviders, getPaymentGateway, isPaymentProvider, PaymentGatewayError } from "./paymentGateways";
+
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+// The JSON parser keeps the raw body, which gateway signatures are computed over
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+const startPaymentSchema = z.object({
+  // Defaults to the method chosen at checkout
+  provider: z.string().optional()
+});
+
+const confirmPaymentSchema = z.object({
+  sessionId: z.string().min(1),
+  // Whatever the gateway handed the browser when the payment finished
+  details: z.record(z.unknown()).optional()
+});
+
+const setupSchema = z.object({
+  provider: z.string()
+});
+
+function originOf(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+/**
+ * The order, if the signed-in shopper placed it. Guest orders aren't tied
+ * to an account, so anyone with the link can pay for them.
+ */
+async function findShopperOrder(req: AuthRequest, res: Response): Promise<Order | undefined> {
+  const id = parseInt(req.params.id);
+  const order = Number.isNaN(id) ? undefined : await storage.getOrder(id);
+  if (order?.customerId) {
+    const customer = req.user ? await storage.getCustomerByUserId(req.user.id, order.vendorId) : undefined;
+    if (customer?.id === order.customerId) return order;
+  } else if (order) {
+    return order;
+  }
+  res.status(404).json({ message: "Order not found" });
+  return undefined;
+}
+
+function handlePaymentError(res: Response, error: any) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+  }
+  if (error instanceof OrderPaymentError) {
+    return res.status(409).json({ message: error.message, error: error.code });
+  }
+  if (error instanceof PaymentGatewayError) {
+    // The gateway itself failing isn't the shopper's fault
+    const status = error.code === "GATEWAY_ERROR" ? 502 : 400;
+    return res.status(status).json({ message: error.message, error: error.code });
+  }
+  console.error("Error processing order payment:", error);
+  return res.status(500).json({ message: "Payment failed" });
+}
+
+/**
+ * Register online payment for orders: starting (or retrying) a payment with
+ * one of the vendor's gateways, confirming it, the return page for gateways
+ * that redirect, saving a payment method, and each vendor's gateway webhooks
+ */
+export default function registerOrderPaymentRoutes(app: Express) {
+  // The gateways a store takes payments through, for the checkout page
+  app.get("/api/stores/:vendorId/payment-options", async (req: Request, res: Response) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      if (Number.isNaN(vendorId)) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+      res.json({ providers: await getActivePaymentProviders(vendorId), cashOnDelivery: true });
+    } catch (error) {
+      console.error("Error getting payment options:", error);
+      res.status(500).json({ message: "Failed to get payment options" });
+    }
+  });
+
+  // Start paying for an order, or try again after a failed payment
+  app.post("/api/orders/:id/payment", async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const order = await findShopperOrder(req, res);
+      if (!order) return;
+
+      const { provider = order.paymentMethod ?? "" } = startPaymentSchema.parse(req.body ?? {});
+      const gateway = await getPaymentGateway(order.vendorId, provider);
+      const payment = await startOrderPayment(order, gateway, {
+        customer: payerDetails(req.user),
+        ...paymentRedirects(originOf(req), order),
+      });
+      res.status(201).json({ payment });
+    } catch (error) {
+      handlePaymentError(res, error);
+    }
+  });
+
+  // Check a payment with the gateway once the browser says it went through
+  app.post("/api/orders/:id/payment/confirm", async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const order = await findShopperOrder(req, res);
+      if (!order) return;
+
+      const { sessionId, details } = confirmPaymentSchema.parse(req.body);
+      const { order: updated, confirmation } = await confirmOrderPayment(order, sessionId, details);
+      res.json({ status: confirmation.status, error: confirmation.error ?? null, order: updated });
+    } catch (error) {
+      handlePaymentError(res, error);
+    }
+  });
+
+  // Where gateways that take the shopper to their own page (PayPal) send them back
+  app.get("/api/orders/:id/payment/return", async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    let order: Order | undefined;
+    try {
+      order = await findShopperOrder(req, res);
+      if (!order) return;
+
+      // PayPal sends its order ID back as `token`
+      const sessionId = String(req.query.token ?? req.query.sessionId ?? "");
+      const { confirmation } = await confirmOrderPayment(order, sessionId, { ...req.query });
+      res.redirect(orderConfirmationPath(order, confirmation.status));
+    } catch (error) {
+      console.error("Error confirming returned payment:", error);
+      if (!order) return res.status(500).json({ message: "Payment failed" });
+      res.redirect(orderConfirmationPath(order, "failed"));
+    }
+  });
+
+  // Save a payment method with one of the store's gateways for later
+  app.post("/api/stores/:vendorId/payment-methods/setup", isAuthenticated, async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const { provider } = setupSchema.parse(req.body);
+      const gateway = await getPaymentGateway(vendorId, provider);
+      const setup = await gateway.tokenize({
+        ...payerDetails(req.user),
+        returnUrl: `${originOf(req)}/account/payment-methods?setup=complete`,
+        cancelUrl: `${originOf(req)}/account/payment-methods?setup=canceled`,
+      });
+      res.status(201).json({ setup });
+    } catch (error) {
+      handlePaymentError(res, error);
+    }
+  });
+
+  // Webhooks from the gateways a vendor takes payments through
+  app.post("/api/webhooks/payments/:provider/vendors/:vendorId", async (request: Request, res: Response) => {
+    const req = request as RawBodyRequest;
+    const { provider } = req.params;
+    const vendorId = parseInt(req.params.vendorId);
+    if (!isPaymentProvider(provider) || Number.isNaN(vendorId)) {
+      return res.status(404).json({ message: "Unknown webhook endpoint" });
+    }
+    if (!req.rawBody) {
+      return res.status(400).json({ message: "Webhook payloads must be sent as JSON" });
+    }
+
+    let event;
+    try {
+      const gateway = await getPaymentGateway(vendorId, provider);
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])
+      );
+      event = await gateway.verifyWebhook(req.rawBody, headers);
+    } catch (error) {
+      if (error instanceof PaymentGatewayError) {
+        return res.status(error.code === "NOT_CONFIGURED" ? 404 : 400).json({ message: error.message, error: error.code });
+      }
+      console.error(`${provider} webhook error:`, error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+
+    try {
+      const outcome = await applyGatewayEvent(provider, event, vendorId);
+      return res.status(200).json({ received: true, outcome });
+    } catch (error) {
+      // Anything but a 2xx makes the gateway deliver the event again later
+      console.error(`Error handling ${provider} event ${event.id} (${event.gatewayType}):`, error);
+      return res.status(500).json({ message: "Failed to process webhook event" });
+    }
+  });
+}
@@ -0,0 +1,292 @@
+import Decimal from "decimal.js";
+import type { InsertTransaction, InsertWebhookEvent, Order, Transaction, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getRefundableAmount } from "./returns";
+import { queueOrderConfirmation } from "./transactionalEmails";
+import {
+  getPaymentGateway,
+  type CreatePaymentInput,
+  type GatewayWebhookEvent,
+  type PaymentConfirmation,
+  type PaymentGateway,
+  type PaymentProvider,
+  type PaymentSession,
+  type RefundResult,
+} from "./paymentGateways";
+
+export type OrderPaymentErrorCode = "NOT_PAYABLE" | "UNKNOWN_SESSION";
+
+/**
+ * Thrown when an order can't be paid for, or a confirmation doesn't belong
+ * to it. The message is meant to be shown to the shopper as-is.
+ */
+export class OrderPaymentError extends Error {
+  public readonly code: OrderPaymentErrorCode;
+
+  constructor(code: OrderPaymentErrorCode, message: string) {
+    super(message);
+    this.name = "OrderPaymentError";
+    this.code = code;
+  }
+}
+
+// Payment statuses an order can still be paid from
+const AWAITING_PAYMENT = ["pending", "unpaid", "failed"];
+
+// A webhook event left "processing" this long was being handled by a server
+// that stopped, so its next delivery takes it over
+export const STALE_WEBHOOK_PROCESSING_MS = 10 * 60 * 1000;
+
+// What an order payment transaction keeps about the gateway it went through
+export interface GatewayPaymentMetadata {
+  gateway: PaymentProvider;
+  // What refunds are made against, once the payment has gone through
+  paymentId?: string | null;
+}
+
+function gatewayMetadata(transaction: Transaction): GatewayPaymentMetadata | null {
+  const metadata = transaction.metadata as Partial<GatewayPaymentMetadata> | null;
+  return metadata?.gateway ? { gateway: metadata.gateway, paymentId: metadata.paymentId ?? null } : null;
+}
+
+/**
+ * The storefront page a shopper lands on after paying, e.g. with
+ * `payment=completed` or `payment=canceled`
+ */
+export function orderConfirmationPath(order: Order, payment: string): string {
+  return `/order-confirmation/${order.id}?vendorId=${order.vendorId}&payment=${payment}`;
+}
+
+/**
+ * Where gateways that take the shopper to their own page send them back to,
+ * having paid or not
+ */
+export function paymentRedirects(origin: string, order: Order): Pick<CreatePaymentInput, "returnUrl" | "cancelUrl"> {
+  return {
+    returnUrl: `${origin}/api/orders/${order.id}/payment/return`,
+    cancelUrl: `${origin}${orderConfirmationPath(order, "canceled")}`,
+  };
+}
+
+// Prefills the gateway's payment form for a signed-in shopper
+export function payerDetails(user?: Pick<User, "email" | "firstName" | "lastName" | "phone"> | null): CreatePaymentInput["customer"] {
+  if (!user) return undefined;
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return { email: user.email, name: name || null, phone: user.phone };
+}
+
+/**
+ * Record a payment under the gateway's ID for it, or bring the one already
+ * recorded up to date. Events can arrive out of order, so a payment that
+ * went through never goes back to failed, and a refunded one stays refunded.
+ */
+export async function recordPayment(gatewayTransactionId: string, payment: InsertTransaction): Promise<Transaction> {
+  const existing = await storage.getTransactionByGatewayId(gatewayTransactionId);
+  if (!existing) {
+    return storage.createTransaction({ ...payment, gatewayTransactionId });
+  }
+
+  const settled = ["completed", "refunded", "partial_refund"].includes(existing.status);
+  const keepStatus = settled && (payment.status !== "completed" || existing.status !== "completed");
+  const updated = await storage.updateTransaction(existing.id, {
+    status: keepStatus ? existing.status : payment.status,
+    gatewayResponse: payment.gatewayResponse,
+    ...(payment.metadata ? { metadata: { ...(existing.metadata as object | null), ...(payment.metadata as object) } } : {}),
+  });
+  return updated ?? existing;
+}
+
+/**
+ * Catch up with a refund total reported by the gateway. Only what we haven't
+ * recorded yet is added, so refunds we made ourselves (from an approved
+ * return) aren't counted twice.
+ */
+export async function recordRefundedTotal(payment: Transaction, totalRefunded: string, reason: string): Promise<void> {
+  const outstanding = new Decimal(totalRefunded).minus(payment.refundedAmount || "0");
+  if (outstanding.lessThanOrEqualTo(0)) return;
+
+  const refunded = await storage.processRefund(payment.id, outstanding.toFixed(2), reason);
+  if (refunded && payment.orderId) {
+    await storage.updateOrder(payment.orderId, {
+      paymentStatus: getRefundableAmount(refunded).isZero() ? "refunded" : "partially_refunded",
+    });
+  }
+}
+
+/**
+ * Start paying for an order with a gateway. The session is recorded as a
+ * pending payment under the gateway's ID, and the order stays unpaid until
+ * the gateway confirms it. Each call starts a fresh attempt, so a shopper
+ * whose payment failed can try again, with the same provider or another.
+ */
+export async function startOrderPayment(
+  order: Order,
+  gateway: PaymentGateway,
+  options: Pick<CreatePaymentInput, "customer" | "returnUrl" | "cancelUrl"> = {}
+): Promise<PaymentSession> {
+  if (!AWAITING_PAYMENT.includes(order.paymentStatus ?? "")) {
+    throw new OrderPaymentError("NOT_PAYABLE", `This order is already ${order.paymentStatus?.replace(/_/g, " ")}`);
+  }
+  if (order.status === "canceled" || order.status === "cancelled") {
+    throw new OrderPaymentError("NOT_PAYABLE", "This order was canceled");
+  }
+
+  const attempts = (await storage.getTransactionsByOrderId(order.id))
+    .filter(transaction => transaction.type === "order_payment").length;
+  const session = await gateway.createIntent({
+    amount: new Decimal(order.total).toFixed(2),
+    currency: order.currency || "INR",
+    reference: order.orderNumber,
+    description: `Order ${order.orderNumber}`,
+    ...options,
+    metadata: { orderId: String(order.id), vendorId: String(order.vendorId), attempt: String(attempts + 1) },
+  });
+
+  await recordPayment(session.sessionId, {
+    type: "order_payment",
+    status: "pending",
+    amount: session.amount,
+    currency: session.currency,
+    fee: "0",
+    net: session.amount,
+    vendorId: order.vendorId,
+    orderId: order.id,
+    metadata: { gateway: gateway.provider } satisfies GatewayPaymentMetadata,
+  });
+  if (order.paymentMethod !== gateway.provider) {
+    await storage.updateOrder(order.id, { paymentMethod: gateway.provider });
+  }
+  return session;
+}
+
+/**
+ * Apply what the gateway says about a payment to its transaction and order.
+ * Only a completed payment marks the order paid (and sends the shopper their
+ * confirmation), and only while it is still waiting on payment; a late
+ * failure doesn't undo one that went through.
+ */
+export async function settleOrderPayment(order: Order, provider: PaymentProvider, confirmation: PaymentConfirmation): Promise<Transaction> {
+  const payment = await recordPayment(confirmation.sessionId, {
+    type: "order_payment",
+    status: confirmation.status,
+    amount: confirmation.amount,
+    currency: confirmation.currency,
+    fee: "0",
+    net: confirmation.amount,
+    vendorId: order.vendorId,
+    orderId: order.id,
+    gatewayResponse: { status: confirmation.status, error: confirmation.error ?? null, details: confirmation.raw ?? null },
+    // A pending confirmation doesn't know the payment yet; keep the one we have
+    metadata: {
+      gateway: provider,
+      ...(confirmation.paymentId ? { paymentId: confirmation.paymentId } : {}),
+    } satisfies GatewayPaymentMetadata,
+  });
+
+  if (confirmation.status !== "pending" && AWAITING_PAYMENT.includes(order.paymentStatus ?? "")) {
+    const updated = await storage.updateOrder(order.id, { paymentStatus: confirmation.status === "completed" ? "paid" : "failed" });
+    if (confirmation.status === "completed") {
+      await queueOrderConfirmation(updated ?? order);
+    }
+  }
+  return payment;
+}
+
+/**
+ * Check a payment the browser says it made with the gateway itself (taking
+ * the money if it was only authorised) and settle the order accordingly.
+ * `details` is whatever the gateway handed the browser, e.g. Razorpay's
+ * signed payment ID.
+ */
+export async function confirmOrderPayment(
+  order: Order,
+  sessionId: string,
+  details: Record<string, unknown> = {}
+): Promise<{ order: Order; confirmation: PaymentConfirmation }> {
+  const payment = await storage.getTransactionByGatewayId(sessionId);
+  const metadata = payment && gatewayMetadata(payment);
+  if (!payment || !metadata || payment.orderId !== order.id) {
+    throw new OrderPaymentError("UNKNOWN_SESSION", "That payment wasn't started for this order");
+  }
+
+  const gateway = await getPaymentGateway(order.vendorId, metadata.gateway);
+  const confirmation = await gateway.capture(sessionId, details);
+  await settleOrderPayment(order, gateway.provider, confirmation);
+  return { order: (await storage.getOrder(order.id)) ?? order, confirmation };
+}
+
+/**
+ * Apply a verified webhook event from one of a vendor's gateways. Each event
+ * is acted on once however often it is delivered; one that failed, or was
+ * left processing by a server that stopped, is retried on its next
+ * delivery. Returns whether it concerned one of our payments, or
+ * "duplicate" when it was already handled.
+ */
+export async function applyGatewayEvent(
+  provider: PaymentProvider,
+  event: GatewayWebhookEvent,
+  vendorId: number
+): Promise<"processed" | "ignored" | "duplicate"> {
+  const claimed = await storage.claimWebhookEvent({
+    provider,
+    eventId: event.id,
+    type: event.gatewayType,
+    payload: event.raw as InsertWebhookEvent["payload"],
+  }, new Date(Date.now() - STALE_WEBHOOK_PROCESSING_MS));
+  if (!claimed) return "duplicate";
+
+  try {
+    const handled = await applyEvent(provider, event, vendorId);
+    await storage.updateWebhookEvent(claimed.id, {
+      status: handled ? "processed" : "ignored",
+      error: null,
+      processedAt: new Date(),
+    });
+    return handled ? "processed" : "ignored";
+  } catch (error: any) {
+    await storage.updateWebhookEvent(claimed.id, { status: "failed", error: String(error?.message ?? error) });
+    throw error;
+  }
+}
+
+async function applyEvent(provider: PaymentProvider, event: GatewayWebhookEvent, vendorId: number): Promise<boolean> {
+  if (!event.type) return false;
+
+  const payment =
+    (event.sessionId ? await storage.getTransactionByGatewayId(event.sessionId) : undefined) ??
+    (event.paymentId ? await storage.getTransactionByGatewayId(event.paymentId) : undefined);
+  if (!payment || payment.vendorId !== vendorId || payment.type !== "order_payment") return false;
+
+  if (event.type === "payment.refunded") {
+    if (event.amount) {
+      await recordRefundedTotal(payment, event.amount, `Refunded in ${provider}`);
+    }
+    return true;
+  }
+
+  const order = payment.orderId ? await storage.getOrder(payment.orderId) : undefined;
+  if (!order) return false;
+
+  await settleOrderPayment(order, provider, {
+    sessionId: payment.gatewayTransactionId!,
+    paymentId: event.paymentId,
+    status: event.type === "payment.completed" ? "completed" : "failed",
+    amount: event.amount ?? payment.amount,
+    currency: event.currency ?? payment.currency ?? "INR",
+    raw: { event: event.gatewayType },
+  });
+  return true;
+}
+
+/**
+ * Send a refund to the gateway the payment was taken through. Payments that
+ * didn't go through a gateway (recorded by hand, or cash on delivery) have
+ * nothing to send, and null is returned.
+ */
+export async function refundOrderPayment(payment: Transaction, amount: string, reason: string): Promise<RefundResult | null> {
+  const metadata = gatewayMetadata(payment);
+  if (!metadata) return null;
+
+  const gateway = await getPaymentGateway(payment.vendorId, metadata.gateway);
+  return gateway.refund(metadata.paymentId ?? payment.gatewayTransactionId!, amount, payment.currency || "INR", reason);
+}
@@ -0,0 +1,97 @@
+import type { PaymentProviderSettings } from "@shared/schema";
+import { storage } from "../storage";
+import { CredentialVaultError } from "../credentialVault";
+import { MockGateway } from "./mockGateway";
+import { PaypalGateway } from "./paypalGateway";
+import { RazorpayGateway } from "./razorpayGateway";
+import { StripeGateway } from "./stripeGateway";
+import { openProviderSecrets } from "./settings";
+import { PAYMENT_PROVIDERS, PaymentGatewayError, isPaymentProvider, type PaymentGateway, type PaymentProvider } from "./types";
+
+export * from "./types";
+export { MockGateway, signMockWebhook } from "./mockGateway";
+export * from "./settings";
+
+// Builds the gateway for a vendor's saved provider settings
+export type PaymentGatewayFactory = (settings: PaymentProviderSettings & { provider: PaymentProvider }) => PaymentGateway;
+
+/**
+ * Talks to the real gateway with the vendor's own credentials, or to the
+ * in-memory mock when PAYMENT_GATEWAY_MODE=mock (for local development)
+ */
+export const createGateway: PaymentGatewayFactory = (settings) => {
+  const { credentials, webhookSecret } = openProviderSecrets(settings);
+  if (process.env.PAYMENT_GATEWAY_MODE === "mock") {
+    return new MockGateway(settings.provider, webhookSecret || undefined);
+  }
+
+  switch (settings.provider) {
+    case "stripe":
+      return new StripeGateway(
+        { secretKey: credentials.secretKey, publishableKey: credentials.publishableKey },
+        webhookSecret
+      );
+    case "paypal":
+      return new PaypalGateway(
+        { clientId: credentials.clientId, clientSecret: credentials.clientSecret },
+        webhookSecret,
+        settings.isTest !== false
+      );
+    case "razorpay":
+      return new RazorpayGateway(
+        { keyId: credentials.keyId, keySecret: credentials.keySecret },
+        webhookSecret
+      );
+  }
+};
+
+let factory: PaymentGatewayFactory = createGateway;
+
+// Swap how gateways are built, e.g. to always use the mock in tests
+export function setPaymentGatewayFactory(next: PaymentGatewayFactory | null): void {
+  factory = next ?? createGateway;
+}
+
+/**
+ * The gateway a vendor takes payments through with `provider`. Fails with
+ * NOT_CONFIGURED unless they've saved and switched on that provider.
+ */
+export async function getPaymentGateway(vendorId: number, provider: string): Promise<PaymentGateway> {
+  if (!isPaymentProvider(provider)) {
+    throw new PaymentGatewayError("UNSUPPORTED_PROVIDER", `${provider} payments aren't supported`);
+  }
+  const settings = await storage.getPaymentProviderSettingsByVendorId(vendorId, provider);
+  if (!settings?.isActive) {
+    throw new PaymentGatewayError("NOT_CONFIGURED", `This store doesn't accept ${provider} payments`);
+  }
+  try {
+    return factory({ ...settings, provider });
+  } catch (error) {
+    // Credentials that can't be decrypted are as good as none
+    if (!(error instanceof CredentialVaultError)) throw error;
+    console.error(`Can't read ${provider} credentials for vendor ${vendorId}:`, error.message);
+    throw new PaymentGatewayError("NOT_CONFIGURED", `This store doesn't accept ${provider} payments`);
+  }
+}
+
+/**
+ * The providers a vendor has switched on, with what the browser needs to
+ * show each one. Providers whose settings are incomplete are left out.
+ */
+export async function getActivePaymentProviders(
+  vendorId: number
+): Promise<{ provider: PaymentProvider; isTest: boolean; config: Record<string, unknown> }[]> {
+  const active = [];
+  for (const provider of PAYMENT_PROVIDERS) {
+    const settings = await storage.getPaymentProviderSettingsByVendorId(vendorId, provider);
+    if (!settings?.isActive) continue;
+    try {
+      const gateway = factory({ ...settings, provider });
+      active.push({ provider, isTest: settings.isTest !== false, config: gateway.clientConfig });
+    } catch (error) {
+      if (!(error instanceof PaymentGatewayError || error instanceof CredentialVaultError)) throw error;
+      console.error(`Skipping ${provider} for vendor ${vendorId}:`, error.message);
+    }
+  }
+  return active;
+}
@@ -0,0 +1,127 @@
+import { createHmac, randomBytes } from "crypto";
+import Decimal from "decimal.js";
+import {
+  PaymentGatewayError,
+  type GatewayWebhookEvent,
+  type PaymentConfirmation,
+  type PaymentGateway,
+  type PaymentProvider,
+} from "./types";
+
+// Webhooks sent to the mock are signed with this unless a secret is given
+export const MOCK_WEBHOOK_SECRET = "mock_webhook_secret";
+
+interface MockPayment {
+  sessionId: string;
+  paymentId: string | null;
+  status: PaymentConfirmation["status"];
+  amount: string;
+  currency: string;
+  refunded: string;
+}
+
+// Shared by every mock so a payment started in one request can be confirmed in the next
+const payments = new Map<string, MockPayment>();
+
+function mockId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString("hex")}`;
+}
+
+/**
+ * Sign a webhook body the way the mock expects, for posting fake gateway
+ * events to a local server
+ */
+export function signMockWebhook(rawBody: string | Buffer, secret: string = MOCK_WEBHOOK_SECRET): string {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+/**
+ * Stands in for any provider without calling out anywhere. Payments
+ * complete when confirmed unless the confirmation asks to fail
+ * (`{ outcome: "fail" }`), and webhooks are signed with a shared secret in
+ * the X-Mock-Signature header.
+ */
+export class MockGateway implements PaymentGateway {
+  readonly clientConfig: Record<string, unknown>;
+
+  constructor(readonly provider: PaymentProvider, private readonly webhookSecret: string = MOCK_WEBHOOK_SECRET) {
+    this.clientConfig = { mock: true };
+  }
+
+  async createIntent(input: Parameters<PaymentGateway["createIntent"]>[0]) {
+    const sessionId = mockId(`mock_${this.provider}`);
+    const currency = input.currency.toUpperCase();
+    payments.set(sessionId, { sessionId, paymentId: null, status: "pending", amount: input.amount, currency, refunded: "0.00" });
+    return {
+      provider: this.provider,
+      sessionId,
+      amount: input.amount,
+      currency,
+      clientData: { ...this.clientConfig, sessionId },
+    };
+  }
+
+  async capture(sessionId: string, details: Record<string, unknown> = {}): Promise<PaymentConfirmation> {
+    const payment = payments.get(sessionId);
+    if (!payment) {
+      throw new PaymentGatewayError("INVALID_CONFIRMATION", "No payment was started with that ID");
+    }
+    if (payment.status === "pending") {
+      payment.status = details.outcome === "fail" ? "failed" : "completed";
+      payment.paymentId = payment.status === "completed" ? mockId("mock_pay") : null;
+    }
+    return {
+      sessionId,
+      paymentId: payment.paymentId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      error: payment.status === "failed" ? "The mock payment was declined" : null,
+      raw: { mock: true },
+    };
+  }
+
+  async refund(paymentId: string, amount: string) {
+    const payment = Array.from(payments.values()).find(item => item.paymentId === paymentId);
+    if (!payment) {
+      throw new PaymentGatewayError("GATEWAY_ERROR", "No completed payment has that ID");
+    }
+    const refunded = new Decimal(payment.refunded).plus(amount);
+    if (refunded.greaterThan(payment.amount)) {
+      throw new PaymentGatewayError("GATEWAY_ERROR", "The refund is more than is left on the payment");
+    }
+    payment.refunded = refunded.toFixed(2);
+    return { refundId: mockId("mock_refund"), status: "completed" as const, amount };
+  }
+
+  async verifyWebhook(rawBody: Buffer, headers: Record<string, string | undefined>): Promise<GatewayWebhookEvent> {
+    const signature = headers["x-mock-signature"];
+    if (!signature) {
+      throw new PaymentGatewayError("MISSING_SIGNATURE", "The X-Mock-Signature header is missing");
+    }
+    if (signature !== signMockWebhook(rawBody, this.webhookSecret)) {
+      throw new PaymentGatewayError("INVALID_SIGNATURE", "The webhook signature doesn't match");
+    }
+
+    // The body is already in gateway-neutral terms
+    const event = JSON.parse(rawBody.toString("utf8"));
+    return {
+      id: String(event.id),
+      type: event.type ?? null,
+      gatewayType: String(event.type ?? "unknown"),
+      sessionId: event.sessionId ?? null,
+      paymentId: event.paymentId ?? null,
+      amount: event.amount ?? null,
+      currency: event.currency ?? null,
+      raw: event,
+    };
+  }
+
+  async tokenize() {
+    return {
+      provider: this.provider,
+      customerId: mockId("mock_customer"),
+      clientData: { ...this.clientConfig, setupToken: mockId("mock_setup") },
+    };
+  }
+}
@@ -0,0 +1,259 @@
+import {
+  CaptureStatus,
+  CheckoutPaymentIntent,
+  Client,
+  Environment,
+  OAuthAuthorizationController,
+  OrdersController,
+  OrderStatus,
+  PaymentsController,
+  PaypalPaymentTokenUsageType,
+  VaultController,
+  type Order,
+} from "@paypal/paypal-server-sdk";
+import {
+  PaymentGatewayError,
+  type GatewayWebhookEvent,
+  type PaymentConfirmation,
+  type PaymentGateway,
+  type PaymentOutcome,
+} from "./types";
+
+export interface PaypalCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+// Headers PayPal signs each webhook delivery with
+const TRANSMISSION_HEADERS = {
+  transmission_id: "paypal-transmission-id",
+  transmission_time: "paypal-transmission-time",
+  transmission_sig: "paypal-transmission-sig",
+  cert_url: "paypal-cert-url",
+  auth_algo: "paypal-auth-algo",
+} as const;
+
+function captureOutcome(status: CaptureStatus | undefined): PaymentOutcome {
+  switch (status) {
+    case CaptureStatus.Completed:
+    case CaptureStatus.PartiallyRefunded:
+    case CaptureStatus.Refunded:
+      return "completed";
+    case CaptureStatus.Declined:
+    case CaptureStatus.Failed:
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function link(links: { rel: string; href: string }[] | undefined, ...rels: string[]): string | null {
+  return links?.find(item => rels.includes(item.rel))?.href ?? null;
+}
+
+function gatewayError(error: any): PaymentGatewayError {
+  return new PaymentGatewayError("GATEWAY_ERROR", error?.result?.message ?? error?.message ?? "PayPal request failed");
+}
+
+/**
+ * PayPal checkout through the vendor's own REST app. The shopper approves
+ * the order on PayPal (in the buttons or on the approval page), then we
+ * capture it; it only counts once PayPal reports the capture completed.
+ */
+export class PaypalGateway implements PaymentGateway {
+  readonly provider = "paypal" as const;
+  readonly clientConfig: Record<string, unknown>;
+  private readonly orders: OrdersController;
+  private readonly payments: PaymentsController;
+  private readonly vault: VaultController;
+  private readonly oAuth: OAuthAuthorizationController;
+  private readonly apiBase: string;
+
+  constructor(
+    private readonly credentials: PaypalCredentials,
+    // PayPal verifies deliveries against the ID of the webhook they were sent to
+    private readonly webhookId: string | null,
+    sandbox: boolean
+  ) {
+    if (!credentials.clientId || !credentials.clientSecret) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "PayPal needs a client ID and a client secret");
+    }
+    const client = new Client({
+      clientCredentialsAuthCredentials: {
+        oAuthClientId: credentials.clientId,
+        oAuthClientSecret: credentials.clientSecret,
+      },
+      timeout: 0,
+      environment: sandbox ? Environment.Sandbox : Environment.Production,
+    });
+    this.orders = new OrdersController(client);
+    this.payments = new PaymentsController(client);
+    this.vault = new VaultController(client);
+    this.oAuth = new OAuthAuthorizationController(client);
+    this.apiBase = sandbox ? "https://api-m.sandbox.paypal.com" : "https://api-m.paypal.com";
+    this.clientConfig = { clientId: credentials.clientId };
+  }
+
+  async createIntent(input: Parameters<PaymentGateway["createIntent"]>[0]) {
+    const { result: order } = await this.orders.createOrder({
+      body: {
+        intent: CheckoutPaymentIntent.Capture,
+        purchaseUnits: [{
+          referenceId: input.reference,
+          customId: input.metadata?.orderId ?? input.reference,
+          description: input.description,
+          amount: { currencyCode: input.currency.toUpperCase(), value: input.amount },
+        }],
+        applicationContext: input.returnUrl ? { returnUrl: input.returnUrl, cancelUrl: input.cancelUrl } : undefined,
+      },
+      prefer: "return=representation",
+      paypalRequestId: input.metadata?.attempt ? `${input.reference}-${input.metadata.attempt}` : undefined,
+    }).catch(error => { throw gatewayError(error); });
+
+    return {
+      provider: this.provider,
+      sessionId: order.id!,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      clientData: {
+        ...this.clientConfig,
+        orderId: order.id,
+        approveUrl: link(order.links, "approve", "payer-action"),
+      },
+    };
+  }
+
+  async capture(sessionId: string): Promise<PaymentConfirmation> {
+    let { result: order } = await this.orders.getOrder({ id: sessionId }).catch(error => { throw gatewayError(error); });
+    if (order.status === OrderStatus.Approved) {
+      ({ result: order } = await this.orders.captureOrder({
+        id: sessionId,
+        prefer: "return=representation",
+        // Capturing twice (e.g. a confirmation racing the return page) is a no-op
+        paypalRequestId: `capture-${sessionId}`,
+      }).catch(error => { throw gatewayError(error); }));
+    }
+    return this.confirmationOf(sessionId, order);
+  }
+
+  private confirmationOf(sessionId: string, order: Order): PaymentConfirmation {
+    const unit = order.purchaseUnits?.[0];
+    const capture = unit?.payments?.captures?.[0];
+    const amount = capture?.amount ?? unit?.amount;
+    const status: PaymentOutcome = capture
+      ? captureOutcome(capture.status)
+      : order.status === OrderStatus.Voided ? "failed" : "pending";
+
+    return {
+      sessionId,
+      paymentId: capture?.id ?? null,
+      status,
+      amount: amount?.value ?? "0.00",
+      currency: amount?.currencyCode ?? "USD",
+      error: capture?.statusDetails?.reason ?? null,
+      raw: { status: order.status, captureStatus: capture?.status ?? null },
+    };
+  }
+
+  async refund(paymentId: string, amount: string, currency: string, reason?: string) {
+    const { result: refund } = await this.payments.refundCapturedPayment({
+      captureId: paymentId,
+      prefer: "return=representation",
+      body: {
+        amount: { currencyCode: currency.toUpperCase(), value: amount },
+        noteToPayer: reason,
+      },
+    }).catch(error => { throw gatewayError(error); });
+    return {
+      refundId: refund.id!,
+      status: refund.status === "COMPLETED" ? "completed" as const : "pending" as const,
+      amount: refund.amount?.value ?? amount,
+    };
+  }
+
+  private async accessToken(): Promise<string> {
+    const basic = Buffer.from(`${this.credentials.clientId}:${this.credentials.clientSecret}`).toString("base64");
+    const { result } = await this.oAuth.requestToken({ authorization: `Basic ${basic}` });
+    return result.accessToken;
+  }
+
+  async verifyWebhook(rawBody: Buffer, headers: Record<string, string | undefined>): Promise<GatewayWebhookEvent> {
+    if (!this.webhookId) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "No webhook ID is configured for PayPal");
+    }
+    const transmission = Object.fromEntries(
+      Object.entries(TRANSMISSION_HEADERS).map(([field, header]) => [field, headers[header]])
+    );
+    if (Object.values(transmission).some(value => !value)) {
+      throw new PaymentGatewayError("MISSING_SIGNATURE", "PayPal transmission headers are missing");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    // PayPal checks the signature itself, against the event exactly as it was sent
+    const response = await fetch(`${this.apiBase}/v1/notifications/verify-webhook-signature`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${await this.accessToken()}` },
+      body: `{${Object.entries({ ...transmission, webhook_id: this.webhookId })
+        .map(([key, value]) => `${JSON.stringify(key)}:${JSON.stringify(value)}`)
+        .join(",")},"webhook_event":${rawBody.toString("utf8")}}`,
+    });
+    const verification = await response.json().catch(() => ({}));
+    if (!response.ok || verification.verification_status !== "SUCCESS") {
+      throw new PaymentGatewayError("INVALID_SIGNATURE", "PayPal couldn't verify the webhook signature");
+    }
+
+    const resource = event.resource ?? {};
+    const base = { id: String(event.id), gatewayType: String(event.event_type), raw: event };
+    switch (event.event_type) {
+      case "PAYMENT.CAPTURE.COMPLETED":
+      case "PAYMENT.CAPTURE.DENIED":
+        return {
+          ...base,
+          type: event.event_type === "PAYMENT.CAPTURE.COMPLETED" ? "payment.completed" : "payment.failed",
+          sessionId: resource.supplementary_data?.related_ids?.order_id ?? null,
+          paymentId: resource.id ?? null,
+          amount: resource.amount?.value ?? null,
+          currency: resource.amount?.currency_code ?? null,
+        };
+      case "PAYMENT.CAPTURE.REFUNDED": {
+        // The refund links back to its capture, which knows the order
+        const captureId = (link(resource.links, "up") ?? "").split("/").pop() || null;
+        const capture = captureId
+          ? (await this.payments.getCapturedPayment({ captureId }).catch(() => null))?.result
+          : undefined;
+        return {
+          ...base,
+          type: "payment.refunded",
+          sessionId: capture?.supplementaryData?.relatedIds?.orderId ?? null,
+          paymentId: captureId,
+          amount: resource.seller_payable_breakdown?.total_refunded_amount?.value ?? resource.amount?.value ?? null,
+          currency: resource.amount?.currency_code ?? null,
+        };
+      }
+      default:
+        return { ...base, type: null, sessionId: null, paymentId: null, amount: null, currency: null };
+    }
+  }
+
+  async tokenize(input: Parameters<PaymentGateway["tokenize"]>[0]) {
+    const { result: setupToken } = await this.vault.createSetupToken({
+      body: {
+        paymentSource: {
+          paypal: {
+            usageType: PaypalPaymentTokenUsageType.Merchant,
+            experienceContext: { returnUrl: input.returnUrl, cancelUrl: input.cancelUrl },
+          },
+        },
+      },
+    }).catch(error => { throw gatewayError(error); });
+    return {
+      provider: this.provider,
+      customerId: setupToken.customer?.id ?? null,
+      clientData: {
+        ...this.clientConfig,
+        setupTokenId: setupToken.id,
+        approveUrl: link(setupToken.links, "approve"),
+      },
+    };
+  }
+}
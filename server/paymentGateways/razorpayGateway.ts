@@ -0,0 +1,207 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import Razorpay from "razorpay";
+import type { Payments } from "razorpay/dist/types/payments";
+import {
+  fromMinorUnits,
+  PaymentGatewayError,
+  toMinorUnits,
+  type GatewayWebhookEvent,
+  type PaymentConfirmation,
+  type PaymentGateway,
+  type PaymentOutcome,
+} from "./types";
+
+export interface RazorpayCredentials {
+  keyId: string;
+  keySecret: string;
+}
+
+type RazorpayPayment = Payments.RazorpayPayment;
+
+function outcomeOf(payment: RazorpayPayment): PaymentOutcome {
+  switch (payment.status) {
+    case "captured":
+    case "refunded":
+      return "completed";
+    case "failed":
+      return "failed";
+    default:
+      return "pending";
+  }
+}
+
+function signaturesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Razorpay's SDK rejects with a plain object rather than an Error
+function gatewayError(error: any): PaymentGatewayError {
+  const message = error?.error?.description ?? error?.message ?? "Razorpay request failed";
+  return new PaymentGatewayError("GATEWAY_ERROR", message);
+}
+
+/**
+ * UPI, cards, netbanking and wallets through the vendor's Razorpay account.
+ * Checkout.js hands the browser a payment ID signed with the key secret;
+ * the signature is checked and the payment read back (and captured if it
+ * was only authorised) before it counts.
+ */
+export class RazorpayGateway implements PaymentGateway {
+  readonly provider = "razorpay" as const;
+  readonly clientConfig: Record<string, unknown>;
+  private readonly razorpay: Razorpay;
+
+  constructor(private readonly credentials: RazorpayCredentials, private readonly webhookSecret: string | null) {
+    if (!credentials.keyId || !credentials.keySecret) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "Razorpay needs a key ID and a key secret");
+    }
+    this.razorpay = new Razorpay({ key_id: credentials.keyId, key_secret: credentials.keySecret });
+    this.clientConfig = { keyId: credentials.keyId };
+  }
+
+  async createIntent(input: Parameters<PaymentGateway["createIntent"]>[0]) {
+    const order = await this.razorpay.orders.create({
+      amount: toMinorUnits(input.amount),
+      currency: input.currency.toUpperCase(),
+      // Receipts are limited to 40 characters
+      receipt: input.reference.slice(0, 40),
+      notes: { reference: input.reference, ...input.metadata },
+    }).catch(error => { throw gatewayError(error); });
+
+    return {
+      provider: this.provider,
+      sessionId: order.id,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      clientData: {
+        ...this.clientConfig,
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        description: input.description ?? input.reference,
+        prefill: {
+          name: input.customer?.name ?? undefined,
+          email: input.customer?.email ?? undefined,
+          contact: input.customer?.phone ?? undefined,
+        },
+      },
+    };
+  }
+
+  async capture(sessionId: string, details: Record<string, unknown> = {}): Promise<PaymentConfirmation> {
+    let payment: RazorpayPayment | undefined;
+
+    if (details.razorpay_payment_id) {
+      const paymentId = String(details.razorpay_payment_id);
+      const expected = createHmac("sha256", this.credentials.keySecret).update(`${sessionId}|${paymentId}`).digest("hex");
+      if (!signaturesMatch(expected, String(details.razorpay_signature ?? ""))) {
+        throw new PaymentGatewayError("INVALID_CONFIRMATION", "The payment signature doesn't match this order");
+      }
+      payment = await this.razorpay.payments.fetch(paymentId).catch(error => { throw gatewayError(error); });
+    } else {
+      // Without the browser's reply, look for a payment made against the order
+      const { items } = await this.razorpay.orders.fetchPayments(sessionId).catch(error => { throw gatewayError(error); });
+      payment = items.find(item => ["captured", "authorized"].includes(item.status)) ?? items[0];
+    }
+
+    if (!payment) {
+      return { sessionId, paymentId: null, status: "pending", amount: "0.00", currency: "INR" };
+    }
+    if (payment.order_id !== sessionId) {
+      throw new PaymentGatewayError("INVALID_CONFIRMATION", "The payment was made against a different order");
+    }
+
+    if (payment.status === "authorized") {
+      payment = await this.razorpay.payments
+        .capture(payment.id, payment.amount, payment.currency)
+        .catch(error => { throw gatewayError(error); });
+    }
+
+    return {
+      sessionId,
+      paymentId: payment.id,
+      status: outcomeOf(payment),
+      amount: fromMinorUnits(payment.amount),
+      currency: payment.currency.toUpperCase(),
+      error: payment.error_description ?? null,
+      raw: { status: payment.status, method: payment.method },
+    };
+  }
+
+  async refund(paymentId: string, amount: string, _currency: string, reason?: string) {
+    const refund = await this.razorpay.payments.refund(paymentId, {
+      amount: toMinorUnits(amount),
+      notes: reason ? { reason } : undefined,
+    }).catch(error => { throw gatewayError(error); });
+    return {
+      refundId: refund.id,
+      status: refund.status === "processed" ? "completed" as const : "pending" as const,
+      amount: fromMinorUnits(refund.amount ?? toMinorUnits(amount)),
+    };
+  }
+
+  async verifyWebhook(rawBody: Buffer, headers: Record<string, string | undefined>): Promise<GatewayWebhookEvent> {
+    const signature = headers["x-razorpay-signature"];
+    if (!this.webhookSecret) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "No webhook secret is configured for Razorpay");
+    }
+    if (!signature) {
+      throw new PaymentGatewayError("MISSING_SIGNATURE", "The X-Razorpay-Signature header is missing");
+    }
+    if (!Razorpay.validateWebhookSignature(rawBody.toString("utf8"), signature, this.webhookSecret)) {
+      throw new PaymentGatewayError("INVALID_SIGNATURE", "The webhook signature doesn't match");
+    }
+
+    const event = JSON.parse(rawBody.toString("utf8"));
+    const payment = event.payload?.payment?.entity;
+    const refund = event.payload?.refund?.entity;
+    const base = {
+      // Razorpay sends the event ID as a header only
+      id: headers["x-razorpay-event-id"] ?? `${event.event}:${payment?.id ?? refund?.id}:${event.created_at}`,
+      gatewayType: String(event.event),
+      raw: event,
+    };
+
+    switch (event.event) {
+      case "payment.captured":
+      case "payment.failed":
+        return {
+          ...base,
+          type: event.event === "payment.captured" ? "payment.completed" : "payment.failed",
+          sessionId: payment?.order_id ?? null,
+          paymentId: payment?.id ?? null,
+          amount: payment ? fromMinorUnits(payment.amount) : null,
+          currency: payment?.currency?.toUpperCase() ?? null,
+        };
+      case "refund.processed":
+        return {
+          ...base,
+          type: "payment.refunded",
+          sessionId: payment?.order_id ?? null,
+          paymentId: refund?.payment_id ?? payment?.id ?? null,
+          // The payment's running total when it's included, otherwise just this refund
+          amount: fromMinorUnits(payment?.amount_refunded ?? refund?.amount ?? 0),
+          currency: (refund?.currency ?? payment?.currency)?.toUpperCase() ?? null,
+        };
+      default:
+        return { ...base, type: null, sessionId: null, paymentId: null, amount: null, currency: null };
+    }
+  }
+
+  async tokenize(input: Parameters<PaymentGateway["tokenize"]>[0]) {
+    const customer = await this.razorpay.customers.create({
+      name: input.name ?? undefined,
+      email: input.email ?? undefined,
+      // Reuse the customer Razorpay already has for this email
+      fail_existing: 0,
+    }).catch(error => { throw gatewayError(error); });
+    return {
+      provider: this.provider,
+      customerId: customer.id,
+      // Checkout.js saves the card against the customer when `save` is set
+      clientData: { ...this.clientConfig, customerId: customer.id, save: 1 },
+    };
+  }
+}
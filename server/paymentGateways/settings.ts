@@ -0,0 +1,151 @@
+import { z } from "zod";
+import type { InsertPaymentProviderSettings, PaymentProviderSettings } from "@shared/schema";
+import { storage } from "../storage";
+import { CredentialVaultError, maskSecret, openSecret, rewrapSecret, sealSecret } from "../credentialVault";
+import { PaymentGatewayError, type PaymentProvider } from "./types";
+
+// The credentials each gateway needs, all of which are kept encrypted
+export const PROVIDER_CREDENTIAL_FIELDS: Record<PaymentProvider, readonly string[]> = {
+  stripe: ["publishableKey", "secretKey"],
+  paypal: ["clientId", "clientSecret"],
+  razorpay: ["keyId", "keySecret"],
+};
+
+/**
+ * What a vendor sends to save a provider's settings. Secrets are never sent
+ * back to the browser, so a credential or webhook secret that is left out
+ * (or blank) keeps its saved value; null removes it.
+ */
+export const providerSettingsInputSchema = z.object({
+  credentials: z.record(z.string().trim().nullable()).optional(),
+  webhookSecret: z.string().trim().nullable().optional(),
+  isActive: z.boolean().optional(),
+  isTest: z.boolean().optional(),
+  additionalSettings: z.record(z.unknown()).nullable().optional(),
+});
+
+export type ProviderSettingsInput = z.infer<typeof providerSettingsInputSchema>;
+
+export interface ProviderSecrets {
+  credentials: Record<string, string>;
+  webhookSecret: string | null;
+}
+
+/**
+ * Decrypt a provider's credentials and webhook secret. Settings saved before
+ * credentials were encrypted are read as they are.
+ */
+export function openProviderSecrets(settings: Pick<PaymentProviderSettings, "credentials" | "webhookSecret">): ProviderSecrets {
+  const credentials = openSecret<Record<string, string> | null>(settings.credentials);
+  return {
+    credentials: credentials && typeof credentials === "object" ? credentials : {},
+    webhookSecret: openSecret<string | null>(settings.webhookSecret) ?? null,
+  };
+}
+
+/**
+ * Throw unless `credentials` has everything the gateway needs, so a provider
+ * is never turned on half set up
+ */
+export function assertCredentialsComplete(provider: PaymentProvider, credentials: Record<string, string | null | undefined>) {
+  const missing = PROVIDER_CREDENTIAL_FIELDS[provider].filter(field => !credentials[field]);
+  if (missing.length > 0) {
+    throw new PaymentGatewayError("INVALID_CREDENTIALS", `Enter ${missing.join(" and ")} before turning ${provider} on`);
+  }
+}
+
+function merge(saved: string | null | undefined, update: string | null | undefined): string | null {
+  if (update === null) return null;
+  return update ? update : saved ?? null;
+}
+
+/**
+ * Work out the row to save from what the vendor sent and what is already
+ * saved, encrypting the credentials and webhook secret. Active providers
+ * must end up with every credential their gateway needs.
+ */
+export function buildProviderSettings(
+  provider: PaymentProvider,
+  existing: PaymentProviderSettings | undefined,
+  input: ProviderSettingsInput
+): Partial<InsertPaymentProviderSettings> {
+  const fields = PROVIDER_CREDENTIAL_FIELDS[provider];
+  const unknown = Object.keys(input.credentials ?? {}).filter(field => !fields.includes(field));
+  if (unknown.length > 0) {
+    throw new PaymentGatewayError("INVALID_CREDENTIALS", `${provider} doesn't use ${unknown.join(", ")}`);
+  }
+
+  const saved = existing ? openProviderSecrets(existing) : { credentials: {}, webhookSecret: null };
+  const credentials: Record<string, string> = {};
+  for (const field of fields) {
+    const value = merge(saved.credentials[field], input.credentials?.[field]);
+    if (value) credentials[field] = value;
+  }
+  const webhookSecret = merge(saved.webhookSecret, input.webhookSecret);
+
+  const isActive = input.isActive ?? existing?.isActive ?? false;
+  if (isActive) assertCredentialsComplete(provider, credentials);
+
+  return {
+    credentials: sealSecret(credentials),
+    webhookSecret: webhookSecret ? sealSecret(webhookSecret) : null,
+    isActive,
+    ...(input.isTest !== undefined ? { isTest: input.isTest } : {}),
+    ...(input.additionalSettings !== undefined ? { additionalSettings: input.additionalSettings } : {}),
+  };
+}
+
+/**
+ * Provider settings as the API returns them: which credentials are saved,
+ * each shown only by its last few characters
+ */
+export function redactProviderSettings(settings: PaymentProviderSettings) {
+  let secrets: ProviderSecrets | null = null;
+  try {
+    secrets = openProviderSecrets(settings);
+  } catch (error) {
+    // Still show the settings, so the vendor can re-enter what can't be read
+    if (!(error instanceof CredentialVaultError)) throw error;
+    console.error(`Can't read credentials for payment provider settings ${settings.id}:`, error.message);
+  }
+
+  return {
+    ...settings,
+    credentials: Object.fromEntries(
+      Object.entries(secrets?.credentials ?? {}).map(([field, value]) => [field, maskSecret(value)])
+    ),
+    webhookSecret: maskSecret(secrets?.webhookSecret),
+    credentialsReadable: secrets !== null,
+  };
+}
+
+/**
+ * Move every provider's saved secrets onto the current encryption key,
+ * encrypting any that were saved in plain text. Safe to run repeatedly;
+ * rows already on the current key are left alone.
+ */
+export async function rotateProviderCredentials(): Promise<{ rotated: number; total: number; failed: number[] }> {
+  const all = await storage.getAllPaymentProviderSettings();
+  let rotated = 0;
+  const failed: number[] = [];
+
+  for (const settings of all) {
+    try {
+      const credentials = rewrapSecret(settings.credentials);
+      const webhookSecret = rewrapSecret(settings.webhookSecret);
+      if (credentials === null && webhookSecret === null) continue;
+
+      await storage.updatePaymentProviderSettings(settings.id, {
+        ...(credentials !== null ? { credentials } : {}),
+        ...(webhookSecret !== null ? { webhookSecret } : {}),
+      });
+      rotated++;
+    } catch (error) {
+      // A key that's missing fails every row on it; the rest can still move
+      if (!(error instanceof CredentialVaultError) || error.code === "NOT_CONFIGURED") throw error;
+      console.error(`Couldn't rotate credentials for payment provider settings ${settings.id}:`, error.message);
+      failed.push(settings.id);
+    }
+  }
+  return { rotated, total: all.length, failed };
+}
@@ -0,0 +1,171 @@
+import Stripe from "stripe";
+import {
+  fromMinorUnits,
+  PaymentGatewayError,
+  toMinorUnits,
+  type GatewayWebhookEvent,
+  type PaymentConfirmation,
+  type PaymentGateway,
+  type PaymentOutcome,
+} from "./types";
+
+export interface StripeCredentials {
+  secretKey: string;
+  publishableKey: string;
+}
+
+function outcomeOf(paymentIntent: Stripe.PaymentIntent): PaymentOutcome {
+  switch (paymentIntent.status) {
+    case "succeeded":
+      return "completed";
+    case "canceled":
+      return "failed";
+    case "requires_payment_method":
+      // Back to needing a card after an attempt was declined
+      return paymentIntent.last_payment_error ? "failed" : "pending";
+    default:
+      return "pending";
+  }
+}
+
+function confirmationOf(paymentIntent: Stripe.PaymentIntent): PaymentConfirmation {
+  const status = outcomeOf(paymentIntent);
+  return {
+    sessionId: paymentIntent.id,
+    paymentId: paymentIntent.id,
+    status,
+    amount: fromMinorUnits(status === "completed" ? paymentIntent.amount_received : paymentIntent.amount),
+    currency: paymentIntent.currency.toUpperCase(),
+    error: paymentIntent.last_payment_error?.message ?? null,
+    raw: { status: paymentIntent.status },
+  };
+}
+
+/**
+ * Card payments through the vendor's own Stripe account. The browser
+ * confirms the PaymentIntent with Stripe.js; we then read it back from
+ * Stripe before treating it as paid.
+ */
+export class StripeGateway implements PaymentGateway {
+  readonly provider = "stripe" as const;
+  readonly clientConfig: Record<string, unknown>;
+  private readonly stripe: Stripe;
+
+  constructor(credentials: StripeCredentials, private readonly webhookSecret: string | null) {
+    if (!credentials.secretKey || !credentials.publishableKey) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "Stripe needs a secret key and a publishable key");
+    }
+    this.stripe = new Stripe(credentials.secretKey);
+    this.clientConfig = { publishableKey: credentials.publishableKey };
+  }
+
+  async createIntent(input: Parameters<PaymentGateway["createIntent"]>[0]) {
+    const paymentIntent = await this.stripe.paymentIntents.create({
+      amount: toMinorUnits(input.amount),
+      currency: input.currency.toLowerCase(),
+      description: input.description ?? input.reference,
+      receipt_email: input.customer?.email ?? undefined,
+      automatic_payment_methods: { enabled: true },
+      metadata: { reference: input.reference, ...input.metadata },
+    }, {
+      // A retried request for the same order doesn't start a second payment
+      idempotencyKey: input.metadata?.attempt ? `${input.reference}-${input.metadata.attempt}` : undefined,
+    });
+
+    return {
+      provider: this.provider,
+      sessionId: paymentIntent.id,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      clientData: { clientSecret: paymentIntent.client_secret, ...this.clientConfig },
+    };
+  }
+
+  async capture(sessionId: string): Promise<PaymentConfirmation> {
+    let paymentIntent = await this.stripe.paymentIntents.retrieve(sessionId);
+    // Authorised with manual capture; take the money now
+    if (paymentIntent.status === "requires_capture") {
+      paymentIntent = await this.stripe.paymentIntents.capture(sessionId);
+    }
+    return confirmationOf(paymentIntent);
+  }
+
+  async refund(paymentId: string, amount: string, _currency: string, reason?: string) {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: paymentId,
+      amount: toMinorUnits(amount),
+      reason: "requested_by_customer",
+      metadata: reason ? { reason } : undefined,
+    });
+    return {
+      refundId: refund.id,
+      status: refund.status === "succeeded" ? "completed" as const : "pending" as const,
+      amount: fromMinorUnits(refund.amount),
+    };
+  }
+
+  async verifyWebhook(rawBody: Buffer, headers: Record<string, string | undefined>): Promise<GatewayWebhookEvent> {
+    const signature = headers["stripe-signature"];
+    if (!this.webhookSecret) {
+      throw new PaymentGatewayError("NOT_CONFIGURED", "No webhook signing secret is configured for Stripe");
+    }
+    if (!signature) {
+      throw new PaymentGatewayError("MISSING_SIGNATURE", "The Stripe-Signature header is missing");
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = Stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch (error: any) {
+      throw new PaymentGatewayError("INVALID_SIGNATURE", error.message);
+    }
+
+    const base = { id: event.id, gatewayType: event.type, raw: event };
+    switch (event.type) {
+      case "payment_intent.succeeded":
+      case "payment_intent.payment_failed": {
+        const { id, amount, amount_received, currency } = event.data.object;
+        const completed = event.type === "payment_intent.succeeded";
+        return {
+          ...base,
+          type: completed ? "payment.completed" : "payment.failed",
+          sessionId: id,
+          paymentId: id,
+          amount: fromMinorUnits(completed ? amount_received : amount),
+          currency: currency.toUpperCase(),
+        };
+      }
+      case "charge.refunded": {
+        const charge = event.data.object;
+        const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id ?? null;
+        return {
+          ...base,
+          type: "payment.refunded",
+          sessionId: paymentIntentId,
+          paymentId: paymentIntentId ?? charge.id,
+          amount: fromMinorUnits(charge.amount_refunded),
+          currency: charge.currency.toUpperCase(),
+        };
+      }
+      default:
+        return { ...base, type: null, sessionId: null, paymentId: null, amount: null, currency: null };
+    }
+  }
+
+  async tokenize(input: Parameters<PaymentGateway["tokenize"]>[0]) {
+    const customer = await this.stripe.customers.create({
+      email: input.email ?? undefined,
+      name: input.name ?? undefined,
+    });
+    const setupIntent = await this.stripe.setupIntents.create({
+      customer: customer.id,
+      usage: "off_session",
+      automatic_payment_methods: { enabled: true },
+    });
+    return {
+      provider: this.provider,
+      customerId: customer.id,
+      clientData: { clientSecret: setupIntent.client_secret, ...this.clientConfig },
+    };
+  }
+}
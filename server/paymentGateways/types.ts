@@ -0,0 +1,138 @@
+import Decimal from "decimal.js";
+
+export const PAYMENT_PROVIDERS = ["stripe", "paypal", "razorpay"] as const;
+
+export type PaymentProvider = typeof PAYMENT_PROVIDERS[number];
+
+export function isPaymentProvider(value: unknown): value is PaymentProvider {
+  return typeof value === "string" && (PAYMENT_PROVIDERS as readonly string[]).includes(value);
+}
+
+export type PaymentGatewayErrorCode =
+  | "NOT_CONFIGURED"
+  | "UNSUPPORTED_PROVIDER"
+  | "INVALID_CONFIRMATION"
+  | "MISSING_SIGNATURE"
+  | "INVALID_SIGNATURE"
+  | "GATEWAY_ERROR"
+  | "INVALID_CREDENTIALS";
+
+export class PaymentGatewayError extends Error {
+  public readonly code: PaymentGatewayErrorCode;
+
+  constructor(code: PaymentGatewayErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentGatewayError";
+    this.code = code;
+  }
+}
+
+export interface CreatePaymentInput {
+  // Decimal string in major units, e.g. "1499.00"
+  amount: string;
+  currency: string;
+  // Shown to the shopper and kept on the gateway's record, e.g. the order number
+  reference: string;
+  description?: string;
+  customer?: { email?: string | null; name?: string | null; phone?: string | null };
+  // Where the shopper comes back to after paying on the gateway's own page
+  returnUrl?: string;
+  cancelUrl?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * A payment started with a gateway. `sessionId` is the gateway's ID for it
+ * (a Stripe PaymentIntent, PayPal order or Razorpay order), which later
+ * confirmations and webhooks are matched on. `clientData` is everything the
+ * browser needs to collect the payment and never includes secrets.
+ */
+export interface PaymentSession {
+  provider: PaymentProvider;
+  sessionId: string;
+  amount: string;
+  currency: string;
+  clientData: Record<string, unknown>;
+}
+
+export type PaymentOutcome = "completed" | "pending" | "failed";
+
+/**
+ * What the gateway says about a payment, checked with the gateway itself
+ * rather than taken from the browser. `paymentId` is what refunds are made
+ * against: the PaymentIntent, PayPal capture or Razorpay payment.
+ */
+export interface PaymentConfirmation {
+  sessionId: string;
+  paymentId: string | null;
+  status: PaymentOutcome;
+  amount: string;
+  currency: string;
+  error?: string | null;
+  raw?: unknown;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: "completed" | "pending";
+  amount: string;
+}
+
+/**
+ * A webhook delivery that passed signature checks, in gateway-neutral
+ * terms. `type` is null for events we don't act on. For refunds, `amount`
+ * is the total refunded on the payment so far.
+ */
+export interface GatewayWebhookEvent {
+  id: string;
+  type: "payment.completed" | "payment.failed" | "payment.refunded" | null;
+  gatewayType: string;
+  sessionId: string | null;
+  paymentId: string | null;
+  amount: string | null;
+  currency: string | null;
+  raw: unknown;
+}
+
+/**
+ * Saving a payment method for later: the browser completes it with the
+ * gateway using `clientData`, and the gateway keeps the card or wallet.
+ */
+export interface TokenizationSession {
+  provider: PaymentProvider;
+  customerId: string | null;
+  clientData: Record<string, unknown>;
+}
+
+export interface TokenizeInput {
+  email?: string | null;
+  name?: string | null;
+  returnUrl?: string;
+  cancelUrl?: string;
+}
+
+/**
+ * One payment gateway, set up with a vendor's own account. Adapters call the
+ * gateway's API; the mock keeps everything in memory for development and
+ * tests.
+ */
+export interface PaymentGateway {
+  readonly provider: PaymentProvider;
+  // Publishable settings the browser needs before any payment starts, e.g. Stripe's publishable key
+  readonly clientConfig: Record<string, unknown>;
+  createIntent(input: CreatePaymentInput): Promise<PaymentSession>;
+  // `details` is what the browser got back from the gateway, e.g. Razorpay's signed payment ID
+  capture(sessionId: string, details?: Record<string, unknown>): Promise<PaymentConfirmation>;
+  refund(paymentId: string, amount: string, currency: string, reason?: string): Promise<RefundResult>;
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | undefined>): Promise<GatewayWebhookEvent>;
+  tokenize(input: TokenizeInput): Promise<TokenizationSession>;
+}
+
+// Amounts go to most gateways in the currency's smallest unit
+export function toMinorUnits(amount: string): number {
+  return new Decimal(amount).times(100).round().toNumber();
+}
+
+export function fromMinorUnits(amount: number | string): string {
+  return new Decimal(amount).dividedBy(100).toFixed(2);
+}
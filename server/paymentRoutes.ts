@@ -3,10 +3,24 @@ import { z } from "zod";
 import { Decimal } from "decimal.js";
 import {
   insertPaymentMethodSchema,
-  insertPaymentProviderSettingsSchema,
   insertTransactionSchema
 } from "@shared/schema";
 import { storage } from "./storage";
+import { hasRole } from "./auth";
+import { refundOrderPayment } from "./orderPayments";
+import { CredentialVaultError } from "./credentialVault";
+import { queuePayoutCompleted } from "./transactionalEmails";
+import { rewrapEmailPassword } from "./emailService";
+import {
+  assertCredentialsComplete,
+  buildProviderSettings,
+  isPaymentProvider,
+  openProviderSecrets,
+  PaymentGatewayError,
+  providerSettingsInputSchema,
+  redactProviderSettings,
+  rotateProviderCredentials
+} from "./paymentGateways";
 
 // Define custom Request type with user property
 interface AuthRequest extends Request {
@@ -23,12 +37,6 @@ const createPaymentMethodSchema = insertPaymentMethodSchema.extend({
   })
 });
 
-// Zod schema for payment provider settings
-const updatePaymentProviderSettingsSchema = insertPaymentProviderSettingsSchema.omit({
-  provider: true,
-  vendorId: true
-});
-
 // Zod schema for transaction creation
 const createTransactionSchema = insertTransactionSchema.extend({
   orderId: z.number().optional(),
@@ -325,7 +333,8 @@ export function registerPaymentRoutes(router: Router) {
         return res.status(404).json({ message: "Payment provider settings not found" });
       }
 
-      res.json(settings);
+      // Secrets never leave the server, only enough of each to recognise it
+      res.json(redactProviderSettings(settings));
     } catch (error: any) {
       console.error("Error getting payment provider settings:", error);
       res.status(500).json({ message: error.message });
@@ -337,26 +346,42 @@ export function registerPaymentRoutes(router: Router) {
     try {
       const vendorId = parseInt(req.params.vendorId);
       const provider = req.params.provider;
+      if (!isPaymentProvider(provider)) {
+        return res.status(400).json({ message: `${provider} payments aren't supported`, error: "UNSUPPORTED_PROVIDER" });
+      }
       
+      const input = providerSettingsInputSchema.parse(req.body);
+
       // Check if settings already exist
       const existingSettings = await storage.getPaymentProviderSettingsByVendorId(vendorId, provider);
+      // Blank secrets keep what's saved, so they're merged and encrypted here
+      const values = buildProviderSettings(provider, existingSettings, input);
       
       if (existingSettings) {
         // Update existing settings
-        const updatedSettings = await storage.updatePaymentProviderSettings(existingSettings.id, req.body);
-        return res.json(updatedSettings);
+        const updatedSettings = await storage.updatePaymentProviderSettings(existingSettings.id, values);
+        return res.json(redactProviderSettings(updatedSettings!));
       }
       
       // Create new settings
       const settings = await storage.createPaymentProviderSettings({
-        ...req.body,
+        ...values,
         vendorId,
-        provider,
-        isActive: req.body.isActive || false
+        provider
       });
       
-      res.status(201).json(settings);
+      res.status(201).json(redactProviderSettings(settings));
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment provider settings", errors: error.errors });
+      }
+      if (error instanceof PaymentGatewayError) {
+        return res.status(400).json({ message: error.message, error: error.code });
+      }
+      if (error instanceof CredentialVaultError) {
+        console.error("Error encrypting payment provider settings:", error.message);
+        return res.status(503).json({ message: "Payment credentials can't be saved right now", error: error.code });
+      }
       console.error("Error updating payment provider settings:", error);
       res.status(500).json({ message: error.message });
     }
@@ -381,14 +406,45 @@ export function registerPaymentRoutes(router: Router) {
         }
       }
 
+      // Same check as saving the settings with isActive set
+      if (isActive) {
+        if (!isPaymentProvider(settings.provider)) {
+          return res.status(400).json({ message: `${settings.provider} payments aren't supported`, error: "UNSUPPORTED_PROVIDER" });
+        }
+        assertCredentialsComplete(settings.provider, openProviderSecrets(settings).credentials);
+      }
+
       const updatedSettings = await storage.togglePaymentProviderActive(id, isActive);
-      res.json(updatedSettings);
+      res.json(updatedSettings && redactProviderSettings(updatedSettings));
     } catch (error: any) {
+      if (error instanceof PaymentGatewayError) {
+        return res.status(400).json({ message: error.message, error: error.code });
+      }
+      if (error instanceof CredentialVaultError) {
+        console.error("Error reading payment provider settings:", error.message);
+        return res.status(503).json({ message: "Payment credentials can't be read right now", error: error.code });
+      }
       console.error("Error toggling payment provider status:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
+  // Re-encrypt every provider's saved secrets, and the mail server password,
+  // with the newest key in CREDENTIAL_ENCRYPTION_KEYS, before an older key
+  // is taken out of the list
+  router.post("/api/admin/payment-credentials/rotate", hasRole(["super_admin"]), async (req, res) => {
+    try {
+      const result = await rotateProviderCredentials();
+      res.json({ ...result, emailPasswordRotated: await rewrapEmailPassword() });
+    } catch (error: any) {
+      if (error instanceof CredentialVaultError) {
+        return res.status(503).json({ message: error.message, error: error.code });
+      }
+      console.error("Error rotating payment credentials:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Transaction Routes
 
   // Create a new transaction
@@ -500,11 +556,11 @@ export function registerPaymentRoutes(router: Router) {
         return res.status(400).json({ message: "Refund amount exceeds available amount" });
       }
       
-      const updatedTransaction = await storage.processRefund(
-        id, 
-        validatedData.amount, 
-        validatedData.reason || "Customer requested refund"
-      );
+      // Payments taken through a gateway are refunded there first
+      const reason = validatedData.reason || "Customer requested refund";
+      await refundOrderPayment(transaction, refundAmount.toFixed(2), reason);
+
+      const updatedTransaction = await storage.processRefund(id, refundAmount.toFixed(2), reason);
       
       res.json(updatedTransaction);
     } catch (error: any) {
@@ -512,6 +568,9 @@ export function registerPaymentRoutes(router: Router) {
       if (error.name === "ZodError") {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof PaymentGatewayError) {
+        return res.status(502).json({ message: `The refund couldn't be made: ${error.message}`, error: error.code });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -625,6 +684,9 @@ export function registerPaymentRoutes(router: Router) {
       }
       
       const completedPayout = await storage.completePayout(id);
+      if (completedPayout) {
+        await queuePayoutCompleted(completedPayout);
+      }
       res.json(completedPayout);
     } catch (error: any) {
       console.error("Error completing payout:", error);
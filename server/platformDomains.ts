@@ -0,0 +1,67 @@
+/**
+ * The platform's own domains. Every vendor gets a `<slug>.<base>` subdomain,
+ * and stores can be reached on any of the bases in PLATFORM_BASE_DOMAINS
+ * (comma separated, the first being the one new subdomains are created on).
+ */
+export function getBaseDomains(): string[] {
+  const configured = (process.env.PLATFORM_BASE_DOMAINS || "multivend.com")
+    .split(",")
+    .map(normalizeHostname)
+    .filter(Boolean);
+  return configured.length > 0 ? configured : ["multivend.com"];
+}
+
+export function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().split(":")[0].replace(/\.$/, "");
+}
+
+/**
+ * The hostname a vendor subdomain is created with, e.g. "acme" -> "acme.multivend.com"
+ */
+export function getSubdomainHostname(slug: string): string {
+  return `${slug.trim().toLowerCase()}.${getBaseDomains()[0]}`;
+}
+
+/**
+ * The vendor slug when `hostname` is a single-label subdomain of one of the
+ * base domains ("acme.multivend.com" -> "acme"), otherwise null
+ */
+export function getSubdomainSlug(hostname: string): string | null {
+  const host = normalizeHostname(hostname);
+  for (const base of getBaseDomains()) {
+    if (host.endsWith(`.${base}`)) {
+      const slug = host.slice(0, -(base.length + 1));
+      return slug && !slug.includes(".") ? slug : null;
+    }
+  }
+  return null;
+}
+
+export function isBaseDomain(hostname: string): boolean {
+  const host = normalizeHostname(hostname);
+  return getBaseDomains().some(base => host === base || host === `www.${base}`);
+}
+
+/**
+ * Domain names a request for `hostname` could be stored under, most specific
+ * first: the hostname itself, the bare domain for a www. alias, and for
+ * platform subdomains the same slug on each base domain (so stores keep
+ * working when a base domain is added or becomes the primary one)
+ */
+export function getDomainNameCandidates(hostname: string): string[] {
+  const host = normalizeHostname(hostname);
+  const candidates = [host];
+
+  if (host.startsWith("www.")) {
+    candidates.push(host.slice(4));
+  }
+
+  for (const name of [...candidates]) {
+    const slug = getSubdomainSlug(name);
+    if (slug) {
+      candidates.push(...getBaseDomains().map(base => `${slug}.${base}`));
+    }
+  }
+
+  return Array.from(new Set(candidates));
+}
@@ -0,0 +1,356 @@
+import Decimal from "decimal.js";
+import type { Product, ProductCategory, ProductVariant, Promotion, Vendor } from "@shared/schema";
+import { findLineVariant } from "./inventory";
+import { evaluatePromotion, normalizePromotionCode, PromotionError, type PromotionLine } from "./promotions";
+
+/**
+ * GST state codes, keyed by lower-case state / union territory name.
+ * Used to decide whether a sale is intra-state (CGST + SGST) or
+ * inter-state (IGST) and to print the place of supply on invoices.
+ */
+export const GST_STATE_CODES: Record<string, string> = {
+  "jammu and kashmir": "01",
+  "himachal pradesh": "02",
+  "punjab": "03",
+  "chandigarh": "04",
+  "uttarakhand": "05",
+  "haryana": "06",
+  "delhi": "07",
+  "rajasthan": "08",
+  "uttar pradesh": "09",
+  "bihar": "10",
+  "sikkim": "11",
+  "arunachal pradesh": "12",
+  "nagaland": "13",
+  "manipur": "14",
+  "mizoram": "15",
+  "tripura": "16",
+  "meghalaya": "17",
+  "assam": "18",
+  "west bengal": "19",
+  "jharkhand": "20",
+  "odisha": "21",
+  "chhattisgarh": "22",
+  "madhya pradesh": "23",
+  "gujarat": "24",
+  "dadra and nagar haveli and daman and diu": "26",
+  "maharashtra": "27",
+  "karnataka": "29",
+  "goa": "30",
+  "lakshadweep": "31",
+  "kerala": "32",
+  "tamil nadu": "33",
+  "puducherry": "34",
+  "andaman and nicobar islands": "35",
+  "telangana": "36",
+  "andhra pradesh": "37",
+  "ladakh": "38",
+};
+
+/**
+ * Normalise a state name or GST state code to its two-digit GST code.
+ * Unknown values are returned lower-cased so they can still be compared.
+ */
+export function normalizeState(state: string | null | undefined): string | null {
+  if (!state) return null;
+  const value = state.trim().toLowerCase();
+  if (!value) return null;
+  if (/^\d{2}$/.test(value)) return value;
+  return GST_STATE_CODES[value] ?? value;
+}
+
+/**
+ * A state as printed on invoices, e.g. "Maharashtra (27)". Values that
+ * aren't a known state are returned as they are.
+ */
+export function describeState(state: string | null | undefined): string | null {
+  const code = normalizeState(state);
+  if (!code) return null;
+  const name = Object.keys(GST_STATE_CODES).find(key => GST_STATE_CODES[key] === code);
+  if (!name) return state!.trim();
+  return `${name.replace(/\b[a-z]/g, letter => letter.toUpperCase()).replace(/ And /g, " and ")} (${code})`;
+}
+
+/**
+ * A cart line with the catalog records it should be priced from
+ */
+export interface PricingLineInput {
+  id?: number;
+  product: Product;
+  variant?: ProductVariant | null;
+  name: string;
+  quantity: number;
+  // Promotion discount on the line, in the same basis as the catalog price
+  discount?: string;
+}
+
+export interface PricingOptions {
+  // Whether catalog selling prices already include GST
+  pricesIncludeTax: boolean;
+  // State the vendor is registered in, used for the CGST/SGST vs IGST split
+  vendorState?: string | null;
+  // State the order ships to; when unknown the sale is treated as intra-state
+  shippingState?: string | null;
+}
+
+export type GstSupplyType = "intra_state" | "inter_state";
+
+export interface PricedLine {
+  id?: number;
+  productId: number;
+  variantId: number | null;
+  name: string;
+  hsnCode: string | null; // Printed against the line on the tax invoice
+  quantity: number;
+  unitPrice: string;      // Catalog price per unit, as entered by the vendor
+  taxRate: string;        // GST percentage applied to the line
+  discountAmount: string; // Promotion discount taken off the line before tax
+  netAmount: string;      // Line amount excluding GST, after discount
+  taxAmount: string;      // GST on the line
+  cgst: string;
+  sgst: string;
+  igst: string;
+  grossAmount: string;    // Line amount including GST
+}
+
+export interface CartPricing {
+  lines: PricedLine[];
+  taxInclusive: boolean;
+  supplyType: GstSupplyType;
+  subtotal: string;         // Net line amounts before discount, so subtotal - discount + tax = total
+  discount: string;         // Sum of line discounts
+  tax: string;              // Sum of GST
+  cgst: string;
+  sgst: string;
+  igst: string;
+  total: string;            // Sum of gross line amounts
+  displaySubtotal: string;  // Subtotal as it should be shown for the pricing mode
+  freeShipping: boolean;    // Set by a free-shipping promotion
+  promotionCode: string | null;
+  promotionError?: string;  // Why the cart's code could not be applied
+}
+
+/**
+ * Decide how GST is split between the centre and the states for a sale
+ */
+export function getSupplyType(vendorState?: string | null, shippingState?: string | null): GstSupplyType {
+  const from = normalizeState(vendorState);
+  const to = normalizeState(shippingState);
+  if (!from || !to) return "intra_state";
+  return from === to ? "intra_state" : "inter_state";
+}
+
+/**
+ * Price a single line from catalog data. Variant price and GST take
+ * precedence over the product's own values when present.
+ */
+export function priceLine(line: PricingLineInput, options: PricingOptions, supplyType: GstSupplyType): PricedLine {
+  const unitPrice = new Decimal(line.variant?.sellingPrice ?? line.product.sellingPrice ?? 0);
+  const taxRate = new Decimal(line.variant?.gst ?? line.product.gst ?? 0);
+  const quantity = new Decimal(line.quantity);
+  const discount = Decimal.min(new Decimal(line.discount ?? 0), unitPrice.times(quantity));
+  const lineAmount = unitPrice.times(quantity).minus(discount);
+
+  let netAmount: Decimal;
+  let taxAmount: Decimal;
+  if (options.pricesIncludeTax) {
+    // Back the tax out of a tax-inclusive price
+    netAmount = lineAmount.dividedBy(taxRate.dividedBy(100).plus(1)).toDecimalPlaces(2);
+    taxAmount = lineAmount.toDecimalPlaces(2).minus(netAmount);
+  } else {
+    netAmount = lineAmount.toDecimalPlaces(2);
+    taxAmount = lineAmount.times(taxRate).dividedBy(100).toDecimalPlaces(2);
+  }
+
+  // CGST and SGST are each half of the tax; any odd paisa goes to SGST
+  const cgst = supplyType === "intra_state" ? taxAmount.dividedBy(2).toDecimalPlaces(2, Decimal.ROUND_DOWN) : new Decimal(0);
+  const sgst = supplyType === "intra_state" ? taxAmount.minus(cgst) : new Decimal(0);
+  const igst = supplyType === "inter_state" ? taxAmount : new Decimal(0);
+
+  return {
+    id: line.id,
+    productId: line.product.id,
+    variantId: line.variant?.id ?? null,
+    name: line.name,
+    hsnCode: line.product.hsnCode ?? null,
+    quantity: line.quantity,
+    unitPrice: unitPrice.toFixed(2),
+    taxRate: taxRate.toString(),
+    discountAmount: discount.toFixed(2),
+    netAmount: netAmount.toFixed(2),
+    taxAmount: taxAmount.toFixed(2),
+    cgst: cgst.toFixed(2),
+    sgst: sgst.toFixed(2),
+    igst: igst.toFixed(2),
+    grossAmount: netAmount.plus(taxAmount).toFixed(2),
+  };
+}
+
+/**
+ * Price a whole cart. Totals are the sum of the rounded line amounts so the
+ * breakdown always adds up to what the customer is charged.
+ */
+export function calculateCartPricing(lines: PricingLineInput[], options: PricingOptions): CartPricing {
+  const supplyType = getSupplyType(options.vendorState, options.shippingState);
+  const pricedLines = lines.map(line => priceLine(line, options, supplyType));
+
+  const sum = (field: keyof Pick<PricedLine, "discountAmount" | "netAmount" | "taxAmount" | "cgst" | "sgst" | "igst" | "grossAmount">) =>
+    pricedLines.reduce((total, line) => total.plus(line[field]), new Decimal(0));
+
+  const discount = sum("discountAmount");
+  const subtotal = sum("netAmount").plus(discount);
+  const catalogAmount = pricedLines.reduce((total, line) => total.plus(new Decimal(line.unitPrice).times(line.quantity)), new Decimal(0));
+
+  return {
+    lines: pricedLines,
+    taxInclusive: options.pricesIncludeTax,
+    supplyType,
+    subtotal: subtotal.toFixed(2),
+    discount: discount.toFixed(2),
+    tax: sum("taxAmount").toFixed(2),
+    cgst: sum("cgst").toFixed(2),
+    sgst: sum("sgst").toFixed(2),
+    igst: sum("igst").toFixed(2),
+    total: sum("grossAmount").toFixed(2),
+    displaySubtotal: (options.pricesIncludeTax ? catalogAmount : subtotal).toFixed(2),
+    freeShipping: false,
+    promotionCode: null,
+  };
+}
+
+/**
+ * The catalog lookups needed to price a cart. Both storage implementations
+ * satisfy this, so the engine doesn't depend on where the data lives.
+ */
+export interface PricingCatalog {
+  getVendor(id: number): Promise<Vendor | undefined>;
+  getProduct(id: number): Promise<Product | undefined>;
+  getProductVariantsByProductId(productId: number): Promise<ProductVariant[]>;
+}
+
+/**
+ * A stored cart line. Only the product, variant and quantity are trusted;
+ * any price or variant label on the line is ignored.
+ */
+export interface CartLineRef {
+  id?: number;
+  productId: number;
+  name: string;
+  quantity: number;
+  variantId?: number | null;
+}
+
+/**
+ * Load catalog prices for stored cart lines and price them for a vendor.
+ * Lines whose product no longer exists or belongs to another vendor are
+ * left out; checkout rejects those separately.
+ */
+export async function priceCartLines(
+  catalog: PricingCatalog,
+  vendorId: number,
+  items: CartLineRef[],
+  shippingState?: string | null,
+  discounts?: Map<number, string>
+): Promise<CartPricing> {
+  const vendor = await catalog.getVendor(vendorId);
+
+  const lines: PricingLineInput[] = [];
+  for (const item of items) {
+    const product = await catalog.getProduct(item.productId);
+    if (!product || product.vendorId !== vendorId) continue;
+
+    const variants = item.variantId ? await catalog.getProductVariantsByProductId(product.id) : [];
+    const variant = findLineVariant(variants, item.variantId) ?? null;
+    lines.push({
+      id: item.id,
+      product,
+      variant,
+      name: variant?.title ? `${item.name} (${variant.title})` : item.name,
+      quantity: item.quantity,
+      discount: item.id !== undefined ? discounts?.get(item.id) : undefined,
+    });
+  }
+
+  return calculateCartPricing(lines, {
+    pricesIncludeTax: vendor?.pricesIncludeTax ?? true,
+    vendorState: vendor?.businessState,
+    shippingState,
+  });
+}
+
+/**
+ * Catalog lookups needed to price a cart that may carry a discount code
+ */
+export interface PromotionCatalog extends PricingCatalog {
+  getProductCategory(id: number): Promise<ProductCategory | undefined>;
+  getPromotionByCode(vendorId: number, code: string): Promise<Promotion | undefined>;
+  countPromotionRedemptions(promotionId: number, customerId: number): Promise<number>;
+}
+
+export interface CartPricingOptions {
+  shippingState?: string | null;
+  // Customer placing the order, null for guests; leave undefined when unknown
+  customerId?: number | null;
+}
+
+/**
+ * A product's category followed by its parents, so a promotion targeting a
+ * top-level (vendor or global) category also covers its subcategories.
+ */
+async function getCategoryChain(catalog: PromotionCatalog, categoryId: number | null): Promise<number[]> {
+  const chain: number[] = [];
+  let current = categoryId;
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    const category = await catalog.getProductCategory(current);
+    current = category?.parentId ?? null;
+  }
+  return chain;
+}
+
+/**
+ * Price a stored cart including its discount code. A code that no longer
+ * applies doesn't stop the cart from being priced; the reason is returned
+ * in promotionError and no discount is given.
+ */
+export async function priceCart(
+  catalog: PromotionCatalog,
+  cart: { vendorId: number; items: CartLineRef[]; promotionCode?: string | null },
+  options: CartPricingOptions = {}
+): Promise<CartPricing & { promotion?: Promotion }> {
+  const pricing = await priceCartLines(catalog, cart.vendorId, cart.items, options.shippingState);
+  if (!cart.promotionCode || pricing.lines.length === 0) return pricing;
+
+  const code = normalizePromotionCode(cart.promotionCode);
+  try {
+    const promotion = await catalog.getPromotionByCode(cart.vendorId, code);
+    if (!promotion) {
+      throw new PromotionError("PROMOTION_NOT_FOUND", "This code doesn't exist");
+    }
+
+    const lines: PromotionLine[] = [];
+    for (const line of pricing.lines) {
+      const product = await catalog.getProduct(line.productId);
+      lines.push({
+        id: line.id,
+        productId: line.productId,
+        categoryIds: await getCategoryChain(catalog, product?.categoryId ?? null),
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+      });
+    }
+
+    const customerRedemptions = options.customerId
+      ? await catalog.countPromotionRedemptions(promotion.id, options.customerId)
+      : undefined;
+    const result = evaluatePromotion(promotion, lines, { customerId: options.customerId, customerRedemptions });
+
+    const discounted = await priceCartLines(catalog, cart.vendorId, cart.items, options.shippingState, result.lineDiscounts);
+    return { ...discounted, freeShipping: result.freeShipping, promotionCode: code, promotion };
+  } catch (error) {
+    if (error instanceof PromotionError) {
+      return { ...pricing, promotionCode: code, promotionError: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,733 @@
+import ExcelJS from "exceljs";
+import { ZodError } from "zod";
+import {
+  insertProductSchema,
+  insertProductVariantSchema,
+  type InsertProduct,
+  type InsertProductVariant,
+  type Product,
+  type ProductImportJob,
+  type ProductOptionWithValues,
+  type ProductVariant,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getVendorPlan } from "./usageMeter";
+import { combinationKey, MAX_VARIANT_COMBINATIONS, resolveCombination, type ProductOptionsInput } from "./productOptions";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+// Uploads bigger than this are refused before they're parsed
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+// Several values in one cell (tags, image URLs) are separated by this
+const LIST_SEPARATOR = "|";
+const PRODUCT_STATUSES = ["draft", "active", "archived"];
+
+// One row per variant; product columns are read from each product's first row
+const PRODUCT_COLUMNS = [
+  "product_sku",
+  "name",
+  "description",
+  "status",
+  "category_slug",
+  "tags",
+  "image_urls",
+  "selling_price",
+  "mrp",
+  "purchase_price",
+  "gst",
+  "inventory_quantity",
+  "weight",
+  "dimensions",
+  "barcode",
+] as const;
+
+const VARIANT_COLUMNS = [
+  "variant_sku",
+  "variant_selling_price",
+  "variant_mrp",
+  "variant_purchase_price",
+  "variant_gst",
+  "variant_inventory_quantity",
+  "variant_weight",
+  "variant_barcode",
+  "variant_image_url",
+] as const;
+
+const REQUIRED_COLUMNS = ["product_sku", "name", "selling_price"];
+const OPTION_COLUMN = /^option(\d+)_(name|value)$/;
+
+// Where a schema field comes from, so validation errors point at a column
+const PRODUCT_FIELD_COLUMNS: Record<string, string> = {
+  sku: "product_sku",
+  name: "name",
+  description: "description",
+  status: "status",
+  categoryId: "category_slug",
+  tags: "tags",
+  images: "image_urls",
+  featuredImageUrl: "image_urls",
+  sellingPrice: "selling_price",
+  mrp: "mrp",
+  purchasePrice: "purchase_price",
+  gst: "gst",
+  inventoryQuantity: "inventory_quantity",
+  weight: "weight",
+  dimensions: "dimensions",
+  barcode: "barcode",
+};
+
+const VARIANT_FIELD_COLUMNS: Record<string, string> = {
+  sku: "variant_sku",
+  sellingPrice: "variant_selling_price",
+  mrp: "variant_mrp",
+  purchasePrice: "variant_purchase_price",
+  gst: "variant_gst",
+  inventoryQuantity: "variant_inventory_quantity",
+  weight: "variant_weight",
+  barcode: "variant_barcode",
+  imageUrl: "variant_image_url",
+};
+
+/**
+ * A file that can't be read as a product sheet at all
+ */
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductImportError";
+  }
+}
+
+export interface ImportRowError {
+  row: number; // Line in the file, counting the header as 1
+  column?: string;
+  message: string;
+}
+
+interface PlannedVariant {
+  row: number;
+  optionValues: string[]; // One per option, in option order
+  data: Omit<InsertProductVariant, "productId" | "optionValueIds">;
+}
+
+interface PlannedProduct {
+  row: number;
+  existingId?: number;
+  product: InsertProduct;
+  options: { name: string; values: string[] }[];
+  variants: PlannedVariant[];
+}
+
+export interface ImportPlan {
+  products: PlannedProduct[];
+  errors: ImportRowError[];
+  totalRows: number;
+}
+
+export interface ImportReport {
+  valid: boolean;
+  totalRows: number;
+  totalProducts: number;
+  toCreate: number;
+  toUpdate: number;
+  totalVariants: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Work out the format of an upload from its file name, then its MIME type
+ */
+export function detectFormat(fileName: string | undefined, mimeType: string | undefined): SpreadsheetFormat | null {
+  const extension = fileName?.toLowerCase().split(".").pop();
+  if (extension === "csv") return "csv";
+  if (extension === "xlsx") return "xlsx";
+  if (mimeType === "text/csv" || mimeType === "application/csv") return "csv";
+  if (mimeType === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet") return "xlsx";
+  return null;
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ProductImportError("The CSV file ends inside a quoted value");
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function toCsv(rows: string[][]): string {
+  const escape = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return rows.map(row => row.map(escape).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file as rows of text cells. CSV is
+ * parsed by hand so SKUs like "00123" keep their leading zeros.
+ */
+export async function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): Promise<string[][]> {
+  if (format === "csv") {
+    return parseCsv(buffer.toString("utf8").replace(/^\uFEFF/, ""));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // ExcelJS types its input as an ArrayBuffer, so hand it a copy of the bytes as one
+    await workbook.xlsx.load(new Uint8Array(buffer).buffer);
+  } catch {
+    throw new ProductImportError("The file isn't a readable XLSX workbook");
+  }
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(row.getCell(c).text ?? "");
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Write rows of text cells, the first being the header, as CSV or as a
+ * single-sheet XLSX workbook
+ */
+export async function writeSpreadsheet(
+  rows: string[][],
+  format: SpreadsheetFormat,
+  numericColumns: Set<number>,
+  sheetName = "Products"
+): Promise<Buffer> {
+  if (format === "csv") {
+    return Buffer.from(toCsv(rows), "utf8");
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  rows.forEach((row, index) => {
+    // Numbers are written as numbers so spreadsheets can sum them; everything else stays text
+    sheet.addRow(row.map((value, column) =>
+      index > 0 && numericColumns.has(column) && value !== "" && !isNaN(Number(value)) ? Number(value) : value
+    ));
+  });
+  sheet.getRow(1).font = { bold: true };
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function parseList(value: string): string[] {
+  return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function zodErrors(error: ZodError, row: number, columns: Record<string, string>): ImportRowError[] {
+  return error.issues.map(issue => ({
+    row,
+    column: columns[String(issue.path[0])],
+    message: issue.message,
+  }));
+}
+
+/**
+ * Check every row of a product sheet and group the rows into products with
+ * their options and variants. Products are matched to the vendor's existing
+ * ones by SKU, and categories by slug. Nothing is saved.
+ */
+export async function planProductImport(vendorId: number, sheet: string[][]): Promise<ImportPlan> {
+  const errors: ImportRowError[] = [];
+  const rows = sheet.filter(cells => cells.some(cell => cell.trim() !== ""));
+  const [header = [], ...dataRows] = rows;
+  const plan: ImportPlan = { products: [], errors, totalRows: dataRows.length };
+
+  const headings = header.map(heading => heading.trim().toLowerCase());
+  const known = new Set<string>([...PRODUCT_COLUMNS, ...VARIANT_COLUMNS]);
+  const optionNumbers = new Set<number>();
+  headings.forEach(heading => {
+    const match = OPTION_COLUMN.exec(heading);
+    if (match) {
+      optionNumbers.add(parseInt(match[1]));
+    } else if (heading && !known.has(heading)) {
+      errors.push({ row: 1, column: heading, message: `Unknown column "${heading}"` });
+    }
+  });
+  for (const column of REQUIRED_COLUMNS) {
+    if (!headings.includes(column)) {
+      errors.push({ row: 1, column, message: `The ${column} column is missing` });
+    }
+  }
+  const optionSlots = Array.from(optionNumbers).sort((a, b) => a - b);
+  for (const slot of optionSlots) {
+    for (const part of ["name", "value"]) {
+      if (!headings.includes(`option${slot}_${part}`)) {
+        errors.push({ row: 1, column: `option${slot}_${part}`, message: `option${slot}_name and option${slot}_value go together` });
+      }
+    }
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 1, message: `A file can have at most ${MAX_IMPORT_ROWS} rows` });
+  }
+  if (errors.length > 0) return plan;
+
+  const categories = await storage.getProductCategories(vendorId);
+  // A store's own category wins over a global one with the same slug
+  const categoryBySlug = new Map<string, number>();
+  for (const category of [...categories].sort((a, b) => Number(a.vendorId === vendorId) - Number(b.vendorId === vendorId))) {
+    categoryBySlug.set(category.slug.toLowerCase(), category.id);
+  }
+  const existingProducts = await storage.getProducts(vendorId);
+  const existingBySku = new Map<string, Product>();
+  for (const product of existingProducts) {
+    if (product.sku) existingBySku.set(product.sku, product);
+  }
+
+  const productsBySku = new Map<string, PlannedProduct>();
+  const combinationRows = new Map<string, number>();
+  const variantSkuRows = new Map<string, number>();
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2;
+    const get = (column: string) => {
+      const position = headings.indexOf(column);
+      return position === -1 ? "" : (cells[position] ?? "").trim();
+    };
+    const rowErrors: ImportRowError[] = [];
+    const number = (column: string, integer = false): number | null => {
+      const value = get(column);
+      if (value === "") return null;
+      const parsed = Number(value);
+      if (isNaN(parsed) || (integer && !Number.isInteger(parsed))) {
+        rowErrors.push({ row, column, message: `"${value}" isn't ${integer ? "a whole number" : "a number"}` });
+        return null;
+      }
+      return parsed;
+    };
+
+    const sku = get("product_sku");
+    if (!sku) {
+      errors.push({ row, column: "product_sku", message: "Every row needs a product SKU" });
+      return;
+    }
+
+    let planned = productsBySku.get(sku);
+    if (!planned) {
+      const status = get("status").toLowerCase() || "draft";
+      if (!PRODUCT_STATUSES.includes(status)) {
+        rowErrors.push({ row, column: "status", message: `Status must be one of ${PRODUCT_STATUSES.join(", ")}` });
+      }
+
+      const slug = get("category_slug").toLowerCase();
+      const categoryId = slug ? categoryBySlug.get(slug) : null;
+      if (categoryId === undefined) {
+        rowErrors.push({ row, column: "category_slug", message: `There's no category with the slug "${slug}"` });
+      }
+
+      const images = parseList(get("image_urls"));
+      for (const url of images) {
+        if (!isHttpUrl(url)) {
+          rowErrors.push({ row, column: "image_urls", message: `"${url}" isn't an http(s) URL` });
+        }
+      }
+
+      const candidate = {
+        vendorId,
+        sku,
+        name: get("name"),
+        description: get("description") || null,
+        status,
+        categoryId: categoryId ?? null,
+        tags: parseList(get("tags")),
+        images,
+        featuredImageUrl: images[0] ?? null,
+        sellingPrice: number("selling_price"),
+        mrp: number("mrp"),
+        purchasePrice: number("purchase_price"),
+        gst: number("gst"),
+        inventoryQuantity: number("inventory_quantity", true) ?? 0,
+        weight: number("weight"),
+        dimensions: get("dimensions") || null,
+        barcode: get("barcode") || null,
+      };
+      if (!candidate.name) {
+        rowErrors.push({ row, column: "name", message: "Every product needs a name" });
+      }
+      if (candidate.sellingPrice === null && get("selling_price") === "") {
+        rowErrors.push({ row, column: "selling_price", message: "Every product needs a selling price" });
+      }
+
+      const parsed = insertProductSchema.safeParse(candidate);
+      if (!parsed.success && rowErrors.length === 0) {
+        rowErrors.push(...zodErrors(parsed.error, row, PRODUCT_FIELD_COLUMNS));
+      }
+
+      const options = optionSlots
+        .map(slot => get(`option${slot}_name`))
+        .filter(Boolean)
+        .map(name => ({ name, values: [] as string[] }));
+      const names = new Set(options.map(option => option.name.toLowerCase()));
+      if (names.size !== options.length) {
+        rowErrors.push({ row, message: "The same option name is used twice" });
+      }
+
+      planned = {
+        row,
+        existingId: existingBySku.get(sku)?.id,
+        product: parsed.success ? parsed.data : (candidate as InsertProduct),
+        options,
+        variants: [],
+      };
+      productsBySku.set(sku, planned);
+    }
+
+    // Option columns line up with the product's first row
+    const optionValues: string[] = [];
+    let filledSlots = 0;
+    optionSlots.forEach(slot => {
+      const name = get(`option${slot}_name`);
+      const value = get(`option${slot}_value`);
+      if (!name && !value) return;
+      const option = planned!.options[filledSlots++];
+      if (!option || option.name.toLowerCase() !== name.toLowerCase()) {
+        rowErrors.push({ row, column: `option${slot}_name`, message: `Options must be the same on every row of product ${sku}` });
+        return;
+      }
+      if (!value) {
+        rowErrors.push({ row, column: `option${slot}_value`, message: `Choose a ${option.name} for this variant` });
+        return;
+      }
+      const existing = option.values.find(v => v.toLowerCase() === value.toLowerCase());
+      if (!existing) option.values.push(value);
+      optionValues.push(existing ?? value);
+    });
+    if (filledSlots < planned.options.length) {
+      rowErrors.push({ row, message: `Options must be the same on every row of product ${sku}` });
+    }
+
+    const hasVariantColumns = VARIANT_COLUMNS.some(column => get(column) !== "");
+    if (planned.row !== row && planned.options.length === 0 && !hasVariantColumns) {
+      rowErrors.push({ row, column: "product_sku", message: `Row ${planned.row} already has product ${sku}` });
+    }
+    if (planned.options.length > 0 || hasVariantColumns) {
+      const key = `${sku}\u0000${optionValues.map(value => value.toLowerCase()).join("\u0000")}`;
+      const duplicateOf = combinationRows.get(key);
+      if (duplicateOf !== undefined) {
+        rowErrors.push({
+          row,
+          message: planned.options.length > 0
+            ? `Row ${duplicateOf} already has this combination of options`
+            : `Add option columns to tell product ${sku}'s variants apart`,
+        });
+      }
+      combinationRows.set(key, row);
+
+      const variantSku = get("variant_sku");
+      if (variantSku) {
+        const skuRow = variantSkuRows.get(variantSku);
+        if (skuRow !== undefined) {
+          rowErrors.push({ row, column: "variant_sku", message: `Row ${skuRow} already uses this variant SKU` });
+        }
+        variantSkuRows.set(variantSku, row);
+      }
+
+      const imageUrl = get("variant_image_url");
+      if (imageUrl && !isHttpUrl(imageUrl)) {
+        rowErrors.push({ row, column: "variant_image_url", message: `"${imageUrl}" isn't an http(s) URL` });
+      }
+
+      const candidate = {
+        productId: planned.existingId ?? 0,
+        sku: variantSku || null,
+        barcode: get("variant_barcode") || null,
+        sellingPrice: number("variant_selling_price") ?? planned.product.sellingPrice,
+        mrp: number("variant_mrp") ?? planned.product.mrp ?? null,
+        purchasePrice: number("variant_purchase_price") ?? planned.product.purchasePrice ?? null,
+        gst: number("variant_gst") ?? planned.product.gst ?? null,
+        inventoryQuantity: number("variant_inventory_quantity", true) ?? 0,
+        weight: number("variant_weight") ?? planned.product.weight ?? null,
+        imageUrl: imageUrl || null,
+        images: imageUrl ? [imageUrl] : [],
+        position: planned.variants.length,
+        isDefault: planned.variants.length === 0,
+      };
+      const parsed = insertProductVariantSchema.safeParse(candidate);
+      if (!parsed.success && rowErrors.length === 0) {
+        rowErrors.push(...zodErrors(parsed.error, row, VARIANT_FIELD_COLUMNS));
+      }
+
+      const { productId, optionValueIds, ...data } = parsed.success ? parsed.data : { ...candidate, optionValueIds: [] };
+      planned.variants.push({ row, optionValues, data });
+      if (planned.variants.length === MAX_VARIANT_COMBINATIONS + 1) {
+        rowErrors.push({ row, message: `A product can have at most ${MAX_VARIANT_COMBINATIONS} variants` });
+      }
+    }
+
+    errors.push(...rowErrors);
+  });
+
+  plan.products = Array.from(productsBySku.values());
+
+  // New products can't take the store past its plan's product limit
+  const subscriptionPlan = await getVendorPlan(vendorId);
+  if (subscriptionPlan) {
+    let count = existingProducts.length;
+    for (const planned of plan.products) {
+      if (planned.existingId !== undefined) continue;
+      if (++count > subscriptionPlan.productLimit) {
+        errors.push({
+          row: planned.row,
+          column: "product_sku",
+          message: `Your ${subscriptionPlan.name} plan allows a maximum of ${subscriptionPlan.productLimit} products. Upgrade your plan to add more.`,
+        });
+      }
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return plan;
+}
+
+export function summarizeImportPlan(plan: ImportPlan): ImportReport {
+  return {
+    valid: plan.errors.length === 0,
+    totalRows: plan.totalRows,
+    totalProducts: plan.products.length,
+    toCreate: plan.products.filter(planned => planned.existingId === undefined).length,
+    toUpdate: plan.products.filter(planned => planned.existingId !== undefined).length,
+    totalVariants: plan.products.reduce((count, planned) => count + planned.variants.length, 0),
+    errors: plan.errors,
+  };
+}
+
+/**
+ * Save one planned product. The file describes the product's options and
+ * variants in full: existing options and values are kept (with their
+ * swatches and images) when their names match, variants are matched by SKU
+ * and then by combination, and variants the file doesn't list are removed.
+ */
+async function importProduct(vendorId: number, planned: PlannedProduct): Promise<"created" | "updated"> {
+  // Someone may have added the SKU since the file was checked
+  const existing = planned.existingId !== undefined
+    ? await storage.getVendorProduct(vendorId, planned.existingId)
+    : (await storage.getProducts(vendorId)).find(product => product.sku === planned.product.sku);
+  const product = existing
+    ? (await storage.updateProduct(existing.id, planned.product))!
+    : await storage.createProduct(planned.product);
+
+  const current = await storage.getProductOptions(product.id);
+  const input: ProductOptionsInput = planned.options.map(option => {
+    const match = current.find(o => o.name.toLowerCase() === option.name.toLowerCase());
+    return {
+      id: match?.id,
+      name: option.name,
+      values: option.values.map(value => {
+        const kept = match?.values.find(v => v.value.toLowerCase() === value.toLowerCase());
+        return { id: kept?.id, value, swatch: kept?.swatch ?? null, imageUrl: kept?.imageUrl ?? null };
+      }),
+    };
+  });
+  const options: ProductOptionWithValues[] = await storage.saveProductOptions(product.id, input);
+
+  const variants = await storage.getProductVariantsByProductId(product.id);
+  const matched = new Set<number>();
+  for (const variant of planned.variants) {
+    const ids = options.map((option, index) => {
+      const value = option.values.find(v => v.value.toLowerCase() === variant.optionValues[index].toLowerCase());
+      return value!.id;
+    });
+    const { optionValueIds, title } = resolveCombination(options, ids);
+    const key = combinationKey(optionValueIds);
+
+    const unmatched = (v: ProductVariant) => !matched.has(v.id);
+    const match =
+      (variant.data.sku ? variants.find(v => unmatched(v) && v.sku === variant.data.sku) : undefined) ??
+      variants.find(v => unmatched(v) && combinationKey(v.optionValueIds ?? []) === key);
+
+    const data = { ...variant.data, productId: product.id, optionValueIds, title };
+    if (match) {
+      matched.add(match.id);
+      await storage.updateProductVariant(match.id, data);
+    } else {
+      await storage.createProductVariant(data);
+    }
+  }
+
+  for (const variant of variants) {
+    if (!matched.has(variant.id)) {
+      await storage.deleteProductVariant(variant.id);
+    }
+  }
+
+  return existing ? "updated" : "created";
+}
+
+async function runImportJob(jobId: number, vendorId: number, plan: ImportPlan): Promise<void> {
+  await storage.updateProductImportJob(jobId, { status: "running", startedAt: new Date() });
+
+  const progress = { processedProducts: 0, createdCount: 0, updatedCount: 0, failedCount: 0 };
+  const errors: ImportRowError[] = [];
+  try {
+    for (const planned of plan.products) {
+      try {
+        const outcome = await importProduct(vendorId, planned);
+        if (outcome === "created") progress.createdCount++;
+        else progress.updatedCount++;
+      } catch (error: any) {
+        progress.failedCount++;
+        errors.push({ row: planned.row, message: error.message });
+      }
+      progress.processedProducts++;
+      await storage.updateProductImportJob(jobId, { ...progress, errors });
+    }
+    await storage.updateProductImportJob(jobId, { status: "completed", finishedAt: new Date() });
+  } catch (error: any) {
+    console.error(`Product import job ${jobId} failed:`, error);
+    errors.push({ row: 0, message: error.message });
+    await storage.updateProductImportJob(jobId, { ...progress, errors, status: "failed", finishedAt: new Date() });
+  }
+}
+
+/**
+ * Save a checked import plan in the background. The job row tracks progress
+ * and collects errors for products that couldn't be saved.
+ */
+export async function startProductImport(
+  vendorId: number,
+  userId: number | null,
+  fileName: string | null,
+  plan: ImportPlan
+): Promise<ProductImportJob> {
+  const job = await storage.createProductImportJob({
+    vendorId,
+    userId,
+    fileName,
+    status: "pending",
+    totalProducts: plan.products.length,
+  });
+
+  runImportJob(job.id, vendorId, plan).catch(error => console.error(`Error running product import job ${job.id}:`, error));
+  return job;
+}
+
+/**
+ * All of a vendor's products in the import format, one row per variant, so
+ * an exported file can be edited and imported again
+ */
+export async function exportProducts(vendorId: number, format: SpreadsheetFormat): Promise<Buffer> {
+  const products = await storage.getProducts(vendorId);
+  const categories = await storage.getProductCategories(vendorId);
+  const slugById = new Map(categories.map(category => [category.id, category.slug]));
+
+  const entries = await Promise.all(products.map(async product => ({
+    product,
+    options: await storage.getProductOptions(product.id),
+    variants: await storage.getProductVariantsByProductId(product.id),
+  })));
+  const optionCount = entries.reduce((count, entry) => Math.max(count, entry.options.length), 0);
+  const optionColumns: string[] = [];
+  for (let slot = 1; slot <= optionCount; slot++) {
+    optionColumns.push(`option${slot}_name`, `option${slot}_value`);
+  }
+  const header = [...PRODUCT_COLUMNS, ...optionColumns, ...VARIANT_COLUMNS];
+
+  const text = (value: unknown) => (value === null || value === undefined ? "" : String(value));
+  const rows: string[][] = [header];
+  for (const { product, options, variants } of entries) {
+    const productCells = [
+      text(product.sku),
+      product.name,
+      text(product.description),
+      text(product.status),
+      text(product.categoryId ? slugById.get(product.categoryId) : ""),
+      (product.tags ?? []).join(LIST_SEPARATOR),
+      (product.images?.length ? product.images : product.featuredImageUrl ? [product.featuredImageUrl] : []).join(LIST_SEPARATOR),
+      text(product.sellingPrice),
+      text(product.mrp),
+      text(product.purchasePrice),
+      text(product.gst),
+      text(product.inventoryQuantity),
+      text(product.weight),
+      text(product.dimensions),
+      text(product.barcode),
+    ];
+
+    if (variants.length === 0) {
+      rows.push([...productCells, ...optionColumns.map(() => ""), ...VARIANT_COLUMNS.map(() => "")]);
+      continue;
+    }
+
+    for (const variant of variants) {
+      const optionCells: string[] = [];
+      for (let slot = 0; slot < optionCount; slot++) {
+        const option = options[slot];
+        const value = option?.values.find(v => (variant.optionValueIds ?? []).includes(v.id));
+        optionCells.push(option ? option.name : "", value ? value.value : "");
+      }
+      rows.push([
+        ...productCells,
+        ...optionCells,
+        text(variant.sku),
+        text(variant.sellingPrice),
+        text(variant.mrp),
+        text(variant.purchasePrice),
+        text(variant.gst),
+        text(variant.inventoryQuantity),
+        text(variant.weight),
+        text(variant.barcode),
+        text(variant.imageUrl),
+      ]);
+    }
+  }
+
+  const numeric = new Set(
+    header
+      .map((column, index) => (/(price|mrp|gst|quantity|weight)$/.test(column) ? index : -1))
+      .filter(index => index !== -1)
+  );
+  return writeSpreadsheet(rows, format, numeric);
+}
@@ -0,0 +1,109 @@
+import { Express, Request, Response } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { requireVendorAccess } from "./middleware/tenantMiddleware";
+import {
+  detectFormat,
+  exportProducts,
+  MAX_IMPORT_FILE_BYTES,
+  planProductImport,
+  ProductImportError,
+  readSpreadsheet,
+  startProductImport,
+  summarizeImportPlan,
+} from "./productImport";
+
+// Define custom Request type with user property
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+// Import files are parsed straight from memory and never stored
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_BYTES },
+});
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Register bulk product import/export routes. Imports are checked row by
+ * row first; `?dryRun=true` only returns that report, otherwise a valid file
+ * is saved by a background job whose progress can be polled.
+ */
+export default function registerProductImportRoutes(app: Express) {
+  app.post("/api/vendors/:vendorId/products/import", requireVendorAccess(), (req, res, next) => {
+    importUpload.single("file")(req, res, (error: any) => {
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({ message: `Import files can be at most ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)}MB` });
+      }
+      if (error) return next(error);
+      next();
+    });
+  }, async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      if (!req.file) {
+        return res.status(400).json({ message: "Attach a CSV or XLSX file as \"file\"" });
+      }
+
+      const format = detectFormat(req.file.originalname, req.file.mimetype);
+      if (!format) {
+        return res.status(400).json({ message: "Only CSV and XLSX files can be imported" });
+      }
+
+      const plan = await planProductImport(vendorId, await readSpreadsheet(req.file.buffer, format));
+      const report = summarizeImportPlan(plan);
+      if (req.query.dryRun === "true") {
+        return res.json({ dryRun: true, ...report });
+      }
+      if (!report.valid) {
+        return res.status(422).json({ message: "Fix the errors in the file before importing it", ...report });
+      }
+
+      const job = await startProductImport(vendorId, req.user?.id ?? null, req.file.originalname, plan);
+      return res.status(202).json({ job, ...report });
+    } catch (error: any) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing products:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Progress of an import job
+  app.get("/api/vendors/:vendorId/products/import/:jobId", requireVendorAccess(), async (req, res) => {
+    try {
+      const job = await storage.getProductImportJob(parseInt(req.params.jobId));
+      if (!job || job.vendorId !== parseInt(req.params.vendorId)) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      res.json(job);
+    } catch (error: any) {
+      console.error("Error getting product import job:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // All of the store's products in the import format
+  app.get("/api/vendors/:vendorId/products/export", requireVendorAccess(), async (req, res) => {
+    try {
+      const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+      const file = await exportProducts(parseInt(req.params.vendorId), format);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader("Content-Type", CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="products-${date}.${format}"`);
+      res.send(file);
+    } catch (error: any) {
+      console.error("Error exporting products:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+}
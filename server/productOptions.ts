@@ -0,0 +1,217 @@
+import { z } from "zod";
+import type { ProductOptionWithValues, ProductVariant } from "@shared/schema";
+
+// Generating every combination of a product's options stops here
+export const MAX_VARIANT_COMBINATIONS = 250;
+
+export type ProductOptionErrorCode =
+  | "INVALID_OPTIONS"
+  | "INVALID_COMBINATION"
+  | "DUPLICATE_COMBINATION"
+  | "VARIANT_REQUIRED"
+  | "VARIANT_NOT_FOUND";
+
+/**
+ * Thrown when a product's options or a variant's combination of option
+ * values don't fit together. The message is meant to be shown as-is.
+ */
+export class ProductOptionError extends Error {
+  public readonly code: ProductOptionErrorCode;
+
+  constructor(code: ProductOptionErrorCode, message: string) {
+    super(message);
+    this.name = "ProductOptionError";
+    this.code = code;
+  }
+}
+
+const optionValueInputSchema = z.object({
+  id: z.number().int().optional(),
+  value: z.string().trim().min(1, "Option values can't be blank"),
+  swatch: z.string().trim().nullable().optional(),
+  imageUrl: z.string().trim().nullable().optional(),
+});
+
+/**
+ * A product's full set of options as the editor saves it: options and values
+ * in display order, with ids for the ones that already exist
+ */
+export const productOptionsInputSchema = z
+  .array(
+    z.object({
+      id: z.number().int().optional(),
+      name: z.string().trim().min(1, "Option names can't be blank"),
+      values: z.array(optionValueInputSchema).min(1, "Every option needs at least one value"),
+    })
+  )
+  .superRefine((options, ctx) => {
+    const names = new Set<string>();
+    options.forEach((option, index) => {
+      const name = option.name.toLowerCase();
+      if (names.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "name"], message: `"${option.name}" is used for more than one option` });
+      }
+      names.add(name);
+
+      const values = new Set<string>();
+      option.values.forEach((value, valueIndex) => {
+        const key = value.value.toLowerCase();
+        if (values.has(key)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "values", valueIndex, "value"], message: `"${value.value}" is listed twice under ${option.name}` });
+        }
+        values.add(key);
+      });
+    });
+  });
+
+export type ProductOptionsInput = z.infer<typeof productOptionsInputSchema>;
+
+// Identifies a combination regardless of the order its value ids were given in
+export function combinationKey(optionValueIds: number[]): string {
+  return [...optionValueIds].sort((a, b) => a - b).join(",");
+}
+
+/**
+ * Check a variant's option values pick exactly one value of every option and
+ * put them in option order, with the title shown for the variant
+ * ("Blue / Small"). Products without options only have combination-less variants.
+ */
+export function resolveCombination(
+  options: ProductOptionWithValues[],
+  optionValueIds: number[]
+): { optionValueIds: number[]; title: string | null } {
+  if (options.length === 0) {
+    if (optionValueIds.length > 0) {
+      throw new ProductOptionError("INVALID_COMBINATION", "This product has no options to choose values from");
+    }
+    return { optionValueIds: [], title: null };
+  }
+
+  const ids = new Set(optionValueIds);
+  if (ids.size !== optionValueIds.length) {
+    throw new ProductOptionError("INVALID_COMBINATION", "A variant can't use the same option value twice");
+  }
+
+  const picked = options.map(option => {
+    const matches = option.values.filter(value => ids.has(value.id));
+    if (matches.length !== 1) {
+      throw new ProductOptionError("INVALID_COMBINATION", `Choose exactly one ${option.name} for each variant`);
+    }
+    return matches[0];
+  });
+
+  if (picked.length !== ids.size) {
+    throw new ProductOptionError("INVALID_COMBINATION", "A variant uses option values from another product");
+  }
+
+  return {
+    optionValueIds: picked.map(value => value.id),
+    title: picked.map(value => value.value).join(" / "),
+  };
+}
+
+/**
+ * Throw when two variants of a product share a combination of option values
+ */
+export function assertUniqueCombinations(variants: { optionValueIds: number[] }[]): void {
+  const seen = new Set<string>();
+  for (const variant of variants) {
+    const key = combinationKey(variant.optionValueIds);
+    if (seen.has(key)) {
+      throw new ProductOptionError("DUPLICATE_COMBINATION", "Two variants have the same combination of options");
+    }
+    seen.add(key);
+  }
+}
+
+/**
+ * Every combination of one value per option, in option and value order
+ */
+export function generateCombinations(options: ProductOptionWithValues[]): number[][] {
+  if (options.length === 0) return [];
+
+  const total = options.reduce((count, option) => count * option.values.length, 1);
+  if (total > MAX_VARIANT_COMBINATIONS) {
+    throw new ProductOptionError(
+      "INVALID_OPTIONS",
+      `These options make ${total} variants; a product can have at most ${MAX_VARIANT_COMBINATIONS}`
+    );
+  }
+
+  return options.reduce<number[][]>(
+    (combinations, option) => combinations.flatMap(ids => option.values.map(value => [...ids, value.id])),
+    [[]]
+  );
+}
+
+export interface VariantReconciliation {
+  updates: { id: number; optionValueIds: number[]; title: string | null }[];
+  deletions: number[];
+}
+
+/**
+ * Bring existing variants in line after a product's options change from
+ * `previous` to `options`. Values of removed options are dropped, new options
+ * start at their first value, and variants whose value was removed from an
+ * option that's still there (or that now duplicate another) go away.
+ */
+export function reconcileVariants(
+  previous: ProductOptionWithValues[],
+  options: ProductOptionWithValues[],
+  variants: ProductVariant[]
+): VariantReconciliation {
+  const result: VariantReconciliation = { updates: [], deletions: [] };
+  const previousOptionByValueId = new Map<number, number>();
+  for (const option of previous) {
+    for (const value of option.values) previousOptionByValueId.set(value.id, option.id);
+  }
+  const optionIds = new Set(options.map(option => option.id));
+  const valueIds = new Set(options.flatMap(option => option.values.map(value => value.id)));
+
+  const seen = new Set<string>();
+  const ordered = [...variants].sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.id - b.id);
+  for (const variant of ordered) {
+    const current = variant.optionValueIds ?? [];
+    const lostValue = current.some(id => {
+      const optionId = previousOptionByValueId.get(id);
+      return optionId !== undefined && optionIds.has(optionId) && !valueIds.has(id);
+    });
+
+    const ids = options.map(option => (option.values.find(value => current.includes(value.id)) ?? option.values[0]).id);
+    const { optionValueIds, title } = resolveCombination(options, ids);
+    const key = combinationKey(optionValueIds);
+    if (lostValue || seen.has(key)) {
+      result.deletions.push(variant.id);
+      continue;
+    }
+    seen.add(key);
+
+    if (current.join(",") !== optionValueIds.join(",") || variant.title !== title) {
+      result.updates.push({ id: variant.id, optionValueIds, title });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The variant a shopper picked for a product. Products with variants need
+ * one of their own; products without take none.
+ */
+export function resolveVariantForProduct(
+  variants: ProductVariant[],
+  variantId: number | null | undefined
+): ProductVariant | undefined {
+  if (variantId == null) {
+    if (variants.length > 0) {
+      throw new ProductOptionError("VARIANT_REQUIRED", "Choose the options you want before adding this to your cart");
+    }
+    return undefined;
+  }
+
+  const variant = variants.find(v => v.id === variantId);
+  if (!variant) {
+    throw new ProductOptionError("VARIANT_NOT_FOUND", "That option combination is no longer available");
+  }
+  return variant;
+}
@@ -0,0 +1,172 @@
+import { Express, Request, Response } from "express";
+import { z } from "zod";
+import { insertPromotionSchema, type InsertPromotion } from "@shared/schema";
+import { storage } from "./storage";
+import { requireVendorAccess } from "./middleware/tenantMiddleware";
+
+// Body accepted when creating or updating a promotion; the vendor comes from the URL
+const promotionBodySchema = insertPromotionSchema.omit({ vendorId: true });
+
+/**
+ * Check rules that span several fields and make sure targeted products and
+ * categories are ones this vendor can sell from (its own or global categories).
+ * Returns an error message, or null when the promotion is valid.
+ */
+async function validatePromotion(vendorId: number, promotion: Partial<InsertPromotion>): Promise<string | null> {
+  const value = parseFloat(promotion.value ?? "0");
+  if (isNaN(value) || value < 0) {
+    return "Value must be a positive number";
+  }
+  if (promotion.type === "percentage" && (value <= 0 || value > 100)) {
+    return "Percentage must be between 0 and 100";
+  }
+  if (promotion.type === "fixed_amount" && value <= 0) {
+    return "Amount off must be greater than zero";
+  }
+  if (promotion.type === "buy_x_get_y" && (!promotion.buyQuantity || !promotion.getQuantity ||
+      promotion.buyQuantity < 1 || promotion.getQuantity < 1)) {
+    return "Buy and get quantities are required for buy X get Y promotions";
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+    return "End date must be after the start date";
+  }
+
+  for (const productId of promotion.productIds ?? []) {
+    const product = await storage.getProduct(productId);
+    if (!product || product.vendorId !== vendorId) {
+      return `Product ${productId} doesn't belong to this store`;
+    }
+  }
+
+  for (const categoryId of promotion.categoryIds ?? []) {
+    const category = await storage.getProductCategory(categoryId);
+    if (!category || (!category.isGlobal && category.vendorId !== vendorId)) {
+      return `Category ${categoryId} isn't available to this store`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Register vendor promotion (discount code) routes
+ */
+export default function registerPromotionRoutes(app: Express) {
+  // Load a promotion and make sure it belongs to the vendor in the URL
+  const findVendorPromotion = async (req: Request, res: Response) => {
+    const vendorId = parseInt(req.params.vendorId);
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid promotion ID" });
+      return undefined;
+    }
+
+    const promotion = await storage.getPromotion(id);
+    if (!promotion || promotion.vendorId !== vendorId) {
+      res.status(404).json({ message: "Promotion not found" });
+      return undefined;
+    }
+    return promotion;
+  };
+
+  // List a vendor's promotions
+  app.get("/api/vendors/:vendorId/promotions", requireVendorAccess(), async (req, res) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const promotions = await storage.getPromotionsByVendorId(vendorId);
+      res.json(promotions);
+    } catch (error: any) {
+      console.error("Error getting promotions:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create a promotion
+  app.post("/api/vendors/:vendorId/promotions", requireVendorAccess(), async (req, res) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const validatedData = promotionBodySchema.parse(req.body);
+
+      const validationError = await validatePromotion(vendorId, validatedData);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      if (await storage.getPromotionByCode(vendorId, validatedData.code)) {
+        return res.status(409).json({ message: "A promotion with this code already exists" });
+      }
+
+      const promotion = await storage.createPromotion({ ...validatedData, vendorId });
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      console.error("Error creating promotion:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a single promotion
+  app.get("/api/vendors/:vendorId/promotions/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const promotion = await findVendorPromotion(req, res);
+      if (!promotion) return;
+      res.json(promotion);
+    } catch (error: any) {
+      console.error("Error getting promotion:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update a promotion
+  app.patch("/api/vendors/:vendorId/promotions/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const promotion = await findVendorPromotion(req, res);
+      if (!promotion) return;
+
+      const validatedData = promotionBodySchema.partial().parse(req.body);
+
+      // Validate the promotion as it will be after the update
+      const merged = { ...promotion, ...validatedData } as Partial<InsertPromotion>;
+      const validationError = await validatePromotion(vendorId, merged);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      if (validatedData.code && validatedData.code !== promotion.code &&
+          await storage.getPromotionByCode(vendorId, validatedData.code)) {
+        return res.status(409).json({ message: "A promotion with this code already exists" });
+      }
+
+      const updatedPromotion = await storage.updatePromotion(promotion.id, validatedData);
+      res.json(updatedPromotion);
+    } catch (error: any) {
+      console.error("Error updating promotion:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a promotion that has never been used
+  app.delete("/api/vendors/:vendorId/promotions/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const promotion = await findVendorPromotion(req, res);
+      if (!promotion) return;
+
+      // Orders keep a record of the code they used, so used codes are only deactivated
+      if ((promotion.usageCount ?? 0) > 0) {
+        return res.status(409).json({ message: "This code has been used on orders. Deactivate it instead." });
+      }
+
+      await storage.deletePromotion(promotion.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting promotion:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+}
@@ -0,0 +1,206 @@
+import Decimal from "decimal.js";
+import type { Promotion } from "@shared/schema";
+
+export type PromotionErrorCode =
+  | "PROMOTION_NOT_FOUND"
+  | "PROMOTION_INACTIVE"
+  | "PROMOTION_NOT_STARTED"
+  | "PROMOTION_EXPIRED"
+  | "MIN_SUBTOTAL_NOT_MET"
+  | "USAGE_LIMIT_REACHED"
+  | "CUSTOMER_LIMIT_REACHED"
+  | "SIGN_IN_REQUIRED"
+  | "NOT_APPLICABLE";
+
+/**
+ * Thrown when a code can't be used on a cart. The message is meant to be
+ * shown to the shopper as-is.
+ */
+export class PromotionError extends Error {
+  public readonly code: PromotionErrorCode;
+
+  constructor(code: PromotionErrorCode, message: string) {
+    super(message);
+    this.name = "PromotionError";
+    this.code = code;
+  }
+}
+
+/**
+ * A priced cart line as seen by the promotions engine
+ */
+export interface PromotionLine {
+  id?: number;
+  productId: number;
+  // The product's category followed by its parent categories
+  categoryIds: number[];
+  quantity: number;
+  unitPrice: string;
+}
+
+export interface PromotionContext {
+  now?: Date;
+  // Orders this customer has already placed with the code. Leave undefined to
+  // skip the per-customer check, e.g. when the shopper isn't known yet.
+  customerRedemptions?: number;
+  // Null when checking out as a guest
+  customerId?: number | null;
+}
+
+export interface PromotionResult {
+  discount: string;
+  freeShipping: boolean;
+  // Discount per cart line id, in the same basis as the line's catalog price
+  lineDiscounts: Map<number, string>;
+}
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Check that a promotion is live and within its usage limits.
+ * Throws a PromotionError describing the first problem found.
+ */
+export function assertPromotionUsable(promotion: Promotion, context: PromotionContext = {}): void {
+  const now = context.now ?? new Date();
+
+  if (!promotion.isActive) {
+    throw new PromotionError("PROMOTION_INACTIVE", "This code is no longer active");
+  }
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new PromotionError("PROMOTION_NOT_STARTED", "This code isn't valid yet");
+  }
+  if (promotion.endsAt && promotion.endsAt < now) {
+    throw new PromotionError("PROMOTION_EXPIRED", "This code has expired");
+  }
+  if (promotion.usageLimit != null && (promotion.usageCount ?? 0) >= promotion.usageLimit) {
+    throw new PromotionError("USAGE_LIMIT_REACHED", "This code has reached its usage limit");
+  }
+  if (promotion.usageLimitPerCustomer != null) {
+    if (context.customerId === null) {
+      throw new PromotionError("SIGN_IN_REQUIRED", "Sign in to use this code");
+    }
+    if (context.customerRedemptions !== undefined && context.customerRedemptions >= promotion.usageLimitPerCustomer) {
+      throw new PromotionError("CUSTOMER_LIMIT_REACHED", "You've already used this code");
+    }
+  }
+}
+
+/**
+ * Whether a line is covered by the promotion's product and category targeting.
+ * A promotion without targeting applies to every line.
+ */
+export function isLineEligible(promotion: Promotion, line: PromotionLine): boolean {
+  const productIds = promotion.productIds ?? [];
+  const categoryIds = promotion.categoryIds ?? [];
+  if (productIds.length === 0 && categoryIds.length === 0) return true;
+
+  return productIds.includes(line.productId) ||
+    line.categoryIds.some(categoryId => categoryIds.includes(categoryId));
+}
+
+/**
+ * Spread a discount over lines in proportion to their amounts. Rounding
+ * leftovers go to the last line so the parts always add up to the whole.
+ */
+function allocateDiscount(lines: PromotionLine[], discount: Decimal): Map<number, string> {
+  const allocations = new Map<number, string>();
+  const amounts = lines.map(line => new Decimal(line.unitPrice).times(line.quantity));
+  const base = amounts.reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+  if (base.isZero()) return allocations;
+
+  let remaining = discount;
+  lines.forEach((line, index) => {
+    const share = index === lines.length - 1
+      ? remaining
+      : discount.times(amounts[index]).dividedBy(base).toDecimalPlaces(2, Decimal.ROUND_DOWN);
+    remaining = remaining.minus(share);
+    if (line.id !== undefined) allocations.set(line.id, share.toFixed(2));
+  });
+
+  return allocations;
+}
+
+/**
+ * Buy X get Y: eligible units are sorted from most to least expensive and in
+ * every group of X + Y units the cheapest Y are free.
+ */
+function buyXGetYDiscounts(promotion: Promotion, lines: PromotionLine[]): Map<number, string> {
+  const buy = promotion.buyQuantity ?? 0;
+  const get = promotion.getQuantity ?? 0;
+  const discounts = new Map<number, Decimal>();
+  if (buy <= 0 || get <= 0) return new Map();
+
+  const units = lines
+    .flatMap(line => Array.from({ length: line.quantity }, () => line))
+    .sort((a, b) => new Decimal(b.unitPrice).comparedTo(a.unitPrice));
+
+  const groupSize = buy + get;
+  for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+    for (const unit of units.slice(start + buy, start + groupSize)) {
+      if (unit.id === undefined) continue;
+      discounts.set(unit.id, (discounts.get(unit.id) ?? new Decimal(0)).plus(unit.unitPrice));
+    }
+  }
+
+  return new Map(Array.from(discounts, ([id, amount]) => [id, amount.toFixed(2)]));
+}
+
+/**
+ * Work out what a promotion takes off a cart. Amounts are in the same basis
+ * as the catalog prices, so they can be fed back into the pricing engine
+ * before tax is worked out.
+ */
+export function evaluatePromotion(
+  promotion: Promotion,
+  lines: PromotionLine[],
+  context: PromotionContext = {}
+): PromotionResult {
+  assertPromotionUsable(promotion, context);
+
+  const cartAmount = lines.reduce((sum, line) => sum.plus(new Decimal(line.unitPrice).times(line.quantity)), new Decimal(0));
+  if (promotion.minSubtotal && cartAmount.lessThan(promotion.minSubtotal)) {
+    throw new PromotionError(
+      "MIN_SUBTOTAL_NOT_MET",
+      `Spend at least ${new Decimal(promotion.minSubtotal).toFixed(2)} to use this code`
+    );
+  }
+
+  const eligible = lines.filter(line => isLineEligible(promotion, line));
+  if (eligible.length === 0) {
+    throw new PromotionError("NOT_APPLICABLE", "This code doesn't apply to any items in your cart");
+  }
+
+  const eligibleAmount = eligible.reduce((sum, line) => sum.plus(new Decimal(line.unitPrice).times(line.quantity)), new Decimal(0));
+  const value = new Decimal(promotion.value ?? 0);
+
+  let lineDiscounts = new Map<number, string>();
+  switch (promotion.type) {
+    case "percentage":
+      lineDiscounts = allocateDiscount(eligible, Decimal.min(value, 100).times(eligibleAmount).dividedBy(100).toDecimalPlaces(2));
+      break;
+    case "fixed_amount":
+      lineDiscounts = allocateDiscount(eligible, Decimal.min(value, eligibleAmount).toDecimalPlaces(2));
+      break;
+    case "buy_x_get_y":
+      lineDiscounts = buyXGetYDiscounts(promotion, eligible);
+      if (lineDiscounts.size === 0) {
+        throw new PromotionError(
+          "NOT_APPLICABLE",
+          `Add ${(promotion.buyQuantity ?? 0) + (promotion.getQuantity ?? 0)} eligible items to use this code`
+        );
+      }
+      break;
+    case "free_shipping":
+      break;
+  }
+
+  const discount = Array.from(lineDiscounts.values()).reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+
+  return {
+    discount: discount.toFixed(2),
+    freeShipping: promotion.type === "free_shipping",
+    lineDiscounts,
+  };
+}
@@ -0,0 +1,230 @@
+import Decimal from "decimal.js";
+import type { Invoice, InvoiceLine, SubscriptionInfo, SubscriptionPlan } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  addBillingCycle,
+  chargeWithStripe,
+  collectInvoice,
+  getDunningConfig,
+  periodPrice,
+  planPrice,
+  type InvoiceCharger,
+} from "./billing";
+
+// "immediate" switches now and settles the difference; "period_end" waits for the renewal
+export type ProrationTiming = "immediate" | "period_end";
+
+export interface PlanChange {
+  plan: SubscriptionPlan;
+  billingCycle: "monthly" | "yearly";
+  timing: ProrationTiming;
+}
+
+export interface ProrationPreview {
+  timing: ProrationTiming;
+  // When the new plan or billing cycle takes effect
+  effectiveAt: Date;
+  currency: string;
+  // The billing period the subscription will be in once the change is made
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  // Value of the unused part of the current period
+  credit: string;
+  // Cost of the new plan for the time it covers now
+  charge: string;
+  // Earlier credit used towards the charge
+  creditApplied: string;
+  // To be paid now
+  amountDue: string;
+  // Credit left for later invoices
+  creditBalance: string;
+  // Price of each period on the new plan from the next renewal
+  renewalAmount: string;
+  // The lines of the invoice raised for the change; empty when nothing is invoiced
+  lines: InvoiceLine[];
+}
+
+export type PlanChangeErrorCode = "UNCHANGED" | "PAYMENT_OVERDUE";
+
+export class PlanChangeError extends Error {
+  public readonly code: PlanChangeErrorCode;
+
+  constructor(code: PlanChangeErrorCode, message: string) {
+    super(message);
+    this.name = "PlanChangeError";
+    this.code = code;
+  }
+}
+
+const day = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Work out what changing a subscription's plan or billing cycle costs.
+ *
+ * An immediate change credits the unused share of the current period at the
+ * price paid for it. Staying on the same billing cycle, the new plan is
+ * charged for the same share of the period, which keeps its dates; a new
+ * billing cycle starts a full period from now instead. Whatever credit is
+ * left over goes on the subscription's credit balance for later invoices.
+ *
+ * Changes at the end of the period, and changes during a trial (which are
+ * always immediate), cost nothing now.
+ */
+export function calculateProration(subscription: SubscriptionInfo, change: PlanChange, now = new Date()): ProrationPreview {
+  if (change.plan.id === subscription.planId && change.billingCycle === subscription.billingCycle) {
+    throw new PlanChangeError("UNCHANGED", `Subscription is already on the ${change.plan.name} plan, billed ${change.billingCycle}`);
+  }
+  if (["past_due", "unpaid"].includes(subscription.status)) {
+    throw new PlanChangeError("PAYMENT_OVERDUE", "Please pay your outstanding invoices before changing plans");
+  }
+
+  const renewalAmount = planPrice(change.plan, change.billingCycle);
+  const balance = new Decimal(subscription.creditBalance || "0");
+  const { currentPeriodStart: start, currentPeriodEnd: end } = subscription;
+  const noCharge = {
+    credit: "0.00",
+    charge: "0.00",
+    creditApplied: "0.00",
+    amountDue: "0.00",
+    creditBalance: balance.toFixed(2),
+    renewalAmount,
+    lines: [],
+  };
+  const currency = subscription.currency || subscription.plan.currency;
+
+  // Nothing paid for yet, or nothing left of it
+  if (subscription.status === "trialing" || !start || !end || end <= now) {
+    return { ...noCharge, timing: "immediate", effectiveAt: now, currency, periodStart: start, periodEnd: end };
+  }
+
+  if (change.timing === "period_end") {
+    return {
+      ...noCharge,
+      timing: "period_end",
+      effectiveAt: end,
+      currency,
+      periodStart: end,
+      periodEnd: addBillingCycle(end, change.billingCycle),
+    };
+  }
+
+  const remaining = Math.min(Math.max(end.getTime() - now.getTime(), 0), end.getTime() - start.getTime());
+  const unused = new Decimal(remaining).div(end.getTime() - start.getTime());
+  const credit = new Decimal(periodPrice(subscription)).times(unused).toDecimalPlaces(2);
+
+  const newCycle = change.billingCycle !== subscription.billingCycle;
+  const periodStart = newCycle ? now : start;
+  const periodEnd = newCycle ? addBillingCycle(now, change.billingCycle) : end;
+  const charge = newCycle
+    ? new Decimal(renewalAmount)
+    : new Decimal(renewalAmount).times(unused).toDecimalPlaces(2);
+
+  const lines: InvoiceLine[] = [
+    {
+      description: `Unused time on ${subscription.plan.name} plan (${subscription.billingCycle}), ${day(now)} to ${day(end)}`,
+      amount: credit.neg().toFixed(2),
+    },
+    {
+      description: `${change.plan.name} plan (${change.billingCycle}), ${day(now)} to ${day(periodEnd)}`,
+      amount: charge.toFixed(2),
+    },
+  ];
+
+  const net = charge.minus(credit);
+  const creditApplied = Decimal.max(0, Decimal.min(balance, net));
+  const amountDue = Decimal.max(0, net.minus(creditApplied));
+  const creditBalance = balance.minus(creditApplied).plus(Decimal.max(0, net.neg()));
+  if (creditApplied.gt(0)) {
+    lines.push({ description: "Credit from earlier plan changes", amount: creditApplied.neg().toFixed(2) });
+  }
+  if (net.lt(0)) {
+    lines.push({ description: "Added to your credit balance", amount: net.neg().toFixed(2) });
+  }
+
+  return {
+    timing: "immediate",
+    effectiveAt: now,
+    currency,
+    periodStart,
+    periodEnd,
+    credit: credit.toFixed(2),
+    charge: charge.toFixed(2),
+    creditApplied: creditApplied.toFixed(2),
+    amountDue: amountDue.toFixed(2),
+    creditBalance: creditBalance.toFixed(2),
+    renewalAmount,
+    lines,
+  };
+}
+
+export interface PlanChangeResult {
+  subscription: SubscriptionInfo;
+  proration: ProrationPreview;
+  // Raised for an immediate change that was prorated
+  invoice: Invoice | null;
+  paid: boolean;
+}
+
+/**
+ * Make a plan or billing cycle change for a subscription we bill ourselves.
+ * Immediate changes are invoiced as `calculateProration` works out and the
+ * invoice collected straight away; one that can't be paid goes through
+ * dunning like any other. Changes at the end of the period are kept on the
+ * subscription until the billing job renews it.
+ */
+export async function applyPlanChange(
+  subscription: SubscriptionInfo,
+  change: PlanChange,
+  now = new Date(),
+  charge: InvoiceCharger = chargeWithStripe
+): Promise<PlanChangeResult> {
+  const proration = calculateProration(subscription, change, now);
+
+  if (proration.timing === "period_end") {
+    const updated = await storage.updateVendorSubscription(subscription.id, {
+      pendingPlanChange: { planId: change.plan.id, billingCycle: change.billingCycle, requestedAt: now.toISOString() },
+    });
+    return { subscription: updated ?? subscription, proration, invoice: null, paid: false };
+  }
+
+  const updated = (await storage.updateVendorSubscription(subscription.id, {
+    planId: change.plan.id,
+    billingCycle: change.billingCycle,
+    amount: proration.renewalAmount,
+    creditBalance: proration.creditBalance,
+    pendingPlanChange: null,
+    currentPeriodStart: proration.periodStart,
+    currentPeriodEnd: proration.periodEnd,
+    renewalDate: proration.periodEnd,
+  })) ?? subscription;
+  await storage.updateVendor(subscription.vendorId, {
+    subscriptionPlanId: change.plan.id,
+    ...(proration.periodEnd ? { nextBillingDate: proration.periodEnd } : {}),
+  });
+
+  if (proration.lines.length === 0) {
+    return { subscription: updated, proration, invoice: null, paid: false };
+  }
+
+  const invoice = await storage.createInvoice({
+    vendorId: subscription.vendorId,
+    subscriptionId: subscription.id,
+    invoiceNumber: `PRO-${subscription.id}-${now.getTime()}`,
+    amount: proration.amountDue,
+    tax: "0",
+    total: proration.amountDue,
+    status: "pending",
+    currency: proration.currency,
+    dueDate: now,
+    notes: `Change from ${subscription.plan.name} (${subscription.billingCycle}) to ${change.plan.name} (${change.billingCycle})`,
+    lines: proration.lines,
+  });
+  const paid = await collectInvoice(updated, invoice, charge, getDunningConfig());
+
+  return {
+    subscription: (await storage.getVendorSubscription(subscription.vendorId)) ?? updated,
+    proration,
+    invoice: (await storage.getInvoice(invoice.id)) ?? invoice,
+    paid,
+  };
+}
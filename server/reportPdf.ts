@@ -0,0 +1,132 @@
+import PDFDocument from "pdfkit";
+
+export interface ReportPdfColumn {
+  heading: string;
+  numeric?: boolean;
+}
+
+export interface ReportPdfData {
+  title: string;
+  // Who and what the report covers, e.g. ["Acme Tea", "1 Oct 2026 – 31 Oct 2026"]
+  subtitle: string[];
+  generatedAt: Date;
+  columns: ReportPdfColumn[];
+  rows: string[][];
+  totals: string[] | null;
+}
+
+const PAGE_MARGIN = 36;
+const FOOTER_HEIGHT = 24;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString("en-IN", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit", timeZone: "Asia/Kolkata" });
+
+/**
+ * Share the page width out between columns: text columns get twice the room
+ * of numeric ones
+ */
+function columnWidths(columns: ReportPdfColumn[], width: number): number[] {
+  const weights = columns.map(column => (column.numeric ? 1 : 2));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (width * weight) / total);
+}
+
+function drawRow(doc: PDFKit.PDFDocument, columns: ReportPdfColumn[], widths: number[], cells: string[], y: number, bold = false): number {
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+  let x = PAGE_MARGIN;
+  let height = 0;
+  cells.forEach((cell, index) => {
+    const width = widths[index] - 6;
+    const align = columns[index].numeric ? "right" : "left";
+    height = Math.max(height, doc.heightOfString(cell, { width }));
+    doc.text(cell, x + 3, y, { width, align });
+    x += widths[index];
+  });
+  return y + height + 5;
+}
+
+function drawRowHeight(doc: PDFKit.PDFDocument, widths: number[], cells: string[]): number {
+  doc.font("Helvetica").fontSize(8);
+  return cells.reduce((height, cell, index) => Math.max(height, doc.heightOfString(cell, { width: widths[index] - 6 })), 0) + 5;
+}
+
+/**
+ * Lay out a report as a PDF table: a heading with what it covers, the rows
+ * (with the header repeated on each page) and a totals row if there is one.
+ * Wide tables are printed landscape.
+ */
+export function renderReportPdf(report: ReportPdfData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      layout: report.columns.length > 6 ? "landscape" : "portrait",
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: report.title },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const widths = columnWidths(report.columns, contentWidth);
+    const headings = report.columns.map(column => column.heading);
+    const bottom = () => doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+
+    const drawHeader = (y: number) => {
+      const next = drawRow(doc, report.columns, widths, headings, y, true);
+      doc.moveTo(PAGE_MARGIN, next - 2).lineTo(PAGE_MARGIN + contentWidth, next - 2).lineWidth(0.5).stroke();
+      return next + 2;
+    };
+
+    // Heading
+    doc.font("Helvetica-Bold").fontSize(16).text(report.title, PAGE_MARGIN, PAGE_MARGIN, { width: contentWidth });
+    doc.font("Helvetica").fontSize(9);
+    report.subtitle.forEach(line => doc.text(line, { width: contentWidth }));
+    doc.fillColor("#666666").text(`Generated ${formatDateTime(report.generatedAt)}`, { width: contentWidth }).fillColor("#000000");
+
+    let y = drawHeader(doc.y + 14);
+    if (report.rows.length === 0) {
+      doc.font("Helvetica").fontSize(9).text("Nothing to report for this period.", PAGE_MARGIN, y + 4);
+    }
+
+    report.rows.forEach((row, index) => {
+      if (y > bottom() - 14) {
+        doc.addPage();
+        y = drawHeader(PAGE_MARGIN);
+      }
+      // Shade every other row so long tables are easier to follow
+      if (index % 2 === 1) {
+        const height = drawRowHeight(doc, widths, row);
+        doc.rect(PAGE_MARGIN, y - 2, contentWidth, height).fill("#f3f4f6").fillColor("#000000");
+      }
+      y = drawRow(doc, report.columns, widths, row, y);
+    });
+
+    if (report.totals) {
+      if (y > bottom() - 20) {
+        doc.addPage();
+        y = drawHeader(PAGE_MARGIN);
+      }
+      doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + contentWidth, y).lineWidth(0.5).stroke();
+      drawRow(doc, report.columns, widths, report.totals, y + 4, true);
+    }
+
+    // Page numbers, once the number of pages is known
+    const range = doc.bufferedPageRange();
+    for (let page = range.start; page < range.start + range.count; page++) {
+      doc.switchToPage(page);
+      // The footer sits in the bottom margin, which would otherwise start a new page
+      doc.page.margins.bottom = 0;
+      doc.font("Helvetica").fontSize(8).fillColor("#666666").text(
+        `${report.title} · Page ${page + 1} of ${range.count}`,
+        PAGE_MARGIN,
+        doc.page.height - PAGE_MARGIN - 10,
+        { width: contentWidth, align: "center", lineBreak: false }
+      );
+    }
+
+    doc.end();
+  });
+}
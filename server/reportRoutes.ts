@@ -0,0 +1,134 @@
+import { Express, Request, Response } from "express";
+import { ZodError } from "zod";
+import { storage } from "./storage";
+import { requireVendorAccess } from "./middleware/tenantMiddleware";
+import {
+  createReportSchedule,
+  getReportFile,
+  ReportError,
+  reportRequestSchema,
+  reportScheduleInputSchema,
+  requestReport,
+  updateReportSchedule,
+} from "./reports";
+
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+function handleReportError(res: Response, error: any) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: "Validation error", errors: error.errors });
+  }
+  if (error instanceof ReportError) {
+    return res.status(error.code === "EXPIRED" ? 410 : 409).json({ message: error.message, error: error.code });
+  }
+  console.error("Error handling report request:", error);
+  return res.status(500).json({ message: "Internal server error" });
+}
+
+/**
+ * Register report routes: vendors generate sales, GST, inventory and
+ * customer reports as CSV, XLSX or PDF, download them while they're kept,
+ * and schedule them to be emailed
+ */
+export default function registerReportRoutes(app: Express) {
+  // Recently generated reports
+  app.get("/api/vendors/:vendorId/reports", requireVendorAccess(), async (req, res) => {
+    try {
+      const jobs = await storage.getReportJobsByVendorId(parseInt(req.params.vendorId));
+      res.json(jobs);
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  // Generate a report: 201 with the finished job, or 202 with one to poll for long ranges
+  app.post("/api/vendors/:vendorId/reports", requireVendorAccess(), async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const job = await requestReport(parseInt(req.params.vendorId), req.user?.id ?? null, reportRequestSchema.parse(req.body));
+      res.status(job.status === "pending" || job.status === "running" ? 202 : 201).json(job);
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  app.get("/api/vendors/:vendorId/reports/:jobId", requireVendorAccess(), async (req, res) => {
+    try {
+      const job = await storage.getReportJob(parseInt(req.params.jobId));
+      if (!job || job.vendorId !== parseInt(req.params.vendorId)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  app.get("/api/vendors/:vendorId/reports/:jobId/download", requireVendorAccess(), async (req, res) => {
+    try {
+      const job = await storage.getReportJob(parseInt(req.params.jobId));
+      if (!job || job.vendorId !== parseInt(req.params.vendorId)) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const file = await getReportFile(job);
+      res.setHeader("Content-Type", file.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.send(file.body);
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  // Scheduled reports
+  app.get("/api/vendors/:vendorId/report-schedules", requireVendorAccess(), async (req, res) => {
+    try {
+      res.json(await storage.getReportSchedulesByVendorId(parseInt(req.params.vendorId)));
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  app.post("/api/vendors/:vendorId/report-schedules", requireVendorAccess(), async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const input = reportScheduleInputSchema.parse(req.body);
+      const schedule = await createReportSchedule(parseInt(req.params.vendorId), req.user?.id ?? null, input);
+      res.status(201).json(schedule);
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  app.patch("/api/vendors/:vendorId/report-schedules/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const schedule = await storage.getReportSchedule(parseInt(req.params.id));
+      if (!schedule || schedule.vendorId !== parseInt(req.params.vendorId)) {
+        return res.status(404).json({ message: "Report schedule not found" });
+      }
+
+      const changes = reportScheduleInputSchema.partial().parse(req.body);
+      res.json(await updateReportSchedule(schedule, changes));
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+
+  app.delete("/api/vendors/:vendorId/report-schedules/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const schedule = await storage.getReportSchedule(parseInt(req.params.id));
+      if (!schedule || schedule.vendorId !== parseInt(req.params.vendorId)) {
+        return res.status(404).json({ message: "Report schedule not found" });
+      }
+
+      await storage.deleteReportSchedule(schedule.id);
+      res.status(204).end();
+    } catch (error) {
+      return handleReportError(res, error);
+    }
+  });
+}
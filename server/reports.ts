@@ -0,0 +1,595 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { Decimal } from "decimal.js";
+import {
+  insertReportScheduleSchema,
+  REPORT_FORMATS,
+  REPORT_TYPES,
+  type ReportFormat,
+  type ReportFrequency,
+  type ReportJob,
+  type ReportSchedule,
+  type ReportType,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getImageStore } from "./imageStorage";
+import { writeSpreadsheet } from "./productImport";
+import { renderReportPdf } from "./reportPdf";
+import { queueScheduledReport } from "./transactionalEmails";
+import { DAY_MS, nextBucket, startOfBucket, toDateKey, type AnalyticsGranularity } from "./analyticsPeriods";
+import { analyticsRangeQuerySchema, resolveAnalyticsRange } from "./vendorAnalytics";
+
+// Reports over ranges longer than this are generated in the background
+const INLINE_MAX_DAYS = 31;
+
+export type ReportErrorCode = "NOT_READY" | "FAILED" | "EXPIRED";
+
+export class ReportError extends Error {
+  public readonly code: ReportErrorCode;
+
+  constructor(code: ReportErrorCode, message: string) {
+    super(message);
+    this.name = "ReportError";
+    this.code = code;
+  }
+}
+
+// GST on everything sold at one rate
+export interface GstRateSales {
+  taxRate: string;
+  quantity: number;
+  taxableValue: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  taxAmount: string;
+  total: string;
+}
+
+// A customer who ordered in a period, with what they've spent over all
+// their orders up to its end
+export interface CustomerLifetimeValue {
+  customerId: number;
+  name: string;
+  email: string;
+  orders: number;
+  revenue: string;
+  firstOrderAt: Date;
+  lastOrderAt: Date;
+}
+
+interface ReportColumn {
+  heading: string;
+  numeric?: boolean;
+}
+
+export interface ReportTable {
+  title: string;
+  // What the figures cover, under the title
+  description: string;
+  columns: ReportColumn[];
+  rows: string[][];
+  totals: string[] | null;
+}
+
+interface ReportPeriod {
+  from: Date;
+  to: Date; // Exclusive
+}
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  sales_by_day: "Sales by day",
+  sales_by_product: "Sales by product",
+  sales_by_category: "Sales by category",
+  gst_summary: "GST summary",
+  inventory_valuation: "Inventory valuation",
+  customer_lifetime_value: "Customer lifetime value",
+};
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+// Schedules report on the day, week or month that just ended
+const SCHEDULE_PERIODS: Record<ReportFrequency, AnalyticsGranularity> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+/**
+ * A report to generate: `from` and `to` are inclusive dates, and default
+ * to the last 30 days
+ */
+export const reportRequestSchema = analyticsRangeQuerySchema.pick({ from: true, to: true }).extend({
+  type: z.enum(REPORT_TYPES),
+  format: z.enum(REPORT_FORMATS),
+});
+
+export type ReportRequest = z.infer<typeof reportRequestSchema>;
+
+export const reportScheduleInputSchema = insertReportScheduleSchema.pick({
+  type: true,
+  format: true,
+  frequency: true,
+  recipients: true,
+  isActive: true,
+});
+
+export type ReportScheduleInput = z.infer<typeof reportScheduleInputSchema>;
+
+const money = (value: Decimal.Value) => new Decimal(value).toFixed(2);
+
+const share = (part: Decimal.Value, whole: Decimal) =>
+  whole.isZero() ? "0.0" : new Decimal(part).div(whole).times(100).toFixed(1);
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric", timeZone: "UTC" });
+
+function describePeriod({ from, to }: ReportPeriod): string {
+  const lastDay = new Date(to.getTime() - DAY_MS);
+  return lastDay.getTime() === from.getTime() ? formatDay(from) : `${formatDay(from)} – ${formatDay(lastDay)}`;
+}
+
+async function salesByDay(vendorId: number, period: ReportPeriod): Promise<ReportTable> {
+  const buckets = await storage.getAnalyticsBuckets(vendorId, period.from, period.to, "day");
+  const byDay = new Map(buckets.map(bucket => [bucket.period, bucket]));
+
+  const rows: string[][] = [];
+  let orders = 0;
+  let revenue = new Decimal(0);
+  for (let day = period.from; day < period.to; day = new Date(day.getTime() + DAY_MS)) {
+    const bucket = byDay.get(toDateKey(day));
+    const dayOrders = bucket?.orders ?? 0;
+    const dayRevenue = new Decimal(bucket?.revenue ?? 0);
+    orders += dayOrders;
+    revenue = revenue.plus(dayRevenue);
+    rows.push([toDateKey(day), String(dayOrders), money(dayRevenue), money(dayOrders ? dayRevenue.div(dayOrders) : 0)]);
+  }
+
+  return {
+    title: REPORT_TITLES.sales_by_day,
+    description: `Paid and cash on delivery orders placed ${describePeriod(period)}, less refunds. Canceled and returned orders aren't included.`,
+    columns: [
+      { heading: "Date" },
+      { heading: "Orders", numeric: true },
+      { heading: "Revenue", numeric: true },
+      { heading: "Average order value", numeric: true },
+    ],
+    rows,
+    totals: ["Total", String(orders), money(revenue), money(orders ? revenue.div(orders) : 0)],
+  };
+}
+
+async function salesByProduct(vendorId: number, period: ReportPeriod): Promise<ReportTable> {
+  const [sales, products] = await Promise.all([
+    storage.getProductSales(vendorId, period.from, period.to),
+    storage.getProducts(vendorId),
+  ]);
+  const skus = new Map(products.map(product => [product.id, product.sku ?? ""]));
+  const revenue = sales.reduce((sum, product) => sum.plus(product.revenue), new Decimal(0));
+  const quantity = sales.reduce((sum, product) => sum + product.quantity, 0);
+
+  return {
+    title: REPORT_TITLES.sales_by_product,
+    description: `Products sold ${describePeriod(period)}, by revenue`,
+    columns: [
+      { heading: "Product" },
+      { heading: "SKU" },
+      { heading: "Units sold", numeric: true },
+      { heading: "Revenue", numeric: true },
+      { heading: "Share of revenue (%)", numeric: true },
+    ],
+    rows: sales
+      .sort((a, b) => new Decimal(b.revenue).comparedTo(a.revenue) || b.quantity - a.quantity)
+      .map(product => [
+        product.name,
+        skus.get(product.productId) ?? "",
+        String(product.quantity),
+        money(product.revenue),
+        share(product.revenue, revenue),
+      ]),
+    totals: ["Total", "", String(quantity), money(revenue), sales.length ? "100.0" : "0.0"],
+  };
+}
+
+async function salesByCategory(vendorId: number, period: ReportPeriod): Promise<ReportTable> {
+  const categories = await storage.getSalesByCategory(vendorId, period.from, period.to);
+  const revenue = categories.reduce((sum, category) => sum.plus(category.revenue), new Decimal(0));
+
+  return {
+    title: REPORT_TITLES.sales_by_category,
+    description: `Revenue by product category ${describePeriod(period)}`,
+    columns: [
+      { heading: "Category" },
+      { heading: "Revenue", numeric: true },
+      { heading: "Share of revenue (%)", numeric: true },
+    ],
+    rows: categories.map(category => [category.name, money(category.revenue), share(category.revenue, revenue)]),
+    totals: ["Total", money(revenue), categories.length ? "100.0" : "0.0"],
+  };
+}
+
+async function gstSummary(vendorId: number, period: ReportPeriod): Promise<ReportTable> {
+  const rates = await storage.getGstSummary(vendorId, period.from, period.to);
+  const total = (field: Exclude<keyof GstRateSales, "taxRate" | "quantity">) =>
+    money(rates.reduce((sum, rate) => sum.plus(rate[field]), new Decimal(0)));
+
+  return {
+    title: REPORT_TITLES.gst_summary,
+    description: `GST on sales ${describePeriod(period)}, by rate. Shipping charges aren't included.`,
+    columns: [
+      { heading: "GST rate (%)", numeric: true },
+      { heading: "Units", numeric: true },
+      { heading: "Taxable value", numeric: true },
+      { heading: "CGST", numeric: true },
+      { heading: "SGST", numeric: true },
+      { heading: "IGST", numeric: true },
+      { heading: "Total GST", numeric: true },
+      { heading: "Invoice value", numeric: true },
+    ],
+    rows: rates.map(rate => [
+      new Decimal(rate.taxRate).toString(),
+      String(rate.quantity),
+      money(rate.taxableValue),
+      money(rate.cgst),
+      money(rate.sgst),
+      money(rate.igst),
+      money(rate.taxAmount),
+      money(rate.total),
+    ]),
+    totals: [
+      "Total",
+      String(rates.reduce((sum, rate) => sum + rate.quantity, 0)),
+      total("taxableValue"),
+      total("cgst"),
+      total("sgst"),
+      total("igst"),
+      total("taxAmount"),
+      total("total"),
+    ],
+  };
+}
+
+/**
+ * Stock on hand valued at its purchase price and at its selling price. A
+ * product with variants is counted through its variants; a variant without
+ * a purchase price uses its product's.
+ */
+async function inventoryValuation(vendorId: number): Promise<ReportTable> {
+  const products = (await storage.getProducts(vendorId)).filter(product => product.status !== "archived");
+  const rows: string[][] = [];
+  let units = 0;
+  let costValue = new Decimal(0);
+  let retailValue = new Decimal(0);
+  let unpriced = 0;
+
+  for (const product of products) {
+    const variants = await storage.getProductVariantsByProductId(product.id);
+    const stock = variants.length
+      ? variants.map(variant => ({
+          variant: variant.title ?? "",
+          sku: variant.sku ?? product.sku ?? "",
+          quantity: variant.inventoryQuantity ?? 0,
+          purchasePrice: variant.purchasePrice ?? product.purchasePrice,
+          sellingPrice: variant.sellingPrice,
+        }))
+      : [{
+          variant: "",
+          sku: product.sku ?? "",
+          quantity: product.inventoryQuantity ?? 0,
+          purchasePrice: product.purchasePrice,
+          sellingPrice: product.sellingPrice,
+        }];
+
+    for (const item of stock) {
+      // Oversold stock is counted as none rather than as negative value
+      const quantity = Math.max(0, item.quantity);
+      const cost = item.purchasePrice ? new Decimal(item.purchasePrice).times(quantity) : null;
+      const retail = new Decimal(item.sellingPrice).times(quantity);
+      units += quantity;
+      retailValue = retailValue.plus(retail);
+      if (cost) costValue = costValue.plus(cost);
+      else if (quantity > 0) unpriced++;
+
+      rows.push([
+        product.name,
+        item.variant,
+        item.sku,
+        String(quantity),
+        item.purchasePrice ? money(item.purchasePrice) : "",
+        cost ? money(cost) : "",
+        money(item.sellingPrice),
+        money(retail),
+      ]);
+    }
+  }
+
+  return {
+    title: REPORT_TITLES.inventory_valuation,
+    description: `Stock on hand when the report was generated${unpriced ? `. ${unpriced} items in stock have no purchase price and aren't included in the stock value.` : ""}`,
+    columns: [
+      { heading: "Product" },
+      { heading: "Variant" },
+      { heading: "SKU" },
+      { heading: "Quantity", numeric: true },
+      { heading: "Unit cost", numeric: true },
+      { heading: "Stock value", numeric: true },
+      { heading: "Selling price", numeric: true },
+      { heading: "Retail value", numeric: true },
+    ],
+    rows,
+    totals: ["Total", "", "", String(units), "", money(costValue), "", money(retailValue)],
+  };
+}
+
+async function customerLifetimeValue(vendorId: number, period: ReportPeriod): Promise<ReportTable> {
+  const customers = await storage.getCustomerLifetimeValues(vendorId, period.from, period.to);
+  const revenue = customers.reduce((sum, customer) => sum.plus(customer.revenue), new Decimal(0));
+  const orders = customers.reduce((sum, customer) => sum + customer.orders, 0);
+
+  return {
+    title: REPORT_TITLES.customer_lifetime_value,
+    description: `Customers who ordered ${describePeriod(period)}, with everything they've spent up to the end of it`,
+    columns: [
+      { heading: "Customer" },
+      { heading: "Email" },
+      { heading: "Orders", numeric: true },
+      { heading: "Lifetime revenue", numeric: true },
+      { heading: "Average order value", numeric: true },
+      { heading: "First order" },
+      { heading: "Last order" },
+    ],
+    rows: customers
+      .sort((a, b) => new Decimal(b.revenue).comparedTo(a.revenue))
+      .map(customer => [
+        customer.name,
+        customer.email,
+        String(customer.orders),
+        money(customer.revenue),
+        money(new Decimal(customer.revenue).div(customer.orders || 1)),
+        toDateKey(customer.firstOrderAt),
+        toDateKey(customer.lastOrderAt),
+      ]),
+    totals: ["Total", `${customers.length} ${customers.length === 1 ? "customer" : "customers"}`, String(orders), money(revenue), money(orders ? revenue.div(orders) : 0), "", ""],
+  };
+}
+
+/**
+ * Work out a report's rows for a vendor over a period
+ */
+export function buildReport(vendorId: number, type: ReportType, period: ReportPeriod): Promise<ReportTable> {
+  switch (type) {
+    case "sales_by_day":
+      return salesByDay(vendorId, period);
+    case "sales_by_product":
+      return salesByProduct(vendorId, period);
+    case "sales_by_category":
+      return salesByCategory(vendorId, period);
+    case "gst_summary":
+      return gstSummary(vendorId, period);
+    case "inventory_valuation":
+      return inventoryValuation(vendorId);
+    case "customer_lifetime_value":
+      return customerLifetimeValue(vendorId, period);
+  }
+}
+
+/**
+ * Write a report as CSV, XLSX or PDF. Spreadsheets get the totals as their
+ * last row.
+ */
+export async function renderReport(table: ReportTable, format: ReportFormat, storeName: string, generatedAt: Date): Promise<Buffer> {
+  if (format === "pdf") {
+    return renderReportPdf({
+      title: table.title,
+      subtitle: [storeName, table.description],
+      generatedAt,
+      columns: table.columns,
+      rows: table.rows,
+      totals: table.totals,
+    });
+  }
+
+  const rows = [table.columns.map(column => column.heading), ...table.rows, ...(table.totals ? [table.totals] : [])];
+  const numeric = new Set(table.columns.flatMap((column, index) => (column.numeric ? [index] : [])));
+  return writeSpreadsheet(rows, format, numeric, table.title);
+}
+
+function reportFileName(job: ReportJob): string {
+  const name = job.type.replace(/_/g, "-");
+  if (job.type === "inventory_valuation") {
+    return `${name}-${toDateKey(job.createdAt ?? new Date())}.${job.format}`;
+  }
+  return `${name}-${toDateKey(job.rangeFrom)}-to-${toDateKey(new Date(job.rangeTo.getTime() - DAY_MS))}.${job.format}`;
+}
+
+/**
+ * Generate a job's report and store the file through the upload backend.
+ * Failures are recorded on the job rather than thrown.
+ */
+async function generateReport(job: ReportJob): Promise<ReportJob> {
+  const startedAt = new Date();
+  await storage.updateReportJob(job.id, { status: "running", startedAt });
+
+  try {
+    const vendor = await storage.getVendor(job.vendorId);
+    const format = job.format as ReportFormat;
+    const table = await buildReport(job.vendorId, job.type as ReportType, { from: job.rangeFrom, to: job.rangeTo });
+    const file = await renderReport(table, format, vendor?.companyName ?? "", startedAt);
+
+    const storageKey = `reports/${job.vendorId}/${randomUUID()}.${format}`;
+    await getImageStore().put(storageKey, file, CONTENT_TYPES[format]);
+
+    const finishedAt = new Date();
+    const retentionDays = parseInt(process.env.REPORT_RETENTION_DAYS ?? "30");
+    const completed = await storage.updateReportJob(job.id, {
+      status: "completed",
+      rowCount: table.rows.length,
+      fileName: reportFileName(job),
+      storageKey,
+      error: null,
+      finishedAt,
+      expiresAt: new Date(finishedAt.getTime() + retentionDays * DAY_MS),
+    });
+    return completed ?? job;
+  } catch (error: any) {
+    console.error(`Error generating report ${job.id}:`, error);
+    const failed = await storage.updateReportJob(job.id, {
+      status: "failed",
+      error: error?.message ?? String(error),
+      finishedAt: new Date(),
+    });
+    return failed ?? job;
+  }
+}
+
+/**
+ * Ask for a report. Short ranges are generated straight away; longer ones
+ * return a pending job to poll, generated in the background.
+ */
+export async function requestReport(vendorId: number, userId: number | null, request: ReportRequest, now = new Date()): Promise<ReportJob> {
+  const range = resolveAnalyticsRange({ from: request.from, to: request.to, granularity: "day" }, now);
+  const job = await storage.createReportJob({
+    vendorId,
+    userId,
+    type: request.type,
+    format: request.format,
+    rangeFrom: range.from,
+    rangeTo: range.to,
+    status: "pending",
+  });
+
+  if ((range.to.getTime() - range.from.getTime()) / DAY_MS <= INLINE_MAX_DAYS) {
+    return generateReport(job);
+  }
+  generateReport(job).catch(error => console.error(`Error running report job ${job.id}:`, error));
+  return job;
+}
+
+/**
+ * The stored file for a finished report
+ */
+export async function getReportFile(job: ReportJob, now = new Date()): Promise<{ fileName: string; contentType: string; body: Buffer }> {
+  if (job.status === "failed") {
+    throw new ReportError("FAILED", `The report couldn't be generated: ${job.error ?? "unknown error"}`);
+  }
+  if (job.status !== "completed" || !job.storageKey) {
+    throw new ReportError("NOT_READY", "The report is still being generated");
+  }
+  if (job.expiresAt && job.expiresAt <= now) {
+    throw new ReportError("EXPIRED", "The report has expired; generate it again");
+  }
+
+  const format = job.format as ReportFormat;
+  return {
+    fileName: job.fileName ?? reportFileName(job),
+    contentType: CONTENT_TYPES[format],
+    body: await getImageStore().get(job.storageKey),
+  };
+}
+
+// Scheduled runs happen at the start of each day, week (Monday) or month, UTC
+function nextScheduledRun(frequency: ReportFrequency, now: Date): Date {
+  const granularity = SCHEDULE_PERIODS[frequency];
+  return nextBucket(startOfBucket(now, granularity), granularity);
+}
+
+export async function createReportSchedule(
+  vendorId: number,
+  userId: number | null,
+  input: ReportScheduleInput,
+  now = new Date()
+): Promise<ReportSchedule> {
+  return storage.createReportSchedule({
+    ...input,
+    vendorId,
+    userId,
+    nextRunAt: nextScheduledRun(input.frequency as ReportFrequency, now),
+  });
+}
+
+/**
+ * Change a schedule. Changing how often it runs, or turning it back on,
+ * moves its next run to the start of the next period.
+ */
+export async function updateReportSchedule(
+  schedule: ReportSchedule,
+  changes: Partial<ReportScheduleInput>,
+  now = new Date()
+): Promise<ReportSchedule | undefined> {
+  const frequency = (changes.frequency ?? schedule.frequency) as ReportFrequency;
+  const reschedule = frequency !== schedule.frequency || (changes.isActive === true && !schedule.isActive);
+  return storage.updateReportSchedule(schedule.id, {
+    ...changes,
+    ...(reschedule ? { nextRunAt: nextScheduledRun(frequency, now) } : {}),
+  });
+}
+
+/**
+ * Generate a due schedule's report for the period that just ended and email
+ * it to the schedule's recipients. Returns whether it was queued.
+ */
+async function runSchedule(schedule: ReportSchedule, now: Date): Promise<boolean> {
+  const granularity = SCHEDULE_PERIODS[schedule.frequency as ReportFrequency];
+  const to = startOfBucket(now, granularity);
+  const from = startOfBucket(new Date(to.getTime() - DAY_MS), granularity);
+
+  // Moved on first, so a slow report isn't picked up again by the next run
+  await storage.updateReportSchedule(schedule.id, { lastRunAt: now, nextRunAt: nextBucket(to, granularity) });
+
+  const job = await generateReport(await storage.createReportJob({
+    vendorId: schedule.vendorId,
+    userId: null,
+    scheduleId: schedule.id,
+    type: schedule.type as ReportType,
+    format: schedule.format as ReportFormat,
+    rangeFrom: from,
+    rangeTo: to,
+    status: "pending",
+  }));
+  await storage.updateReportSchedule(schedule.id, { lastJobId: job.id });
+  if (job.status !== "completed") return false;
+
+  const file = await getReportFile(job, now);
+  const queued = await queueScheduledReport(schedule, job.id, {
+    title: REPORT_TITLES[schedule.type as ReportType],
+    period: describePeriod({ from, to }),
+    ...file,
+  });
+  return !!queued;
+}
+
+// Delete report files past their expiry, and their jobs
+async function pruneExpiredReports(now: Date): Promise<number> {
+  const expired = await storage.getExpiredReportJobs(now);
+  for (const job of expired) {
+    if (job.storageKey) {
+      await getImageStore().delete(job.storageKey).catch(error =>
+        console.warn(`Couldn't delete the file for report ${job.id}:`, error)
+      );
+    }
+    await storage.deleteReportJob(job.id);
+  }
+  return expired.length;
+}
+
+/**
+ * Send every scheduled report that's due, then delete expired report files
+ */
+export async function runScheduledReports(now = new Date()): Promise<{ ran: number; emailed: number; pruned: number }> {
+  const due = await storage.getDueReportSchedules(now);
+  let emailed = 0;
+  for (const schedule of due) {
+    try {
+      if (await runSchedule(schedule, now)) emailed++;
+    } catch (error) {
+      console.error(`Error running report schedule ${schedule.id}:`, error);
+    }
+  }
+
+  const pruned = await pruneExpiredReports(now);
+  return { ran: due.length, emailed, pruned };
+}
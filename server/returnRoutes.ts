@@ -0,0 +1,240 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import type { Order } from "@shared/schema";
+import { storage } from "./storage";
+import { canAccessVendor, requireVendorAccess, resolveTenant } from "./middleware/tenantMiddleware";
+import { RETURN_REASONS, RETURN_STATUSES, ReturnError } from "./returns";
+import { refundOrderPayment } from "./orderPayments";
+import { queueRefundIssued } from "./transactionalEmails";
+import { PaymentGatewayError } from "./paymentGateways";
+
+// Define custom Request type with user property
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+const returnRequestSchema = z.object({
+  reason: z.enum(RETURN_REASONS),
+  comment: z.string().trim().max(2000).nullable().optional(),
+  items: z.array(z.object({
+    orderItemId: z.number().int(),
+    quantity: z.number().int().positive()
+  })).min(1, "Choose at least one item to return")
+});
+
+const approveSchema = z.object({
+  // Leave out to refund what the returned items cost
+  refundAmount: z.string().regex(/^\d+(\.\d{1,2})?$/, "Refund amount must be a number").optional(),
+  note: z.string().trim().max(2000).nullable().optional()
+});
+
+const rejectSchema = z.object({
+  note: z.string().trim().min(1, "Tell the customer why the return was rejected").max(2000)
+});
+
+const receiveSchema = z.object({
+  restock: z.boolean().default(true),
+  // Leave out to restock every returned unit
+  items: z.array(z.object({
+    returnItemId: z.number().int(),
+    quantity: z.number().int().min(0)
+  })).optional()
+});
+
+function handleReturnError(res: Response, error: any) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid data", errors: error.errors });
+  }
+  if (error instanceof ReturnError) {
+    return res.status(409).json({ message: error.message, error: error.code });
+  }
+  if (error instanceof PaymentGatewayError) {
+    return res.status(502).json({ message: `The refund couldn't be made: ${error.message}`, error: error.code });
+  }
+  res.status(500).json({ message: error.message });
+}
+
+/**
+ * Register return (RMA) routes: shoppers open returns on their orders, vendors
+ * work through them from their returns queue
+ */
+export default function registerReturnRoutes(app: Express) {
+  // Whether the signed-in user placed the order, matched through the store's customer record
+  const isOrderCustomer = async (req: AuthRequest, order: Order) => {
+    if (!order.customerId) return false;
+    const customer = await storage.getCustomerByUserId(req.user.id, order.vendorId);
+    return customer?.id === order.customerId;
+  };
+
+  const isOrderVendor = async (req: AuthRequest, order: Order) => {
+    const tenant = await resolveTenant(req);
+    return !!tenant && canAccessVendor(tenant, order.vendorId);
+  };
+
+  // Middleware to check the user placed the order or manages its vendor
+  const requireOrderParticipant = async (request: Request, res: Response, next: NextFunction) => {
+    const req = request as AuthRequest;
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const orderId = parseInt(req.params.orderId);
+    if (isNaN(orderId)) {
+      return res.status(400).json({ message: "Invalid order ID" });
+    }
+
+    const order = await storage.getOrder(orderId);
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    if (!(await isOrderCustomer(req, order)) && !(await isOrderVendor(req, order))) {
+      return res.status(403).json({ message: "You don't have permission to access this order" });
+    }
+
+    next();
+  };
+
+  // Load a return and make sure it belongs to the vendor in the URL
+  const findVendorReturn = async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    const returnRequest = isNaN(id) ? undefined : await storage.getReturnRequest(id);
+    if (!returnRequest || returnRequest.vendorId !== parseInt(req.params.vendorId)) {
+      res.status(404).json({ message: "Return not found" });
+      return undefined;
+    }
+    return returnRequest;
+  };
+
+  // Returns opened on an order
+  app.get("/api/orders/:orderId/returns", requireOrderParticipant, async (req, res) => {
+    try {
+      const returns = await storage.getReturnRequestsByOrderId(parseInt(req.params.orderId));
+      res.json(returns);
+    } catch (error: any) {
+      console.error("Error getting order returns:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Open a return for some of the order's items; only the customer who placed the order can
+  app.post("/api/orders/:orderId/returns", requireOrderParticipant, async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const order = await storage.getOrder(parseInt(req.params.orderId));
+      if (!order || !(await isOrderCustomer(req, order))) {
+        return res.status(403).json({ message: "Only the customer who placed this order can return items from it" });
+      }
+
+      const { items, ...data } = returnRequestSchema.parse(req.body);
+      const returnRequest = await storage.createReturnRequest(order.id, {
+        ...data,
+        customerId: order.customerId,
+        requestedBy: req.user.id
+      }, items);
+      res.status(201).json(returnRequest);
+    } catch (error: any) {
+      console.error("Error creating return:", error);
+      handleReturnError(res, error);
+    }
+  });
+
+  // Vendor returns queue, optionally filtered by status
+  app.get("/api/vendors/:vendorId/returns", requireVendorAccess(), async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      if (status && !(RETURN_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid return status" });
+      }
+
+      const returns = await storage.getReturnRequestsByVendorId(parseInt(req.params.vendorId), status);
+
+      // Include the order number, customer and item names so the queue can be read at a glance
+      const withOrders = await Promise.all(returns.map(async (returnRequest) => {
+        const order = await storage.getOrder(returnRequest.orderId);
+        const orderItems = await storage.getOrderItems(returnRequest.orderId);
+        const customer = returnRequest.customerId ? await storage.getCustomer(returnRequest.customerId) : null;
+        return {
+          ...returnRequest,
+          items: returnRequest.items.map(item => ({
+            ...item,
+            name: orderItems.find(orderItem => orderItem.id === item.orderItemId)?.name ?? null
+          })),
+          orderNumber: order?.orderNumber ?? null,
+          customer: customer ?? null
+        };
+      }));
+      res.json(withOrders);
+    } catch (error: any) {
+      console.error("Error getting returns:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/vendors/:vendorId/returns/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const returnRequest = await findVendorReturn(req, res);
+      if (!returnRequest) return;
+      res.json(returnRequest);
+    } catch (error: any) {
+      console.error("Error getting return:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Approve a return, refunding it from the order's payment
+  app.post("/api/vendors/:vendorId/returns/:id/approve", requireVendorAccess(), async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const returnRequest = await findVendorReturn(req, res);
+      if (!returnRequest) return;
+
+      const { refundAmount, note } = approveSchema.parse(req.body);
+      const approved = await storage.approveReturnRequest(returnRequest.id, {
+        refundAmount,
+        note,
+        actorId: req.user.id,
+        refundPayment: refundOrderPayment
+      });
+      if (approved) {
+        await queueRefundIssued(approved);
+      }
+      res.json(approved);
+    } catch (error: any) {
+      console.error("Error approving return:", error);
+      handleReturnError(res, error);
+    }
+  });
+
+  app.post("/api/vendors/:vendorId/returns/:id/reject", requireVendorAccess(), async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const returnRequest = await findVendorReturn(req, res);
+      if (!returnRequest) return;
+
+      const { note } = rejectSchema.parse(req.body);
+      const rejected = await storage.rejectReturnRequest(returnRequest.id, { note, actorId: req.user.id });
+      res.json(rejected);
+    } catch (error: any) {
+      console.error("Error rejecting return:", error);
+      handleReturnError(res, error);
+    }
+  });
+
+  // Mark the returned items as back, optionally putting them back into stock
+  app.post("/api/vendors/:vendorId/returns/:id/receive", requireVendorAccess(), async (request, res) => {
+    try {
+      const req = request as AuthRequest;
+      const returnRequest = await findVendorReturn(req, res);
+      if (!returnRequest) return;
+
+      const { restock, items } = receiveSchema.parse(req.body);
+      const received = await storage.receiveReturnRequest(returnRequest.id, restock ? items : [], req.user.id);
+      res.json(received);
+    } catch (error: any) {
+      console.error("Error receiving return:", error);
+      handleReturnError(res, error);
+    }
+  });
+}
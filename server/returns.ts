@@ -0,0 +1,241 @@
+import Decimal from "decimal.js";
+import type { OrderItem, ReturnItem, ReturnRequest, Transaction } from "@shared/schema";
+import { normalizeOrderStatus, type OrderStatus } from "./orderLifecycle";
+
+export const RETURN_REASONS = ["damaged", "wrong_item", "not_as_described", "no_longer_needed", "other"] as const;
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export const RETURN_STATUSES = ["requested", "approved", "rejected", "received"] as const;
+export type ReturnStatus = typeof RETURN_STATUSES[number];
+
+// Returns that have been refunded, so their units no longer count as sold
+export const REFUNDED_RETURN_STATUSES = ["approved", "received"];
+
+// Only orders that have gone out can be sent back
+const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ["shipped", "delivered"];
+
+export type ReturnErrorCode =
+  | "NOT_RETURNABLE"
+  | "INVALID_RETURN"
+  | "INVALID_STATUS"
+  | "INVALID_REFUND";
+
+/**
+ * Thrown when a return can't be opened or moved on as asked. The message is
+ * meant to be shown to the shopper or vendor as-is.
+ */
+export class ReturnError extends Error {
+  public readonly code: ReturnErrorCode;
+
+  constructor(code: ReturnErrorCode, message: string) {
+    super(message);
+    this.name = "ReturnError";
+    this.code = code;
+  }
+}
+
+export type ReturnWithItems = ReturnRequest & { items: ReturnItem[] };
+
+export interface ReturnLine {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface RestockLine {
+  returnItemId: number;
+  quantity: number;
+}
+
+export interface ReturnDecision {
+  // The user approving or rejecting; null when the system does it
+  actorId?: number | null;
+  // Shown to the shopper and on the order timeline
+  note?: string | null;
+  // Amount to refund on approval; defaults to what the returned items cost
+  refundAmount?: string;
+  // Sends the refund to the gateway the payment was taken through, before
+  // it is recorded; if it throws, the return stays as it was
+  refundPayment?: (payment: Transaction, amount: string, reason: string) => Promise<unknown>;
+}
+
+/**
+ * Units of each order item that aren't already part of an open or settled
+ * return. Rejected returns don't count, so the shopper can try again.
+ */
+export function getReturnableQuantities(items: OrderItem[], returns: ReturnWithItems[]): Map<number, number> {
+  const remaining = new Map(items.map(item => [item.id, item.quantity]));
+  for (const returnRequest of returns) {
+    if (returnRequest.status === "rejected") continue;
+    for (const line of returnRequest.items) {
+      remaining.set(line.orderItemId, (remaining.get(line.orderItemId) ?? 0) - line.quantity);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Check the lines of a new return: the order must have gone out, and each line
+ * must be one of its items without exceeding what is left to send back.
+ */
+export function resolveReturnLines(
+  orderStatus: string,
+  items: OrderItem[],
+  returns: ReturnWithItems[],
+  requested: ReturnLine[]
+): ReturnLine[] {
+  const status = normalizeOrderStatus(orderStatus);
+  if (!RETURNABLE_ORDER_STATUSES.includes(status)) {
+    throw new ReturnError("NOT_RETURNABLE", `Items from a ${status} order can't be returned`);
+  }
+  if (requested.length === 0) {
+    throw new ReturnError("INVALID_RETURN", "Choose at least one item to return");
+  }
+
+  const remaining = getReturnableQuantities(items, returns);
+  const totals = new Map<number, number>();
+  for (const line of requested) {
+    if (!remaining.has(line.orderItemId)) {
+      throw new ReturnError("INVALID_RETURN", `Item ${line.orderItemId} isn't part of this order`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new ReturnError("INVALID_RETURN", "Quantities must be whole numbers of at least 1");
+    }
+    totals.set(line.orderItemId, (totals.get(line.orderItemId) ?? 0) + line.quantity);
+  }
+
+  for (const [orderItemId, quantity] of Array.from(totals.entries())) {
+    const left = Math.max(remaining.get(orderItemId)!, 0);
+    if (quantity > left) {
+      const item = items.find(i => i.id === orderItemId)!;
+      throw new ReturnError(
+        "INVALID_RETURN",
+        left === 0
+          ? `${item.name} has already been returned`
+          : `Only ${left} of ${item.name} can still be returned`
+      );
+    }
+  }
+
+  return Array.from(totals.entries()).map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+}
+
+/**
+ * What the returned units were paid for, taking each line's discount and GST
+ * into account. Shipping isn't included.
+ */
+export function calculateRefundAmount(items: OrderItem[], lines: { orderItemId: number; quantity: number }[]): string {
+  return lines
+    .reduce((total, line) => {
+      const item = items.find(i => i.id === line.orderItemId);
+      if (!item || item.quantity === 0) return total;
+      return total.plus(new Decimal(item.total).dividedBy(item.quantity).times(line.quantity));
+    }, new Decimal(0))
+    .toFixed(2);
+}
+
+export function getRefundableAmount(transaction: Transaction): Decimal {
+  return new Decimal(transaction.amount).minus(transaction.refundedAmount || "0");
+}
+
+/**
+ * The order's payment that a refund can be taken from, if it was paid online
+ */
+export function findRefundablePayment(transactions: Transaction[]): Transaction | undefined {
+  return transactions.find(transaction =>
+    transaction.type === "order_payment" &&
+    ["completed", "partial_refund"].includes(transaction.status) &&
+    getRefundableAmount(transaction).greaterThan(0)
+  );
+}
+
+/**
+ * Work out how much to refund on approval, capped by what is left on the
+ * payment. Without a payment nothing is refunded through the store.
+ */
+export function resolveRefundAmount(requested: string, payment: Transaction | undefined): string {
+  const amount = new Decimal(requested);
+  if (amount.isNaN() || amount.isNegative()) {
+    throw new ReturnError("INVALID_REFUND", "Refund amount must be zero or more");
+  }
+  if (!payment || amount.isZero()) {
+    return "0.00";
+  }
+
+  const refundable = getRefundableAmount(payment);
+  if (amount.greaterThan(refundable)) {
+    throw new ReturnError("INVALID_REFUND", `Only ${refundable.toFixed(2)} is left to refund on this order`);
+  }
+  return amount.toFixed(2);
+}
+
+/**
+ * Make sure a return can move from `from` to `to`: requested returns are
+ * approved or rejected, and approved returns are received.
+ */
+export function assertReturnTransition(from: string, to: ReturnStatus): void {
+  const allowed: Record<string, ReturnStatus[]> = {
+    requested: ["approved", "rejected"],
+    approved: ["received"],
+  };
+  if (!(allowed[from] ?? []).includes(to)) {
+    throw new ReturnError("INVALID_STATUS", `A ${from} return can't be marked as ${to}`);
+  }
+}
+
+/**
+ * Check which received units go back into stock. Without `requested` every
+ * returned unit is restocked.
+ */
+export function resolveRestockLines(items: ReturnItem[], requested?: RestockLine[]): RestockLine[] {
+  if (!requested) {
+    return items.map(item => ({ returnItemId: item.id, quantity: item.quantity }));
+  }
+
+  for (const line of requested) {
+    const item = items.find(i => i.id === line.returnItemId);
+    if (!item) {
+      throw new ReturnError("INVALID_RETURN", `Item ${line.returnItemId} isn't part of this return`);
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity < 0 || line.quantity > item.quantity) {
+      throw new ReturnError("INVALID_RETURN", `Between 0 and ${item.quantity} units of that item can be restocked`);
+    }
+  }
+  return requested.filter(line => line.quantity > 0);
+}
+
+/**
+ * Whether every unit of the order has come back
+ */
+export function isFullyReturned(items: OrderItem[], returns: ReturnWithItems[]): boolean {
+  const received = returns.filter(returnRequest => returnRequest.status === "received");
+  return Array.from(getReturnableQuantities(items, received).values()).every(quantity => quantity <= 0);
+}
+
+/**
+ * RMA numbers follow the order number, e.g. "RMA-ORD-1042-2" for its second return
+ */
+export function generateRmaNumber(orderNumber: string, existingReturns: number): string {
+  return `RMA-${orderNumber}-${existingReturns + 1}`;
+}
+
+/**
+ * Timeline text for a return, e.g. "Return RMA-ORD-1042-1 approved, refunded 499.00"
+ */
+export function describeReturn(returnRequest: ReturnRequest, units?: number): string {
+  switch (returnRequest.status) {
+    case "requested": {
+      const count = units === undefined ? "" : ` for ${units} ${units === 1 ? "item" : "items"}`;
+      return `Return ${returnRequest.rmaNumber} requested${count} (${returnRequest.reason.replace(/_/g, " ")})`;
+    }
+    case "approved": {
+      const refund = new Decimal(returnRequest.refundAmount || "0");
+      return `Return ${returnRequest.rmaNumber} approved${refund.greaterThan(0) ? `, refunded ${refund.toFixed(2)}` : ""}`;
+    }
+    case "received": {
+      const restocked = units ? `, ${units} ${units === 1 ? "item" : "items"} restocked` : "";
+      return `Return ${returnRequest.rmaNumber} received${restocked}`;
+    }
+    default:
+      return `Return ${returnRequest.rmaNumber} ${returnRequest.status}`;
+  }
+}
@@ -8,6 +8,7 @@ import {
   insertVendorSchema, 
   insertSubscriptionPlanSchema, 
   insertDomainSchema, 
+  domainInputSchema,
   insertProductCategorySchema, 
   insertProductSchema, 
   insertProductVariantSchema,
@@ -20,11 +21,41 @@ import { createPaypalOrder, capturePaypalOrder, loadPaypalDefault } from "./payp
 import { ZodError } from "zod";
 import { setupAuth, isAuthenticated, hasRole } from "./auth";
 import { DomainRequest } from "./middleware/domainMiddleware";
+import { canAccessVendor, requireTenant, requireVendorAccess, resolveTenant, TenantRequest } from "./middleware/tenantMiddleware";
+import { forTenant } from "./tenantStorage";
 import { registerUploadRoutes } from "./uploadService";
-import { registerS3UploadRoutes } from "./s3UploadService";
 import registerCheckoutRoutes from "./checkoutRoutes";
 import registerAddressRoutes from "./addressRoutes";
 import registerSubscriptionRoutes from "./subscriptionRoutes";
+import registerPromotionRoutes from "./promotionRoutes";
+import registerShippingRoutes from "./shippingRoutes";
+import registerFulfillmentRoutes from "./fulfillmentRoutes";
+import registerReturnRoutes from "./returnRoutes";
+import registerCertificateRoutes from "./certificateRoutes";
+import registerProductImportRoutes from "./productImportRoutes";
+import registerStripeWebhookRoutes from "./stripeWebhookRoutes";
+import registerOrderPaymentRoutes from "./orderPaymentRoutes";
+import registerTaxDocumentRoutes from "./taxDocumentRoutes";
+import registerStorefrontEventRoutes from "./storefrontEventRoutes";
+import registerReportRoutes from "./reportRoutes";
+import registerJobRoutes from "./jobRoutes";
+import registerEmailRoutes from "./emailRoutes";
+import { isS3Configured } from "./imageStorage";
+import { assertWithinQuota, QuotaExceededError } from "./usageMeter";
+import { getVerificationRecords, verifyDomain, VERIFICATION_FILE_PATH } from "./domainVerification";
+import { getBaseDomains, getSubdomainHostname, getSubdomainSlug, normalizeHostname } from "./platformDomains";
+import { CertificateError, getAcmeConfig, getCurrentCertificate, renewCertificates, requestCertificate, retireCertificates } from "./certificates";
+import { getAllowedTransitions, OrderTransitionError } from "./orderLifecycle";
+import { InsufficientStockError } from "./inventory";
+import { assertUniqueCombinations, ProductOptionError, productOptionsInputSchema, resolveCombination } from "./productOptions";
+import {
+  analyticsRangeQuerySchema,
+  getAnalyticsReport,
+  getSalesByCategoryReport,
+  getSalesByHourReport,
+  getTopProductsReport,
+  resolveAnalyticsRange
+} from "./vendorAnalytics";
 
 // Helper function to handle validation errors
 function handleValidationError(err: unknown, res: Response) {
@@ -34,6 +65,26 @@ function handleValidationError(err: unknown, res: Response) {
       errors: err.errors 
     });
   }
+
+  // Orders asking for more than is in stock
+  if (err instanceof InsufficientStockError) {
+    return res.status(409).json({ message: err.message, error: "INSUFFICIENT_STOCK", shortages: err.shortages });
+  }
+
+  // Illegal order status changes and shipments
+  if (err instanceof OrderTransitionError) {
+    return res.status(409).json({ message: err.message, error: err.code });
+  }
+
+  // Options that don't fit together, or variants that don't fit the options
+  if (err instanceof ProductOptionError) {
+    return res.status(409).json({ message: err.message, error: err.code });
+  }
+  
+  // Plan limits, which vendors lift by upgrading
+  if (err instanceof QuotaExceededError) {
+    return res.status(403).json({ message: err.message, error: err.code, resource: err.resource, used: err.used, limit: err.limit });
+  }
   
   // Handle database errors more explicitly
   if (err && typeof err === 'object' && 'code' in err) {
@@ -50,12 +101,26 @@ function handleValidationError(err: unknown, res: Response) {
   return res.status(500).json({ message: "Internal server error" });
 }
 
+// Domain names as they're stored: lower case, with subdomains given as just
+// the slug put on the main base domain. Null for a subdomain that isn't on
+// one of the base domains.
+function resolveDomainName(name: string, type: string): string | null {
+  const hostname = normalizeHostname(name);
+  if (type !== "subdomain") return hostname;
+
+  const subdomain = hostname.includes(".") ? hostname : getSubdomainHostname(hostname);
+  return getSubdomainSlug(subdomain) ? subdomain : null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication with OTP
   setupAuth(app);
   
-  // Register S3 file upload routes
-  registerS3UploadRoutes(app);
+  // Register S3 file upload routes; s3Config refuses to load without AWS credentials
+  if (isS3Configured()) {
+    const { registerS3UploadRoutes } = await import("./s3UploadService");
+    registerS3UploadRoutes(app);
+  }
   
   // Register file upload routes
   registerUploadRoutes(app);
@@ -172,7 +237,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (vendorRecord) {
           const domainData = insertDomainSchema.parse({
             vendorId: vendorRecord.id,
-            name: `${vendor.subdomainName}.multivend.com`,
+            name: getSubdomainHostname(vendor.subdomainName),
             type: "subdomain",
             status: "pending",
             isPrimary: true
@@ -228,7 +293,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/subscription-plans", async (req, res) => {
+  app.post("/api/subscription-plans", hasRole(["super_admin"]), async (req, res) => {
     try {
       const planData = insertSubscriptionPlanSchema.parse(req.body);
       const plan = await storage.createSubscriptionPlan(planData);
@@ -238,7 +303,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/subscription-plans/:id", async (req, res) => {
+  app.patch("/api/subscription-plans/:id", hasRole(["super_admin"]), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       // Partial validation
@@ -261,7 +326,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/subscription-plans/:id", async (req, res) => {
+  app.delete("/api/subscription-plans/:id", hasRole(["super_admin"]), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -292,7 +357,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Vendor endpoints
   // Database migration endpoint (TEMPORARY - FOR DEVELOPMENT ONLY)
-  app.post("/api/migrate", async (req, res) => {
+  app.post("/api/migrate", hasRole(["super_admin"]), async (req, res) => {
     try {
       // Run migrations using the pool directly
       await pool.query(`
@@ -312,9 +377,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/vendors", async (_req, res) => {
+  app.get("/api/vendors", requireTenant, async (req, res) => {
     try {
-      const vendors = await storage.getVendors();
+      // Vendors only see their own store
+      const tenant = (req as TenantRequest).tenant!;
+      const vendors = (await storage.getVendors()).filter(vendor => canAccessVendor(tenant, vendor.id));
       
       // Fetch related information for each vendor
       const vendorsWithDetails = await Promise.all(vendors.map(async (vendor) => {
@@ -345,7 +412,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/vendors/:id", async (req, res) => {
+  app.get("/api/vendors/:id", requireVendorAccess("id"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const vendor = await storage.getVendor(id);
@@ -379,7 +446,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/vendors", async (req, res) => {
+  app.post("/api/vendors", hasRole(["super_admin"]), async (req, res) => {
     try {
       const vendorData = insertVendorSchema.parse(req.body);
       
@@ -403,7 +470,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.body.createSubdomain && req.body.subdomainName) {
         const domainData = insertDomainSchema.parse({
           vendorId: vendor.id,
-          name: `${req.body.subdomainName}.multivend.com`,
+          name: getSubdomainHostname(req.body.subdomainName),
           type: "subdomain",
           status: "pending",
           isPrimary: true
@@ -418,7 +485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/vendors/:id", async (req, res) => {
+  app.patch("/api/vendors/:id", requireVendorAccess("id"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       // Partial validation
@@ -429,6 +496,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return acc;
       }, {} as Partial<typeof insertVendorSchema._type>);
       
+      // Only admins can hand a store over to another user
+      if (!(req as TenantRequest).tenant!.isPlatformAdmin) {
+        delete vendorData.userId;
+      }
+      if (vendorData.gstin !== undefined) {
+        vendorData.gstin = insertVendorSchema.shape.gstin.parse(vendorData.gstin || null);
+      }
+      
       const updatedVendor = await storage.updateVendor(id, vendorData);
       
       if (!updatedVendor) {
@@ -442,9 +517,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Domain endpoints
-  app.get("/api/domains", async (_req, res) => {
+  app.get("/api/domains", requireTenant, async (req, res) => {
     try {
-      const domains = await storage.getDomains();
+      const tenant = (req as TenantRequest).tenant!;
+      const domains = tenant.isPlatformAdmin
+        ? await storage.getDomains()
+        : await storage.getDomainsByVendorId(tenant.vendorId!);
       
       // Fetch vendor information for each domain
       const domainsWithVendors = await Promise.all(domains.map(async (domain) => {
@@ -466,7 +544,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/vendors/:vendorId/domains", async (req, res) => {
+  app.get("/api/vendors/:vendorId/domains", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
       const vendor = await storage.getVendor(vendorId);
@@ -483,10 +561,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/domains/:id", async (req, res) => {
+  app.get("/api/domains/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const domain = await storage.getDomain(id);
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
       
       if (!domain) {
         return res.status(404).json({ message: "Domain not found" });
@@ -508,9 +586,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/domains", async (req, res) => {
+  app.post("/api/domains", requireTenant, async (req, res) => {
     try {
-      const domainData = insertDomainSchema.parse(req.body);
+      const domainData = domainInputSchema.parse(req.body);
+      
+      // Vendors always add domains to their own store
+      const tenant = (req as TenantRequest).tenant!;
+      if (!tenant.isPlatformAdmin) {
+        domainData.vendorId = tenant.vendorId!;
+      }
       
       // Ensure the vendor exists
       const vendor = await storage.getVendor(domainData.vendorId);
@@ -518,6 +602,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Vendor not found" });
       }
       
+      const name = resolveDomainName(domainData.name, domainData.type);
+      if (!name) {
+        return res.status(400).json({ message: `Subdomains must be on ${getBaseDomains().join(" or ")}` });
+      }
+      domainData.name = name;
+      
       // Check if the domain already exists
       const existingDomain = await storage.getDomainByName(domainData.name);
       if (existingDomain) {
@@ -525,18 +615,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // For custom domains, check if the vendor has reached their limit
-      if (domainData.type === "custom" && vendor.subscriptionPlanId) {
-        const plan = await storage.getSubscriptionPlan(vendor.subscriptionPlanId);
-        if (plan) {
-          const existingCustomDomains = (await storage.getDomainsByVendorId(vendor.id))
-            .filter(d => d.type === "custom").length;
-          
-          if (existingCustomDomains >= plan.customDomainLimit) {
-            return res.status(403).json({ 
-              message: `Your plan allows a maximum of ${plan.customDomainLimit} custom domains`
-            });
-          }
-        }
+      if (domainData.type === "custom") {
+        await assertWithinQuota(vendor.id, "customDomains");
       }
       
       const domain = await storage.createDomain(domainData);
@@ -546,18 +626,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/domains/:id", async (req, res) => {
+  app.patch("/api/domains/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      // Partial validation
-      const domainData = Object.keys(req.body).reduce((acc, key) => {
-        if (key in insertDomainSchema.shape) {
-          acc[key] = req.body[key];
+      // Records never move between tenants
+      const domainData = domainInputSchema.omit({ vendorId: true }).partial().parse(req.body);
+      
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
+      if (!domain) {
+        return res.status(404).json({ message: "Domain not found" });
+      }
+      
+      // Turning a subdomain into a custom domain counts against the plan too
+      if (domainData.type === "custom" && domain.type !== "custom") {
+        await assertWithinQuota(domain.vendorId, "customDomains");
+      }
+      
+      if (domainData.name !== undefined || domainData.type !== undefined) {
+        const name = resolveDomainName(domainData.name ?? domain.name, domainData.type ?? domain.type);
+        if (!name) {
+          return res.status(400).json({ message: `Subdomains must be on ${getBaseDomains().join(" or ")}` });
         }
-        return acc;
-      }, {} as Partial<typeof insertDomainSchema._type>);
+        domainData.name = name;
+      }
+      
+      // A new name has to be proven and certified all over again
+      const renamed = domainData.name !== undefined && domainData.name !== domain.name;
+      if (renamed) {
+        const existingDomain = await storage.getDomainByName(domainData.name!);
+        if (existingDomain) {
+          return res.status(409).json({ message: "Domain name already in use" });
+        }
+      }
       
-      const updatedDomain = await storage.updateDomain(id, domainData);
+      const updatedDomain = await storage.updateDomain(id, renamed ? {
+        ...domainData,
+        status: "pending",
+        verificationStatus: "pending",
+        sslStatus: "pending",
+        verificationError: null,
+        verifiedAt: null,
+        lastCheckedAt: null
+      } : domainData);
+      if (renamed) {
+        await retireCertificates(id);
+      }
       
       if (!updatedDomain) {
         return res.status(404).json({ message: "Domain not found" });
@@ -569,10 +682,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/domains/:id", async (req, res) => {
+  app.delete("/api/domains/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const domain = await storage.getDomain(id);
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
       
       if (!domain) {
         return res.status(404).json({ message: "Domain not found" });
@@ -591,10 +704,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Domain verification endpoints
-  app.post("/api/domains/:id/generate-token", async (req, res) => {
+  app.post("/api/domains/:id/generate-token", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const domain = await storage.getDomain(id);
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
       
       if (!domain) {
         return res.status(404).json({ message: "Domain not found" });
@@ -609,30 +722,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/domains/:id/verify", async (req, res) => {
+  app.post("/api/domains/:id/verify", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const domain = await storage.getDomain(id);
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
       
       if (!domain) {
         return res.status(404).json({ message: "Domain not found" });
       }
       
-      // In a production environment, this would check the actual DNS records
-      // For this demo, we'll simulate verification by directly marking it as verified
-      const verifiedDomain = await storage.verifyDomain(id);
+      // Look up the DNS records (or fetch the token file) and record what was found
+      const checkedDomain = await verifyDomain(domain);
+      if (checkedDomain?.verificationStatus !== "verified") {
+        return res.status(422).json({
+          message: checkedDomain?.verificationError || "Domain verification failed",
+          domain: checkedDomain
+        });
+      }
       
-      return res.status(200).json(verifiedDomain);
+      // Secure a newly verified custom domain straight away instead of waiting for the renewal job
+      if (checkedDomain.type === "custom" && getAcmeConfig() && !(await getCurrentCertificate(id))) {
+        requestCertificate(checkedDomain).catch(error => {
+          if (!(error instanceof CertificateError)) console.error(error);
+        });
+      }
+      
+      return res.status(200).json(checkedDomain);
     } catch (err) {
       console.error(err);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get("/api/domains/:id/dns-records", async (req, res) => {
+  app.get("/api/domains/:id/dns-records", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const domain = await storage.getDomain(id);
+      const domain = await forTenant((req as TenantRequest).tenant!).getDomain(id);
       
       if (!domain) {
         return res.status(404).json({ message: "Domain not found" });
@@ -643,20 +768,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(200).json([]);
       }
       
-      // If we already have DNS records, return those
-      if (domain.dnsRecords && domain.dnsRecords.length > 0) {
-        return res.status(200).json(domain.dnsRecords);
-      }
-      
-      // Otherwise, generate new DNS records based on the domain
+      // Build the records from the current token so they stay right after it is regenerated
       const verificationToken = domain.verificationToken || 
         `multivend-verify-${Math.random().toString(36).substring(2, 15)}`;
         
-      const dnsRecords = [
-        { type: "TXT", name: `_multivend-verification.${domain.name}`, value: verificationToken },
-        { type: "CNAME", name: domain.name, value: "stores.multivend.com" },
-        { type: "CNAME", name: `www.${domain.name}`, value: "stores.multivend.com" }
-      ];
+      const dnsRecords = getVerificationRecords(domain, verificationToken);
       
       // Update the domain with the new verification token and records
       await storage.updateDomain(id, {
@@ -671,12 +787,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Check all domains for SSL status (scheduled task)
+  // Serves the verification token for domains using the "file" method. The domain has to point
+  // at us for the check to see it, which is what proves the vendor controls it.
+  app.get(VERIFICATION_FILE_PATH, async (req, res) => {
+    try {
+      const hostname = (req.headers.host || '').split(':')[0].toLowerCase();
+      const domain = await storage.getDomainByName(hostname);
+      if (!domain || domain.verificationMethod !== "file" || !domain.verificationToken) {
+        return res.status(404).type("text/plain").send("Not found");
+      }
+      return res.status(200).type("text/plain").send(domain.verificationToken);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Issue and renew custom domain certificates now rather than on the next scheduled run
   app.post("/api/domains/check-ssl", hasRole(["super_admin"]), async (req, res) => {
     try {
-      await storage.checkDomainsSSL();
-      return res.status(200).json({ message: "SSL status check completed" });
+      const summary = await renewCertificates();
+      return res.status(200).json({ message: "SSL status check completed", ...summary });
     } catch (err) {
+      if (err instanceof CertificateError) {
+        return res.status(503).json({ message: err.message, error: err.code });
+      }
       console.error(err);
       return res.status(500).json({ message: "Internal server error" });
     }
@@ -746,28 +881,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/products", async (req, res) => {
+  app.post("/api/products", requireTenant, async (req, res) => {
     try {
       const productData = insertProductSchema.parse(req.body);
       
-      // Check for impersonation
-      let vendor; 
-      if (req.isAuthenticated() && req.user && req.user.isImpersonated) {
-        // If this is an impersonated session, get the vendor by the user ID
-        // This handles the case where an admin is impersonating a vendor user
-        vendor = await storage.getVendorByUserId(req.user.id);
-        
-        // If vendor is found, override the provided vendorId with the correct one
-        if (vendor) {
-          productData.vendorId = vendor.id;
-        }
-      }
-      
-      // If vendor wasn't found through impersonation or not impersonated, use the regular method
-      if (!vendor) {
-        vendor = await storage.getVendor(productData.vendorId);
+      // Vendors (including admins impersonating one) always add products to their own store
+      const tenant = (req as TenantRequest).tenant!;
+      if (!tenant.isPlatformAdmin) {
+        productData.vendorId = tenant.vendorId!;
       }
       
+      const vendor = await storage.getVendor(productData.vendorId);
       if (!vendor) {
         return res.status(404).json({ message: "Vendor not found" });
       }
@@ -784,18 +908,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if the vendor has reached their product limit
-      if (vendor.subscriptionPlanId) {
-        const plan = await storage.getSubscriptionPlan(vendor.subscriptionPlanId);
-        if (plan) {
-          const existingProducts = (await storage.getProducts(vendor.id)).length;
-          
-          if (existingProducts >= plan.productLimit) {
-            return res.status(403).json({ 
-              message: `Your plan allows a maximum of ${plan.productLimit} products`
-            });
-          }
-        }
-      }
+      await assertWithinQuota(vendor.id, "products");
       
       const product = await storage.createProduct(productData);
       return res.status(201).json(product);
@@ -804,7 +917,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/products/:id", async (req, res) => {
+  app.patch("/api/products/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       // Partial validation
@@ -815,7 +928,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return acc;
       }, {} as Partial<typeof insertProductSchema._type>);
       
-      const product = await storage.getProduct(id);
+      // Records never move between tenants
+      delete productData.vendorId;
+      
+      const product = await forTenant((req as TenantRequest).tenant!).getProduct(id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
@@ -838,10 +954,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/products/:id", async (req, res) => {
+  app.delete("/api/products/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const product = await storage.getProduct(id);
+      const product = await forTenant((req as TenantRequest).tenant!).getProduct(id);
       
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
@@ -897,8 +1013,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Create or update multiple variants for a product
-  app.post("/api/products/:productId/variants", async (req, res) => {
+  // Options (and their values) a product's variants are made from
+  app.get("/api/products/:productId/options", async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const options = await storage.getProductOptions(productId);
+      return res.status(200).json(options);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Replace a product's options; existing variants are updated or removed to match
+  app.put("/api/products/:productId/options", requireTenant, async (req, res) => {
+    try {
+      const productId = parseInt(req.params.productId);
+
+      const product = await forTenant((req as TenantRequest).tenant!).getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const input = productOptionsInputSchema.parse(req.body);
+      const options = await storage.saveProductOptions(productId, input);
+      return res.status(200).json(options);
+    } catch (err) {
+      return handleValidationError(err, res);
+    }
+  });
+
+  // Create or update multiple variants for a product. Each variant is keyed by
+  // its combination of option values, which must be complete and unique.
+  app.post("/api/products/:productId/variants", requireTenant, async (req, res) => {
     try {
       const productId = parseInt(req.params.productId);
       const variants = req.body;
@@ -907,81 +1060,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Variants must be an array" });
       }
       
-      // Verify product exists
-      const product = await storage.getProduct(productId);
+      // Verify the product exists and belongs to the caller's store
+      const product = await forTenant((req as TenantRequest).tenant!).getProduct(productId);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
       
-      // Verify the vendor exists (important for product variants creation)
-      const vendor = await storage.getVendor(product.vendorId);
-      if (!vendor) {
-        return res.status(404).json({ message: "Vendor not found" });
-      }
-      
-      // If this is an impersonated session, verify the product belongs to the impersonated vendor
-      if (req.isAuthenticated() && req.user && req.user.isImpersonated) {
-        // Find the vendor for this user
-        const userVendor = await storage.getVendorByUserId(req.user.id);
-        if (userVendor && product.vendorId !== userVendor.id) {
-          return res.status(403).json({ message: "You don't have permission to update variants for this product" });
-        }
-      }
-      
-      // Process each variant
+      const options = await storage.getProductOptions(productId);
+      const existingVariants = await storage.getProductVariantsByProductId(productId);
+
+      // Validate everything before saving anything. Ids that aren't this
+      // product's (temporary client-side ids included) make new variants.
+      const changes = variants.map((variant: any) => {
+        const existing = typeof variant.id === 'number' ? existingVariants.find(v => v.id === variant.id) : undefined;
+        const { id, ...fields } = variant;
+        const variantData = insertProductVariantSchema.parse({ ...fields, productId });
+        const combination = resolveCombination(options, variantData.optionValueIds);
+        return { existing, data: { ...variantData, ...combination } };
+      });
+
+      const untouched = existingVariants.filter(v => !changes.some((change: any) => change.existing?.id === v.id));
+      assertUniqueCombinations([...untouched, ...changes.map((change: any) => change.data)]);
+
       const processedVariants = [];
-      
-      for (const variant of variants) {
-        try {
-          // For existing variants, update them
-          if (variant.id) {
-            const variantData = {
-              ...variant,
-              productId
-            };
-            
-            // Make sure temporary client-side IDs (negative numbers or UUIDs) are handled properly
-            const variantId = typeof variant.id === 'number' && variant.id > 0 ? variant.id : null;
-            
-            if (variantId) {
-              // Validate the variant data with the schema
-              insertProductVariantSchema.parse(variantData);
-              
-              const updatedVariant = await storage.updateProductVariant(variantId, variantData);
-              if (updatedVariant) {
-                processedVariants.push(updatedVariant);
-              }
-            } else {
-              // If the ID is temporary, treat it as a new variant
-              const newVariantData = {
-                ...variant,
-                productId
-              };
-              delete newVariantData.id; // Remove temporary ID
-              
-              // Validate the variant data with the schema
-              insertProductVariantSchema.parse(newVariantData);
-              
-              const newVariant = await storage.createProductVariant(newVariantData);
-              processedVariants.push(newVariant);
-            }
-          } 
-          // For new variants, create them
-          else {
-            const variantData = {
-              ...variant,
-              productId
-            };
-            
-            // Validate the variant data with the schema
-            insertProductVariantSchema.parse(variantData);
-            
-            const newVariant = await storage.createProductVariant(variantData);
-            processedVariants.push(newVariant);
-          }
-        } catch (variantErr) {
-          console.error("Error processing variant:", variantErr);
-          // Continue processing other variants
+      for (const { existing, data } of changes) {
+        const saved = existing
+          ? await storage.updateProductVariant(existing.id, data)
+          : await storage.createProductVariant(data);
+        if (saved) {
+          processedVariants.push(saved);
         }
       }
       
@@ -992,12 +1099,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Update a single variant
-  app.patch("/api/product-variants/:id", async (req, res) => {
+  app.patch("/api/product-variants/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
-      // Get current variant to verify it exists
-      const variant = await storage.getProductVariant(id);
+      // Get current variant to verify it exists in the caller's store
+      const variant = await forTenant((req as TenantRequest).tenant!).getProductVariant(id);
       if (!variant) {
         return res.status(404).json({ message: "Product variant not found" });
       }
@@ -1010,6 +1117,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return acc;
       }, {} as Partial<typeof insertProductVariantSchema._type>);
       
+      // Variants stay on their product, and the title follows the combination
+      delete variantData.productId;
+      delete variantData.title;
+
+      if (variantData.optionValueIds) {
+        const options = await storage.getProductOptions(variant.productId);
+        const combination = resolveCombination(options, variantData.optionValueIds);
+        const siblings = (await storage.getProductVariantsByProductId(variant.productId)).filter(v => v.id !== id);
+        assertUniqueCombinations([...siblings, combination]);
+        Object.assign(variantData, combination);
+      }
+      
       const updatedVariant = await storage.updateProductVariant(id, variantData);
       
       if (!updatedVariant) {
@@ -1023,12 +1142,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete a single variant
-  app.delete("/api/product-variants/:id", async (req, res) => {
+  app.delete("/api/product-variants/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       
-      // Verify variant exists
-      const variant = await storage.getProductVariant(id);
+      // Verify variant exists in the caller's store
+      const variant = await forTenant((req as TenantRequest).tenant!).getProductVariant(id);
       if (!variant) {
         return res.status(404).json({ message: "Product variant not found" });
       }
@@ -1186,9 +1305,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/product-categories", async (req, res) => {
+  app.post("/api/product-categories", requireTenant, async (req, res) => {
     try {
-      const categoryData = insertProductCategorySchema.parse(req.body);
+      // Vendors always add categories to their own store
+      const tenant = (req as TenantRequest).tenant!;
+      const categoryData = insertProductCategorySchema.parse(
+        tenant.isPlatformAdmin ? req.body : { ...req.body, vendorId: tenant.vendorId }
+      );
       
       // If vendorId is provided, ensure the vendor exists
       if (categoryData.vendorId) {
@@ -1199,7 +1322,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // If isGlobal is true, ensure the user is a super admin
-      if (categoryData.isGlobal === true && req.user?.role !== "admin") {
+      if (categoryData.isGlobal === true && !tenant.isPlatformAdmin) {
         return res.status(403).json({ message: "Only super admins can create global categories" });
       }
       
@@ -1210,7 +1333,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/product-categories/:id", async (req, res) => {
+  app.patch("/api/product-categories/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       // Partial validation
@@ -1221,6 +1344,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return acc;
       }, {} as Partial<typeof insertProductCategorySchema._type>);
       
+      // Records never move between tenants, and only admins manage global categories
+      const tenant = (req as TenantRequest).tenant!;
+      delete categoryData.vendorId;
+      if (!tenant.isPlatformAdmin) {
+        delete categoryData.isGlobal;
+      }
+      
+      if (!(await forTenant(tenant).getProductCategory(id))) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
       const updatedCategory = await storage.updateProductCategory(id, categoryData);
       
       if (!updatedCategory) {
@@ -1233,10 +1367,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/product-categories/:id", async (req, res) => {
+  app.delete("/api/product-categories/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const category = await storage.getProductCategory(id);
+      const category = await forTenant((req as TenantRequest).tenant!).getProductCategory(id);
       
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
@@ -1265,7 +1399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Order endpoints
-  app.get("/api/vendors/:vendorId/orders", async (req, res) => {
+  app.get("/api/vendors/:vendorId/orders", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
       const vendor = await storage.getVendor(vendorId);
@@ -1295,13 +1429,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/orders/:id", async (req, res) => {
+  app.get("/api/orders/:id", isAuthenticated, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const order = await storage.getOrder(id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid order ID" });
+      }
+      
+      const tenant = await resolveTenant(req);
+      const order = await forTenant(tenant!).getOrder(id);
       
       if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+        // Shoppers can see the orders they placed, without the vendor's notes and history
+        const placedOrder = await storage.getOrder(id);
+        const customer = placedOrder?.customerId
+          ? await storage.getCustomerByUserId(req.user.id, placedOrder.vendorId)
+          : undefined;
+        if (!placedOrder || !customer || customer.id !== placedOrder.customerId) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        const items = await storage.getOrderItems(placedOrder.id);
+        const fulfillments = await storage.getFulfillments(placedOrder.id);
+        const returns = await storage.getReturnRequestsByOrderId(placedOrder.id);
+        return res.status(200).json({ ...placedOrder, items, fulfillments, returns });
       }
       
       const items = await storage.getOrderItems(order.id);
@@ -1310,11 +1461,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (order.customerId) {
         customer = await storage.getCustomer(order.customerId);
       }
+
+      const events = await storage.getOrderEvents(order.id);
+      const fulfillments = await storage.getFulfillments(order.id);
+      const returns = await storage.getReturnRequestsByOrderId(order.id);
       
       return res.status(200).json({
         ...order,
         items,
-        customer
+        customer,
+        events,
+        fulfillments,
+        returns,
+        allowedTransitions: getAllowedTransitions(order.status)
       });
     } catch (err) {
       console.error(err);
@@ -1322,10 +1481,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", async (req, res) => {
+  app.post("/api/orders", requireTenant, async (req, res) => {
     try {
       const orderData = insertOrderSchema.parse(req.body);
       
+      // Vendors can only create orders in their own store
+      const tenant = (req as TenantRequest).tenant!;
+      if (!canAccessVendor(tenant, orderData.vendorId)) {
+        return res.status(403).json({ message: "You don't have permission to access this vendor" });
+      }
+      
       // Ensure the vendor exists
       const vendor = await storage.getVendor(orderData.vendorId);
       if (!vendor) {
@@ -1350,32 +1515,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         orderData.orderNumber = `${vendorPrefix}-${timestamp}`;
       }
       
-      const order = await storage.createOrder(orderData);
-      
-      // Add order items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const itemData of req.body.items) {
-          const orderItem = insertOrderItemSchema.parse({
-            ...itemData,
-            orderId: order.id
-          });
-          
-          await storage.createOrderItem(orderItem);
+      const items = insertOrderItemSchema
+        .omit({ orderId: true })
+        .array()
+        .parse(Array.isArray(req.body.items) ? req.body.items : []);
+
+      // Stock only ever comes out of the order's own store
+      for (const item of items) {
+        const product = await storage.getProduct(item.productId);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (product.vendorId !== orderData.vendorId) {
+          return res.status(403).json({ message: "Product does not belong to this vendor" });
+        }
+        if (item.variantId != null) {
+          const variant = await storage.getProductVariant(item.variantId);
+          if (!variant || variant.productId !== product.id) {
+            return res.status(404).json({ message: "Variant not found" });
+          }
         }
       }
-      
-      // Return the created order with its items
-      const items = await storage.getOrderItems(order.id);
-      return res.status(201).json({
-        ...order,
-        items
-      });
+
+      // Reserves stock for the items, which canceling the order puts back
+      const order = await storage.placeOrder(orderData, items);
+      return res.status(201).json(order);
     } catch (err) {
       return handleValidationError(err, res);
     }
   });
 
-  app.patch("/api/orders/:id", async (req, res) => {
+  app.patch("/api/orders/:id", requireTenant, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       // Partial validation
@@ -1386,44 +1556,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return acc;
       }, {} as Partial<typeof insertOrderSchema._type>);
       
-      const order = await storage.getOrder(id);
+      // Records never move between tenants
+      delete orderData.vendorId;
+      
+      const order = await forTenant((req as TenantRequest).tenant!).getOrder(id);
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
       
-      const updatedOrder = await storage.updateOrder(id, orderData);
-      
-      // Handle updates to order items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        // Get existing items
-        const existingItems = await storage.getOrderItems(id);
-        
-        for (const itemData of req.body.items) {
-          if (itemData.id) {
-            // Update existing item
-            const existingItem = existingItems.find(item => item.id === itemData.id);
-            if (existingItem) {
-              const updatedItemData = Object.keys(itemData).reduce((acc, key) => {
-                if (key in insertOrderItemSchema.shape) {
-                  acc[key] = itemData[key];
-                }
-                return acc;
-              }, {} as Partial<typeof insertOrderItemSchema._type>);
-              
-              await storage.updateOrderItem(itemData.id, updatedItemData);
-            }
-          } else {
-            // Create new item
-            const orderItem = insertOrderItemSchema.parse({
-              ...itemData,
-              orderId: id
-            });
-            
-            await storage.createOrderItem(orderItem);
-          }
-        }
+      // Items are priced and their stock reserved when the order is placed,
+      // and cancelling restocks what they say, so they're fixed from then on
+      if (req.body.items !== undefined) {
+        return res.status(409).json({
+          message: "An order's items can't be changed once it's placed",
+          error: "ORDER_ITEMS_LOCKED"
+        });
       }
       
+      // Status changes go through the order state machine, which rejects
+      // illegal moves and records who made the change
+      const { status, ...otherData } = orderData;
+      const updatedOrder = status && status !== order.status
+        ? await storage.transitionOrderStatus(id, status, {
+            actorId: req.user?.id ?? null,
+            note: typeof req.body.note === "string" ? req.body.note : null,
+            data: otherData
+          })
+        : await storage.updateOrder(id, otherData);
+      
       // Return the updated order with its items
       const items = await storage.getOrderItems(id);
       return res.status(200).json({
@@ -1436,7 +1596,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer endpoints
-  app.get("/api/vendors/:vendorId/customers", async (req, res) => {
+  app.get("/api/vendors/:vendorId/customers", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
       const vendor = await storage.getVendor(vendorId);
@@ -1453,10 +1613,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers", async (req, res) => {
+  app.post("/api/customers", requireTenant, async (req, res) => {
     try {
       const customerData = insertCustomerSchema.parse(req.body);
       
+      // Vendors can only add customers to their own store
+      const tenant = (req as TenantRequest).tenant!;
+      if (!canAccessVendor(tenant, customerData.vendorId)) {
+        return res.status(403).json({ message: "You don't have permission to access this vendor" });
+      }
+      
       // Ensure the vendor exists
       const vendor = await storage.getVendor(customerData.vendorId);
       if (!vendor) {
@@ -1476,79 +1642,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analytics endpoints
-  app.get("/api/vendors/:vendorId/analytics", async (req, res) => {
+  // Analytics endpoints. Each takes `from`, `to` (inclusive, YYYY-MM-DD) and
+  // `granularity`, and compares the range against the period before it.
+  app.get("/api/vendors/:vendorId/analytics", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
+      const range = resolveAnalyticsRange(analyticsRangeQuerySchema.parse(req.query));
       const vendor = await storage.getVendor(vendorId);
       
       if (!vendor) {
         return res.status(404).json({ message: "Vendor not found" });
       }
       
-      const analytics = await storage.getVendorAnalytics(vendorId);
+      const analytics = await getAnalyticsReport(vendorId, range);
       return res.status(200).json(analytics);
     } catch (err) {
-      console.error(err);
-      return res.status(500).json({ message: "Internal server error" });
+      return handleValidationError(err, res);
     }
   });
   
-  // New analytics endpoints for dashboard visualizations
-  app.get("/api/vendors/:vendorId/analytics/top-products", async (req, res) => {
+  app.get("/api/vendors/:vendorId/analytics/top-products", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
+      const query = analyticsRangeQuerySchema.parse(req.query);
+      const range = resolveAnalyticsRange(query);
       
       const vendor = await storage.getVendor(vendorId);
       if (!vendor) {
         return res.status(404).json({ message: "Vendor not found" });
       }
       
-      const topProducts = await storage.getTopProducts(vendorId, limit);
+      const topProducts = await getTopProductsReport(vendorId, range, query.limit ?? 5);
       return res.status(200).json(topProducts);
     } catch (err) {
-      console.error(err);
-      return res.status(500).json({ message: "Internal server error" });
+      return handleValidationError(err, res);
     }
   });
   
-  app.get("/api/vendors/:vendorId/analytics/sales-by-hour", async (req, res) => {
+  app.get("/api/vendors/:vendorId/analytics/sales-by-hour", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
+      const range = resolveAnalyticsRange(analyticsRangeQuerySchema.parse(req.query));
       
       const vendor = await storage.getVendor(vendorId);
       if (!vendor) {
         return res.status(404).json({ message: "Vendor not found" });
       }
       
-      const salesByHour = await storage.getSalesByHour(vendorId);
+      const salesByHour = await getSalesByHourReport(vendorId, range);
       return res.status(200).json(salesByHour);
     } catch (err) {
-      console.error(err);
-      return res.status(500).json({ message: "Internal server error" });
+      return handleValidationError(err, res);
     }
   });
   
-  app.get("/api/vendors/:vendorId/analytics/sales-by-category", async (req, res) => {
+  app.get("/api/vendors/:vendorId/analytics/sales-by-category", requireVendorAccess(), async (req, res) => {
     try {
       const vendorId = parseInt(req.params.vendorId);
+      const range = resolveAnalyticsRange(analyticsRangeQuerySchema.parse(req.query));
       
       const vendor = await storage.getVendor(vendorId);
       if (!vendor) {
         return res.status(404).json({ message: "Vendor not found" });
       }
       
-      const salesByCategory = await storage.getSalesByCategory(vendorId);
+      const salesByCategory = await getSalesByCategoryReport(vendorId, range);
       return res.status(200).json(salesByCategory);
     } catch (err) {
-      console.error(err);
-      return res.status(500).json({ message: "Internal server error" });
+      return handleValidationError(err, res);
     }
   });
 
   // Platform statistics endpoint (for super admin)
-  app.get("/api/platform-stats", async (_req, res) => {
+  app.get("/api/platform-stats", hasRole(["super_admin"]), async (_req, res) => {
     try {
       const stats = await storage.getPlatformStats();
       return res.status(200).json(stats);
@@ -1558,6 +1724,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The platform's base domains, for showing where vendor subdomains live
+  app.get("/api/platform/domains", (_req, res) => {
+    const baseDomains = getBaseDomains();
+    return res.status(200).json({ baseDomains, subdomainBase: baseDomains[0] });
+  });
+
   // Domain and store-related endpoints
   app.get("/api/store/current", (req: DomainRequest, res) => {
     try {
@@ -1612,17 +1784,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get all domains (for domain selector and store testing)
-  app.get("/api/domains", async (req, res) => {
-    try {
-      const domains = await storage.getAllDomains();
-      return res.status(200).json(domains);
-    } catch (err) {
-      console.error('Error fetching domains:', err);
-      return res.status(500).json({ message: "Internal server error" });
-    }
-  });
-
   // Register checkout-related routes (cart, checkout, orders)
   registerCheckoutRoutes(app);
   
@@ -1634,6 +1795,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Register payment-related routes
   registerPaymentRoutes(app);
+
+  // Register vendor promotion and shipping routes
+  registerPromotionRoutes(app);
+  registerShippingRoutes(app);
+
+  // Register order timeline, fulfillment and return routes
+  registerFulfillmentRoutes(app);
+  registerReturnRoutes(app);
+  registerCertificateRoutes(app);
+
+  // Register bulk product import/export routes
+  registerProductImportRoutes(app);
+
+  // Register payment gateway webhooks
+  registerStripeWebhookRoutes(app);
+
+  // Register order payments through the vendor's gateways
+  registerOrderPaymentRoutes(app);
+
+  // Register invoice PDF downloads
+  registerTaxDocumentRoutes(app);
+
+  // Register storefront event tracking
+  registerStorefrontEventRoutes(app);
+
+  // Register report generation, downloads and schedules
+  registerReportRoutes(app);
+
+  // Register the super admin view of scheduled jobs
+  registerJobRoutes(app);
+
+  // Register mail server settings, email templates and the outbox
+  registerEmailRoutes(app);
   
   // Register PayPal routes
   app.get("/paypal/setup", async (req, res) => {
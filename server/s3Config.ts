@@ -83,24 +83,6 @@ export const upload = multer({
   },
 });
 
-// Product image uploader with 10MB limit
-export const productImageUpload = multer({
-  storage: s3Storage,
-  fileFilter: (_req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    // Only accept image types for product images
-    const allowedMimeTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    
-    if (allowedMimeTypes.includes(file.mimetype)) {
-      cb(null, true);
-    } else {
-      cb(new Error('Only image files are allowed for product images'));
-    }
-  },
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB
-  },
-});
-
 // Helper function to delete a file from S3
 export const deleteFileFromS3 = async (key: string): Promise<boolean> => {
   try {
@@ -1,12 +1,28 @@
 import { Express, Request, Response } from 'express';
 import {
   upload, 
-  productImageUpload,
   generatePresignedUrl,
   deleteFileFromS3,
   getKeyFromUrl
 } from './s3Config';
 import { isAuthenticated } from './auth';
+import { storage } from './storage';
+import { resolveTenant } from './middleware/tenantMiddleware';
+import { S3ImageStore } from './imageStorage';
+import { acceptUpload, handleImageUpload, imageUploadMiddleware, requireStorageQuota } from './uploadService';
+
+// Record a file stored as-is so it counts towards the vendor's storage
+async function recordUpload(req: Request, file: Express.MulterS3.File) {
+  const tenant = await resolveTenant(req);
+  await storage.createUploadedFile({
+    vendorId: tenant?.vendorId ?? null,
+    userId: tenant?.userId ?? null,
+    key: file.key,
+    url: file.location,
+    mimeType: file.mimetype,
+    size: file.size,
+  });
+}
 
 /**
  * Register S3 file upload routes
@@ -14,7 +30,7 @@ import { isAuthenticated } from './auth';
  */
 export function registerS3UploadRoutes(app: Express) {
   // General file upload endpoint
-  app.post('/api/s3/upload', isAuthenticated, upload.single('file'), (req: Request, res: Response) => {
+  app.post('/api/s3/upload', isAuthenticated, requireStorageQuota, upload.single('file'), async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No file uploaded' });
@@ -22,6 +38,7 @@ export function registerS3UploadRoutes(app: Express) {
       
       // The file object from multer-s3 includes the S3 location and key
       const fileData = req.file as Express.MulterS3.File;
+      await recordUpload(req, fileData);
       
       return res.status(200).json({
         message: 'File uploaded successfully',
@@ -36,31 +53,17 @@ export function registerS3UploadRoutes(app: Express) {
     }
   });
 
-  // Product image upload endpoint with higher size limit and image-only restriction
-  app.post('/api/s3/upload/product-image', isAuthenticated, productImageUpload.single('image'), (req: Request, res: Response) => {
-    try {
-      if (!req.file) {
-        return res.status(400).json({ message: 'No image uploaded' });
-      }
-      
-      // The file object from multer-s3 includes the S3 location and key
-      const fileData = req.file as Express.MulterS3.File;
-      
-      return res.status(200).json({
-        message: 'Product image uploaded successfully',
-        url: fileData.location,
-        key: fileData.key,
-        mimetype: fileData.mimetype,
-        size: fileData.size
-      });
-    } catch (error) {
-      console.error('S3 product image upload error:', error);
-      return res.status(500).json({ message: 'Upload failed', error: String(error) });
-    }
-  });
+  // Product image upload endpoint: resized into WebP/AVIF renditions before it reaches the bucket
+  app.post(
+    '/api/s3/upload/product-image',
+    isAuthenticated,
+    requireStorageQuota,
+    acceptUpload(imageUploadMiddleware.single('image')),
+    handleImageUpload(() => new S3ImageStore())
+  );
 
   // Multiple files upload
-  app.post('/api/s3/upload/multiple', isAuthenticated, upload.array('files', 10), (req: Request, res: Response) => {
+  app.post('/api/s3/upload/multiple', isAuthenticated, requireStorageQuota, upload.array('files', 10), async (req: Request, res: Response) => {
     try {
       if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
         return res.status(400).json({ message: 'No files uploaded' });
@@ -68,6 +71,9 @@ export function registerS3UploadRoutes(app: Express) {
       
       // The files array from multer-s3 includes the S3 location and key for each file
       const filesData = req.files as Express.MulterS3.File[];
+      for (const file of filesData) {
+        await recordUpload(req, file);
+      }
       
       const uploadedFiles = filesData.map(file => ({
         url: file.location,
@@ -122,9 +128,18 @@ export function registerS3UploadRoutes(app: Express) {
         return res.status(400).json({ message: 'Invalid file URL or key' });
       }
       
+      // Recorded files can only be deleted by their own store
+      const file = await storage.getUploadedFileByKey(fileKey);
+      const tenant = await resolveTenant(req);
+      if (file && file.vendorId !== null && !(tenant?.isPlatformAdmin || tenant?.vendorId === file.vendorId)) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      
       const deleted = await deleteFileFromS3(fileKey);
       
       if (deleted) {
+        // It no longer counts towards the store's storage
+        if (file) await storage.deleteUploadedFile(file.id);
         return res.status(200).json({ message: 'File deleted successfully' });
       } else {
         return res.status(500).json({ message: 'Failed to delete file' });
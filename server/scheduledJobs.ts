@@ -0,0 +1,86 @@
+import { storage } from "./storage";
+import { type JobDefinition, pruneJobRuns } from "./jobScheduler";
+import { reverifyDomains } from "./domainVerification";
+import { getAcmeConfig, renewCertificates } from "./certificates";
+import { runBilling } from "./billing";
+import { runAnalyticsRollup } from "./storefrontAnalytics";
+import { runScheduledReports } from "./reports";
+import { deliverQueuedEmails, pruneOutboxEmails } from "./emailOutbox";
+import { DAY_MS } from "./analyticsPeriods";
+
+/**
+ * Delete guest carts nobody has touched in CART_RETENTION_DAYS (30 by
+ * default). Signed-in customers' carts are kept.
+ */
+async function deleteAbandonedCarts(now: Date): Promise<{ deleted: number }> {
+  const retentionDays = parseInt(process.env.CART_RETENTION_DAYS ?? "30");
+  if (!(retentionDays > 0)) return { deleted: 0 };
+  return { deleted: await storage.deleteAbandonedCarts(new Date(now.getTime() - retentionDays * DAY_MS)) };
+}
+
+// Every periodic job the server runs. Schedules are the defaults for new
+// installs; super admins can change them from the Jobs page.
+export const SCHEDULED_JOBS: JobDefinition[] = [
+  {
+    name: "domain-reverification",
+    description: "Re-check custom domains not checked in DOMAIN_REVERIFY_MAX_AGE_HOURS (6 by default), so pending ones go live and ones that stop pointing here are taken offline",
+    schedule: "15 * * * *",
+    run: async () => {
+      const maxAgeHours = parseInt(process.env.DOMAIN_REVERIFY_MAX_AGE_HOURS ?? "6");
+      return { checked: await reverifyDomains(maxAgeHours * 60 * 60 * 1000) };
+    },
+  },
+  {
+    name: "certificate-renewal",
+    description: "Issue certificates for verified custom domains and renew them before they expire",
+    schedule: "0 */12 * * *",
+    run: async (now) => {
+      if (!getAcmeConfig()) {
+        return { skipped: "ACME_DIRECTORY_URL isn't set" };
+      }
+      return renewCertificates(now);
+    },
+  },
+  {
+    name: "subscription-billing",
+    description: "End trials, renew subscriptions, retry failed payments and suspend stores left unpaid",
+    schedule: "0 * * * *",
+    run: (now) => runBilling(now),
+  },
+  {
+    name: "analytics-rollup",
+    description: "Turn storefront events into the daily analytics vendors see, and drop old raw events",
+    schedule: "*/15 * * * *",
+    run: (now) => runAnalyticsRollup(now),
+  },
+  {
+    name: "scheduled-reports",
+    description: "Email vendors' scheduled reports and delete expired report files",
+    schedule: "*/15 * * * *",
+    run: (now) => runScheduledReports(now),
+  },
+  {
+    name: "email-outbox",
+    description: "Send queued emails, retrying ones the mail server turned down",
+    schedule: "* * * * *",
+    run: (now) => deliverQueuedEmails(now),
+  },
+  {
+    name: "abandoned-cart-cleanup",
+    description: "Delete guest carts left untouched for CART_RETENTION_DAYS (30 by default)",
+    schedule: "30 3 * * *",
+    run: deleteAbandonedCarts,
+  },
+  {
+    name: "job-run-cleanup",
+    description: "Delete job run history older than JOB_RUN_RETENTION_DAYS (30 by default)",
+    schedule: "45 3 * * *",
+    run: (now) => pruneJobRuns(now),
+  },
+  {
+    name: "email-outbox-cleanup",
+    description: "Delete sent emails older than EMAIL_OUTBOX_RETENTION_DAYS (30 by default)",
+    schedule: "50 3 * * *",
+    run: (now) => pruneOutboxEmails(now),
+  },
+];
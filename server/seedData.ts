@@ -1,4 +1,5 @@
 import { storage } from './storage';
+import { getSubdomainHostname } from './platformDomains';
 
 /**
  * Creates a test vendor and domain for development
@@ -76,7 +77,7 @@ async function createTestVendorAndDomain() {
     }
 
     // Create test subdomain
-    const testSubdomain = 'test-store.multivend.com';
+    const testSubdomain = getSubdomainHostname('test-store');
     let subdomain = await storage.getDomainByName(testSubdomain);
     
     if (!subdomain) {
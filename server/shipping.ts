@@ -0,0 +1,224 @@
+import Decimal from "decimal.js";
+import type { Product, ProductVariant, ShippingRate, ShippingRateTier, ShippingZone } from "@shared/schema";
+import { findLineVariant } from "./inventory";
+import { normalizeState } from "./pricing";
+
+// Courier divisor for volumetric weight from centimetres to kilograms
+const VOLUMETRIC_DIVISOR = 5000;
+
+/**
+ * The parts of an address that decide which zone it falls in
+ */
+export interface ShippingDestination {
+  country?: string | null;
+  state?: string | null;
+  postalCode?: string | null;
+}
+
+/**
+ * What a rate is worked out from: the chargeable weight in kg and the
+ * amount the customer pays for the goods after discounts
+ */
+export interface ShipmentMetrics {
+  weight: number;
+  amount: string;
+}
+
+export interface ShippingOption {
+  rateId: number;
+  zoneId: number;
+  name: string;
+  amount: string;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Whether a postal code matches a zone pattern. Patterns can be an exact
+ * code, a prefix ending in "*" or an inclusive numeric range "from-to".
+ */
+export function matchesPostalPattern(pattern: string, postalCode: string): boolean {
+  const code = postalCode.replace(/\s+/g, "").toUpperCase();
+  const trimmed = pattern.replace(/\s+/g, "").toUpperCase();
+  if (!trimmed) return false;
+
+  if (trimmed.endsWith("*")) {
+    return code.startsWith(trimmed.slice(0, -1));
+  }
+
+  const range = trimmed.match(/^(\d+)-(\d+)$/);
+  if (range && /^\d+$/.test(code)) {
+    const value = parseInt(code);
+    return value >= parseInt(range[1]) && value <= parseInt(range[2]);
+  }
+
+  return code === trimmed;
+}
+
+/**
+ * Whether an address falls inside a zone. Each empty list matches anything,
+ * so a zone with no lists at all is a "rest of the world" catch-all.
+ */
+export function matchesZone(zone: ShippingZone, destination: ShippingDestination): boolean {
+  if (!zone.isActive) return false;
+
+  const countries = zone.countries ?? [];
+  if (countries.length > 0) {
+    if (!destination.country) return false;
+    const country = normalize(destination.country);
+    if (!countries.some(c => normalize(c) === country)) return false;
+  }
+
+  const states = zone.states ?? [];
+  if (states.length > 0) {
+    const state = normalizeState(destination.state);
+    if (!state) return false;
+    if (!states.some(s => normalizeState(s) === state)) return false;
+  }
+
+  const postalCodes = zone.postalCodes ?? [];
+  if (postalCodes.length > 0) {
+    if (!destination.postalCode) return false;
+    if (!postalCodes.some(pattern => matchesPostalPattern(pattern, destination.postalCode!))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The first zone, in position order, that covers the address
+ */
+export function findShippingZone(zones: ShippingZone[], destination: ShippingDestination): ShippingZone | undefined {
+  return [...zones]
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.id - b.id)
+    .find(zone => matchesZone(zone, destination));
+}
+
+function findTier(tiers: ShippingRateTier[], value: Decimal): ShippingRateTier | undefined {
+  return tiers.find(tier => value.greaterThanOrEqualTo(tier.min) && (tier.max == null || value.lessThan(tier.max)));
+}
+
+/**
+ * Price a single rate for a shipment. Returns null when the rate can't be
+ * used, e.g. the parcel is heavier than the last weight tier.
+ */
+export function calculateShippingRate(rate: ShippingRate, metrics: ShipmentMetrics): string | null {
+  if (!rate.isActive) return null;
+
+  const amount = new Decimal(metrics.amount);
+  switch (rate.type) {
+    case "flat":
+      return new Decimal(rate.amount ?? 0).toFixed(2);
+    case "free_over":
+      if (rate.freeAbove && amount.greaterThanOrEqualTo(rate.freeAbove)) return "0.00";
+      return new Decimal(rate.amount ?? 0).toFixed(2);
+    case "weight": {
+      const tier = findTier((rate.tiers as ShippingRateTier[] | null) ?? [], new Decimal(metrics.weight));
+      return tier ? new Decimal(tier.amount).toFixed(2) : null;
+    }
+    case "price": {
+      const tier = findTier((rate.tiers as ShippingRateTier[] | null) ?? [], amount);
+      return tier ? new Decimal(tier.amount).toFixed(2) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Volumetric weight in kg from a "L x W x H" string in centimetres
+ */
+export function volumetricWeight(dimensions: string | null | undefined): number {
+  if (!dimensions) return 0;
+  const parts = dimensions.split(/[x×*]/i).map(part => parseFloat(part));
+  if (parts.length !== 3 || parts.some(part => isNaN(part) || part <= 0)) return 0;
+  return (parts[0] * parts[1] * parts[2]) / VOLUMETRIC_DIVISOR;
+}
+
+/**
+ * Chargeable weight of one unit: the greater of its actual and volumetric
+ * weight. A variant's own weight takes precedence over the product's.
+ */
+export function unitChargeableWeight(product: Product, variant?: ProductVariant | null): number {
+  const actual = parseFloat(variant?.weight ?? product.weight ?? "0") || 0;
+  return Math.max(actual, volumetricWeight(product.dimensions));
+}
+
+/**
+ * Catalog lookups needed to work out shipping for a cart
+ */
+export interface ShippingCatalog {
+  getProduct(id: number): Promise<Product | undefined>;
+  getProductVariantsByProductId(productId: number): Promise<ProductVariant[]>;
+  getShippingZones(vendorId: number): Promise<ShippingZone[]>;
+  getShippingRates(zoneId: number): Promise<ShippingRate[]>;
+}
+
+/**
+ * Total chargeable weight of a cart's lines
+ */
+export async function getCartWeight(
+  catalog: ShippingCatalog,
+  items: { productId: number; quantity: number; variantId?: number | null }[]
+): Promise<number> {
+  let weight = 0;
+  for (const item of items) {
+    const product = await catalog.getProduct(item.productId);
+    if (!product) continue;
+    const variants = item.variantId ? await catalog.getProductVariantsByProductId(product.id) : [];
+    weight += unitChargeableWeight(product, findLineVariant(variants, item.variantId)) * item.quantity;
+  }
+  return weight;
+}
+
+export interface ShippingQuote {
+  // False when the vendor hasn't set up any zones, in which case shipping is free
+  shippingConfigured: boolean;
+  zone?: ShippingZone;
+  options: ShippingOption[];
+}
+
+/**
+ * List the shipping options a vendor offers for a cart going to an address.
+ * A free-shipping promotion brings every option down to zero.
+ */
+export async function getShippingOptions(
+  catalog: ShippingCatalog,
+  vendorId: number,
+  items: { productId: number; quantity: number; variantId?: number | null }[],
+  destination: ShippingDestination,
+  amount: string,
+  freeShipping = false
+): Promise<ShippingQuote> {
+  const zones = await catalog.getShippingZones(vendorId);
+  if (zones.length === 0) {
+    return { shippingConfigured: false, options: [] };
+  }
+
+  const zone = findShippingZone(zones, destination);
+  if (!zone) {
+    return { shippingConfigured: true, options: [] };
+  }
+
+  const weight = await getCartWeight(catalog, items);
+  const rates = await catalog.getShippingRates(zone.id);
+
+  const options: ShippingOption[] = [];
+  for (const rate of rates) {
+    const rateAmount = calculateShippingRate(rate, { weight, amount });
+    if (rateAmount === null) continue;
+    options.push({
+      rateId: rate.id,
+      zoneId: zone.id,
+      name: rate.name,
+      amount: freeShipping ? "0.00" : rateAmount,
+      minDeliveryDays: rate.minDeliveryDays,
+      maxDeliveryDays: rate.maxDeliveryDays,
+    });
+  }
+
+  options.sort((a, b) => new Decimal(a.amount).comparedTo(b.amount));
+  return { shippingConfigured: true, zone, options };
+}
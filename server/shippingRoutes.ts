@@ -0,0 +1,223 @@
+import { Express, Request, Response } from "express";
+import { z } from "zod";
+import Decimal from "decimal.js";
+import {
+  insertShippingZoneSchema,
+  insertShippingRateSchema,
+  type InsertShippingRate,
+  type ShippingRateTier
+} from "@shared/schema";
+import { storage } from "./storage";
+import { requireVendorAccess } from "./middleware/tenantMiddleware";
+
+// Bodies accepted when creating or updating zones and rates; the owner comes from the URL
+const zoneBodySchema = insertShippingZoneSchema.omit({ vendorId: true });
+const rateBodySchema = insertShippingRateSchema.omit({ zoneId: true });
+
+/**
+ * Check the fields a rate type depends on. Tiers must start at zero, be in
+ * order and not overlap so every weight or amount falls in at most one tier.
+ * Returns an error message, or null when the rate is valid.
+ */
+function validateRate(rate: Partial<InsertShippingRate>): string | null {
+  const amount = new Decimal(rate.amount || 0);
+  if (amount.isNegative()) {
+    return "Amount can't be negative";
+  }
+
+  if (rate.type === "free_over" && (!rate.freeAbove || new Decimal(rate.freeAbove).lessThanOrEqualTo(0))) {
+    return "A free shipping threshold is required";
+  }
+
+  if (rate.type === "weight" || rate.type === "price") {
+    const tiers = (rate.tiers as ShippingRateTier[] | null | undefined) ?? [];
+    if (tiers.length === 0) {
+      return "At least one tier is required";
+    }
+    for (let i = 0; i < tiers.length; i++) {
+      const tier = tiers[i];
+      if (tier.max != null && tier.max <= tier.min) {
+        return `Tier ${i + 1} must end after it starts`;
+      }
+      if (i > 0 && tiers[i - 1].max == null) {
+        return "Only the last tier can be left open-ended";
+      }
+      if (i > 0 && tier.min < tiers[i - 1].max!) {
+        return `Tier ${i + 1} overlaps the tier before it`;
+      }
+    }
+  }
+
+  if (rate.minDeliveryDays != null && rate.maxDeliveryDays != null && rate.maxDeliveryDays < rate.minDeliveryDays) {
+    return "Maximum delivery days must be at least the minimum";
+  }
+
+  return null;
+}
+
+/**
+ * Register vendor shipping zone and rate routes
+ */
+export default function registerShippingRoutes(app: Express) {
+  // Load a zone and make sure it belongs to the vendor in the URL
+  const findVendorZone = async (req: Request, res: Response, param = "id") => {
+    const vendorId = parseInt(req.params.vendorId);
+    const id = parseInt(req.params[param]);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid zone ID" });
+      return undefined;
+    }
+
+    const zone = await storage.getShippingZone(id);
+    if (!zone || zone.vendorId !== vendorId) {
+      res.status(404).json({ message: "Shipping zone not found" });
+      return undefined;
+    }
+    return zone;
+  };
+
+  // Load a rate and make sure it belongs to the zone in the URL
+  const findZoneRate = async (req: Request, res: Response) => {
+    const zone = await findVendorZone(req, res, "zoneId");
+    if (!zone) return undefined;
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      res.status(400).json({ message: "Invalid rate ID" });
+      return undefined;
+    }
+
+    const rate = await storage.getShippingRate(id);
+    if (!rate || rate.zoneId !== zone.id) {
+      res.status(404).json({ message: "Shipping rate not found" });
+      return undefined;
+    }
+    return rate;
+  };
+
+  // List a vendor's zones with their rates
+  app.get("/api/vendors/:vendorId/shipping-zones", requireVendorAccess(), async (req, res) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const zones = await storage.getShippingZones(vendorId);
+      const zonesWithRates = await Promise.all(
+        zones.map(async zone => ({ ...zone, rates: await storage.getShippingRates(zone.id) }))
+      );
+      res.json(zonesWithRates);
+    } catch (error: any) {
+      console.error("Error getting shipping zones:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Create a zone
+  app.post("/api/vendors/:vendorId/shipping-zones", requireVendorAccess(), async (req, res) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const validatedData = zoneBodySchema.parse(req.body);
+      const zone = await storage.createShippingZone({ ...validatedData, vendorId });
+      res.status(201).json({ ...zone, rates: [] });
+    } catch (error: any) {
+      console.error("Error creating shipping zone:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update a zone
+  app.patch("/api/vendors/:vendorId/shipping-zones/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const zone = await findVendorZone(req, res);
+      if (!zone) return;
+
+      const validatedData = zoneBodySchema.partial().parse(req.body);
+      const updatedZone = await storage.updateShippingZone(zone.id, validatedData);
+      res.json(updatedZone);
+    } catch (error: any) {
+      console.error("Error updating shipping zone:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a zone and its rates. Orders keep the method name and cost they were placed with.
+  app.delete("/api/vendors/:vendorId/shipping-zones/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const zone = await findVendorZone(req, res);
+      if (!zone) return;
+
+      await storage.deleteShippingZone(zone.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting shipping zone:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add a rate to a zone
+  app.post("/api/vendors/:vendorId/shipping-zones/:zoneId/rates", requireVendorAccess(), async (req, res) => {
+    try {
+      const zone = await findVendorZone(req, res, "zoneId");
+      if (!zone) return;
+
+      const validatedData = rateBodySchema.parse(req.body);
+      const validationError = validateRate(validatedData);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const rate = await storage.createShippingRate({ ...validatedData, zoneId: zone.id });
+      res.status(201).json(rate);
+    } catch (error: any) {
+      console.error("Error creating shipping rate:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Update a rate
+  app.patch("/api/vendors/:vendorId/shipping-zones/:zoneId/rates/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const rate = await findZoneRate(req, res);
+      if (!rate) return;
+
+      const validatedData = rateBodySchema.partial().parse(req.body);
+
+      // Validate the rate as it will be after the update
+      const merged = { ...rate, ...validatedData } as Partial<InsertShippingRate>;
+      const validationError = validateRate(merged);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const updatedRate = await storage.updateShippingRate(rate.id, validatedData);
+      res.json(updatedRate);
+    } catch (error: any) {
+      console.error("Error updating shipping rate:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Delete a rate
+  app.delete("/api/vendors/:vendorId/shipping-zones/:zoneId/rates/:id", requireVendorAccess(), async (req, res) => {
+    try {
+      const rate = await findZoneRate(req, res);
+      if (!rate) return;
+
+      await storage.deleteShippingRate(rate.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Error deleting shipping rate:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+}
@@ -0,0 +1,146 @@
+import { createServer, type Socket } from "net";
+
+// A local SMTP server that accepts every message and keeps it instead of
+// delivering it. With SMTP_SINK_PORT set, all email goes here, so development
+// servers and tests can send freely and look at what went out. It speaks just
+// enough SMTP for nodemailer: no TLS, no auth.
+
+export interface SinkMessage {
+  from: string;
+  to: string[];
+  subject: string | null;
+  // The whole message as sent: headers, a blank line, then the body
+  data: string;
+  receivedAt: Date;
+}
+
+export interface SmtpSink {
+  port: number;
+  // Everything received so far, oldest first
+  messages: SinkMessage[];
+  close(): Promise<void>;
+}
+
+const address = (argument: string) => argument.replace(/^[^:]*:\s*/, "").replace(/^<|>.*$/g, "").trim();
+
+// Long subjects are folded onto continuation lines starting with whitespace
+const subjectOf = (data: string) => {
+  const headers = data.split(/\r\n\r\n/)[0].replace(/\r\n[ \t]+/g, " ");
+  return headers.match(/^subject:\s*(.*)$/im)?.[1] ?? null;
+};
+
+function handleConnection(socket: Socket, onMessage: (message: SinkMessage) => void) {
+  let buffer = "";
+  let from = "";
+  let to: string[] = [];
+  let dataLines: string[] | null = null;
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  const reset = () => {
+    from = "";
+    to = [];
+    dataLines = null;
+  };
+
+  const handleLine = (line: string) => {
+    if (dataLines) {
+      if (line === ".") {
+        const data = dataLines.join("\r\n");
+        onMessage({ from, to, subject: subjectOf(data), data, receivedAt: new Date() });
+        reset();
+        reply("250 OK: message kept by the sink");
+      } else {
+        // Lines starting with a dot are sent with an extra one
+        dataLines.push(line.startsWith(".") ? line.slice(1) : line);
+      }
+      return;
+    }
+
+    const [command, ...rest] = line.split(" ");
+    const argument = rest.join(" ");
+    switch (command.toUpperCase()) {
+      case "EHLO":
+        reply("250-localhost");
+        reply("250 8BITMIME");
+        break;
+      case "HELO":
+        reply("250 localhost");
+        break;
+      case "MAIL":
+        reset();
+        from = address(argument);
+        reply("250 OK");
+        break;
+      case "RCPT":
+        to.push(address(argument));
+        reply("250 OK");
+        break;
+      case "DATA":
+        if (to.length === 0) {
+          reply("503 RCPT TO first");
+          break;
+        }
+        dataLines = [];
+        reply("354 End data with <CR><LF>.<CR><LF>");
+        break;
+      case "RSET":
+        reset();
+        reply("250 OK");
+        break;
+      case "NOOP":
+        reply("250 OK");
+        break;
+      case "QUIT":
+        reply("221 Bye");
+        socket.end();
+        break;
+      default:
+        reply("502 Command not implemented");
+    }
+  };
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      handleLine(line);
+    }
+  });
+  socket.on("error", () => socket.destroy());
+  reply("220 localhost ESMTP sink");
+}
+
+/**
+ * Start the sink on `port` (0 picks a free one) on the loopback interface
+ */
+export function startSmtpSink(port = 0, onMessage?: (message: SinkMessage) => void): Promise<SmtpSink> {
+  const messages: SinkMessage[] = [];
+  const sockets = new Set<Socket>();
+  const server = createServer(socket => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    handleConnection(socket, message => {
+      messages.push(message);
+      onMessage?.(message);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      server.off("error", reject);
+      const listening = server.address();
+      resolve({
+        port: typeof listening === "object" && listening ? listening.port : port,
+        messages,
+        close: () => new Promise<void>(done => {
+          sockets.forEach(socket => socket.destroy());
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+}
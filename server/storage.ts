@@ -4,28 +4,97 @@ import {
   subscriptionPlans, type SubscriptionPlan, type InsertSubscriptionPlan,
   vendors, type Vendor, type InsertVendor,
   domains, type Domain, type InsertDomain,
+  domainCertificates, type DomainCertificate, type InsertDomainCertificate,
+  acmeAccounts, type AcmeAccount, type InsertAcmeAccount,
+  acmeChallenges, type AcmeChallenge, type InsertAcmeChallenge,
   productCategories, type ProductCategory, type InsertProductCategory,
   products, type Product, type InsertProduct,
   productVariants, type ProductVariant, type InsertProductVariant,
+  productOptions, productOptionValues, type ProductOption, type ProductOptionValue, type ProductOptionWithValues,
+  productImportJobs, type ProductImportJob, type InsertProductImportJob,
+  imageAssets, type ImageAsset, type InsertImageAsset,
+  uploadedFiles, type UploadedFile, type InsertUploadedFile,
+  webhookEvents, type WebhookEvent, type InsertWebhookEvent,
+  documentSequences, taxDocuments, type TaxDocument, type InsertTaxDocument,
   customers, type Customer, type InsertCustomer,
   customerAddresses, type CustomerAddress, type InsertCustomerAddress,
   orders, type Order, type InsertOrder,
   orderItems, type OrderItem, type InsertOrderItem,
+  orderEvents, type OrderEvent, type InsertOrderEvent,
+  fulfillments, type Fulfillment, type InsertFulfillment,
+  fulfillmentItems, type FulfillmentItem,
+  returnRequests, type ReturnRequest, type InsertReturnRequest,
+  returnItems, type ReturnItem,
   analytics, type Analytics, type InsertAnalytics,
+  storefrontEvents, type InsertStorefrontEvent,
+  reportJobs, type ReportJob, type InsertReportJob,
+  reportSchedules, type ReportSchedule, type InsertReportSchedule,
+  scheduledJobs, type ScheduledJob, type InsertScheduledJob,
+  jobRuns, type JobRun, type InsertJobRun,
+  emailTemplates, type EmailTemplate, type InsertEmailTemplate,
+  emailOutbox, type EmailOutbox, type InsertEmailOutbox,
+  emailSettings, type EmailSettings, type InsertEmailSettings,
   paymentMethods, type PaymentMethod, type InsertPaymentMethod,
-  platformSubscriptions, type PlatformSubscription, type InsertPlatformSubscription,
+  platformSubscriptions, type PlatformSubscription, type InsertPlatformSubscription, type SubscriptionInfo,
   invoices, type Invoice, type InsertInvoice,
   transactions, type Transaction, type InsertTransaction,
   payouts, type Payout, type InsertPayout,
   customerPaymentMethods, type CustomerPaymentMethod, type InsertCustomerPaymentMethod,
   paymentProviderSettings, type PaymentProviderSettings, type InsertPaymentProviderSettings,
-  carts, cartItems
+  carts, cartItems,
+  promotions, type Promotion, type InsertPromotion,
+  promotionRedemptions, type PromotionRedemption,
+  shippingZones, type ShippingZone, type InsertShippingZone,
+  shippingRates, type ShippingRate, type InsertShippingRate
 } from "@shared/schema";
 import { db } from "./db";
 import { eq, and, or } from "drizzle-orm";
 import Decimal from "decimal.js";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { groupStockRequests, InsufficientStockError, type StockShortage } from "./inventory";
+import { priceCart } from "./pricing";
+import { assertPromotionUsable, PromotionError } from "./promotions";
+import {
+  assertTransition,
+  CASH_ON_DELIVERY,
+  describeFulfillment,
+  getAllowedTransitions,
+  isFullyFulfilled,
+  isSale,
+  normalizeOrderStatus,
+  resolveFulfillmentLines,
+  SALE_PAYMENT_STATUSES,
+  statusesAfterFulfillment,
+  UNSOLD_ORDER_STATUSES,
+  type FulfillmentLine,
+  type FulfillmentWithItems,
+  type OrderTransitionOptions
+} from "./orderLifecycle";
+import {
+  assertReturnTransition,
+  calculateRefundAmount,
+  describeReturn,
+  findRefundablePayment,
+  generateRmaNumber,
+  getRefundableAmount,
+  isFullyReturned,
+  REFUNDED_RETURN_STATUSES,
+  resolveRefundAmount,
+  resolveRestockLines,
+  resolveReturnLines,
+  type RestockLine,
+  type ReturnDecision,
+  type ReturnLine,
+  type ReturnWithItems
+} from "./returns";
+import type { DomainVerificationResult } from "./domainVerification";
+import type { StorefrontActivity } from "./storefrontAnalytics";
+import type { AnalyticsBucket, CategorySales, HourlySales, ProductSales } from "./vendorAnalytics";
+import type { CustomerLifetimeValue, GstRateSales } from "./reports";
+import { startOfBucket, toDateKey, type AnalyticsGranularity } from "./analyticsPeriods";
+import { reconcileVariants, type ProductOptionsInput } from "./productOptions";
+import { invalidateDomainCache } from "./domainCache";
 
 export interface IStorage {
   // Session store for authentication
@@ -45,6 +114,10 @@ export interface IStorage {
   updateCartItemQuantity(userId: number | null, sessionId: string | null, itemId: number, quantity: number): Promise<any>;
   removeFromCart(userId: number | null, sessionId: string | null, itemId: number): Promise<any>;
   clearCart(userId: number | null, sessionId: string | null): Promise<boolean>;
+  setCartPromotionCode(userId: number | null, sessionId: string | null, code: string | null): Promise<any>;
+  setCartShippingRate(userId: number | null, sessionId: string | null, rateId: number | null): Promise<any>;
+  // Guest carts (and their items) last changed before `idleSince`
+  deleteAbandonedCarts(idleSince: Date): Promise<number>;
   
   // OTP operations
   createOtp(email: string, code: string, expiresAt: Date): Promise<OtpCode>;
@@ -54,12 +127,16 @@ export interface IStorage {
   // Subscription plan operations
   getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined>;
   getSubscriptionPlanById(id: number): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanByStripePriceId(priceId: string): Promise<SubscriptionPlan | undefined>;
   getSubscriptionPlans(): Promise<SubscriptionPlan[]>;
   createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan>;
   updateSubscriptionPlan(id: number, data: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined>;
   
   // Vendor subscription operations
   getVendorSubscription(vendorId: number): Promise<SubscriptionInfo | undefined>;
+  getVendorSubscriptionByStripeId(stripeSubscriptionId: string): Promise<SubscriptionInfo | undefined>;
+  // Each vendor's latest subscription, when it is in one of the given statuses
+  getVendorSubscriptionsByStatus(statuses: string[]): Promise<SubscriptionInfo[]>;
   createVendorSubscription(subscription: InsertPlatformSubscription): Promise<SubscriptionInfo>;
   updateVendorSubscription(id: number, data: Partial<InsertPlatformSubscription>): Promise<SubscriptionInfo | undefined>;
   getVendorIdByUserId(userId: number): Promise<number | undefined>;
@@ -79,9 +156,24 @@ export interface IStorage {
   createDomain(domain: InsertDomain): Promise<Domain>;
   updateDomain(id: number, data: Partial<InsertDomain>): Promise<Domain | undefined>;
   deleteDomain(id: number): Promise<boolean>;
-  verifyDomain(id: number): Promise<Domain | undefined>;
+  // Saves the outcome of a DNS/HTTP ownership check. A failed check takes an active domain offline;
+  // a check that couldn't complete only records why.
+  recordDomainVerification(id: number, result: DomainVerificationResult): Promise<Domain | undefined>;
   generateVerificationToken(id: number): Promise<Domain | undefined>;
-  checkDomainsSSL(): Promise<void>;
+
+  // Certificate operations
+  getDomainCertificate(id: number): Promise<DomainCertificate | undefined>;
+  getDomainCertificates(domainId: number): Promise<DomainCertificate[]>;
+  createDomainCertificate(certificate: InsertDomainCertificate): Promise<DomainCertificate>;
+  updateDomainCertificate(id: number, data: Partial<InsertDomainCertificate>): Promise<DomainCertificate | undefined>;
+
+  // ACME operations
+  getAcmeAccount(directoryUrl: string): Promise<AcmeAccount | undefined>;
+  createAcmeAccount(account: InsertAcmeAccount): Promise<AcmeAccount>;
+  updateAcmeAccount(id: number, data: Partial<InsertAcmeAccount>): Promise<AcmeAccount | undefined>;
+  getAcmeChallenge(token: string): Promise<AcmeChallenge | undefined>;
+  createAcmeChallenge(challenge: InsertAcmeChallenge): Promise<AcmeChallenge>;
+  deleteAcmeChallenge(token: string): Promise<boolean>;
 
   // Product category operations
   getProductCategory(id: number): Promise<ProductCategory | undefined>;
@@ -107,6 +199,48 @@ export interface IStorage {
   updateProductVariant(id: number, data: Partial<InsertProductVariant>): Promise<ProductVariant | undefined>;
   deleteProductVariant(id: number): Promise<boolean>;
 
+  // Product option operations
+  getProductOptions(productId: number): Promise<ProductOptionWithValues[]>;
+  // Replaces the product's options and values, reconciling its variants to match
+  saveProductOptions(productId: number, options: ProductOptionsInput): Promise<ProductOptionWithValues[]>;
+
+  // Product import job operations
+  getProductImportJob(id: number): Promise<ProductImportJob | undefined>;
+  createProductImportJob(job: InsertProductImportJob): Promise<ProductImportJob>;
+  updateProductImportJob(id: number, data: Partial<ProductImportJob>): Promise<ProductImportJob | undefined>;
+
+  // Image asset operations
+  getImageAssetsByUrls(urls: string[]): Promise<ImageAsset[]>;
+  createImageAsset(asset: InsertImageAsset): Promise<ImageAsset>;
+
+  // Uploaded file operations
+  getUploadedFileByKey(key: string): Promise<UploadedFile | undefined>;
+  createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile>;
+  deleteUploadedFile(id: number): Promise<boolean>;
+  // Bytes of image renditions and uploaded files a vendor has stored
+  getVendorStorageBytes(vendorId: number): Promise<number>;
+
+  // Promotion operations
+  getPromotion(id: number): Promise<Promotion | undefined>;
+  getPromotionsByVendorId(vendorId: number): Promise<Promotion[]>;
+  getPromotionByCode(vendorId: number, code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: number, data: Partial<InsertPromotion>): Promise<Promotion | undefined>;
+  deletePromotion(id: number): Promise<boolean>;
+  countPromotionRedemptions(promotionId: number, customerId: number): Promise<number>;
+
+  // Shipping operations
+  getShippingZones(vendorId: number): Promise<ShippingZone[]>;
+  getShippingZone(id: number): Promise<ShippingZone | undefined>;
+  createShippingZone(zone: InsertShippingZone): Promise<ShippingZone>;
+  updateShippingZone(id: number, data: Partial<InsertShippingZone>): Promise<ShippingZone | undefined>;
+  deleteShippingZone(id: number): Promise<boolean>;
+  getShippingRates(zoneId: number): Promise<ShippingRate[]>;
+  getShippingRate(id: number): Promise<ShippingRate | undefined>;
+  createShippingRate(rate: InsertShippingRate): Promise<ShippingRate>;
+  updateShippingRate(id: number, data: Partial<InsertShippingRate>): Promise<ShippingRate | undefined>;
+  deleteShippingRate(id: number): Promise<boolean>;
+
   // Customer operations
   getCustomer(id: number): Promise<Customer | undefined>;
   getCustomers(vendorId: number): Promise<Customer[]>;
@@ -128,6 +262,47 @@ export interface IStorage {
   getOrderByNumber(orderNumber: string): Promise<Order | undefined>;
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrder(id: number, data: Partial<InsertOrder>): Promise<Order | undefined>;
+  // Reserves stock for every item and creates the order in one step; throws InsufficientStockError when short
+  placeOrder(
+    order: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    redemption?: { promotionId: number; customerId: number | null }
+  ): Promise<Order & { items: OrderItem[] }>;
+  // Moves the order along the state machine and records it on the timeline; throws OrderTransitionError
+  // for illegal moves. Canceling puts the items back into stock, shipping ships whatever is left unfulfilled.
+  transitionOrderStatus(id: number, status: string, options?: OrderTransitionOptions): Promise<Order | undefined>;
+
+  // Order history and fulfillment operations
+  getOrderEvents(orderId: number): Promise<OrderEvent[]>;
+  createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent>;
+  getFulfillments(orderId: number): Promise<FulfillmentWithItems[]>;
+  getFulfillment(id: number): Promise<Fulfillment | undefined>;
+  // Ships the given lines (or everything left) and moves the order to processing/shipped as needed
+  createFulfillment(
+    orderId: number,
+    data: Omit<InsertFulfillment, "orderId">,
+    lines?: FulfillmentLine[],
+    actorId?: number | null
+  ): Promise<FulfillmentWithItems | undefined>;
+  // Marking the last shipment delivered marks a shipped order delivered
+  updateFulfillment(id: number, data: Partial<InsertFulfillment>, actorId?: number | null): Promise<Fulfillment | undefined>;
+
+  // Return (RMA) operations
+  getReturnRequest(id: number): Promise<ReturnWithItems | undefined>;
+  getReturnRequestsByOrderId(orderId: number): Promise<ReturnWithItems[]>;
+  getReturnRequestsByVendorId(vendorId: number, status?: string): Promise<ReturnWithItems[]>;
+  // Opens a return for the given lines; throws ReturnError when the order or quantities don't allow it
+  createReturnRequest(
+    orderId: number,
+    data: Pick<InsertReturnRequest, "reason" | "comment" | "customerId" | "requestedBy">,
+    lines: ReturnLine[]
+  ): Promise<ReturnWithItems | undefined>;
+  // Approves a requested return and refunds it from the order's online payment, if there is one
+  approveReturnRequest(id: number, decision?: ReturnDecision): Promise<ReturnWithItems | undefined>;
+  rejectReturnRequest(id: number, decision?: ReturnDecision): Promise<ReturnWithItems | undefined>;
+  // Marks an approved return as back with the vendor and puts the given lines (all of them when left out)
+  // back into stock. The order is marked returned once every unit has come back.
+  receiveReturnRequest(id: number, restock?: RestockLine[], actorId?: number | null): Promise<ReturnWithItems | undefined>;
 
   // Order item operations
   getOrderItem(id: number): Promise<OrderItem | undefined>;
@@ -139,9 +314,77 @@ export interface IStorage {
   // Analytics operations
   getVendorAnalytics(vendorId: number): Promise<Analytics[]>;
   createAnalyticsEntry(data: InsertAnalytics): Promise<Analytics>;
-  getTopProducts(vendorId: number, limit?: number): Promise<{ name: string, sales: number, revenue: string }[]>;
-  getSalesByHour(vendorId: number): Promise<{ hour: string, sales: number }[]>;
-  getSalesByCategory(vendorId: number): Promise<{ name: string, value: number, amount: string }[]>;
+  // Replace the vendor's row for `data.date`, or add it
+  upsertAnalyticsEntry(data: InsertAnalytics): Promise<Analytics>;
+  recordStorefrontEvents(events: InsertStorefrontEvent[]): Promise<number>;
+  // Per vendor with any storefront events or orders in [from, to)
+  getStorefrontActivity(from: Date, to: Date): Promise<StorefrontActivity[]>;
+  deleteStorefrontEventsBefore(cutoff: Date): Promise<number>;
+  // Reporting over [from, to); canceled orders don't count as sales
+  getAnalyticsBuckets(vendorId: number, from: Date, to: Date, granularity: AnalyticsGranularity): Promise<AnalyticsBucket[]>;
+  getTopProducts(vendorId: number, from: Date, to: Date, limit?: number): Promise<ProductSales[]>;
+  // Every product sold when `productIds` is left out
+  getProductSales(vendorId: number, from: Date, to: Date, productIds?: number[]): Promise<ProductSales[]>;
+  getSalesByHour(vendorId: number, from: Date, to: Date): Promise<HourlySales[]>;
+  getSalesByCategory(vendorId: number, from: Date, to: Date): Promise<CategorySales[]>;
+  getGstSummary(vendorId: number, from: Date, to: Date): Promise<GstRateSales[]>;
+  // Customers with an order in [from, to), totalled over all their orders before `to`
+  getCustomerLifetimeValues(vendorId: number, from: Date, to: Date): Promise<CustomerLifetimeValue[]>;
+
+  // Report operations
+  getReportJob(id: number): Promise<ReportJob | undefined>;
+  // Newest first
+  getReportJobsByVendorId(vendorId: number, limit?: number): Promise<ReportJob[]>;
+  createReportJob(job: InsertReportJob): Promise<ReportJob>;
+  updateReportJob(id: number, data: Partial<InsertReportJob>): Promise<ReportJob | undefined>;
+  getExpiredReportJobs(now: Date): Promise<ReportJob[]>;
+  deleteReportJob(id: number): Promise<boolean>;
+  getReportSchedule(id: number): Promise<ReportSchedule | undefined>;
+  getReportSchedulesByVendorId(vendorId: number): Promise<ReportSchedule[]>;
+  createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule>;
+  updateReportSchedule(id: number, data: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined>;
+  deleteReportSchedule(id: number): Promise<boolean>;
+  // Active schedules whose next run is at or before `now`
+  getDueReportSchedules(now: Date): Promise<ReportSchedule[]>;
+
+  // Scheduled job operations
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  getScheduledJob(name: string): Promise<ScheduledJob | undefined>;
+  // Add the job if there's no job with its name yet; an existing one is left as it is
+  ensureScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob>;
+  updateScheduledJob(name: string, data: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined>;
+  // Enabled jobs whose next run is at or before `now`, and any with a run requested
+  getDueScheduledJobs(now: Date): Promise<ScheduledJob[]>;
+  getJobRun(id: number): Promise<JobRun | undefined>;
+  // Newest first, for one job or all of them
+  getJobRuns(jobName?: string, limit?: number): Promise<JobRun[]>;
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  updateJobRun(id: number, data: Partial<InsertJobRun>): Promise<JobRun | undefined>;
+  // Mark runs still "running" as failed, e.g. after the instance running them stopped
+  failRunningJobRuns(error: string, finishedAt: Date): Promise<number>;
+  deleteJobRunsBefore(cutoff: Date): Promise<number>;
+
+  // Email operations
+  // A vendor's own templates, or the platform's when `vendorId` is null
+  getEmailTemplates(vendorId: number | null): Promise<EmailTemplate[]>;
+  getEmailTemplate(vendorId: number | null, template: string): Promise<EmailTemplate | undefined>;
+  // Adds the template, or replaces the vendor's (or platform's) existing wording for it
+  saveEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(vendorId: number | null, template: string): Promise<boolean>;
+  getOutboxEmail(id: number): Promise<EmailOutbox | undefined>;
+  // Newest first, optionally only those with one status
+  getOutboxEmails(status?: string, limit?: number): Promise<EmailOutbox[]>;
+  // Undefined when an email with the same dedupe key was queued before
+  createOutboxEmail(email: InsertEmailOutbox): Promise<EmailOutbox | undefined>;
+  updateOutboxEmail(id: number, data: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined>;
+  // Marks up to `limit` pending emails due by `now` as sending, along with any
+  // left sending since before `staleBefore`, and returns them
+  claimOutboxEmails(now: Date, limit: number, staleBefore: Date): Promise<EmailOutbox[]>;
+  // Marks one pending email as sending; undefined when it isn't pending
+  claimOutboxEmail(id: number): Promise<EmailOutbox | undefined>;
+  deleteSentOutboxEmailsBefore(cutoff: Date): Promise<number>;
+  getEmailSettings(): Promise<EmailSettings | undefined>;
+  saveEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings>;
   
   // Platform statistics
   getPlatformStats(): Promise<{
@@ -169,6 +412,7 @@ export interface IStorage {
   // Invoice operations
   getInvoice(id: number): Promise<Invoice | undefined>;
   getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined>;
+  getInvoiceByGatewayId(gatewayInvoiceId: string): Promise<Invoice | undefined>;
   getInvoicesByVendorId(vendorId: number): Promise<Invoice[]>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: number, data: Partial<InsertInvoice>): Promise<Invoice | undefined>;
@@ -176,6 +420,7 @@ export interface IStorage {
 
   // Transaction operations
   getTransaction(id: number): Promise<Transaction | undefined>;
+  getTransactionByGatewayId(gatewayTransactionId: string): Promise<Transaction | undefined>;
   getTransactionsByVendorId(vendorId: number): Promise<Transaction[]>;
   getTransactionsByOrderId(orderId: number): Promise<Transaction[]>;
   getTransactionsByInvoiceId(invoiceId: number): Promise<Transaction[]>;
@@ -183,6 +428,20 @@ export interface IStorage {
   updateTransaction(id: number, data: Partial<InsertTransaction>): Promise<Transaction | undefined>;
   processRefund(transactionId: number, amount: string, reason: string): Promise<Transaction | undefined>;
 
+  // Webhook event operations
+  // Records an event, or re-opens one whose processing failed or was left
+  // processing since before `staleBefore`; undefined when it was already handled
+  claimWebhookEvent(event: InsertWebhookEvent, staleBefore: Date): Promise<WebhookEvent | undefined>;
+  updateWebhookEvent(id: number, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined>;
+
+  // Tax document operations
+  // Takes the next number in a run of documents, starting from 1
+  nextDocumentNumber(scope: string, financialYear: string): Promise<number>;
+  getTaxDocumentByOrderId(orderId: number): Promise<TaxDocument | undefined>;
+  getTaxDocumentByInvoiceId(invoiceId: number): Promise<TaxDocument | undefined>;
+  createTaxDocument(document: InsertTaxDocument): Promise<TaxDocument>;
+  updateTaxDocument(id: number, data: Partial<InsertTaxDocument>): Promise<TaxDocument | undefined>;
+
   // Payout operations
   getPayout(id: number): Promise<Payout | undefined>;
   getPayoutsByVendorId(vendorId: number): Promise<Payout[]>;
@@ -201,9 +460,56 @@ export interface IStorage {
   // Payment provider settings operations
   getPaymentProviderSettings(id: number): Promise<PaymentProviderSettings | undefined>;
   getPaymentProviderSettingsByVendorId(vendorId: number, provider: string): Promise<PaymentProviderSettings | undefined>;
+  getAllPaymentProviderSettings(): Promise<PaymentProviderSettings[]>;
   createPaymentProviderSettings(settings: InsertPaymentProviderSettings): Promise<PaymentProviderSettings>;
   updatePaymentProviderSettings(id: number, data: Partial<InsertPaymentProviderSettings>): Promise<PaymentProviderSettings | undefined>;
   togglePaymentProviderActive(id: number, isActive: boolean): Promise<PaymentProviderSettings | undefined>;
+
+  // Tenant-scoped lookups: a record only comes back when it belongs to the vendor,
+  // so another tenant's ids look exactly like ids that don't exist
+  getVendorDomain(vendorId: number, id: number): Promise<Domain | undefined>;
+  getVendorProductCategory(vendorId: number, id: number): Promise<ProductCategory | undefined>;
+  getVendorProduct(vendorId: number, id: number): Promise<Product | undefined>;
+  getVendorProductVariant(vendorId: number, id: number): Promise<ProductVariant | undefined>;
+  getVendorCustomer(vendorId: number, id: number): Promise<Customer | undefined>;
+  getVendorOrder(vendorId: number, id: number): Promise<Order | undefined>;
+}
+
+// An order item cut down to `quantity` of its units, its amounts in proportion
+function keepUnits(item: OrderItem, quantity: number): OrderItem {
+  if (quantity === item.quantity) return item;
+  const share = (amount: string | null) => new Decimal(amount ?? 0).times(quantity).div(item.quantity).toFixed(2);
+  return {
+    ...item,
+    quantity,
+    total: share(item.total),
+    taxAmount: share(item.taxAmount),
+    cgst: share(item.cgst),
+    sgst: share(item.sgst),
+    igst: share(item.igst)
+  };
+}
+
+// The domain fields to save after an ownership check
+function getVerificationUpdate(domain: Domain, result: DomainVerificationResult): Partial<Domain> {
+  const checked = { lastCheckedAt: new Date(), verificationError: result.reason };
+  if (result.status === "verified") {
+    return {
+      ...checked,
+      verificationStatus: "verified",
+      status: "active",
+      verifiedAt: domain.verifiedAt ?? new Date()
+    };
+  }
+  if (result.status === "failed") {
+    return {
+      ...checked,
+      verificationStatus: "failed",
+      // Stop serving the store on a domain that no longer points at us
+      status: domain.status === "active" ? "error" : domain.status
+    };
+  }
+  return checked;
 }
 
 export class MemStorage implements IStorage {
@@ -213,14 +519,33 @@ export class MemStorage implements IStorage {
   private subscriptionPlans: Map<number, SubscriptionPlan>;
   private vendors: Map<number, Vendor>;
   private domains: Map<number, Domain>;
+  private domainCertificates: Map<number, DomainCertificate>;
+  private acmeAccounts: Map<number, AcmeAccount>;
+  private acmeChallenges: Map<string, AcmeChallenge>;
   private productCategories: Map<number, ProductCategory>;
   private products: Map<number, Product>;
   private productVariants: Map<number, ProductVariant>;
+  private productOptions: Map<number, ProductOption>;
+  private productOptionValues: Map<number, ProductOptionValue>;
+  private productImportJobs: Map<number, ProductImportJob>;
+  private imageAssets: Map<number, ImageAsset>;
+  private uploadedFiles: Map<number, UploadedFile>;
+  private webhookEvents: Map<number, WebhookEvent>;
+  private documentSequences: Map<string, number>;
+  private taxDocuments: Map<number, TaxDocument>;
   private customers: Map<number, Customer>;
   private customerAddresses: Map<number, CustomerAddress>;
   private orders: Map<number, Order>;
   private orderItems: Map<number, OrderItem>;
   private analytics: Map<number, Analytics>;
+  private storefrontEvents: (InsertStorefrontEvent & { id: number })[] = [];
+  private reportJobs: Map<number, ReportJob> = new Map();
+  private reportSchedules: Map<number, ReportSchedule> = new Map();
+  private scheduledJobs: Map<string, ScheduledJob> = new Map();
+  private jobRuns: Map<number, JobRun> = new Map();
+  private emailTemplates: Map<number, EmailTemplate> = new Map();
+  private emailOutbox: Map<number, EmailOutbox> = new Map();
+  private emailSettings: EmailSettings | undefined;
   private paymentMethods: Map<number, PaymentMethod>;
   private platformSubscriptions: Map<number, PlatformSubscription>;
   private invoices: Map<number, Invoice>;
@@ -229,20 +554,45 @@ export class MemStorage implements IStorage {
   private customerPaymentMethods: Map<number, CustomerPaymentMethod>;
   private paymentProviderSettings: Map<number, PaymentProviderSettings>;
   private carts: Map<number, any>; // User ID -> Cart
+  private promotions: Map<number, Promotion>;
+  private promotionRedemptions: Map<number, PromotionRedemption>;
+  private shippingZones: Map<number, ShippingZone>;
+  private shippingRates: Map<number, ShippingRate>;
+  private orderEvents: Map<number, OrderEvent>;
+  private fulfillments: Map<number, Fulfillment>;
+  private fulfillmentItems: Map<number, FulfillmentItem>;
+  private returnRequests: Map<number, ReturnRequest>;
+  private returnItems: Map<number, ReturnItem>;
 
   private userId: number = 1;
   private otpId: number = 1;
   private subscriptionPlanId: number = 1;
   private vendorId: number = 1;
   private domainId: number = 1;
+  private domainCertificateId: number = 1;
+  private acmeAccountId: number = 1;
+  private acmeChallengeId: number = 1;
   private productCategoryId: number = 1;
   private productId: number = 1;
   private productVariantId: number = 1;
+  private productOptionId: number = 1;
+  private productOptionValueId: number = 1;
+  private productImportJobId: number = 1;
+  private imageAssetId: number = 1;
+  private uploadedFileId: number = 1;
+  private webhookEventId: number = 1;
+  private taxDocumentId: number = 1;
   private customerId: number = 1;
   private customerAddressId: number = 1;
   private orderId: number = 1;
   private orderItemId: number = 1;
   private analyticsId: number = 1;
+  private reportJobId: number = 1;
+  private reportScheduleId: number = 1;
+  private scheduledJobId: number = 1;
+  private jobRunId: number = 1;
+  private emailTemplateId: number = 1;
+  private emailOutboxId: number = 1;
   private paymentMethodId: number = 1;
   private platformSubscriptionId: number = 1;
   private invoiceId: number = 1;
@@ -250,6 +600,15 @@ export class MemStorage implements IStorage {
   private payoutId: number = 1;
   private customerPaymentMethodId: number = 1;
   private paymentProviderSettingsId: number = 1;
+  private promotionId: number = 1;
+  private promotionRedemptionId: number = 1;
+  private shippingZoneId: number = 1;
+  private shippingRateId: number = 1;
+  private orderEventId: number = 1;
+  private fulfillmentId: number = 1;
+  private fulfillmentItemId: number = 1;
+  private returnRequestId: number = 1;
+  private returnItemId: number = 1;
 
   constructor() {
     // Initialize in-memory session store
@@ -263,9 +622,20 @@ export class MemStorage implements IStorage {
     this.subscriptionPlans = new Map();
     this.vendors = new Map();
     this.domains = new Map();
+    this.domainCertificates = new Map();
+    this.acmeAccounts = new Map();
+    this.acmeChallenges = new Map();
     this.productCategories = new Map();
     this.products = new Map();
     this.productVariants = new Map();
+    this.productOptions = new Map();
+    this.productOptionValues = new Map();
+    this.productImportJobs = new Map();
+    this.imageAssets = new Map();
+    this.uploadedFiles = new Map();
+    this.webhookEvents = new Map();
+    this.documentSequences = new Map();
+    this.taxDocuments = new Map();
     this.customers = new Map();
     this.customerAddresses = new Map();
     this.orders = new Map();
@@ -279,6 +649,15 @@ export class MemStorage implements IStorage {
     this.customerPaymentMethods = new Map();
     this.paymentProviderSettings = new Map();
     this.carts = new Map();
+    this.promotions = new Map();
+    this.promotionRedemptions = new Map();
+    this.shippingZones = new Map();
+    this.shippingRates = new Map();
+    this.orderEvents = new Map();
+    this.fulfillments = new Map();
+    this.fulfillmentItems = new Map();
+    this.returnRequests = new Map();
+    this.returnItems = new Map();
 
     // Initialize with default subscription plans
     this.initializeDefaultData();
@@ -425,6 +804,12 @@ export class MemStorage implements IStorage {
     return this.subscriptionPlans.get(id);
   }
 
+  async getSubscriptionPlanByStripePriceId(priceId: string): Promise<SubscriptionPlan | undefined> {
+    return Array.from(this.subscriptionPlans.values()).find(
+      plan => plan.stripePriceIdMonthly === priceId || plan.stripePriceIdYearly === priceId
+    );
+  }
+
   async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
     return Array.from(this.subscriptionPlans.values());
   }
@@ -505,6 +890,24 @@ export class MemStorage implements IStorage {
     return undefined;
   }
 
+  async getVendorSubscriptionByStripeId(stripeSubscriptionId: string): Promise<SubscriptionInfo | undefined> {
+    const subscription = Array.from(this.platformSubscriptions.values()).find(
+      subscription => subscription.stripeSubscriptionId === stripeSubscriptionId
+    );
+    if (!subscription) return undefined;
+
+    const plan = await this.getSubscriptionPlan(subscription.planId);
+    return plan ? { ...subscription, plan } : undefined;
+  }
+
+  async getVendorSubscriptionsByStatus(statuses: string[]): Promise<SubscriptionInfo[]> {
+    const vendorIds = Array.from(new Set(Array.from(this.platformSubscriptions.values()).map(subscription => subscription.vendorId)));
+    const latest = await Promise.all(vendorIds.map(vendorId => this.getVendorSubscription(vendorId)));
+    return latest.filter((subscription): subscription is SubscriptionInfo =>
+      !!subscription && statuses.includes(subscription.status)
+    );
+  }
+
   async createVendorSubscription(subscriptionData: InsertPlatformSubscription): Promise<SubscriptionInfo> {
     // Create the subscription
     const id = this.platformSubscriptionId++;
@@ -571,6 +974,37 @@ export class MemStorage implements IStorage {
     return Array.from(this.vendors.values()).find(vendor => vendor.userId === userId);
   }
 
+  // Tenant-scoped lookups
+  async getVendorDomain(vendorId: number, id: number): Promise<Domain | undefined> {
+    const domain = this.domains.get(id);
+    return domain?.vendorId === vendorId ? domain : undefined;
+  }
+
+  async getVendorProductCategory(vendorId: number, id: number): Promise<ProductCategory | undefined> {
+    const category = this.productCategories.get(id);
+    return category?.vendorId === vendorId ? category : undefined;
+  }
+
+  async getVendorProduct(vendorId: number, id: number): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    return product?.vendorId === vendorId ? product : undefined;
+  }
+
+  async getVendorProductVariant(vendorId: number, id: number): Promise<ProductVariant | undefined> {
+    const variant = this.productVariants.get(id);
+    return variant && (await this.getVendorProduct(vendorId, variant.productId)) ? variant : undefined;
+  }
+
+  async getVendorCustomer(vendorId: number, id: number): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    return customer?.vendorId === vendorId ? customer : undefined;
+  }
+
+  async getVendorOrder(vendorId: number, id: number): Promise<Order | undefined> {
+    const order = this.orders.get(id);
+    return order?.vendorId === vendorId ? order : undefined;
+  }
+
   async createVendor(vendorData: InsertVendor): Promise<Vendor> {
     const id = this.vendorId++;
     const vendor: Vendor = { 
@@ -590,6 +1024,7 @@ export class MemStorage implements IStorage {
     
     const updatedVendor = { ...vendor, ...data };
     this.vendors.set(id, updatedVendor);
+    invalidateDomainCache();
     return updatedVendor;
   }
 
@@ -640,6 +1075,7 @@ export class MemStorage implements IStorage {
     };
     
     this.domains.set(id, domain);
+    invalidateDomainCache();
     return domain;
   }
 
@@ -666,22 +1102,18 @@ export class MemStorage implements IStorage {
     }
     
     this.domains.set(id, updatedDomain);
+    invalidateDomainCache();
     return updatedDomain;
   }
 
-  async verifyDomain(id: number): Promise<Domain | undefined> {
+  async recordDomainVerification(id: number, result: DomainVerificationResult): Promise<Domain | undefined> {
     const domain = await this.getDomain(id);
     if (!domain) return undefined;
-    
-    // In a real implementation, this would check DNS records
-    // For this prototype, we'll just simulate verification
-    
-    domain.verificationStatus = "verified";
-    domain.status = "active";
-    domain.lastCheckedAt = new Date();
-    
-    this.domains.set(id, domain);
-    return domain;
+
+    const updatedDomain: Domain = { ...domain, ...getVerificationUpdate(domain, result) };
+    this.domains.set(id, updatedDomain);
+    invalidateDomainCache();
+    return updatedDomain;
   }
   
   async generateVerificationToken(id: number): Promise<Domain | undefined> {
@@ -699,25 +1131,104 @@ export class MemStorage implements IStorage {
     return domain;
   }
   
-  async checkDomainsSSL(): Promise<void> {
-    // In a real implementation, this would check SSL certificates
-    // For this prototype, we'll simulate SSL status updates for active domains
-    
-    const domains = await this.getDomains();
-    
-    for (const domain of domains) {
-      if (domain.status === "active" && domain.verificationStatus === "verified") {
-        domain.sslStatus = "valid";
-        domain.lastCheckedAt = new Date();
-        this.domains.set(domain.id, domain);
-      }
-    }
-  }
-
   async deleteDomain(id: number): Promise<boolean> {
+    Array.from(this.domainCertificates.values())
+      .filter(certificate => certificate.domainId === id)
+      .forEach(certificate => this.domainCertificates.delete(certificate.id));
+    invalidateDomainCache();
     return this.domains.delete(id);
   }
 
+  // Certificate operations
+  async getDomainCertificate(id: number): Promise<DomainCertificate | undefined> {
+    return this.domainCertificates.get(id);
+  }
+
+  async getDomainCertificates(domainId: number): Promise<DomainCertificate[]> {
+    return Array.from(this.domainCertificates.values())
+      .filter(certificate => certificate.domainId === domainId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createDomainCertificate(certificateData: InsertDomainCertificate): Promise<DomainCertificate> {
+    const id = this.domainCertificateId++;
+    const now = new Date();
+    const certificate: DomainCertificate = {
+      certificatePem: null,
+      privateKeyPem: null,
+      serialNumber: null,
+      issuer: null,
+      orderUrl: null,
+      lastError: null,
+      issuedAt: null,
+      expiresAt: null,
+      revokedAt: null,
+      expiryWarningSentAt: null,
+      ...certificateData,
+      status: certificateData.status ?? "pending",
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.domainCertificates.set(id, certificate);
+    return certificate;
+  }
+
+  async updateDomainCertificate(id: number, data: Partial<InsertDomainCertificate>): Promise<DomainCertificate | undefined> {
+    const certificate = this.domainCertificates.get(id);
+    if (!certificate) return undefined;
+
+    const updatedCertificate = { ...certificate, ...data, updatedAt: new Date() };
+    this.domainCertificates.set(id, updatedCertificate);
+    return updatedCertificate;
+  }
+
+  // ACME operations
+  async getAcmeAccount(directoryUrl: string): Promise<AcmeAccount | undefined> {
+    return Array.from(this.acmeAccounts.values()).find(account => account.directoryUrl === directoryUrl);
+  }
+
+  async createAcmeAccount(accountData: InsertAcmeAccount): Promise<AcmeAccount> {
+    const id = this.acmeAccountId++;
+    const account: AcmeAccount = {
+      email: null,
+      accountUrl: null,
+      ...accountData,
+      id,
+      createdAt: new Date()
+    };
+    this.acmeAccounts.set(id, account);
+    return account;
+  }
+
+  async updateAcmeAccount(id: number, data: Partial<InsertAcmeAccount>): Promise<AcmeAccount | undefined> {
+    const account = this.acmeAccounts.get(id);
+    if (!account) return undefined;
+
+    const updatedAccount = { ...account, ...data };
+    this.acmeAccounts.set(id, updatedAccount);
+    return updatedAccount;
+  }
+
+  async getAcmeChallenge(token: string): Promise<AcmeChallenge | undefined> {
+    return this.acmeChallenges.get(token);
+  }
+
+  async createAcmeChallenge(challengeData: InsertAcmeChallenge): Promise<AcmeChallenge> {
+    const challenge: AcmeChallenge = {
+      expiresAt: null,
+      ...challengeData,
+      id: this.acmeChallengeId++,
+      createdAt: new Date()
+    };
+    this.acmeChallenges.set(challenge.token, challenge);
+    return challenge;
+  }
+
+  async deleteAcmeChallenge(token: string): Promise<boolean> {
+    return this.acmeChallenges.delete(token);
+  }
+
   // Product category operations
   async getProductCategory(id: number): Promise<ProductCategory | undefined> {
     return this.productCategories.get(id);
@@ -830,6 +1341,379 @@ export class MemStorage implements IStorage {
     return this.productVariants.delete(id);
   }
 
+  // Product option operations
+  async getProductOptions(productId: number): Promise<ProductOptionWithValues[]> {
+    const values = Array.from(this.productOptionValues.values());
+    return Array.from(this.productOptions.values())
+      .filter(option => option.productId === productId)
+      .sort((a, b) => a.position - b.position)
+      .map(option => ({
+        ...option,
+        values: values
+          .filter(value => value.optionId === option.id)
+          .sort((a, b) => a.position - b.position),
+      }));
+  }
+
+  async saveProductOptions(productId: number, input: ProductOptionsInput): Promise<ProductOptionWithValues[]> {
+    const previous = await this.getProductOptions(productId);
+    const keptOptionIds = new Set<number>();
+    const keptValueIds = new Set<number>();
+
+    input.forEach((optionInput, position) => {
+      const existing = optionInput.id !== undefined ? previous.find(o => o.id === optionInput.id) : undefined;
+      const option: ProductOption = {
+        id: existing?.id ?? this.productOptionId++,
+        productId,
+        name: optionInput.name,
+        position,
+        createdAt: existing?.createdAt ?? new Date(),
+      };
+      this.productOptions.set(option.id, option);
+      keptOptionIds.add(option.id);
+
+      optionInput.values.forEach((valueInput, valuePosition) => {
+        const existingValue = valueInput.id !== undefined ? existing?.values.find(v => v.id === valueInput.id) : undefined;
+        const value: ProductOptionValue = {
+          id: existingValue?.id ?? this.productOptionValueId++,
+          optionId: option.id,
+          value: valueInput.value,
+          position: valuePosition,
+          swatch: valueInput.swatch ?? null,
+          imageUrl: valueInput.imageUrl ?? null,
+          createdAt: existingValue?.createdAt ?? new Date(),
+        };
+        this.productOptionValues.set(value.id, value);
+        keptValueIds.add(value.id);
+      });
+    });
+
+    for (const option of previous) {
+      if (!keptOptionIds.has(option.id)) this.productOptions.delete(option.id);
+      for (const value of option.values) {
+        if (!keptValueIds.has(value.id)) this.productOptionValues.delete(value.id);
+      }
+    }
+
+    const options = await this.getProductOptions(productId);
+    const variants = await this.getProductVariantsByProductId(productId);
+    const { updates, deletions } = reconcileVariants(previous, options, variants);
+    for (const update of updates) {
+      await this.updateProductVariant(update.id, { optionValueIds: update.optionValueIds, title: update.title });
+    }
+    for (const id of deletions) {
+      await this.deleteProductVariant(id);
+    }
+
+    return options;
+  }
+
+  // Product import job operations
+  async getProductImportJob(id: number): Promise<ProductImportJob | undefined> {
+    return this.productImportJobs.get(id);
+  }
+
+  async createProductImportJob(jobData: InsertProductImportJob): Promise<ProductImportJob> {
+    const id = this.productImportJobId++;
+    const job: ProductImportJob = {
+      userId: null,
+      fileName: null,
+      status: "pending",
+      totalProducts: 0,
+      processedProducts: 0,
+      createdCount: 0,
+      updatedCount: 0,
+      failedCount: 0,
+      errors: null,
+      startedAt: null,
+      finishedAt: null,
+      ...jobData,
+      id,
+      createdAt: new Date(),
+    };
+    this.productImportJobs.set(id, job);
+    return job;
+  }
+
+  async updateProductImportJob(id: number, data: Partial<ProductImportJob>): Promise<ProductImportJob | undefined> {
+    const job = this.productImportJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...data, id };
+    this.productImportJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  // Image asset operations
+  async getImageAssetsByUrls(urls: string[]): Promise<ImageAsset[]> {
+    return Array.from(this.imageAssets.values()).filter(asset => urls.includes(asset.url));
+  }
+
+  async createImageAsset(assetData: InsertImageAsset): Promise<ImageAsset> {
+    const id = this.imageAssetId++;
+    const asset: ImageAsset = {
+      vendorId: null,
+      userId: null,
+      dominantColor: null,
+      ...assetData,
+      renditions: assetData.renditions as ImageAsset["renditions"],
+      id,
+      createdAt: new Date(),
+    };
+    this.imageAssets.set(id, asset);
+    return asset;
+  }
+
+  // Uploaded file operations
+  async getUploadedFileByKey(key: string): Promise<UploadedFile | undefined> {
+    return Array.from(this.uploadedFiles.values()).find(file => file.key === key);
+  }
+
+  async createUploadedFile(fileData: InsertUploadedFile): Promise<UploadedFile> {
+    const id = this.uploadedFileId++;
+    const file: UploadedFile = {
+      vendorId: null,
+      userId: null,
+      mimeType: null,
+      ...fileData,
+      id,
+      createdAt: new Date(),
+    };
+    this.uploadedFiles.set(id, file);
+    return file;
+  }
+
+  async deleteUploadedFile(id: number): Promise<boolean> {
+    return this.uploadedFiles.delete(id);
+  }
+
+  async getVendorStorageBytes(vendorId: number): Promise<number> {
+    let bytes = 0;
+    for (const asset of Array.from(this.imageAssets.values())) {
+      if (asset.vendorId !== vendorId) continue;
+      bytes += asset.renditions.reduce((total, rendition) => total + rendition.size, 0);
+    }
+    for (const file of Array.from(this.uploadedFiles.values())) {
+      if (file.vendorId === vendorId) bytes += file.size;
+    }
+    return bytes;
+  }
+
+  // Webhook event operations
+  async claimWebhookEvent(eventData: InsertWebhookEvent, staleBefore: Date): Promise<WebhookEvent | undefined> {
+    const existing = Array.from(this.webhookEvents.values()).find(
+      event => event.provider === eventData.provider && event.eventId === eventData.eventId
+    );
+    if (existing) {
+      const stale = existing.status === "processing" && existing.claimedAt !== null && existing.claimedAt < staleBefore;
+      if (existing.status !== "failed" && !stale) return undefined;
+      const reopened = { ...existing, status: "processing", attempts: existing.attempts + 1, claimedAt: new Date() };
+      this.webhookEvents.set(existing.id, reopened);
+      return reopened;
+    }
+
+    const id = this.webhookEventId++;
+    const event: WebhookEvent = {
+      status: "processing",
+      attempts: 1,
+      error: null,
+      processedAt: null,
+      ...eventData,
+      id,
+      receivedAt: new Date(),
+      claimedAt: new Date(),
+    };
+    this.webhookEvents.set(id, event);
+    return event;
+  }
+
+  async updateWebhookEvent(id: number, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const event = this.webhookEvents.get(id);
+    if (!event) return undefined;
+    const updated = { ...event, ...data };
+    this.webhookEvents.set(id, updated);
+    return updated;
+  }
+
+  // Tax document operations
+  async nextDocumentNumber(scope: string, financialYear: string): Promise<number> {
+    const key = `${scope}|${financialYear}`;
+    const next = (this.documentSequences.get(key) ?? 0) + 1;
+    this.documentSequences.set(key, next);
+    return next;
+  }
+
+  async getTaxDocumentByOrderId(orderId: number): Promise<TaxDocument | undefined> {
+    return Array.from(this.taxDocuments.values()).find(document => document.orderId === orderId);
+  }
+
+  async getTaxDocumentByInvoiceId(invoiceId: number): Promise<TaxDocument | undefined> {
+    return Array.from(this.taxDocuments.values()).find(document => document.invoiceId === invoiceId);
+  }
+
+  async createTaxDocument(documentData: InsertTaxDocument): Promise<TaxDocument> {
+    const id = this.taxDocumentId++;
+    const document: TaxDocument = {
+      orderId: null,
+      invoiceId: null,
+      showsPayment: false,
+      ...documentData,
+      id,
+      createdAt: new Date(),
+    };
+    this.taxDocuments.set(id, document);
+    return document;
+  }
+
+  async updateTaxDocument(id: number, data: Partial<InsertTaxDocument>): Promise<TaxDocument | undefined> {
+    const document = this.taxDocuments.get(id);
+    if (!document) return undefined;
+    const updated = { ...document, ...data };
+    this.taxDocuments.set(id, updated);
+    return updated;
+  }
+
+  // Promotion operations
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    return this.promotions.get(id);
+  }
+
+  async getPromotionsByVendorId(vendorId: number): Promise<Promotion[]> {
+    return Array.from(this.promotions.values()).filter(promotion => promotion.vendorId === vendorId);
+  }
+
+  async getPromotionByCode(vendorId: number, code: string): Promise<Promotion | undefined> {
+    return Array.from(this.promotions.values()).find(
+      promotion => promotion.vendorId === vendorId && promotion.code === code.toUpperCase()
+    );
+  }
+
+  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
+    const id = this.promotionId++;
+    const promotion: Promotion = {
+      value: "0",
+      minSubtotal: null,
+      buyQuantity: null,
+      getQuantity: null,
+      productIds: null,
+      categoryIds: null,
+      usageLimit: null,
+      usageLimitPerCustomer: null,
+      startsAt: null,
+      endsAt: null,
+      isActive: true,
+      ...promotionData,
+      id,
+      usageCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.promotions.set(id, promotion);
+    return promotion;
+  }
+
+  async updatePromotion(id: number, data: Partial<InsertPromotion>): Promise<Promotion | undefined> {
+    const promotion = this.promotions.get(id);
+    if (!promotion) return undefined;
+
+    const updatedPromotion = { ...promotion, ...data, updatedAt: new Date() };
+    this.promotions.set(id, updatedPromotion);
+    return updatedPromotion;
+  }
+
+  async deletePromotion(id: number): Promise<boolean> {
+    return this.promotions.delete(id);
+  }
+
+  async countPromotionRedemptions(promotionId: number, customerId: number): Promise<number> {
+    return Array.from(this.promotionRedemptions.values())
+      .filter(redemption => redemption.promotionId === promotionId && redemption.customerId === customerId)
+      .length;
+  }
+
+  // Shipping operations
+  async getShippingZones(vendorId: number): Promise<ShippingZone[]> {
+    return Array.from(this.shippingZones.values())
+      .filter(zone => zone.vendorId === vendorId)
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.id - b.id);
+  }
+
+  async getShippingZone(id: number): Promise<ShippingZone | undefined> {
+    return this.shippingZones.get(id);
+  }
+
+  async createShippingZone(zoneData: InsertShippingZone): Promise<ShippingZone> {
+    const id = this.shippingZoneId++;
+    const zone: ShippingZone = {
+      countries: null,
+      states: null,
+      postalCodes: null,
+      position: 0,
+      isActive: true,
+      ...zoneData,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.shippingZones.set(id, zone);
+    return zone;
+  }
+
+  async updateShippingZone(id: number, data: Partial<InsertShippingZone>): Promise<ShippingZone | undefined> {
+    const zone = this.shippingZones.get(id);
+    if (!zone) return undefined;
+
+    const updatedZone = { ...zone, ...data, updatedAt: new Date() };
+    this.shippingZones.set(id, updatedZone);
+    return updatedZone;
+  }
+
+  async deleteShippingZone(id: number): Promise<boolean> {
+    for (const rate of Array.from(this.shippingRates.values())) {
+      if (rate.zoneId === id) this.shippingRates.delete(rate.id);
+    }
+    return this.shippingZones.delete(id);
+  }
+
+  async getShippingRates(zoneId: number): Promise<ShippingRate[]> {
+    return Array.from(this.shippingRates.values()).filter(rate => rate.zoneId === zoneId);
+  }
+
+  async getShippingRate(id: number): Promise<ShippingRate | undefined> {
+    return this.shippingRates.get(id);
+  }
+
+  async createShippingRate(rateData: InsertShippingRate): Promise<ShippingRate> {
+    const id = this.shippingRateId++;
+    const rate: ShippingRate = {
+      amount: "0",
+      freeAbove: null,
+      tiers: null,
+      minDeliveryDays: null,
+      maxDeliveryDays: null,
+      isActive: true,
+      ...rateData,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.shippingRates.set(id, rate);
+    return rate;
+  }
+
+  async updateShippingRate(id: number, data: Partial<InsertShippingRate>): Promise<ShippingRate | undefined> {
+    const rate = this.shippingRates.get(id);
+    if (!rate) return undefined;
+
+    const updatedRate = { ...rate, ...data, updatedAt: new Date() };
+    this.shippingRates.set(id, updatedRate);
+    return updatedRate;
+  }
+
+  async deleteShippingRate(id: number): Promise<boolean> {
+    return this.shippingRates.delete(id);
+  }
+
   // Cart operations
   async getCartByUserId(userId: number): Promise<any> {
     try {
@@ -984,8 +1868,10 @@ export class MemStorage implements IStorage {
         throw new Error("Product not found");
       }
 
-      // Check for existing item
-      const existingItem = cart.items.find((i: any) => i.productId === item.productId);
+      // Check for existing item; the same product in a different variant is a separate line
+      const variant = item.variantId ? await this.getProductVariant(item.variantId) : undefined;
+      const variantId = variant?.id ?? null;
+      const existingItem = cart.items.find((i: any) => i.productId === item.productId && (i.variantId ?? null) === variantId);
       
       if (existingItem) {
         // Update quantity if item exists
@@ -1010,10 +1896,11 @@ export class MemStorage implements IStorage {
               cartId: cart.id,
               productId: product.id,
               name: product.name,
-              price: product.sellingPrice.toString(),
+              price: (variant?.sellingPrice ?? product.sellingPrice).toString(),
               quantity: item.quantity,
-              imageUrl: product.featuredImageUrl || null,
-              variant: item.variant || null,
+              imageUrl: variant?.imageUrl || product.featuredImageUrl || null,
+              variantId,
+              variant: variant?.title ?? null,
             })
             .returning();
             
@@ -1026,10 +1913,11 @@ export class MemStorage implements IStorage {
             cartId: cart.id,
             productId: product.id,
             name: product.name,
-            price: product.sellingPrice.toString(),
+            price: (variant?.sellingPrice ?? product.sellingPrice).toString(),
             quantity: item.quantity,
-            imageUrl: product.featuredImageUrl || null,
-            variant: item.variant || null,
+            imageUrl: variant?.imageUrl || product.featuredImageUrl || null,
+            variantId,
+            variant: variant?.title ?? null,
             createdAt: new Date()
           };
           
@@ -1175,7 +2063,10 @@ export class MemStorage implements IStorage {
           .set({
             subtotal: "0.00",
             tax: "0.00",
+            discount: "0.00",
             total: "0.00",
+            promotionCode: null,
+            shippingRateId: null,
           })
           .where(eq(carts.id, cart.id));
       } catch (error) {
@@ -1188,7 +2079,9 @@ export class MemStorage implements IStorage {
         items: [],
         subtotal: "0.00",
         tax: "0.00",
+        discount: "0.00",
         total: "0.00",
+        promotionCode: null,
       };
       
       // Sync with in-memory storage
@@ -1203,38 +2096,88 @@ export class MemStorage implements IStorage {
     }
   }
   
-  // Helper method to recalculate cart totals
+  async setCartPromotionCode(userId: number | null, sessionId: string | null, code: string | null): Promise<any> {
+    const cart = userId
+      ? await this.getCartByUserId(userId)
+      : await this.getCartBySessionId(sessionId!);
+    if (!cart.id) {
+      throw new Error("Cart is empty");
+    }
+
+    cart.promotionCode = code ? code.toUpperCase() : null;
+    try {
+      await db.update(carts).set({ promotionCode: cart.promotionCode }).where(eq(carts.id, cart.id));
+    } catch (error) {
+      console.error("Error saving cart promotion code:", error);
+    }
+
+    await this.recalculateCartTotals(cart);
+    if (userId) {
+      this.carts.set(userId, cart);
+    }
+    return cart;
+  }
+
+  async setCartShippingRate(userId: number | null, sessionId: string | null, rateId: number | null): Promise<any> {
+    const cart = userId
+      ? await this.getCartByUserId(userId)
+      : await this.getCartBySessionId(sessionId!);
+    if (!cart.id) {
+      throw new Error("Cart is empty");
+    }
+
+    cart.shippingRateId = rateId;
+    try {
+      await db.update(carts).set({ shippingRateId: rateId }).where(eq(carts.id, cart.id));
+    } catch (error) {
+      console.error("Error saving cart shipping rate:", error);
+    }
+
+    if (userId) {
+      this.carts.set(userId, cart);
+    }
+    return cart;
+  }
+
+  async deleteAbandonedCarts(idleSince: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, cart] of Array.from(this.carts.entries())) {
+      if (!cart.userId && cart.updatedAt && cart.updatedAt < idleSince) {
+        this.carts.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Helper method to recalculate cart totals from catalog prices
   private async recalculateCartTotals(cart: any): Promise<void> {
     try {
       if (!cart || !cart.id || cart.id === 0) return;
       
-      // Calculate subtotal
-      let subtotal = new Decimal(0);
-      for (const item of cart.items) {
-        const price = new Decimal(item.price || 0);
-        const quantity = new Decimal(item.quantity || 0);
-        subtotal = subtotal.plus(price.times(quantity));
-      }
-      
-      // Calculate tax (8.25% example rate)
-      const tax = subtotal.times(0.0825);
+      const pricing = await priceCart(this, cart);
       
-      // Calculate total
-      const total = subtotal.plus(tax);
+      // Keep line prices in step with the catalog
+      for (const line of pricing.lines) {
+        const item = cart.items.find((i: any) => i.id === line.id);
+        if (item) item.price = line.unitPrice;
+      }
       
       // Update cart object
-      cart.subtotal = subtotal.toFixed(2);
-      cart.tax = tax.toFixed(2);
-      cart.total = total.toFixed(2);
+      cart.subtotal = pricing.subtotal;
+      cart.tax = pricing.tax;
+      cart.discount = pricing.discount;
+      cart.total = pricing.total;
       
       // Update in database
       try {
         await db
           .update(carts)
           .set({
-            subtotal: subtotal.toFixed(2),
-            tax: tax.toFixed(2),
-            total: total.toFixed(2),
+            subtotal: pricing.subtotal,
+            tax: pricing.tax,
+            discount: pricing.discount,
+            total: pricing.total,
           })
           .where(eq(carts.id, cart.id));
       } catch (error) {
@@ -1349,613 +2292,1093 @@ export class MemStorage implements IStorage {
     return updatedOrder;
   }
 
-  // Order item operations
-  async getOrderItem(id: number): Promise<OrderItem | undefined> {
-    return this.orderItems.get(id);
-  }
+  async placeOrder(
+    orderData: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    redemption?: { promotionId: number; customerId: number | null }
+  ): Promise<Order & { items: OrderItem[] }> {
+    const requests = groupStockRequests(items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId ?? null,
+      name: item.name,
+      quantity: item.quantity
+    })));
+
+    // Check every line before touching any stock so the order is all-or-nothing
+    const shortages: StockShortage[] = [];
+    for (const request of requests) {
+      const record = request.variantId
+        ? this.productVariants.get(request.variantId)
+        : this.products.get(request.productId);
+      const available = record?.inventoryQuantity ?? 0;
+      if (available < request.quantity) {
+        shortages.push({ ...request, requested: request.quantity, available });
+      }
+    }
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
 
-  async getOrderItems(orderId: number): Promise<OrderItem[]> {
-    return Array.from(this.orderItems.values()).filter(item => item.orderId === orderId);
-  }
+    const promotion = redemption ? this.promotions.get(redemption.promotionId) : undefined;
+    if (redemption) {
+      if (!promotion) {
+        throw new PromotionError("PROMOTION_NOT_FOUND", "This code doesn't exist");
+      }
+      assertPromotionUsable(promotion, {
+        customerId: redemption.customerId,
+        customerRedemptions: redemption.customerId
+          ? await this.countPromotionRedemptions(promotion.id, redemption.customerId)
+          : undefined
+      });
+    }
 
-  async createOrderItem(itemData: InsertOrderItem): Promise<OrderItem> {
-    const id = this.orderItemId++;
-    const item: OrderItem = { ...itemData, id, createdAt: new Date() };
-    this.orderItems.set(id, item);
-    return item;
-  }
+    for (const request of requests) {
+      if (request.variantId) {
+        const variant = this.productVariants.get(request.variantId)!;
+        this.productVariants.set(variant.id, { ...variant, inventoryQuantity: (variant.inventoryQuantity ?? 0) - request.quantity });
+      } else {
+        const product = this.products.get(request.productId)!;
+        this.products.set(product.id, { ...product, inventoryQuantity: (product.inventoryQuantity ?? 0) - request.quantity });
+      }
+    }
 
-  async updateOrderItem(id: number, data: Partial<InsertOrderItem>): Promise<OrderItem | undefined> {
-    const item = await this.getOrderItem(id);
-    if (!item) return undefined;
-    
-    const updatedItem = { ...item, ...data };
-    this.orderItems.set(id, updatedItem);
-    return updatedItem;
-  }
+    const order = await this.createOrder(orderData);
+    const createdItems: OrderItem[] = [];
+    for (const item of items) {
+      createdItems.push(await this.createOrderItem({ ...item, orderId: order.id }));
+    }
 
-  async deleteOrderItem(id: number): Promise<boolean> {
-    return this.orderItems.delete(id);
-  }
+    await this.createOrderEvent({ orderId: order.id, type: "placed", toStatus: order.status });
+
+    if (promotion && redemption) {
+      this.promotions.set(promotion.id, { ...promotion, usageCount: (promotion.usageCount ?? 0) + 1 });
+      const redemptionId = this.promotionRedemptionId++;
+      this.promotionRedemptions.set(redemptionId, {
+        id: redemptionId,
+        promotionId: promotion.id,
+        orderId: order.id,
+        customerId: redemption.customerId,
+        discount: orderData.discount ?? "0",
+        createdAt: new Date()
+      });
+    }
 
-  // Analytics operations
-  async getVendorAnalytics(vendorId: number): Promise<Analytics[]> {
-    return Array.from(this.analytics.values())
-      .filter(analytics => analytics.vendorId === vendorId);
+    return { ...order, items: createdItems };
   }
 
-  async createAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
-    const id = this.analyticsId++;
-    const entry: Analytics = { ...data, id, createdAt: new Date() };
-    this.analytics.set(id, entry);
-    return entry;
-  }
-  
-  async getTopProducts(vendorId: number, limit: number = 5): Promise<{ name: string, sales: number, revenue: string }[]> {
-    // Get all products for this vendor
-    const vendorProducts = Array.from(this.products.values())
-      .filter(product => product.vendorId === vendorId);
-    
-    // Get all orders for this vendor
-    const vendorOrders = Array.from(this.orders.values())
-      .filter(order => order.vendorId === vendorId && order.status === "completed");
-    
-    // Get all order items for these orders
-    const orderItemsList = Array.from(this.orderItems.values())
-      .filter(item => {
-        const order = this.orders.get(item.orderId);
-        return order && order.vendorId === vendorId && order.status === "completed";
-      });
-    
-    // Aggregate sales data by product
-    const productSales: Record<number, { name: string, sales: number, revenue: number }> = {};
-    
-    // Initialize sales data for all products
-    vendorProducts.forEach(product => {
-      productSales[product.id] = {
-        name: product.name,
-        sales: 0,
-        revenue: 0
-      };
-    });
-    
-    // Add up sales for each product
-    orderItemsList.forEach(item => {
-      const product = this.products.get(item.productId);
-      if (product && product.vendorId === vendorId) {
-        productSales[product.id].sales += item.quantity;
-        productSales[product.id].revenue += parseFloat(item.price) * item.quantity;
+  async transitionOrderStatus(id: number, status: string, options: OrderTransitionOptions = {}): Promise<Order | undefined> {
+    const order = await this.getOrder(id);
+    if (!order) return undefined;
+
+    const to = assertTransition(order.status, status);
+    if (to === "canceled") {
+      await this.restockOrder(id);
+    }
+    if (to === "shipped") {
+      const items = await this.getOrderItems(id);
+      const fulfilled = this.getFulfilledLines(id);
+      if (!isFullyFulfilled(items, fulfilled)) {
+        await this.insertFulfillment(id, {}, resolveFulfillmentLines(order.status, items, fulfilled), options.actorId);
       }
-    });
-    
-    // Convert to array, sort by sales and limit results
-    return Object.values(productSales)
-      .sort((a, b) => b.sales - a.sales)
-      .slice(0, limit)
-      .map(product => ({
-        name: product.name,
-        sales: product.sales,
-        revenue: `$${product.revenue.toFixed(2)}`
-      }));
-  }
-  
-  async getSalesByHour(vendorId: number): Promise<{ hour: string, sales: number }[]> {
-    // Get all orders for this vendor
-    const vendorOrders = Array.from(this.orders.values())
-      .filter(order => order.vendorId === vendorId && order.status === "completed");
-    
-    // Group by hour
-    const hourMap: Record<number, number> = {};
-    
-    // Initialize all hours to 0
-    for (let i = 0; i < 24; i++) {
-      hourMap[i] = 0;
     }
-    
-    // Count orders by hour
-    vendorOrders.forEach(order => {
-      if (order.createdAt) {
-        const hour = new Date(order.createdAt).getHours();
-        hourMap[hour]++;
+    if (to === "delivered") {
+      for (const fulfillment of Array.from(this.fulfillments.values())) {
+        if (fulfillment.orderId === id && fulfillment.status !== "delivered") {
+          this.fulfillments.set(fulfillment.id, { ...fulfillment, status: "delivered", deliveredAt: new Date(), updatedAt: new Date() });
+        }
       }
+    }
+
+    const updatedOrder = await this.updateOrder(id, { ...options.data, status: to });
+    await this.createOrderEvent({
+      orderId: id,
+      type: "status_changed",
+      fromStatus: order.status,
+      toStatus: to,
+      message: options.note ?? null,
+      actorId: options.actorId ?? null
     });
-    
-    // Convert to the expected format
-    return Object.entries(hourMap)
-      .map(([hour, count]) => {
-        const hourNum = parseInt(hour);
-        let hourLabel: string;
-        
-        if (hourNum === 0) {
-          hourLabel = "12am";
-        } else if (hourNum < 12) {
-          hourLabel = `${hourNum}am`;
-        } else if (hourNum === 12) {
-          hourLabel = "12pm";
-        } else {
-          hourLabel = `${hourNum - 12}pm`;
-        }
-        
-        return {
-          hour: hourLabel,
-          sales: count
-        };
-      })
-      // Reorder for better visualization - 12am, 3am, 6am, etc.
-      .filter((_, index) => index % 3 === 0);
+    return updatedOrder;
   }
-  
-  async getSalesByCategory(vendorId: number): Promise<{ name: string, value: number, amount: string }[]> {
-    // Get all categories
-    const categories = Array.from(this.productCategories.values());
-    
-    // Get all products for this vendor
-    const vendorProducts = Array.from(this.products.values())
-      .filter(product => product.vendorId === vendorId);
-    
-    // Get all order items for these products
-    const orderItemsList = Array.from(this.orderItems.values());
-    
-    // Aggregate sales by category
-    const categorySales: Record<number, { name: string, value: number, amount: number }> = {};
-    let totalSales = 0;
-    
-    // Process each order item
-    orderItemsList.forEach(item => {
-      const product = this.products.get(item.productId);
-      const order = this.orders.get(item.orderId);
-      
-      if (product && order && product.vendorId === vendorId && 
-          product.categoryId && order.status === "completed") {
-        
-        const categoryId = product.categoryId;
-        const category = categories.find(c => c.id === categoryId);
-        
-        if (category) {
-          if (!categorySales[categoryId]) {
-            categorySales[categoryId] = {
-              name: category.name,
-              value: 0,
-              amount: 0
-            };
-          }
-          
-          const amount = parseFloat(item.total);
-          categorySales[categoryId].amount += amount;
-          totalSales += amount;
+
+  // Puts a canceled order's items back into stock and gives back its discount code use
+  private async restockOrder(id: number): Promise<void> {
+    const items = await this.getOrderItems(id);
+    for (const item of items) {
+      if (item.variantId) {
+        const variant = this.productVariants.get(item.variantId);
+        if (variant) {
+          this.productVariants.set(variant.id, { ...variant, inventoryQuantity: (variant.inventoryQuantity ?? 0) + item.quantity });
+        }
+      } else {
+        const product = this.products.get(item.productId);
+        if (product) {
+          this.products.set(product.id, { ...product, inventoryQuantity: (product.inventoryQuantity ?? 0) + item.quantity });
         }
       }
-    });
-    
-    // Calculate percentages and format amounts
-    return Object.values(categorySales)
-      .map(category => ({
-        name: category.name,
-        value: Math.round((category.amount / (totalSales || 1)) * 100),
-        amount: `$${category.amount.toFixed(2)}`
-      }))
-      .sort((a, b) => b.value - a.value);
+    }
+
+    // Give back any discount code use so the customer can use it again
+    for (const redemption of Array.from(this.promotionRedemptions.values())) {
+      if (redemption.orderId !== id) continue;
+      const promotion = this.promotions.get(redemption.promotionId);
+      if (promotion) {
+        this.promotions.set(promotion.id, { ...promotion, usageCount: Math.max((promotion.usageCount ?? 0) - 1, 0) });
+      }
+      this.promotionRedemptions.delete(redemption.id);
+    }
   }
 
-  // Payment methods operations
-  async getPaymentMethod(id: number): Promise<PaymentMethod | undefined> {
-    const [method] = await db
-      .select()
-      .from(paymentMethods)
-      .where(eq(paymentMethods.id, id));
-    return method;
+  // Order history and fulfillment operations
+  async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    return Array.from(this.orderEvents.values())
+      .filter(event => event.orderId === orderId)
+      .sort((a, b) => a.id - b.id);
   }
 
-  async getPaymentMethodsByVendorId(vendorId: number): Promise<PaymentMethod[]> {
-    return db
-      .select()
-      .from(paymentMethods)
-      .where(eq(paymentMethods.vendorId, vendorId));
+  async createOrderEvent(eventData: InsertOrderEvent): Promise<OrderEvent> {
+    const id = this.orderEventId++;
+    const event: OrderEvent = {
+      fromStatus: null,
+      toStatus: null,
+      message: null,
+      actorId: null,
+      fulfillmentId: null,
+      returnId: null,
+      ...eventData,
+      id,
+      createdAt: new Date()
+    };
+    this.orderEvents.set(id, event);
+    return event;
   }
 
-  async createPaymentMethod(method: InsertPaymentMethod): Promise<PaymentMethod> {
-    // If this is marked as default, unmark any other default methods for this vendor
-    if (method.isDefault) {
-      await db
-        .update(paymentMethods)
-        .set({ isDefault: false, updatedAt: new Date() })
-        .where(
-          and(
-            eq(paymentMethods.vendorId, method.vendorId),
-            eq(paymentMethods.isDefault, true)
-          )
-        );
-    }
+  async getFulfillments(orderId: number): Promise<FulfillmentWithItems[]> {
+    return Array.from(this.fulfillments.values())
+      .filter(fulfillment => fulfillment.orderId === orderId)
+      .sort((a, b) => a.id - b.id)
+      .map(fulfillment => ({
+        ...fulfillment,
+        items: Array.from(this.fulfillmentItems.values()).filter(item => item.fulfillmentId === fulfillment.id)
+      }));
+  }
 
-    const [createdMethod] = await db
-      .insert(paymentMethods)
-      .values({
-        ...method,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
-    return createdMethod;
+  async getFulfillment(id: number): Promise<Fulfillment | undefined> {
+    return this.fulfillments.get(id);
   }
 
-  async updatePaymentMethod(id: number, data: Partial<InsertPaymentMethod>): Promise<PaymentMethod | undefined> {
-    // If this is being set as default, unmark any other default methods for this vendor
-    if (data.isDefault) {
-      const [currentMethod] = await db
-        .select()
-        .from(paymentMethods)
-        .where(eq(paymentMethods.id, id));
+  async createFulfillment(
+    orderId: number,
+    data: Omit<InsertFulfillment, "orderId">,
+    lines?: FulfillmentLine[],
+    actorId: number | null = null
+  ): Promise<FulfillmentWithItems | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order) return undefined;
 
-      if (currentMethod && !currentMethod.isDefault) {
-        await db
-          .update(paymentMethods)
-          .set({ isDefault: false, updatedAt: new Date() })
-          .where(
-            and(
-              eq(paymentMethods.vendorId, currentMethod.vendorId),
-              eq(paymentMethods.isDefault, true),
-              ne(paymentMethods.id, id)
-            )
-          );
-      }
+    const items = await this.getOrderItems(orderId);
+    const fulfilled = this.getFulfilledLines(orderId);
+    const resolved = resolveFulfillmentLines(order.status, items, fulfilled, lines);
+    const fulfillment = await this.insertFulfillment(orderId, data, resolved, actorId);
+
+    let currentStatus = order.status;
+    for (const step of statusesAfterFulfillment(order.status, isFullyFulfilled(items, [...fulfilled, ...resolved]))) {
+      await this.updateOrder(orderId, { status: step });
+      await this.createOrderEvent({ orderId, type: "status_changed", fromStatus: currentStatus, toStatus: step, actorId });
+      currentStatus = step;
     }
 
-    const [updatedMethod] = await db
-      .update(paymentMethods)
-      .set({
-        ...data,
-        updatedAt: new Date()
-      })
-      .where(eq(paymentMethods.id, id))
-      .returning();
-    return updatedMethod;
+    return fulfillment;
   }
 
-  async deletePaymentMethod(id: number): Promise<boolean> {
-    const result = await db
-      .delete(paymentMethods)
-      .where(eq(paymentMethods.id, id));
-    return result.count > 0;
-  }
+  async updateFulfillment(id: number, data: Partial<InsertFulfillment>, actorId: number | null = null): Promise<Fulfillment | undefined> {
+    const fulfillment = this.fulfillments.get(id);
+    if (!fulfillment) return undefined;
 
-  async setDefaultPaymentMethod(id: number, vendorId: number): Promise<PaymentMethod | undefined> {
-    // Unmark any other default methods for this vendor
-    await db
-      .update(paymentMethods)
-      .set({ isDefault: false, updatedAt: new Date() })
-      .where(
-        and(
-          eq(paymentMethods.vendorId, vendorId),
-          eq(paymentMethods.isDefault, true),
-          ne(paymentMethods.id, id)
-        )
-      );
+    const delivered = data.status === "delivered" && fulfillment.status !== "delivered";
+    const updatedFulfillment: Fulfillment = {
+      ...fulfillment,
+      ...data,
+      orderId: fulfillment.orderId,
+      deliveredAt: delivered ? new Date() : fulfillment.deliveredAt,
+      updatedAt: new Date()
+    };
+    this.fulfillments.set(id, updatedFulfillment);
+    await this.createOrderEvent({
+      orderId: fulfillment.orderId,
+      type: "fulfillment_updated",
+      message: delivered ? describeFulfillment(updatedFulfillment) : "Tracking details updated",
+      actorId,
+      fulfillmentId: id
+    });
 
-    // Mark this method as default
-    const [updatedMethod] = await db
-      .update(paymentMethods)
-      .set({
-        isDefault: true,
-        updatedAt: new Date()
-      })
-      .where(
-        and(
-          eq(paymentMethods.id, id),
-          eq(paymentMethods.vendorId, vendorId)
-        )
-      )
-      .returning();
-    return updatedMethod;
-  }
+    // The order is delivered once every shipment has arrived
+    const order = this.orders.get(fulfillment.orderId);
+    const shipments = Array.from(this.fulfillments.values()).filter(f => f.orderId === fulfillment.orderId);
+    if (delivered && order && normalizeOrderStatus(order.status) === "shipped" && shipments.every(f => f.status === "delivered")) {
+      await this.updateOrder(order.id, { status: "delivered" });
+      await this.createOrderEvent({ orderId: order.id, type: "status_changed", fromStatus: order.status, toStatus: "delivered", actorId });
+    }
 
-  // Platform subscription operations
-  async getPlatformSubscription(id: number): Promise<PlatformSubscription | undefined> {
-    const [subscription] = await db
-      .select()
-      .from(platformSubscriptions)
-      .where(eq(platformSubscriptions.id, id));
-    return subscription;
+    return updatedFulfillment;
   }
 
-  async getPlatformSubscriptionByVendorId(vendorId: number): Promise<PlatformSubscription | undefined> {
-    const [subscription] = await db
-      .select()
-      .from(platformSubscriptions)
-      .where(
-        and(
-          eq(platformSubscriptions.vendorId, vendorId),
-          eq(platformSubscriptions.status, "active")
-        )
-      );
-    return subscription;
+  // Every line shipped so far for an order
+  private getFulfilledLines(orderId: number): FulfillmentLine[] {
+    const fulfillmentIds = new Set(
+      Array.from(this.fulfillments.values()).filter(f => f.orderId === orderId).map(f => f.id)
+    );
+    return Array.from(this.fulfillmentItems.values()).filter(item => fulfillmentIds.has(item.fulfillmentId));
+  }
+
+  private async insertFulfillment(
+    orderId: number,
+    data: Partial<InsertFulfillment>,
+    lines: FulfillmentLine[],
+    actorId: number | null = null
+  ): Promise<FulfillmentWithItems> {
+    const id = this.fulfillmentId++;
+    const fulfillment: Fulfillment = {
+      status: "shipped",
+      carrier: null,
+      trackingNumber: null,
+      trackingUrl: null,
+      shippedAt: new Date(),
+      deliveredAt: null,
+      ...data,
+      id,
+      orderId,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.fulfillments.set(id, fulfillment);
+
+    const items: FulfillmentItem[] = lines.map(line => {
+      const item = { id: this.fulfillmentItemId++, fulfillmentId: id, ...line };
+      this.fulfillmentItems.set(item.id, item);
+      return item;
+    });
+
+    const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+    await this.createOrderEvent({
+      orderId,
+      type: "fulfillment_created",
+      message: describeFulfillment(fulfillment, units),
+      actorId,
+      fulfillmentId: id
+    });
+
+    return { ...fulfillment, items };
   }
 
-  async createPlatformSubscription(subscription: InsertPlatformSubscription): Promise<PlatformSubscription> {
-    const [createdSubscription] = await db
-      .insert(platformSubscriptions)
-      .values({
-        ...subscription,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
-    return createdSubscription;
+  // Return (RMA) operations
+  private withReturnItems(returnRequest: ReturnRequest): ReturnWithItems {
+    return {
+      ...returnRequest,
+      items: Array.from(this.returnItems.values()).filter(item => item.returnId === returnRequest.id)
+    };
   }
 
-  async updatePlatformSubscription(id: number, data: Partial<InsertPlatformSubscription>): Promise<PlatformSubscription | undefined> {
-    const [updatedSubscription] = await db
-      .update(platformSubscriptions)
-      .set({
-        ...data,
-        updatedAt: new Date()
-      })
-      .where(eq(platformSubscriptions.id, id))
-      .returning();
-    return updatedSubscription;
+  async getReturnRequest(id: number): Promise<ReturnWithItems | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    return returnRequest && this.withReturnItems(returnRequest);
   }
 
-  async cancelPlatformSubscription(id: number, reason: string): Promise<PlatformSubscription | undefined> {
-    const [canceledSubscription] = await db
-      .update(platformSubscriptions)
-      .set({
-        status: "canceled",
-        cancelReason: reason,
-        canceledAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(platformSubscriptions.id, id))
-      .returning();
-    return canceledSubscription;
+  async getReturnRequestsByOrderId(orderId: number): Promise<ReturnWithItems[]> {
+    return Array.from(this.returnRequests.values())
+      .filter(returnRequest => returnRequest.orderId === orderId)
+      .sort((a, b) => a.id - b.id)
+      .map(returnRequest => this.withReturnItems(returnRequest));
   }
 
-  // Invoice operations
-  async getInvoice(id: number): Promise<Invoice | undefined> {
-    const [invoice] = await db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.id, id));
-    return invoice;
+  async getReturnRequestsByVendorId(vendorId: number, status?: string): Promise<ReturnWithItems[]> {
+    return Array.from(this.returnRequests.values())
+      .filter(returnRequest => returnRequest.vendorId === vendorId && (!status || returnRequest.status === status))
+      .sort((a, b) => b.id - a.id)
+      .map(returnRequest => this.withReturnItems(returnRequest));
   }
 
-  async getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
-    const [invoice] = await db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.invoiceNumber, invoiceNumber));
-    return invoice;
+  async createReturnRequest(
+    orderId: number,
+    data: Pick<InsertReturnRequest, "reason" | "comment" | "customerId" | "requestedBy">,
+    lines: ReturnLine[]
+  ): Promise<ReturnWithItems | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order) return undefined;
+
+    const items = await this.getOrderItems(orderId);
+    const existing = await this.getReturnRequestsByOrderId(orderId);
+    const resolved = resolveReturnLines(order.status, items, existing, lines);
+
+    const id = this.returnRequestId++;
+    const returnRequest: ReturnRequest = {
+      comment: null,
+      customerId: null,
+      requestedBy: null,
+      ...data,
+      id,
+      orderId,
+      vendorId: order.vendorId,
+      rmaNumber: generateRmaNumber(order.orderNumber, existing.length),
+      status: "requested",
+      vendorNote: null,
+      refundAmount: "0",
+      refundTransactionId: null,
+      approvedAt: null,
+      rejectedAt: null,
+      receivedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.returnRequests.set(id, returnRequest);
+    for (const line of resolved) {
+      const item: ReturnItem = { id: this.returnItemId++, returnId: id, ...line, restockedQuantity: 0 };
+      this.returnItems.set(item.id, item);
+    }
+
+    const units = resolved.reduce((sum, line) => sum + line.quantity, 0);
+    await this.createOrderEvent({
+      orderId,
+      type: "return_requested",
+      message: describeReturn(returnRequest, units),
+      actorId: data.requestedBy ?? null,
+      returnId: id
+    });
+    return this.withReturnItems(returnRequest);
   }
 
-  async getInvoicesByVendorId(vendorId: number): Promise<Invoice[]> {
-    return db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.vendorId, vendorId))
-      .orderBy(desc(invoices.createdAt));
+  async approveReturnRequest(id: number, decision: ReturnDecision = {}): Promise<ReturnWithItems | undefined> {
+    const returnRequest = await this.getReturnRequest(id);
+    if (!returnRequest) return undefined;
+    assertReturnTransition(returnRequest.status, "approved");
+
+    const items = await this.getOrderItems(returnRequest.orderId);
+    const payment = findRefundablePayment(await this.getTransactionsByOrderId(returnRequest.orderId));
+    const refundAmount = resolveRefundAmount(
+      decision.refundAmount ?? calculateRefundAmount(items, returnRequest.items),
+      payment
+    );
+
+    if (payment && new Decimal(refundAmount).greaterThan(0)) {
+      await decision.refundPayment?.(payment, refundAmount, `Return ${returnRequest.rmaNumber}`);
+      const refunded = await this.processRefund(payment.id, refundAmount, `Return ${returnRequest.rmaNumber}`);
+      await this.updateOrder(returnRequest.orderId, {
+        paymentStatus: refunded && getRefundableAmount(refunded).isZero() ? "refunded" : "partially_refunded"
+      });
+    }
+
+    const approved: ReturnRequest = {
+      ...returnRequest,
+      status: "approved",
+      vendorNote: decision.note ?? returnRequest.vendorNote,
+      refundAmount,
+      refundTransactionId: payment?.id ?? null,
+      approvedAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.returnRequests.set(id, approved);
+    await this.createOrderEvent({
+      orderId: approved.orderId,
+      type: "return_approved",
+      message: decision.note ? `${describeReturn(approved)}: ${decision.note}` : describeReturn(approved),
+      actorId: decision.actorId ?? null,
+      returnId: id
+    });
+    return this.withReturnItems(approved);
   }
 
-  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
-    const [createdInvoice] = await db
-      .insert(invoices)
-      .values({
-        ...invoice,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
-    return createdInvoice;
+  async rejectReturnRequest(id: number, decision: ReturnDecision = {}): Promise<ReturnWithItems | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    if (!returnRequest) return undefined;
+    assertReturnTransition(returnRequest.status, "rejected");
+
+    const rejected: ReturnRequest = {
+      ...returnRequest,
+      status: "rejected",
+      vendorNote: decision.note ?? returnRequest.vendorNote,
+      rejectedAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.returnRequests.set(id, rejected);
+    await this.createOrderEvent({
+      orderId: rejected.orderId,
+      type: "return_rejected",
+      message: decision.note ? `${describeReturn(rejected)}: ${decision.note}` : describeReturn(rejected),
+      actorId: decision.actorId ?? null,
+      returnId: id
+    });
+    return this.withReturnItems(rejected);
+  }
+
+  async receiveReturnRequest(id: number, restock?: RestockLine[], actorId: number | null = null): Promise<ReturnWithItems | undefined> {
+    const returnRequest = await this.getReturnRequest(id);
+    if (!returnRequest) return undefined;
+    assertReturnTransition(returnRequest.status, "received");
+
+    const items = await this.getOrderItems(returnRequest.orderId);
+    const lines = resolveRestockLines(returnRequest.items, restock);
+    for (const line of lines) {
+      const returnItem = this.returnItems.get(line.returnItemId)!;
+      const orderItem = items.find(item => item.id === returnItem.orderItemId);
+      this.returnItems.set(returnItem.id, { ...returnItem, restockedQuantity: line.quantity });
+      if (!orderItem) continue;
+
+      if (orderItem.variantId) {
+        const variant = this.productVariants.get(orderItem.variantId);
+        if (variant) {
+          this.productVariants.set(variant.id, { ...variant, inventoryQuantity: (variant.inventoryQuantity ?? 0) + line.quantity });
+        }
+      } else {
+        const product = this.products.get(orderItem.productId);
+        if (product) {
+          this.products.set(product.id, { ...product, inventoryQuantity: (product.inventoryQuantity ?? 0) + line.quantity });
+        }
+      }
+    }
+
+    const received: ReturnRequest = { ...returnRequest, status: "received", receivedAt: new Date(), updatedAt: new Date() };
+    this.returnRequests.set(id, received);
+    await this.createOrderEvent({
+      orderId: received.orderId,
+      type: "return_received",
+      message: describeReturn(received, lines.reduce((sum, line) => sum + line.quantity, 0)),
+      actorId,
+      returnId: id
+    });
+
+    // Once everything has come back the order itself is returned
+    const order = await this.getOrder(received.orderId);
+    if (order && getAllowedTransitions(order.status).includes("returned") &&
+        isFullyReturned(items, await this.getReturnRequestsByOrderId(order.id))) {
+      await this.transitionOrderStatus(order.id, "returned", { actorId });
+    }
+
+    return this.withReturnItems(received);
   }
 
-  async updateInvoice(id: number, data: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const [updatedInvoice] = await db
-      .update(invoices)
-      .set({
-        ...data,
-        updatedAt: new Date()
-      })
-      .where(eq(invoices.id, id))
-      .returning();
-    return updatedInvoice;
+  // Order item operations
+  async getOrderItem(id: number): Promise<OrderItem | undefined> {
+    return this.orderItems.get(id);
   }
 
-  async markInvoiceAsPaid(id: number): Promise<Invoice | undefined> {
-    const [paidInvoice] = await db
-      .update(invoices)
-      .set({
-        status: "paid",
-        paidAt: new Date(),
-        updatedAt: new Date()
-      })
-      .where(eq(invoices.id, id))
-      .returning();
-    return paidInvoice;
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values()).filter(item => item.orderId === orderId);
   }
 
-  // Transaction operations
-  async getTransaction(id: number): Promise<Transaction | undefined> {
-    const [transaction] = await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.id, id));
-    return transaction;
+  async createOrderItem(itemData: InsertOrderItem): Promise<OrderItem> {
+    const id = this.orderItemId++;
+    const item: OrderItem = {
+      ...itemData,
+      variantId: itemData.variantId ?? null,
+      hsnCode: itemData.hsnCode ?? null,
+      taxRate: itemData.taxRate ?? "0",
+      taxAmount: itemData.taxAmount ?? "0",
+      cgst: itemData.cgst ?? "0",
+      sgst: itemData.sgst ?? "0",
+      igst: itemData.igst ?? "0",
+      id,
+      createdAt: new Date()
+    };
+    this.orderItems.set(id, item);
+    return item;
   }
 
-  async getTransactionsByVendorId(vendorId: number): Promise<Transaction[]> {
-    return db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.vendorId, vendorId))
-      .orderBy(desc(transactions.createdAt));
+  async updateOrderItem(id: number, data: Partial<InsertOrderItem>): Promise<OrderItem | undefined> {
+    const item = await this.getOrderItem(id);
+    if (!item) return undefined;
+    
+    const updatedItem = { ...item, ...data };
+    this.orderItems.set(id, updatedItem);
+    return updatedItem;
   }
 
-  async getTransactionsByOrderId(orderId: number): Promise<Transaction[]> {
-    return db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.orderId, orderId))
-      .orderBy(desc(transactions.createdAt));
+  async deleteOrderItem(id: number): Promise<boolean> {
+    return this.orderItems.delete(id);
   }
 
-  async getTransactionsByInvoiceId(invoiceId: number): Promise<Transaction[]> {
-    return db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.invoiceId, invoiceId))
-      .orderBy(desc(transactions.createdAt));
+  // Analytics operations
+  async getVendorAnalytics(vendorId: number): Promise<Analytics[]> {
+    return Array.from(this.analytics.values())
+      .filter(analytics => analytics.vendorId === vendorId);
   }
 
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [createdTransaction] = await db
-      .insert(transactions)
-      .values({
-        ...transaction,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      })
-      .returning();
-    return createdTransaction;
+  async createAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
+    const id = this.analyticsId++;
+    const entry: Analytics = { ...data, id, createdAt: new Date() };
+    this.analytics.set(id, entry);
+    return entry;
   }
 
-  async updateTransaction(id: number, data: Partial<InsertTransaction>): Promise<Transaction | undefined> {
-    const [updatedTransaction] = await db
-      .update(transactions)
-      .set({
-        ...data,
-        updatedAt: new Date()
-      })
-      .where(eq(transactions.id, id))
-      .returning();
-    return updatedTransaction;
+  async upsertAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
+    const existing = Array.from(this.analytics.values())
+      .find(entry => entry.vendorId === data.vendorId && entry.date.getTime() === data.date.getTime());
+    if (!existing) return this.createAnalyticsEntry(data);
+
+    const updated: Analytics = { ...existing, ...data };
+    this.analytics.set(existing.id, updated);
+    return updated;
   }
 
-  async processRefund(transactionId: number, amount: string, reason: string): Promise<Transaction | undefined> {
-    // Get the original transaction
-    const [originalTransaction] = await db
-      .select()
-      .from(transactions)
-      .where(eq(transactions.id, transactionId));
+  async recordStorefrontEvents(events: InsertStorefrontEvent[]): Promise<number> {
+    for (const event of events) {
+      this.storefrontEvents.push({ ...event, id: this.storefrontEvents.length + 1, occurredAt: event.occurredAt ?? new Date() });
+    }
+    return events.length;
+  }
 
-    if (!originalTransaction) return undefined;
+  async getStorefrontActivity(from: Date, to: Date): Promise<StorefrontActivity[]> {
+    const within = (date: Date | null | undefined) => !!date && date >= from && date < to;
+    const byVendor = new Map<number, { sessions: Set<string>; converted: Set<string>; pageViews: number; orders: number; revenue: Decimal }>();
+    const activityFor = (vendorId: number) => {
+      if (!byVendor.has(vendorId)) {
+        byVendor.set(vendorId, { sessions: new Set(), converted: new Set(), pageViews: 0, orders: 0, revenue: new Decimal(0) });
+      }
+      return byVendor.get(vendorId)!;
+    };
 
-    // Update the original transaction to mark refund amount
-    const refundedAmount = new Decimal(originalTransaction.refundedAmount || "0").plus(amount);
-    
-    const [updatedTransaction] = await db
-      .update(transactions)
-      .set({
-        refundedAmount: refundedAmount.toString(),
-        status: refundedAmount.equals(originalTransaction.amount) ? "refunded" : "partial_refund",
-        refundReason: reason || originalTransaction.refundReason,
-        updatedAt: new Date()
-      })
-      .where(eq(transactions.id, transactionId))
-      .returning();
+    for (const event of this.storefrontEvents) {
+      if (!within(event.occurredAt)) continue;
+      const activity = activityFor(event.vendorId);
+      activity.sessions.add(event.sessionId);
+      if (event.type === "page_view") activity.pageViews++;
+      if (event.type === "checkout_step" && event.step === "confirmation") activity.converted.add(event.sessionId);
+    }
+    for (const order of Array.from(this.orders.values())) {
+      if (!within(order.createdAt) || order.status === "canceled") continue;
+      const activity = activityFor(order.vendorId);
+      activity.orders++;
+      activity.revenue = activity.revenue.plus(order.total);
+    }
 
-    // Create a new refund transaction
-    await db
-      .insert(transactions)
-      .values({
-        type: "refund",
-        status: "completed",
-        amount: amount.toString(),
-        currency: originalTransaction.currency || "USD",
-        fee: "0",
-        net: amount.toString(),
-        vendorId: originalTransaction.vendorId,
-        orderId: originalTransaction.orderId,
-        invoiceId: originalTransaction.invoiceId,
-        paymentMethodId: originalTransaction.paymentMethodId,
-        metadata: { 
-          originalTransactionId: originalTransaction.id,
-          refundReason: reason
-        },
-        createdAt: new Date(),
-        updatedAt: new Date()
-      });
-    
-    return updatedTransaction;
+    return Array.from(byVendor.entries()).map(([vendorId, activity]) => ({
+      vendorId,
+      visitors: activity.sessions.size,
+      pageViews: activity.pageViews,
+      convertedSessions: activity.converted.size,
+      orders: activity.orders,
+      revenue: activity.revenue.toFixed(2),
+    }));
   }
 
-  // Payout operations
-  async getPayout(id: number): Promise<Payout | undefined> {
-    const [payout] = await db
-      .select()
-      .from(payouts)
-      .where(eq(payouts.id, id));
-    return payout;
+  async deleteStorefrontEventsBefore(cutoff: Date): Promise<number> {
+    const before = this.storefrontEvents.length;
+    this.storefrontEvents = this.storefrontEvents.filter(event => event.occurredAt && event.occurredAt >= cutoff);
+    return before - this.storefrontEvents.length;
   }
-
-  async getPayoutsByVendorId(vendorId: number): Promise<Payout[]> {
-    return db
-      .select()
-      .from(payouts)
-      .where(eq(payouts.vendorId, vendorId))
-      .orderBy(desc(payouts.createdAt));
+  
+  // Orders counted as sales in reports over [from, to), with what has been
+  // refunded taken off their totals
+  private reportableOrders(vendorId: number, from: Date, to: Date): Order[] {
+    return Array.from(this.orders.values())
+      .filter(order =>
+        order.vendorId === vendorId && isSale(order) &&
+        !!order.createdAt && order.createdAt >= from && order.createdAt < to
+      )
+      .map(order => ({ ...order, total: new Decimal(order.total).minus(this.getRefundedFromOrder(order.id)).toFixed(2) }));
   }
 
-  async createPayout(payout: InsertPayout): Promise<Payout> {
-    const [createdPayout] = await db
-      .insert(payouts)
-      .values({
-        ...payout,
-        createdAt: new Date()
-      })
-      .returning();
-    return createdPayout;
+  private getRefundedFromOrder(orderId: number): Decimal {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.orderId === orderId && transaction.type === "order_payment")
+      .reduce((sum, transaction) => sum.plus(transaction.refundedAmount || "0"), new Decimal(0));
   }
 
-  async updatePayout(id: number, data: Partial<InsertPayout>): Promise<Payout | undefined> {
-    const [updatedPayout] = await db
-      .update(payouts)
-      .set(data)
-      .where(eq(payouts.id, id))
-      .returning();
-    return updatedPayout;
+  // Their items, less the units sent back on refunded returns
+  private reportableItems(vendorId: number, from: Date, to: Date): OrderItem[] {
+    const orderIds = new Set(this.reportableOrders(vendorId, from, to).map(order => order.id));
+    const refundedReturns = new Set(
+      Array.from(this.returnRequests.values())
+        .filter(returnRequest => REFUNDED_RETURN_STATUSES.includes(returnRequest.status))
+        .map(returnRequest => returnRequest.id)
+    );
+    const returned = new Map<number, number>();
+    for (const line of Array.from(this.returnItems.values())) {
+      if (refundedReturns.has(line.returnId)) {
+        returned.set(line.orderItemId, (returned.get(line.orderItemId) ?? 0) + line.quantity);
+      }
+    }
+    return Array.from(this.orderItems.values())
+      .filter(item => orderIds.has(item.orderId) && item.quantity > (returned.get(item.id) ?? 0))
+      .map(item => keepUnits(item, item.quantity - (returned.get(item.id) ?? 0)));
   }
 
-  async completePayout(id: number): Promise<Payout | undefined> {
-    const [completedPayout] = await db
-      .update(payouts)
-      .set({
-        status: "completed",
-        completedAt: new Date()
-      })
-      .where(eq(payouts.id, id))
-      .returning();
-    return completedPayout;
-  }
+  async getAnalyticsBuckets(vendorId: number, from: Date, to: Date, granularity: AnalyticsGranularity): Promise<AnalyticsBucket[]> {
+    const buckets = new Map<string, AnalyticsBucket & { total: Decimal }>();
+    const bucketFor = (date: Date) => {
+      const period = toDateKey(startOfBucket(date, granularity));
+      if (!buckets.has(period)) {
+        buckets.set(period, { period, visitors: 0, pageViews: 0, convertedVisitors: 0, orders: 0, revenue: "0.00", total: new Decimal(0) });
+      }
+      return buckets.get(period)!;
+    };
 
-  // Customer payment methods operations
-  async getCustomerPaymentMethod(id: number): Promise<CustomerPaymentMethod | undefined> {
-    const [method] = await db
-      .select()
-      .from(customerPaymentMethods)
-      .where(eq(customerPaymentMethods.id, id));
-    return method;
+    for (const entry of Array.from(this.analytics.values())) {
+      if (entry.vendorId !== vendorId || entry.date < from || entry.date >= to) continue;
+      const bucket = bucketFor(entry.date);
+      bucket.visitors += entry.visitors ?? 0;
+      bucket.pageViews += entry.pageViews ?? 0;
+      bucket.convertedVisitors += (entry.visitors ?? 0) * parseFloat(entry.conversionRate ?? "0") / 100;
+    }
+    for (const order of this.reportableOrders(vendorId, from, to)) {
+      const bucket = bucketFor(order.createdAt!);
+      bucket.orders++;
+      bucket.total = bucket.total.plus(order.total);
+    }
+
+    return Array.from(buckets.values())
+      .map(({ total, ...bucket }) => ({ ...bucket, revenue: total.toFixed(2) }))
+      .sort((a, b) => a.period.localeCompare(b.period));
   }
 
-  async getCustomerPaymentMethodsByCustomerId(customerId: number): Promise<CustomerPaymentMethod[]> {
+  private sumProductSales(items: OrderItem[]): ProductSales[] {
+    const byProduct = new Map<number, { name: string; quantity: number; revenue: Decimal }>();
+    for (const item of items) {
+      const sales = byProduct.get(item.productId) ?? { name: item.name, quantity: 0, revenue: new Decimal(0) };
+      sales.quantity += item.quantity;
+      sales.revenue = sales.revenue.plus(item.total);
+      byProduct.set(item.productId, sales);
+    }
+    return Array.from(byProduct.entries()).map(([productId, sales]) => ({
+      productId,
+      name: this.products.get(productId)?.name ?? sales.name,
+      quantity: sales.quantity,
+      revenue: sales.revenue.toFixed(2)
+    }));
+  }
+
+  async getTopProducts(vendorId: number, from: Date, to: Date, limit: number = 5): Promise<ProductSales[]> {
+    return this.sumProductSales(this.reportableItems(vendorId, from, to))
+      .sort((a, b) => new Decimal(b.revenue).comparedTo(a.revenue) || b.quantity - a.quantity)
+      .slice(0, limit);
+  }
+
+  async getProductSales(vendorId: number, from: Date, to: Date, productIds?: number[]): Promise<ProductSales[]> {
+    const wanted = productIds && new Set(productIds);
+    return this.sumProductSales(this.reportableItems(vendorId, from, to).filter(item => !wanted || wanted.has(item.productId)));
+  }
+
+  async getSalesByHour(vendorId: number, from: Date, to: Date): Promise<HourlySales[]> {
+    const byHour = new Map<number, { orders: number; revenue: Decimal }>();
+    for (const order of this.reportableOrders(vendorId, from, to)) {
+      const hour = order.createdAt!.getUTCHours();
+      const sales = byHour.get(hour) ?? { orders: 0, revenue: new Decimal(0) };
+      sales.orders++;
+      sales.revenue = sales.revenue.plus(order.total);
+      byHour.set(hour, sales);
+    }
+    return Array.from(byHour.entries())
+      .map(([hour, sales]) => ({ hour, orders: sales.orders, revenue: sales.revenue.toFixed(2) }))
+      .sort((a, b) => a.hour - b.hour);
+  }
+
+  async getSalesByCategory(vendorId: number, from: Date, to: Date): Promise<CategorySales[]> {
+    const byCategory = new Map<number | null, Decimal>();
+    for (const item of this.reportableItems(vendorId, from, to)) {
+      const categoryId = this.products.get(item.productId)?.categoryId ?? null;
+      byCategory.set(categoryId, (byCategory.get(categoryId) ?? new Decimal(0)).plus(item.total));
+    }
+    return Array.from(byCategory.entries())
+      .map(([categoryId, revenue]) => ({
+        categoryId,
+        name: (categoryId && this.productCategories.get(categoryId)?.name) || "Uncategorized",
+        revenue: revenue.toFixed(2)
+      }))
+      .sort((a, b) => new Decimal(b.revenue).comparedTo(a.revenue));
+  }
+
+  async getGstSummary(vendorId: number, from: Date, to: Date): Promise<GstRateSales[]> {
+    const byRate = new Map<string, { quantity: number; taxableValue: Decimal; cgst: Decimal; sgst: Decimal; igst: Decimal; taxAmount: Decimal; total: Decimal }>();
+    for (const item of this.reportableItems(vendorId, from, to)) {
+      const taxRate = new Decimal(item.taxRate ?? 0).toString();
+      const rate = byRate.get(taxRate) ?? {
+        quantity: 0,
+        taxableValue: new Decimal(0),
+        cgst: new Decimal(0),
+        sgst: new Decimal(0),
+        igst: new Decimal(0),
+        taxAmount: new Decimal(0),
+        total: new Decimal(0)
+      };
+      rate.quantity += item.quantity;
+      rate.taxableValue = rate.taxableValue.plus(item.total).minus(item.taxAmount ?? 0);
+      rate.cgst = rate.cgst.plus(item.cgst ?? 0);
+      rate.sgst = rate.sgst.plus(item.sgst ?? 0);
+      rate.igst = rate.igst.plus(item.igst ?? 0);
+      rate.taxAmount = rate.taxAmount.plus(item.taxAmount ?? 0);
+      rate.total = rate.total.plus(item.total);
+      byRate.set(taxRate, rate);
+    }
+    return Array.from(byRate.entries())
+      .map(([taxRate, rate]) => ({
+        taxRate,
+        quantity: rate.quantity,
+        taxableValue: rate.taxableValue.toFixed(2),
+        cgst: rate.cgst.toFixed(2),
+        sgst: rate.sgst.toFixed(2),
+        igst: rate.igst.toFixed(2),
+        taxAmount: rate.taxAmount.toFixed(2),
+        total: rate.total.toFixed(2)
+      }))
+      .sort((a, b) => new Decimal(a.taxRate).comparedTo(b.taxRate));
+  }
+
+  async getCustomerLifetimeValues(vendorId: number, from: Date, to: Date): Promise<CustomerLifetimeValue[]> {
+    const byCustomer = new Map<number, Order[]>();
+    for (const order of this.reportableOrders(vendorId, new Date(0), to)) {
+      if (!order.customerId) continue;
+      byCustomer.set(order.customerId, [...(byCustomer.get(order.customerId) ?? []), order]);
+    }
+
+    const values: CustomerLifetimeValue[] = [];
+    for (const [customerId, customerOrders] of Array.from(byCustomer.entries())) {
+      const dates = customerOrders.map(order => order.createdAt!).sort((a, b) => a.getTime() - b.getTime());
+      const lastOrderAt = dates[dates.length - 1];
+      if (lastOrderAt < from) continue;
+
+      const customer = this.customers.get(customerId);
+      values.push({
+        customerId,
+        name: [customer?.firstName, customer?.lastName].filter(Boolean).join(" ") || customer?.email || `Customer ${customerId}`,
+        email: customer?.email ?? "",
+        orders: customerOrders.length,
+        revenue: customerOrders.reduce((sum, order) => sum.plus(order.total), new Decimal(0)).toFixed(2),
+        firstOrderAt: dates[0],
+        lastOrderAt
+      });
+    }
+    return values;
+  }
+
+  // Report operations
+  async getReportJob(id: number): Promise<ReportJob | undefined> {
+    return this.reportJobs.get(id);
+  }
+
+  async getReportJobsByVendorId(vendorId: number, limit: number = 50): Promise<ReportJob[]> {
+    return Array.from(this.reportJobs.values())
+      .filter(job => job.vendorId === vendorId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createReportJob(jobData: InsertReportJob): Promise<ReportJob> {
+    const id = this.reportJobId++;
+    const job: ReportJob = {
+      userId: null,
+      scheduleId: null,
+      status: "pending",
+      rowCount: null,
+      fileName: null,
+      storageKey: null,
+      error: null,
+      startedAt: null,
+      finishedAt: null,
+      expiresAt: null,
+      ...jobData,
+      id,
+      createdAt: new Date(),
+    };
+    this.reportJobs.set(id, job);
+    return job;
+  }
+
+  async updateReportJob(id: number, data: Partial<InsertReportJob>): Promise<ReportJob | undefined> {
+    const job = this.reportJobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...data, id };
+    this.reportJobs.set(id, updated);
+    return updated;
+  }
+
+  async getExpiredReportJobs(now: Date): Promise<ReportJob[]> {
+    return Array.from(this.reportJobs.values()).filter(job => !!job.expiresAt && job.expiresAt <= now);
+  }
+
+  async deleteReportJob(id: number): Promise<boolean> {
+    return this.reportJobs.delete(id);
+  }
+
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    return this.reportSchedules.get(id);
+  }
+
+  async getReportSchedulesByVendorId(vendorId: number): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values()).filter(schedule => schedule.vendorId === vendorId);
+  }
+
+  async createReportSchedule(scheduleData: InsertReportSchedule): Promise<ReportSchedule> {
+    const id = this.reportScheduleId++;
+    const schedule: ReportSchedule = {
+      userId: null,
+      isActive: true,
+      lastRunAt: null,
+      lastJobId: null,
+      ...scheduleData,
+      id,
+      createdAt: new Date(),
+    };
+    this.reportSchedules.set(id, schedule);
+    return schedule;
+  }
+
+  async updateReportSchedule(id: number, data: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined> {
+    const schedule = this.reportSchedules.get(id);
+    if (!schedule) return undefined;
+    const updated = { ...schedule, ...data, id };
+    this.reportSchedules.set(id, updated);
+    return updated;
+  }
+
+  async deleteReportSchedule(id: number): Promise<boolean> {
+    return this.reportSchedules.delete(id);
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return Array.from(this.reportSchedules.values()).filter(schedule => schedule.isActive && schedule.nextRunAt <= now);
+  }
+
+  // Scheduled job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getScheduledJob(name: string): Promise<ScheduledJob | undefined> {
+    return this.scheduledJobs.get(name);
+  }
+
+  async ensureScheduledJob(jobData: InsertScheduledJob): Promise<ScheduledJob> {
+    const existing = this.scheduledJobs.get(jobData.name);
+    if (existing) return existing;
+
+    const now = new Date();
+    const job: ScheduledJob = {
+      description: null,
+      isEnabled: true,
+      maxAttempts: 3,
+      failedAttempts: 0,
+      runRequestedAt: null,
+      lastRunAt: null,
+      lastSucceededAt: null,
+      lastStatus: null,
+      lastError: null,
+      lastDurationMs: null,
+      ...jobData,
+      id: this.scheduledJobId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.scheduledJobs.set(job.name, job);
+    return job;
+  }
+
+  async updateScheduledJob(name: string, data: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(name);
+    if (!job) return undefined;
+    const updated = { ...job, ...data, id: job.id, name, updatedAt: new Date() };
+    this.scheduledJobs.set(name, updated);
+    return updated;
+  }
+
+  async getDueScheduledJobs(now: Date): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values()).filter(job =>
+      job.runRequestedAt !== null || (job.isEnabled && job.nextRunAt <= now)
+    );
+  }
+
+  async getJobRun(id: number): Promise<JobRun | undefined> {
+    return this.jobRuns.get(id);
+  }
+
+  async getJobRuns(jobName?: string, limit: number = 50): Promise<JobRun[]> {
+    return Array.from(this.jobRuns.values())
+      .filter(run => !jobName || run.jobName === jobName)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createJobRun(runData: InsertJobRun): Promise<JobRun> {
+    const id = this.jobRunId++;
+    const run: JobRun = {
+      attempt: 1,
+      instanceId: null,
+      result: null,
+      error: null,
+      startedAt: new Date(),
+      finishedAt: null,
+      durationMs: null,
+      ...runData,
+      id,
+    };
+    this.jobRuns.set(id, run);
+    return run;
+  }
+
+  async updateJobRun(id: number, data: Partial<InsertJobRun>): Promise<JobRun | undefined> {
+    const run = this.jobRuns.get(id);
+    if (!run) return undefined;
+    const updated = { ...run, ...data, id };
+    this.jobRuns.set(id, updated);
+    return updated;
+  }
+
+  async failRunningJobRuns(error: string, finishedAt: Date): Promise<number> {
+    const running = Array.from(this.jobRuns.values()).filter(run => run.status === "running");
+    for (const run of running) {
+      this.jobRuns.set(run.id, { ...run, status: "failed", error, finishedAt });
+    }
+    return running.length;
+  }
+
+  async deleteJobRunsBefore(cutoff: Date): Promise<number> {
+    const old = Array.from(this.jobRuns.values()).filter(run => run.startedAt < cutoff);
+    old.forEach(run => this.jobRuns.delete(run.id));
+    return old.length;
+  }
+
+  // Email operations
+  async getEmailTemplates(vendorId: number | null): Promise<EmailTemplate[]> {
+    return Array.from(this.emailTemplates.values()).filter(template => (template.vendorId ?? null) === vendorId);
+  }
+
+  async getEmailTemplate(vendorId: number | null, template: string): Promise<EmailTemplate | undefined> {
+    return (await this.getEmailTemplates(vendorId)).find(existing => existing.template === template);
+  }
+
+  async saveEmailTemplate(templateData: InsertEmailTemplate): Promise<EmailTemplate> {
+    const now = new Date();
+    const existing = await this.getEmailTemplate(templateData.vendorId ?? null, templateData.template);
+    const template: EmailTemplate = {
+      vendorId: null,
+      ...templateData,
+      id: existing?.id ?? this.emailTemplateId++,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.emailTemplates.set(template.id, template);
+    return template;
+  }
+
+  async deleteEmailTemplate(vendorId: number | null, template: string): Promise<boolean> {
+    const existing = await this.getEmailTemplate(vendorId, template);
+    return existing ? this.emailTemplates.delete(existing.id) : false;
+  }
+
+  async getOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+    return this.emailOutbox.get(id);
+  }
+
+  async getOutboxEmails(status?: string, limit: number = 50): Promise<EmailOutbox[]> {
+    return Array.from(this.emailOutbox.values())
+      .filter(email => !status || email.status === status)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async createOutboxEmail(emailData: InsertEmailOutbox): Promise<EmailOutbox | undefined> {
+    if (emailData.dedupeKey && Array.from(this.emailOutbox.values()).some(email => email.dedupeKey === emailData.dedupeKey)) {
+      return undefined;
+    }
+
+    const now = new Date();
+    const email: EmailOutbox = {
+      vendorId: null,
+      dedupeKey: null,
+      attempts: 0,
+      maxAttempts: 5,
+      nextAttemptAt: now,
+      attachments: null,
+      lastError: null,
+      messageId: null,
+      sentAt: null,
+      ...emailData,
+      id: this.emailOutboxId++,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.emailOutbox.set(email.id, email);
+    return email;
+  }
+
+  async updateOutboxEmail(id: number, data: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined> {
+    const email = this.emailOutbox.get(id);
+    if (!email) return undefined;
+    const updated = { ...email, ...data, id, updatedAt: new Date() };
+    this.emailOutbox.set(id, updated);
+    return updated;
+  }
+
+  async claimOutboxEmails(now: Date, limit: number, staleBefore: Date): Promise<EmailOutbox[]> {
+    const due = Array.from(this.emailOutbox.values())
+      .filter(email =>
+        (email.status === "pending" && email.nextAttemptAt <= now) ||
+        (email.status === "sending" && email.updatedAt !== null && email.updatedAt < staleBefore)
+      )
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    return Promise.all(due.map(email => this.updateOutboxEmail(email.id, { status: "sending" }) as Promise<EmailOutbox>));
+  }
+
+  async claimOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+    const email = this.emailOutbox.get(id);
+    if (email?.status !== "pending") return undefined;
+    return this.updateOutboxEmail(id, { status: "sending" });
+  }
+
+  async deleteSentOutboxEmailsBefore(cutoff: Date): Promise<number> {
+    const old = Array.from(this.emailOutbox.values()).filter(email => email.status === "sent" && email.sentAt !== null && email.sentAt < cutoff);
+    old.forEach(email => this.emailOutbox.delete(email.id));
+    return old.length;
+  }
+
+  async getEmailSettings(): Promise<EmailSettings | undefined> {
+    return this.emailSettings;
+  }
+
+  async saveEmailSettings(settingsData: InsertEmailSettings): Promise<EmailSettings> {
+    this.emailSettings = {
+      port: 465,
+      secure: true,
+      username: null,
+      password: null,
+      ...settingsData,
+      id: 1,
+      updatedAt: new Date(),
+    };
+    return this.emailSettings;
+  }
+
+  // Payment methods operations
+  async getPaymentMethod(id: number): Promise<PaymentMethod | undefined> {
+    const [method] = await db
+      .select()
+      .from(paymentMethods)
+      .where(eq(paymentMethods.id, id));
+    return method;
+  }
+
+  async getPaymentMethodsByVendorId(vendorId: number): Promise<PaymentMethod[]> {
     return db
       .select()
-      .from(customerPaymentMethods)
-      .where(eq(customerPaymentMethods.customerId, customerId));
+      .from(paymentMethods)
+      .where(eq(paymentMethods.vendorId, vendorId));
   }
 
-  async createCustomerPaymentMethod(method: InsertCustomerPaymentMethod): Promise<CustomerPaymentMethod> {
-    // If this is marked as default, unmark any other default methods for this customer
+  async createPaymentMethod(method: InsertPaymentMethod): Promise<PaymentMethod> {
+    // If this is marked as default, unmark any other default methods for this vendor
     if (method.isDefault) {
       await db
-        .update(customerPaymentMethods)
+        .update(paymentMethods)
         .set({ isDefault: false, updatedAt: new Date() })
         .where(
           and(
-            eq(customerPaymentMethods.customerId, method.customerId),
-            eq(customerPaymentMethods.isDefault, true)
+            eq(paymentMethods.vendorId, method.vendorId),
+            eq(paymentMethods.isDefault, true)
           )
         );
     }
 
     const [createdMethod] = await db
-      .insert(customerPaymentMethods)
+      .insert(paymentMethods)
       .values({
         ...method,
         createdAt: new Date(),
@@ -1965,948 +3388,3427 @@ export class MemStorage implements IStorage {
     return createdMethod;
   }
 
-  async updateCustomerPaymentMethod(id: number, data: Partial<InsertCustomerPaymentMethod>): Promise<CustomerPaymentMethod | undefined> {
-    // If this is being set as default, unmark any other default methods for this customer
+  async updatePaymentMethod(id: number, data: Partial<InsertPaymentMethod>): Promise<PaymentMethod | undefined> {
+    // If this is being set as default, unmark any other default methods for this vendor
     if (data.isDefault) {
       const [currentMethod] = await db
         .select()
-        .from(customerPaymentMethods)
-        .where(eq(customerPaymentMethods.id, id));
+        .from(paymentMethods)
+        .where(eq(paymentMethods.id, id));
 
       if (currentMethod && !currentMethod.isDefault) {
         await db
-          .update(customerPaymentMethods)
+          .update(paymentMethods)
           .set({ isDefault: false, updatedAt: new Date() })
           .where(
             and(
-              eq(customerPaymentMethods.customerId, currentMethod.customerId),
-              eq(customerPaymentMethods.isDefault, true),
-              ne(customerPaymentMethods.id, id)
+              eq(paymentMethods.vendorId, currentMethod.vendorId),
+              eq(paymentMethods.isDefault, true),
+              ne(paymentMethods.id, id)
             )
           );
       }
     }
 
     const [updatedMethod] = await db
-      .update(customerPaymentMethods)
+      .update(paymentMethods)
       .set({
         ...data,
         updatedAt: new Date()
       })
-      .where(eq(customerPaymentMethods.id, id))
+      .where(eq(paymentMethods.id, id))
       .returning();
     return updatedMethod;
   }
 
-  async deleteCustomerPaymentMethod(id: number): Promise<boolean> {
+  async deletePaymentMethod(id: number): Promise<boolean> {
     const result = await db
-      .delete(customerPaymentMethods)
-      .where(eq(customerPaymentMethods.id, id));
+      .delete(paymentMethods)
+      .where(eq(paymentMethods.id, id));
     return result.count > 0;
   }
 
-  async setDefaultCustomerPaymentMethod(id: number, customerId: number): Promise<CustomerPaymentMethod | undefined> {
-    // Unmark any other default methods for this customer
+  async setDefaultPaymentMethod(id: number, vendorId: number): Promise<PaymentMethod | undefined> {
+    // Unmark any other default methods for this vendor
     await db
-      .update(customerPaymentMethods)
+      .update(paymentMethods)
       .set({ isDefault: false, updatedAt: new Date() })
       .where(
         and(
-          eq(customerPaymentMethods.customerId, customerId),
-          eq(customerPaymentMethods.isDefault, true),
-          ne(customerPaymentMethods.id, id)
+          eq(paymentMethods.vendorId, vendorId),
+          eq(paymentMethods.isDefault, true),
+          ne(paymentMethods.id, id)
         )
       );
 
     // Mark this method as default
     const [updatedMethod] = await db
-      .update(customerPaymentMethods)
+      .update(paymentMethods)
       .set({
         isDefault: true,
         updatedAt: new Date()
       })
       .where(
         and(
-          eq(customerPaymentMethods.id, id),
-          eq(customerPaymentMethods.customerId, customerId)
+          eq(paymentMethods.id, id),
+          eq(paymentMethods.vendorId, vendorId)
         )
       )
       .returning();
     return updatedMethod;
   }
 
-  // Payment provider settings operations
-  async getPaymentProviderSettings(id: number): Promise<PaymentProviderSettings | undefined> {
-    const [settings] = await db
+  // Platform subscription operations
+  async getPlatformSubscription(id: number): Promise<PlatformSubscription | undefined> {
+    const [subscription] = await db
       .select()
-      .from(paymentProviderSettings)
-      .where(eq(paymentProviderSettings.id, id));
-    return settings;
+      .from(platformSubscriptions)
+      .where(eq(platformSubscriptions.id, id));
+    return subscription;
   }
 
-  async getPaymentProviderSettingsByVendorId(vendorId: number, provider: string): Promise<PaymentProviderSettings | undefined> {
-    const [settings] = await db
+  async getPlatformSubscriptionByVendorId(vendorId: number): Promise<PlatformSubscription | undefined> {
+    const [subscription] = await db
       .select()
-      .from(paymentProviderSettings)
+      .from(platformSubscriptions)
       .where(
         and(
-          eq(paymentProviderSettings.vendorId, vendorId),
-          eq(paymentProviderSettings.provider, provider)
+          eq(platformSubscriptions.vendorId, vendorId),
+          eq(platformSubscriptions.status, "active")
         )
       );
-    return settings;
+    return subscription;
   }
 
-  async createPaymentProviderSettings(settings: InsertPaymentProviderSettings): Promise<PaymentProviderSettings> {
-    const [createdSettings] = await db
-      .insert(paymentProviderSettings)
+  async createPlatformSubscription(subscription: InsertPlatformSubscription): Promise<PlatformSubscription> {
+    const [createdSubscription] = await db
+      .insert(platformSubscriptions)
       .values({
-        ...settings,
+        ...subscription,
         createdAt: new Date(),
         updatedAt: new Date()
       })
       .returning();
-    return createdSettings;
+    return createdSubscription;
   }
 
-  async updatePaymentProviderSettings(id: number, data: Partial<InsertPaymentProviderSettings>): Promise<PaymentProviderSettings | undefined> {
-    const [updatedSettings] = await db
-      .update(paymentProviderSettings)
+  async updatePlatformSubscription(id: number, data: Partial<InsertPlatformSubscription>): Promise<PlatformSubscription | undefined> {
+    const [updatedSubscription] = await db
+      .update(platformSubscriptions)
       .set({
         ...data,
         updatedAt: new Date()
       })
-      .where(eq(paymentProviderSettings.id, id))
+      .where(eq(platformSubscriptions.id, id))
       .returning();
-    return updatedSettings;
+    return updatedSubscription;
   }
 
-  async togglePaymentProviderActive(id: number, isActive: boolean): Promise<PaymentProviderSettings | undefined> {
-    const [updatedSettings] = await db
-      .update(paymentProviderSettings)
+  async cancelPlatformSubscription(id: number, reason: string): Promise<PlatformSubscription | undefined> {
+    const [canceledSubscription] = await db
+      .update(platformSubscriptions)
       .set({
-        isActive,
+        status: "canceled",
+        cancelReason: reason,
+        canceledAt: new Date(),
         updatedAt: new Date()
       })
-      .where(eq(paymentProviderSettings.id, id))
+      .where(eq(platformSubscriptions.id, id))
       .returning();
-    return updatedSettings;
+    return canceledSubscription;
   }
 
-  // Platform statistics
-  async getPlatformStats(): Promise<{
-    totalVendors: number;
-    activeDomains: number;
-    totalRevenue: number;
-    pendingIssues: number;
-  }> {
-    const vendors = await this.getVendors();
-    const domains = await this.getDomains();
-    const activeDomains = domains.filter(domain => domain.status === "active").length;
-    
-    let totalRevenue = 0;
-    // Sum up revenue from all vendors
-    for (const vendor of vendors) {
-      const vendorOrders = await this.getOrders(vendor.id);
-      for (const order of vendorOrders) {
-        if (order.paymentStatus === "paid") {
-          totalRevenue += Number(order.total);
-        }
-      }
-    }
-    
-    // Count pending issues (like domains with issues, suspended vendors, etc.)
-    const domainsWithIssues = domains.filter(domain => 
-      domain.status === "error" || domain.sslStatus === "invalid").length;
-    const suspendedVendors = vendors.filter(vendor => vendor.status === "suspended").length;
-    const overdueVendors = vendors.filter(vendor => vendor.subscriptionStatus === "overdue").length;
-    
-    const pendingIssues = domainsWithIssues + suspendedVendors + overdueVendors;
-    
-    return {
-      totalVendors: vendors.length,
-      activeDomains,
-      totalRevenue,
-      pendingIssues
-    };
-  }
-}
-
-import { db } from './db';
-import { eq, sql, and, gt, desc } from 'drizzle-orm';
-import connectPg from 'connect-pg-simple';
-import { pool } from './db';
-
-const PostgresSessionStore = connectPg(session);
-
-export class DatabaseStorage implements IStorage {
-  public sessionStore: session.Store;
-
-  constructor() {
-    // Initialize a Postgres-backed session store
-    this.sessionStore = new PostgresSessionStore({ 
-      pool, 
-      createTableIfMissing: true 
-    });
-  }
-
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user || undefined;
+  // Invoice operations
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, id));
+    return invoice;
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user || undefined;
-  }
-  
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+  async getInvoiceByGatewayId(gatewayInvoiceId: string): Promise<Invoice | undefined> {
+    return Array.from(this.invoices.values()).find(invoice => invoice.gatewayInvoiceId === gatewayInvoiceId);
   }
 
-  async createUser(userData: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(userData).returning();
-    return user;
+  async getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.invoiceNumber, invoiceNumber));
+    return invoice;
   }
 
-  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
-    // Get the current user to check if it's a super_admin
-    const [currentUser] = await db
+  async getInvoicesByVendorId(vendorId: number): Promise<Invoice[]> {
+    return db
       .select()
-      .from(users)
-      .where(eq(users.id, id));
-    
-    // If the user is a super_admin, prevent changing the role to protect their privileges
-    if (currentUser && currentUser.role === 'super_admin' && 'role' in data && data.role !== 'super_admin') {
-      console.warn(`Attempt to change super_admin role for user ${id} was prevented`);
-      delete data.role; // Remove the role field to prevent the change
-    }
-    
-    const [updatedUser] = await db
-      .update(users)
-      .set(data)
-      .where(eq(users.id, id))
-      .returning();
-    return updatedUser;
+      .from(invoices)
+      .where(eq(invoices.vendorId, vendorId))
+      .orderBy(desc(invoices.createdAt));
   }
 
-  // OTP operations
-  async createOtp(email: string, code: string, expiresAt: Date): Promise<OtpCode> {
-    const [otpCode] = await db
-      .insert(otpCodes)
-      .values({ email, code, expiresAt, isUsed: false })
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    const [createdInvoice] = await db
+      .insert(invoices)
+      .values({
+        ...invoice,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
       .returning();
-    return otpCode;
+    return createdInvoice;
   }
 
-  async getLatestOtp(email: string): Promise<OtpCode | undefined> {
-    const now = new Date();
-    const [latestOtp] = await db
-      .select()
-      .from(otpCodes)
-      .where(
-        and(
-          eq(otpCodes.email, email),
-          eq(otpCodes.isUsed, false),
-          gt(otpCodes.expiresAt, now)
-        )
-      )
-      .orderBy(desc(otpCodes.createdAt))
-      .limit(1);
-    return latestOtp;
+  async updateInvoice(id: number, data: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const [updatedInvoice] = await db
+      .update(invoices)
+      .set({
+        ...data,
+        updatedAt: new Date()
+      })
+      .where(eq(invoices.id, id))
+      .returning();
+    return updatedInvoice;
   }
 
-  async markOtpAsUsed(id: number): Promise<OtpCode | undefined> {
-    const [updatedOtp] = await db
-      .update(otpCodes)
-      .set({ isUsed: true })
-      .where(eq(otpCodes.id, id))
+  async markInvoiceAsPaid(id: number): Promise<Invoice | undefined> {
+    const [paidInvoice] = await db
+      .update(invoices)
+      .set({
+        status: "paid",
+        paidAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(invoices.id, id))
       .returning();
-    return updatedOtp;
+    return paidInvoice;
   }
 
-  // Subscription plan operations
-  async getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined> {
-    const [plan] = await db
+  // Transaction operations
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await db
       .select()
-      .from(subscriptionPlans)
-      .where(eq(subscriptionPlans.id, id));
-    return plan;
-  }
-
-  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
-    return db.select().from(subscriptionPlans);
-  }
-
-  async createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
-    const [newPlan] = await db
-      .insert(subscriptionPlans)
-      .values(plan)
-      .returning();
-    return newPlan;
+      .from(transactions)
+      .where(eq(transactions.id, id));
+    return transaction;
   }
 
-  async updateSubscriptionPlan(id: number, data: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined> {
-    const [updatedPlan] = await db
-      .update(subscriptionPlans)
-      .set(data)
-      .where(eq(subscriptionPlans.id, id))
-      .returning();
-    return updatedPlan;
+  async getTransactionByGatewayId(gatewayTransactionId: string): Promise<Transaction | undefined> {
+    return Array.from(this.transactions.values()).find(
+      transaction => transaction.gatewayTransactionId === gatewayTransactionId
+    );
   }
 
-  // Vendor operations
-  async getVendor(id: number): Promise<Vendor | undefined> {
-    const [vendor] = await db
+  async getTransactionsByVendorId(vendorId: number): Promise<Transaction[]> {
+    return db
       .select()
-      .from(vendors)
-      .where(eq(vendors.id, id));
-    return vendor;
+      .from(transactions)
+      .where(eq(transactions.vendorId, vendorId))
+      .orderBy(desc(transactions.createdAt));
   }
 
-  async getVendors(): Promise<Vendor[]> {
-    return db.select().from(vendors);
+  async getTransactionsByOrderId(orderId: number): Promise<Transaction[]> {
+    return db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.orderId, orderId))
+      .orderBy(desc(transactions.createdAt));
   }
 
-  async getVendorByUserId(userId: number): Promise<Vendor | undefined> {
-    const [vendor] = await db
+  async getTransactionsByInvoiceId(invoiceId: number): Promise<Transaction[]> {
+    return db
       .select()
-      .from(vendors)
-      .where(eq(vendors.userId, userId));
-    return vendor;
+      .from(transactions)
+      .where(eq(transactions.invoiceId, invoiceId))
+      .orderBy(desc(transactions.createdAt));
   }
 
-  async createVendor(vendor: InsertVendor): Promise<Vendor> {
-    const [newVendor] = await db
-      .insert(vendors)
-      .values(vendor)
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const [createdTransaction] = await db
+      .insert(transactions)
+      .values({
+        ...transaction,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
       .returning();
-    return newVendor;
+    return createdTransaction;
   }
 
-  async updateVendor(id: number, data: Partial<InsertVendor>): Promise<Vendor | undefined> {
-    const [updatedVendor] = await db
-      .update(vendors)
-      .set(data)
-      .where(eq(vendors.id, id))
+  async updateTransaction(id: number, data: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const [updatedTransaction] = await db
+      .update(transactions)
+      .set({
+        ...data,
+        updatedAt: new Date()
+      })
+      .where(eq(transactions.id, id))
       .returning();
-    return updatedVendor;
+    return updatedTransaction;
   }
 
-  // Domain operations
-  async getDomain(id: number): Promise<Domain | undefined> {
-    const [domain] = await db
+  async processRefund(transactionId: number, amount: string, reason: string): Promise<Transaction | undefined> {
+    // Get the original transaction
+    const [originalTransaction] = await db
       .select()
-      .from(domains)
-      .where(eq(domains.id, id));
-    return domain;
-  }
+      .from(transactions)
+      .where(eq(transactions.id, transactionId));
 
-  async getDomains(): Promise<Domain[]> {
-    return db.select().from(domains);
-  }
+    if (!originalTransaction) return undefined;
 
-  async getDomainsByVendorId(vendorId: number): Promise<Domain[]> {
-    return db
-      .select()
-      .from(domains)
+    // Update the original transaction to mark refund amount
+    const refundedAmount = new Decimal(originalTransaction.refundedAmount || "0").plus(amount);
+    
+    const [updatedTransaction] = await db
+      .update(transactions)
+      .set({
+        refundedAmount: refundedAmount.toString(),
+        status: refundedAmount.equals(originalTransaction.amount) ? "refunded" : "partial_refund",
+        refundReason: reason || originalTransaction.refundReason,
+        updatedAt: new Date()
+      })
+      .where(eq(transactions.id, transactionId))
+      .returning();
+
+    // Create a new refund transaction
+    await db
+      .insert(transactions)
+      .values({
+        type: "refund",
+        status: "completed",
+        amount: amount.toString(),
+        currency: originalTransaction.currency || "USD",
+        fee: "0",
+        net: amount.toString(),
+        vendorId: originalTransaction.vendorId,
+        orderId: originalTransaction.orderId,
+        invoiceId: originalTransaction.invoiceId,
+        paymentMethodId: originalTransaction.paymentMethodId,
+        metadata: { 
+          originalTransactionId: originalTransaction.id,
+          refundReason: reason
+        },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    
+    return updatedTransaction;
+  }
+
+  // Payout operations
+  async getPayout(id: number): Promise<Payout | undefined> {
+    const [payout] = await db
+      .select()
+      .from(payouts)
+      .where(eq(payouts.id, id));
+    return payout;
+  }
+
+  async getPayoutsByVendorId(vendorId: number): Promise<Payout[]> {
+    return db
+      .select()
+      .from(payouts)
+      .where(eq(payouts.vendorId, vendorId))
+      .orderBy(desc(payouts.createdAt));
+  }
+
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const [createdPayout] = await db
+      .insert(payouts)
+      .values({
+        ...payout,
+        createdAt: new Date()
+      })
+      .returning();
+    return createdPayout;
+  }
+
+  async updatePayout(id: number, data: Partial<InsertPayout>): Promise<Payout | undefined> {
+    const [updatedPayout] = await db
+      .update(payouts)
+      .set(data)
+      .where(eq(payouts.id, id))
+      .returning();
+    return updatedPayout;
+  }
+
+  async completePayout(id: number): Promise<Payout | undefined> {
+    const [completedPayout] = await db
+      .update(payouts)
+      .set({
+        status: "completed",
+        completedAt: new Date()
+      })
+      .where(eq(payouts.id, id))
+      .returning();
+    return completedPayout;
+  }
+
+  // Customer payment methods operations
+  async getCustomerPaymentMethod(id: number): Promise<CustomerPaymentMethod | undefined> {
+    const [method] = await db
+      .select()
+      .from(customerPaymentMethods)
+      .where(eq(customerPaymentMethods.id, id));
+    return method;
+  }
+
+  async getCustomerPaymentMethodsByCustomerId(customerId: number): Promise<CustomerPaymentMethod[]> {
+    return db
+      .select()
+      .from(customerPaymentMethods)
+      .where(eq(customerPaymentMethods.customerId, customerId));
+  }
+
+  async createCustomerPaymentMethod(method: InsertCustomerPaymentMethod): Promise<CustomerPaymentMethod> {
+    // If this is marked as default, unmark any other default methods for this customer
+    if (method.isDefault) {
+      await db
+        .update(customerPaymentMethods)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(customerPaymentMethods.customerId, method.customerId),
+            eq(customerPaymentMethods.isDefault, true)
+          )
+        );
+    }
+
+    const [createdMethod] = await db
+      .insert(customerPaymentMethods)
+      .values({
+        ...method,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      .returning();
+    return createdMethod;
+  }
+
+  async updateCustomerPaymentMethod(id: number, data: Partial<InsertCustomerPaymentMethod>): Promise<CustomerPaymentMethod | undefined> {
+    // If this is being set as default, unmark any other default methods for this customer
+    if (data.isDefault) {
+      const [currentMethod] = await db
+        .select()
+        .from(customerPaymentMethods)
+        .where(eq(customerPaymentMethods.id, id));
+
+      if (currentMethod && !currentMethod.isDefault) {
+        await db
+          .update(customerPaymentMethods)
+          .set({ isDefault: false, updatedAt: new Date() })
+          .where(
+            and(
+              eq(customerPaymentMethods.customerId, currentMethod.customerId),
+              eq(customerPaymentMethods.isDefault, true),
+              ne(customerPaymentMethods.id, id)
+            )
+          );
+      }
+    }
+
+    const [updatedMethod] = await db
+      .update(customerPaymentMethods)
+      .set({
+        ...data,
+        updatedAt: new Date()
+      })
+      .where(eq(customerPaymentMethods.id, id))
+      .returning();
+    return updatedMethod;
+  }
+
+  async deleteCustomerPaymentMethod(id: number): Promise<boolean> {
+    const result = await db
+      .delete(customerPaymentMethods)
+      .where(eq(customerPaymentMethods.id, id));
+    return result.count > 0;
+  }
+
+  async setDefaultCustomerPaymentMethod(id: number, customerId: number): Promise<CustomerPaymentMethod | undefined> {
+    // Unmark any other default methods for this customer
+    await db
+      .update(customerPaymentMethods)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(
+        and(
+          eq(customerPaymentMethods.customerId, customerId),
+          eq(customerPaymentMethods.isDefault, true),
+          ne(customerPaymentMethods.id, id)
+        )
+      );
+
+    // Mark this method as default
+    const [updatedMethod] = await db
+      .update(customerPaymentMethods)
+      .set({
+        isDefault: true,
+        updatedAt: new Date()
+      })
+      .where(
+        and(
+          eq(customerPaymentMethods.id, id),
+          eq(customerPaymentMethods.customerId, customerId)
+        )
+      )
+      .returning();
+    return updatedMethod;
+  }
+
+  // Payment provider settings operations
+  async getPaymentProviderSettings(id: number): Promise<PaymentProviderSettings | undefined> {
+    return this.paymentProviderSettings.get(id);
+  }
+
+  async getPaymentProviderSettingsByVendorId(vendorId: number, provider: string): Promise<PaymentProviderSettings | undefined> {
+    return Array.from(this.paymentProviderSettings.values()).find(
+      settings => settings.vendorId === vendorId && settings.provider === provider
+    );
+  }
+
+  async getAllPaymentProviderSettings(): Promise<PaymentProviderSettings[]> {
+    return Array.from(this.paymentProviderSettings.values());
+  }
+
+  async createPaymentProviderSettings(settingsData: InsertPaymentProviderSettings): Promise<PaymentProviderSettings> {
+    const id = this.paymentProviderSettingsId++;
+    const settings: PaymentProviderSettings = {
+      isActive: false,
+      isTest: true,
+      credentials: null,
+      webhookSecret: null,
+      commissionRate: "0",
+      additionalSettings: null,
+      ...settingsData,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.paymentProviderSettings.set(id, settings);
+    return settings;
+  }
+
+  async updatePaymentProviderSettings(id: number, data: Partial<InsertPaymentProviderSettings>): Promise<PaymentProviderSettings | undefined> {
+    const settings = this.paymentProviderSettings.get(id);
+    if (!settings) return undefined;
+
+    const updatedSettings = { ...settings, ...data, updatedAt: new Date() };
+    this.paymentProviderSettings.set(id, updatedSettings);
+    return updatedSettings;
+  }
+
+  async togglePaymentProviderActive(id: number, isActive: boolean): Promise<PaymentProviderSettings | undefined> {
+    return this.updatePaymentProviderSettings(id, { isActive });
+  }
+
+  // Platform statistics
+  async getPlatformStats(): Promise<{
+    totalVendors: number;
+    activeDomains: number;
+    totalRevenue: number;
+    pendingIssues: number;
+  }> {
+    const vendors = await this.getVendors();
+    const domains = await this.getDomains();
+    const activeDomains = domains.filter(domain => domain.status === "active").length;
+    
+    let totalRevenue = 0;
+    // Sum up revenue from all vendors
+    for (const vendor of vendors) {
+      const vendorOrders = await this.getOrders(vendor.id);
+      for (const order of vendorOrders) {
+        if (order.paymentStatus === "paid") {
+          totalRevenue += Number(order.total);
+        }
+      }
+    }
+    
+    // Count pending issues (like domains with issues, suspended vendors, etc.)
+    const domainsWithIssues = domains.filter(domain => 
+      domain.status === "error" || domain.sslStatus === "invalid").length;
+    const suspendedVendors = vendors.filter(vendor => vendor.status === "suspended").length;
+    const overdueVendors = vendors.filter(vendor => vendor.subscriptionStatus === "overdue").length;
+    
+    const pendingIssues = domainsWithIssues + suspendedVendors + overdueVendors;
+    
+    return {
+      totalVendors: vendors.length,
+      activeDomains,
+      totalRevenue,
+      pendingIssues
+    };
+  }
+}
+
+import { db } from './db';
+import { eq, ne, sql, and, gt, gte, lt, lte, desc, asc, inArray, notInArray, isNotNull, isNull, type AnyColumn } from 'drizzle-orm';
+import connectPg from 'connect-pg-simple';
+import { pool } from './db';
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const PostgresSessionStore = connectPg(session);
+
+// Variants are validated with their prices as numbers, but numeric columns
+// are read and written as strings
+function toVariantRow(variant: InsertProductVariant): typeof productVariants.$inferInsert;
+function toVariantRow(variant: Partial<InsertProductVariant>): Partial<typeof productVariants.$inferInsert>;
+function toVariantRow(variant: Partial<InsertProductVariant>): Partial<typeof productVariants.$inferInsert> {
+  const numeric = (value: number | null | undefined) => (value == null ? value : String(value));
+  return {
+    ...variant,
+    purchasePrice: numeric(variant.purchasePrice),
+    sellingPrice: numeric(variant.sellingPrice) ?? undefined,
+    mrp: numeric(variant.mrp),
+    gst: numeric(variant.gst),
+    weight: numeric(variant.weight),
+  };
+}
+
+export class DatabaseStorage implements IStorage {
+  public sessionStore: session.Store;
+
+  constructor() {
+    // Initialize a Postgres-backed session store
+    this.sessionStore = new PostgresSessionStore({ 
+      pool, 
+      createTableIfMissing: true 
+    });
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user || undefined;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
+  async createUser(userData: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(userData).returning();
+    return user;
+  }
+
+  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined> {
+    // Get the current user to check if it's a super_admin
+    const [currentUser] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, id));
+    
+    // If the user is a super_admin, prevent changing the role to protect their privileges
+    if (currentUser && currentUser.role === 'super_admin' && 'role' in data && data.role !== 'super_admin') {
+      console.warn(`Attempt to change super_admin role for user ${id} was prevented`);
+      delete data.role; // Remove the role field to prevent the change
+    }
+    
+    const [updatedUser] = await db
+      .update(users)
+      .set(data)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  // OTP operations
+  async createOtp(email: string, code: string, expiresAt: Date): Promise<OtpCode> {
+    const [otpCode] = await db
+      .insert(otpCodes)
+      .values({ email, code, expiresAt, isUsed: false })
+      .returning();
+    return otpCode;
+  }
+
+  async getLatestOtp(email: string): Promise<OtpCode | undefined> {
+    const now = new Date();
+    const [latestOtp] = await db
+      .select()
+      .from(otpCodes)
+      .where(
+        and(
+          eq(otpCodes.email, email),
+          eq(otpCodes.isUsed, false),
+          gt(otpCodes.expiresAt, now)
+        )
+      )
+      .orderBy(desc(otpCodes.createdAt))
+      .limit(1);
+    return latestOtp;
+  }
+
+  async markOtpAsUsed(id: number): Promise<OtpCode | undefined> {
+    const [updatedOtp] = await db
+      .update(otpCodes)
+      .set({ isUsed: true })
+      .where(eq(otpCodes.id, id))
+      .returning();
+    return updatedOtp;
+  }
+
+  // Subscription plan operations
+  async getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(subscriptionPlans)
+      .where(eq(subscriptionPlans.id, id));
+    return plan;
+  }
+
+  async getSubscriptionPlanById(id: number): Promise<SubscriptionPlan | undefined> {
+    return this.getSubscriptionPlan(id);
+  }
+
+  async getSubscriptionPlanByStripePriceId(priceId: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(subscriptionPlans)
+      .where(or(eq(subscriptionPlans.stripePriceIdMonthly, priceId), eq(subscriptionPlans.stripePriceIdYearly, priceId)));
+    return plan;
+  }
+
+  async getVendorIdByUserId(userId: number): Promise<number | undefined> {
+    const vendor = await this.getVendorByUserId(userId);
+    return vendor?.id;
+  }
+
+  // The vendor's latest subscription along with its plan
+  async getVendorSubscription(vendorId: number): Promise<SubscriptionInfo | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(platformSubscriptions)
+      .where(eq(platformSubscriptions.vendorId, vendorId))
+      .orderBy(desc(platformSubscriptions.createdAt), desc(platformSubscriptions.id))
+      .limit(1);
+    if (!subscription) return undefined;
+
+    const plan = await this.getSubscriptionPlan(subscription.planId);
+    return plan ? { ...subscription, plan } : undefined;
+  }
+
+  async getVendorSubscriptionByStripeId(stripeSubscriptionId: string): Promise<SubscriptionInfo | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(platformSubscriptions)
+      .where(eq(platformSubscriptions.stripeSubscriptionId, stripeSubscriptionId));
+    if (!subscription) return undefined;
+
+    const plan = await this.getSubscriptionPlan(subscription.planId);
+    return plan ? { ...subscription, plan } : undefined;
+  }
+
+  async getVendorSubscriptionsByStatus(statuses: string[]): Promise<SubscriptionInfo[]> {
+    const latest = await db
+      .selectDistinctOn([platformSubscriptions.vendorId])
+      .from(platformSubscriptions)
+      .orderBy(platformSubscriptions.vendorId, desc(platformSubscriptions.createdAt), desc(platformSubscriptions.id));
+    const matching = latest.filter(subscription => statuses.includes(subscription.status));
+    if (matching.length === 0) return [];
+
+    const plans = await db
+      .select()
+      .from(subscriptionPlans)
+      .where(inArray(subscriptionPlans.id, matching.map(subscription => subscription.planId)));
+    return matching.flatMap(subscription => {
+      const plan = plans.find(plan => plan.id === subscription.planId);
+      return plan ? [{ ...subscription, plan }] : [];
+    });
+  }
+
+  async createVendorSubscription(subscription: InsertPlatformSubscription): Promise<SubscriptionInfo> {
+    const [createdSubscription] = await db
+      .insert(platformSubscriptions)
+      .values(subscription)
+      .returning();
+
+    const plan = await this.getSubscriptionPlan(createdSubscription.planId);
+    if (!plan) {
+      throw new Error(`Subscription plan with ID ${createdSubscription.planId} not found`);
+    }
+    return { ...createdSubscription, plan };
+  }
+
+  async updateVendorSubscription(id: number, data: Partial<InsertPlatformSubscription>): Promise<SubscriptionInfo | undefined> {
+    const [updatedSubscription] = await db
+      .update(platformSubscriptions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(platformSubscriptions.id, id))
+      .returning();
+    if (!updatedSubscription) return undefined;
+
+    const plan = await this.getSubscriptionPlan(updatedSubscription.planId);
+    if (!plan) {
+      throw new Error(`Subscription plan with ID ${updatedSubscription.planId} not found`);
+    }
+    return { ...updatedSubscription, plan };
+  }
+
+  async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
+    return db.select().from(subscriptionPlans);
+  }
+
+  async createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
+    const [newPlan] = await db
+      .insert(subscriptionPlans)
+      .values(plan)
+      .returning();
+    return newPlan;
+  }
+
+  async updateSubscriptionPlan(id: number, data: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined> {
+    const [updatedPlan] = await db
+      .update(subscriptionPlans)
+      .set(data)
+      .where(eq(subscriptionPlans.id, id))
+      .returning();
+    return updatedPlan;
+  }
+
+  // Vendor operations
+  async getVendor(id: number): Promise<Vendor | undefined> {
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(eq(vendors.id, id));
+    return vendor;
+  }
+
+  async getVendors(): Promise<Vendor[]> {
+    return db.select().from(vendors);
+  }
+
+  async getVendorByUserId(userId: number): Promise<Vendor | undefined> {
+    const [vendor] = await db
+      .select()
+      .from(vendors)
+      .where(eq(vendors.userId, userId));
+    return vendor;
+  }
+
+  // Tenant-scoped lookups
+  async getVendorDomain(vendorId: number, id: number): Promise<Domain | undefined> {
+    const [domain] = await db
+      .select()
+      .from(domains)
+      .where(and(eq(domains.id, id), eq(domains.vendorId, vendorId)));
+    return domain;
+  }
+
+  async getVendorProductCategory(vendorId: number, id: number): Promise<ProductCategory | undefined> {
+    const [category] = await db
+      .select()
+      .from(productCategories)
+      .where(and(eq(productCategories.id, id), eq(productCategories.vendorId, vendorId)));
+    return category;
+  }
+
+  async getVendorProduct(vendorId: number, id: number): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, id), eq(products.vendorId, vendorId)));
+    return product;
+  }
+
+  async getVendorProductVariant(vendorId: number, id: number): Promise<ProductVariant | undefined> {
+    const [row] = await db
+      .select({ variant: productVariants })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(and(eq(productVariants.id, id), eq(products.vendorId, vendorId)));
+    return row?.variant;
+  }
+
+  async getVendorCustomer(vendorId: number, id: number): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.id, id), eq(customers.vendorId, vendorId)));
+    return customer;
+  }
+
+  async getVendorOrder(vendorId: number, id: number): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(eq(orders.id, id), eq(orders.vendorId, vendorId)));
+    return order;
+  }
+
+  async createVendor(vendor: InsertVendor): Promise<Vendor> {
+    const [newVendor] = await db
+      .insert(vendors)
+      .values(vendor)
+      .returning();
+    return newVendor;
+  }
+
+  async updateVendor(id: number, data: Partial<InsertVendor>): Promise<Vendor | undefined> {
+    const [updatedVendor] = await db
+      .update(vendors)
+      .set(data)
+      .where(eq(vendors.id, id))
+      .returning();
+    invalidateDomainCache();
+    return updatedVendor;
+  }
+
+  // Domain operations
+  async getDomain(id: number): Promise<Domain | undefined> {
+    const [domain] = await db
+      .select()
+      .from(domains)
+      .where(eq(domains.id, id));
+    return domain;
+  }
+
+  async getDomains(): Promise<Domain[]> {
+    return db.select().from(domains);
+  }
+
+  async getDomainsByVendorId(vendorId: number): Promise<Domain[]> {
+    return db
+      .select()
+      .from(domains)
       .where(eq(domains.vendorId, vendorId));
   }
 
-  async getDomainByName(name: string): Promise<Domain | undefined> {
-    const [domain] = await db
+  async getDomainByName(name: string): Promise<Domain | undefined> {
+    const [domain] = await db
+      .select()
+      .from(domains)
+      .where(eq(domains.name, name));
+    return domain;
+  }
+
+  async createDomain(domain: InsertDomain): Promise<Domain> {
+    const [newDomain] = await db
+      .insert(domains)
+      .values(domain)
+      .returning();
+    invalidateDomainCache();
+    return newDomain;
+  }
+
+  async updateDomain(id: number, data: Partial<InsertDomain>): Promise<Domain | undefined> {
+    const [updatedDomain] = await db
+      .update(domains)
+      .set(data)
+      .where(eq(domains.id, id))
+      .returning();
+    invalidateDomainCache();
+    return updatedDomain;
+  }
+
+  async deleteDomain(id: number): Promise<boolean> {
+    const result = await db
+      .delete(domains)
+      .where(eq(domains.id, id));
+    invalidateDomainCache();
+    return result.count > 0;
+  }
+  
+  async recordDomainVerification(id: number, result: DomainVerificationResult): Promise<Domain | undefined> {
+    const domain = await this.getDomain(id);
+    if (!domain) return undefined;
+
+    const [updatedDomain] = await db
+      .update(domains)
+      .set(getVerificationUpdate(domain, result))
+      .where(eq(domains.id, id))
+      .returning();
+    invalidateDomainCache();
+    return updatedDomain;
+  }
+  
+  async generateVerificationToken(id: number): Promise<Domain | undefined> {
+    // Generate a random verification token for the domain
+    const token = `lelekart-verify-${Math.random().toString(36).substring(2, 15)}`;
+    
+    const data = {
+      verificationToken: token,
+      verificationStatus: 'pending',
+      lastCheckedAt: new Date()
+    };
+    
+    const [updatedDomain] = await db
+      .update(domains)
+      .set(data)
+      .where(eq(domains.id, id))
+      .returning();
+      
+    return updatedDomain;
+  }
+  
+  // Certificate operations
+  async getDomainCertificate(id: number): Promise<DomainCertificate | undefined> {
+    const [certificate] = await db
+      .select()
+      .from(domainCertificates)
+      .where(eq(domainCertificates.id, id));
+    return certificate;
+  }
+
+  async getDomainCertificates(domainId: number): Promise<DomainCertificate[]> {
+    return await db
+      .select()
+      .from(domainCertificates)
+      .where(eq(domainCertificates.domainId, domainId))
+      .orderBy(desc(domainCertificates.id));
+  }
+
+  async createDomainCertificate(certificate: InsertDomainCertificate): Promise<DomainCertificate> {
+    const [newCertificate] = await db
+      .insert(domainCertificates)
+      .values(certificate)
+      .returning();
+    return newCertificate;
+  }
+
+  async updateDomainCertificate(id: number, data: Partial<InsertDomainCertificate>): Promise<DomainCertificate | undefined> {
+    const [updatedCertificate] = await db
+      .update(domainCertificates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(domainCertificates.id, id))
+      .returning();
+    return updatedCertificate;
+  }
+
+  // ACME operations
+  async getAcmeAccount(directoryUrl: string): Promise<AcmeAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(acmeAccounts)
+      .where(eq(acmeAccounts.directoryUrl, directoryUrl));
+    return account;
+  }
+
+  async createAcmeAccount(account: InsertAcmeAccount): Promise<AcmeAccount> {
+    const [newAccount] = await db
+      .insert(acmeAccounts)
+      .values(account)
+      .returning();
+    return newAccount;
+  }
+
+  async updateAcmeAccount(id: number, data: Partial<InsertAcmeAccount>): Promise<AcmeAccount | undefined> {
+    const [updatedAccount] = await db
+      .update(acmeAccounts)
+      .set(data)
+      .where(eq(acmeAccounts.id, id))
+      .returning();
+    return updatedAccount;
+  }
+
+  async getAcmeChallenge(token: string): Promise<AcmeChallenge | undefined> {
+    const [challenge] = await db
+      .select()
+      .from(acmeChallenges)
+      .where(eq(acmeChallenges.token, token));
+    return challenge;
+  }
+
+  async createAcmeChallenge(challenge: InsertAcmeChallenge): Promise<AcmeChallenge> {
+    // A retried order can hand out the same token again
+    const [newChallenge] = await db
+      .insert(acmeChallenges)
+      .values(challenge)
+      .onConflictDoUpdate({
+        target: acmeChallenges.token,
+        set: { keyAuthorization: challenge.keyAuthorization, domainName: challenge.domainName, expiresAt: challenge.expiresAt }
+      })
+      .returning();
+    return newChallenge;
+  }
+
+  async deleteAcmeChallenge(token: string): Promise<boolean> {
+    const result = await db
+      .delete(acmeChallenges)
+      .where(eq(acmeChallenges.token, token));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Product category operations
+  async getProductCategory(id: number): Promise<ProductCategory | undefined> {
+    const [category] = await db
+      .select()
+      .from(productCategories)
+      .where(eq(productCategories.id, id));
+    return category;
+  }
+
+  async getProductCategories(vendorId: number): Promise<(ProductCategory & { productCount?: number })[]> {
+    // Fetch vendor-specific categories and global categories
+    const categories = await db
+      .select()
+      .from(productCategories)
+      .where(
+        or(
+          eq(productCategories.vendorId, vendorId),
+          eq(productCategories.isGlobal, true)
+        )
+      )
+      .orderBy(productCategories.level, productCategories.name);
+    
+    // Get product counts for each category to determine which are in use
+    let categoryCounts = [];
+    
+    // Only query products if vendorId is provided (not null or undefined)
+    if (vendorId) {
+      categoryCounts = await db.select({
+        categoryId: products.categoryId,
+        count: sql<number>`count(${products.id})`
+      })
+      .from(products)
+      .where(and(
+        eq(products.vendorId, vendorId),
+        isNotNull(products.categoryId)
+      ))
+      .groupBy(products.categoryId);
+    }
+    
+    // Create a map of category IDs to product counts
+    const countMap = new Map<number, number>();
+    
+    // Only process categoryCounts if it exists and has items
+    if (categoryCounts && categoryCounts.length > 0) {
+      for (const item of categoryCounts) {
+        if (item.categoryId) {
+          countMap.set(item.categoryId, Number(item.count));
+        }
+      }
+    }
+    
+    // Add product count to each category
+    return categories.map(category => ({
+      ...category,
+      productCount: countMap.get(category.id) || 0
+    }));
+  }
+
+  async createProductCategory(category: InsertProductCategory): Promise<ProductCategory> {
+    const [newCategory] = await db
+      .insert(productCategories)
+      .values(category)
+      .returning();
+    return newCategory;
+  }
+
+  async updateProductCategory(id: number, data: Partial<InsertProductCategory>): Promise<ProductCategory | undefined> {
+    const [updatedCategory] = await db
+      .update(productCategories)
+      .set(data)
+      .where(eq(productCategories.id, id))
+      .returning();
+    return updatedCategory;
+  }
+  
+  async getGlobalProductCategories(): Promise<ProductCategory[]> {
+    // Fetch only global categories (for super admin)
+    const categories = await db
+      .select()
+      .from(productCategories)
+      .where(eq(productCategories.isGlobal, true))
+      .orderBy(productCategories.level, productCategories.name);
+    
+    return categories;
+  }
+  
+  async getAllProductCategories(): Promise<ProductCategory[]> {
+    // Fetch all categories (for super admin)
+    const categories = await db
+      .select()
+      .from(productCategories)
+      .orderBy(productCategories.level, productCategories.name);
+    
+    return categories;
+  }
+
+  async deleteProductCategory(id: number): Promise<boolean> {
+    const result = await db
+      .delete(productCategories)
+      .where(eq(productCategories.id, id));
+    return result.count > 0;
+  }
+
+  // Product operations
+  async getProduct(id: number): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(eq(products.id, id));
+    return product;
+  }
+
+  async getProducts(vendorId: number): Promise<Product[]> {
+    return db
+      .select()
+      .from(products)
+      .where(eq(products.vendorId, vendorId));
+  }
+
+  async getProductsByCategory(categoryId: number, includeSubcategories: boolean = false): Promise<Product[]> {
+    // If we don't need subcategory products, use the simple query
+    if (!includeSubcategories) {
+      return db
+        .select()
+        .from(products)
+        .where(eq(products.categoryId, categoryId));
+    }
+    
+    // Get the category to check if it's global
+    const [category] = await db
+      .select()
+      .from(productCategories)
+      .where(eq(productCategories.id, categoryId));
+    
+    // If we need to include subcategories, first get all subcategories
+    let subcategoriesQuery = db
+      .select()
+      .from(productCategories)
+      .where(eq(productCategories.parentId, categoryId));
+    
+    // For global categories, we also want to fetch vendor-specific subcategories that point to this global category
+    const subcategories = await subcategoriesQuery;
+    
+    const categoryIds = [categoryId, ...subcategories.map(c => c.id)];
+    
+    // Then get products from all these categories
+    return db
+      .select()
+      .from(products)
+      .where(db.inArray(products.categoryId, categoryIds));
+  }
+
+  async createProduct(product: InsertProduct): Promise<Product> {
+    const [newProduct] = await db
+      .insert(products)
+      .values(product)
+      .returning();
+    return newProduct;
+  }
+
+  async updateProduct(id: number, data: Partial<InsertProduct>): Promise<Product | undefined> {
+    const [updatedProduct] = await db
+      .update(products)
+      .set(data)
+      .where(eq(products.id, id))
+      .returning();
+    return updatedProduct;
+  }
+
+  async deleteProduct(id: number): Promise<boolean> {
+    const result = await db
+      .delete(products)
+      .where(eq(products.id, id));
+    return result.count > 0;
+  }
+
+  // Product variant operations
+  async getProductVariant(id: number): Promise<ProductVariant | undefined> {
+    const [variant] = await db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  async getProductVariantsByProductId(productId: number): Promise<ProductVariant[]> {
+    return db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(productVariants.position);
+  }
+
+  async createProductVariant(variant: InsertProductVariant): Promise<ProductVariant> {
+    const [newVariant] = await db
+      .insert(productVariants)
+      .values(toVariantRow(variant))
+      .returning();
+    return newVariant;
+  }
+
+  async updateProductVariant(id: number, data: Partial<InsertProductVariant>): Promise<ProductVariant | undefined> {
+    const [updatedVariant] = await db
+      .update(productVariants)
+      .set({ ...toVariantRow(data), updatedAt: new Date() })
+      .where(eq(productVariants.id, id))
+      .returning();
+    return updatedVariant;
+  }
+
+  async deleteProductVariant(id: number): Promise<boolean> {
+    const result = await db
+      .delete(productVariants)
+      .where(eq(productVariants.id, id))
+      .returning({ id: productVariants.id });
+    return result.length > 0;
+  }
+
+  // Product option operations
+  async getProductOptions(productId: number): Promise<ProductOptionWithValues[]> {
+    const options = await db
+      .select()
+      .from(productOptions)
+      .where(eq(productOptions.productId, productId))
+      .orderBy(asc(productOptions.position));
+    if (options.length === 0) return [];
+
+    const values = await db
+      .select()
+      .from(productOptionValues)
+      .where(inArray(productOptionValues.optionId, options.map(option => option.id)))
+      .orderBy(asc(productOptionValues.position));
+
+    return options.map(option => ({
+      ...option,
+      values: values.filter(value => value.optionId === option.id),
+    }));
+  }
+
+  async saveProductOptions(productId: number, input: ProductOptionsInput): Promise<ProductOptionWithValues[]> {
+    const previous = await this.getProductOptions(productId);
+
+    await db.transaction(async (tx) => {
+      const keptOptionIds: number[] = [];
+      const keptValueIds: number[] = [];
+
+      for (let position = 0; position < input.length; position++) {
+        const optionInput = input[position];
+        const existing = optionInput.id !== undefined ? previous.find(o => o.id === optionInput.id) : undefined;
+        let optionId: number;
+        if (existing) {
+          await tx
+            .update(productOptions)
+            .set({ name: optionInput.name, position })
+            .where(eq(productOptions.id, existing.id));
+          optionId = existing.id;
+        } else {
+          const [created] = await tx
+            .insert(productOptions)
+            .values({ productId, name: optionInput.name, position })
+            .returning({ id: productOptions.id });
+          optionId = created.id;
+        }
+        keptOptionIds.push(optionId);
+
+        for (let valuePosition = 0; valuePosition < optionInput.values.length; valuePosition++) {
+          const valueInput = optionInput.values[valuePosition];
+          const fields = {
+            value: valueInput.value,
+            position: valuePosition,
+            swatch: valueInput.swatch ?? null,
+            imageUrl: valueInput.imageUrl ?? null,
+          };
+          const existingValue = valueInput.id !== undefined ? existing?.values.find(v => v.id === valueInput.id) : undefined;
+          if (existingValue) {
+            await tx.update(productOptionValues).set(fields).where(eq(productOptionValues.id, existingValue.id));
+            keptValueIds.push(existingValue.id);
+          } else {
+            const [created] = await tx
+              .insert(productOptionValues)
+              .values({ optionId, ...fields })
+              .returning({ id: productOptionValues.id });
+            keptValueIds.push(created.id);
+          }
+        }
+      }
+
+      const removedValueIds = previous
+        .flatMap(option => option.values.map(value => value.id))
+        .filter(id => !keptValueIds.includes(id));
+      if (removedValueIds.length > 0) {
+        await tx.delete(productOptionValues).where(inArray(productOptionValues.id, removedValueIds));
+      }
+      const removedOptionIds = previous.map(option => option.id).filter(id => !keptOptionIds.includes(id));
+      if (removedOptionIds.length > 0) {
+        await tx.delete(productOptions).where(inArray(productOptions.id, removedOptionIds));
+      }
+    });
+
+    const options = await this.getProductOptions(productId);
+    const variants = await this.getProductVariantsByProductId(productId);
+    const { updates, deletions } = reconcileVariants(previous, options, variants);
+
+    await db.transaction(async (tx) => {
+      for (const update of updates) {
+        await tx
+          .update(productVariants)
+          .set({ optionValueIds: update.optionValueIds, title: update.title, updatedAt: new Date() })
+          .where(eq(productVariants.id, update.id));
+      }
+      if (deletions.length > 0) {
+        // Cart lines for a combination that's gone can't be bought any more
+        await tx.delete(cartItems).where(inArray(cartItems.variantId, deletions));
+        await tx.delete(productVariants).where(inArray(productVariants.id, deletions));
+      }
+    });
+
+    return options;
+  }
+
+  // Product import job operations
+  async getProductImportJob(id: number): Promise<ProductImportJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(productImportJobs)
+      .where(eq(productImportJobs.id, id));
+    return job;
+  }
+
+  async createProductImportJob(job: InsertProductImportJob): Promise<ProductImportJob> {
+    const [newJob] = await db
+      .insert(productImportJobs)
+      .values(job)
+      .returning();
+    return newJob;
+  }
+
+  async updateProductImportJob(id: number, data: Partial<ProductImportJob>): Promise<ProductImportJob | undefined> {
+    const { id: _id, ...changes } = data;
+    const [updatedJob] = await db
+      .update(productImportJobs)
+      .set(changes)
+      .where(eq(productImportJobs.id, id))
+      .returning();
+    return updatedJob;
+  }
+
+  // Image asset operations
+  async getImageAssetsByUrls(urls: string[]): Promise<ImageAsset[]> {
+    if (urls.length === 0) return [];
+    return db
+      .select()
+      .from(imageAssets)
+      .where(inArray(imageAssets.url, urls));
+  }
+
+  async createImageAsset(asset: InsertImageAsset): Promise<ImageAsset> {
+    const [newAsset] = await db
+      .insert(imageAssets)
+      .values(asset as typeof imageAssets.$inferInsert)
+      .returning();
+    return newAsset;
+  }
+
+  // Uploaded file operations
+  async getUploadedFileByKey(key: string): Promise<UploadedFile | undefined> {
+    const [file] = await db
+      .select()
+      .from(uploadedFiles)
+      .where(eq(uploadedFiles.key, key));
+    return file;
+  }
+
+  async createUploadedFile(file: InsertUploadedFile): Promise<UploadedFile> {
+    const [newFile] = await db
+      .insert(uploadedFiles)
+      .values(file)
+      .returning();
+    return newFile;
+  }
+
+  async deleteUploadedFile(id: number): Promise<boolean> {
+    const result = await db
+      .delete(uploadedFiles)
+      .where(eq(uploadedFiles.id, id))
+      .returning({ id: uploadedFiles.id });
+    return result.length > 0;
+  }
+
+  async getVendorStorageBytes(vendorId: number): Promise<number> {
+    const [images] = await db
+      .select({
+        bytes: sql<string>`coalesce(sum((select sum((r->>'size')::bigint) from jsonb_array_elements(${imageAssets.renditions}) r)), 0)`
+      })
+      .from(imageAssets)
+      .where(eq(imageAssets.vendorId, vendorId));
+    const [files] = await db
+      .select({ bytes: sql<string>`coalesce(sum(${uploadedFiles.size}), 0)` })
+      .from(uploadedFiles)
+      .where(eq(uploadedFiles.vendorId, vendorId));
+    return Number(images?.bytes ?? 0) + Number(files?.bytes ?? 0);
+  }
+
+  // Payment method operations
+  async getPaymentMethodsByVendorId(vendorId: number): Promise<PaymentMethod[]> {
+    return db
+      .select()
+      .from(paymentMethods)
+      .where(eq(paymentMethods.vendorId, vendorId));
+  }
+
+  // Payment provider settings operations
+  async getPaymentProviderSettings(id: number): Promise<PaymentProviderSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(paymentProviderSettings)
+      .where(eq(paymentProviderSettings.id, id));
+    return settings;
+  }
+
+  async getPaymentProviderSettingsByVendorId(vendorId: number, provider: string): Promise<PaymentProviderSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(paymentProviderSettings)
+      .where(
+        and(
+          eq(paymentProviderSettings.vendorId, vendorId),
+          eq(paymentProviderSettings.provider, provider)
+        )
+      );
+    return settings;
+  }
+
+  async getAllPaymentProviderSettings(): Promise<PaymentProviderSettings[]> {
+    return db.select().from(paymentProviderSettings).orderBy(asc(paymentProviderSettings.id));
+  }
+
+  async createPaymentProviderSettings(settings: InsertPaymentProviderSettings): Promise<PaymentProviderSettings> {
+    const [createdSettings] = await db
+      .insert(paymentProviderSettings)
+      .values(settings)
+      .returning();
+    return createdSettings;
+  }
+
+  async updatePaymentProviderSettings(id: number, data: Partial<InsertPaymentProviderSettings>): Promise<PaymentProviderSettings | undefined> {
+    const [updatedSettings] = await db
+      .update(paymentProviderSettings)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(paymentProviderSettings.id, id))
+      .returning();
+    return updatedSettings;
+  }
+
+  // Webhook event operations
+  async claimWebhookEvent(event: InsertWebhookEvent, staleBefore: Date): Promise<WebhookEvent | undefined> {
+    // One statement, so two deliveries of the same event can't both claim it
+    const [claimed] = await db
+      .insert(webhookEvents)
+      .values(event)
+      .onConflictDoUpdate({
+        target: [webhookEvents.provider, webhookEvents.eventId],
+        set: { status: "processing", attempts: sql`${webhookEvents.attempts} + 1`, payload: event.payload, claimedAt: new Date() },
+        setWhere: or(
+          eq(webhookEvents.status, "failed"),
+          and(eq(webhookEvents.status, "processing"), lt(webhookEvents.claimedAt, staleBefore))
+        ),
+      })
+      .returning();
+    return claimed;
+  }
+
+  async updateWebhookEvent(id: number, data: Partial<InsertWebhookEvent>): Promise<WebhookEvent | undefined> {
+    const [updated] = await db
+      .update(webhookEvents)
+      .set(data)
+      .where(eq(webhookEvents.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Tax document operations
+  async nextDocumentNumber(scope: string, financialYear: string): Promise<number> {
+    // One statement, so concurrent requests never get the same number
+    const [sequence] = await db
+      .insert(documentSequences)
+      .values({ scope, financialYear, lastNumber: 1 })
+      .onConflictDoUpdate({
+        target: [documentSequences.scope, documentSequences.financialYear],
+        set: { lastNumber: sql`${documentSequences.lastNumber} + 1` },
+      })
+      .returning();
+    return sequence.lastNumber;
+  }
+
+  async getTaxDocumentByOrderId(orderId: number): Promise<TaxDocument | undefined> {
+    const [document] = await db.select().from(taxDocuments).where(eq(taxDocuments.orderId, orderId));
+    return document;
+  }
+
+  async getTaxDocumentByInvoiceId(invoiceId: number): Promise<TaxDocument | undefined> {
+    const [document] = await db.select().from(taxDocuments).where(eq(taxDocuments.invoiceId, invoiceId));
+    return document;
+  }
+
+  async createTaxDocument(document: InsertTaxDocument): Promise<TaxDocument> {
+    const [newDocument] = await db.insert(taxDocuments).values(document).returning();
+    return newDocument;
+  }
+
+  async updateTaxDocument(id: number, data: Partial<InsertTaxDocument>): Promise<TaxDocument | undefined> {
+    const [updated] = await db.update(taxDocuments).set(data).where(eq(taxDocuments.id, id)).returning();
+    return updated;
+  }
+
+  // Promotion operations
+  async getPromotion(id: number): Promise<Promotion | undefined> {
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, id));
+    return promotion;
+  }
+
+  async getPromotionsByVendorId(vendorId: number): Promise<Promotion[]> {
+    return db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.vendorId, vendorId))
+      .orderBy(desc(promotions.createdAt));
+  }
+
+  async getPromotionByCode(vendorId: number, code: string): Promise<Promotion | undefined> {
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.vendorId, vendorId), eq(promotions.code, code.toUpperCase())));
+    return promotion;
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [newPromotion] = await db
+      .insert(promotions)
+      .values(promotion)
+      .returning();
+    return newPromotion;
+  }
+
+  async updatePromotion(id: number, data: Partial<InsertPromotion>): Promise<Promotion | undefined> {
+    const [updatedPromotion] = await db
+      .update(promotions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    return updatedPromotion;
+  }
+
+  async deletePromotion(id: number): Promise<boolean> {
+    const result = await db
+      .delete(promotions)
+      .where(eq(promotions.id, id))
+      .returning({ id: promotions.id });
+    return result.length > 0;
+  }
+
+  async countPromotionRedemptions(promotionId: number, customerId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(promotionRedemptions)
+      .where(and(eq(promotionRedemptions.promotionId, promotionId), eq(promotionRedemptions.customerId, customerId)));
+    return count;
+  }
+
+  // Shipping operations
+  async getShippingZones(vendorId: number): Promise<ShippingZone[]> {
+    return db
+      .select()
+      .from(shippingZones)
+      .where(eq(shippingZones.vendorId, vendorId))
+      .orderBy(shippingZones.position, shippingZones.id);
+  }
+
+  async getShippingZone(id: number): Promise<ShippingZone | undefined> {
+    const [zone] = await db
+      .select()
+      .from(shippingZones)
+      .where(eq(shippingZones.id, id));
+    return zone;
+  }
+
+  async createShippingZone(zone: InsertShippingZone): Promise<ShippingZone> {
+    const [newZone] = await db
+      .insert(shippingZones)
+      .values(zone)
+      .returning();
+    return newZone;
+  }
+
+  async updateShippingZone(id: number, data: Partial<InsertShippingZone>): Promise<ShippingZone | undefined> {
+    const [updatedZone] = await db
+      .update(shippingZones)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(shippingZones.id, id))
+      .returning();
+    return updatedZone;
+  }
+
+  async deleteShippingZone(id: number): Promise<boolean> {
+    // Rates are removed with the zone by the foreign key cascade
+    const result = await db
+      .delete(shippingZones)
+      .where(eq(shippingZones.id, id))
+      .returning({ id: shippingZones.id });
+    return result.length > 0;
+  }
+
+  async getShippingRates(zoneId: number): Promise<ShippingRate[]> {
+    return db
+      .select()
+      .from(shippingRates)
+      .where(eq(shippingRates.zoneId, zoneId))
+      .orderBy(shippingRates.id);
+  }
+
+  async getShippingRate(id: number): Promise<ShippingRate | undefined> {
+    const [rate] = await db
+      .select()
+      .from(shippingRates)
+      .where(eq(shippingRates.id, id));
+    return rate;
+  }
+
+  async createShippingRate(rate: InsertShippingRate): Promise<ShippingRate> {
+    const [newRate] = await db
+      .insert(shippingRates)
+      .values(rate)
+      .returning();
+    return newRate;
+  }
+
+  async updateShippingRate(id: number, data: Partial<InsertShippingRate>): Promise<ShippingRate | undefined> {
+    const [updatedRate] = await db
+      .update(shippingRates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(shippingRates.id, id))
+      .returning();
+    return updatedRate;
+  }
+
+  async deleteShippingRate(id: number): Promise<boolean> {
+    const result = await db
+      .delete(shippingRates)
+      .where(eq(shippingRates.id, id))
+      .returning({ id: shippingRates.id });
+    return result.length > 0;
+  }
+
+  // Cart operations
+  async getCartByUserId(userId: number): Promise<any> {
+    const [cart] = await db
+      .select()
+      .from(carts)
+      .where(eq(carts.userId, userId))
+      .limit(1);
+    if (!cart) return this.emptyCart({ userId });
+
+    const items = await db.select().from(cartItems).where(eq(cartItems.cartId, cart.id));
+    return { ...cart, items };
+  }
+
+  async getCartBySessionId(sessionId: string): Promise<any> {
+    const [cart] = await db
+      .select()
+      .from(carts)
+      .where(eq(carts.sessionId, sessionId))
+      .limit(1);
+    if (!cart) return this.emptyCart({ sessionId });
+
+    const items = await db.select().from(cartItems).where(eq(cartItems.cartId, cart.id));
+    return { ...cart, items };
+  }
+
+  async addToCart(userId: number | null, sessionId: string | null, item: any): Promise<any> {
+    let cart = await this.getCart(userId, sessionId);
+
+    const product = await this.getProduct(item.productId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    if (!cart.id) {
+      const [newCart] = await db
+        .insert(carts)
+        .values({
+          userId: userId || null,
+          sessionId: userId ? null : sessionId,
+          vendorId: product.vendorId,
+          subtotal: "0.00",
+          tax: "0.00",
+          total: "0.00",
+        })
+        .returning();
+      cart = { ...newCart, items: [] };
+    }
+
+    // The same product in a different variant is a separate line
+    const variant = item.variantId ? await this.getProductVariant(item.variantId) : undefined;
+    const variantId = variant?.id ?? null;
+    const existingItem = cart.items.find((i: any) => i.productId === product.id && (i.variantId ?? null) === variantId);
+
+    if (existingItem) {
+      const [updatedItem] = await db
+        .update(cartItems)
+        .set({ quantity: existingItem.quantity + item.quantity })
+        .where(eq(cartItems.id, existingItem.id))
+        .returning();
+      Object.assign(existingItem, updatedItem);
+    } else {
+      const [newItem] = await db
+        .insert(cartItems)
+        .values({
+          cartId: cart.id,
+          productId: product.id,
+          name: product.name,
+          price: (variant?.sellingPrice ?? product.sellingPrice).toString(),
+          quantity: item.quantity,
+          imageUrl: variant?.imageUrl || product.featuredImageUrl || null,
+          variantId,
+          variant: variant?.title ?? null,
+        })
+        .returning();
+      cart.items.push(newItem);
+    }
+
+    await this.recalculateCartTotals(cart);
+    return cart;
+  }
+
+  async updateCartItemQuantity(userId: number | null, sessionId: string | null, itemId: number, quantity: number): Promise<any> {
+    const cart = await this.getCart(userId, sessionId);
+
+    const item = cart.items.find((i: any) => i.id === itemId);
+    if (!item) {
+      throw new Error("Cart item not found");
+    }
+
+    await db
+      .update(cartItems)
+      .set({ quantity })
+      .where(eq(cartItems.id, itemId));
+    item.quantity = quantity;
+
+    await this.recalculateCartTotals(cart);
+    return cart;
+  }
+
+  async removeFromCart(userId: number | null, sessionId: string | null, itemId: number): Promise<any> {
+    const cart = await this.getCart(userId, sessionId);
+
+    const itemIndex = cart.items.findIndex((i: any) => i.id === itemId);
+    if (itemIndex === -1) {
+      throw new Error("Cart item not found");
+    }
+
+    await db.delete(cartItems).where(eq(cartItems.id, itemId));
+    cart.items.splice(itemIndex, 1);
+
+    await this.recalculateCartTotals(cart);
+    return cart;
+  }
+
+  async clearCart(userId: number | null, sessionId: string | null): Promise<boolean> {
+    const cart = await this.getCart(userId, sessionId);
+    if (!cart.id) return true;
+
+    await db.delete(cartItems).where(eq(cartItems.cartId, cart.id));
+    await db
+      .update(carts)
+      .set({ subtotal: "0.00", tax: "0.00", discount: "0.00", total: "0.00", promotionCode: null, shippingRateId: null, updatedAt: new Date() })
+      .where(eq(carts.id, cart.id));
+    return true;
+  }
+
+  async setCartPromotionCode(userId: number | null, sessionId: string | null, code: string | null): Promise<any> {
+    const cart = await this.getCart(userId, sessionId);
+    if (!cart.id) {
+      throw new Error("Cart is empty");
+    }
+
+    cart.promotionCode = code ? code.toUpperCase() : null;
+    await db.update(carts).set({ promotionCode: cart.promotionCode }).where(eq(carts.id, cart.id));
+
+    await this.recalculateCartTotals(cart);
+    return cart;
+  }
+
+  async setCartShippingRate(userId: number | null, sessionId: string | null, rateId: number | null): Promise<any> {
+    const cart = await this.getCart(userId, sessionId);
+    if (!cart.id) {
+      throw new Error("Cart is empty");
+    }
+
+    cart.shippingRateId = rateId;
+    await db.update(carts).set({ shippingRateId: rateId, updatedAt: new Date() }).where(eq(carts.id, cart.id));
+    return cart;
+  }
+
+  async deleteAbandonedCarts(idleSince: Date): Promise<number> {
+    const abandoned = and(isNull(carts.userId), lt(carts.updatedAt, idleSince));
+    return db.transaction(async (tx) => {
+      await tx.delete(cartItems).where(inArray(cartItems.cartId, tx.select({ id: carts.id }).from(carts).where(abandoned)));
+      const deleted = await tx.delete(carts).where(abandoned).returning({ id: carts.id });
+      return deleted.length;
+    });
+  }
+
+  private async getCart(userId: number | null, sessionId: string | null): Promise<any> {
+    if (userId) return this.getCartByUserId(userId);
+    if (sessionId) return this.getCartBySessionId(sessionId);
+    throw new Error("Either userId or sessionId is required");
+  }
+
+  private emptyCart(owner: { userId?: number; sessionId?: string }): any {
+    return {
+      id: 0,
+      ...owner,
+      items: [],
+      subtotal: "0.00",
+      tax: "0.00",
+      total: "0.00",
+      vendorId: 1
+    };
+  }
+
+  // Store totals worked out from catalog prices, never from the client
+  private async recalculateCartTotals(cart: any): Promise<void> {
+    const pricing = await priceCart(this, cart);
+
+    for (const line of pricing.lines) {
+      const item = cart.items.find((i: any) => i.id === line.id);
+      if (item && item.price !== line.unitPrice) {
+        await db.update(cartItems).set({ price: line.unitPrice }).where(eq(cartItems.id, item.id));
+        item.price = line.unitPrice;
+      }
+    }
+
+    cart.subtotal = pricing.subtotal;
+    cart.tax = pricing.tax;
+    cart.discount = pricing.discount;
+    cart.total = pricing.total;
+
+    await db
+      .update(carts)
+      .set({ subtotal: pricing.subtotal, tax: pricing.tax, discount: pricing.discount, total: pricing.total, updatedAt: new Date() })
+      .where(eq(carts.id, cart.id));
+  }
+
+  // Customer operations
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomers(vendorId: number): Promise<Customer[]> {
+    return db
+      .select()
+      .from(customers)
+      .where(eq(customers.vendorId, vendorId));
+  }
+
+  async getCustomerByEmail(vendorId: number, email: string): Promise<Customer | undefined> {
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(eq(customers.vendorId, vendorId))
+      .where(eq(customers.email, email));
+    return customer;
+  }
+  
+  async getCustomerByUserId(userId: number, vendorId: number): Promise<Customer | undefined> {
+    // Get user by ID
+    const user = await this.getUser(userId);
+    if (!user || !user.email) return undefined;
+    
+    // Find customer by email and vendor ID
+    return this.getCustomerByEmail(vendorId, user.email);
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [newCustomer] = await db
+      .insert(customers)
+      .values(customer)
+      .returning();
+    return newCustomer;
+  }
+
+  async updateCustomer(id: number, data: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [updatedCustomer] = await db
+      .update(customers)
+      .set(data)
+      .where(eq(customers.id, id))
+      .returning();
+    return updatedCustomer;
+  }
+
+  // Customer address operations
+  async getCustomerAddress(id: number): Promise<CustomerAddress | undefined> {
+    const [address] = await db
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.id, id));
+    return address;
+  }
+
+  async getCustomerAddresses(customerId: number): Promise<CustomerAddress[]> {
+    return db
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.customerId, customerId));
+  }
+
+  async createCustomerAddress(address: InsertCustomerAddress): Promise<CustomerAddress> {
+    const [newAddress] = await db
+      .insert(customerAddresses)
+      .values(address)
+      .returning();
+    return newAddress;
+  }
+
+  async updateCustomerAddress(id: number, data: Partial<InsertCustomerAddress>): Promise<CustomerAddress | undefined> {
+    const [updatedAddress] = await db
+      .update(customerAddresses)
+      .set(data)
+      .where(eq(customerAddresses.id, id))
+      .returning();
+    return updatedAddress;
+  }
+
+  async deleteCustomerAddress(id: number): Promise<boolean> {
+    const result = await db
+      .delete(customerAddresses)
+      .where(eq(customerAddresses.id, id));
+    return result.count > 0;
+  }
+
+  // Order operations
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrders(vendorId: number): Promise<Order[]> {
+    return db
+      .select()
+      .from(orders)
+      .where(eq(orders.vendorId, vendorId));
+  }
+
+  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.orderNumber, orderNumber));
+    return order;
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    const [newOrder] = await db
+      .insert(orders)
+      .values(order)
+      .returning();
+    return newOrder;
+  }
+
+  async updateOrder(id: number, data: Partial<InsertOrder>): Promise<Order | undefined> {
+    const [updatedOrder] = await db
+      .update(orders)
+      .set(data)
+      .where(eq(orders.id, id))
+      .returning();
+    return updatedOrder;
+  }
+
+  async placeOrder(
+    order: InsertOrder,
+    items: Omit<InsertOrderItem, "orderId">[],
+    redemption?: { promotionId: number; customerId: number | null }
+  ): Promise<Order & { items: OrderItem[] }> {
+    const requests = groupStockRequests(items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId ?? null,
+      name: item.name,
+      quantity: item.quantity
+    })));
+
+    return db.transaction(async (tx) => {
+      // Lock every stock row first (in a stable order) so that concurrent
+      // checkouts for the same units queue up here instead of both succeeding
+      const shortages: StockShortage[] = [];
+      for (const request of requests) {
+        const [row] = request.variantId
+          ? await tx
+              .select({ inventoryQuantity: productVariants.inventoryQuantity })
+              .from(productVariants)
+              .where(and(eq(productVariants.id, request.variantId), eq(productVariants.productId, request.productId)))
+              .for("update")
+          : await tx
+              .select({ inventoryQuantity: products.inventoryQuantity })
+              .from(products)
+              .where(eq(products.id, request.productId))
+              .for("update");
+
+        const available = row?.inventoryQuantity ?? 0;
+        if (available < request.quantity) {
+          shortages.push({ ...request, requested: request.quantity, available });
+        }
+      }
+
+      if (shortages.length > 0) {
+        // Throwing rolls the transaction back and releases the locks
+        throw new InsufficientStockError(shortages);
+      }
+
+      for (const request of requests) {
+        if (request.variantId) {
+          await tx
+            .update(productVariants)
+            .set({
+              inventoryQuantity: sql`${productVariants.inventoryQuantity} - ${request.quantity}`,
+              updatedAt: new Date()
+            })
+            .where(eq(productVariants.id, request.variantId));
+        } else {
+          await tx
+            .update(products)
+            .set({
+              inventoryQuantity: sql`${products.inventoryQuantity} - ${request.quantity}`,
+              updatedAt: new Date()
+            })
+            .where(eq(products.id, request.productId));
+        }
+      }
+
+      const [newOrder] = await tx
+        .insert(orders)
+        .values(order)
+        .returning();
+
+      const newItems = items.length > 0
+        ? await tx
+            .insert(orderItems)
+            .values(items.map(item => ({ ...item, orderId: newOrder.id })))
+            .returning()
+        : [];
+
+      await tx.insert(orderEvents).values({ orderId: newOrder.id, type: "placed", toStatus: newOrder.status });
+
+      if (redemption) {
+        // Lock the promotion so two orders can't both take its last use
+        const [promotion] = await tx
+          .select()
+          .from(promotions)
+          .where(eq(promotions.id, redemption.promotionId))
+          .for("update");
+        if (!promotion) {
+          throw new PromotionError("PROMOTION_NOT_FOUND", "This code doesn't exist");
+        }
+
+        const [{ count }] = redemption.customerId
+          ? await tx
+              .select({ count: sql<number>`count(*)::int` })
+              .from(promotionRedemptions)
+              .where(and(
+                eq(promotionRedemptions.promotionId, promotion.id),
+                eq(promotionRedemptions.customerId, redemption.customerId)
+              ))
+          : [{ count: 0 }];
+        assertPromotionUsable(promotion, { customerId: redemption.customerId, customerRedemptions: count });
+
+        await tx
+          .update(promotions)
+          .set({ usageCount: sql`${promotions.usageCount} + 1` })
+          .where(eq(promotions.id, promotion.id));
+        await tx.insert(promotionRedemptions).values({
+          promotionId: promotion.id,
+          orderId: newOrder.id,
+          customerId: redemption.customerId,
+          discount: newOrder.discount ?? "0"
+        });
+      }
+
+      return { ...newOrder, items: newItems };
+    });
+  }
+
+  async transitionOrderStatus(id: number, status: string, options: OrderTransitionOptions = {}): Promise<Order | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the order so two requests can't both move it (and restock it twice)
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, id))
+        .for("update");
+      if (!order) return undefined;
+
+      const to = assertTransition(order.status, status);
+      if (to === "canceled") {
+        await this.restockOrder(tx, id);
+      }
+      if (to === "shipped") {
+        const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, id));
+        const fulfilled = await this.getFulfilledLines(tx, id);
+        if (!isFullyFulfilled(items, fulfilled)) {
+          await this.insertFulfillment(tx, id, {}, resolveFulfillmentLines(order.status, items, fulfilled), options.actorId);
+        }
+      }
+      if (to === "delivered") {
+        await tx
+          .update(fulfillments)
+          .set({ status: "delivered", deliveredAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(fulfillments.orderId, id), ne(fulfillments.status, "delivered")));
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ ...options.data, status: to, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      await tx.insert(orderEvents).values({
+        orderId: id,
+        type: "status_changed",
+        fromStatus: order.status,
+        toStatus: to,
+        message: options.note ?? null,
+        actorId: options.actorId ?? null
+      });
+      return updatedOrder;
+    });
+  }
+
+  // Puts a canceled order's items back into stock and gives back its discount code use
+  private async restockOrder(tx: DbTransaction, id: number): Promise<void> {
+    const items = await tx
       .select()
-      .from(domains)
-      .where(eq(domains.name, name));
-    return domain;
+      .from(orderItems)
+      .where(eq(orderItems.orderId, id));
+
+    for (const item of items) {
+      if (item.variantId) {
+        await tx
+          .update(productVariants)
+          .set({ inventoryQuantity: sql`${productVariants.inventoryQuantity} + ${item.quantity}` })
+          .where(eq(productVariants.id, item.variantId));
+      } else {
+        await tx
+          .update(products)
+          .set({ inventoryQuantity: sql`${products.inventoryQuantity} + ${item.quantity}` })
+          .where(eq(products.id, item.productId));
+      }
+    }
+
+    // Give back any discount code use so the customer can use it again
+    const redemptions = await tx
+      .delete(promotionRedemptions)
+      .where(eq(promotionRedemptions.orderId, id))
+      .returning();
+    for (const redemption of redemptions) {
+      await tx
+        .update(promotions)
+        .set({ usageCount: sql`greatest(${promotions.usageCount} - 1, 0)` })
+        .where(eq(promotions.id, redemption.promotionId));
+    }
+  }
+
+  // Order history and fulfillment operations
+  async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    return db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt), asc(orderEvents.id));
+  }
+
+  async createOrderEvent(event: InsertOrderEvent): Promise<OrderEvent> {
+    const [newEvent] = await db
+      .insert(orderEvents)
+      .values(event)
+      .returning();
+    return newEvent;
+  }
+
+  async getFulfillments(orderId: number): Promise<FulfillmentWithItems[]> {
+    const shipments = await db
+      .select()
+      .from(fulfillments)
+      .where(eq(fulfillments.orderId, orderId))
+      .orderBy(asc(fulfillments.id));
+    if (shipments.length === 0) return [];
+
+    const items = await db
+      .select()
+      .from(fulfillmentItems)
+      .where(inArray(fulfillmentItems.fulfillmentId, shipments.map(f => f.id)));
+    return shipments.map(fulfillment => ({
+      ...fulfillment,
+      items: items.filter(item => item.fulfillmentId === fulfillment.id)
+    }));
+  }
+
+  async getFulfillment(id: number): Promise<Fulfillment | undefined> {
+    const [fulfillment] = await db
+      .select()
+      .from(fulfillments)
+      .where(eq(fulfillments.id, id));
+    return fulfillment;
+  }
+
+  async createFulfillment(
+    orderId: number,
+    data: Omit<InsertFulfillment, "orderId">,
+    lines?: FulfillmentLine[],
+    actorId: number | null = null
+  ): Promise<FulfillmentWithItems | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the order so two shipments can't both take the last units
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      if (!order) return undefined;
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const fulfilled = await this.getFulfilledLines(tx, orderId);
+      const resolved = resolveFulfillmentLines(order.status, items, fulfilled, lines);
+      const fulfillment = await this.insertFulfillment(tx, orderId, data, resolved, actorId);
+
+      let currentStatus = order.status;
+      for (const step of statusesAfterFulfillment(order.status, isFullyFulfilled(items, [...fulfilled, ...resolved]))) {
+        await tx
+          .update(orders)
+          .set({ status: step, updatedAt: new Date() })
+          .where(eq(orders.id, orderId));
+        await tx.insert(orderEvents).values({ orderId, type: "status_changed", fromStatus: currentStatus, toStatus: step, actorId });
+        currentStatus = step;
+      }
+
+      return fulfillment;
+    });
+  }
+
+  async updateFulfillment(id: number, data: Partial<InsertFulfillment>, actorId: number | null = null): Promise<Fulfillment | undefined> {
+    return db.transaction(async (tx) => {
+      const [fulfillment] = await tx
+        .select()
+        .from(fulfillments)
+        .where(eq(fulfillments.id, id));
+      if (!fulfillment) return undefined;
+
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, fulfillment.orderId))
+        .for("update");
+
+      const delivered = data.status === "delivered" && fulfillment.status !== "delivered";
+      const [updatedFulfillment] = await tx
+        .update(fulfillments)
+        .set({
+          ...data,
+          orderId: fulfillment.orderId,
+          deliveredAt: delivered ? new Date() : fulfillment.deliveredAt,
+          updatedAt: new Date()
+        })
+        .where(eq(fulfillments.id, id))
+        .returning();
+      await tx.insert(orderEvents).values({
+        orderId: fulfillment.orderId,
+        type: "fulfillment_updated",
+        message: delivered ? describeFulfillment(updatedFulfillment) : "Tracking details updated",
+        actorId,
+        fulfillmentId: id
+      });
+
+      // The order is delivered once every shipment has arrived
+      if (delivered && order && normalizeOrderStatus(order.status) === "shipped") {
+        const [{ pending }] = await tx
+          .select({ pending: sql<number>`count(*)::int` })
+          .from(fulfillments)
+          .where(and(eq(fulfillments.orderId, order.id), ne(fulfillments.status, "delivered")));
+        if (pending === 0) {
+          await tx
+            .update(orders)
+            .set({ status: "delivered", updatedAt: new Date() })
+            .where(eq(orders.id, order.id));
+          await tx.insert(orderEvents).values({
+            orderId: order.id,
+            type: "status_changed",
+            fromStatus: order.status,
+            toStatus: "delivered",
+            actorId
+          });
+        }
+      }
+
+      return updatedFulfillment;
+    });
+  }
+
+  // Every line shipped so far for an order
+  private async getFulfilledLines(tx: DbTransaction, orderId: number): Promise<FulfillmentLine[]> {
+    return tx
+      .select({ orderItemId: fulfillmentItems.orderItemId, quantity: fulfillmentItems.quantity })
+      .from(fulfillmentItems)
+      .innerJoin(fulfillments, eq(fulfillmentItems.fulfillmentId, fulfillments.id))
+      .where(eq(fulfillments.orderId, orderId));
+  }
+
+  private async insertFulfillment(
+    tx: DbTransaction,
+    orderId: number,
+    data: Partial<InsertFulfillment>,
+    lines: FulfillmentLine[],
+    actorId: number | null = null
+  ): Promise<FulfillmentWithItems> {
+    const [fulfillment] = await tx
+      .insert(fulfillments)
+      .values({ ...data, orderId })
+      .returning();
+    const items = await tx
+      .insert(fulfillmentItems)
+      .values(lines.map(line => ({ ...line, fulfillmentId: fulfillment.id })))
+      .returning();
+
+    const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+    await tx.insert(orderEvents).values({
+      orderId,
+      type: "fulfillment_created",
+      message: describeFulfillment(fulfillment, units),
+      actorId,
+      fulfillmentId: fulfillment.id
+    });
+
+    return { ...fulfillment, items };
+  }
+
+  // Return (RMA) operations
+  private async withReturnItems(returnRequestList: ReturnRequest[]): Promise<ReturnWithItems[]> {
+    if (returnRequestList.length === 0) return [];
+    const items = await db
+      .select()
+      .from(returnItems)
+      .where(inArray(returnItems.returnId, returnRequestList.map(returnRequest => returnRequest.id)));
+    return returnRequestList.map(returnRequest => ({
+      ...returnRequest,
+      items: items.filter(item => item.returnId === returnRequest.id)
+    }));
+  }
+
+  async getReturnRequest(id: number): Promise<ReturnWithItems | undefined> {
+    const list = await db
+      .select()
+      .from(returnRequests)
+      .where(eq(returnRequests.id, id));
+    const [returnRequest] = await this.withReturnItems(list);
+    return returnRequest;
+  }
+
+  async getReturnRequestsByOrderId(orderId: number): Promise<ReturnWithItems[]> {
+    const list = await db
+      .select()
+      .from(returnRequests)
+      .where(eq(returnRequests.orderId, orderId))
+      .orderBy(asc(returnRequests.id));
+    return this.withReturnItems(list);
+  }
+
+  async getReturnRequestsByVendorId(vendorId: number, status?: string): Promise<ReturnWithItems[]> {
+    const list = await db
+      .select()
+      .from(returnRequests)
+      .where(status
+        ? and(eq(returnRequests.vendorId, vendorId), eq(returnRequests.status, status))
+        : eq(returnRequests.vendorId, vendorId))
+      .orderBy(desc(returnRequests.createdAt));
+    return this.withReturnItems(list);
+  }
+
+  async createReturnRequest(
+    orderId: number,
+    data: Pick<InsertReturnRequest, "reason" | "comment" | "customerId" | "requestedBy">,
+    lines: ReturnLine[]
+  ): Promise<ReturnWithItems | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the order so two requests can't both claim the same units
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+      if (!order) return undefined;
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+      const existing = await this.getOrderReturns(tx, orderId);
+      const resolved = resolveReturnLines(order.status, items, existing, lines);
+
+      const [returnRequest] = await tx
+        .insert(returnRequests)
+        .values({
+          ...data,
+          orderId,
+          vendorId: order.vendorId,
+          rmaNumber: generateRmaNumber(order.orderNumber, existing.length),
+          status: "requested"
+        })
+        .returning();
+      const newItems = await tx
+        .insert(returnItems)
+        .values(resolved.map(line => ({ ...line, returnId: returnRequest.id })))
+        .returning();
+
+      const units = resolved.reduce((sum, line) => sum + line.quantity, 0);
+      await tx.insert(orderEvents).values({
+        orderId,
+        type: "return_requested",
+        message: describeReturn(returnRequest, units),
+        actorId: data.requestedBy ?? null,
+        returnId: returnRequest.id
+      });
+      return { ...returnRequest, items: newItems };
+    });
+  }
+
+  async approveReturnRequest(id: number, decision: ReturnDecision = {}): Promise<ReturnWithItems | undefined> {
+    return db.transaction(async (tx) => {
+      const returnRequest = await this.lockReturnRequest(tx, id);
+      if (!returnRequest) return undefined;
+      assertReturnTransition(returnRequest.status, "approved");
+
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, returnRequest.orderId));
+      const [payment] = await tx
+        .select()
+        .from(transactions)
+        .where(and(
+          eq(transactions.orderId, returnRequest.orderId),
+          eq(transactions.type, "order_payment"),
+          // Payment attempts that never went through aren't refundable
+          inArray(transactions.status, ["completed", "partial_refund"])
+        ))
+        .orderBy(desc(transactions.createdAt))
+        .for("update");
+      const refundable = payment && findRefundablePayment([payment]);
+      const refundAmount = resolveRefundAmount(
+        decision.refundAmount ?? calculateRefundAmount(items, returnRequest.items),
+        refundable
+      );
+
+      if (refundable && new Decimal(refundAmount).greaterThan(0)) {
+        // The payment stays locked while the gateway refunds it, so two approvals can't both refund
+        await decision.refundPayment?.(refundable, refundAmount, `Return ${returnRequest.rmaNumber}`);
+        const refunded = await this.refundTransaction(tx, refundable, refundAmount, `Return ${returnRequest.rmaNumber}`);
+        await tx
+          .update(orders)
+          .set({
+            paymentStatus: getRefundableAmount(refunded).isZero() ? "refunded" : "partially_refunded",
+            updatedAt: new Date()
+          })
+          .where(eq(orders.id, returnRequest.orderId));
+      }
+
+      const [approved] = await tx
+        .update(returnRequests)
+        .set({
+          status: "approved",
+          vendorNote: decision.note ?? returnRequest.vendorNote,
+          refundAmount,
+          refundTransactionId: refundable?.id ?? null,
+          approvedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      await tx.insert(orderEvents).values({
+        orderId: approved.orderId,
+        type: "return_approved",
+        message: decision.note ? `${describeReturn(approved)}: ${decision.note}` : describeReturn(approved),
+        actorId: decision.actorId ?? null,
+        returnId: id
+      });
+      return { ...approved, items: returnRequest.items };
+    });
+  }
+
+  async rejectReturnRequest(id: number, decision: ReturnDecision = {}): Promise<ReturnWithItems | undefined> {
+    return db.transaction(async (tx) => {
+      const returnRequest = await this.lockReturnRequest(tx, id);
+      if (!returnRequest) return undefined;
+      assertReturnTransition(returnRequest.status, "rejected");
+
+      const [rejected] = await tx
+        .update(returnRequests)
+        .set({
+          status: "rejected",
+          vendorNote: decision.note ?? returnRequest.vendorNote,
+          rejectedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      await tx.insert(orderEvents).values({
+        orderId: rejected.orderId,
+        type: "return_rejected",
+        message: decision.note ? `${describeReturn(rejected)}: ${decision.note}` : describeReturn(rejected),
+        actorId: decision.actorId ?? null,
+        returnId: id
+      });
+      return { ...rejected, items: returnRequest.items };
+    });
+  }
+
+  async receiveReturnRequest(id: number, restock?: RestockLine[], actorId: number | null = null): Promise<ReturnWithItems | undefined> {
+    return db.transaction(async (tx) => {
+      const returnRequest = await this.lockReturnRequest(tx, id);
+      if (!returnRequest) return undefined;
+      assertReturnTransition(returnRequest.status, "received");
+
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, returnRequest.orderId))
+        .for("update");
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, returnRequest.orderId));
+
+      const lines = resolveRestockLines(returnRequest.items, restock);
+      for (const line of lines) {
+        const returnItem = returnRequest.items.find(item => item.id === line.returnItemId)!;
+        const orderItem = items.find(item => item.id === returnItem.orderItemId);
+        await tx
+          .update(returnItems)
+          .set({ restockedQuantity: line.quantity })
+          .where(eq(returnItems.id, returnItem.id));
+        if (!orderItem) continue;
+
+        if (orderItem.variantId) {
+          await tx
+            .update(productVariants)
+            .set({ inventoryQuantity: sql`${productVariants.inventoryQuantity} + ${line.quantity}` })
+            .where(eq(productVariants.id, orderItem.variantId));
+        } else {
+          await tx
+            .update(products)
+            .set({ inventoryQuantity: sql`${products.inventoryQuantity} + ${line.quantity}` })
+            .where(eq(products.id, orderItem.productId));
+        }
+      }
+
+      const [received] = await tx
+        .update(returnRequests)
+        .set({ status: "received", receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(returnRequests.id, id))
+        .returning();
+      await tx.insert(orderEvents).values({
+        orderId: received.orderId,
+        type: "return_received",
+        message: describeReturn(received, lines.reduce((sum, line) => sum + line.quantity, 0)),
+        actorId,
+        returnId: id
+      });
+
+      // Once everything has come back the order itself is returned
+      if (order && getAllowedTransitions(order.status).includes("returned") &&
+          isFullyReturned(items, await this.getOrderReturns(tx, order.id))) {
+        await tx
+          .update(orders)
+          .set({ status: "returned", updatedAt: new Date() })
+          .where(eq(orders.id, order.id));
+        await tx.insert(orderEvents).values({
+          orderId: order.id,
+          type: "status_changed",
+          fromStatus: order.status,
+          toStatus: "returned",
+          actorId
+        });
+      }
+
+      const restockedItems = await tx.select().from(returnItems).where(eq(returnItems.returnId, id));
+      return { ...received, items: restockedItems };
+    });
+  }
+
+  private async lockReturnRequest(tx: DbTransaction, id: number): Promise<ReturnWithItems | undefined> {
+    const [returnRequest] = await tx
+      .select()
+      .from(returnRequests)
+      .where(eq(returnRequests.id, id))
+      .for("update");
+    if (!returnRequest) return undefined;
+
+    const items = await tx.select().from(returnItems).where(eq(returnItems.returnId, id));
+    return { ...returnRequest, items };
+  }
+
+  private async getOrderReturns(tx: DbTransaction, orderId: number): Promise<ReturnWithItems[]> {
+    const list = await tx.select().from(returnRequests).where(eq(returnRequests.orderId, orderId));
+    if (list.length === 0) return [];
+
+    const items = await tx
+      .select()
+      .from(returnItems)
+      .where(inArray(returnItems.returnId, list.map(returnRequest => returnRequest.id)));
+    return list.map(returnRequest => ({
+      ...returnRequest,
+      items: items.filter(item => item.returnId === returnRequest.id)
+    }));
+  }
+
+  // Order item operations
+  async getOrderItem(id: number): Promise<OrderItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.id, id));
+    return item;
+  }
+
+  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    return db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+  }
+
+  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
+    const [newItem] = await db
+      .insert(orderItems)
+      .values(item)
+      .returning();
+    return newItem;
+  }
+
+  async updateOrderItem(id: number, data: Partial<InsertOrderItem>): Promise<OrderItem | undefined> {
+    const [updatedItem] = await db
+      .update(orderItems)
+      .set(data)
+      .where(eq(orderItems.id, id))
+      .returning();
+    return updatedItem;
+  }
+
+  async deleteOrderItem(id: number): Promise<boolean> {
+    const result = await db
+      .delete(orderItems)
+      .where(eq(orderItems.id, id));
+    return result.count > 0;
+  }
+
+  // Invoice operations
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByNumber(invoiceNumber: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.invoiceNumber, invoiceNumber));
+    return invoice;
+  }
+
+  async getInvoicesByVendorId(vendorId: number): Promise<Invoice[]> {
+    return db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.vendorId, vendorId))
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async getInvoiceByGatewayId(gatewayInvoiceId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db
+      .select()
+      .from(invoices)
+      .where(eq(invoices.gatewayInvoiceId, gatewayInvoiceId));
+    return invoice;
+  }
+
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    const [createdInvoice] = await db
+      .insert(invoices)
+      .values(invoice)
+      .returning();
+    return createdInvoice;
+  }
+
+  async updateInvoice(id: number, data: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const [updatedInvoice] = await db
+      .update(invoices)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(invoices.id, id))
+      .returning();
+    return updatedInvoice;
+  }
+
+  // Transaction operations
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.id, id));
+    return transaction;
+  }
+
+  async getTransactionByGatewayId(gatewayTransactionId: string): Promise<Transaction | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.gatewayTransactionId, gatewayTransactionId));
+    return transaction;
+  }
+
+  async getTransactionsByVendorId(vendorId: number): Promise<Transaction[]> {
+    return db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.vendorId, vendorId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async getTransactionsByOrderId(orderId: number): Promise<Transaction[]> {
+    return db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.orderId, orderId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async getTransactionsByInvoiceId(invoiceId: number): Promise<Transaction[]> {
+    return db
+      .select()
+      .from(transactions)
+      .where(eq(transactions.invoiceId, invoiceId))
+      .orderBy(desc(transactions.createdAt));
+  }
+
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const [createdTransaction] = await db
+      .insert(transactions)
+      .values(transaction)
+      .returning();
+    return createdTransaction;
+  }
+
+  async updateTransaction(id: number, data: Partial<InsertTransaction>): Promise<Transaction | undefined> {
+    const [updatedTransaction] = await db
+      .update(transactions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(transactions.id, id))
+      .returning();
+    return updatedTransaction;
   }
 
-  async createDomain(domain: InsertDomain): Promise<Domain> {
-    const [newDomain] = await db
-      .insert(domains)
-      .values(domain)
-      .returning();
-    return newDomain;
+  async processRefund(transactionId: number, amount: string, reason: string): Promise<Transaction | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the payment so two refunds can't both take what is left of it
+      const [originalTransaction] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, transactionId))
+        .for("update");
+      if (!originalTransaction) return undefined;
+
+      return this.refundTransaction(tx, originalTransaction, amount, reason);
+    });
   }
 
-  async updateDomain(id: number, data: Partial<InsertDomain>): Promise<Domain | undefined> {
-    const [updatedDomain] = await db
-      .update(domains)
-      .set(data)
-      .where(eq(domains.id, id))
+  // Records a refund against a (locked) payment and adds the matching refund transaction
+  private async refundTransaction(
+    tx: DbTransaction,
+    originalTransaction: Transaction,
+    amount: string,
+    reason: string
+  ): Promise<Transaction> {
+    const refundedAmount = new Decimal(originalTransaction.refundedAmount || "0").plus(amount);
+    const [updatedTransaction] = await tx
+      .update(transactions)
+      .set({
+        refundedAmount: refundedAmount.toString(),
+        status: refundedAmount.equals(originalTransaction.amount) ? "refunded" : "partial_refund",
+        refundReason: reason || originalTransaction.refundReason,
+        updatedAt: new Date()
+      })
+      .where(eq(transactions.id, originalTransaction.id))
       .returning();
-    return updatedDomain;
+
+    await tx
+      .insert(transactions)
+      .values({
+        type: "refund",
+        status: "completed",
+        amount: amount.toString(),
+        currency: originalTransaction.currency || "USD",
+        fee: "0",
+        net: amount.toString(),
+        vendorId: originalTransaction.vendorId,
+        orderId: originalTransaction.orderId,
+        invoiceId: originalTransaction.invoiceId,
+        paymentMethodId: originalTransaction.paymentMethodId,
+        metadata: {
+          originalTransactionId: originalTransaction.id,
+          refundReason: reason
+        }
+      });
+
+    return updatedTransaction;
   }
 
-  async deleteDomain(id: number): Promise<boolean> {
-    const result = await db
-      .delete(domains)
-      .where(eq(domains.id, id));
-    return result.count > 0;
+  // Analytics operations
+  async getVendorAnalytics(vendorId: number): Promise<Analytics[]> {
+    return db
+      .select()
+      .from(analytics)
+      .where(eq(analytics.vendorId, vendorId));
   }
-  
-  async verifyDomain(id: number): Promise<Domain | undefined> {
-    // Get the domain
-    const domain = await this.getDomain(id);
-    if (!domain) return undefined;
-    
-    // In a real implementation, this would check DNS records for the verification token
-    // For now, we'll simulate a successful verification by setting the status to verified
-    
-    const data = {
-      verificationStatus: 'verified',
-      status: 'active',
-      lastCheckedAt: new Date()
-    };
-    
-    const [updatedDomain] = await db
-      .update(domains)
-      .set(data)
-      .where(eq(domains.id, id))
+
+  async createAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
+    const [newEntry] = await db
+      .insert(analytics)
+      .values(data)
       .returning();
-      
-    return updatedDomain;
+    return newEntry;
   }
-  
-  async generateVerificationToken(id: number): Promise<Domain | undefined> {
-    // Generate a random verification token for the domain
-    const token = `lelekart-verify-${Math.random().toString(36).substring(2, 15)}`;
-    
-    const data = {
-      verificationToken: token,
-      verificationStatus: 'pending',
-      lastCheckedAt: new Date()
-    };
-    
-    const [updatedDomain] = await db
-      .update(domains)
-      .set(data)
-      .where(eq(domains.id, id))
+
+  async upsertAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
+    const [entry] = await db
+      .insert(analytics)
+      .values(data)
+      .onConflictDoUpdate({
+        target: [analytics.vendorId, analytics.date],
+        set: {
+          visitors: data.visitors,
+          pageViews: data.pageViews,
+          orders: data.orders,
+          revenue: data.revenue,
+          conversionRate: data.conversionRate
+        }
+      })
       .returning();
-      
-    return updatedDomain;
+    return entry;
   }
-  
-  async checkDomainsSSL(): Promise<void> {
-    // In a real implementation, this would check SSL certificates
-    // For this prototype, we'll simulate SSL status updates for active domains
-    
-    const allDomains = await this.getDomains();
-    
-    for (const domain of allDomains) {
-      if (domain.status === 'active' && domain.verificationStatus === 'verified') {
-        await db
-          .update(domains)
-          .set({ 
-            sslStatus: 'active',
-            lastCheckedAt: new Date()
-          })
-          .where(eq(domains.id, domain.id));
-      }
+
+  async recordStorefrontEvents(events: InsertStorefrontEvent[]): Promise<number> {
+    if (events.length === 0) return 0;
+    const inserted = await db
+      .insert(storefrontEvents)
+      .values(events)
+      .returning({ id: storefrontEvents.id });
+    return inserted.length;
+  }
+
+  async getStorefrontActivity(from: Date, to: Date): Promise<StorefrontActivity[]> {
+    const eventTotals = await db
+      .select({
+        vendorId: storefrontEvents.vendorId,
+        visitors: sql<number>`count(distinct ${storefrontEvents.sessionId})::int`,
+        pageViews: sql<number>`(count(*) filter (where ${storefrontEvents.type} = 'page_view'))::int`,
+        convertedSessions: sql<number>`(count(distinct ${storefrontEvents.sessionId}) filter (where ${storefrontEvents.type} = 'checkout_step' and ${storefrontEvents.step} = 'confirmation'))::int`
+      })
+      .from(storefrontEvents)
+      .where(and(
+        gte(storefrontEvents.occurredAt, from),
+        lt(storefrontEvents.occurredAt, to)
+      ))
+      .groupBy(storefrontEvents.vendorId);
+
+    const orderTotals = await db
+      .select({
+        vendorId: orders.vendorId,
+        orders: sql<number>`count(*)::int`,
+        revenue: sql<string>`coalesce(sum(${orders.total}), 0)::numeric(12, 2)::text`
+      })
+      .from(orders)
+      .where(and(
+        gte(orders.createdAt, from),
+        lt(orders.createdAt, to),
+        ne(orders.status, "canceled")
+      ))
+      .groupBy(orders.vendorId);
+
+    const byVendor = new Map<number, StorefrontActivity>();
+    for (const row of eventTotals) {
+      byVendor.set(row.vendorId, { ...row, orders: 0, revenue: "0.00" });
+    }
+    for (const row of orderTotals) {
+      const activity = byVendor.get(row.vendorId) ?? { vendorId: row.vendorId, visitors: 0, pageViews: 0, convertedSessions: 0 };
+      byVendor.set(row.vendorId, { ...activity, orders: row.orders, revenue: row.revenue });
     }
+    return Array.from(byVendor.values());
   }
 
-  // Product category operations
-  async getProductCategory(id: number): Promise<ProductCategory | undefined> {
-    const [category] = await db
-      .select()
-      .from(productCategories)
-      .where(eq(productCategories.id, id));
-    return category;
+  async deleteStorefrontEventsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(storefrontEvents)
+      .where(lt(storefrontEvents.occurredAt, cutoff))
+      .returning({ id: storefrontEvents.id });
+    return deleted.length;
   }
+  
+  async getAnalyticsBuckets(vendorId: number, from: Date, to: Date, granularity: AnalyticsGranularity): Promise<AnalyticsBucket[]> {
+    // granularity is one of a fixed set of words, so it can go into the SQL as a literal
+    const period = (column: typeof analytics.date | typeof orders.createdAt) =>
+      sql<string>`to_char(date_trunc(${sql.raw(`'${granularity}'`)}, ${column}), 'YYYY-MM-DD')`;
 
-  async getProductCategories(vendorId: number): Promise<(ProductCategory & { productCount?: number })[]> {
-    // Fetch vendor-specific categories and global categories
-    const categories = await db
-      .select()
-      .from(productCategories)
-      .where(
-        or(
-          eq(productCategories.vendorId, vendorId),
-          eq(productCategories.isGlobal, true)
-        )
-      )
-      .orderBy(productCategories.level, productCategories.name);
-    
-    // Get product counts for each category to determine which are in use
-    let categoryCounts = [];
-    
-    // Only query products if vendorId is provided (not null or undefined)
-    if (vendorId) {
-      categoryCounts = await db.select({
-        categoryId: products.categoryId,
-        count: db.fn.count(products.id)
+    const traffic = await db
+      .select({
+        period: period(analytics.date),
+        visitors: sql<number>`coalesce(sum(${analytics.visitors}), 0)::int`,
+        pageViews: sql<number>`coalesce(sum(${analytics.pageViews}), 0)::int`,
+        convertedVisitors: sql<number>`coalesce(sum(${analytics.visitors} * ${analytics.conversionRate} / 100), 0)::float8`
       })
-      .from(products)
+      .from(analytics)
       .where(and(
-        eq(products.vendorId, vendorId),
-        db.isNotNull(products.categoryId)
+        eq(analytics.vendorId, vendorId),
+        gte(analytics.date, from),
+        lt(analytics.date, to)
       ))
-      .groupBy(products.categoryId);
+      .groupBy(sql`1`);
+
+    const sales = await db
+      .select({
+        period: period(orders.createdAt),
+        orders: sql<number>`count(*)::int`,
+        revenue: sql<string>`coalesce(sum(${this.netOrderTotal()}), 0)::numeric(14, 2)::text`
+      })
+      .from(orders)
+      .where(this.reportableOrders(vendorId, from, to))
+      .groupBy(sql`1`);
+
+    const buckets = new Map<string, AnalyticsBucket>();
+    for (const row of traffic) {
+      buckets.set(row.period, { ...row, orders: 0, revenue: "0.00" });
     }
-    
-    // Create a map of category IDs to product counts
-    const countMap = new Map<number, number>();
-    
-    // Only process categoryCounts if it exists and has items
-    if (categoryCounts && categoryCounts.length > 0) {
-      for (const item of categoryCounts) {
-        if (item.categoryId) {
-          countMap.set(item.categoryId, Number(item.count));
-        }
-      }
+    for (const row of sales) {
+      const bucket = buckets.get(row.period) ?? { period: row.period, visitors: 0, pageViews: 0, convertedVisitors: 0 };
+      buckets.set(row.period, { ...bucket, orders: row.orders, revenue: row.revenue });
     }
-    
-    // Add product count to each category
-    return categories.map(category => ({
-      ...category,
-      productCount: countMap.get(category.id) || 0
-    }));
+    return Array.from(buckets.values()).sort((a, b) => a.period.localeCompare(b.period));
+  }
+
+  // Orders counted as sales in reports over [from, to), as in isSale
+  private reportableOrders(vendorId: number, from: Date, to: Date) {
+    return and(
+      eq(orders.vendorId, vendorId),
+      notInArray(orders.status, UNSOLD_ORDER_STATUSES),
+      or(
+        inArray(orders.paymentStatus, SALE_PAYMENT_STATUSES),
+        and(eq(orders.paymentMethod, CASH_ON_DELIVERY), sql`coalesce(${orders.paymentStatus}, 'pending') = 'pending'`)
+      ),
+      gte(orders.createdAt, from),
+      lt(orders.createdAt, to)
+    );
   }
 
-  async createProductCategory(category: InsertProductCategory): Promise<ProductCategory> {
-    const [newCategory] = await db
-      .insert(productCategories)
-      .values(category)
-      .returning();
-    return newCategory;
+  // Their items that still have units nobody sent back on a refunded return
+  private reportableItems(vendorId: number, from: Date, to: Date) {
+    return and(this.reportableOrders(vendorId, from, to), gt(this.keptUnits(), 0));
   }
 
-  async updateProductCategory(id: number, data: Partial<InsertProductCategory>): Promise<ProductCategory | undefined> {
-    const [updatedCategory] = await db
-      .update(productCategories)
-      .set(data)
-      .where(eq(productCategories.id, id))
-      .returning();
-    return updatedCategory;
+  // An order's total less what has been refunded from its payments. Drizzle
+  // leaves table names off in queries on orders alone, so the columns are
+  // spelled out to keep them from being read as the refund's own.
+  private netOrderTotal() {
+    return sql`(${orders}.total - (
+      select coalesce(sum(refunds.refunded_amount), 0) from ${transactions} refunds
+      where refunds.order_id = ${orders}.id and refunds.type = 'order_payment'
+    ))`;
   }
-  
-  async getGlobalProductCategories(): Promise<ProductCategory[]> {
-    // Fetch only global categories (for super admin)
-    const categories = await db
-      .select()
-      .from(productCategories)
-      .where(eq(productCategories.isGlobal, true))
-      .orderBy(productCategories.level, productCategories.name);
-    
-    return categories;
+
+  // Units of an order item that weren't sent back on a refunded return
+  private keptUnits() {
+    return sql`(${orderItems.quantity} - (
+      select coalesce(sum(${returnItems.quantity}), 0) from ${returnItems}
+      inner join ${returnRequests} on ${returnRequests.id} = ${returnItems.returnId}
+      where ${returnItems.orderItemId} = ${orderItems.id} and ${inArray(returnRequests.status, REFUNDED_RETURN_STATUSES)}
+    ))`;
   }
-  
-  async getAllProductCategories(): Promise<ProductCategory[]> {
-    // Fetch all categories (for super admin)
-    const categories = await db
-      .select()
-      .from(productCategories)
-      .orderBy(productCategories.level, productCategories.name);
-    
-    return categories;
+
+  // An order item's amount for just the units that were kept
+  private keptShare(column: AnyColumn) {
+    return sql`(coalesce(${column}, 0) * ${this.keptUnits()} / ${orderItems.quantity})`;
   }
 
-  async deleteProductCategory(id: number): Promise<boolean> {
-    const result = await db
-      .delete(productCategories)
-      .where(eq(productCategories.id, id));
-    return result.count > 0;
+  private productSalesQuery(vendorId: number, from: Date, to: Date) {
+    return db
+      .select({
+        productId: orderItems.productId,
+        name: sql<string>`coalesce(max(${products.name}), max(${orderItems.name}))`,
+        quantity: sql<number>`sum(${this.keptUnits()})::int`,
+        revenue: sql<string>`sum(${this.keptShare(orderItems.total)})::numeric(14, 2)::text`
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(products, eq(orderItems.productId, products.id))
+      .where(this.reportableItems(vendorId, from, to))
+      .groupBy(orderItems.productId)
+      .$dynamic();
   }
 
-  // Product operations
-  async getProduct(id: number): Promise<Product | undefined> {
-    const [product] = await db
-      .select()
-      .from(products)
-      .where(eq(products.id, id));
-    return product;
+  async getTopProducts(vendorId: number, from: Date, to: Date, limit: number = 5): Promise<ProductSales[]> {
+    return this.productSalesQuery(vendorId, from, to)
+      .orderBy(desc(sql`sum(${this.keptShare(orderItems.total)})`), desc(sql`sum(${this.keptUnits()})`))
+      .limit(limit);
+  }
+
+  async getProductSales(vendorId: number, from: Date, to: Date, productIds?: number[]): Promise<ProductSales[]> {
+    if (!productIds) return this.productSalesQuery(vendorId, from, to);
+    if (productIds.length === 0) return [];
+    return this.productSalesQuery(vendorId, from, to)
+      .having(inArray(orderItems.productId, productIds));
+  }
+
+  async getSalesByHour(vendorId: number, from: Date, to: Date): Promise<HourlySales[]> {
+    return db
+      .select({
+        hour: sql<number>`extract(hour from ${orders.createdAt})::int`,
+        orders: sql<number>`count(*)::int`,
+        revenue: sql<string>`sum(${this.netOrderTotal()})::numeric(14, 2)::text`
+      })
+      .from(orders)
+      .where(this.reportableOrders(vendorId, from, to))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+  }
+
+  async getSalesByCategory(vendorId: number, from: Date, to: Date): Promise<CategorySales[]> {
+    return db
+      .select({
+        categoryId: products.categoryId,
+        name: sql<string>`coalesce(max(${productCategories.name}), 'Uncategorized')`,
+        revenue: sql<string>`sum(${this.keptShare(orderItems.total)})::numeric(14, 2)::text`
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .leftJoin(products, eq(orderItems.productId, products.id))
+      .leftJoin(productCategories, eq(products.categoryId, productCategories.id))
+      .where(this.reportableItems(vendorId, from, to))
+      .groupBy(products.categoryId)
+      .orderBy(desc(sql`sum(${this.keptShare(orderItems.total)})`));
+  }
+
+  async getGstSummary(vendorId: number, from: Date, to: Date): Promise<GstRateSales[]> {
+    const amount = (column: AnyColumn) => sql<string>`coalesce(sum(${this.keptShare(column)}), 0)::numeric(14, 2)::text`;
+    return db
+      .select({
+        taxRate: sql<string>`coalesce(${orderItems.taxRate}, 0)::text`,
+        quantity: sql<number>`sum(${this.keptUnits()})::int`,
+        taxableValue: sql<string>`sum(${this.keptShare(orderItems.total)} - ${this.keptShare(orderItems.taxAmount)})::numeric(14, 2)::text`,
+        cgst: amount(orderItems.cgst),
+        sgst: amount(orderItems.sgst),
+        igst: amount(orderItems.igst),
+        taxAmount: amount(orderItems.taxAmount),
+        total: amount(orderItems.total)
+      })
+      .from(orderItems)
+      .innerJoin(orders, eq(orderItems.orderId, orders.id))
+      .where(this.reportableItems(vendorId, from, to))
+      .groupBy(sql`coalesce(${orderItems.taxRate}, 0)`)
+      .orderBy(sql`coalesce(${orderItems.taxRate}, 0)`);
+  }
+
+  async getCustomerLifetimeValues(vendorId: number, from: Date, to: Date): Promise<CustomerLifetimeValue[]> {
+    const rows = await db
+      .select({
+        customerId: customers.id,
+        firstName: customers.firstName,
+        lastName: customers.lastName,
+        email: customers.email,
+        orders: sql<number>`count(${orders.id})::int`,
+        revenue: sql<string>`sum(${this.netOrderTotal()})::numeric(14, 2)::text`,
+        firstOrderAt: sql<Date>`min(${orders.createdAt})`.mapWith(orders.createdAt),
+        lastOrderAt: sql<Date>`max(${orders.createdAt})`.mapWith(orders.createdAt)
+      })
+      .from(orders)
+      .innerJoin(customers, eq(orders.customerId, customers.id))
+      .where(this.reportableOrders(vendorId, new Date(0), to))
+      .groupBy(customers.id)
+      .having(gte(sql`max(${orders.createdAt})`, from));
+
+    return rows.map(({ firstName, lastName, ...row }) => ({
+      ...row,
+      name: [firstName, lastName].filter(Boolean).join(" ") || row.email
+    }));
   }
 
-  async getProducts(vendorId: number): Promise<Product[]> {
-    return db
-      .select()
-      .from(products)
-      .where(eq(products.vendorId, vendorId));
+  // Report operations
+  async getReportJob(id: number): Promise<ReportJob | undefined> {
+    const [job] = await db.select().from(reportJobs).where(eq(reportJobs.id, id));
+    return job;
   }
 
-  async getProductsByCategory(categoryId: number, includeSubcategories: boolean = false): Promise<Product[]> {
-    // If we don't need subcategory products, use the simple query
-    if (!includeSubcategories) {
-      return db
-        .select()
-        .from(products)
-        .where(eq(products.categoryId, categoryId));
-    }
-    
-    // Get the category to check if it's global
-    const [category] = await db
-      .select()
-      .from(productCategories)
-      .where(eq(productCategories.id, categoryId));
-    
-    // If we need to include subcategories, first get all subcategories
-    let subcategoriesQuery = db
-      .select()
-      .from(productCategories)
-      .where(eq(productCategories.parentId, categoryId));
-    
-    // For global categories, we also want to fetch vendor-specific subcategories that point to this global category
-    const subcategories = await subcategoriesQuery;
-    
-    const categoryIds = [categoryId, ...subcategories.map(c => c.id)];
-    
-    // Then get products from all these categories
+  async getReportJobsByVendorId(vendorId: number, limit: number = 50): Promise<ReportJob[]> {
     return db
       .select()
-      .from(products)
-      .where(db.inArray(products.categoryId, categoryIds));
+      .from(reportJobs)
+      .where(eq(reportJobs.vendorId, vendorId))
+      .orderBy(desc(reportJobs.createdAt), desc(reportJobs.id))
+      .limit(limit);
   }
 
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db
-      .insert(products)
-      .values(product)
-      .returning();
-    return newProduct;
+  async createReportJob(job: InsertReportJob): Promise<ReportJob> {
+    const [newJob] = await db.insert(reportJobs).values(job).returning();
+    return newJob;
   }
 
-  async updateProduct(id: number, data: Partial<InsertProduct>): Promise<Product | undefined> {
-    const [updatedProduct] = await db
-      .update(products)
-      .set(data)
-      .where(eq(products.id, id))
-      .returning();
-    return updatedProduct;
+  async updateReportJob(id: number, data: Partial<InsertReportJob>): Promise<ReportJob | undefined> {
+    const [updated] = await db.update(reportJobs).set(data).where(eq(reportJobs.id, id)).returning();
+    return updated;
   }
 
-  async deleteProduct(id: number): Promise<boolean> {
-    const result = await db
-      .delete(products)
-      .where(eq(products.id, id));
-    return result.count > 0;
+  async getExpiredReportJobs(now: Date): Promise<ReportJob[]> {
+    return db.select().from(reportJobs).where(lte(reportJobs.expiresAt, now));
   }
 
-  // Customer operations
-  async getCustomer(id: number): Promise<Customer | undefined> {
-    const [customer] = await db
-      .select()
-      .from(customers)
-      .where(eq(customers.id, id));
-    return customer;
+  async deleteReportJob(id: number): Promise<boolean> {
+    const deleted = await db.delete(reportJobs).where(eq(reportJobs.id, id)).returning({ id: reportJobs.id });
+    return deleted.length > 0;
   }
 
-  async getCustomers(vendorId: number): Promise<Customer[]> {
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    const [schedule] = await db.select().from(reportSchedules).where(eq(reportSchedules.id, id));
+    return schedule;
+  }
+
+  async getReportSchedulesByVendorId(vendorId: number): Promise<ReportSchedule[]> {
     return db
       .select()
-      .from(customers)
-      .where(eq(customers.vendorId, vendorId));
+      .from(reportSchedules)
+      .where(eq(reportSchedules.vendorId, vendorId))
+      .orderBy(asc(reportSchedules.id));
   }
 
-  async getCustomerByEmail(vendorId: number, email: string): Promise<Customer | undefined> {
-    const [customer] = await db
+  async createReportSchedule(schedule: InsertReportSchedule): Promise<ReportSchedule> {
+    const [newSchedule] = await db.insert(reportSchedules).values(schedule).returning();
+    return newSchedule;
+  }
+
+  async updateReportSchedule(id: number, data: Partial<InsertReportSchedule>): Promise<ReportSchedule | undefined> {
+    const [updated] = await db.update(reportSchedules).set(data).where(eq(reportSchedules.id, id)).returning();
+    return updated;
+  }
+
+  async deleteReportSchedule(id: number): Promise<boolean> {
+    const deleted = await db.delete(reportSchedules).where(eq(reportSchedules.id, id)).returning({ id: reportSchedules.id });
+    return deleted.length > 0;
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return db
       .select()
-      .from(customers)
-      .where(eq(customers.vendorId, vendorId))
-      .where(eq(customers.email, email));
-    return customer;
+      .from(reportSchedules)
+      .where(and(eq(reportSchedules.isActive, true), lte(reportSchedules.nextRunAt, now)));
   }
-  
-  async getCustomerByUserId(userId: number, vendorId: number): Promise<Customer | undefined> {
-    // Get user by ID
-    const user = await this.getUser(userId);
-    if (!user || !user.email) return undefined;
-    
-    // Find customer by email and vendor ID
-    return this.getCustomerByEmail(vendorId, user.email);
+
+  // Scheduled job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const [newCustomer] = await db
-      .insert(customers)
-      .values(customer)
-      .returning();
-    return newCustomer;
+  async getScheduledJob(name: string): Promise<ScheduledJob | undefined> {
+    const [job] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, name));
+    return job;
   }
 
-  async updateCustomer(id: number, data: Partial<InsertCustomer>): Promise<Customer | undefined> {
-    const [updatedCustomer] = await db
-      .update(customers)
-      .set(data)
-      .where(eq(customers.id, id))
+  async ensureScheduledJob(job: InsertScheduledJob): Promise<ScheduledJob> {
+    // Every instance does this on startup, so two may race to add the same job
+    await db.insert(scheduledJobs).values(job).onConflictDoNothing({ target: scheduledJobs.name });
+    const [existing] = await db.select().from(scheduledJobs).where(eq(scheduledJobs.name, job.name));
+    return existing;
+  }
+
+  async updateScheduledJob(name: string, data: Partial<InsertScheduledJob>): Promise<ScheduledJob | undefined> {
+    const [updated] = await db
+      .update(scheduledJobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scheduledJobs.name, name))
       .returning();
-    return updatedCustomer;
+    return updated;
   }
 
-  // Customer address operations
-  async getCustomerAddress(id: number): Promise<CustomerAddress | undefined> {
-    const [address] = await db
+  async getDueScheduledJobs(now: Date): Promise<ScheduledJob[]> {
+    return db
       .select()
-      .from(customerAddresses)
-      .where(eq(customerAddresses.id, id));
-    return address;
+      .from(scheduledJobs)
+      .where(or(
+        isNotNull(scheduledJobs.runRequestedAt),
+        and(eq(scheduledJobs.isEnabled, true), lte(scheduledJobs.nextRunAt, now))
+      ));
   }
 
-  async getCustomerAddresses(customerId: number): Promise<CustomerAddress[]> {
+  async getJobRun(id: number): Promise<JobRun | undefined> {
+    const [run] = await db.select().from(jobRuns).where(eq(jobRuns.id, id));
+    return run;
+  }
+
+  async getJobRuns(jobName?: string, limit: number = 50): Promise<JobRun[]> {
     return db
       .select()
-      .from(customerAddresses)
-      .where(eq(customerAddresses.customerId, customerId));
+      .from(jobRuns)
+      .where(jobName ? eq(jobRuns.jobName, jobName) : undefined)
+      .orderBy(desc(jobRuns.startedAt), desc(jobRuns.id))
+      .limit(limit);
   }
 
-  async createCustomerAddress(address: InsertCustomerAddress): Promise<CustomerAddress> {
-    const [newAddress] = await db
-      .insert(customerAddresses)
-      .values(address)
-      .returning();
-    return newAddress;
+  async createJobRun(run: InsertJobRun): Promise<JobRun> {
+    const [newRun] = await db.insert(jobRuns).values(run).returning();
+    return newRun;
   }
 
-  async updateCustomerAddress(id: number, data: Partial<InsertCustomerAddress>): Promise<CustomerAddress | undefined> {
-    const [updatedAddress] = await db
-      .update(customerAddresses)
-      .set(data)
-      .where(eq(customerAddresses.id, id))
-      .returning();
-    return updatedAddress;
+  async updateJobRun(id: number, data: Partial<InsertJobRun>): Promise<JobRun | undefined> {
+    const [updated] = await db.update(jobRuns).set(data).where(eq(jobRuns.id, id)).returning();
+    return updated;
   }
 
-  async deleteCustomerAddress(id: number): Promise<boolean> {
-    const result = await db
-      .delete(customerAddresses)
-      .where(eq(customerAddresses.id, id));
-    return result.count > 0;
+  async failRunningJobRuns(error: string, finishedAt: Date): Promise<number> {
+    const failed = await db
+      .update(jobRuns)
+      .set({ status: "failed", error, finishedAt })
+      .where(eq(jobRuns.status, "running"))
+      .returning({ id: jobRuns.id });
+    return failed.length;
   }
 
-  // Order operations
-  async getOrder(id: number): Promise<Order | undefined> {
-    const [order] = await db
-      .select()
-      .from(orders)
-      .where(eq(orders.id, id));
-    return order;
+  async deleteJobRunsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db.delete(jobRuns).where(lt(jobRuns.startedAt, cutoff)).returning({ id: jobRuns.id });
+    return deleted.length;
   }
 
-  async getOrders(vendorId: number): Promise<Order[]> {
+  // Email operations
+  async getEmailTemplates(vendorId: number | null): Promise<EmailTemplate[]> {
     return db
       .select()
-      .from(orders)
-      .where(eq(orders.vendorId, vendorId));
+      .from(emailTemplates)
+      .where(vendorId === null ? isNull(emailTemplates.vendorId) : eq(emailTemplates.vendorId, vendorId));
   }
 
-  async getOrderByNumber(orderNumber: string): Promise<Order | undefined> {
-    const [order] = await db
+  async getEmailTemplate(vendorId: number | null, template: string): Promise<EmailTemplate | undefined> {
+    const [existing] = await db
       .select()
-      .from(orders)
-      .where(eq(orders.orderNumber, orderNumber));
-    return order;
-  }
-
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db
-      .insert(orders)
-      .values(order)
-      .returning();
-    return newOrder;
+      .from(emailTemplates)
+      .where(and(
+        vendorId === null ? isNull(emailTemplates.vendorId) : eq(emailTemplates.vendorId, vendorId),
+        eq(emailTemplates.template, template)
+      ));
+    return existing;
+  }
+
+  async saveEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    // The unique index doesn't cover the platform's templates (a null vendor), so look first
+    const existing = await this.getEmailTemplate(template.vendorId ?? null, template.template);
+    if (existing) {
+      const [updated] = await db
+        .update(emailTemplates)
+        .set({ subject: template.subject, body: template.body, updatedAt: new Date() })
+        .where(eq(emailTemplates.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [newTemplate] = await db.insert(emailTemplates).values(template).returning();
+    return newTemplate;
   }
 
-  async updateOrder(id: number, data: Partial<InsertOrder>): Promise<Order | undefined> {
-    const [updatedOrder] = await db
-      .update(orders)
-      .set(data)
-      .where(eq(orders.id, id))
-      .returning();
-    return updatedOrder;
+  async deleteEmailTemplate(vendorId: number | null, template: string): Promise<boolean> {
+    const deleted = await db
+      .delete(emailTemplates)
+      .where(and(
+        vendorId === null ? isNull(emailTemplates.vendorId) : eq(emailTemplates.vendorId, vendorId),
+        eq(emailTemplates.template, template)
+      ))
+      .returning({ id: emailTemplates.id });
+    return deleted.length > 0;
   }
 
-  // Order item operations
-  async getOrderItem(id: number): Promise<OrderItem | undefined> {
-    const [item] = await db
-      .select()
-      .from(orderItems)
-      .where(eq(orderItems.id, id));
-    return item;
+  async getOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email;
   }
 
-  async getOrderItems(orderId: number): Promise<OrderItem[]> {
+  async getOutboxEmails(status?: string, limit: number = 50): Promise<EmailOutbox[]> {
     return db
       .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId));
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.id))
+      .limit(limit);
   }
 
-  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
-    const [newItem] = await db
-      .insert(orderItems)
-      .values(item)
+  async createOutboxEmail(email: InsertEmailOutbox): Promise<EmailOutbox | undefined> {
+    const [newEmail] = await db
+      .insert(emailOutbox)
+      .values(email)
+      .onConflictDoNothing({ target: emailOutbox.dedupeKey })
       .returning();
-    return newItem;
+    return newEmail;
   }
 
-  async updateOrderItem(id: number, data: Partial<InsertOrderItem>): Promise<OrderItem | undefined> {
-    const [updatedItem] = await db
-      .update(orderItems)
-      .set(data)
-      .where(eq(orderItems.id, id))
+  async updateOutboxEmail(id: number, data: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
       .returning();
-    return updatedItem;
-  }
-
-  async deleteOrderItem(id: number): Promise<boolean> {
-    const result = await db
-      .delete(orderItems)
-      .where(eq(orderItems.id, id));
-    return result.count > 0;
+    return updated;
   }
 
-  // Analytics operations
-  async getVendorAnalytics(vendorId: number): Promise<Analytics[]> {
+  async claimOutboxEmails(now: Date, limit: number, staleBefore: Date): Promise<EmailOutbox[]> {
+    // Skip rows another instance is claiming at the same moment
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(or(
+        and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)),
+        and(eq(emailOutbox.status, "sending"), lt(emailOutbox.updatedAt, staleBefore))
+      ))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
     return db
-      .select()
-      .from(analytics)
-      .where(eq(analytics.vendorId, vendorId));
+      .update(emailOutbox)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
   }
 
-  async createAnalyticsEntry(data: InsertAnalytics): Promise<Analytics> {
-    const [newEntry] = await db
-      .insert(analytics)
-      .values(data)
+  async claimOutboxEmail(id: number): Promise<EmailOutbox | undefined> {
+    const [claimed] = await db
+      .update(emailOutbox)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, "pending")))
       .returning();
-    return newEntry;
+    return claimed;
   }
-  
-  async getTopProducts(vendorId: number, limit: number = 5): Promise<{ name: string, sales: number, revenue: string }[]> {
-    // Get all order items for this vendor's products
-    const items = await db
-      .select({
-        productId: orderItems.productId,
-        productName: products.name,
-        quantity: orderItems.quantity,
-        price: orderItems.price
-      })
-      .from(orderItems)
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .innerJoin(orders, eq(orderItems.orderId, orders.id))
-      .where(eq(products.vendorId, vendorId))
-      .where(eq(orders.status, "completed"));
-      
-    // Aggregate the data
-    const productSales: Record<number, { name: string, sales: number, revenue: number }> = {};
-    
-    items.forEach(item => {
-      if (!productSales[item.productId]) {
-        productSales[item.productId] = {
-          name: item.productName,
-          sales: 0,
-          revenue: 0
-        };
-      }
-      
-      productSales[item.productId].sales += item.quantity;
-      productSales[item.productId].revenue += parseFloat(item.price.toString()) * item.quantity;
-    });
-    
-    // Convert to array and sort by sales
-    return Object.values(productSales)
-      .sort((a, b) => b.sales - a.sales)
-      .slice(0, limit)
-      .map(product => ({
-        name: product.name,
-        sales: product.sales,
-        revenue: `$${product.revenue.toFixed(2)}`
-      }));
+
+  async deleteSentOutboxEmailsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(emailOutbox)
+      .where(and(eq(emailOutbox.status, "sent"), lt(emailOutbox.sentAt, cutoff)))
+      .returning({ id: emailOutbox.id });
+    return deleted.length;
   }
-  
-  async getSalesByHour(vendorId: number): Promise<{ hour: string, sales: number }[]> {
-    // Get all orders for this vendor
-    const vendorOrders = await db
-      .select({
-        createdAt: orders.createdAt,
-        status: orders.status
-      })
-      .from(orders)
-      .where(eq(orders.vendorId, vendorId))
-      .where(eq(orders.status, "completed"));
-    
-    // Group by hour
-    const hourMap: Record<number, number> = {};
-    
-    // Initialize all hours to 0
-    for (let i = 0; i < 24; i++) {
-      hourMap[i] = 0;
-    }
-    
-    vendorOrders.forEach(order => {
-      if (order.createdAt) {
-        const hour = new Date(order.createdAt).getHours();
-        hourMap[hour]++;
-      }
-    });
-    
-    // Convert to the expected format
-    return Object.entries(hourMap)
-      .map(([hour, count]) => {
-        const hourNum = parseInt(hour);
-        let hourLabel: string;
-        
-        if (hourNum === 0) {
-          hourLabel = "12am";
-        } else if (hourNum < 12) {
-          hourLabel = `${hourNum}am`;
-        } else if (hourNum === 12) {
-          hourLabel = "12pm";
-        } else {
-          hourLabel = `${hourNum - 12}pm`;
-        }
-        
-        return {
-          hour: hourLabel,
-          sales: count
-        };
-      })
-      // Reorder for better visualization - 12am, 3am, 6am, etc.
-      .filter((_, index) => index % 3 === 0);
+
+  async getEmailSettings(): Promise<EmailSettings | undefined> {
+    const [settings] = await db.select().from(emailSettings).orderBy(asc(emailSettings.id)).limit(1);
+    return settings;
   }
-  
-  async getSalesByCategory(vendorId: number): Promise<{ name: string, value: number, amount: string }[]> {
-    // Get product sales by category
-    const items = await db
-      .select({
-        categoryId: products.categoryId,
-        categoryName: productCategories.name,
-        total: orderItems.total
-      })
-      .from(orderItems)
-      .innerJoin(products, eq(orderItems.productId, products.id))
-      .innerJoin(productCategories, eq(products.categoryId, productCategories.id))
-      .innerJoin(orders, eq(orderItems.orderId, orders.id))
-      .where(eq(products.vendorId, vendorId))
-      .where(eq(orders.status, "completed"));
-    
-    // Aggregate by category
-    const categorySales: Record<number, { name: string, value: number, amount: number }> = {};
-    let totalSales = 0;
-    
-    items.forEach(item => {
-      if (item.categoryId) {
-        if (!categorySales[item.categoryId]) {
-          categorySales[item.categoryId] = {
-            name: item.categoryName || "Uncategorized",
-            value: 0,
-            amount: 0
-          };
-        }
-        
-        const amount = parseFloat(item.total.toString());
-        categorySales[item.categoryId].amount += amount;
-        totalSales += amount;
-      }
-    });
-    
-    // Calculate percentages and format amounts
-    return Object.values(categorySales)
-      .map(category => ({
-        name: category.name,
-        value: Math.round((category.amount / (totalSales || 1)) * 100),
-        amount: `$${category.amount.toFixed(2)}`
-      }))
-      .sort((a, b) => b.value - a.value);
+
+  async saveEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings> {
+    const existing = await this.getEmailSettings();
+    if (existing) {
+      const [updated] = await db
+        .update(emailSettings)
+        .set({ ...settings, updatedAt: new Date() })
+        .where(eq(emailSettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [newSettings] = await db.insert(emailSettings).values(settings).returning();
+    return newSettings;
   }
 
   // Platform statistics - we'll use SQL aggregation for better performance
@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { Decimal } from "decimal.js";
+import { CHECKOUT_STEPS, STOREFRONT_EVENT_TYPES, type InsertStorefrontEvent } from "@shared/schema";
+import { storage } from "./storage";
+import { DAY_MS, startOfUtcDay } from "./analyticsPeriods";
+
+// Events the browser held on to for longer than this are recorded as happening now
+const MAX_EVENT_AGE_MS = DAY_MS;
+
+// One vendor's storefront traffic and orders over a period
+export interface StorefrontActivity {
+  vendorId: number;
+  visitors: number; // Distinct sessions
+  pageViews: number;
+  convertedSessions: number; // Sessions that reached the checkout confirmation
+  orders: number;
+  revenue: string;
+}
+
+/**
+ * What the storefront beacon sends: a batch of events from one anonymous
+ * session. Nothing in it identifies the shopper.
+ */
+export const storefrontEventBatchSchema = z.object({
+  sessionId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/, "Invalid session ID"),
+  events: z.array(z.object({
+    type: z.enum(STOREFRONT_EVENT_TYPES),
+    path: z.string().max(500).optional(),
+    productId: z.number().int().positive().optional(),
+    step: z.enum(CHECKOUT_STEPS).optional(),
+    // Milliseconds since the epoch, when the beacon batched the event up
+    occurredAt: z.number().optional(),
+  })).min(1).max(50),
+});
+
+export type StorefrontEventBatch = z.infer<typeof storefrontEventBatchSchema>;
+
+/**
+ * Store a batch of events for a vendor's storefront. Timestamps come from
+ * the browser, so ones in the future or too far in the past are replaced
+ * with the time the batch arrived.
+ */
+export async function recordStorefrontEvents(vendorId: number, batch: StorefrontEventBatch, now = new Date()): Promise<number> {
+  const events: InsertStorefrontEvent[] = batch.events.map(event => {
+    const age = event.occurredAt === undefined ? -1 : now.getTime() - event.occurredAt;
+    return {
+      vendorId,
+      sessionId: batch.sessionId,
+      type: event.type,
+      path: event.path ?? null,
+      productId: event.productId ?? null,
+      step: event.type === "checkout_step" ? event.step ?? null : null,
+      occurredAt: age >= 0 && age <= MAX_EVENT_AGE_MS ? new Date(event.occurredAt!) : now,
+    };
+  });
+  return storage.recordStorefrontEvents(events);
+}
+
+/**
+ * Percentage of visitors whose session reached the order confirmation,
+ * to two decimal places
+ */
+export function conversionRate(convertedSessions: number, visitors: number): string {
+  if (visitors <= 0) return "0.00";
+  return new Decimal(convertedSessions).div(visitors).times(100).toDecimalPlaces(2).toFixed(2);
+}
+
+/**
+ * Write the `analytics` row for every vendor with storefront traffic or
+ * orders on the UTC day containing `day`. Rows are replaced, so a day can
+ * be rolled up again as more events arrive. Returns how many were written.
+ */
+export async function rollupStorefrontAnalytics(day: Date): Promise<number> {
+  const from = startOfUtcDay(day);
+  const to = new Date(from.getTime() + DAY_MS);
+  const activity = await storage.getStorefrontActivity(from, to);
+
+  for (const vendor of activity) {
+    await storage.upsertAnalyticsEntry({
+      vendorId: vendor.vendorId,
+      date: from,
+      visitors: vendor.visitors,
+      pageViews: vendor.pageViews,
+      orders: vendor.orders,
+      revenue: vendor.revenue,
+      conversionRate: conversionRate(vendor.convertedSessions, vendor.visitors),
+    });
+  }
+  return activity.length;
+}
+
+/**
+ * Roll up today so far and yesterday (for events that arrived after its
+ * last run), then drop raw events older than STOREFRONT_EVENT_RETENTION_DAYS
+ * (90 by default); their totals stay in `analytics`.
+ */
+export async function runAnalyticsRollup(now = new Date()): Promise<{ rolledUp: number; pruned: number }> {
+  const yesterday = new Date(now.getTime() - DAY_MS);
+  const rolledUp = await rollupStorefrontAnalytics(yesterday) + await rollupStorefrontAnalytics(now);
+
+  const retentionDays = parseInt(process.env.STOREFRONT_EVENT_RETENTION_DAYS ?? "90");
+  const pruned = retentionDays > 0
+    ? await storage.deleteStorefrontEventsBefore(startOfUtcDay(new Date(now.getTime() - retentionDays * DAY_MS)))
+    : 0;
+
+  return { rolledUp, pruned };
+}
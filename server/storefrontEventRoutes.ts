@@ -0,0 +1,31 @@
+import { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { recordStorefrontEvents, storefrontEventBatchSchema } from "./storefrontAnalytics";
+
+/**
+ * Register the endpoint storefront pages send their page views, product
+ * views, add to cart and checkout steps to. It is public: shoppers are
+ * only known by the anonymous session ID their browser made up.
+ */
+export default function registerStorefrontEventRoutes(app: Express) {
+  app.post("/api/stores/:vendorId/events", async (req: Request, res: Response) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const vendor = Number.isNaN(vendorId) ? undefined : await storage.getVendor(vendorId);
+      if (!vendor) {
+        return res.status(404).json({ message: "Store not found" });
+      }
+
+      const batch = storefrontEventBatchSchema.parse(req.body);
+      const recorded = await recordStorefrontEvents(vendor.id, batch);
+      res.status(202).json({ recorded });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid events", errors: error.errors });
+      }
+      console.error("Error recording storefront events:", error);
+      res.status(500).json({ message: "Failed to record events" });
+    }
+  });
+}
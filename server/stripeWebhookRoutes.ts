@@ -0,0 +1,65 @@
+import { Express, Request, Response } from "express";
+import type Stripe from "stripe";
+import { storage } from "./storage";
+import { openProviderSecrets } from "./paymentGateways";
+import { handleStripeEvent, StripeWebhookError, verifyStripeEvent } from "./stripeWebhooks";
+
+// The JSON parser keeps the raw body, which the signature is computed over
+interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+async function receiveStripeEvent(req: RawBodyRequest, res: Response, secret: string | null | undefined, vendorId?: number) {
+  let event: Stripe.Event;
+  try {
+    if (!req.rawBody) {
+      return res.status(400).json({ message: "Webhook payloads must be sent as JSON" });
+    }
+    event = verifyStripeEvent(req.rawBody, req.header("stripe-signature"), secret);
+  } catch (error) {
+    if (error instanceof StripeWebhookError) {
+      return res.status(error.code === "NOT_CONFIGURED" ? 404 : 400).json({ message: error.message, error: error.code });
+    }
+    throw error;
+  }
+
+  try {
+    const outcome = await handleStripeEvent(event, vendorId);
+    return res.status(200).json({ received: true, outcome });
+  } catch (error) {
+    // Anything but a 2xx makes Stripe deliver the event again later
+    console.error(`Error handling Stripe event ${event.id} (${event.type}):`, error);
+    return res.status(500).json({ message: "Failed to process webhook event" });
+  }
+}
+
+/**
+ * Register the Stripe webhook endpoints: one for the platform's own account
+ * (vendor subscriptions, signed with STRIPE_WEBHOOK_SECRET) and one per
+ * vendor for payments taken through their connected Stripe account, signed
+ * with the secret saved in their payment provider settings.
+ */
+export default function registerStripeWebhookRoutes(app: Express) {
+  app.post("/api/webhooks/stripe", async (req: Request, res: Response) => {
+    try {
+      return await receiveStripeEvent(req, res, process.env.STRIPE_WEBHOOK_SECRET);
+    } catch (error) {
+      console.error("Stripe webhook error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/webhooks/stripe/vendors/:vendorId", async (req: Request, res: Response) => {
+    try {
+      const vendorId = parseInt(req.params.vendorId);
+      const settings = Number.isNaN(vendorId)
+        ? undefined
+        : await storage.getPaymentProviderSettingsByVendorId(vendorId, "stripe");
+      const webhookSecret = settings ? openProviderSecrets(settings).webhookSecret : undefined;
+      return await receiveStripeEvent(req, res, webhookSecret, vendorId);
+    } catch (error) {
+      console.error("Stripe webhook error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+}
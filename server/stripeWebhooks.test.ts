@@ -0,0 +1,205 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import Stripe from "stripe";
+import type { IStorage } from "./storage";
+
+// Sends signed Stripe events to the platform endpoint and to a vendor's own
+// one, then checks what each was allowed to change. Runs against the
+// in-memory storage, so no database is needed.
+
+// db.ts won't load without a connection string, though nothing connects
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+process.env.STRIPE_WEBHOOK_SECRET = "whsec_platform";
+
+const VENDOR_SECRET = "whsec_chosen_by_the_vendor";
+
+let server: Server;
+let baseUrl: string;
+let vendorId: number;
+let premiumPlanId: number;
+
+// An invoice.paid event for the vendor's platform subscription
+function invoicePaid(eventId: string) {
+  return {
+    id: eventId,
+    object: "event",
+    type: "invoice.paid",
+    data: {
+      object: {
+        id: `in_${eventId}`,
+        object: "invoice",
+        number: `INV-${eventId}`,
+        parent: { subscription_details: { subscription: "sub_platform" } },
+        currency: "usd",
+        total: 2900,
+        total_excluding_tax: 2900,
+        amount_paid: 2900,
+        amount_due: 2900,
+        created: Math.floor(Date.now() / 1000),
+        due_date: null,
+        status: "paid",
+        status_transitions: { paid_at: Math.floor(Date.now() / 1000) },
+        payments: { data: [] },
+      },
+    },
+  };
+}
+
+// A customer.subscription.updated event moving it onto the premium plan, paid up
+function subscriptionUpdated(eventId: string) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: eventId,
+    object: "event",
+    type: "customer.subscription.updated",
+    data: {
+      object: {
+        id: "sub_platform",
+        object: "subscription",
+        status: "active",
+        customer: "cus_platform",
+        cancel_at_period_end: false,
+        canceled_at: null,
+        trial_end: null,
+        items: {
+          data: [{
+            current_period_start: now,
+            current_period_end: now + 30 * 24 * 60 * 60,
+            price: { id: "price_premium_monthly", recurring: { interval: "month" } },
+          }],
+        },
+      },
+    },
+  };
+}
+
+async function deliver(path: string, secret: string, event: object) {
+  const payload = JSON.stringify(event);
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Stripe-Signature": Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+before(async () => {
+  const { MemStorage, storage } = await import("./storage");
+  const memory = new MemStorage();
+  // Answer every storage call from memory instead of the database
+  const names = Object.getOwnPropertyNames(MemStorage.prototype).filter(name => name !== "constructor") as (keyof IStorage)[];
+  for (const name of names) {
+    const method = memory[name];
+    if (typeof method === "function") Object.assign(storage, { [name]: method.bind(memory) });
+  }
+  storage.sessionStore = memory.sessionStore;
+
+  const express = (await import("express")).default;
+  const registerStripeWebhookRoutes = (await import("./stripeWebhookRoutes")).default;
+  const app = express();
+  // As in index.ts, keeping the raw body the signature is computed over
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+    },
+  }));
+  registerStripeWebhookRoutes(app);
+  server = app.listen(0, "127.0.0.1");
+  await new Promise<void>(resolve => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const { NON_PAYMENT_SUSPENSION } = await import("./billing");
+  const user = await storage.createUser({ email: "late@example.com", role: "vendor", isProfileComplete: true });
+  const plan = await storage.createSubscriptionPlan({
+    name: "Webhook test plan",
+    description: "For the webhook tests",
+    price: "29.00",
+    productLimit: 10,
+    storageLimit: 1,
+    customDomainLimit: 1,
+    supportLevel: "email",
+  });
+  const premium = await storage.createSubscriptionPlan({
+    name: "Webhook test premium plan",
+    description: "For the webhook tests",
+    price: "99.00",
+    productLimit: 1000,
+    storageLimit: 10,
+    customDomainLimit: 5,
+    supportLevel: "priority",
+    stripePriceIdMonthly: "price_premium_monthly",
+  });
+  const vendor = await storage.createVendor({
+    userId: user.id,
+    companyName: "Late Payer",
+    status: "suspended",
+    suspensionReason: NON_PAYMENT_SUSPENSION,
+    subscriptionStatus: "overdue",
+  });
+  await storage.createVendorSubscription({
+    vendorId: vendor.id,
+    planId: plan.id,
+    status: "past_due",
+    startDate: new Date(),
+    stripeSubscriptionId: "sub_platform",
+    paymentFailureCount: 3,
+  });
+  vendorId = vendor.id;
+  premiumPlanId = premium.id;
+
+  // Saved before credentials were encrypted, which is still read as it is
+  await storage.createPaymentProviderSettings({ vendorId, provider: "stripe", isActive: true, webhookSecret: VENDOR_SECRET });
+});
+
+after(async () => {
+  await new Promise(resolve => server?.close(resolve));
+});
+
+describe("Stripe webhooks", () => {
+  test("leave a suspended vendor suspended when the vendor signs invoice.paid themselves", async () => {
+    const res = await deliver(`/api/webhooks/stripe/vendors/${vendorId}`, VENDOR_SECRET, invoicePaid("evt_vendor_invoice"));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.outcome, "ignored");
+
+    const { storage } = await import("./storage");
+    const vendor = await storage.getVendor(vendorId);
+    assert.equal(vendor?.status, "suspended");
+    assert.equal(vendor?.subscriptionStatus, "overdue");
+    const subscription = await storage.getVendorSubscription(vendorId);
+    assert.equal(subscription?.status, "past_due");
+    assert.equal(subscription?.paymentFailureCount, 3);
+  });
+
+  test("don't change the plan when the vendor signs a subscription update themselves", async () => {
+    const res = await deliver(`/api/webhooks/stripe/vendors/${vendorId}`, VENDOR_SECRET, subscriptionUpdated("evt_vendor_subscription"));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.outcome, "ignored");
+
+    const { storage } = await import("./storage");
+    const subscription = await storage.getVendorSubscription(vendorId);
+    assert.notEqual(subscription?.planId, premiumPlanId);
+    assert.equal(subscription?.status, "past_due");
+  });
+
+  test("refuse the vendor's secret on the platform endpoint", async () => {
+    const res = await deliver("/api/webhooks/stripe", VENDOR_SECRET, invoicePaid("evt_forged"));
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, "INVALID_SIGNATURE");
+  });
+
+  test("apply subscription updates from the platform endpoint", async () => {
+    const res = await deliver("/api/webhooks/stripe", "whsec_platform", subscriptionUpdated("evt_platform_subscription"));
+    assert.equal(res.status, 200);
+    assert.equal(res.body.outcome, "processed");
+
+    const { storage } = await import("./storage");
+    const subscription = await storage.getVendorSubscription(vendorId);
+    assert.equal(subscription?.planId, premiumPlanId);
+    assert.equal(subscription?.status, "active");
+  });
+});
@@ -0,0 +1,379 @@
+import Stripe from "stripe";
+import Decimal from "decimal.js";
+import type { InsertPlatformSubscription, Invoice, SubscriptionInfo } from "@shared/schema";
+import { storage } from "./storage";
+import { recordPayment, recordRefundedTotal, settleOrderPayment, STALE_WEBHOOK_PROCESSING_MS } from "./orderPayments";
+import { planPrice, reinstateVendor, sendPaymentReminder } from "./billing";
+
+export type StripeWebhookErrorCode = "NOT_CONFIGURED" | "MISSING_SIGNATURE" | "INVALID_SIGNATURE";
+
+/**
+ * A webhook delivery we can't trust, so it is refused without being looked at
+ */
+export class StripeWebhookError extends Error {
+  public readonly code: StripeWebhookErrorCode;
+
+  constructor(code: StripeWebhookErrorCode, message: string) {
+    super(message);
+    this.name = "StripeWebhookError";
+    this.code = code;
+  }
+}
+
+// "duplicate" events were already handled by an earlier delivery
+export type StripeEventOutcome = "processed" | "ignored" | "duplicate";
+
+// Stripe's subscription statuses in terms of ours
+const SUBSCRIPTION_STATUSES: Record<Stripe.Subscription.Status, string> = {
+  trialing: "trialing",
+  active: "active",
+  past_due: "past_due",
+  unpaid: "unpaid",
+  canceled: "canceled",
+  incomplete: "unpaid",
+  incomplete_expired: "canceled",
+  paused: "unpaid",
+};
+
+// The vendor's own summary of their subscription, as shown in the admin
+const VENDOR_SUBSCRIPTION_STATUSES: Record<string, string> = {
+  trialing: "trial",
+  active: "active",
+  past_due: "overdue",
+  unpaid: "overdue",
+};
+
+/**
+ * Check a webhook delivery's Stripe-Signature header against the endpoint's
+ * signing secret and parse the event. `payload` must be the raw request body.
+ */
+export function verifyStripeEvent(
+  payload: Buffer | string,
+  signature: string | undefined,
+  secret: string | null | undefined
+): Stripe.Event {
+  if (!secret) {
+    throw new StripeWebhookError("NOT_CONFIGURED", "No webhook signing secret is configured for this endpoint");
+  }
+  if (!signature) {
+    throw new StripeWebhookError("MISSING_SIGNATURE", "The Stripe-Signature header is missing");
+  }
+
+  try {
+    return Stripe.webhooks.constructEvent(payload, signature, secret);
+  } catch (error: any) {
+    throw new StripeWebhookError("INVALID_SIGNATURE", error.message);
+  }
+}
+
+/**
+ * Apply a verified Stripe event to our subscriptions, invoices and
+ * transactions. Each event is acted on once however often Stripe delivers
+ * it; one that failed, or was left processing by a server that stopped, is
+ * retried on its next delivery. Events sent to a vendor's own endpoint only
+ * ever touch that vendor's order payments.
+ */
+export async function handleStripeEvent(event: Stripe.Event, vendorId?: number): Promise<StripeEventOutcome> {
+  const claimed = await storage.claimWebhookEvent({
+    provider: "stripe",
+    eventId: event.id,
+    type: event.type,
+    payload: event,
+  }, new Date(Date.now() - STALE_WEBHOOK_PROCESSING_MS));
+  if (!claimed) return "duplicate";
+
+  try {
+    const handled = await applyStripeEvent(event, vendorId);
+    await storage.updateWebhookEvent(claimed.id, {
+      status: handled ? "processed" : "ignored",
+      error: null,
+      processedAt: new Date(),
+    });
+    return handled ? "processed" : "ignored";
+  } catch (error: any) {
+    await storage.updateWebhookEvent(claimed.id, { status: "failed", error: String(error?.message ?? error) });
+    throw error;
+  }
+}
+
+// Whether the event concerned anything we keep track of. A vendor's own
+// endpoint is signed with a secret the vendor chose, so it only ever settles
+// that vendor's order payments; subscription and invoice events are trusted
+// from the platform endpoint alone.
+async function applyStripeEvent(event: Stripe.Event, vendorId?: number): Promise<boolean> {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      return paymentIntentSettled(event.data.object, "completed", vendorId);
+    case "payment_intent.payment_failed":
+      return paymentIntentSettled(event.data.object, "failed", vendorId);
+    case "charge.refunded":
+      return chargeRefunded(event.data.object, vendorId);
+  }
+  if (vendorId !== undefined) return false;
+
+  switch (event.type) {
+    case "invoice.paid":
+      return invoicePaid(event.data.object);
+    case "invoice.payment_failed":
+      return invoicePaymentFailed(event.data.object);
+    case "customer.subscription.updated":
+      return subscriptionUpdated(event.data.object);
+    case "customer.subscription.deleted":
+      return subscriptionDeleted(event.data.object);
+    default:
+      return false;
+  }
+}
+
+// Expandable fields arrive as IDs unless they were expanded
+function idOf(field: string | { id?: string } | null | undefined): string | null {
+  if (!field) return null;
+  return typeof field === "string" ? field : field.id ?? null;
+}
+
+// Stripe amounts are in the currency's smallest unit
+function fromMinorUnits(amount: number): string {
+  return new Decimal(amount).dividedBy(100).toFixed(2);
+}
+
+function fromTimestamp(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function belongsTo(record: { vendorId: number }, vendorId?: number): boolean {
+  return vendorId === undefined || record.vendorId === vendorId;
+}
+
+// Older API versions put these on the invoice itself rather than under
+// `parent` and `payments`
+type LegacyInvoice = {
+  subscription?: string | { id: string } | null;
+  payment_intent?: string | { id: string } | null;
+  charge?: string | { id: string } | null;
+};
+
+async function subscriptionForInvoice(invoice: Stripe.Invoice): Promise<SubscriptionInfo | undefined> {
+  const stripeSubscriptionId = idOf(
+    invoice.parent?.subscription_details?.subscription ?? (invoice as LegacyInvoice).subscription
+  );
+  if (!stripeSubscriptionId) return undefined;
+
+  return storage.getVendorSubscriptionByStripeId(stripeSubscriptionId);
+}
+
+// The payment that settled (or failed to settle) an invoice, falling back to the invoice itself
+function invoicePaymentId(invoice: Stripe.Invoice): string {
+  const legacy = invoice as LegacyInvoice;
+  const payment = invoice.payments?.data[0]?.payment;
+  return idOf(legacy.payment_intent) ?? idOf(legacy.charge) ?? idOf(payment?.payment_intent) ?? idOf(payment?.charge) ?? invoice.id!;
+}
+
+// Our copy of a subscription invoice, created the first time Stripe tells us about it
+async function findOrCreateInvoice(invoice: Stripe.Invoice, subscription: SubscriptionInfo): Promise<Invoice> {
+  const existing = await storage.getInvoiceByGatewayId(invoice.id!);
+  if (existing) return existing;
+
+  return storage.createInvoice({
+    vendorId: subscription.vendorId,
+    subscriptionId: subscription.id,
+    invoiceNumber: invoice.number ?? invoice.id!,
+    amount: fromMinorUnits(invoice.total_excluding_tax ?? invoice.total),
+    tax: fromMinorUnits(invoice.total - (invoice.total_excluding_tax ?? invoice.total)),
+    total: fromMinorUnits(invoice.total),
+    status: "pending",
+    currency: invoice.currency.toUpperCase(),
+    dueDate: fromTimestamp(invoice.due_date) ?? fromTimestamp(invoice.created)!,
+    gatewayInvoiceId: invoice.id!,
+  });
+}
+
+async function updateSubscription(subscription: SubscriptionInfo, data: Partial<InsertPlatformSubscription>) {
+  const updated = await storage.updateVendorSubscription(subscription.id, data);
+  if (!updated) return;
+
+  // Keep the vendor's own plan and status in step with their subscription
+  const vendorStatus = VENDOR_SUBSCRIPTION_STATUSES[updated.status];
+  await storage.updateVendor(updated.vendorId, {
+    subscriptionPlanId: updated.planId,
+    ...(vendorStatus ? { subscriptionStatus: vendorStatus } : {}),
+  });
+}
+
+async function invoicePaid(invoice: Stripe.Invoice): Promise<boolean> {
+  const subscription = await subscriptionForInvoice(invoice);
+  if (!subscription) return false;
+
+  const record = await findOrCreateInvoice(invoice, subscription);
+  await storage.updateInvoice(record.id, {
+    status: "paid",
+    paidAt: fromTimestamp(invoice.status_transitions.paid_at) ?? new Date(),
+  });
+
+  if (invoice.amount_paid > 0) {
+    const amount = fromMinorUnits(invoice.amount_paid);
+    await recordPayment(invoicePaymentId(invoice), {
+      type: "platform_subscription",
+      status: "completed",
+      amount,
+      currency: invoice.currency.toUpperCase(),
+      fee: "0",
+      net: amount,
+      vendorId: subscription.vendorId,
+      invoiceId: record.id,
+      gatewayResponse: { invoice: invoice.id, status: invoice.status },
+    });
+  }
+
+  // A trial's zero invoice is paid too, but doesn't start the subscription
+  const recovered = ["past_due", "unpaid"].includes(subscription.status);
+  await updateSubscription(subscription, {
+    paymentFailureCount: 0,
+    ...(recovered ? { status: "active" } : {}),
+  });
+  await reinstateVendor(subscription.vendorId);
+  return true;
+}
+
+async function invoicePaymentFailed(invoice: Stripe.Invoice): Promise<boolean> {
+  const subscription = await subscriptionForInvoice(invoice);
+  if (!subscription) return false;
+
+  const record = await findOrCreateInvoice(invoice, subscription);
+  if (record.status !== "paid") {
+    await storage.updateInvoice(record.id, { status: "overdue" });
+  }
+
+  const amount = fromMinorUnits(invoice.amount_due);
+  await recordPayment(invoicePaymentId(invoice), {
+    type: "platform_subscription",
+    status: "failed",
+    amount,
+    currency: invoice.currency.toUpperCase(),
+    fee: "0",
+    net: amount,
+    vendorId: subscription.vendorId,
+    invoiceId: record.id,
+    gatewayResponse: { invoice: invoice.id, attempt: invoice.attempt_count },
+  });
+
+  // Stripe counts the attempts, so a redelivered failure doesn't count twice
+  await updateSubscription(subscription, {
+    status: subscription.status === "canceled" ? "canceled" : "past_due",
+    paymentFailureCount: invoice.attempt_count,
+  });
+  // Stripe retries the payment itself, on its own schedule
+  await sendPaymentReminder(subscription, record, { nextRetryAt: fromTimestamp(invoice.next_payment_attempt) });
+  return true;
+}
+
+async function subscriptionUpdated(stripeSubscription: Stripe.Subscription): Promise<boolean> {
+  const subscription = await storage.getVendorSubscriptionByStripeId(stripeSubscription.id);
+  if (!subscription) return false;
+
+  // Periods moved onto subscription items in API version 2025-03-31
+  const item = stripeSubscription.items.data[0];
+  const legacy = stripeSubscription as { current_period_start?: number; current_period_end?: number };
+  const periodStart = fromTimestamp(item?.current_period_start ?? legacy.current_period_start);
+  const periodEnd = fromTimestamp(item?.current_period_end ?? legacy.current_period_end);
+
+  // Plan changes made in the Stripe dashboard carry over when we know the
+  // price, as do ones scheduled for the end of the period once they start
+  const plan = item?.price ? await storage.getSubscriptionPlanByStripePriceId(item.price.id) : undefined;
+  const billingCycle = item?.price.recurring?.interval === "year" ? "yearly" : "monthly";
+  const pending = subscription.pendingPlanChange;
+  const pendingApplied = !!plan && pending?.planId === plan.id && pending.billingCycle === billingCycle;
+
+  await updateSubscription(subscription, {
+    status: SUBSCRIPTION_STATUSES[stripeSubscription.status],
+    ...(plan ? {
+      planId: plan.id,
+      billingCycle,
+      amount: planPrice(plan, billingCycle),
+    } : {}),
+    ...(pendingApplied ? { pendingPlanChange: null } : {}),
+    ...(periodStart ? { currentPeriodStart: periodStart } : {}),
+    ...(periodEnd ? { currentPeriodEnd: periodEnd, renewalDate: periodEnd } : {}),
+    cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+    trialEndsAt: fromTimestamp(stripeSubscription.trial_end),
+    canceledAt: fromTimestamp(stripeSubscription.canceled_at),
+    stripeCustomerId: idOf(stripeSubscription.customer),
+  });
+  return true;
+}
+
+async function subscriptionDeleted(stripeSubscription: Stripe.Subscription): Promise<boolean> {
+  const subscription = await storage.getVendorSubscriptionByStripeId(stripeSubscription.id);
+  if (!subscription) return false;
+
+  const endedAt = fromTimestamp(stripeSubscription.ended_at) ?? new Date();
+  await updateSubscription(subscription, {
+    status: "canceled",
+    cancelAtPeriodEnd: false,
+    canceledAt: fromTimestamp(stripeSubscription.canceled_at) ?? endedAt,
+    endDate: endedAt,
+  });
+  return true;
+}
+
+/**
+ * An order payment succeeded or failed. Payments we started carry the order
+ * in their metadata; ones already recorded are found by their ID.
+ */
+async function paymentIntentSettled(
+  paymentIntent: Stripe.PaymentIntent,
+  status: "completed" | "failed",
+  vendorId?: number
+): Promise<boolean> {
+  const existing = await storage.getTransactionByGatewayId(paymentIntent.id);
+  const orderId = existing?.orderId ?? (Number(paymentIntent.metadata?.orderId) || null);
+  const order = orderId ? await storage.getOrder(orderId) : undefined;
+
+  const owner = existing ?? order;
+  if (!owner || !belongsTo(owner, vendorId)) return false;
+
+  const amount = fromMinorUnits(status === "completed" ? paymentIntent.amount_received : paymentIntent.amount);
+  const error = paymentIntent.last_payment_error?.message ?? null;
+
+  // Settled like any other gateway's payment, so the shopper gets their confirmation
+  if (order) {
+    await settleOrderPayment(order, "stripe", {
+      sessionId: paymentIntent.id,
+      paymentId: paymentIntent.id,
+      status,
+      amount,
+      currency: paymentIntent.currency.toUpperCase(),
+      error,
+      raw: { status: paymentIntent.status },
+    });
+    return true;
+  }
+
+  await recordPayment(paymentIntent.id, {
+    type: "order_payment",
+    status,
+    amount,
+    currency: paymentIntent.currency.toUpperCase(),
+    fee: "0",
+    net: amount,
+    vendorId: owner.vendorId,
+    orderId: null,
+    gatewayResponse: { status: paymentIntent.status, error },
+  });
+  return true;
+}
+
+/**
+ * A charge was refunded, in full or in part. Stripe reports the total
+ * refunded so far; refunds we made ourselves are already counted.
+ */
+async function chargeRefunded(charge: Stripe.Charge, vendorId?: number): Promise<boolean> {
+  const paymentIntentId = idOf(charge.payment_intent);
+  const payment =
+    (paymentIntentId ? await storage.getTransactionByGatewayId(paymentIntentId) : undefined) ??
+    (await storage.getTransactionByGatewayId(charge.id));
+  if (!payment || !belongsTo(payment, vendorId)) return false;
+
+  const reason = charge.refunds?.data[0]?.reason ?? "Refunded in Stripe";
+  await recordRefundedTotal(payment, fromMinorUnits(charge.amount_refunded), reason);
+  return true;
+}
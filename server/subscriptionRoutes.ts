@@ -2,6 +2,10 @@ import { Request, Response, NextFunction, Router } from 'express';
 import { storage } from './storage';
 import Stripe from 'stripe';
 import { z } from 'zod';
+import { describeViolation, getPlanChangeViolations, getVendorUsage } from './usageMeter';
+import { payInvoice, planPrice } from './billing';
+import { applyPlanChange, calculateProration, PlanChange, PlanChangeError } from './proration';
+import type { SubscriptionInfo } from '@shared/schema';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -29,22 +33,111 @@ const requireAuth = (req: AuthRequest, res: Response, next: NextFunction) => {
   next();
 };
 
+// Whether a change is made now (and prorated) or when the current period ends
+const timingSchema = z.enum(['immediate', 'period_end']).default('immediate');
+
 // Schema for changing plan
 const changePlanSchema = z.object({
   planId: z.number(),
+  timing: timingSchema,
 });
 
 // Schema for changing billing cycle
 const changeBillingCycleSchema = z.object({
   billingCycle: z.enum(['monthly', 'yearly']),
+  timing: timingSchema,
+});
+
+// Schema for previewing either kind of change; whatever is left out stays as it is
+const previewPlanChangeSchema = z.object({
+  planId: z.number().optional(),
+  billingCycle: z.enum(['monthly', 'yearly']).optional(),
+  timing: timingSchema,
 });
 
+const sendPlanChangeError = (res: Response, error: PlanChangeError) =>
+  res.status(error.code === 'PAYMENT_OVERDUE' ? 409 : 400).json({ message: error.message, error: error.code });
+
 // Schema for cancellation
 const cancelSubscriptionSchema = z.object({
   cancelAtPeriodEnd: z.boolean(),
   cancelReason: z.string().optional(),
 });
 
+/**
+ * Move a Stripe subscription onto another price. Immediate changes are made
+ * now and Stripe invoices the proration; changes at the end of the period go
+ * on a subscription schedule, so the renewal is the first invoice at the new
+ * price. Either replaces a change scheduled before.
+ */
+async function changeStripePrice(stripe: Stripe, subscription: SubscriptionInfo, priceId: string, timing: PlanChange['timing']) {
+  const stripeSubscriptionId = subscription.stripeSubscriptionId!;
+  const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  const scheduleId = typeof stripeSubscription.schedule === 'string'
+    ? stripeSubscription.schedule
+    : stripeSubscription.schedule?.id;
+
+  if (timing === 'immediate') {
+    // Otherwise the schedule would switch the price back when the period ends
+    if (scheduleId) {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    }
+    await stripe.subscriptions.update(stripeSubscriptionId, {
+      items: [{
+        id: stripeSubscription.items.data[0].id,
+        price: priceId,
+      }],
+      proration_behavior: 'always_invoice',
+    });
+    return;
+  }
+
+  const schedule = scheduleId
+    ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+    : await stripe.subscriptionSchedules.create({ from_subscription: stripeSubscriptionId });
+  const currentPhase = schedule.current_phase;
+  if (!currentPhase) {
+    throw new Error(`Subscription schedule ${schedule.id} has no current phase`);
+  }
+
+  // The current period runs out as it is, then the new price takes over and
+  // the schedule lets go of the subscription
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: stripeSubscription.items.data.map(item => ({ price: item.price.id, quantity: item.quantity ?? 1 })),
+        start_date: currentPhase.start_date,
+        end_date: currentPhase.end_date,
+      },
+      {
+        items: [{ price: priceId, quantity: 1 }],
+        iterations: 1,
+      },
+    ],
+  });
+}
+
+/**
+ * Record a plan change made in Stripe. One at the end of the period stays
+ * pending until Stripe's subscription.updated webhook reports the new price.
+ */
+async function recordStripePlanChange(subscription: SubscriptionInfo, change: PlanChange) {
+  if (change.timing === 'period_end') {
+    return storage.updateVendorSubscription(subscription.id, {
+      pendingPlanChange: { planId: change.plan.id, billingCycle: change.billingCycle, requestedAt: new Date().toISOString() },
+    });
+  }
+
+  return storage.updateVendorSubscription(subscription.id, {
+    planId: change.plan.id,
+    billingCycle: change.billingCycle,
+    amount: planPrice(change.plan, change.billingCycle),
+    pendingPlanChange: null,
+  });
+}
+
 /**
  * Register subscription-related routes
  */
@@ -83,6 +176,65 @@ export default function registerSubscriptionRoutes(app: Router) {
     }
   });
 
+  // What the vendor is using of their plan's limits
+  app.get('/api/vendor/usage', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const vendorId = await storage.getVendorIdByUserId(req.user.id);
+      
+      if (!vendorId) {
+        return res.status(404).json({ message: 'Vendor account not found' });
+      }
+
+      res.json(await getVendorUsage(vendorId));
+    } catch (error: any) {
+      console.error('Error fetching vendor usage:', error);
+      res.status(500).json({ message: 'Failed to fetch usage' });
+    }
+  });
+
+  // The vendor's subscription invoices, newest first
+  app.get('/api/vendor/subscription/invoices', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const vendorId = await storage.getVendorIdByUserId((req as AuthRequest).user.id);
+      
+      if (!vendorId) {
+        return res.status(404).json({ message: 'Vendor account not found' });
+      }
+
+      res.json(await storage.getInvoicesByVendorId(vendorId));
+    } catch (error: any) {
+      console.error('Error fetching invoices:', error);
+      res.status(500).json({ message: 'Failed to fetch invoices' });
+    }
+  });
+
+  // Pay an unpaid invoice now, with the vendor's saved payment method
+  app.post('/api/vendor/subscription/invoices/:id/pay', requireAuth, async (req: Request, res: Response) => {
+    try {
+      const vendorId = await storage.getVendorIdByUserId((req as AuthRequest).user.id);
+      
+      if (!vendorId) {
+        return res.status(404).json({ message: 'Vendor account not found' });
+      }
+
+      const result = await payInvoice(vendorId, parseInt(req.params.id));
+      if (!result) {
+        return res.status(404).json({ message: 'No unpaid invoice found' });
+      }
+      if (!result.paid) {
+        return res.status(402).json({
+          message: 'The payment failed. Please check your payment method and try again.',
+          invoice: result.invoice,
+        });
+      }
+
+      res.json(result.invoice);
+    } catch (error: any) {
+      console.error('Error paying invoice:', error);
+      res.status(500).json({ message: 'Failed to pay invoice' });
+    }
+  });
+
   // Start a trial subscription
   app.post('/api/vendor/subscription/start-trial', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
@@ -112,7 +264,7 @@ export default function registerSubscriptionRoutes(app: Router) {
 
       // Calculate trial end date
       const trialEndsAt = new Date();
-      trialEndsAt.setDate(trialEndsAt.getDate() + plan.trialDays);
+      trialEndsAt.setDate(trialEndsAt.getDate() + (plan.trialDays ?? 7));
 
       // Create a subscription record
       const subscription = await storage.createVendorSubscription({
@@ -138,10 +290,50 @@ export default function registerSubscriptionRoutes(app: Router) {
     }
   });
 
+  // Preview what a plan or billing cycle change would cost, before making it
+  app.post('/api/vendor/subscription/change-plan/preview', requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const { planId, billingCycle, timing } = previewPlanChangeSchema.parse(req.body);
+      const vendorId = await storage.getVendorIdByUserId(req.user.id);
+
+      if (!vendorId) {
+        return res.status(404).json({ message: 'Vendor account not found' });
+      }
+
+      const subscription = await storage.getVendorSubscription(vendorId);
+
+      if (!subscription) {
+        return res.status(404).json({ message: 'No active subscription found' });
+      }
+
+      const plan = planId ? await storage.getSubscriptionPlanById(planId) : subscription.plan;
+
+      if (!plan) {
+        return res.status(404).json({ message: 'Subscription plan not found' });
+      }
+
+      res.json(calculateProration(subscription, {
+        plan,
+        billingCycle: billingCycle ?? (subscription.billingCycle as PlanChange['billingCycle']),
+        timing,
+      }));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
+      }
+      if (error instanceof PlanChangeError) {
+        return sendPlanChangeError(res, error);
+      }
+
+      console.error('Error previewing plan change:', error);
+      res.status(500).json({ message: 'Failed to preview plan change' });
+    }
+  });
+
   // Change subscription plan
   app.post('/api/vendor/subscription/change-plan', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
-      const { planId } = changePlanSchema.parse(req.body);
+      const { planId, timing } = changePlanSchema.parse(req.body);
       const userId = req.user.id;
       
       // Get the vendor ID
@@ -165,6 +357,23 @@ export default function registerSubscriptionRoutes(app: Router) {
         return res.status(404).json({ message: 'Subscription plan not found' });
       }
 
+      // A smaller plan has to fit what the store already uses
+      const violations = await getPlanChangeViolations(vendorId, newPlan);
+      if (violations.length > 0) {
+        return res.status(409).json({
+          message: `Your store uses more than the ${newPlan.name} plan allows. ${violations.map(describeViolation).join('; ')}.`,
+          error: 'PLAN_LIMITS_EXCEEDED',
+          violations,
+        });
+      }
+
+      const change: PlanChange = {
+        plan: newPlan,
+        billingCycle: currentSubscription.billingCycle as PlanChange['billingCycle'],
+        timing,
+      };
+      const proration = calculateProration(currentSubscription, change);
+
       // If we have Stripe integration
       if (stripe && currentSubscription.stripeSubscriptionId) {
         try {
@@ -179,13 +388,7 @@ export default function registerSubscriptionRoutes(app: Router) {
             });
           }
 
-          // Update the subscription in Stripe
-          await stripe.subscriptions.update(currentSubscription.stripeSubscriptionId, {
-            items: [{
-              id: currentSubscription.stripeItemId || '',
-              price: stripePriceId,
-            }],
-          });
+          await changeStripePrice(stripe, currentSubscription, stripePriceId, timing);
           
         } catch (stripeErr: any) {
           console.error('Stripe subscription update error:', stripeErr);
@@ -194,23 +397,20 @@ export default function registerSubscriptionRoutes(app: Router) {
             error: stripeErr.message
           });
         }
-      }
 
-      // Update the subscription in our database
-      const amount = currentSubscription.billingCycle === 'yearly' 
-        ? newPlan.yearlyPrice || newPlan.price 
-        : newPlan.price;
+        const updatedSubscription = await recordStripePlanChange(currentSubscription, change);
 
-      const updatedSubscription = await storage.updateVendorSubscription(currentSubscription.id, {
-        planId,
-        amount,
-      });
+        return res.json({ subscription: updatedSubscription, proration, invoice: null, paid: false });
+      }
 
-      res.json(updatedSubscription);
+      res.json(await applyPlanChange(currentSubscription, change));
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
       }
+      if (error instanceof PlanChangeError) {
+        return sendPlanChangeError(res, error);
+      }
       
       console.error('Error changing subscription plan:', error);
       res.status(500).json({ message: 'Failed to change subscription plan' });
@@ -220,7 +420,7 @@ export default function registerSubscriptionRoutes(app: Router) {
   // Change billing cycle (monthly/yearly)
   app.post('/api/vendor/subscription/change-billing-cycle', requireAuth, async (req: AuthRequest, res: Response) => {
     try {
-      const { billingCycle } = changeBillingCycleSchema.parse(req.body);
+      const { billingCycle, timing } = changeBillingCycleSchema.parse(req.body);
       const userId = req.user.id;
       
       // Get the vendor ID
@@ -251,6 +451,9 @@ export default function registerSubscriptionRoutes(app: Router) {
         });
       }
 
+      const change: PlanChange = { plan, billingCycle, timing };
+      const proration = calculateProration(subscription, change);
+
       // If we have Stripe integration
       if (stripe && subscription.stripeSubscriptionId) {
         try {
@@ -265,13 +468,7 @@ export default function registerSubscriptionRoutes(app: Router) {
             });
           }
 
-          // Update the subscription in Stripe
-          await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
-            items: [{
-              id: subscription.stripeItemId || '',
-              price: stripePriceId,
-            }],
-          });
+          await changeStripePrice(stripe, subscription, stripePriceId, timing);
           
         } catch (stripeErr: any) {
           console.error('Stripe subscription update error:', stripeErr);
@@ -280,24 +477,20 @@ export default function registerSubscriptionRoutes(app: Router) {
             error: stripeErr.message
           });
         }
-      }
 
-      // Determine the new amount based on billing cycle
-      const amount = billingCycle === 'yearly' 
-        ? plan.yearlyPrice || plan.price
-        : plan.price;
+        const updatedSubscription = await recordStripePlanChange(subscription, change);
 
-      // Update the subscription in our database
-      const updatedSubscription = await storage.updateVendorSubscription(subscription.id, {
-        billingCycle,
-        amount,
-      });
+        return res.json({ subscription: updatedSubscription, proration, invoice: null, paid: false });
+      }
 
-      res.json(updatedSubscription);
+      res.json(await applyPlanChange(subscription, change));
     } catch (error: any) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid request data', errors: error.errors });
       }
+      if (error instanceof PlanChangeError) {
+        return sendPlanChangeError(res, error);
+      }
       
       console.error('Error changing billing cycle:', error);
       res.status(500).json({ message: 'Failed to change billing cycle' });
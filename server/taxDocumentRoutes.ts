@@ -0,0 +1,75 @@
+import { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { canAccessVendor, resolveTenant } from "./middleware/tenantMiddleware";
+import { getOrderInvoiceDocument, getSubscriptionInvoiceDocument, TaxDocumentError, type IssuedDocument } from "./taxDocuments";
+
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
+
+function sendDocument(res: Response, { document, pdf }: IssuedDocument) {
+  const filename = document.documentNumber.replace(/\//g, "-");
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+  res.setHeader("Cache-Control", "private, no-store");
+  return res.send(pdf);
+}
+
+function handleDocumentError(res: Response, error: any) {
+  if (error instanceof TaxDocumentError) {
+    return res.status(409).json({ message: error.message, error: error.code });
+  }
+  console.error("Error generating tax document:", error);
+  return res.status(500).json({ message: "Failed to generate invoice" });
+}
+
+/**
+ * Register the PDF invoice downloads: an order's tax invoice for the vendor
+ * and the shopper who placed it, and subscription invoices for the vendor
+ * billed
+ */
+export default function registerTaxDocumentRoutes(app: Express) {
+  app.get("/api/orders/:id/invoice.pdf", isAuthenticated, async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const id = parseInt(req.params.id);
+      const order = Number.isNaN(id) ? undefined : await storage.getOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const tenant = await resolveTenant(req);
+      const customer = order.customerId ? await storage.getCustomerByUserId(req.user.id, order.vendorId) : undefined;
+      const isVendor = !!tenant && canAccessVendor(tenant, order.vendorId);
+      if (!isVendor && customer?.id !== order.customerId) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      return sendDocument(res, await getOrderInvoiceDocument(order));
+    } catch (error) {
+      return handleDocumentError(res, error);
+    }
+  });
+
+  app.get("/api/vendor/subscription/invoices/:id/pdf", isAuthenticated, async (request: Request, res: Response) => {
+    const req = request as AuthRequest;
+    try {
+      const vendorId = await storage.getVendorIdByUserId(req.user.id);
+      if (!vendorId) {
+        return res.status(404).json({ message: "Vendor account not found" });
+      }
+
+      const id = parseInt(req.params.id);
+      const invoice = Number.isNaN(id) ? undefined : await storage.getInvoice(id);
+      if (!invoice || invoice.vendorId !== vendorId) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      return sendDocument(res, await getSubscriptionInvoiceDocument(invoice));
+    } catch (error) {
+      return handleDocumentError(res, error);
+    }
+  });
+}
@@ -0,0 +1,307 @@
+import { randomUUID } from "crypto";
+import Decimal from "decimal.js";
+import type { InsertTaxDocument, Invoice, InvoiceLine, Order, TaxDocument, Vendor } from "@shared/schema";
+import { storage } from "./storage";
+import { getImageStore } from "./imageStorage";
+import { describeState, getSupplyType } from "./pricing";
+import { renderTaxInvoicePdf, type TaxInvoiceData, type TaxInvoiceLine, type TaxInvoiceParty } from "./taxInvoicePdf";
+
+export type TaxDocumentErrorCode = "NOT_ISSUABLE";
+
+export class TaxDocumentError extends Error {
+  public readonly code: TaxDocumentErrorCode;
+
+  constructor(code: TaxDocumentErrorCode, message: string) {
+    super(message);
+    this.name = "TaxDocumentError";
+    this.code = code;
+  }
+}
+
+export interface IssuedDocument {
+  document: TaxDocument;
+  pdf: Buffer;
+}
+
+// Payment statuses meaning the money was received, even if some went back later
+const RECEIVED_PAYMENT_STATUSES = ["paid", "partially_refunded", "refunded"];
+
+/**
+ * The Indian financial year (April to March) a date falls in, e.g. "2026-27",
+ * going by the date in India
+ */
+export function financialYear(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+/**
+ * A GST invoice number: prefix, short financial year and the number within
+ * it, e.g. "INV/26-27/00042". Kept within GST's 16 character limit.
+ */
+export function formatDocumentNumber(prefix: string, year: string, sequence: number): string {
+  return `${prefix}/${year.slice(2)}/${String(sequence).padStart(5, "0")}`;
+}
+
+/**
+ * The platform as the supplier of subscriptions:
+ * - PLATFORM_LEGAL_NAME, PLATFORM_ADDRESS, PLATFORM_GSTIN, PLATFORM_STATE: printed as the seller
+ * - PLATFORM_SAC_CODE: SAC code for the subscription (default "997331", software licensing)
+ * - PLATFORM_GST_RATE: GST percentage included in plan prices (default 18)
+ */
+function getPlatformSupplier() {
+  const gstRate = parseFloat(process.env.PLATFORM_GST_RATE ?? "18");
+  return {
+    party: {
+      name: process.env.PLATFORM_LEGAL_NAME || process.env.VITE_APP_NAME || "MultiVend",
+      address: process.env.PLATFORM_ADDRESS || null,
+      gstin: process.env.PLATFORM_GSTIN || null,
+      state: describeState(process.env.PLATFORM_STATE),
+    } satisfies TaxInvoiceParty,
+    state: process.env.PLATFORM_STATE || null,
+    sacCode: process.env.PLATFORM_SAC_CODE || "997331",
+    gstRate: Number.isFinite(gstRate) && gstRate >= 0 ? gstRate : 18,
+  };
+}
+
+function vendorParty(vendor: Vendor): TaxInvoiceParty {
+  return {
+    name: vendor.companyName,
+    address: vendor.businessAddress,
+    gstin: vendor.gstin,
+    state: describeState(vendor.businessState),
+  };
+}
+
+// Split a GST-inclusive amount into taxable value and CGST/SGST or IGST
+function splitInclusiveAmount(
+  description: string,
+  amount: string,
+  taxRate: number,
+  supplyType: TaxInvoiceData["supplyType"],
+  hsnCode: string
+): TaxInvoiceLine {
+  const gross = new Decimal(amount);
+  const taxableValue = gross.dividedBy(new Decimal(taxRate).dividedBy(100).plus(1)).toDecimalPlaces(2);
+  const tax = gross.minus(taxableValue);
+  const cgst = supplyType === "intra_state" ? tax.dividedBy(2).toDecimalPlaces(2, Decimal.ROUND_DOWN) : new Decimal(0);
+  return {
+    description,
+    hsnCode,
+    quantity: 1,
+    taxableValue: taxableValue.toFixed(2),
+    taxRate: String(taxRate),
+    cgst: cgst.toFixed(2),
+    sgst: supplyType === "intra_state" ? tax.minus(cgst).toFixed(2) : "0.00",
+    igst: supplyType === "inter_state" ? tax.toFixed(2) : "0.00",
+    total: gross.toFixed(2),
+  };
+}
+
+/**
+ * The tax invoice a vendor issues for a customer order. Line values come
+ * from the GST worked out when the order was placed.
+ */
+async function buildOrderInvoice(order: Order, documentNumber: string, issuedAt: Date): Promise<TaxInvoiceData> {
+  const vendor = await storage.getVendor(order.vendorId);
+  if (!vendor) {
+    throw new Error(`Vendor ${order.vendorId} not found`);
+  }
+  const items = await storage.getOrderItems(order.id);
+  const customer = order.customerId ? await storage.getCustomer(order.customerId) : undefined;
+  const paidAt = (await storage.getTransactionsByOrderId(order.id))
+    .filter(transaction => transaction.status === "completed" && transaction.type !== "refund")
+    .map(transaction => transaction.createdAt)
+    .find(Boolean) ?? null;
+
+  const customerName = [customer?.firstName, customer?.lastName].filter(Boolean).join(" ");
+  const shippingCost = new Decimal(order.shippingCost ?? 0);
+
+  return {
+    title: vendor.gstin ? "Tax Invoice" : "Invoice",
+    documentNumber,
+    issuedAt,
+    reference: ["Order", order.orderNumber],
+    supplier: vendorParty(vendor),
+    recipient: {
+      name: customerName || customer?.email || "Customer",
+      address: order.billingAddress || order.shippingAddress,
+      email: customer?.email,
+    },
+    placeOfSupply: describeState(order.placeOfSupply),
+    supplyType: new Decimal(order.igst ?? 0).gt(0) ? "inter_state" : "intra_state",
+    currency: order.currency || "INR",
+    lines: items.map(item => ({
+      description: item.name,
+      hsnCode: item.hsnCode,
+      quantity: item.quantity,
+      taxableValue: new Decimal(item.total).minus(item.taxAmount ?? 0).toFixed(2),
+      taxRate: item.taxRate ?? "0",
+      cgst: item.cgst ?? "0",
+      sgst: item.sgst ?? "0",
+      igst: item.igst ?? "0",
+      total: item.total,
+    })),
+    charges: shippingCost.gt(0)
+      ? [{ description: order.shippingMethod ? `Shipping (${order.shippingMethod})` : "Shipping", amount: shippingCost.toFixed(2) }]
+      : [],
+    payment: {
+      status: RECEIVED_PAYMENT_STATUSES.includes(order.paymentStatus ?? "") ? "paid" : order.paymentStatus ?? "pending",
+      method: order.paymentMethod,
+      paidAt,
+    },
+    notes: new Decimal(order.discount ?? 0).gt(0)
+      ? "Line values are after the discount applied to this order."
+      : null,
+  };
+}
+
+/**
+ * The tax invoice the platform issues a vendor for their subscription. Plan
+ * prices include GST, which is backed out of each line.
+ */
+async function buildSubscriptionInvoice(invoice: Invoice, documentNumber: string, issuedAt: Date): Promise<TaxInvoiceData> {
+  const vendor = await storage.getVendor(invoice.vendorId);
+  if (!vendor) {
+    throw new Error(`Vendor ${invoice.vendorId} not found`);
+  }
+  const platform = getPlatformSupplier();
+  const supplyType = getSupplyType(platform.state, vendor.businessState);
+  const lines: InvoiceLine[] = invoice.lines?.length
+    ? invoice.lines
+    : [{ description: invoice.notes || "Subscription", amount: invoice.total }];
+  const payment = (await storage.getTransactionsByInvoiceId(invoice.id))
+    .find(transaction => transaction.status === "completed");
+
+  return {
+    title: platform.party.gstin ? "Tax Invoice" : "Invoice",
+    documentNumber,
+    issuedAt,
+    reference: ["Billing reference", invoice.invoiceNumber],
+    supplier: platform.party,
+    recipient: vendorParty(vendor),
+    placeOfSupply: describeState(vendor.businessState),
+    supplyType,
+    currency: invoice.currency || "INR",
+    lines: lines.map(line => splitInclusiveAmount(line.description, line.amount, platform.gstRate, supplyType, platform.sacCode)),
+    charges: [],
+    payment: {
+      status: invoice.status,
+      method: payment ? "card" : null,
+      paidAt: invoice.paidAt,
+    },
+    notes: "Subscription prices include GST.",
+  };
+}
+
+// What it takes to issue one document and keep its PDF up to date
+interface DocumentSpec {
+  vendorId: number;
+  // Whose run of numbers it's in, and the prefix of those numbers
+  scope: string;
+  prefix: string;
+  record: Pick<InsertTaxDocument, "type" | "orderId" | "invoiceId">;
+  paid: boolean;
+  // Why a document can't be issued yet; one already issued is always available
+  notIssuable: string | null;
+  find(): Promise<TaxDocument | undefined>;
+  build(documentNumber: string, issuedAt: Date): Promise<TaxInvoiceData>;
+}
+
+// One request at a time per document, so a double click can't use up two numbers
+const inFlight = new Map<string, Promise<IssuedDocument>>();
+
+async function loadOrIssue(spec: DocumentSpec): Promise<IssuedDocument> {
+  const store = getImageStore();
+  const existing = await spec.find();
+  if (existing) {
+    // Rendered again, with its original number and date, once paid or if the stored copy is lost
+    const stored = existing.showsPayment || !spec.paid
+      ? await store.get(existing.storageKey).catch(error => {
+          console.warn(`PDF for ${existing.documentNumber} is missing from storage, rendering it again:`, error);
+          return null;
+        })
+      : null;
+    if (stored) return { document: existing, pdf: stored };
+
+    const pdf = await renderTaxInvoicePdf(await spec.build(existing.documentNumber, existing.issuedAt));
+    await store.put(existing.storageKey, pdf, "application/pdf");
+    const document = await storage.updateTaxDocument(existing.id, { showsPayment: spec.paid });
+    return { document: document ?? existing, pdf };
+  }
+
+  if (spec.notIssuable) {
+    throw new TaxDocumentError("NOT_ISSUABLE", spec.notIssuable);
+  }
+
+  const issuedAt = new Date();
+  const year = financialYear(issuedAt);
+  const documentNumber = formatDocumentNumber(spec.prefix, year, await storage.nextDocumentNumber(spec.scope, year));
+  const pdf = await renderTaxInvoicePdf(await spec.build(documentNumber, issuedAt));
+  const storageKey = `documents/${spec.vendorId}/${randomUUID()}.pdf`;
+  await store.put(storageKey, pdf, "application/pdf");
+
+  const document = await storage.createTaxDocument({
+    ...spec.record,
+    vendorId: spec.vendorId,
+    documentNumber,
+    financialYear: year,
+    issuedAt,
+    storageKey,
+    showsPayment: spec.paid,
+  });
+  return { document, pdf };
+}
+
+/**
+ * Fetch a document's PDF, issuing it the first time: it takes the next
+ * number in the supplier's run for the financial year, and the PDF is
+ * stored through the upload backend.
+ */
+function getDocument(key: string, spec: DocumentSpec): Promise<IssuedDocument> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = loadOrIssue(spec).finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * The vendor's tax invoice for an order, numbered in the vendor's own run
+ */
+export function getOrderInvoiceDocument(order: Order): Promise<IssuedDocument> {
+  const paid = RECEIVED_PAYMENT_STATUSES.includes(order.paymentStatus ?? "");
+  return getDocument(`order:${order.id}`, {
+    vendorId: order.vendorId,
+    scope: `vendor:${order.vendorId}`,
+    prefix: "INV",
+    record: { type: "order_invoice", orderId: order.id },
+    paid,
+    notIssuable: order.status === "canceled" && !paid ? "No invoice is issued for an order canceled before payment" : null,
+    find: () => storage.getTaxDocumentByOrderId(order.id),
+    build: (documentNumber, issuedAt) => buildOrderInvoice(order, documentNumber, issuedAt),
+  });
+}
+
+/**
+ * The platform's tax invoice for a subscription invoice, numbered in the
+ * platform's run
+ */
+export async function getSubscriptionInvoiceDocument(invoice: Invoice): Promise<IssuedDocument> {
+  const issued = await getDocument(`invoice:${invoice.id}`, {
+    vendorId: invoice.vendorId,
+    scope: "platform",
+    prefix: "SUB",
+    record: { type: "subscription_invoice", invoiceId: invoice.id },
+    paid: invoice.status === "paid",
+    notIssuable: invoice.status === "void" ? "No invoice is issued for a voided bill" : null,
+    find: () => storage.getTaxDocumentByInvoiceId(invoice.id),
+    build: (documentNumber, issuedAt) => buildSubscriptionInvoice(invoice, documentNumber, issuedAt),
+  });
+  if (!invoice.pdfUrl) {
+    await storage.updateInvoice(invoice.id, { pdfUrl: `/api/vendor/subscription/invoices/${invoice.id}/pdf` });
+  }
+  return issued;
+}
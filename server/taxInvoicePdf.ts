@@ -0,0 +1,222 @@
+import PDFDocument from "pdfkit";
+import Decimal from "decimal.js";
+import type { GstSupplyType } from "./pricing";
+
+export interface TaxInvoiceParty {
+  name: string;
+  address?: string | null;
+  gstin?: string | null;
+  // State name and GST code, e.g. "Maharashtra (27)"
+  state?: string | null;
+  email?: string | null;
+}
+
+export interface TaxInvoiceLine {
+  description: string;
+  hsnCode: string | null;
+  quantity: number;
+  taxableValue: string;
+  taxRate: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  total: string;
+}
+
+// Charges outside the taxed lines, such as shipping
+export interface TaxInvoiceCharge {
+  description: string;
+  amount: string;
+}
+
+export interface TaxInvoiceData {
+  // "Tax Invoice" for GST-registered suppliers, "Invoice" otherwise
+  title: string;
+  documentNumber: string;
+  issuedAt: Date;
+  // What the document is for, e.g. ["Order", "ORD-1234"]
+  reference: [label: string, value: string];
+  supplier: TaxInvoiceParty;
+  recipient: TaxInvoiceParty;
+  placeOfSupply: string | null;
+  supplyType: GstSupplyType;
+  currency: string;
+  lines: TaxInvoiceLine[];
+  charges: TaxInvoiceCharge[];
+  // Set once paid, so the document doubles as the receipt
+  payment: { status: string; method?: string | null; paidAt?: Date | null } | null;
+  notes?: string | null;
+}
+
+const PAGE_MARGIN = 40;
+
+// Columns of the line table: heading, width and alignment
+const COLUMNS: { heading: string; width: number; align: "left" | "right" }[] = [
+  { heading: "#", width: 18, align: "left" },
+  { heading: "Description", width: 139, align: "left" },
+  { heading: "HSN/SAC", width: 48, align: "left" },
+  { heading: "Qty", width: 28, align: "right" },
+  { heading: "Taxable value", width: 62, align: "right" },
+  { heading: "GST %", width: 32, align: "right" },
+  { heading: "CGST", width: 46, align: "right" },
+  { heading: "SGST", width: 46, align: "right" },
+  { heading: "IGST", width: 46, align: "right" },
+  { heading: "Total", width: 50, align: "right" },
+];
+
+const formatNumber = (amount: string | Decimal) =>
+  new Decimal(amount).toNumber().toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// The standard PDF fonts have no rupee sign, so amounts are prefixed with the currency code
+const formatAmount = (amount: string | Decimal, currency: string) => `${currency} ${formatNumber(amount)}`;
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "Asia/Kolkata" });
+
+function sum(lines: TaxInvoiceLine[], field: "taxableValue" | "cgst" | "sgst" | "igst" | "total"): Decimal {
+  return lines.reduce((total, line) => total.plus(line[field]), new Decimal(0));
+}
+
+function drawParty(doc: PDFKit.PDFDocument, heading: string, party: TaxInvoiceParty, x: number, y: number, width: number): number {
+  doc.font("Helvetica-Bold").fontSize(9).text(heading, x, y, { width });
+  doc.font("Helvetica-Bold").fontSize(10).text(party.name, { width });
+  doc.font("Helvetica").fontSize(9);
+  if (party.address) doc.text(party.address, { width });
+  if (party.state) doc.text(`State: ${party.state}`, { width });
+  if (party.email) doc.text(party.email, { width });
+  doc.text(`GSTIN: ${party.gstin || "Unregistered"}`, { width });
+  return doc.y;
+}
+
+function drawRow(doc: PDFKit.PDFDocument, cells: string[], y: number, bold = false): number {
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+  let x = PAGE_MARGIN;
+  let height = 0;
+  cells.forEach((cell, index) => {
+    const { width, align } = COLUMNS[index];
+    height = Math.max(height, doc.heightOfString(cell, { width: width - 4 }));
+    doc.text(cell, x + 2, y, { width: width - 4, align });
+    x += width;
+  });
+  return y + height + 6;
+}
+
+/**
+ * Lay out a tax invoice as an A4 PDF: supplier and recipient with their
+ * GSTINs, place of supply, one row per line with its HSN code and CGST/SGST
+ * or IGST, then the totals and, once paid, the payment received.
+ */
+export function renderTaxInvoicePdf(invoice: TaxInvoiceData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A4",
+      margin: PAGE_MARGIN,
+      info: { Title: `${invoice.title} ${invoice.documentNumber}`, Author: invoice.supplier.name },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const half = contentWidth / 2 - 10;
+    const { currency } = invoice;
+
+    // Heading
+    doc.font("Helvetica-Bold").fontSize(18).text(invoice.title.toUpperCase(), PAGE_MARGIN, PAGE_MARGIN);
+    doc.font("Helvetica").fontSize(9);
+    const metaY = PAGE_MARGIN;
+    const metaX = PAGE_MARGIN + contentWidth / 2;
+    doc.text(`Invoice number: ${invoice.documentNumber}`, metaX, metaY, { width: contentWidth / 2, align: "right" });
+    doc.text(`Invoice date: ${formatDate(invoice.issuedAt)}`, { width: contentWidth / 2, align: "right" });
+    doc.text(`${invoice.reference[0]}: ${invoice.reference[1]}`, { width: contentWidth / 2, align: "right" });
+    if (invoice.placeOfSupply) {
+      doc.text(`Place of supply: ${invoice.placeOfSupply}`, { width: contentWidth / 2, align: "right" });
+    }
+
+    // Parties
+    const partiesY = Math.max(doc.y, PAGE_MARGIN + 30) + 16;
+    const supplierBottom = drawParty(doc, "Sold by", invoice.supplier, PAGE_MARGIN, partiesY, half);
+    const recipientBottom = drawParty(doc, "Billed to", invoice.recipient, PAGE_MARGIN + contentWidth / 2 + 10, partiesY, half);
+
+    // Lines
+    let y = Math.max(supplierBottom, recipientBottom) + 18;
+    y = drawRow(doc, COLUMNS.map(column => column.heading), y, true);
+    doc.moveTo(PAGE_MARGIN, y - 3).lineTo(PAGE_MARGIN + contentWidth, y - 3).lineWidth(0.5).stroke();
+
+    invoice.lines.forEach((line, index) => {
+      if (y > doc.page.height - PAGE_MARGIN - 120) {
+        doc.addPage();
+        y = drawRow(doc, COLUMNS.map(column => column.heading), PAGE_MARGIN, true);
+      }
+      y = drawRow(doc, [
+        String(index + 1),
+        line.description,
+        line.hsnCode ?? "",
+        String(line.quantity),
+        formatNumber(line.taxableValue),
+        `${new Decimal(line.taxRate).toString()}%`,
+        formatNumber(line.cgst),
+        formatNumber(line.sgst),
+        formatNumber(line.igst),
+        formatNumber(line.total),
+      ], y);
+    });
+    doc.moveTo(PAGE_MARGIN, y - 3).lineTo(PAGE_MARGIN + contentWidth, y - 3).stroke();
+
+    // Totals
+    const lineTotal = sum(invoice.lines, "total");
+    const chargeTotal = invoice.charges.reduce((total, charge) => total.plus(charge.amount), new Decimal(0));
+    const totals: [string, string][] = [["Taxable value", formatAmount(sum(invoice.lines, "taxableValue"), currency)]];
+    if (invoice.supplyType === "inter_state") {
+      totals.push(["IGST", formatAmount(sum(invoice.lines, "igst"), currency)]);
+    } else {
+      totals.push(["CGST", formatAmount(sum(invoice.lines, "cgst"), currency)]);
+      totals.push(["SGST", formatAmount(sum(invoice.lines, "sgst"), currency)]);
+    }
+    invoice.charges.forEach(charge => totals.push([charge.description, formatAmount(charge.amount, currency)]));
+
+    // Keep the totals and payment together
+    if (y > doc.page.height - PAGE_MARGIN - 160) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    y += 6;
+    const labelX = PAGE_MARGIN + contentWidth - 260;
+    doc.font("Helvetica").fontSize(9);
+    totals.forEach(([label, value]) => {
+      doc.text(label, labelX, y, { width: 140 });
+      doc.text(value, labelX + 140, y, { width: 120, align: "right" });
+      y += 14;
+    });
+    doc.font("Helvetica-Bold").fontSize(11);
+    doc.text("Total", labelX, y + 2, { width: 140 });
+    doc.text(formatAmount(lineTotal.plus(chargeTotal), currency), labelX + 140, y + 2, { width: 120, align: "right" });
+    y += 28;
+
+    // Payment
+    doc.font("Helvetica").fontSize(9);
+    if (invoice.payment) {
+      const { status, method, paidAt } = invoice.payment;
+      const paid = status === "paid";
+      doc.font("Helvetica-Bold").text(paid ? "PAYMENT RECEIVED" : `Payment status: ${status}`, PAGE_MARGIN, y);
+      doc.font("Helvetica");
+      if (paid && paidAt) doc.text(`Paid on ${formatDate(paidAt)}${method ? ` by ${method}` : ""}`);
+      else if (method) doc.text(`Payment method: ${method}`);
+      y = doc.y + 10;
+    }
+
+    if (invoice.supplyType === "intra_state") {
+      doc.text("Intra-state supply: GST is charged as CGST and SGST.", PAGE_MARGIN, y);
+    } else {
+      doc.text("Inter-state supply: GST is charged as IGST.", PAGE_MARGIN, y);
+    }
+    if (invoice.notes) {
+      doc.moveDown(0.5).text(invoice.notes, { width: contentWidth });
+    }
+    doc.moveDown(1).fontSize(8).fillColor("#666666")
+      .text("This is a computer generated invoice and does not require a signature.", { width: contentWidth });
+
+    doc.end();
+  });
+}
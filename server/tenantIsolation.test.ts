@@ -0,0 +1,311 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import type { IStorage } from "./storage";
+
+// Signs in as two vendors and a super admin, then checks each vendor-owned
+// route refuses to read or change the other vendor's records. Runs against
+// the in-memory storage, so no database is needed.
+
+// db.ts won't load without a connection string, though nothing connects
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+type Session = { cookie?: string };
+
+let server: Server;
+let baseUrl: string;
+
+const anonymous: Session = {};
+const vendorA: Session = {};
+const vendorB: Session = {};
+const admin: Session = {};
+
+// What each vendor owns
+const ids = {
+  a: {} as Record<"vendor" | "domain" | "product" | "category" | "order", number>,
+  b: {} as Record<
+    "vendor" | "domain" | "product" | "category" | "order" | "promotion" | "zone" | "customer" | "variant" | "fulfillment" | "return",
+    number
+  >,
+};
+
+async function request(session: Session, method: string, path: string, body?: unknown) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...(session.cookie ? { Cookie: session.cookie } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : null };
+}
+
+async function signIn(session: Session, email: string) {
+  const { storage } = await import("./storage");
+  await storage.createOtp(email, "123456", new Date(Date.now() + 60_000));
+  const res = await fetch(`${baseUrl}/api/auth/verify-otp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, otp: "123456" }),
+  });
+  assert.equal(res.status, 200, `couldn't sign in as ${email}`);
+  session.cookie = res.headers.getSetCookie().map(cookie => cookie.split(";")[0]).join("; ");
+}
+
+before(async () => {
+  const { MemStorage, storage } = await import("./storage");
+  const memory = new MemStorage();
+  // Answer every storage call from memory instead of the database
+  const names = Object.getOwnPropertyNames(MemStorage.prototype).filter(name => name !== "constructor") as (keyof IStorage)[];
+  for (const name of names) {
+    const method = memory[name];
+    if (typeof method === "function") Object.assign(storage, { [name]: method.bind(memory) });
+  }
+  storage.sessionStore = memory.sessionStore;
+
+  const express = (await import("express")).default;
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const seedVendor = async (email: string, slug: string) => {
+    const user = await storage.createUser({ email, role: "vendor", isProfileComplete: true });
+    const vendor = await storage.createVendor({ userId: user.id, companyName: `${slug} store`, status: "active" });
+    const domain = await storage.createDomain({ vendorId: vendor.id, name: `${slug}.example.com`, type: "custom" });
+    const category = await storage.createProductCategory({ vendorId: vendor.id, name: `${slug} things`, slug: `${slug}-things` });
+    const product = await storage.createProduct({ vendorId: vendor.id, categoryId: category.id, name: `${slug} mug`, sellingPrice: 10 });
+    const order = await storage.createOrder({ vendorId: vendor.id, orderNumber: `${slug}-1`, subtotal: "10.00", total: "10.00" });
+    return { vendor: vendor.id, domain: domain.id, category: category.id, product: product.id, order: order.id };
+  };
+
+  ids.a = await seedVendor("a@example.com", "alpha");
+  const b = await seedVendor("b@example.com", "bravo");
+  const promotion = await storage.createPromotion({ vendorId: b.vendor, name: "Ten off", code: "TEN", type: "percentage", value: "10" });
+  const zone = await storage.createShippingZone({ vendorId: b.vendor, name: "Everywhere" });
+  const customer = await storage.createCustomer({ vendorId: b.vendor, email: "shopper@example.com" });
+  const [size] = await storage.saveProductOptions(b.product, [{ name: "Size", values: [{ value: "Small" }] }]);
+  const variant = await storage.createProductVariant({
+    productId: b.product,
+    optionValueIds: [size.values[0].id],
+    title: "Small",
+    sellingPrice: 10,
+    inventoryQuantity: 5,
+  });
+  // B's order is shipped, and the shopper has asked to send it back
+  const item = await storage.createOrderItem({ orderId: b.order, productId: b.product, name: "bravo mug", quantity: 1, price: "10.00", total: "10.00" });
+  const fulfillment = await storage.createFulfillment(b.order, { carrier: "Bravo Post" });
+  const returnRequest = await storage.createReturnRequest(b.order, { reason: "damaged" }, [{ orderItemId: item.id, quantity: 1 }]);
+  ids.b = {
+    ...b,
+    promotion: promotion.id,
+    zone: zone.id,
+    customer: customer.id,
+    variant: variant.id,
+    fulfillment: fulfillment!.id,
+    return: returnRequest!.id,
+  };
+
+  await storage.createUser({ email: "admin@example.com", role: "super_admin", isProfileComplete: true });
+
+  await signIn(vendorA, "a@example.com");
+  await signIn(vendorB, "b@example.com");
+  await signIn(admin, "admin@example.com");
+});
+
+after(async () => {
+  await new Promise(resolve => server?.close(resolve));
+});
+
+describe("routes under /api/vendors/:vendorId", () => {
+  const paths = () => [
+    `/api/vendors/${ids.b.vendor}`,
+    `/api/vendors/${ids.b.vendor}/domains`,
+    `/api/vendors/${ids.b.vendor}/orders`,
+    `/api/vendors/${ids.b.vendor}/customers`,
+    `/api/vendors/${ids.b.vendor}/analytics`,
+    `/api/vendors/${ids.b.vendor}/promotions`,
+    `/api/vendors/${ids.b.vendor}/promotions/${ids.b.promotion}`,
+    `/api/vendors/${ids.b.vendor}/shipping-zones`,
+    `/api/vendors/${ids.b.vendor}/returns`,
+  ];
+
+  test("forbid another vendor", async () => {
+    for (const path of paths()) {
+      const res = await request(vendorA, "GET", path);
+      assert.equal(res.status, 403, `GET ${path} gave ${res.status}`);
+    }
+  });
+
+  test("refuse changes from another vendor", async () => {
+    const attempts: [string, string, unknown][] = [
+      ["PATCH", `/api/vendors/${ids.b.vendor}`, { companyName: "Taken over" }],
+      ["POST", `/api/vendors/${ids.b.vendor}/promotions`, { name: "Free", code: "FREE", type: "percentage", value: "100" }],
+      ["PATCH", `/api/vendors/${ids.b.vendor}/promotions/${ids.b.promotion}`, { value: "100" }],
+      ["DELETE", `/api/vendors/${ids.b.vendor}/promotions/${ids.b.promotion}`, undefined],
+      ["DELETE", `/api/vendors/${ids.b.vendor}/shipping-zones/${ids.b.zone}`, undefined],
+      ["POST", `/api/vendors/${ids.b.vendor}/returns/${ids.b.return}/approve`, {}],
+      ["POST", `/api/vendors/${ids.b.vendor}/returns/${ids.b.return}/reject`, { note: "Taken over" }],
+      ["POST", `/api/vendors/${ids.b.vendor}/returns/${ids.b.return}/receive`, {}],
+    ];
+    for (const [method, path, body] of attempts) {
+      const res = await request(vendorA, method, path, body);
+      assert.equal(res.status, 403, `${method} ${path} gave ${res.status}`);
+    }
+
+    const { storage } = await import("./storage");
+    assert.equal((await storage.getVendor(ids.b.vendor))?.companyName, "bravo store");
+    assert.equal((await storage.getPromotion(ids.b.promotion))?.value, "10");
+    assert.ok(await storage.getShippingZone(ids.b.zone));
+    assert.equal((await storage.getReturnRequest(ids.b.return))?.status, "requested");
+  });
+
+  test("let a vendor use its own", async () => {
+    for (const path of [`/api/vendors/${ids.b.vendor}`, `/api/vendors/${ids.b.vendor}/promotions`, `/api/vendors/${ids.b.vendor}/shipping-zones`]) {
+      const res = await request(vendorB, "GET", path);
+      assert.equal(res.status, 200, `GET ${path} gave ${res.status}`);
+    }
+  });
+
+  test("let a super admin into any vendor", async () => {
+    const res = await request(admin, "GET", `/api/vendors/${ids.b.vendor}/promotions`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map((promotion: { id: number }) => promotion.id), [ids.b.promotion]);
+  });
+
+  test("need a signed-in user", async () => {
+    const res = await request(anonymous, "GET", `/api/vendors/${ids.b.vendor}/orders`);
+    assert.equal(res.status, 401);
+  });
+});
+
+describe("records looked up by ID", () => {
+  test("are not found for another vendor", async () => {
+    const attempts: [string, string, unknown][] = [
+      ["GET", `/api/domains/${ids.b.domain}`, undefined],
+      ["PATCH", `/api/domains/${ids.b.domain}`, { isPrimary: true }],
+      ["DELETE", `/api/domains/${ids.b.domain}`, undefined],
+      ["PATCH", `/api/products/${ids.b.product}`, { name: "Taken over" }],
+      ["DELETE", `/api/products/${ids.b.product}`, undefined],
+      ["PATCH", `/api/product-categories/${ids.b.category}`, { name: "Taken over" }],
+      ["DELETE", `/api/product-categories/${ids.b.category}`, undefined],
+      ["GET", `/api/orders/${ids.b.order}`, undefined],
+      ["PATCH", `/api/orders/${ids.b.order}`, { notes: "Taken over" }],
+      ["PUT", `/api/products/${ids.b.product}/options`, [{ name: "Taken over", values: [{ value: "Over" }] }]],
+      ["POST", `/api/products/${ids.b.product}/variants`, [{ id: ids.b.variant, sellingPrice: 1 }]],
+      ["PATCH", `/api/product-variants/${ids.b.variant}`, { sellingPrice: 1 }],
+      ["DELETE", `/api/product-variants/${ids.b.variant}`, undefined],
+      // B's records asked for through A's own order and store
+      ["PATCH", `/api/orders/${ids.a.order}/fulfillments/${ids.b.fulfillment}`, { carrier: "Taken over" }],
+      ["POST", `/api/vendors/${ids.a.vendor}/returns/${ids.b.return}/approve`, {}],
+      ["POST", `/api/vendors/${ids.a.vendor}/returns/${ids.b.return}/reject`, { note: "Taken over" }],
+      ["POST", `/api/vendors/${ids.a.vendor}/returns/${ids.b.return}/receive`, {}],
+    ];
+    for (const [method, path, body] of attempts) {
+      const res = await request(vendorA, method, path, body);
+      assert.equal(res.status, 404, `${method} ${path} gave ${res.status}`);
+    }
+
+    const { storage } = await import("./storage");
+    assert.ok(await storage.getDomain(ids.b.domain));
+    assert.equal((await storage.getProduct(ids.b.product))?.name, "bravo mug");
+    assert.equal((await storage.getProductCategory(ids.b.category))?.name, "bravo things");
+    assert.ok(await storage.getOrder(ids.b.order));
+    const options = await storage.getProductOptions(ids.b.product);
+    assert.deepEqual(options.map(option => option.name), ["Size"]);
+    const variant = await storage.getProductVariant(ids.b.variant);
+    assert.equal(variant?.sellingPrice, 10);
+    assert.equal((await storage.getFulfillment(ids.b.fulfillment))?.carrier, "Bravo Post");
+    assert.equal((await storage.getReturnRequest(ids.b.return))?.status, "requested");
+  });
+
+  test("refuse another vendor's order shipments", async () => {
+    const attempts: [string, string, unknown][] = [
+      ["GET", `/api/orders/${ids.b.order}/fulfillments`, undefined],
+      ["POST", `/api/orders/${ids.b.order}/fulfillments`, { carrier: "Taken over" }],
+      ["PATCH", `/api/orders/${ids.b.order}/fulfillments/${ids.b.fulfillment}`, { status: "delivered" }],
+    ];
+    for (const [method, path, body] of attempts) {
+      const res = await request(vendorA, method, path, body);
+      assert.equal(res.status, 403, `${method} ${path} gave ${res.status}`);
+    }
+
+    const { storage } = await import("./storage");
+    const fulfillments = await storage.getFulfillments(ids.b.order);
+    assert.deepEqual(fulfillments.map(fulfillment => [fulfillment.id, fulfillment.status]), [[ids.b.fulfillment, "shipped"]]);
+  });
+
+  test("are found for their own vendor", async () => {
+    for (const path of [`/api/domains/${ids.a.domain}`, `/api/orders/${ids.a.order}`]) {
+      const res = await request(vendorA, "GET", path);
+      assert.equal(res.status, 200, `GET ${path} gave ${res.status}`);
+    }
+  });
+
+  test("can't be created for another vendor", async () => {
+    const res = await request(vendorA, "POST", "/api/products", {
+      vendorId: ids.b.vendor,
+      categoryId: ids.b.category,
+      name: "Planted",
+      sellingPrice: 1,
+    });
+    // Products always go in the signed-in vendor's store, where B's category doesn't belong
+    assert.equal(res.status, 403);
+
+    const { storage } = await import("./storage");
+    const planted = (await storage.getProducts(ids.b.vendor)).filter(product => product.name === "Planted");
+    assert.equal(planted.length, 0);
+  });
+
+  test("can't add customers to another vendor", async () => {
+    const res = await request(vendorA, "POST", "/api/customers", { vendorId: ids.b.vendor, email: "planted@example.com" });
+    assert.equal(res.status, 403);
+
+    const { storage } = await import("./storage");
+    const customers = await storage.getCustomers(ids.b.vendor);
+    assert.deepEqual(customers.map(customer => customer.id), [ids.b.customer]);
+  });
+
+  test("can't place orders in another vendor's store or with its products", async () => {
+    const order = { orderNumber: "planted-1", subtotal: "10.00", total: "10.00" };
+    const line = { name: "bravo mug", quantity: 1, price: "10.00", total: "10.00" };
+    const attempts: [unknown, number][] = [
+      [{ ...order, vendorId: ids.b.vendor, items: [{ ...line, productId: ids.b.product }] }, 403],
+      [{ ...order, vendorId: ids.a.vendor, items: [{ ...line, productId: ids.b.product }] }, 403],
+      [{ ...order, vendorId: ids.a.vendor, items: [{ ...line, productId: ids.a.product, variantId: ids.b.variant }] }, 404],
+    ];
+    for (const [body, status] of attempts) {
+      const res = await request(vendorA, "POST", "/api/orders", body);
+      assert.equal(res.status, status, `POST /api/orders ${JSON.stringify(body)} gave ${res.status}`);
+    }
+
+    const { storage } = await import("./storage");
+    assert.deepEqual((await storage.getOrders(ids.b.vendor)).map(order => order.id), [ids.b.order]);
+    assert.deepEqual((await storage.getOrders(ids.a.vendor)).map(order => order.id), [ids.a.order]);
+    assert.equal((await storage.getProductVariant(ids.b.variant))?.inventoryQuantity, 5);
+  });
+});
+
+describe("lists", () => {
+  test("only include the vendor's own records", async () => {
+    const vendors = await request(vendorA, "GET", "/api/vendors");
+    assert.equal(vendors.status, 200);
+    assert.deepEqual(vendors.body.map((vendor: { id: number }) => vendor.id), [ids.a.vendor]);
+
+    const domains = await request(vendorA, "GET", "/api/domains");
+    assert.equal(domains.status, 200);
+    assert.deepEqual(domains.body.map((domain: { id: number }) => domain.id), [ids.a.domain]);
+  });
+
+  test("include every vendor for a super admin", async () => {
+    const vendors = await request(admin, "GET", "/api/vendors");
+    assert.equal(vendors.status, 200);
+    assert.deepEqual(vendors.body.map((vendor: { id: number }) => vendor.id).sort(), [ids.a.vendor, ids.b.vendor].sort());
+  });
+});
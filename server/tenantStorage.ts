@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import type { Tenant } from "./middleware/tenantMiddleware";
+
+/**
+ * Record lookups for the caller's tenant. Vendors only ever get back records
+ * from their own store, so routes answer another tenant's ids with the same
+ * 404 as missing ones; platform admins see every vendor's records.
+ */
+export function forTenant(tenant: Tenant) {
+  const scoped = <T>(platformLookup: () => Promise<T | undefined>, vendorLookup: (vendorId: number) => Promise<T | undefined>) => {
+    if (tenant.isPlatformAdmin) return platformLookup();
+    return tenant.vendorId === null ? Promise.resolve(undefined) : vendorLookup(tenant.vendorId);
+  };
+
+  return {
+    getDomain: (id: number) =>
+      scoped(() => storage.getDomain(id), vendorId => storage.getVendorDomain(vendorId, id)),
+    getProductCategory: (id: number) =>
+      scoped(() => storage.getProductCategory(id), vendorId => storage.getVendorProductCategory(vendorId, id)),
+    getProduct: (id: number) =>
+      scoped(() => storage.getProduct(id), vendorId => storage.getVendorProduct(vendorId, id)),
+    getProductVariant: (id: number) =>
+      scoped(() => storage.getProductVariant(id), vendorId => storage.getVendorProductVariant(vendorId, id)),
+    getCustomer: (id: number) =>
+      scoped(() => storage.getCustomer(id), vendorId => storage.getVendorCustomer(vendorId, id)),
+    getOrder: (id: number) =>
+      scoped(() => storage.getOrder(id), vendorId => storage.getVendorOrder(vendorId, id)),
+  };
+}
@@ -0,0 +1,272 @@
+import Decimal from "decimal.js";
+import type {
+  Domain,
+  EmailAttachment,
+  EmailOutbox,
+  EmailTemplateName,
+  Fulfillment,
+  Invoice,
+  Order,
+  Payout,
+  PlatformSubscription,
+  ReportSchedule,
+  ReturnRequest,
+  SubscriptionInfo,
+  Vendor,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { queueEmail } from "./emailOutbox";
+import { EMAIL_TEMPLATE_DEFINITIONS, emailBranding, getEmailContent, renderEmail } from "./emailTemplates";
+
+// The emails the platform sends when something happens to an order, a
+// subscription, a domain or a payout, and the scheduled reports. Each is rendered with the vendor's
+// wording and branding where it has them and put in the outbox; none of them
+// throws, so an email problem never fails what triggered it.
+
+const money = (amount: string | null, currency: string | null) =>
+  `${currency || "USD"} ${new Decimal(amount || "0").toFixed(2)}`;
+
+const longDate = (date: Date) =>
+  date.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" });
+
+async function queueTemplatedEmail(
+  name: EmailTemplateName,
+  to: string,
+  vendor: Vendor,
+  values: Record<string, string>,
+  dedupeKey: string,
+  attachments?: EmailAttachment[]
+): Promise<EmailOutbox | undefined> {
+  const forCustomer = EMAIL_TEMPLATE_DEFINITIONS[name].audience === "customer";
+  const content = await getEmailContent(name, vendor.id);
+  const email = renderEmail(content, { storeName: vendor.companyName, ...values }, emailBranding(forCustomer ? vendor : undefined));
+  return queueEmail({ template: name, to, vendorId: vendor.id, dedupeKey, attachments, ...email });
+}
+
+// Failing to queue an email is only logged: it's a side effect of whatever sent it
+async function safely(name: EmailTemplateName, queue: () => Promise<EmailOutbox | undefined>): Promise<EmailOutbox | undefined> {
+  try {
+    return await queue();
+  } catch (error) {
+    console.error(`Error queueing ${name} email:`, error);
+    return undefined;
+  }
+}
+
+async function orderRecipient(order: Order, customerId: number | null = order.customerId) {
+  const customer = customerId ? await storage.getCustomer(customerId) : undefined;
+  const vendor = await storage.getVendor(order.vendorId);
+  if (!customer?.email || !vendor) return undefined;
+  return { customer, vendor, customerName: customer.firstName || "there" };
+}
+
+async function vendorRecipient(vendorId: number) {
+  const vendor = await storage.getVendor(vendorId);
+  const user = vendor ? await storage.getUser(vendor.userId) : undefined;
+  if (!vendor || !user?.email) return undefined;
+  return { vendor, email: user.email, vendorName: user.firstName || vendor.companyName };
+}
+
+/**
+ * Confirm an order to the customer: when it's placed for cash on delivery,
+ * or once it's paid for. Sent once, however many times it's called.
+ */
+export function queueOrderConfirmation(order: Order): Promise<EmailOutbox | undefined> {
+  return safely("order_confirmation", async () => {
+    const recipient = await orderRecipient(order);
+    if (!recipient) return undefined;
+
+    const items = await storage.getOrderItems(order.id);
+    return queueTemplatedEmail("order_confirmation", recipient.customer.email, recipient.vendor, {
+      customerName: recipient.customerName,
+      orderNumber: order.orderNumber,
+      itemList: items.map(item => `${item.quantity} × ${item.name}`).join("\n"),
+      orderTotal: money(order.total, order.currency),
+      shippingAddress: order.shippingAddress ?? "",
+    }, `order_confirmation:${order.id}`);
+  });
+}
+
+/**
+ * Tell the customer a shipment is on its way or has arrived. A shipment
+ * gets one email when it goes out, another if its tracking number changes,
+ * and one when it's delivered.
+ */
+export function queueShippingUpdate(fulfillment: Fulfillment): Promise<EmailOutbox | undefined> {
+  return safely("shipping_update", async () => {
+    const order = await storage.getOrder(fulfillment.orderId);
+    const recipient = order && await orderRecipient(order);
+    if (!order || !recipient) return undefined;
+
+    const delivered = fulfillment.status === "delivered";
+    const trackingDetails = [
+      fulfillment.carrier && `Carrier: ${fulfillment.carrier}`,
+      fulfillment.trackingNumber && `Tracking number: ${fulfillment.trackingNumber}`,
+      fulfillment.trackingUrl && `Track it at ${fulfillment.trackingUrl}`,
+    ].filter(Boolean).join("\n");
+
+    return queueTemplatedEmail("shipping_update", recipient.customer.email, recipient.vendor, {
+      customerName: recipient.customerName,
+      orderNumber: order.orderNumber,
+      shipmentStatus: delivered ? "has been delivered" : "has shipped",
+      trackingDetails: delivered ? "" : trackingDetails,
+    }, delivered
+      ? `shipping_update:${fulfillment.id}:delivered`
+      : `shipping_update:${fulfillment.id}:shipped:${fulfillment.trackingNumber ?? ""}`);
+  });
+}
+
+/**
+ * Tell the customer their return was approved and refunded. Returns approved
+ * without a refund don't get one.
+ */
+export function queueRefundIssued(returnRequest: ReturnRequest): Promise<EmailOutbox | undefined> {
+  return safely("refund_issued", async () => {
+    if (new Decimal(returnRequest.refundAmount || "0").lte(0)) return undefined;
+
+    const order = await storage.getOrder(returnRequest.orderId);
+    const recipient = order && await orderRecipient(order, returnRequest.customerId ?? order.customerId);
+    if (!order || !recipient) return undefined;
+
+    return queueTemplatedEmail("refund_issued", recipient.customer.email, recipient.vendor, {
+      customerName: recipient.customerName,
+      orderNumber: order.orderNumber,
+      rmaNumber: returnRequest.rmaNumber,
+      refundAmount: money(returnRequest.refundAmount, order.currency),
+      vendorNote: returnRequest.vendorNote ?? "",
+    }, `refund_issued:${returnRequest.id}`);
+  });
+}
+
+/**
+ * Remind the vendor their subscription renews on `dueDate` for `amount`
+ */
+export function queueInvoiceDue(subscription: SubscriptionInfo, amount: string, dueDate: Date): Promise<EmailOutbox | undefined> {
+  return safely("invoice_due", async () => {
+    const recipient = await vendorRecipient(subscription.vendorId);
+    if (!recipient) return undefined;
+
+    return queueTemplatedEmail("invoice_due", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      planName: subscription.plan.name,
+      amount: money(amount, subscription.currency || subscription.plan.currency),
+      dueDate: longDate(dueDate),
+    }, `invoice_due:${subscription.id}:${dueDate.toISOString()}`);
+  });
+}
+
+/**
+ * Remind the vendor their trial is about to end and what they'll pay after it
+ */
+export function queueTrialEnding(subscription: SubscriptionInfo, amount: string): Promise<EmailOutbox | undefined> {
+  return safely("trial_ending", async () => {
+    const recipient = await vendorRecipient(subscription.vendorId);
+    if (!recipient || !subscription.trialEndsAt) return undefined;
+
+    return queueTemplatedEmail("trial_ending", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      planName: subscription.plan.name,
+      amount: money(amount, subscription.currency || subscription.plan.currency),
+      trialEndsAt: longDate(subscription.trialEndsAt),
+    }, `trial_ending:${subscription.id}:${subscription.trialEndsAt.toISOString()}`);
+  });
+}
+
+/**
+ * Tell the vendor one of their custom domains is verified. Sent once per
+ * domain, even if it drops out and is verified again.
+ */
+export function queueDomainVerified(domain: Domain): Promise<EmailOutbox | undefined> {
+  return safely("domain_verified", async () => {
+    const recipient = await vendorRecipient(domain.vendorId);
+    if (!recipient) return undefined;
+
+    return queueTemplatedEmail("domain_verified", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      domainName: domain.name,
+    }, `domain_verified:${domain.id}`);
+  });
+}
+
+/**
+ * Tell the vendor a payout has been sent
+ */
+export function queuePayoutCompleted(payout: Payout): Promise<EmailOutbox | undefined> {
+  return safely("payout_completed", async () => {
+    const recipient = await vendorRecipient(payout.vendorId);
+    if (!recipient) return undefined;
+
+    const reference = payout.gatewayPayoutId ?? payout.batchId;
+    return queueTemplatedEmail("payout_completed", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      payoutAmount: money(payout.net, payout.currency),
+      payoutMethod: payout.method.replace(/_/g, " "),
+      payoutReference: reference ? `Reference: ${reference}` : "",
+    }, `payout_completed:${payout.id}`);
+  });
+}
+
+/**
+ * Tell the vendor a subscription payment failed, when it will be retried and
+ * when their store will be suspended if it stays unpaid. Sent once for each
+ * retry, so a failure reported twice only emails once.
+ */
+export function queuePaymentFailed(
+  subscription: PlatformSubscription,
+  invoice: Invoice,
+  details: { reason?: string | null; nextRetryAt: Date | null; suspendAt: Date }
+): Promise<EmailOutbox | undefined> {
+  return safely("payment_failed", async () => {
+    const recipient = await vendorRecipient(subscription.vendorId);
+    if (!recipient) return undefined;
+
+    return queueTemplatedEmail("payment_failed", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      amount: money(invoice.total, invoice.currency),
+      invoiceNumber: invoice.invoiceNumber,
+      failureReason: details.reason ? `The payment failed: ${details.reason}` : "",
+      retryDetails: details.nextRetryAt
+        ? `We'll try the payment again on ${longDate(details.nextRetryAt)}.`
+        : "We won't try the payment again automatically.",
+      suspendAt: longDate(details.suspendAt),
+    }, `payment_failed:${invoice.id}:${details.nextRetryAt?.toISOString() ?? "final"}`);
+  });
+}
+
+/**
+ * Tell the vendor their store was suspended because `invoice` went unpaid
+ */
+export function queueStoreSuspended(vendorId: number, invoice: Invoice): Promise<EmailOutbox | undefined> {
+  return safely("store_suspended", async () => {
+    const recipient = await vendorRecipient(vendorId);
+    if (!recipient) return undefined;
+
+    return queueTemplatedEmail("store_suspended", recipient.email, recipient.vendor, {
+      vendorName: recipient.vendorName,
+      invoiceNumber: invoice.invoiceNumber,
+    }, `store_suspended:${invoice.id}`);
+  });
+}
+
+/**
+ * Send a schedule's report to its recipients, with the file attached. Sent
+ * once per report generated.
+ */
+export function queueScheduledReport(
+  schedule: ReportSchedule,
+  reportJobId: number,
+  report: { title: string; period: string; fileName: string; contentType: string; body: Buffer }
+): Promise<EmailOutbox | undefined> {
+  return safely("scheduled_report", async () => {
+    const vendor = await storage.getVendor(schedule.vendorId);
+    if (!vendor || schedule.recipients.length === 0) return undefined;
+
+    return queueTemplatedEmail("scheduled_report", schedule.recipients.join(", "), vendor, {
+      reportTitle: report.title,
+      reportPeriod: report.period,
+      fileName: report.fileName,
+    }, `scheduled_report:${reportJobId}`, [
+      { fileName: report.fileName, contentType: report.contentType, content: report.body.toString("base64") },
+    ]);
+  });
+}
@@ -1,87 +1,141 @@
 import multer from 'multer';
 import path from 'path';
-import { Express, Request, Response } from 'express';
+import { Express, NextFunction, Request, RequestHandler, Response } from 'express';
 import fs from 'fs';
-import { fileURLToPath } from 'url';
+import { storage } from './storage';
+import { isAuthenticated } from './auth';
+import { resolveTenant } from './middleware/tenantMiddleware';
+import { ImageProcessingError, storeImage } from './imagePipeline';
+import { getImageStore, LOCAL_UPLOADS_DIR, type ImageStore } from './imageStorage';
+import { assertWithinQuota, QuotaExceededError } from './usageMeter';
 
-// Get current directory (ESM equivalent of __dirname)
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// Define custom Request type with user property
+interface AuthRequest extends Request {
+  user?: any;
+  isAuthenticated(): boolean;
+}
 
 // Create uploads directory if it doesn't exist
-const uploadsDir = path.join(__dirname, 'uploads');
+const uploadsDir = LOCAL_UPLOADS_DIR;
 
 if (!fs.existsSync(uploadsDir)) {
   fs.mkdirSync(uploadsDir, { recursive: true });
 }
 
-// Configure storage
-const storage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadsDir);
-  },
-  filename: function (req, file, cb) {
-    // Create a unique filename
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    const ext = path.extname(file.originalname);
-    cb(null, file.fieldname + '-' + uniqueSuffix + ext);
+// Images are kept in memory until the pipeline has checked and resized them;
+// the file's real type is checked from its contents, not its claimed MIME type
+export const imageUploadMiddleware = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
   }
 });
 
-// File filter for image uploads
-const imageFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Accept only image files
-  if (!file.mimetype.startsWith('image/')) {
-    return cb(new Error('Only image files are allowed!'));
-  }
-  cb(null, true);
-};
+// Run a multer middleware, answering 413 instead of erroring when the file is too big
+export function acceptUpload(middleware: RequestHandler): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    middleware(req, res, (error: any) => {
+      if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ message: 'The file is too large' });
+      }
+      if (error) return next(error);
+      next();
+    });
+  };
+}
 
-// Create upload middleware
-export const uploadMiddleware = multer({ 
-  storage: storage,
-  limits: {
-    fileSize: 5 * 1024 * 1024 // 5MB limit
-  },
-  fileFilter: imageFilter
-});
+// Refuse uploads that would take the vendor past their plan's storage, judged
+// from the request size before anything is stored
+export async function requireStorageQuota(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tenant = await resolveTenant(req);
+    if (tenant?.vendorId) {
+      await assertWithinQuota(tenant.vendorId, 'storage', Number(req.headers['content-length']) || 0);
+    }
+    next();
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return res.status(403).json({ message: error.message, error: error.code, resource: error.resource, used: error.used, limit: error.limit });
+    }
+    next(error);
+  }
+}
 
-// Function to register upload routes
-export function registerUploadRoutes(app: Express) {
-  // Route for image uploads
-  app.post('/api/upload', uploadMiddleware.single('file'), (req: Request, res: Response) => {
+/**
+ * Handle a single image upload: process it into renditions, store them in
+ * the given image store (the configured one by default) and answer with the
+ * primary URL and the recorded image
+ */
+export function handleImageUpload(getStore: () => ImageStore = getImageStore) {
+  return async (req: Request, res: Response) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ message: 'No file uploaded' });
+        return res.status(400).json({ message: 'No image uploaded' });
       }
-      
-      // Get base url
-      const baseUrl = `${req.protocol}://${req.get('host')}`;
-      
-      // Return file URL for access from the client
-      const fileUrl = `${baseUrl}/uploads/${req.file.filename}`;
-      
+
+      const tenant = await resolveTenant(req);
+      const image = await storeImage(
+        req.file.buffer,
+        { vendorId: tenant?.vendorId ?? null, userId: (req as AuthRequest).user?.id ?? null },
+        getStore()
+      );
+
       return res.status(200).json({
-        message: 'File uploaded successfully',
-        url: fileUrl,
-        filename: req.file.filename
+        message: 'Image uploaded successfully',
+        url: image.url,
+        key: image.key,
+        mimetype: 'image/webp',
+        size: image.renditions.find(rendition => rendition.url === image.url)?.size,
+        image
       });
     } catch (error) {
-      console.error('Upload error:', error);
+      if (error instanceof ImageProcessingError) {
+        return res.status(error.code === 'UNSUPPORTED_TYPE' ? 415 : 422).json({ message: error.message, error: error.code });
+      }
+      console.error('Image upload error:', error);
       return res.status(500).json({ message: 'Upload failed', error: String(error) });
     }
+  };
+}
+
+// Function to register upload routes
+export function registerUploadRoutes(app: Express) {
+  // Route for image uploads
+  app.post('/api/upload', requireStorageQuota, acceptUpload(imageUploadMiddleware.single('file')), handleImageUpload());
+
+  // Product images, stored in whichever backend is configured
+  app.post('/api/images', isAuthenticated, requireStorageQuota, acceptUpload(imageUploadMiddleware.single('image')), handleImageUpload());
+
+  // Renditions and metadata for images by URL: ?url=...&url=...
+  app.get('/api/images', async (req: Request, res: Response) => {
+    try {
+      const urls = ([] as unknown[]).concat(req.query.url ?? []).filter((url): url is string => typeof url === 'string');
+      if (urls.length === 0) {
+        return res.status(400).json({ message: 'At least one url is required' });
+      }
+      if (urls.length > 100) {
+        return res.status(400).json({ message: 'At most 100 images can be looked up at once' });
+      }
+
+      return res.status(200).json(await storage.getImageAssetsByUrls(urls));
+    } catch (error) {
+      console.error('Image lookup error:', error);
+      return res.status(500).json({ message: 'Image lookup failed', error: String(error) });
+    }
   });
 
   // Serve static files from uploads directory
   app.use('/uploads', (req, res, next) => {
     const filePath = path.join(uploadsDir, req.path);
-    
+
     // Check if file exists
-    if (fs.existsSync(filePath)) {
+    if (filePath.startsWith(uploadsDir + path.sep) && fs.existsSync(filePath)) {
+      // Renditions are written once under a unique key, so they can be cached for good
+      const immutable = req.path.startsWith('/images/');
       // Use absolute path for sendFile
-      res.sendFile(path.resolve(filePath));
+      res.sendFile(path.resolve(filePath), immutable ? { maxAge: '365d', immutable: true } : {});
     } else {
       next();
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,144 @@
+import type { SubscriptionPlan } from "@shared/schema";
+import { storage } from "./storage";
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
+export type QuotaResource = "products" | "customDomains" | "storage";
+
+export interface QuotaUsage {
+  resource: QuotaResource;
+  label: string;
+  used: number;
+  limit: number | null; // Null when the vendor has no plan to limit them
+  unit: "count" | "bytes";
+}
+
+export interface VendorUsage {
+  plan: SubscriptionPlan | null;
+  quotas: QuotaUsage[];
+}
+
+const QUOTA_LABELS: Record<QuotaResource, string> = {
+  products: "Products",
+  customDomains: "Custom domains",
+  storage: "Storage",
+};
+
+/**
+ * Creating or uploading something would take a vendor past their plan. The
+ * message says what to upgrade and is meant to be shown as-is.
+ */
+export class QuotaExceededError extends Error {
+  public readonly code = "QUOTA_EXCEEDED";
+  public readonly resource: QuotaResource;
+  public readonly used: number;
+  public readonly limit: number;
+
+  constructor(resource: QuotaResource, used: number, limit: number, message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+    this.resource = resource;
+    this.used = used;
+    this.limit = limit;
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= BYTES_PER_GB) return `${(bytes / BYTES_PER_GB).toFixed(1)} GB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function planLimit(plan: SubscriptionPlan, resource: QuotaResource): number {
+  switch (resource) {
+    case "products":
+      return plan.productLimit;
+    case "customDomains":
+      return plan.customDomainLimit;
+    case "storage":
+      return plan.storageLimit * BYTES_PER_GB;
+  }
+}
+
+/**
+ * The plan a vendor's limits come from: their subscription's plan unless it
+ * was canceled, otherwise the plan set on the vendor. Null means unlimited.
+ */
+export async function getVendorPlan(vendorId: number): Promise<SubscriptionPlan | null> {
+  const subscription = await storage.getVendorSubscription(vendorId);
+  if (subscription && subscription.status !== "canceled") {
+    return subscription.plan;
+  }
+
+  const vendor = await storage.getVendor(vendorId);
+  if (!vendor?.subscriptionPlanId) return null;
+  return (await storage.getSubscriptionPlan(vendor.subscriptionPlanId)) ?? null;
+}
+
+export async function measureUsage(vendorId: number, resource: QuotaResource): Promise<number> {
+  switch (resource) {
+    case "products":
+      return (await storage.getProducts(vendorId)).length;
+    case "customDomains":
+      return (await storage.getDomainsByVendorId(vendorId)).filter(domain => domain.type === "custom").length;
+    case "storage":
+      return storage.getVendorStorageBytes(vendorId);
+  }
+}
+
+/**
+ * What a vendor is using of each limit, against their current plan or the
+ * plan given (to preview a plan change)
+ */
+export async function getVendorUsage(vendorId: number, plan?: SubscriptionPlan | null): Promise<VendorUsage> {
+  const limitsFrom = plan === undefined ? await getVendorPlan(vendorId) : plan;
+  const resources: QuotaResource[] = ["products", "customDomains", "storage"];
+
+  const quotas = await Promise.all(resources.map(async resource => ({
+    resource,
+    label: QUOTA_LABELS[resource],
+    used: await measureUsage(vendorId, resource),
+    limit: limitsFrom ? planLimit(limitsFrom, resource) : null,
+    unit: resource === "storage" ? "bytes" as const : "count" as const,
+  })));
+
+  return { plan: limitsFrom, quotas };
+}
+
+/**
+ * Throw a QuotaExceededError when adding `amount` (items, or bytes for
+ * storage) would take the vendor past their plan
+ */
+export async function assertWithinQuota(vendorId: number, resource: QuotaResource, amount = 1): Promise<void> {
+  const plan = await getVendorPlan(vendorId);
+  if (!plan) return;
+
+  const limit = planLimit(plan, resource);
+  const used = await measureUsage(vendorId, resource);
+  if (used + amount <= limit) return;
+
+  switch (resource) {
+    case "products":
+      throw new QuotaExceededError(resource, used, limit,
+        `Your ${plan.name} plan allows a maximum of ${limit} products. Upgrade your plan to add more.`);
+    case "customDomains":
+      throw new QuotaExceededError(resource, used, limit,
+        `Your ${plan.name} plan allows a maximum of ${limit} custom domains. Upgrade your plan to add more.`);
+    case "storage":
+      throw new QuotaExceededError(resource, used, limit,
+        `This upload would take you past the ${plan.storageLimit} GB of storage on your ${plan.name} plan (${formatBytes(used)} used). Upgrade your plan or remove some files.`);
+  }
+}
+
+/**
+ * The limits a vendor's current usage wouldn't fit in on another plan
+ */
+export async function getPlanChangeViolations(vendorId: number, plan: SubscriptionPlan): Promise<QuotaUsage[]> {
+  const { quotas } = await getVendorUsage(vendorId, plan);
+  return quotas.filter(quota => quota.limit !== null && quota.used > quota.limit);
+}
+
+export function describeViolation(quota: QuotaUsage): string {
+  const used = quota.unit === "bytes" ? formatBytes(quota.used) : String(quota.used);
+  const limit = quota.unit === "bytes" ? formatBytes(quota.limit ?? 0) : String(quota.limit);
+  return `${quota.label}: using ${used}, plan allows ${limit}`;
+}
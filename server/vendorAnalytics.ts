@@ -0,0 +1,267 @@
+import { z } from "zod";
+import { Decimal } from "decimal.js";
+import { storage } from "./storage";
+import { conversionRate } from "./storefrontAnalytics";
+import {
+  ANALYTICS_GRANULARITIES,
+  DAY_MS,
+  nextBucket,
+  startOfBucket,
+  startOfUtcDay,
+  toDateKey,
+  type AnalyticsGranularity
+} from "./analyticsPeriods";
+
+export type { AnalyticsGranularity } from "./analyticsPeriods";
+
+// Longest range one request can cover
+const MAX_RANGE_DAYS = 731;
+
+/**
+ * A reporting period: whole UTC days from `from` up to, but not including, `to`
+ */
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+  granularity: AnalyticsGranularity;
+}
+
+// Traffic and sales for one day, week or month, keyed by the date it starts on
+export interface AnalyticsBucket {
+  period: string; // "2026-10-05"
+  visitors: number;
+  pageViews: number;
+  convertedVisitors: number; // Visitors whose session reached the checkout confirmation
+  orders: number;
+  revenue: string;
+}
+
+export interface ProductSales {
+  productId: number;
+  name: string;
+  quantity: number;
+  revenue: string;
+}
+
+export interface HourlySales {
+  hour: number; // 0-23, UTC
+  orders: number;
+  revenue: string;
+}
+
+export interface CategorySales {
+  categoryId: number | null;
+  name: string;
+  revenue: string;
+}
+
+// How a figure moved between the previous period and this one
+export interface MetricChange {
+  current: number;
+  previous: number;
+  delta: number;
+  // Null when there was nothing to compare against
+  percentChange: number | null;
+}
+
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+/**
+ * The range query every analytics endpoint takes: `from` and `to` are
+ * inclusive dates, and default to the last 30 days
+ */
+export const analyticsRangeQuerySchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  granularity: z.enum(ANALYTICS_GRANULARITIES).default("day"),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+});
+
+export type AnalyticsRangeQuery = z.infer<typeof analyticsRangeQuerySchema>;
+
+function parseDay(value: string): Date {
+  const date = new Date(`${value}T00:00:00.000Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new z.ZodError([{ code: "custom", path: [], message: `${value} isn't a date` }]);
+  }
+  return date;
+}
+
+export function resolveAnalyticsRange(query: AnalyticsRangeQuery, now = new Date()): AnalyticsRange {
+  const lastDay = query.to ? parseDay(query.to) : startOfUtcDay(now);
+  const firstDay = query.from ? parseDay(query.from) : new Date(lastDay.getTime() - 29 * DAY_MS);
+  const to = new Date(lastDay.getTime() + DAY_MS);
+
+  if (firstDay >= to) {
+    throw new z.ZodError([{ code: "custom", path: ["from"], message: "from must be on or before to" }]);
+  }
+  if ((to.getTime() - firstDay.getTime()) / DAY_MS > MAX_RANGE_DAYS) {
+    throw new z.ZodError([{ code: "custom", path: ["from"], message: `Ranges can cover at most ${MAX_RANGE_DAYS} days` }]);
+  }
+  return { from: firstDay, to, granularity: query.granularity };
+}
+
+/**
+ * The period of the same length that ends where `range` starts
+ */
+export function previousPeriod(range: AnalyticsRange): AnalyticsRange {
+  const length = range.to.getTime() - range.from.getTime();
+  return { from: new Date(range.from.getTime() - length), to: range.from, granularity: range.granularity };
+}
+
+export function changeBetween(current: number, previous: number): MetricChange {
+  const delta = new Decimal(current).minus(previous);
+  return {
+    current,
+    previous,
+    delta: delta.toDecimalPlaces(2).toNumber(),
+    percentChange: previous === 0 ? null : delta.div(previous).times(100).toDecimalPlaces(1).toNumber(),
+  };
+}
+
+function summarize(buckets: AnalyticsBucket[]) {
+  const totals = buckets.reduce((sum, bucket) => ({
+    visitors: sum.visitors + bucket.visitors,
+    pageViews: sum.pageViews + bucket.pageViews,
+    convertedVisitors: sum.convertedVisitors + bucket.convertedVisitors,
+    orders: sum.orders + bucket.orders,
+    revenue: sum.revenue.plus(bucket.revenue),
+  }), { visitors: 0, pageViews: 0, convertedVisitors: 0, orders: 0, revenue: new Decimal(0) });
+
+  return {
+    visitors: totals.visitors,
+    pageViews: totals.pageViews,
+    orders: totals.orders,
+    revenue: totals.revenue.toFixed(2),
+    conversionRate: conversionRate(Math.round(totals.convertedVisitors), totals.visitors),
+    averageOrderValue: totals.orders > 0 ? totals.revenue.div(totals.orders).toFixed(2) : "0.00",
+  };
+}
+
+type AnalyticsTotals = ReturnType<typeof summarize>;
+
+function describeRange(range: AnalyticsRange) {
+  // `to` is exclusive internally; the API speaks in inclusive dates
+  return { from: toDateKey(range.from), to: toDateKey(new Date(range.to.getTime() - DAY_MS)), granularity: range.granularity };
+}
+
+/**
+ * Traffic and sales for a vendor over `range`, one point per day, week or
+ * month (empty ones included), with totals compared against the previous
+ * period of the same length
+ */
+export async function getAnalyticsReport(vendorId: number, range: AnalyticsRange) {
+  const previous = previousPeriod(range);
+  const [buckets, previousBuckets] = await Promise.all([
+    storage.getAnalyticsBuckets(vendorId, range.from, range.to, range.granularity),
+    storage.getAnalyticsBuckets(vendorId, previous.from, previous.to, range.granularity),
+  ]);
+
+  const byPeriod = new Map(buckets.map(bucket => [bucket.period, bucket]));
+  const series = [];
+  for (let start = startOfBucket(range.from, range.granularity); start < range.to; start = nextBucket(start, range.granularity)) {
+    const period = toDateKey(start);
+    const bucket = byPeriod.get(period);
+    series.push({
+      period,
+      visitors: bucket?.visitors ?? 0,
+      pageViews: bucket?.pageViews ?? 0,
+      orders: bucket?.orders ?? 0,
+      revenue: bucket?.revenue ?? "0.00",
+      conversionRate: bucket ? conversionRate(Math.round(bucket.convertedVisitors), bucket.visitors) : "0.00",
+    });
+  }
+
+  const totals = summarize(buckets);
+  const previousTotals = summarize(previousBuckets);
+  const metrics: (keyof AnalyticsTotals)[] = ["visitors", "pageViews", "orders", "revenue", "conversionRate", "averageOrderValue"];
+
+  return {
+    range: describeRange(range),
+    previousRange: describeRange(previous),
+    series,
+    totals,
+    previousTotals,
+    comparison: Object.fromEntries(
+      metrics.map(metric => [metric, changeBetween(Number(totals[metric]), Number(previousTotals[metric]))])
+    ) as Record<keyof AnalyticsTotals, MetricChange>,
+  };
+}
+
+/**
+ * A vendor's best selling products over `range` by revenue, each with what
+ * it sold in the previous period
+ */
+export async function getTopProductsReport(vendorId: number, range: AnalyticsRange, limit = 5) {
+  const previous = previousPeriod(range);
+  const current = await storage.getTopProducts(vendorId, range.from, range.to, limit);
+  const earlier = await storage.getProductSales(vendorId, previous.from, previous.to, current.map(product => product.productId));
+  const earlierById = new Map(earlier.map(product => [product.productId, product]));
+
+  return {
+    range: describeRange(range),
+    previousRange: describeRange(previous),
+    products: current.map(product => {
+      const before = earlierById.get(product.productId);
+      return {
+        ...product,
+        previousQuantity: before?.quantity ?? 0,
+        previousRevenue: before?.revenue ?? "0.00",
+        revenueChange: changeBetween(Number(product.revenue), Number(before?.revenue ?? 0)),
+      };
+    }),
+  };
+}
+
+/**
+ * Orders and revenue by hour of the day (UTC) over `range`, against the
+ * previous period
+ */
+export async function getSalesByHourReport(vendorId: number, range: AnalyticsRange) {
+  const previous = previousPeriod(range);
+  const [current, earlier] = await Promise.all([
+    storage.getSalesByHour(vendorId, range.from, range.to),
+    storage.getSalesByHour(vendorId, previous.from, previous.to),
+  ]);
+  const byHour = new Map(current.map(row => [row.hour, row]));
+  const earlierByHour = new Map(earlier.map(row => [row.hour, row]));
+
+  return {
+    range: describeRange(range),
+    previousRange: describeRange(previous),
+    hours: Array.from({ length: 24 }, (_, hour) => ({
+      hour,
+      orders: byHour.get(hour)?.orders ?? 0,
+      revenue: byHour.get(hour)?.revenue ?? "0.00",
+      previousOrders: earlierByHour.get(hour)?.orders ?? 0,
+    })),
+  };
+}
+
+/**
+ * Revenue by product category over `range`, with each category's share of
+ * the total and how it moved against the previous period
+ */
+export async function getSalesByCategoryReport(vendorId: number, range: AnalyticsRange) {
+  const previous = previousPeriod(range);
+  const [current, earlier] = await Promise.all([
+    storage.getSalesByCategory(vendorId, range.from, range.to),
+    storage.getSalesByCategory(vendorId, previous.from, previous.to),
+  ]);
+  const total = current.reduce((sum, category) => sum.plus(category.revenue), new Decimal(0));
+  const earlierByCategory = new Map(earlier.map(category => [category.categoryId, category]));
+
+  return {
+    range: describeRange(range),
+    previousRange: describeRange(previous),
+    categories: current.map(category => {
+      const before = earlierByCategory.get(category.categoryId);
+      return {
+        ...category,
+        share: total.isZero() ? 0 : new Decimal(category.revenue).div(total).times(100).toDecimalPlaces(1).toNumber(),
+        previousRevenue: before?.revenue ?? "0.00",
+        revenueChange: changeBetween(Number(category.revenue), Number(before?.revenue ?? 0)),
+      };
+    }),
+  };
+}
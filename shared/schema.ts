@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, primaryKey, foreignKey, numeric, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, primaryKey, foreignKey, numeric, jsonb, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -70,6 +70,7 @@ export const vendors = pgTable("vendors", {
   logoUrl: text("logo_url"),
   subscriptionPlanId: integer("subscription_plan_id").references(() => subscriptionPlans.id),
   status: text("status").notNull().default("pending"), // "pending", "active", "suspended"
+  suspensionReason: text("suspension_reason"), // "non_payment" when billing suspended the store; lifted once paid
   storeTheme: text("store_theme").default("default"),
   customCss: text("custom_css"),
   colorPalette: text("color_palette").default("default"),
@@ -78,11 +79,19 @@ export const vendors = pgTable("vendors", {
   subscriptionStatus: text("subscription_status").default("trial"), // "trial", "active", "overdue"
   trialEndsAt: timestamp("trial_ends_at"),
   nextBillingDate: timestamp("next_billing_date"),
+  pricesIncludeTax: boolean("prices_include_tax").default(true), // Whether product selling prices already include GST
+  businessState: text("business_state"), // State the vendor is GST-registered in, decides CGST/SGST vs IGST
+  gstin: text("gstin"), // GST identification number, printed on tax invoices
+  businessAddress: text("business_address"), // Registered address printed on tax invoices
 });
 
 export const insertVendorSchema = createInsertSchema(vendors).omit({
   id: true,
   createdAt: true
+}).extend({
+  gstin: z.string().trim().toUpperCase()
+    .regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/, "Enter a valid 15 character GSTIN")
+    .nullable().optional(),
 });
 
 // Domains for vendor stores
@@ -92,12 +101,14 @@ export const domains = pgTable("domains", {
   name: text("name").notNull().unique(),
   type: text("type").notNull(), // "subdomain" or "custom"
   status: text("status").notNull().default("pending"), // "pending", "active", "error"
-  sslStatus: text("ssl_status").default("pending"), // "pending", "valid", "invalid"
+  sslStatus: text("ssl_status").default("pending"), // "pending", "valid", "expiring", "expired", "failed", "revoked"
   isPrimary: boolean("is_primary").default(false),
   verificationStatus: text("verification_status").default("pending"), // "pending", "verified", "failed"
   verificationToken: text("verification_token"), // Token for DNS TXT record verification
   verificationMethod: text("verification_method").default("dns_txt"), // "dns_txt", "file", "cname"
   dnsRecords: text("dns_records").array(), // Array of DNS records needed for domain configuration
+  verificationError: text("verification_error"), // Why the last check failed or couldn't complete
+  verifiedAt: timestamp("verified_at"), // When ownership was first proven
   lastCheckedAt: timestamp("last_checked_at"), // Last time verification was checked
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at"),
@@ -108,6 +119,16 @@ export const insertDomainSchema = createInsertSchema(domains).omit({
   createdAt: true
 });
 
+// What vendors and admins can set on a domain. Its status, verification and
+// SSL state only change by proving ownership and issuing certificates.
+export const domainInputSchema = insertDomainSchema.pick({
+  vendorId: true,
+  name: true,
+  type: true,
+  isPrimary: true,
+  verificationMethod: true
+});
+
 // Product categories
 export const productCategories = pgTable("product_categories", {
   id: serial("id").primaryKey(),
@@ -139,6 +160,7 @@ export const products = pgTable("products", {
   sellingPrice: numeric("selling_price").notNull(), // Renamed from price to sellingPrice
   mrp: numeric("mrp"), // Added Maximum Retail Price
   gst: numeric("gst"), // Added GST percentage
+  hsnCode: text("hsn_code"), // HSN code printed against the product on tax invoices
   sku: text("sku"),
   barcode: text("barcode"),
   weight: numeric("weight"),
@@ -214,16 +236,22 @@ export const orders = pgTable("orders", {
   vendorId: integer("vendor_id").notNull().references(() => vendors.id),
   customerId: integer("customer_id").references(() => customers.id),
   orderNumber: text("order_number").notNull().unique(),
-  status: text("status").notNull().default("pending"), // "pending", "processing", "shipped", "delivered", "canceled"
+  status: text("status").notNull().default("pending"), // "pending", "processing", "shipped", "delivered", "canceled", "returned"
   currency: text("currency").default("USD"),
   subtotal: numeric("subtotal").notNull(),
   shippingCost: numeric("shipping_cost").default("0"),
+  shippingRateId: integer("shipping_rate_id"), // Rate the shipping cost was worked out from
+  shippingMethod: text("shipping_method"), // Name of the rate at the time of the order
   tax: numeric("tax").default("0"),
+  cgst: numeric("cgst").default("0"), // GST split of tax: CGST + SGST for intra-state sales, IGST otherwise
+  sgst: numeric("sgst").default("0"),
+  igst: numeric("igst").default("0"),
   discount: numeric("discount").default("0"),
   total: numeric("total").notNull(),
   shippingAddress: text("shipping_address"),
   billingAddress: text("billing_address"),
-  paymentStatus: text("payment_status").default("pending"), // "pending", "paid", "failed", "refunded"
+  placeOfSupply: text("place_of_supply"), // GST state code the order ships to
+  paymentStatus: text("payment_status").default("pending"), // "pending", "paid", "failed", "partially_refunded", "refunded"
   paymentMethod: text("payment_method"),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -241,10 +269,17 @@ export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   orderId: integer("order_id").notNull().references(() => orders.id),
   productId: integer("product_id").notNull().references(() => products.id),
+  variantId: integer("variant_id").references(() => productVariants.id), // Set when stock was taken from a variant
   name: text("name").notNull(),
   quantity: integer("quantity").notNull(),
   price: numeric("price").notNull(),
   total: numeric("total").notNull(),
+  hsnCode: text("hsn_code"), // The product's HSN code when the order was placed
+  taxRate: numeric("tax_rate").default("0"), // GST percentage applied to the line
+  taxAmount: numeric("tax_amount").default("0"),
+  cgst: numeric("cgst").default("0"),
+  sgst: numeric("sgst").default("0"),
+  igst: numeric("igst").default("0"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -253,6 +288,97 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   createdAt: true
 });
 
+// Order history: status changes, shipments and notes in the order they happened
+export const orderEvents = pgTable("order_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  type: text("type").notNull(), // "placed", "status_changed", "fulfillment_created", "fulfillment_updated", "return_requested", "return_approved", "return_rejected", "return_received", "note"
+  fromStatus: text("from_status"),
+  toStatus: text("to_status"),
+  message: text("message"),
+  actorId: integer("actor_id").references(() => users.id), // Null for the shopper or the system
+  fulfillmentId: integer("fulfillment_id"),
+  returnId: integer("return_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrderEventSchema = createInsertSchema(orderEvents).omit({
+  id: true,
+  createdAt: true
+});
+
+// Shipments of some or all of an order's items
+export const fulfillments = pgTable("fulfillments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  status: text("status").notNull().default("shipped"), // "shipped", "delivered"
+  carrier: text("carrier"),
+  trackingNumber: text("tracking_number"),
+  trackingUrl: text("tracking_url"),
+  shippedAt: timestamp("shipped_at").defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertFulfillmentSchema = createInsertSchema(fulfillments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// How many units of each order item went out in a fulfillment
+export const fulfillmentItems = pgTable("fulfillment_items", {
+  id: serial("id").primaryKey(),
+  fulfillmentId: integer("fulfillment_id").notNull().references(() => fulfillments.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+});
+
+export const insertFulfillmentItemSchema = createInsertSchema(fulfillmentItems).omit({
+  id: true
+});
+
+// Return requests (RMAs) raised by shoppers against items they received
+export const returnRequests = pgTable("return_requests", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  customerId: integer("customer_id").references(() => customers.id),
+  rmaNumber: text("rma_number").notNull().unique(),
+  status: text("status").notNull().default("requested"), // "requested", "approved", "rejected", "received"
+  reason: text("reason").notNull(), // "damaged", "wrong_item", "not_as_described", "no_longer_needed", "other"
+  comment: text("comment"), // From the shopper
+  vendorNote: text("vendor_note"), // Shown to the shopper when the return is approved or rejected
+  refundAmount: numeric("refund_amount").default("0"), // Refunded when the return was approved
+  refundTransactionId: integer("refund_transaction_id"), // Payment the refund was taken from
+  requestedBy: integer("requested_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  rejectedAt: timestamp("rejected_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertReturnRequestSchema = createInsertSchema(returnRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// How many units of each order item are being sent back, and how many went back into stock
+export const returnItems = pgTable("return_items", {
+  id: serial("id").primaryKey(),
+  returnId: integer("return_id").notNull().references(() => returnRequests.id, { onDelete: "cascade" }),
+  orderItemId: integer("order_item_id").notNull().references(() => orderItems.id),
+  quantity: integer("quantity").notNull(),
+  restockedQuantity: integer("restocked_quantity").notNull().default(0),
+});
+
+export const insertReturnItemSchema = createInsertSchema(returnItems).omit({
+  id: true
+});
+
 // Analytics data
 export const analytics = pgTable("analytics", {
   id: serial("id").primaryKey(),
@@ -264,13 +390,71 @@ export const analytics = pgTable("analytics", {
   revenue: numeric("revenue").default("0"),
   conversionRate: numeric("conversion_rate").default("0"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // One row per vendor per day (midnight UTC), rewritten by the storefront event rollup
+  vendorDateIdx: uniqueIndex("analytics_vendor_date_idx").on(table.vendorId, table.date),
+}));
 
 export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
   id: true,
   createdAt: true
 });
 
+// TLS certificates issued for custom domains over ACME; the newest issued one is served
+export const domainCertificates = pgTable("domain_certificates", {
+  id: serial("id").primaryKey(),
+  domainId: integer("domain_id").notNull().references(() => domains.id, { onDelete: "cascade" }),
+  status: text("status").notNull().default("pending"), // "pending", "issued", "failed", "revoked", "expired", "superseded"
+  certificatePem: text("certificate_pem"), // Leaf certificate followed by the chain
+  privateKeyPem: text("private_key_pem"),
+  serialNumber: text("serial_number"),
+  issuer: text("issuer"),
+  orderUrl: text("order_url"), // ACME order the certificate came from
+  lastError: text("last_error"), // Why issuance failed
+  issuedAt: timestamp("issued_at"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  expiryWarningSentAt: timestamp("expiry_warning_sent_at"), // The vendor was told it's about to expire
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertDomainCertificateSchema = createInsertSchema(domainCertificates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// ACME accounts the platform issues certificates with, one per ACME directory
+export const acmeAccounts = pgTable("acme_accounts", {
+  id: serial("id").primaryKey(),
+  directoryUrl: text("directory_url").notNull().unique(),
+  email: text("email"),
+  accountUrl: text("account_url"),
+  privateKeyPem: text("private_key_pem").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAcmeAccountSchema = createInsertSchema(acmeAccounts).omit({
+  id: true,
+  createdAt: true
+});
+
+// Pending HTTP-01 challenges, served on /.well-known/acme-challenge/<token>
+export const acmeChallenges = pgTable("acme_challenges", {
+  id: serial("id").primaryKey(),
+  token: text("token").notNull().unique(),
+  keyAuthorization: text("key_authorization").notNull(),
+  domainName: text("domain_name").notNull(),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAcmeChallengeSchema = createInsertSchema(acmeChallenges).omit({
+  id: true,
+  createdAt: true
+});
+
 // Relations code is commented out for now
 // It will be used in the application code for joins, but we'll skip it for the schema migration
 // since drizzle-kit doesn't support it properly
@@ -296,6 +480,15 @@ export type InsertVendor = z.infer<typeof insertVendorSchema>;
 export type Domain = typeof domains.$inferSelect;
 export type InsertDomain = z.infer<typeof insertDomainSchema>;
 
+export type DomainCertificate = typeof domainCertificates.$inferSelect;
+export type InsertDomainCertificate = z.infer<typeof insertDomainCertificateSchema>;
+
+export type AcmeAccount = typeof acmeAccounts.$inferSelect;
+export type InsertAcmeAccount = z.infer<typeof insertAcmeAccountSchema>;
+
+export type AcmeChallenge = typeof acmeChallenges.$inferSelect;
+export type InsertAcmeChallenge = z.infer<typeof insertAcmeChallengeSchema>;
+
 export type ProductCategory = typeof productCategories.$inferSelect;
 export type InsertProductCategory = z.infer<typeof insertProductCategorySchema>;
 
@@ -314,6 +507,21 @@ export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderItem = typeof orderItems.$inferSelect;
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
 
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = z.infer<typeof insertOrderEventSchema>;
+
+export type Fulfillment = typeof fulfillments.$inferSelect;
+export type InsertFulfillment = z.infer<typeof insertFulfillmentSchema>;
+
+export type FulfillmentItem = typeof fulfillmentItems.$inferSelect;
+export type InsertFulfillmentItem = z.infer<typeof insertFulfillmentItemSchema>;
+
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type InsertReturnItem = z.infer<typeof insertReturnItemSchema>;
+
 // Shopping cart
 export const carts = pgTable("carts", {
   id: serial("id").primaryKey(),
@@ -322,7 +530,10 @@ export const carts = pgTable("carts", {
   vendorId: integer("vendor_id").notNull().references(() => vendors.id),
   subtotal: numeric("subtotal").default("0"),
   tax: numeric("tax").default("0"),
+  discount: numeric("discount").default("0"),
   total: numeric("total").default("0"),
+  promotionCode: text("promotion_code"), // Discount code applied to the cart, re-checked whenever it is priced
+  shippingRateId: integer("shipping_rate_id"), // Shipping option the shopper picked
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -341,7 +552,8 @@ export const cartItems = pgTable("cart_items", {
   name: text("name").notNull(),
   price: numeric("price").notNull(),
   quantity: integer("quantity").notNull().default(1),
-  variant: text("variant"), // For products with variants (size, color, etc.)
+  variantId: integer("variant_id").references(() => productVariants.id), // The variant being bought, for products with options
+  variant: text("variant"), // The variant's title when it was added, for display
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -357,6 +569,126 @@ export type InsertCart = z.infer<typeof insertCartSchema>;
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 
+// Shipping zones: the areas a vendor ships to
+export const shippingZones = pgTable("shipping_zones", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  name: text("name").notNull(),
+  countries: text("countries").array(), // Country names or ISO codes; empty matches any country
+  states: text("states").array(), // State names or GST state codes; empty matches any state
+  postalCodes: text("postal_codes").array(), // Exact codes, prefixes ("560*") or ranges ("110001-110099")
+  position: integer("position").default(0), // Zones are matched in this order, first match wins
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertShippingZoneSchema = createInsertSchema(shippingZones).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Shipping rates offered within a zone
+export const shippingRates = pgTable("shipping_rates", {
+  id: serial("id").primaryKey(),
+  zoneId: integer("zone_id").notNull().references(() => shippingZones.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Shown to the shopper, e.g. "Standard" or "Express"
+  type: text("type").notNull(), // "flat", "weight", "price", "free_over"
+  amount: numeric("amount").default("0"), // Flat price, or the price below the threshold for "free_over"
+  freeAbove: numeric("free_above"), // For "free_over": cart amount from which shipping is free
+  tiers: jsonb("tiers"), // For "weight"/"price": [{ min, max, amount }] with max left empty on the last tier
+  minDeliveryDays: integer("min_delivery_days"),
+  maxDeliveryDays: integer("max_delivery_days"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const shippingRateTierSchema = z.object({
+  min: z.coerce.number().min(0),
+  max: z.coerce.number().positive().nullable().optional(),
+  amount: z.coerce.number().min(0),
+});
+
+export const insertShippingRateSchema = createInsertSchema(shippingRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  type: z.enum(["flat", "weight", "price", "free_over"]),
+  amount: z.coerce.string().optional(),
+  freeAbove: z.coerce.string().nullable().optional(),
+  tiers: z.array(shippingRateTierSchema).nullable().optional(),
+});
+
+export type ShippingZone = typeof shippingZones.$inferSelect;
+export type InsertShippingZone = z.infer<typeof insertShippingZoneSchema>;
+
+export type ShippingRate = typeof shippingRates.$inferSelect;
+export type InsertShippingRate = z.infer<typeof insertShippingRateSchema>;
+export type ShippingRateTier = z.infer<typeof shippingRateTierSchema>;
+
+// Promotions (discount codes) created by vendors
+export const promotions = pgTable("promotions", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  name: text("name").notNull(),
+  code: text("code").notNull(), // Stored upper-case, unique per vendor
+  type: text("type").notNull(), // "percentage", "fixed_amount", "free_shipping", "buy_x_get_y"
+  value: numeric("value").default("0"), // Percentage or amount off, depending on type
+  minSubtotal: numeric("min_subtotal"), // Minimum cart amount before the code can be used
+  buyQuantity: integer("buy_quantity"), // For buy_x_get_y: units the customer pays for
+  getQuantity: integer("get_quantity"), // For buy_x_get_y: units the customer gets free
+  productIds: integer("product_ids").array(), // Limit the promotion to these products
+  categoryIds: integer("category_ids").array(), // Limit the promotion to these categories (vendor or global)
+  usageLimit: integer("usage_limit"), // Total number of orders that can use the code
+  usageLimitPerCustomer: integer("usage_limit_per_customer"),
+  usageCount: integer("usage_count").default(0),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  vendorCodeIdx: uniqueIndex("promotions_vendor_code_idx").on(table.vendorId, table.code),
+}));
+
+export const insertPromotionSchema = createInsertSchema(promotions).omit({
+  id: true,
+  usageCount: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  code: z.string().trim().min(1, "Code is required").max(50).transform(code => code.toUpperCase()),
+  type: z.enum(["percentage", "fixed_amount", "free_shipping", "buy_x_get_y"]),
+  value: z.coerce.string().optional(),
+  minSubtotal: z.coerce.string().nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+});
+
+// Orders that used a promotion, for usage limits
+export const promotionRedemptions = pgTable("promotion_redemptions", {
+  id: serial("id").primaryKey(),
+  promotionId: integer("promotion_id").notNull().references(() => promotions.id),
+  orderId: integer("order_id").notNull().references(() => orders.id),
+  customerId: integer("customer_id").references(() => customers.id),
+  discount: numeric("discount").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertPromotionRedemptionSchema = createInsertSchema(promotionRedemptions).omit({
+  id: true,
+  createdAt: true
+});
+
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+
+export type PromotionRedemption = typeof promotionRedemptions.$inferSelect;
+export type InsertPromotionRedemption = z.infer<typeof insertPromotionRedemptionSchema>;
+
 // Payment methods for vendors
 export const paymentMethods = pgTable("payment_methods", {
   id: serial("id").primaryKey(),
@@ -382,6 +714,13 @@ export const insertPaymentMethodSchema = createInsertSchema(paymentMethods).omit
 });
 
 // Platform subscription payments (for vendors' subscription to the platform)
+// A plan or billing cycle change waiting for the current billing period to end
+export interface PendingPlanChange {
+  planId: number;
+  billingCycle: "monthly" | "yearly";
+  requestedAt: string;
+}
+
 export const platformSubscriptions = pgTable("platform_subscriptions", {
   id: serial("id").primaryKey(),
   vendorId: integer("vendor_id").notNull().references(() => vendors.id),
@@ -403,6 +742,8 @@ export const platformSubscriptions = pgTable("platform_subscriptions", {
   canceledAt: timestamp("canceled_at"), // When the subscription was canceled
   cancelReason: text("cancel_reason"), // Reason for cancellation
   paymentFailureCount: integer("payment_failure_count").default(0), // Count of payment failures
+  creditBalance: numeric("credit_balance").notNull().default("0"), // Unused time credited by plan changes, taken off the next invoices
+  pendingPlanChange: jsonb("pending_plan_change").$type<PendingPlanChange>(), // Applied when the current period ends
   metadata: jsonb("metadata"), // Additional metadata about the subscription
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -412,8 +753,20 @@ export const insertPlatformSubscriptionSchema = createInsertSchema(platformSubsc
   id: true,
   createdAt: true,
   updatedAt: true
+}).extend({
+  pendingPlanChange: z.object({
+    planId: z.number(),
+    billingCycle: z.enum(["monthly", "yearly"]),
+    requestedAt: z.string(),
+  }).nullable().optional(),
 });
 
+// One line of an invoice; credits are negative
+export interface InvoiceLine {
+  description: string;
+  amount: string;
+}
+
 // Invoices for platform subscriptions
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
@@ -428,6 +781,7 @@ export const invoices = pgTable("invoices", {
   dueDate: timestamp("due_date").notNull(),
   paidAt: timestamp("paid_at"),
   notes: text("notes"),
+  lines: jsonb("lines").$type<InvoiceLine[]>(), // What the amount is made up of
   pdfUrl: text("pdf_url"), // URL to download invoice PDF
   gatewayInvoiceId: text("gateway_invoice_id"), // ID in payment gateway
   createdAt: timestamp("created_at").defaultNow(),
@@ -438,6 +792,8 @@ export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   id: true,
   createdAt: true,
   updatedAt: true
+}).extend({
+  lines: z.array(z.object({ description: z.string(), amount: z.string() })).nullable().optional(),
 });
 
 // Payment transactions (for both platform subscriptions and customer orders)
@@ -568,11 +924,42 @@ export type InsertCustomerPaymentMethod = z.infer<typeof insertCustomerPaymentMe
 
 
 // Product variants (e.g., Small Blue T-shirt)
+// Product options: the dimensions a product varies along ("Color", "Size", "Material", ...)
+export const productOptions = pgTable("product_options", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0), // Order options are shown and variant titles are built in
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertProductOptionSchema = createInsertSchema(productOptions).omit({
+  id: true,
+  createdAt: true
+});
+
+// The choices for an option, in display order
+export const productOptionValues = pgTable("product_option_values", {
+  id: serial("id").primaryKey(),
+  optionId: integer("option_id").notNull().references(() => productOptions.id, { onDelete: "cascade" }),
+  value: text("value").notNull(),
+  position: integer("position").notNull().default(0),
+  swatch: text("swatch"), // CSS colour shown instead of the label, e.g. "#e53935"
+  imageUrl: text("image_url"), // Picture shown when the value is selected
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertProductOptionValueSchema = createInsertSchema(productOptionValues).omit({
+  id: true,
+  createdAt: true
+});
+
+// Product variants: one per combination of option values (e.g., Blue / Small)
 export const productVariants = pgTable("product_variants", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull().references(() => products.id),
-  color: text("color").notNull(), // Added color field
-  size: text("size").notNull(), // Added size field
+  optionValueIds: integer("option_value_ids").array().notNull().default([]), // One value per option, in option order
+  title: text("title"), // The values joined for display, e.g. "Blue / Small"
   sku: text("sku"),
   barcode: text("barcode"),
   purchasePrice: numeric("purchase_price"), // Added purchase price
@@ -607,12 +994,463 @@ export const insertProductVariantSchema = baseProductVariantSchema.extend({
   inventoryQuantity: z.number().int().default(0),
   // Add support for multiple images
   images: z.array(z.string()).optional(),
+  optionValueIds: z.array(z.number().int()).default([]),
+});
+
+// Bulk product imports from CSV/XLSX, which run in the background
+export const productImportJobs = pgTable("product_import_jobs", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  userId: integer("user_id").references(() => users.id), // Who uploaded the file
+  fileName: text("file_name"),
+  status: text("status").notNull().default("pending"), // "pending", "running", "completed", "failed"
+  totalProducts: integer("total_products").notNull().default(0),
+  processedProducts: integer("processed_products").notNull().default(0),
+  createdCount: integer("created_count").notNull().default(0),
+  updatedCount: integer("updated_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  errors: jsonb("errors"), // [{ row, column?, message }] for products that couldn't be saved
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const insertProductImportJobSchema = createInsertSchema(productImportJobs).omit({
+  id: true,
+  createdAt: true
+});
+
+// One size of a processed image in one format
+export interface ImageRendition {
+  name: string; // "thumbnail", "medium" or "large"
+  format: string; // "webp" or "avif"
+  width: number;
+  height: number;
+  size: number; // Bytes
+  url: string;
+}
+
+// Uploaded images, stored as resized WebP/AVIF renditions with the metadata stripped
+export const imageAssets = pgTable("image_assets", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").references(() => vendors.id),
+  userId: integer("user_id").references(() => users.id), // Who uploaded it
+  storage: text("storage").notNull(), // "local" or "s3"
+  key: text("key").notNull(), // Prefix the renditions are stored under
+  url: text("url").notNull(), // The large WebP rendition, used wherever a single image URL is stored
+  mimeType: text("mime_type").notNull(), // Type of the uploaded file, from its contents
+  width: integer("width").notNull(), // Of the uploaded image, after applying its orientation
+  height: integer("height").notNull(),
+  dominantColor: text("dominant_color"), // "#rrggbb", shown while the image loads
+  renditions: jsonb("renditions").$type<ImageRendition[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertImageAssetSchema = createInsertSchema(imageAssets).omit({
+  id: true,
+  createdAt: true
+});
+
+// Files uploaded as-is to S3 (documents, attachments), counted against the plan's storage limit
+export const uploadedFiles = pgTable("uploaded_files", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").references(() => vendors.id),
+  userId: integer("user_id").references(() => users.id), // Who uploaded it
+  key: text("key").notNull().unique(),
+  url: text("url").notNull(),
+  mimeType: text("mime_type"),
+  size: integer("size").notNull(), // Bytes
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertUploadedFileSchema = createInsertSchema(uploadedFiles).omit({
+  id: true,
+  createdAt: true
+});
+
+// Events received from payment gateways' webhooks. Gateways deliver at least
+// once, so an event is only acted on the first time it is claimed here.
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull(), // "stripe"
+  eventId: text("event_id").notNull(), // The gateway's ID for the event
+  type: text("type").notNull(), // e.g. "invoice.paid"
+  status: text("status").notNull().default("processing"), // "processing", "processed", "ignored", "failed"
+  attempts: integer("attempts").notNull().default(1),
+  error: text("error"), // Why processing last failed
+  payload: jsonb("payload").notNull(),
+  receivedAt: timestamp("received_at").defaultNow(),
+  claimedAt: timestamp("claimed_at").defaultNow(), // When the current attempt at processing it started
+  processedAt: timestamp("processed_at"),
+}, (table) => ({
+  providerEventIdx: uniqueIndex("webhook_events_provider_event_idx").on(table.provider, table.eventId),
+}));
+
+export const insertWebhookEventSchema = createInsertSchema(webhookEvents).omit({
+  id: true,
+  receivedAt: true,
+  claimedAt: true
+});
+
+// Last number issued in each run of sequentially numbered documents, e.g. a
+// vendor's tax invoices for one financial year
+export const documentSequences = pgTable("document_sequences", {
+  id: serial("id").primaryKey(),
+  scope: text("scope").notNull(), // Who issues the documents: "vendor:<id>" or "platform"
+  financialYear: text("financial_year").notNull(), // "2026-27", April to March
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => ({
+  scopeYearIdx: uniqueIndex("document_sequences_scope_year_idx").on(table.scope, table.financialYear),
+}));
+
+// Generated tax invoices: one per customer order (issued by the vendor) and
+// one per subscription invoice (issued by the platform to the vendor)
+export const taxDocuments = pgTable("tax_documents", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id),
+  type: text("type").notNull(), // "order_invoice", "subscription_invoice"
+  orderId: integer("order_id").references(() => orders.id),
+  invoiceId: integer("invoice_id").references(() => invoices.id),
+  documentNumber: text("document_number").notNull(), // e.g. "INV/26-27/00042"
+  financialYear: text("financial_year").notNull(),
+  issuedAt: timestamp("issued_at").notNull(),
+  storageKey: text("storage_key").notNull(), // Where the PDF is kept in the upload backend
+  showsPayment: boolean("shows_payment").notNull().default(false), // Rendered after payment, so it doubles as the receipt
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  orderIdx: uniqueIndex("tax_documents_order_idx").on(table.orderId),
+  invoiceIdx: uniqueIndex("tax_documents_invoice_idx").on(table.invoiceId),
+}));
+
+export const insertTaxDocumentSchema = createInsertSchema(taxDocuments).omit({
+  id: true,
+  createdAt: true
+});
+
+export const STOREFRONT_EVENT_TYPES = ["page_view", "product_view", "add_to_cart", "checkout_step"] as const;
+export type StorefrontEventType = typeof STOREFRONT_EVENT_TYPES[number];
+
+// Checkout steps in order; a session that reaches "confirmation" has converted
+export const CHECKOUT_STEPS = ["cart", "details", "payment", "confirmation"] as const;
+export type CheckoutStep = typeof CHECKOUT_STEPS[number];
+
+// What shoppers do on a storefront, recorded by the store's own pages and
+// rolled up into daily `analytics` rows. Sessions are anonymous.
+export const storefrontEvents = pgTable("storefront_events", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id, { onDelete: "cascade" }),
+  sessionId: text("session_id").notNull(), // Random ID kept in the shopper's browser
+  type: text("type").notNull(), // One of STOREFRONT_EVENT_TYPES
+  path: text("path"),
+  productId: integer("product_id"), // For product views and add to cart
+  step: text("step"), // For checkout steps, one of CHECKOUT_STEPS
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+}, (table) => ({
+  vendorOccurredIdx: index("storefront_events_vendor_occurred_idx").on(table.vendorId, table.occurredAt),
+}));
+
+export const insertStorefrontEventSchema = createInsertSchema(storefrontEvents, {
+  type: z.enum(STOREFRONT_EVENT_TYPES),
+  step: z.enum(CHECKOUT_STEPS).nullish(),
+}).omit({
+  id: true
+});
+
+export const REPORT_TYPES = [
+  "sales_by_day",
+  "sales_by_product",
+  "sales_by_category",
+  "gst_summary",
+  "inventory_valuation",
+  "customer_lifetime_value",
+] as const;
+export type ReportType = typeof REPORT_TYPES[number];
+
+export const REPORT_FORMATS = ["csv", "xlsx", "pdf"] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export const REPORT_FREQUENCIES = ["daily", "weekly", "monthly"] as const;
+export type ReportFrequency = typeof REPORT_FREQUENCIES[number];
+
+// A report file for a vendor, generated on request or by a schedule and
+// kept for download until it expires
+export const reportJobs = pgTable("report_jobs", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id), // Who asked for it; null for scheduled reports
+  scheduleId: integer("schedule_id"), // The schedule that ran it, if any
+  type: text("type").notNull(), // One of REPORT_TYPES
+  format: text("format").notNull(), // One of REPORT_FORMATS
+  rangeFrom: timestamp("range_from").notNull(),
+  rangeTo: timestamp("range_to").notNull(), // Exclusive
+  status: text("status").notNull().default("pending"), // "pending", "running", "completed", "failed"
+  rowCount: integer("row_count"),
+  fileName: text("file_name"),
+  storageKey: text("storage_key"), // Where the file is kept in the upload backend
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  expiresAt: timestamp("expires_at"), // The file is deleted after this
+}, (table) => ({
+  vendorCreatedIdx: index("report_jobs_vendor_created_idx").on(table.vendorId, table.createdAt),
+}));
+
+export const insertReportJobSchema = createInsertSchema(reportJobs, {
+  type: z.enum(REPORT_TYPES),
+  format: z.enum(REPORT_FORMATS),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+// A report emailed to a vendor's recipients every day, week or month,
+// covering the period that just ended
+export const reportSchedules = pgTable("report_schedules", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").notNull().references(() => vendors.id, { onDelete: "cascade" }),
+  userId: integer("user_id").references(() => users.id), // Who set it up
+  type: text("type").notNull(), // One of REPORT_TYPES
+  format: text("format").notNull(), // One of REPORT_FORMATS
+  frequency: text("frequency").notNull(), // One of REPORT_FREQUENCIES
+  recipients: text("recipients").array().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  lastJobId: integer("last_job_id"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  nextRunIdx: index("report_schedules_next_run_idx").on(table.nextRunAt),
+}));
+
+export const insertReportScheduleSchema = createInsertSchema(reportSchedules, {
+  type: z.enum(REPORT_TYPES),
+  format: z.enum(REPORT_FORMATS),
+  frequency: z.enum(REPORT_FREQUENCIES),
+  recipients: z.array(z.string().email()).min(1).max(10),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const JOB_RUN_STATUSES = ["running", "succeeded", "failed"] as const;
+export type JobRunStatus = typeof JOB_RUN_STATUSES[number];
+
+export const JOB_RUN_TRIGGERS = ["schedule", "retry", "manual"] as const;
+export type JobRunTrigger = typeof JOB_RUN_TRIGGERS[number];
+
+// A background job run by the scheduler. The jobs themselves are defined in
+// code; this keeps their schedule and state, shared by every instance.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  cronExpression: text("cron_expression").notNull(), // Five fields, in UTC
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  maxAttempts: integer("max_attempts").notNull().default(3), // Including the first, before waiting for the next scheduled run
+  failedAttempts: integer("failed_attempts").notNull().default(0), // In a row, since it last succeeded
+  nextRunAt: timestamp("next_run_at").notNull(),
+  runRequestedAt: timestamp("run_requested_at"), // Set by "run now", cleared when the run starts
+  lastRunAt: timestamp("last_run_at"),
+  lastSucceededAt: timestamp("last_succeeded_at"),
+  lastStatus: text("last_status"), // One of JOB_RUN_STATUSES
+  lastError: text("last_error"),
+  lastDurationMs: integer("last_duration_ms"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// One run of a scheduled job
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: text("job_name").notNull(),
+  trigger: text("trigger").notNull(), // One of JOB_RUN_TRIGGERS
+  attempt: integer("attempt").notNull().default(1),
+  status: text("status").notNull().default("running"), // One of JOB_RUN_STATUSES
+  instanceId: text("instance_id"), // The server that ran it
+  result: jsonb("result"), // What the job reported, e.g. how many rows it changed
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+}, (table) => ({
+  jobStartedIdx: index("job_runs_job_started_idx").on(table.jobName, table.startedAt),
+}));
+
+export const insertJobRunSchema = createInsertSchema(jobRuns, {
+  trigger: z.enum(JOB_RUN_TRIGGERS),
+  status: z.enum(JOB_RUN_STATUSES),
+}).omit({
+  id: true
+});
+
+// Transactional emails. Customer emails go out in a vendor's name and can be
+// reworded per vendor; vendor emails come from the platform.
+export const EMAIL_TEMPLATE_NAMES = [
+  "order_confirmation",
+  "shipping_update",
+  "refund_issued",
+  "invoice_due",
+  "trial_ending",
+  "domain_verified",
+  "payout_completed",
+  "payment_failed",
+  "store_suspended",
+  "scheduled_report",
+] as const;
+export type EmailTemplateName = typeof EMAIL_TEMPLATE_NAMES[number];
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sending", "sent", "failed"] as const;
+export type EmailOutboxStatus = typeof EMAIL_OUTBOX_STATUSES[number];
+
+// Someone's own wording for a transactional email, used instead of the
+// built-in one: a vendor's for their store, or the platform's with no vendor
+export const emailTemplates = pgTable("email_templates", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").references(() => vendors.id),
+  template: text("template").notNull(), // One of EMAIL_TEMPLATE_NAMES
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // Plain text with {{placeholders}}; a blank line starts a new paragraph
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  vendorTemplateIdx: uniqueIndex("email_templates_vendor_template_idx").on(table.vendorId, table.template),
+}));
+
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates, {
+  template: z.enum(EMAIL_TEMPLATE_NAMES),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
 });
 
+// A file sent with an outbox email, e.g. a scheduled report
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: string; // Base64
+}
+
+// An email waiting to be sent, or that was. Emails are rendered when they're
+// queued and sent in the background, so a mail server that's down delays
+// them instead of failing whatever queued them.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id").references(() => vendors.id), // The store it's about, if any
+  template: text("template").notNull(), // One of EMAIL_TEMPLATE_NAMES, or "test"
+  dedupeKey: text("dedupe_key").unique(), // Queueing the same key again does nothing, e.g. "order_confirmation:42"
+  to: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  attachments: jsonb("attachments").$type<EmailAttachment[]>(),
+  status: text("status").notNull().default("pending"), // One of EMAIL_OUTBOX_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  messageId: text("message_id"), // From the mail server, once sent
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  statusNextAttemptIdx: index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  status: z.enum(EMAIL_OUTBOX_STATUSES),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  attachments: z.array(z.object({
+    fileName: z.string(),
+    contentType: z.string(),
+    content: z.string(),
+  })).nullable().optional(),
+});
+
+// The platform's mail server, set by super admins. Without a row the EMAIL_*
+// environment variables are used.
+export const emailSettings = pgTable("email_settings", {
+  id: serial("id").primaryKey(),
+  host: text("host").notNull(),
+  port: integer("port").notNull().default(465),
+  secure: boolean("secure").notNull().default(true), // TLS from the start; otherwise STARTTLS when the server offers it
+  username: text("username"),
+  password: text("password"), // Sealed with the credential vault
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertEmailSettingsSchema = createInsertSchema(emailSettings).omit({
+  id: true,
+  updatedAt: true
+});
 
 
+
+export type ProductOption = typeof productOptions.$inferSelect;
+export type InsertProductOption = z.infer<typeof insertProductOptionSchema>;
+
+export type ProductOptionValue = typeof productOptionValues.$inferSelect;
+export type InsertProductOptionValue = z.infer<typeof insertProductOptionValueSchema>;
+
+// An option together with its values, as the product editor and storefront use it
+export interface ProductOptionWithValues extends ProductOption {
+  values: ProductOptionValue[];
+}
+
 export type ProductVariant = typeof productVariants.$inferSelect;
 export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
 
+export type ProductImportJob = typeof productImportJobs.$inferSelect;
+export type InsertProductImportJob = z.infer<typeof insertProductImportJobSchema>;
+
+export type ImageAsset = typeof imageAssets.$inferSelect;
+export type InsertImageAsset = z.infer<typeof insertImageAssetSchema>;
+
+export type UploadedFile = typeof uploadedFiles.$inferSelect;
+export type InsertUploadedFile = z.infer<typeof insertUploadedFileSchema>;
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = z.infer<typeof insertWebhookEventSchema>;
+
+export type TaxDocument = typeof taxDocuments.$inferSelect;
+export type InsertTaxDocument = z.infer<typeof insertTaxDocumentSchema>;
+
+export type StorefrontEvent = typeof storefrontEvents.$inferSelect;
+export type InsertStorefrontEvent = z.infer<typeof insertStorefrontEventSchema>;
+
+export type ReportJob = typeof reportJobs.$inferSelect;
+export type InsertReportJob = z.infer<typeof insertReportJobSchema>;
+
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+export type InsertReportSchedule = z.infer<typeof insertReportScheduleSchema>;
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+
+export type EmailSettings = typeof emailSettings.$inferSelect;
+export type InsertEmailSettings = z.infer<typeof insertEmailSettingsSchema>;
+
 export type PaymentProviderSettings = typeof paymentProviderSettings.$inferSelect;
 export type InsertPaymentProviderSettings = z.infer<typeof insertPaymentProviderSettingsSchema>;
\ No newline at end of file